@@ -0,0 +1,16 @@
+/**
+ * Adnify 命令行入口（headless 模式，不启动 Electron）
+ *
+ * 用法: adnify run --workspace . --mode agent "prompt"
+ */
+
+import { runCli } from './services/headless'
+
+runCli(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code
+  })
+  .catch((error) => {
+    process.stderr.write(`${error instanceof Error ? error.stack || error.message : String(error)}\n`)
+    process.exitCode = 1
+  })
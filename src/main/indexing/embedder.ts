@@ -1,9 +1,10 @@
 /**
  * Embedding 服务
- * 支持多个免费/付费 Embedding API 提供商
+ * 支持多个免费/付费 Embedding API 提供商，以及进程内运行的本地模型
  * 包含速率限制和重试机制
  */
 
+import { embedLocal, loadLocalModel, ModelProgressCallback } from './localEmbedder'
 import {
   EmbeddingConfig,
   EmbeddingProvider,
@@ -29,6 +30,7 @@ const RATE_LIMITS: Record<EmbeddingProvider, { rpm: number; batchSize: number }>
   cohere: { rpm: 100, batchSize: 96 },     // Cohere 免费 100/min
   huggingface: { rpm: 30, batchSize: 1 },  // HuggingFace 逐个请求
   ollama: { rpm: 1000, batchSize: 1 },     // 本地无限制
+  local: { rpm: 60000, batchSize: 16 },    // 进程内推理，批次大小决定峰值内存
   custom: { rpm: 60, batchSize: 50 },      // 自定义服务默认配置
 }
 
@@ -57,19 +59,25 @@ class RateLimiter {
   }
 }
 
+export interface EmbeddingServiceOptions {
+  onModelProgress?: ModelProgressCallback  // 本地模型下载 / 加载进度
+}
+
 export class EmbeddingService {
   private config: EmbeddingConfig
+  private options: EmbeddingServiceOptions
   private rateLimiter: RateLimiter
   private batchSize: number
 
-  constructor(config: EmbeddingConfig) {
+  constructor(config: EmbeddingConfig, options: EmbeddingServiceOptions = {}) {
     this.config = {
       ...config,
       model: this.resolveModel(config.provider, config.model),
     }
+    this.options = options
     const limits = RATE_LIMITS[config.provider]
     this.rateLimiter = new RateLimiter(limits.rpm)
-    this.batchSize = limits.batchSize
+    this.batchSize = config.batchSize || limits.batchSize
   }
 
   /**
@@ -118,7 +126,17 @@ export class EmbeddingService {
     if (config.provider) {
       const limits = RATE_LIMITS[config.provider]
       this.rateLimiter = new RateLimiter(limits.rpm)
-      this.batchSize = limits.batchSize
+    }
+    this.batchSize = this.config.batchSize || RATE_LIMITS[this.config.provider].batchSize
+  }
+
+  /**
+   * 预先准备（本地模型下载并加载，远程服务无需准备）
+   * 失败时直接抛出，避免每个批次分别重试
+   */
+  async prepare(): Promise<void> {
+    if (this.config.provider === 'local') {
+      await loadLocalModel(this.config.model!, this.getLocalModelOptions())
     }
   }
 
@@ -197,6 +215,8 @@ export class EmbeddingService {
         return this.embedHuggingFace(texts)
       case 'ollama':
         return this.embedOllama(texts)
+      case 'local':
+        return embedLocal(this.config.model!, texts, this.getLocalModelOptions())
       case 'custom':
         return this.embedCustom(texts)
       default:
@@ -208,6 +228,13 @@ export class EmbeddingService {
     return new Promise(resolve => setTimeout(resolve, ms))
   }
 
+  private getLocalModelOptions() {
+    return {
+      cacheDir: this.config.cacheDir,
+      remoteHost: this.config.baseUrl,
+      onProgress: this.options.onModelProgress,
+    }
+  }
 
   /**
    * Jina AI Embedding
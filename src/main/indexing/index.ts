@@ -4,6 +4,10 @@
 
 export * from './types'
 export * from './embedder'
+export * from './localEmbedder'
 export * from './chunker'
 export * from './vectorStore'
 export * from './indexService'
+export * from './reranker'
+export * from './symbolExtractor'
+export * from './symbolGraph'
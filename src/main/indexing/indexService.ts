@@ -9,11 +9,20 @@ import { BrowserWindow } from 'electron'
 import { Worker } from 'worker_threads'
 import { EmbeddingService } from './embedder'
 import { VectorStoreService } from './vectorStore'
+import { RerankService } from './reranker'
+import { SymbolGraphStore, ImportDirection, CalleeInfo } from './symbolGraph'
+import { getUserConfigDir, CONFIG_FILES } from '../services/configPath'
 import {
   IndexConfig,
   IndexStatus,
   SearchResult,
+  SearchOptions,
   EmbeddingConfig,
+  RerankConfig,
+  FileSymbolGraph,
+  SymbolLocation,
+  ImportGraphResult,
+  ModelLoadProgress,
   DEFAULT_INDEX_CONFIG,
 } from './types'
 
@@ -21,14 +30,16 @@ import {
  * Worker 响应消息类型（与 worker 中定义保持一致）
  */
 interface WorkerProgressMessage { type: 'progress'; processed: number; total: number }
-interface WorkerResultMessage { type: 'result'; chunks: any[]; processed: number; total: number }
-interface WorkerUpdateResultMessage { type: 'update_result'; filePath: string; chunks: any[]; deleted: boolean }
-interface WorkerBatchUpdateResultMessage { type: 'batch_update_result'; results: Array<{ filePath: string; chunks: any[]; deleted: boolean }> }
+interface WorkerModelProgressMessage { type: 'model_progress'; progress: ModelLoadProgress }
+interface WorkerResultMessage { type: 'result'; chunks: any[]; graphs?: FileSymbolGraph[]; processed: number; total: number }
+interface WorkerUpdateResultMessage { type: 'update_result'; filePath: string; chunks: any[]; deleted: boolean; graph?: FileSymbolGraph }
+interface WorkerBatchUpdateResultMessage { type: 'batch_update_result'; results: Array<{ filePath: string; chunks: any[]; deleted: boolean; graph?: FileSymbolGraph }> }
 interface WorkerCompleteMessage { type: 'complete'; totalChunks: number }
 interface WorkerErrorMessage { type: 'error'; error: string }
 
 type WorkerMessage = 
   | WorkerProgressMessage 
+  | WorkerModelProgressMessage
   | WorkerResultMessage 
   | WorkerUpdateResultMessage 
   | WorkerBatchUpdateResultMessage
@@ -40,6 +51,8 @@ export class CodebaseIndexService {
   private config: IndexConfig
   private embedder: EmbeddingService
   private vectorStore: VectorStoreService
+  private reranker: RerankService
+  private symbolGraph: SymbolGraphStore
   private mainWindow: BrowserWindow | null = null
   private worker: Worker | null = null
 
@@ -57,8 +70,17 @@ export class CodebaseIndexService {
   constructor(workspacePath: string, config?: Partial<IndexConfig>) {
     this.workspacePath = workspacePath
     this.config = { ...DEFAULT_INDEX_CONFIG, ...config }
-    this.embedder = new EmbeddingService(this.config.embedding)
+    // 本地模型缓存在用户配置目录下，所有工作区共享
+    this.config.embedding = {
+      ...this.config.embedding,
+      cacheDir: this.config.embedding.cacheDir || path.join(getUserConfigDir(), CONFIG_FILES.MODELS_DIR),
+    }
+    this.embedder = new EmbeddingService(this.config.embedding, {
+      onModelProgress: progress => this.updateModelProgress(progress),
+    })
+    this.reranker = new RerankService(this.config.rerank)
     this.vectorStore = new VectorStoreService(workspacePath)
+    this.symbolGraph = new SymbolGraphStore(workspacePath)
     this.initWorker()
   }
 
@@ -75,7 +97,12 @@ export class CodebaseIndexService {
             this.emitProgress()
             break
 
+          case 'model_progress':
+            this.updateModelProgress(message.progress)
+            break
+
           case 'result':
+            message.graphs?.forEach(graph => this.symbolGraph.upsertFile(graph))
             if (message.chunks?.length > 0) {
               await this.vectorStore.addBatch(message.chunks)
               this.status.totalChunks += message.chunks.length
@@ -86,6 +113,7 @@ export class CodebaseIndexService {
             break
 
           case 'update_result':
+            this.applyGraphUpdate(message)
             if (message.deleted) {
               await this.vectorStore.deleteFile(message.filePath)
             } else if (message.chunks?.length > 0) {
@@ -96,6 +124,7 @@ export class CodebaseIndexService {
 
           case 'batch_update_result':
             for (const result of message.results) {
+              this.applyGraphUpdate(result)
               if (result.deleted) {
                 await this.vectorStore.deleteFile(result.filePath)
               } else if (result.chunks?.length > 0) {
@@ -109,6 +138,7 @@ export class CodebaseIndexService {
             this.status.isIndexing = false
             this.status.lastIndexedAt = Date.now()
             logger.index.info(`[IndexService] Indexing complete. Total chunks: ${this.status.totalChunks}`)
+            this.symbolGraph.flush()
             this.emitProgress(true)
             break
 
@@ -144,7 +174,7 @@ export class CodebaseIndexService {
    * 初始化服务
    */
   async initialize(): Promise<void> {
-    await this.vectorStore.initialize()
+    await Promise.all([this.vectorStore.initialize(), this.symbolGraph.load()])
 
     // 从数据库读取实际的索引统计
     const hasExistingIndex = await this.vectorStore.hasIndex()
@@ -166,6 +196,9 @@ export class CodebaseIndexService {
     if (config.embedding) {
       this.embedder.updateConfig(config.embedding)
     }
+    if (config.rerank) {
+      this.reranker.updateConfig(config.rerank)
+    }
     // Worker will get new config on next message
   }
 
@@ -187,6 +220,14 @@ export class CodebaseIndexService {
     this.embedder.updateConfig(this.config.embedding)
   }
 
+  /**
+   * 更新 Rerank 配置
+   */
+  updateRerankConfig(config: Partial<RerankConfig>): void {
+    this.config.rerank = { ...this.config.rerank, ...config }
+    this.reranker.updateConfig(config)
+  }
+
   /**
    * 获取当前状态
    */
@@ -233,6 +274,7 @@ export class CodebaseIndexService {
         type: 'index',
         workspacePath: this.workspacePath,
         config: this.config,
+        graphHashes: this.symbolGraph.getFileHashes(),
         existingHashes
       })
 
@@ -305,6 +347,7 @@ export class CodebaseIndexService {
    * 删除文件索引
    */
   async deleteFileIndex(filePath: string): Promise<void> {
+    this.symbolGraph.deleteFile(filePath)
     if (!this.vectorStore.isInitialized()) {
       return
     }
@@ -332,29 +375,62 @@ export class CodebaseIndexService {
    * 混合搜索（向量 + 关键词）
    * 结合语义搜索和关键词搜索，使用 RRF (Reciprocal Rank Fusion) 融合结果
    */
-  async hybridSearch(query: string, topK: number = 10): Promise<SearchResult[]> {
+  async hybridSearch(query: string, topK: number = 10, options: SearchOptions = {}): Promise<SearchResult[]> {
     if (!this.vectorStore.isInitialized()) {
       throw new Error('Index not initialized')
     }
 
+    // 启用重排时扩大候选集，融合后再由 reranker 截取 topK
+    const candidates = this.reranker.isEnabled() ? this.reranker.getCandidateCount(topK) : topK
+
     // 提取关键词（简单分词：按空格和常见分隔符拆分，过滤短词）
     const keywords = this.extractKeywords(query)
 
     // 并行执行向量搜索和关键词搜索
     const [semanticResults, keywordResults] = await Promise.all([
-      this.search(query, topK * 2),
+      this.search(query, candidates * 2),
       keywords.length > 0 
-        ? this.vectorStore.keywordSearch(keywords, topK * 2)
+        ? this.vectorStore.keywordSearch(keywords, candidates * 2)
         : Promise.resolve([])
     ])
 
-    // 如果没有关键词结果，直接返回语义结果
-    if (keywordResults.length === 0) {
-      return semanticResults.slice(0, topK)
-    }
+    // 如果没有关键词结果，直接使用语义结果；否则使用 RRF 融合两个结果集
+    const fused = keywordResults.length === 0
+      ? semanticResults.slice(0, candidates)
+      : this.fuseResults(semanticResults, keywordResults, candidates)
 
-    // 使用 RRF 融合两个结果集
-    return this.fuseResults(semanticResults, keywordResults, topK)
+    const reranked = await this.reranker.rerank(query, fused, options)
+    return this.symbolGraph.attachRelated(reranked.slice(0, topK))
+  }
+
+  // ========== 符号图查询 ==========
+
+  /**
+   * 符号图是否为空（尚未建立索引）
+   */
+  hasSymbolGraph(): boolean {
+    return !this.symbolGraph.isEmpty()
+  }
+
+  /**
+   * 查找符号的调用者
+   */
+  getCallers(symbol: string, filePath?: string): SymbolLocation[] {
+    return this.symbolGraph.getCallers(symbol, filePath && path.resolve(this.workspacePath, filePath))
+  }
+
+  /**
+   * 查找符号调用的其他符号
+   */
+  getCallees(symbol: string, filePath?: string): Array<{ definition: SymbolLocation; callees: CalleeInfo[] }> {
+    return this.symbolGraph.getCallees(symbol, filePath && path.resolve(this.workspacePath, filePath))
+  }
+
+  /**
+   * 获取文件的导入图（路径统一解析为绝对路径，与 Worker 生成的键一致）
+   */
+  getImportGraph(filePath: string, direction?: ImportDirection, depth?: number): ImportGraphResult {
+    return this.symbolGraph.getImportGraph(path.resolve(this.workspacePath, filePath), direction, depth)
   }
 
   /**
@@ -412,6 +488,7 @@ export class CodebaseIndexService {
    */
   async clearIndex(): Promise<void> {
     await this.vectorStore.clear()
+    await this.symbolGraph.clear()
     this.status = {
       isIndexing: false,
       totalFiles: 0,
@@ -436,10 +513,31 @@ export class CodebaseIndexService {
       this.worker.terminate()
       this.worker = null
     }
+    // 写入尚未落盘的符号图变更
+    this.symbolGraph.flush()
   }
 
   // ========== 私有方法 ==========
 
+  /**
+   * 更新本地模型加载进度（Worker 索引和主进程查询都会触发）
+   */
+  private updateModelProgress(progress: ModelLoadProgress): void {
+    this.status.modelProgress = progress
+    this.emitProgress(progress.status === 'ready')
+  }
+
+  /**
+   * 应用 Worker 返回的符号图变更
+   */
+  private applyGraphUpdate(update: { filePath: string; deleted: boolean; graph?: FileSymbolGraph }): void {
+    if (update.graph) {
+      this.symbolGraph.upsertFile(update.graph)
+    } else if (update.deleted) {
+      this.symbolGraph.deleteFile(update.filePath)
+    }
+  }
+
   /**
    * 发送进度事件到渲染进程（带节流）
    */
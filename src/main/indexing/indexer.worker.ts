@@ -7,15 +7,16 @@ import * as crypto from 'crypto'
 import pLimit from 'p-limit'
 import { ChunkerService } from './chunker'
 import { TreeSitterChunker } from './treeSitterChunker'
+import { SymbolExtractor } from './symbolExtractor'
 import { EmbeddingService } from './embedder'
-import { CodeChunk, IndexedChunk, IndexConfig } from './types'
+import { CodeChunk, IndexedChunk, IndexConfig, FileSymbolGraph, ModelLoadProgress } from './types'
 
 /**
  * Worker 消息类型定义
  * 注意：Map 通过 postMessage 传递会变成普通对象，所以用 Record 类型
  */
 type WorkerMessage =
-  | { type: 'index'; workspacePath: string; config: IndexConfig; existingHashes?: Record<string, string> }
+  | { type: 'index'; workspacePath: string; config: IndexConfig; existingHashes?: Record<string, string>; graphHashes?: Record<string, string> }
   | { type: 'update'; workspacePath: string; file: string; config: IndexConfig }
   | { type: 'batch_update'; workspacePath: string; files: string[]; config: IndexConfig }
 
@@ -24,9 +25,10 @@ type WorkerMessage =
  */
 type WorkerResponse =
   | { type: 'progress'; processed: number; total: number }
-  | { type: 'result'; chunks: IndexedChunk[]; processed: number; total: number }
-  | { type: 'update_result'; filePath: string; chunks: IndexedChunk[]; deleted: boolean }
-  | { type: 'batch_update_result'; results: Array<{ filePath: string; chunks: IndexedChunk[]; deleted: boolean }> }
+  | { type: 'model_progress'; progress: ModelLoadProgress }
+  | { type: 'result'; chunks: IndexedChunk[]; graphs: FileSymbolGraph[]; processed: number; total: number }
+  | { type: 'update_result'; filePath: string; chunks: IndexedChunk[]; deleted: boolean; graph?: FileSymbolGraph }
+  | { type: 'batch_update_result'; results: Array<{ filePath: string; chunks: IndexedChunk[]; deleted: boolean; graph?: FileSymbolGraph }> }
   | { type: 'complete'; totalChunks: number }
   | { type: 'error'; error: string }
 
@@ -37,8 +39,9 @@ if (!parentPort) {
 // 全局 Chunker 实例（跨请求复用）
 let regexChunker: ChunkerService | null = null
 let tsChunker: TreeSitterChunker | null = null
+let symbolExtractor: SymbolExtractor | null = null
 
-async function getChunkers(config: IndexConfig): Promise<{ regexChunker: ChunkerService; tsChunker: TreeSitterChunker }> {
+async function getChunkers(config: IndexConfig): Promise<{ regexChunker: ChunkerService; tsChunker: TreeSitterChunker; symbolExtractor: SymbolExtractor }> {
   if (!regexChunker) {
     regexChunker = new ChunkerService(config)
   } else {
@@ -48,19 +51,26 @@ async function getChunkers(config: IndexConfig): Promise<{ regexChunker: Chunker
   if (!tsChunker) {
     tsChunker = new TreeSitterChunker(config)
     await tsChunker.init()
+    symbolExtractor = new SymbolExtractor(tsChunker)
   }
-  return { regexChunker, tsChunker }
+  return { regexChunker, tsChunker, symbolExtractor: symbolExtractor! }
 }
 
 function postResponse(response: WorkerResponse): void {
   parentPort?.postMessage(response)
 }
 
+function createEmbedder(config: IndexConfig): EmbeddingService {
+  return new EmbeddingService(config.embedding, {
+    onModelProgress: progress => postResponse({ type: 'model_progress', progress }),
+  })
+}
+
 parentPort.on('message', async (message: WorkerMessage) => {
   try {
     switch (message.type) {
       case 'index':
-        await handleIndex(message.workspacePath, message.config, message.existingHashes)
+        await handleIndex(message.workspacePath, message.config, message.existingHashes, message.graphHashes)
         break
       case 'update':
         await handleUpdate(message.workspacePath, message.file, message.config)
@@ -80,22 +90,23 @@ parentPort.on('message', async (message: WorkerMessage) => {
 /**
  * 处理全量索引请求
  * existingHashes 是普通对象（Map 通过 postMessage 传递后会序列化）
+ * graphHashes 为符号图中的文件哈希，符号图不依赖 Embedding，与向量分别做增量判断
  */
 async function handleIndex(
   workspacePath: string,
   config: IndexConfig,
-  existingHashes?: Record<string, string>
+  existingHashes?: Record<string, string>,
+  graphHashes?: Record<string, string>
 ): Promise<void> {
   const files = await collectCodeFiles(workspacePath, config)
   const totalFiles = files.length
   const currentFileSet = new Set(files)
 
-  // 检测已删除的文件
-  if (existingHashes) {
-    for (const filePath of Object.keys(existingHashes)) {
-      if (!currentFileSet.has(filePath)) {
-        postResponse({ type: 'update_result', filePath, chunks: [], deleted: true })
-      }
+  // 检测已删除的文件（向量与符号图的哈希分别记录，Embedding 失败时文件可能只存在于符号图中）
+  const indexedFiles = new Set([...Object.keys(existingHashes ?? {}), ...Object.keys(graphHashes ?? {})])
+  for (const filePath of indexedFiles) {
+    if (!currentFileSet.has(filePath)) {
+      postResponse({ type: 'update_result', filePath, chunks: [], deleted: true })
     }
   }
 
@@ -106,20 +117,31 @@ async function handleIndex(
     return
   }
 
-  const { regexChunker, tsChunker } = await getChunkers(config)
-  const embedder = new EmbeddingService(config.embedding)
+  const { regexChunker, tsChunker, symbolExtractor } = await getChunkers(config)
+  const embedder = createEmbedder(config)
   const limit = pLimit(10)
 
+  // 本地模型在此下载 / 加载；失败时仅构建符号图，结束后整体报错而不是逐文件重试
+  let embedderError: string | null = null
+  try {
+    await embedder.prepare()
+  } catch (error) {
+    embedderError = error instanceof Error ? error.message : String(error)
+    logger.index.error('[Worker] Failed to prepare embedding model:', error)
+  }
+
   let processedFiles = 0
   let totalChunks = 0
   let skippedFiles = 0
   let pendingChunks: IndexedChunk[] = []
+  let pendingGraphs: FileSymbolGraph[] = []
   const RESULT_BATCH_SIZE = 50
 
   const flushChunks = (): void => {
-    if (pendingChunks.length > 0) {
-      postResponse({ type: 'result', chunks: pendingChunks, processed: processedFiles, total: totalFiles })
+    if (pendingChunks.length > 0 || pendingGraphs.length > 0) {
+      postResponse({ type: 'result', chunks: pendingChunks, graphs: pendingGraphs, processed: processedFiles, total: totalFiles })
       pendingChunks = []
+      pendingGraphs = []
     }
   }
 
@@ -134,6 +156,12 @@ async function handleIndex(
 
       const currentHash = crypto.createHash('sha256').update(content).digest('hex')
 
+      // 符号图先于 Embedding 构建，Embedding 失败时仍可使用
+      if (!graphHashes || graphHashes[filePath] !== currentHash) {
+        const graph = await symbolExtractor.extract(filePath, content, workspacePath)
+        if (graph) pendingGraphs.push(graph)
+      }
+
       // 使用对象属性访问（不是 Map.get）
       if (existingHashes && existingHashes[filePath] === currentHash) {
         skippedFiles++
@@ -144,7 +172,7 @@ async function handleIndex(
         return
       }
 
-      const chunks = await chunkFile(tsChunker, regexChunker, filePath, content, workspacePath)
+      const chunks = embedderError ? [] : await chunkFile(tsChunker, regexChunker, filePath, content, workspacePath)
       
       if (chunks.length > 0) {
         const texts = chunks.map(c => prepareTextForEmbedding(c))
@@ -160,7 +188,7 @@ async function handleIndex(
       
       processedFiles++
       
-      if (pendingChunks.length >= RESULT_BATCH_SIZE) {
+      if (pendingChunks.length >= RESULT_BATCH_SIZE || pendingGraphs.length >= RESULT_BATCH_SIZE) {
         flushChunks()
       } else if (processedFiles % 10 === 0) {
         postResponse({ type: 'progress', processed: processedFiles, total: totalFiles })
@@ -174,6 +202,11 @@ async function handleIndex(
   await Promise.all(tasks)
   flushChunks()
 
+  if (embedderError) {
+    postResponse({ type: 'error', error: embedderError })
+    return
+  }
+
   logger.index.info(`[Worker] Indexing complete. Total: ${totalFiles}, Skipped: ${skippedFiles}, Chunks: ${totalChunks}`)
   postResponse({ type: 'complete', totalChunks })
 }
@@ -182,8 +215,8 @@ async function handleIndex(
  * 处理单文件更新请求
  */
 async function handleUpdate(workspacePath: string, filePath: string, config: IndexConfig): Promise<void> {
-  const { regexChunker, tsChunker } = await getChunkers(config)
-  const embedder = new EmbeddingService(config.embedding)
+  const { regexChunker, tsChunker, symbolExtractor } = await getChunkers(config)
+  const embedder = createEmbedder(config)
 
   // 检查文件是否存在
   try {
@@ -199,34 +232,43 @@ async function handleUpdate(workspacePath: string, filePath: string, config: Ind
     return
   }
 
+  const graph = await symbolExtractor.extract(filePath, content, workspacePath) ?? undefined
   const chunks = await chunkFile(tsChunker, regexChunker, filePath, content, workspacePath)
 
   if (chunks.length === 0) {
-    postResponse({ type: 'update_result', filePath, chunks: [], deleted: true })
+    postResponse({ type: 'update_result', filePath, chunks: [], deleted: true, graph })
     return
   }
 
   const texts = chunks.map(c => prepareTextForEmbedding(c))
-  const vectors = await embedder.embedBatch(texts)
+  let vectors: number[][]
+  try {
+    vectors = await embedder.embedBatch(texts)
+  } catch (error) {
+    // Embedding 失败时仍更新符号图，保留原有向量
+    if (graph) postResponse({ type: 'update_result', filePath, chunks: [], deleted: false, graph })
+    throw error
+  }
 
   const indexedChunks: IndexedChunk[] = chunks
     .map((chunk, idx) => vectors[idx] ? { ...chunk, vector: vectors[idx] } : null)
     .filter((c): c is IndexedChunk => c !== null)
 
-  postResponse({ type: 'update_result', filePath, chunks: indexedChunks, deleted: false })
+  postResponse({ type: 'update_result', filePath, chunks: indexedChunks, deleted: false, graph })
 }
 
 /**
  * 处理批量文件更新请求
  */
 async function handleBatchUpdate(workspacePath: string, files: string[], config: IndexConfig): Promise<void> {
-  const { regexChunker, tsChunker } = await getChunkers(config)
-  const embedder = new EmbeddingService(config.embedding)
+  const { regexChunker, tsChunker, symbolExtractor } = await getChunkers(config)
+  const embedder = createEmbedder(config)
   const limit = pLimit(5) // 批量更新时降低并发
 
-  const results: Array<{ filePath: string; chunks: IndexedChunk[]; deleted: boolean }> = []
+  const results: Array<{ filePath: string; chunks: IndexedChunk[]; deleted: boolean; graph?: FileSymbolGraph }> = []
 
   const tasks = files.map(filePath => limit(async () => {
+    let graph: FileSymbolGraph | undefined
     try {
       // 检查文件是否存在
       try {
@@ -242,10 +284,11 @@ async function handleBatchUpdate(workspacePath: string, files: string[], config:
         return
       }
 
+      graph = await symbolExtractor.extract(filePath, content, workspacePath) ?? undefined
       const chunks = await chunkFile(tsChunker, regexChunker, filePath, content, workspacePath)
 
       if (chunks.length === 0) {
-        results.push({ filePath, chunks: [], deleted: true })
+        results.push({ filePath, chunks: [], deleted: true, graph })
         return
       }
 
@@ -256,10 +299,11 @@ async function handleBatchUpdate(workspacePath: string, files: string[], config:
         .map((chunk, idx) => vectors[idx] ? { ...chunk, vector: vectors[idx] } : null)
         .filter((c): c is IndexedChunk => c !== null)
 
-      results.push({ filePath, chunks: indexedChunks, deleted: false })
+      results.push({ filePath, chunks: indexedChunks, deleted: false, graph })
     } catch (error) {
       logger.index.error(`[Worker] Error updating file ${filePath}:`, error)
-      // 出错的文件跳过，不影响其他文件
+      // 出错的文件跳过，不影响其他文件；已提取的符号图仍然更新
+      if (graph) results.push({ filePath, chunks: [], deleted: false, graph })
     }
   }))
 
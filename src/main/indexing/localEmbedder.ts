@@ -0,0 +1,114 @@
+/**
+ * 本地 Embedding 模型
+ * 使用 transformers.js（ONNX Runtime）在进程内运行，无需任何外部服务
+ *
+ * 模型首次使用时下载到 cacheDir，目录结构为 <cacheDir>/<模型 ID>/...，与 HuggingFace 仓库一致。
+ * 离线环境可将模型仓库直接拷贝到该目录下使用
+ */
+
+import { logger } from '@shared/utils/Logger'
+import type { FeatureExtractionPipeline, ProgressInfo } from '@huggingface/transformers'
+import { ModelLoadProgress, EMBEDDING_ENDPOINTS } from './types'
+
+// 量化模型体积约为 fp32 的 1/4，对检索质量影响很小
+const MODEL_DTYPE = 'q8'
+
+export type ModelProgressCallback = (progress: ModelLoadProgress) => void
+
+export interface LocalModelOptions {
+  cacheDir?: string
+  remoteHost?: string
+  onProgress?: ModelProgressCallback
+}
+
+interface LoadedModel {
+  extractor: FeatureExtractionPipeline
+  // 推理串行执行，避免并发批次叠加内存占用
+  queue: Promise<unknown>
+}
+
+// 按 模型 + 缓存目录 复用（Worker 中每个任务都会新建 EmbeddingService）
+const models = new Map<string, Promise<LoadedModel>>()
+
+/**
+ * 加载模型（已加载时直接返回）
+ */
+export function loadLocalModel(model: string, options: LocalModelOptions = {}): Promise<LoadedModel> {
+  const key = `${options.cacheDir || ''}::${model}`
+  let loading = models.get(key)
+  if (!loading) {
+    loading = createModel(model, options)
+    // 加载失败时移除，允许下次重试（例如网络恢复或模型被手动拷贝进缓存目录）
+    loading.catch(() => models.delete(key))
+    models.set(key, loading)
+  }
+  return loading
+}
+
+/**
+ * 计算一批文本的向量（mean pooling + 归一化）
+ */
+export async function embedLocal(model: string, texts: string[], options: LocalModelOptions = {}): Promise<number[][]> {
+  const loaded = await loadLocalModel(model, options)
+
+  const run = loaded.queue.then(async () => {
+    const output = await loaded.extractor(texts, { pooling: 'mean', normalize: true })
+    const vectors = output.tolist() as number[][]
+    output.dispose()
+    return vectors
+  })
+  loaded.queue = run.catch(() => undefined)
+  return run
+}
+
+async function createModel(model: string, options: LocalModelOptions): Promise<LoadedModel> {
+  const { pipeline, env } = await import('@huggingface/transformers')
+
+  if (options.cacheDir) {
+    env.cacheDir = options.cacheDir
+    env.localModelPath = options.cacheDir
+  }
+  env.remoteHost = options.remoteHost || EMBEDDING_ENDPOINTS.local
+
+  const report = createProgressReporter(model, options.onProgress)
+  logger.index.info(`[LocalEmbedder] Loading ${model} (cache: ${options.cacheDir || env.cacheDir})`)
+
+  const extractor = await pipeline('feature-extraction', model, {
+    dtype: MODEL_DTYPE,
+    cache_dir: options.cacheDir,
+    progress_callback: report,
+  })
+
+  logger.index.info(`[LocalEmbedder] Model ready: ${model}`)
+  options.onProgress?.({ model, status: 'ready', progress: 100 })
+  return { extractor, queue: Promise.resolve() }
+}
+
+/**
+ * 将 transformers.js 的逐文件进度汇总为整体进度
+ * 已缓存的文件不会产生 progress 事件，此时只报告 loading
+ */
+function createProgressReporter(model: string, onProgress?: ModelProgressCallback): ((info: ProgressInfo) => void) | undefined {
+  if (!onProgress) return undefined
+
+  const files = new Map<string, { loaded: number; total: number }>()
+
+  return (info: ProgressInfo) => {
+    switch (info.status) {
+      case 'initiate':
+        onProgress({ model, status: 'loading', progress: 0, file: info.file })
+        break
+      case 'progress': {
+        files.set(info.file, { loaded: info.loaded, total: info.total })
+        let loaded = 0
+        let total = 0
+        for (const file of files.values()) {
+          loaded += file.loaded
+          total += file.total
+        }
+        onProgress({ model, status: 'downloading', progress: total > 0 ? Math.round((loaded / total) * 100) : 0, file: info.file })
+        break
+      }
+    }
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * 搜索结果重排服务
+ * 在向量 + 关键词 RRF 融合之后执行，支持：
+ * - heuristic：零依赖的本地启发式（符号名匹配、路径匹配、与当前文件的路径邻近度）
+ * - jina / cohere / voyage / ollama / custom：HTTP cross-encoder 重排接口
+ *
+ * HTTP 重排失败时回退到启发式，保证搜索可用
+ */
+
+import { logger } from '@shared/utils/Logger'
+import {
+  RerankConfig,
+  RerankProvider,
+  SearchResult,
+  SearchOptions,
+  DEFAULT_RERANK_MODELS,
+  RERANK_ENDPOINTS,
+} from './types'
+
+// 发送给重排接口的单个文档最大长度
+const MAX_DOCUMENT_CHARS = 4000
+
+// 启发式各信号权重（合计为 1）
+const HEURISTIC_WEIGHTS = {
+  fusion: 0.45,
+  symbol: 0.3,
+  path: 0.1,
+  proximity: 0.15,
+}
+
+/**
+ * 拆分查询为小写 token，驼峰 / 下划线标识符同时保留整体和拆分部分
+ */
+export function tokenizeQuery(query: string): string[] {
+  const tokens = new Set<string>()
+  for (const raw of query.split(/[\s,.:;!?()[\]{}'"<>/\\]+/)) {
+    if (raw.length < 2 || /^\d+$/.test(raw)) continue
+    tokens.add(raw.toLowerCase())
+    for (const part of raw.split(/_|-|(?<=[a-z0-9])(?=[A-Z])/)) {
+      if (part.length >= 3) tokens.add(part.toLowerCase())
+    }
+  }
+  return Array.from(tokens)
+}
+
+function toPosix(p: string): string {
+  return p.replace(/\\/g, '/').toLowerCase()
+}
+
+function dirSegments(p: string): string[] {
+  return toPosix(p).split('/').filter(Boolean).slice(0, -1)
+}
+
+/**
+ * 计算结果与当前文件的路径邻近度（0-1）
+ */
+function pathProximity(filePath: string, activeFile: string): { score: number; reason?: string } {
+  if (toPosix(filePath) === toPosix(activeFile)) {
+    return { score: 1, reason: 'active file' }
+  }
+
+  const a = dirSegments(filePath)
+  const b = dirSegments(activeFile)
+  let shared = 0
+  while (shared < a.length && shared < b.length && a[shared] === b[shared]) shared++
+
+  if (shared === a.length && shared === b.length) {
+    return { score: 0.8, reason: 'same directory as active file' }
+  }
+  // 到公共祖先的距离越远得分越低
+  const distance = (a.length - shared) + (b.length - shared)
+  const score = shared === 0 ? 0 : 0.6 / distance
+  return score > 0.1 ? { score, reason: `near active file (${distance} dirs apart)` } : { score: 0 }
+}
+
+/**
+ * 启发式重排
+ * 以融合分数为基础，叠加符号名匹配、路径匹配与路径邻近度
+ */
+export function heuristicRerank(query: string, results: SearchResult[], options: SearchOptions = {}): SearchResult[] {
+  if (results.length === 0) return []
+
+  const tokens = tokenizeQuery(query)
+  const maxFusion = Math.max(...results.map(r => r.score)) || 1
+
+  return results
+    .map(result => {
+      const reasons: string[] = []
+
+      // 符号名匹配：完全匹配优先于部分匹配
+      let symbolScore = 0
+      const symbols = (result.symbols || []).map(s => s.toLowerCase())
+      for (const token of tokens) {
+        const exact = symbols.find(s => s === token)
+        const partial = exact ? undefined : symbols.find(s => token.length >= 3 && s.includes(token))
+        if (exact || partial) {
+          symbolScore = Math.max(symbolScore, exact ? 1 : 0.5)
+          reasons.push(`symbol "${exact || partial}"`)
+        }
+      }
+
+      // 路径匹配：文件名中出现查询 token
+      const fileName = toPosix(result.relativePath).split('/').pop() || ''
+      const pathTokens = tokens.filter(t => t.length >= 3 && fileName.includes(t))
+      const pathScore = pathTokens.length > 0 ? 1 : 0
+      if (pathScore) reasons.push(`file name "${pathTokens[0]}"`)
+
+      // 与当前文件的邻近度
+      let proximityScore = 0
+      if (options.activeFile) {
+        const proximity = pathProximity(result.filePath, options.activeFile)
+        proximityScore = proximity.score
+        if (proximity.reason) reasons.push(proximity.reason)
+      }
+
+      const rerankScore =
+        HEURISTIC_WEIGHTS.fusion * (result.score / maxFusion) +
+        HEURISTIC_WEIGHTS.symbol * symbolScore +
+        HEURISTIC_WEIGHTS.path * pathScore +
+        HEURISTIC_WEIGHTS.proximity * proximityScore
+
+      return { ...result, rerankScore, rerankReasons: reasons }
+    })
+    .sort((a, b) => b.rerankScore - a.rerankScore)
+}
+
+export class RerankService {
+  private config: RerankConfig
+
+  constructor(config: RerankConfig) {
+    this.config = config
+  }
+
+  /**
+   * 更新配置
+   * 切换 provider 且未指定 model 时使用新 provider 的默认 model
+   */
+  updateConfig(config: Partial<RerankConfig>): void {
+    const providerChanged = config.provider && config.provider !== this.config.provider
+    this.config = {
+      ...this.config,
+      ...config,
+      model: providerChanged ? config.model : (config.model || this.config.model),
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.config.provider !== 'none'
+  }
+
+  /**
+   * 参与重排的候选数量
+   */
+  getCandidateCount(topK: number): number {
+    return Math.max(topK, this.config.candidates || 0)
+  }
+
+  /**
+   * 重排搜索结果（返回全部候选，由调用方截取 topK）
+   */
+  async rerank(query: string, results: SearchResult[], options: SearchOptions = {}): Promise<SearchResult[]> {
+    const { provider } = this.config
+    if (provider === 'none' || results.length === 0) return results
+    if (provider === 'heuristic') return heuristicRerank(query, results, options)
+
+    try {
+      const scores = await this.rerankRemote(query, results)
+      const label = `${provider} rerank`
+      const scored = results.map((result, index) => ({
+        ...result,
+        rerankScore: scores.get(index) ?? 0,
+        rerankReasons: [label],
+      }))
+      return scored.sort((a, b) => b.rerankScore - a.rerankScore)
+    } catch (error) {
+      logger.index.warn(`[RerankService] ${provider} rerank failed, falling back to heuristic:`, error)
+      return heuristicRerank(query, results, options)
+    }
+  }
+
+  /**
+   * 调用 HTTP 重排接口，返回 候选下标 -> 相关性分数
+   */
+  private async rerankRemote(query: string, results: SearchResult[]): Promise<Map<number, number>> {
+    const provider = this.config.provider as Exclude<RerankProvider, 'none' | 'heuristic'>
+    const url = this.config.baseUrl || RERANK_ENDPOINTS[provider]
+    if (!url) {
+      throw new Error('Custom rerank service requires baseUrl')
+    }
+
+    const model = this.config.model || DEFAULT_RERANK_MODELS[provider]
+    const documents = results.map(r => `${r.relativePath}\n${r.content}`.slice(0, MAX_DOCUMENT_CHARS))
+
+    // Voyage 使用 top_k，其余（Jina / Cohere / 兼容服务）使用 top_n
+    const body = provider === 'voyage'
+      ? { model, query, documents, top_k: documents.length }
+      : { model, query, documents, top_n: documents.length }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.config.timeoutMs || 10000),
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(`Rerank API error (${provider}): ${response.status} - ${error}`)
+    }
+
+    const data = (await response.json()) as
+      | { results?: RerankItem[]; data?: RerankItem[] }
+      | RerankItem[]
+    const items = Array.isArray(data) ? data : data.results || data.data || []
+
+    const scores = new Map<number, number>()
+    for (const item of items) {
+      const score = item.relevance_score ?? item.score
+      if (typeof item.index === 'number' && typeof score === 'number') {
+        scores.set(item.index, score)
+      }
+    }
+    if (scores.size === 0) {
+      throw new Error(`Rerank API (${provider}) returned no scores`)
+    }
+    return normalizeScores(scores)
+  }
+}
+
+// Jina / Cohere / Voyage 返回 relevance_score，TEI 等本地服务返回 score
+interface RerankItem {
+  index: number
+  relevance_score?: number
+  score?: number
+}
+
+/**
+ * 部分本地服务返回 logits，统一映射到 0-1
+ */
+function normalizeScores(scores: Map<number, number>): Map<number, number> {
+  const values = Array.from(scores.values())
+  if (values.every(v => v >= 0 && v <= 1)) return scores
+
+  const normalized = new Map<number, number>()
+  for (const [index, value] of scores) {
+    normalized.set(index, 1 / (1 + Math.exp(-value)))
+  }
+  return normalized
+}
@@ -0,0 +1,359 @@
+/**
+ * 符号图提取
+ * 基于 Tree-sitter 语法树提取定义、调用点与导入关系（不依赖 LSP）
+ *
+ * - 定义：复用分块器的定义查询
+ * - 引用：按调用节点提取被调用的名称，并归属到最内层定义
+ * - 导入：提取模块说明符，相对路径 / tsconfig paths 解析到工作区文件
+ */
+
+import { logger } from '@shared/utils/Logger'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import * as crypto from 'crypto'
+import Parser from 'web-tree-sitter'
+import { TreeSitterChunker, getDefinitionQuery } from './treeSitterChunker'
+import { FileSymbolGraph, SymbolDefinition, SymbolReference, ImportEdge } from './types'
+
+// 调用节点类型 -> 被调用者所在字段
+const CALL_NODES: Record<string, string[]> = {
+  call_expression: ['function'],          // ts / js / go / rust / c / cpp
+  new_expression: ['constructor'],        // ts / js
+  call: ['function', 'method'],           // python / ruby
+  method_invocation: ['name'],            // java
+  object_creation_expression: ['type'],   // java / c#
+  invocation_expression: ['function'],    // c#
+  function_call_expression: ['function'], // php
+  member_call_expression: ['name'],       // php
+  scoped_call_expression: ['name'],       // php
+  macro_invocation: ['macro'],            // rust
+}
+
+// 导入节点类型
+const IMPORT_NODES = [
+  'import_statement',        // ts / js / python
+  'export_statement',        // ts / js（export ... from）
+  'import_from_statement',   // python
+  'import_spec',             // go
+  'use_declaration',         // rust
+  'import_declaration',      // java
+  'preproc_include',         // c / cpp
+  'using_directive',         // c#
+  'namespace_use_clause',    // php
+]
+
+// 定义查询中不代表定义本身的辅助 capture
+const AUXILIARY_CAPTURES = new Set(['name', 'function_body'])
+
+const JS_LANGUAGES = new Set(['typescript', 'tsx', 'javascript'])
+const JS_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs']
+
+// 单个文件最多记录的引用数，避免生成文件撑大图
+const MAX_REFERENCES_PER_FILE = 5000
+
+interface PathAlias {
+  prefix: string
+  suffix: string
+  exact: boolean  // 无通配符的别名需完全匹配
+  targets: string[]
+}
+
+function stripQuotes(text: string): string {
+  return text.trim().replace(/^["'`<]|["'`>]$/g, '')
+}
+
+/**
+ * 取表达式中最后一个标识符（this.foo.bar -> bar，std::mem::swap -> swap）
+ */
+function lastIdentifier(node: Parser.SyntaxNode): string | null {
+  const text = node.text.length > 200 ? node.text.slice(-200) : node.text
+  const cleaned = text.replace(/<[^<>]*>/g, '').replace(/[!?]+$/, '')
+  const match = cleaned.match(/([A-Za-z_$][\w$]*)\s*$/)
+  return match ? match[1] : null
+}
+
+/**
+ * 获取定义节点的名称
+ */
+function getDefinitionName(node: Parser.SyntaxNode): string | null {
+  if (node.type === 'export_statement') {
+    const declaration = node.childForFieldName('declaration')
+    return declaration ? getDefinitionName(declaration) : null
+  }
+
+  const named = node.childForFieldName('name')
+  if (named) return named.type === 'identifier' || !named.namedChildCount ? named.text : lastIdentifier(named)
+
+  // C / C++：名称在 declarator 链中
+  const declarator = node.childForFieldName('declarator')
+  if (declarator) {
+    const id = declarator.descendantsOfType(['identifier', 'field_identifier', 'qualified_identifier'])[0]
+    return id ? lastIdentifier(id) : null
+  }
+
+  // Rust impl：使用实现的类型名
+  const type = node.childForFieldName('type')
+  if (type) return lastIdentifier(type)
+
+  // Go type_declaration 等：名称在子节点中
+  for (const child of node.namedChildren) {
+    const childName = child.childForFieldName('name')
+    if (childName) return childName.text
+    if (['identifier', 'type_identifier', 'constant', 'name'].includes(child.type)) return child.text
+  }
+  return null
+}
+
+export class SymbolExtractor {
+  private chunker: TreeSitterChunker
+  private aliasCache = new Map<string, Promise<{ baseUrl: string; aliases: PathAlias[] }>>()
+
+  constructor(chunker: TreeSitterChunker) {
+    this.chunker = chunker
+  }
+
+  /**
+   * 提取文件的符号图，不支持的语言返回 null
+   */
+  async extract(filePath: string, content: string, workspacePath: string): Promise<FileSymbolGraph | null> {
+    const parsed = await this.chunker.parse(filePath, content)
+    if (!parsed) return null
+
+    const { tree, language, langName } = parsed
+    try {
+      const definitions = this.extractDefinitions(tree.rootNode, language, langName)
+      const references = this.extractReferences(tree.rootNode, definitions)
+      const imports = await this.extractImports(tree.rootNode, langName, filePath, workspacePath)
+
+      return {
+        filePath,
+        relativePath: path.relative(workspacePath, filePath),
+        fileHash: crypto.createHash('sha256').update(content).digest('hex'),
+        language: langName,
+        definitions,
+        references,
+        imports,
+      }
+    } catch (e) {
+      logger.index.warn(`[SymbolExtractor] Failed to extract symbols from ${filePath}:`, e)
+      return null
+    } finally {
+      tree.delete()
+    }
+  }
+
+  private extractDefinitions(root: Parser.SyntaxNode, language: Parser.Language, langName: string): SymbolDefinition[] {
+    const queryStr = getDefinitionQuery(langName)
+    if (!queryStr) return []
+
+    const seen = new Set<string>()
+    const definitions: SymbolDefinition[] = []
+    for (const { node, name: kind } of language.query(queryStr).captures(root)) {
+      if (AUXILIARY_CAPTURES.has(kind)) continue
+
+      const name = getDefinitionName(node)
+      const startLine = node.startPosition.row + 1
+      // export_statement 与内部声明会重复捕获
+      const key = `${name}:${startLine}`
+      if (!name || seen.has(key)) continue
+      seen.add(key)
+
+      definitions.push({ name, kind, startLine, endLine: node.endPosition.row + 1 })
+    }
+    return definitions.sort((a, b) => a.startLine - b.startLine)
+  }
+
+  private extractReferences(root: Parser.SyntaxNode, definitions: SymbolDefinition[]): SymbolReference[] {
+    const references: SymbolReference[] = []
+
+    for (const node of root.descendantsOfType(Object.keys(CALL_NODES))) {
+      if (references.length >= MAX_REFERENCES_PER_FILE) break
+
+      const callee = CALL_NODES[node.type]
+        .map(field => node.childForFieldName(field))
+        .find((n): n is Parser.SyntaxNode => !!n)
+      const name = callee ? lastIdentifier(callee) : null
+      if (!name) continue
+
+      const line = node.startPosition.row + 1
+      references.push({ name, line, caller: this.findEnclosing(definitions, line) })
+    }
+    return references
+  }
+
+  /**
+   * 查找包含指定行的最内层定义
+   */
+  private findEnclosing(definitions: SymbolDefinition[], line: number): string | undefined {
+    let best: SymbolDefinition | undefined
+    for (const def of definitions) {
+      if (def.startLine > line) break
+      if (def.endLine >= line && (!best || def.endLine - def.startLine <= best.endLine - best.startLine)) {
+        best = def
+      }
+    }
+    return best?.name
+  }
+
+  private async extractImports(
+    root: Parser.SyntaxNode,
+    langName: string,
+    filePath: string,
+    workspacePath: string
+  ): Promise<ImportEdge[]> {
+    const sources: Array<{ source: string; line: number }> = []
+
+    for (const node of root.descendantsOfType(IMPORT_NODES)) {
+      const source = this.getImportSource(node, langName)
+      if (source) sources.push({ source, line: node.startPosition.row + 1 })
+    }
+
+    // require('x') / import('x') / require_relative 'x'
+    for (const node of root.descendantsOfType(['call_expression', 'call'])) {
+      const fn = node.childForFieldName('function') || node.childForFieldName('method')
+      if (!fn || !['require', 'import', 'require_relative'].includes(fn.text)) continue
+      const arg = node.childForFieldName('arguments')?.namedChildren[0]
+      if (arg && /string/.test(arg.type)) {
+        sources.push({ source: stripQuotes(arg.text), line: node.startPosition.row + 1 })
+      }
+    }
+
+    const edges: ImportEdge[] = []
+    for (const { source, line } of sources) {
+      const resolved = await this.resolveImport(source, langName, filePath, workspacePath)
+      edges.push(resolved ? { source, line, resolved } : { source, line })
+    }
+    return edges
+  }
+
+  private getImportSource(node: Parser.SyntaxNode, langName: string): string | null {
+    switch (node.type) {
+      case 'import_statement': {
+        if (JS_LANGUAGES.has(langName)) {
+          const source = node.childForFieldName('source')
+          return source ? stripQuotes(source.text) : null
+        }
+        // python: import a.b
+        return node.childForFieldName('name')?.text.split(/\s+as\s+/)[0] ?? null
+      }
+      case 'export_statement': {
+        const source = node.childForFieldName('source')
+        return source ? stripQuotes(source.text) : null
+      }
+      case 'import_from_statement':
+        return node.childForFieldName('module_name')?.text ?? null
+      case 'import_spec':
+        return node.childForFieldName('path') ? stripQuotes(node.childForFieldName('path')!.text) : null
+      case 'use_declaration':
+        return node.childForFieldName('argument')?.text ?? null
+      case 'preproc_include':
+        return node.childForFieldName('path') ? stripQuotes(node.childForFieldName('path')!.text) : null
+      case 'import_declaration':
+      case 'using_directive':
+      case 'namespace_use_clause':
+        return node.namedChildren[0]?.text ?? null
+      default:
+        return null
+    }
+  }
+
+  /**
+   * 将模块说明符解析为工作区内的文件，无法解析（外部依赖）返回 undefined
+   */
+  private async resolveImport(
+    source: string,
+    langName: string,
+    filePath: string,
+    workspacePath: string
+  ): Promise<string | undefined> {
+    const dir = path.dirname(filePath)
+
+    if (JS_LANGUAGES.has(langName)) {
+      if (source.startsWith('.')) return this.resolveJsModule(path.resolve(dir, source))
+
+      const { baseUrl, aliases } = await this.loadPathAliases(workspacePath)
+      for (const alias of aliases) {
+        if (alias.exact ? source !== alias.prefix : !source.startsWith(alias.prefix) || !source.endsWith(alias.suffix)) continue
+        const wildcard = source.slice(alias.prefix.length, source.length - alias.suffix.length)
+        for (const target of alias.targets) {
+          const resolved = await this.resolveJsModule(path.resolve(baseUrl, target.replace('*', wildcard)))
+          if (resolved) return resolved
+        }
+      }
+      return undefined
+    }
+
+    if (langName === 'python') {
+      const leadingDots = source.match(/^\.*/)![0].length
+      const modulePath = source.slice(leadingDots).split('.').filter(Boolean).join(path.sep)
+      const base = leadingDots > 0
+        ? path.resolve(dir, ...Array(leadingDots - 1).fill('..'), modulePath)
+        : path.join(workspacePath, modulePath)
+      return this.firstFile([`${base}.py`, path.join(base, '__init__.py')])
+    }
+
+    if (langName === 'c' || langName === 'cpp') {
+      return this.firstFile([path.resolve(dir, source), path.join(workspacePath, source)])
+    }
+
+    if (langName === 'ruby') {
+      const file = source.endsWith('.rb') ? source : `${source}.rb`
+      return this.firstFile([path.resolve(dir, file), path.join(workspacePath, 'lib', file)])
+    }
+
+    return undefined
+  }
+
+  private resolveJsModule(base: string): Promise<string | undefined> {
+    const candidates = [
+      base,
+      // ESM 写法：源码中 import './a.js' 实际文件为 a.ts
+      ...(/\.(c|m)?js$/.test(base) ? ['.ts', '.tsx'].map(ext => base.replace(/\.(c|m)?js$/, ext)) : []),
+      ...JS_EXTENSIONS.map(ext => base + ext),
+      ...JS_EXTENSIONS.map(ext => path.join(base, `index${ext}`)),
+    ]
+    return this.firstFile(candidates)
+  }
+
+  private async firstFile(candidates: string[]): Promise<string | undefined> {
+    for (const candidate of candidates) {
+      try {
+        if ((await fs.stat(candidate)).isFile()) return candidate
+      } catch {
+        // 不存在，继续尝试下一个
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * 读取 tsconfig.json / jsconfig.json 的 compilerOptions.paths
+   */
+  private loadPathAliases(workspacePath: string): Promise<{ baseUrl: string; aliases: PathAlias[] }> {
+    let cached = this.aliasCache.get(workspacePath)
+    if (!cached) {
+      cached = (async () => {
+        for (const name of ['tsconfig.json', 'jsconfig.json']) {
+          try {
+            const raw = await fs.readFile(path.join(workspacePath, name), 'utf-8')
+            // tsconfig 允许注释与尾逗号
+            const json = JSON.parse(raw.replace(/^\s*\/\/.*$/gm, '').replace(/\/\*[\s\S]*?\*\//g, '').replace(/,(\s*[}\]])/g, '$1'))
+            const options = json.compilerOptions || {}
+            const baseUrl = path.resolve(workspacePath, options.baseUrl || '.')
+            const aliases = Object.entries((options.paths || {}) as Record<string, string[]>).map(([pattern, targets]) => {
+              const [prefix, suffix = ''] = pattern.split('*')
+              return { prefix, suffix, exact: !pattern.includes('*'), targets }
+            })
+            // 更长的前缀优先匹配
+            return { baseUrl, aliases: aliases.sort((a, b) => b.prefix.length - a.prefix.length) }
+          } catch {
+            // 文件不存在或无法解析
+          }
+        }
+        return { baseUrl: workspacePath, aliases: [] }
+      })()
+      this.aliasCache.set(workspacePath, cached)
+    }
+    return cached
+  }
+}
@@ -0,0 +1,322 @@
+/**
+ * 符号图存储
+ * 持久化到 .adnify/index/symbol-graph.json，提供调用者 / 被调用者 / 导入图查询
+ *
+ * 名称级别的图：调用点按名称关联到定义，存在同名定义时优先同文件与导入的文件
+ */
+
+import { logger } from '@shared/utils/Logger'
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+  FileSymbolGraph,
+  SymbolLocation,
+  ImportGraphResult,
+  SearchResult,
+} from './types'
+
+const GRAPH_FILE = 'symbol-graph.json'
+const GRAPH_VERSION = 1
+const SAVE_DEBOUNCE_MS = 2000
+
+interface PersistedGraph {
+  version: number
+  files: FileSymbolGraph[]
+}
+
+export interface CalleeInfo {
+  name: string
+  line: number
+  definitions: SymbolLocation[]
+}
+
+export type ImportDirection = 'imports' | 'importedBy' | 'both'
+
+export class SymbolGraphStore {
+  private workspacePath: string
+  private graphPath: string
+  private files = new Map<string, FileSymbolGraph>()
+  private loaded = false
+  private saveTimer: NodeJS.Timeout | null = null
+
+  // 派生索引，图变化后惰性重建
+  private definitionsByName: Map<string, SymbolLocation[]> | null = null
+  private importedBy: Map<string, Array<{ from: string; source: string }>> | null = null
+
+  constructor(workspacePath: string) {
+    this.workspacePath = workspacePath
+    this.graphPath = path.join(workspacePath, '.adnify', 'index', GRAPH_FILE)
+  }
+
+  /**
+   * 从磁盘加载（仅首次）
+   */
+  async load(): Promise<void> {
+    if (this.loaded) return
+    this.loaded = true
+
+    try {
+      const raw = await fs.promises.readFile(this.graphPath, 'utf-8')
+      const data = JSON.parse(raw) as PersistedGraph
+      if (data.version !== GRAPH_VERSION) {
+        logger.index.warn('[SymbolGraph] Graph version mismatch, will rebuild on next indexing')
+        return
+      }
+      for (const file of data.files) {
+        this.files.set(file.filePath, file)
+      }
+      this.invalidate()
+      logger.index.info(`[SymbolGraph] Loaded ${this.files.size} files`)
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.index.warn('[SymbolGraph] Failed to load graph:', e)
+      }
+    }
+  }
+
+  isEmpty(): boolean {
+    return this.files.size === 0
+  }
+
+  /**
+   * 已入图文件的哈希（用于增量构建）
+   */
+  getFileHashes(): Record<string, string> {
+    return Object.fromEntries(Array.from(this.files.values()).map(f => [f.filePath, f.fileHash]))
+  }
+
+  upsertFile(graph: FileSymbolGraph): void {
+    this.files.set(graph.filePath, graph)
+    this.invalidate()
+    this.scheduleSave()
+  }
+
+  deleteFile(filePath: string): void {
+    if (this.files.delete(filePath)) {
+      this.invalidate()
+      this.scheduleSave()
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.files.clear()
+    this.invalidate()
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer)
+      this.saveTimer = null
+    }
+    await fs.promises.rm(this.graphPath, { force: true })
+  }
+
+  /**
+   * 立即写入磁盘
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer)
+      this.saveTimer = null
+    }
+    try {
+      await fs.promises.mkdir(path.dirname(this.graphPath), { recursive: true })
+      const data: PersistedGraph = { version: GRAPH_VERSION, files: Array.from(this.files.values()) }
+      await fs.promises.writeFile(this.graphPath, JSON.stringify(data), 'utf-8')
+    } catch (e) {
+      logger.index.error('[SymbolGraph] Failed to save graph:', e)
+    }
+  }
+
+  // ========== 查询 ==========
+
+  /**
+   * 按名称查找定义
+   */
+  findDefinitions(name: string): SymbolLocation[] {
+    return this.getDefinitionIndex().get(name) || []
+  }
+
+  /**
+   * 查找调用指定符号的位置
+   * 指定 filePath（符号所在文件）时只保留该文件及导入了该文件的调用点
+   */
+  getCallers(name: string, filePath?: string): SymbolLocation[] {
+    const scope = filePath ? this.getDependents(filePath) : null
+
+    const callers: SymbolLocation[] = []
+    for (const file of this.files.values()) {
+      if (scope && !scope.has(file.filePath)) continue
+      for (const ref of file.references) {
+        if (ref.name !== name) continue
+        callers.push({ name, filePath: file.filePath, relativePath: file.relativePath, line: ref.line, caller: ref.caller })
+      }
+    }
+    return callers.sort((a, b) => a.relativePath.localeCompare(b.relativePath) || a.line - b.line)
+  }
+
+  /**
+   * 查找指定符号调用的其他符号及其定义位置
+   */
+  getCallees(name: string, filePath?: string): Array<{ definition: SymbolLocation; callees: CalleeInfo[] }> {
+    const definitions = this.findDefinitions(name).filter(d => !filePath || d.filePath === filePath)
+
+    return definitions.map(definition => {
+      const file = this.files.get(definition.filePath)!
+      const def = file.definitions.find(d => d.name === name && d.startLine === definition.line)!
+      return { definition, callees: this.collectCallees(file, def.startLine, def.endLine) }
+    })
+  }
+
+  /**
+   * 导入图：从指定文件出发按方向遍历 depth 层
+   */
+  getImportGraph(filePath: string, direction: ImportDirection = 'both', depth: number = 1): ImportGraphResult {
+    const result: ImportGraphResult = { root: this.toRelative(filePath), imports: [], importedBy: [], external: [] }
+    const external = new Set<string>()
+
+    if (direction !== 'importedBy') {
+      this.walk(filePath, depth, current => {
+        const next: string[] = []
+        for (const edge of this.files.get(current)?.imports || []) {
+          if (!edge.resolved) {
+            if (current === filePath) external.add(edge.source)
+            continue
+          }
+          result.imports.push({ from: this.toRelative(current), to: this.toRelative(edge.resolved), source: edge.source })
+          next.push(edge.resolved)
+        }
+        return next
+      })
+    }
+
+    if (direction !== 'imports') {
+      const importedBy = this.getImportedByIndex()
+      this.walk(filePath, depth, current => {
+        const edges = importedBy.get(current) || []
+        for (const edge of edges) {
+          result.importedBy.push({ from: this.toRelative(edge.from), to: this.toRelative(current), source: edge.source })
+        }
+        return edges.map(e => e.from)
+      })
+    }
+
+    result.external = Array.from(external)
+    return result
+  }
+
+  /**
+   * 为搜索结果附加代码块内调用到的其他定义
+   */
+  attachRelated(results: SearchResult[], limit = 5): SearchResult[] {
+    if (this.isEmpty()) return results
+
+    return results.map(result => {
+      const file = this.files.get(result.filePath)
+      if (!file) return result
+
+      const related = this.collectCallees(file, result.startLine, result.endLine)
+        .flatMap(callee => callee.definitions.slice(0, 1))
+        // 排除代码块自身内部的定义
+        .filter(def => def.filePath !== result.filePath || def.line < result.startLine || def.line > result.endLine)
+        .slice(0, limit)
+      return related.length > 0 ? { ...result, related } : result
+    })
+  }
+
+  // ========== 私有方法 ==========
+
+  /**
+   * 收集行范围内的调用，并按 同文件 > 导入的文件 > 其他 的顺序解析定义
+   */
+  private collectCallees(file: FileSymbolGraph, startLine: number, endLine: number): CalleeInfo[] {
+    const imported = new Set(file.imports.map(i => i.resolved).filter((p): p is string => !!p))
+    const seen = new Set<string>()
+    const callees: CalleeInfo[] = []
+
+    for (const ref of file.references) {
+      if (ref.line < startLine || ref.line > endLine || seen.has(ref.name)) continue
+      seen.add(ref.name)
+
+      const candidates = this.findDefinitions(ref.name)
+      const rank = (loc: SymbolLocation) => loc.filePath === file.filePath ? 0 : imported.has(loc.filePath) ? 1 : 2
+      const definitions = [...candidates].sort((a, b) => rank(a) - rank(b)).slice(0, 3)
+      // 无定义的调用（外部库、内置方法）不返回
+      if (definitions.length > 0) {
+        callees.push({ name: ref.name, line: ref.line, definitions })
+      }
+    }
+    return callees
+  }
+
+  /**
+   * 指定文件本身及直接导入它的文件
+   */
+  private getDependents(filePath: string): Set<string> {
+    const dependents = new Set<string>([filePath])
+    for (const edge of this.getImportedByIndex().get(filePath) || []) {
+      dependents.add(edge.from)
+    }
+    return dependents
+  }
+
+  private walk(start: string, depth: number, visit: (filePath: string) => string[]): void {
+    const visited = new Set<string>([start])
+    let frontier = [start]
+    for (let level = 0; level < depth && frontier.length > 0; level++) {
+      const next: string[] = []
+      for (const current of frontier) {
+        for (const neighbor of visit(current)) {
+          if (!visited.has(neighbor)) {
+            visited.add(neighbor)
+            next.push(neighbor)
+          }
+        }
+      }
+      frontier = next
+    }
+  }
+
+  private getDefinitionIndex(): Map<string, SymbolLocation[]> {
+    if (!this.definitionsByName) {
+      this.definitionsByName = new Map()
+      for (const file of this.files.values()) {
+        for (const def of file.definitions) {
+          const list = this.definitionsByName.get(def.name) || []
+          list.push({ name: def.name, filePath: file.filePath, relativePath: file.relativePath, line: def.startLine, kind: def.kind })
+          this.definitionsByName.set(def.name, list)
+        }
+      }
+    }
+    return this.definitionsByName
+  }
+
+  private getImportedByIndex(): Map<string, Array<{ from: string; source: string }>> {
+    if (!this.importedBy) {
+      this.importedBy = new Map()
+      for (const file of this.files.values()) {
+        for (const edge of file.imports) {
+          if (!edge.resolved) continue
+          const list = this.importedBy.get(edge.resolved) || []
+          list.push({ from: file.filePath, source: edge.source })
+          this.importedBy.set(edge.resolved, list)
+        }
+      }
+    }
+    return this.importedBy
+  }
+
+  private toRelative(filePath: string): string {
+    return this.files.get(filePath)?.relativePath || path.relative(this.workspacePath, filePath)
+  }
+
+  private invalidate(): void {
+    this.definitionsByName = null
+    this.importedBy = null
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) clearTimeout(this.saveTimer)
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null
+      this.flush()
+    }, SAVE_DEBOUNCE_MS)
+  }
+}
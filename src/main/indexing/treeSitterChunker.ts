@@ -15,6 +15,12 @@ const LANGUAGE_MAP: Record<string, string> = {
   json: 'json'
 }
 
+// 语法加载失败时可替代的兼容语法（tsx 是 typescript 的超集）
+const COMPATIBLE_LANGUAGES: Record<string, string> = {
+  typescript: 'tsx',
+  cpp: 'c',
+}
+
 // Tree-sitter queries for capturing definitions
 // We focus on capturing the entire function/class body
 const QUERIES: Record<string, string> = {
@@ -107,6 +113,13 @@ const QUERIES: Record<string, string> = {
   `
 }
 
+/**
+ * 获取语言的定义查询（符号图复用）
+ */
+export function getDefinitionQuery(langName: string): string | undefined {
+  return QUERIES[langName]
+}
+
 export class TreeSitterChunker {
   private config: IndexConfig
   private parser: Parser | null = null
@@ -179,6 +192,24 @@ export class TreeSitterChunker {
     }
   }
 
+  /**
+   * 解析文件，返回语法树与语言；调用方负责 tree.delete()
+   */
+  async parse(filePath: string, content: string): Promise<{ tree: Parser.Tree; language: Parser.Language; langName: string } | null> {
+    if (!this.initialized) await this.init()
+    if (!this.parser) return null
+
+    let langName = LANGUAGE_MAP[path.extname(filePath).slice(1).toLowerCase()]
+    if (!langName) return null
+    if (!(await this.loadLanguage(langName))) {
+      langName = COMPATIBLE_LANGUAGES[langName]
+      if (!langName || !(await this.loadLanguage(langName))) return null
+    }
+
+    const tree = this.parser.parse(content)
+    return tree ? { tree, language: this.languages.get(langName)!, langName } : null
+  }
+
   async chunkFile(filePath: string, content: string, workspacePath: string): Promise<CodeChunk[]> {
     if (!this.initialized) await this.init()
     if (!this.parser) return [] // Should fallback to regex
@@ -2,8 +2,8 @@
  * 代码库索引类型定义
  */
 
-// Embedding 提供商类型（包含自定义）
-export type EmbeddingProvider = 'jina' | 'voyage' | 'openai' | 'cohere' | 'huggingface' | 'ollama' | 'custom'
+// Embedding 提供商类型（包含自定义，local 为进程内运行的 ONNX 模型）
+export type EmbeddingProvider = 'jina' | 'voyage' | 'openai' | 'cohere' | 'huggingface' | 'ollama' | 'local' | 'custom'
 
 // Embedding 配置
 export interface EmbeddingConfig {
@@ -12,6 +12,8 @@ export interface EmbeddingConfig {
   model?: string
   baseUrl?: string  // 自定义端点
   dimensions?: number  // 向量维度（自定义服务需要指定）
+  batchSize?: number  // 每批文本数量（覆盖 provider 默认值）
+  cacheDir?: string  // 本地模型缓存目录（local 使用，由主进程指定为配置目录下的 models）
 }
 
 // 默认模型配置
@@ -22,6 +24,7 @@ export const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProvider, string> = {
   cohere: 'embed-english-v3.0',
   huggingface: 'sentence-transformers/all-MiniLM-L6-v2',
   ollama: 'nomic-embed-text',
+  local: 'Xenova/all-MiniLM-L6-v2',
   custom: '',  // 自定义服务需要用户指定
 }
 
@@ -33,6 +36,7 @@ export const EMBEDDING_ENDPOINTS: Record<EmbeddingProvider, string> = {
   cohere: 'https://api.cohere.ai/v1/embed',
   huggingface: 'https://api-inference.huggingface.co/pipeline/feature-extraction',
   ollama: 'http://localhost:11434/api/embeddings',
+  local: 'https://huggingface.co/',  // 模型下载地址（可替换为镜像）
   custom: '',  // 自定义服务需要用户指定
 }
 
@@ -45,6 +49,42 @@ export const EMBEDDING_DIMENSIONS: Record<string, number> = {
   'embed-english-v3.0': 1024,
   'all-MiniLM-L6-v2': 384,
   'nomic-embed-text': 768,
+  'Xenova/all-MiniLM-L6-v2': 384,
+}
+
+// Rerank 提供商类型（none 表示关闭，heuristic 为本地启发式）
+export type RerankProvider = 'none' | 'heuristic' | 'jina' | 'cohere' | 'voyage' | 'ollama' | 'custom'
+
+// Rerank 配置
+export interface RerankConfig {
+  provider: RerankProvider
+  apiKey?: string
+  model?: string
+  baseUrl?: string     // 自定义端点
+  candidates?: number  // 参与重排的融合候选数量
+  timeoutMs?: number   // HTTP 重排超时，超时后回退到启发式
+}
+
+// 默认 Rerank 模型
+export const DEFAULT_RERANK_MODELS: Record<RerankProvider, string> = {
+  none: '',
+  heuristic: '',
+  jina: 'jina-reranker-v2-base-multilingual',
+  cohere: 'rerank-v3.5',
+  voyage: 'rerank-2',
+  ollama: 'bge-reranker-v2-m3',
+  custom: '',
+}
+
+// Rerank API 端点（ollama 指兼容 Jina 格式 /rerank 的本地服务）
+export const RERANK_ENDPOINTS: Record<RerankProvider, string> = {
+  none: '',
+  heuristic: '',
+  jina: 'https://api.jina.ai/v1/rerank',
+  cohere: 'https://api.cohere.com/v2/rerank',
+  voyage: 'https://api.voyageai.com/v1/rerank',
+  ollama: 'http://localhost:11434/api/rerank',
+  custom: '',
 }
 
 // 代码块
@@ -76,6 +116,68 @@ export interface SearchResult {
   score: number
   type: string
   language: string
+  symbols?: string[]
+  rerankScore?: number      // 重排得分（0-1），存在时结果按此排序
+  rerankReasons?: string[]  // 重排依据，用于向 Agent 解释排序
+  related?: SymbolLocation[] // 符号图中该代码块调用的其他定义
+}
+
+// 搜索选项
+export interface SearchOptions {
+  activeFile?: string  // 当前编辑的文件，用于启发式重排的路径邻近度
+}
+
+// ========== 符号图 ==========
+
+// 符号定义
+export interface SymbolDefinition {
+  name: string
+  kind: string         // function / class / method / interface ...（Tree-sitter capture 名）
+  startLine: number
+  endLine: number
+}
+
+// 符号引用（调用点）
+export interface SymbolReference {
+  name: string
+  line: number
+  caller?: string      // 所在的最内层定义
+}
+
+// 导入关系
+export interface ImportEdge {
+  source: string       // 原始模块说明符
+  line: number
+  resolved?: string    // 解析到的工作区文件（绝对路径），外部模块为空
+}
+
+// 单个文件的符号图
+export interface FileSymbolGraph {
+  filePath: string
+  relativePath: string
+  fileHash: string
+  language: string
+  definitions: SymbolDefinition[]
+  references: SymbolReference[]
+  imports: ImportEdge[]
+}
+
+// 符号位置（查询结果）
+export interface SymbolLocation {
+  name: string
+  filePath: string
+  relativePath: string
+  line: number
+  kind?: string
+  caller?: string
+}
+
+// 导入图查询结果
+export interface ImportGraphResult {
+  root: string
+  imports: Array<{ from: string; to: string; source: string }>
+  importedBy: Array<{ from: string; to: string; source: string }>
+  external: string[]
 }
 
 // 索引状态
@@ -86,6 +188,15 @@ export interface IndexStatus {
   totalChunks: number
   lastIndexedAt?: number
   error?: string
+  modelProgress?: ModelLoadProgress  // 本地 Embedding 模型的下载 / 加载进度
+}
+
+// 本地模型加载进度
+export interface ModelLoadProgress {
+  model: string
+  status: 'downloading' | 'loading' | 'ready'
+  progress: number  // 0-100，按已知文件大小汇总
+  file?: string     // 正在下载的文件
 }
 
 // 索引配置
@@ -96,6 +207,7 @@ export interface IndexConfig {
   maxFileSize: number      // 最大文件大小（字节）
   ignoredDirs: string[]    // 忽略的目录
   includedExts: string[]   // 包含的文件扩展名
+  rerank: RerankConfig     // 融合后的重排阶段
 }
 
 // 默认索引配置
@@ -104,6 +216,11 @@ export const DEFAULT_INDEX_CONFIG: IndexConfig = {
     provider: 'jina',
     // model 不指定，让 EmbeddingService 根据 provider 自动选择默认值
   },
+  rerank: {
+    provider: 'heuristic',
+    candidates: 30,
+    timeoutMs: 10000,
+  },
   chunkSize: 80,
   chunkOverlap: 10,
   maxFileSize: 1024 * 1024,  // 1MB
@@ -375,6 +375,7 @@ export class VectorStoreService {
       endLine: r.endLine,
       type: r.type,
       language: r.language,
+      symbols: r.symbols ? r.symbols.split(',') : undefined,
       score: 1 - r._distance,
     }))
   }
@@ -411,6 +412,7 @@ export class VectorStoreService {
         endLine: r.endLine,
         type: r.type,
         language: r.language,
+        symbols: r.symbols ? r.symbols.split(',') : undefined,
         score: this.calculateKeywordScore(r.content, r.symbols, keywords),
       }))
     } catch (e) {
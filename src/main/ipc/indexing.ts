@@ -4,7 +4,7 @@
 
 import { logger } from '@shared/utils/Logger'
 import { ipcMain, BrowserWindow } from 'electron'
-import { getIndexService, EmbeddingConfig } from '../indexing'
+import { getIndexService, EmbeddingConfig, RerankConfig, SearchOptions, ImportDirection } from '../indexing'
 import { ok, failFromError, Result } from '@shared/types/result'
 
 export function registerIndexingHandlers(getMainWindow: () => BrowserWindow | null) {
@@ -81,17 +81,62 @@ export function registerIndexingHandlers(getMainWindow: () => BrowserWindow | nu
   })
 
   // 混合搜索（向量 + 关键词）
-  ipcMain.handle('index:hybridSearch', async (_, workspacePath: string, query: string, topK?: number) => {
+  ipcMain.handle('index:hybridSearch', async (_, workspacePath: string, query: string, topK?: number, options?: SearchOptions) => {
     try {
       const indexService = getIndexService(workspacePath)
       await indexService.initialize()
-      return await indexService.hybridSearch(query, topK || 10)
+      return await indexService.hybridSearch(query, topK || 10, options)
     } catch (e) {
       logger.ipc.error('[Index] Hybrid search failed:', e)
       return []
     }
   })
 
+  // 符号图：调用者
+  ipcMain.handle('index:getCallers', async (_, workspacePath: string, symbol: string, filePath?: string) => {
+    try {
+      const indexService = getIndexService(workspacePath)
+      await indexService.initialize()
+      if (!indexService.hasSymbolGraph()) return null
+      return indexService.getCallers(symbol, filePath)
+    } catch (e) {
+      logger.ipc.error('[Index] Get callers failed:', e)
+      return null
+    }
+  })
+
+  // 符号图：被调用者
+  ipcMain.handle('index:getCallees', async (_, workspacePath: string, symbol: string, filePath?: string) => {
+    try {
+      const indexService = getIndexService(workspacePath)
+      await indexService.initialize()
+      if (!indexService.hasSymbolGraph()) return null
+      return indexService.getCallees(symbol, filePath)
+    } catch (e) {
+      logger.ipc.error('[Index] Get callees failed:', e)
+      return null
+    }
+  })
+
+  // 符号图：导入关系
+  ipcMain.handle('index:getImportGraph', async (
+    _,
+    workspacePath: string,
+    filePath: string,
+    direction?: ImportDirection,
+    depth?: number
+  ) => {
+    try {
+      const indexService = getIndexService(workspacePath)
+      await indexService.initialize()
+      if (!indexService.hasSymbolGraph()) return null
+      return indexService.getImportGraph(filePath, direction, depth)
+    } catch (e) {
+      logger.ipc.error('[Index] Get import graph failed:', e)
+      return null
+    }
+  })
+
   // 更新单个文件的索引
   ipcMain.handle('index:updateFile', async (_, workspacePath: string, filePath: string): Promise<Result<void>> => {
     try {
@@ -129,6 +174,21 @@ export function registerIndexingHandlers(getMainWindow: () => BrowserWindow | nu
     }
   })
 
+  // 更新 Rerank 配置
+  ipcMain.handle('index:updateRerankConfig', async (
+    _,
+    workspacePath: string,
+    config: Partial<RerankConfig>
+  ): Promise<Result<void>> => {
+    try {
+      const indexService = getIndexService(workspacePath)
+      indexService.updateRerankConfig(config)
+      return ok(undefined)
+    } catch (e) {
+      return failFromError(e)
+    }
+  })
+
   // 测试 Embedding 连接
   ipcMain.handle('index:testConnection', async (_, workspacePath: string) => {
     try {
@@ -147,6 +207,7 @@ export function registerIndexingHandlers(getMainWindow: () => BrowserWindow | nu
       { id: 'cohere', name: 'Cohere', description: '免费 100次/分钟', free: true },
       { id: 'huggingface', name: 'HuggingFace', description: '免费，有速率限制', free: true },
       { id: 'ollama', name: 'Ollama', description: '本地运行，完全免费', free: true },
+      { id: 'local', name: '内置本地模型', description: '进程内运行，离线可用', free: true },
       { id: 'openai', name: 'OpenAI', description: '付费，质量最高', free: false },
     ]
   })
@@ -10,6 +10,7 @@ import type {
   McpToolCallRequest,
   McpResourceReadRequest,
   McpPromptGetRequest,
+  McpServerConfig,
 } from '@shared/types/mcp'
 
 export function registerMcpHandlers(_getMainWindow: () => BrowserWindow | null): void {
@@ -148,15 +149,7 @@ export function registerMcpHandlers(_getMainWindow: () => BrowserWindow | null):
   })
 
   // 添加服务器
-  ipcMain.handle('mcp:addServer', async (_, config: {
-    id: string
-    name: string
-    command: string
-    args: string[]
-    env: Record<string, string>
-    autoApprove: string[]
-    disabled: boolean
-  }) => {
+  ipcMain.handle('mcp:addServer', async (_, config: McpServerConfig) => {
     try {
       await mcpManager.addServer(config)
       return { success: true }
@@ -32,8 +32,8 @@ const SECURITY_DEFAULTS = {
   ],
   GIT_SUBCOMMANDS: [
     'status', 'log', 'diff', 'show', 'ls-files', 'rev-parse', 'rev-list', 'blame',
-    'add', 'commit', 'reset', 'restore', 'push', 'pull', 'fetch', 'remote',
-    'branch', 'checkout', 'switch', 'merge', 'rebase', 'cherry-pick',
+    'add', 'commit', 'reset', 'restore', 'apply', 'push', 'pull', 'fetch', 'remote',
+    'branch', 'checkout', 'switch', 'merge', 'rebase', 'cherry-pick', 'worktree',
     'clone', 'init', 'stash', 'tag', 'config',
   ],
 }
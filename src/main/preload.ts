@@ -3,6 +3,8 @@
  */
 
 import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron'
+import type { McpServerConfig } from '@shared/types/mcp'
+import type { PermissionPolicyConfig, AgentFileOptions } from '@shared/config/permissionPolicy'
 
 // =================== 类型定义 ===================
 
@@ -97,11 +99,28 @@ interface LLMSendMessageParams {
 }
 
 interface EmbeddingConfigInput {
-  provider?: 'jina' | 'voyage' | 'openai' | 'cohere' | 'huggingface' | 'ollama' | 'custom'
+  provider?: 'jina' | 'voyage' | 'openai' | 'cohere' | 'huggingface' | 'ollama' | 'local' | 'custom'
   apiKey?: string
   model?: string
   baseUrl?: string
   dimensions?: number
+  batchSize?: number
+}
+
+interface RerankConfigInput {
+  provider?: 'none' | 'heuristic' | 'jina' | 'cohere' | 'voyage' | 'ollama' | 'custom'
+  apiKey?: string
+  model?: string
+  baseUrl?: string
+  candidates?: number
+  timeoutMs?: number
+}
+
+interface ModelLoadProgressData {
+  model: string
+  status: 'downloading' | 'loading' | 'ready'
+  progress: number
+  file?: string
 }
 
 interface IndexStatusData {
@@ -111,6 +130,7 @@ interface IndexStatusData {
   totalChunks: number
   lastIndexedAt?: number
   error?: string
+  modelProgress?: ModelLoadProgressData
 }
 
 interface IndexSearchResult {
@@ -122,6 +142,31 @@ interface IndexSearchResult {
   score: number
   type: string
   language: string
+  symbols?: string[]
+  rerankScore?: number
+  rerankReasons?: string[]
+  related?: SymbolLocationData[]
+}
+
+interface SymbolLocationData {
+  name: string
+  filePath: string
+  relativePath: string
+  line: number
+  kind?: string
+  caller?: string
+}
+
+interface SymbolCalleesData {
+  definition: SymbolLocationData
+  callees: Array<{ name: string; line: number; definitions: SymbolLocationData[] }>
+}
+
+interface ImportGraphData {
+  root: string
+  imports: Array<{ from: string; to: string; source: string }>
+  importedBy: Array<{ from: string; to: string; source: string }>
+  external: string[]
 }
 
 interface EmbeddingProvider {
@@ -156,14 +201,14 @@ export interface ElectronAPI {
   readDir: (path: string) => Promise<{ name: string; path: string; isDirectory: boolean }[]>
   getFileTree: (path: string, maxDepth?: number) => Promise<string>
   readFile: (path: string) => Promise<string | null>
-  writeFile: (path: string, content: string) => Promise<boolean>
+  writeFile: (path: string, content: string, options?: AgentFileOptions) => Promise<boolean>
   ensureDir: (path: string) => Promise<boolean>
   saveFile: (content: string, path?: string) => Promise<string | null>
   fileExists: (path: string) => Promise<boolean>
   showItemInFolder: (path: string) => Promise<void>
-  mkdir: (path: string) => Promise<boolean>
-  deleteFile: (path: string) => Promise<boolean>
-  renameFile: (oldPath: string, newPath: string) => Promise<boolean>
+  mkdir: (path: string, options?: AgentFileOptions) => Promise<boolean>
+  deleteFile: (path: string, options?: AgentFileOptions) => Promise<boolean>
+  renameFile: (oldPath: string, newPath: string, options?: AgentFileOptions) => Promise<boolean>
   searchFiles: (query: string, rootPath: string | string[], options?: SearchFilesOptions) => Promise<SearchFileResult[]>
 
   // Settings
@@ -222,6 +267,7 @@ export interface ElectronAPI {
   clearAuditLogs: () => Promise<boolean>
   getPermissions: () => Promise<Record<string, string>>
   resetPermissions: () => Promise<boolean>
+  getPermissionPolicy: (workspacePath: string) => Promise<PermissionPolicyConfig>
 
   // File watcher
   onFileChanged: (callback: (event: { event: 'create' | 'update' | 'delete'; path: string }) => void) => () => void
@@ -232,10 +278,14 @@ export interface ElectronAPI {
   indexStatus: (workspacePath: string) => Promise<IndexStatusData>
   indexHasIndex: (workspacePath: string) => Promise<boolean>
   indexSearch: (workspacePath: string, query: string, topK?: number) => Promise<IndexSearchResult[]>
-  indexHybridSearch: (workspacePath: string, query: string, topK?: number) => Promise<IndexSearchResult[]>
+  indexHybridSearch: (workspacePath: string, query: string, topK?: number, options?: { activeFile?: string }) => Promise<IndexSearchResult[]>
   indexUpdateFile: (workspacePath: string, filePath: string) => Promise<{ success: boolean; error?: string }>
   indexClear: (workspacePath: string) => Promise<{ success: boolean; error?: string }>
   indexUpdateEmbeddingConfig: (workspacePath: string, config: EmbeddingConfigInput) => Promise<{ success: boolean; error?: string }>
+  indexUpdateRerankConfig: (workspacePath: string, config: RerankConfigInput) => Promise<{ success: boolean; error?: string }>
+  indexGetCallers: (workspacePath: string, symbol: string, filePath?: string) => Promise<SymbolLocationData[] | null>
+  indexGetCallees: (workspacePath: string, symbol: string, filePath?: string) => Promise<SymbolCalleesData[] | null>
+  indexGetImportGraph: (workspacePath: string, filePath: string, direction?: 'imports' | 'importedBy' | 'both', depth?: number) => Promise<ImportGraphData | null>
   indexTestConnection: (workspacePath: string) => Promise<{ success: boolean; error?: string; latency?: number }>
   indexGetProviders: () => Promise<EmbeddingProvider[]>
   onIndexProgress: (callback: (status: IndexStatusData) => void) => () => void
@@ -310,18 +360,10 @@ export interface ElectronAPI {
   mcpRefreshCapabilities: (serverId: string) => Promise<{ success: boolean; error?: string }>
   mcpGetConfigPaths: () => Promise<{ success: boolean; paths?: { user: string; workspace: string[] }; error?: string }>
   mcpReloadConfig: () => Promise<{ success: boolean; error?: string }>
-  mcpAddServer: (config: {
-    id: string
-    name: string
-    command: string
-    args: string[]
-    env: Record<string, string>
-    autoApprove: string[]
-    disabled: boolean
-  }) => Promise<{ success: boolean; error?: string }>
+  mcpAddServer: (config: McpServerConfig) => Promise<{ success: boolean; error?: string }>
   mcpRemoveServer: (serverId: string) => Promise<{ success: boolean; error?: string }>
   mcpToggleServer: (serverId: string, disabled: boolean) => Promise<{ success: boolean; error?: string }>
-  onMcpServerStatus: (callback: (event: { serverId: string; status: string; error?: string }) => void) => () => void
+  onMcpServerStatus: (callback: (event: { serverId: string; status: string; error?: string; reconnectAttempt?: number }) => void) => () => void
   onMcpToolsUpdated: (callback: (event: { serverId: string; tools: any[] }) => void) => () => void
   onMcpResourcesUpdated: (callback: (event: { serverId: string; resources: any[] }) => void) => () => void
   onMcpStateChanged: (callback: (servers: any[]) => void) => () => void
@@ -357,14 +399,14 @@ contextBridge.exposeInMainWorld('electronAPI', {
   getFileTree: (path: string, maxDepth?: number) => ipcRenderer.invoke('file:getTree', path, maxDepth),
   readFile: (path: string) => ipcRenderer.invoke('file:read', path),
   readBinaryFile: (path: string) => ipcRenderer.invoke('file:readBinary', path),
-  writeFile: (path: string, content: string) => ipcRenderer.invoke('file:write', path, content),
+  writeFile: (path: string, content: string, options?: AgentFileOptions) => ipcRenderer.invoke('file:write', path, content, options),
   ensureDir: (path: string) => ipcRenderer.invoke('file:ensureDir', path),
   saveFile: (content: string, path?: string) => ipcRenderer.invoke('file:save', content, path),
   fileExists: (path: string) => ipcRenderer.invoke('file:exists', path),
   showItemInFolder: (path: string) => ipcRenderer.invoke('file:showInFolder', path),
-  mkdir: (path: string) => ipcRenderer.invoke('file:mkdir', path),
-  deleteFile: (path: string) => ipcRenderer.invoke('file:delete', path),
-  renameFile: (oldPath: string, newPath: string) => ipcRenderer.invoke('file:rename', oldPath, newPath),
+  mkdir: (path: string, options?: AgentFileOptions) => ipcRenderer.invoke('file:mkdir', path, options),
+  deleteFile: (path: string, options?: AgentFileOptions) => ipcRenderer.invoke('file:delete', path, options),
+  renameFile: (oldPath: string, newPath: string, options?: AgentFileOptions) => ipcRenderer.invoke('file:rename', oldPath, newPath, options),
   searchFiles: (query: string, rootPath: string | string[], options?: SearchFilesOptions) =>
     ipcRenderer.invoke('file:search', query, rootPath, options),
 
@@ -435,6 +477,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
   clearAuditLogs: () => ipcRenderer.invoke('security:clearAuditLogs'),
   getPermissions: () => ipcRenderer.invoke('security:getPermissions'),
   resetPermissions: () => ipcRenderer.invoke('security:resetPermissions'),
+  getPermissionPolicy: (workspacePath: string) => ipcRenderer.invoke('security:getPermissionPolicy', workspacePath),
 
   onFileChanged: (callback: (event: { event: 'create' | 'update' | 'delete'; path: string }) => void) => {
     const handler = (_: IpcRendererEvent, data: { event: 'create' | 'update' | 'delete'; path: string }) => callback(data)
@@ -447,10 +490,15 @@ contextBridge.exposeInMainWorld('electronAPI', {
   indexStatus: (workspacePath: string) => ipcRenderer.invoke('index:status', workspacePath),
   indexHasIndex: (workspacePath: string) => ipcRenderer.invoke('index:hasIndex', workspacePath),
   indexSearch: (workspacePath: string, query: string, topK?: number) => ipcRenderer.invoke('index:search', workspacePath, query, topK),
-  indexHybridSearch: (workspacePath: string, query: string, topK?: number) => ipcRenderer.invoke('index:hybridSearch', workspacePath, query, topK),
+  indexHybridSearch: (workspacePath: string, query: string, topK?: number, options?: { activeFile?: string }) => ipcRenderer.invoke('index:hybridSearch', workspacePath, query, topK, options),
   indexUpdateFile: (workspacePath: string, filePath: string) => ipcRenderer.invoke('index:updateFile', workspacePath, filePath),
   indexClear: (workspacePath: string) => ipcRenderer.invoke('index:clear', workspacePath),
   indexUpdateEmbeddingConfig: (workspacePath: string, config: EmbeddingConfigInput) => ipcRenderer.invoke('index:updateEmbeddingConfig', workspacePath, config),
+  indexUpdateRerankConfig: (workspacePath: string, config: RerankConfigInput) => ipcRenderer.invoke('index:updateRerankConfig', workspacePath, config),
+  indexGetCallers: (workspacePath: string, symbol: string, filePath?: string) => ipcRenderer.invoke('index:getCallers', workspacePath, symbol, filePath),
+  indexGetCallees: (workspacePath: string, symbol: string, filePath?: string) => ipcRenderer.invoke('index:getCallees', workspacePath, symbol, filePath),
+  indexGetImportGraph: (workspacePath: string, filePath: string, direction?: 'imports' | 'importedBy' | 'both', depth?: number) =>
+    ipcRenderer.invoke('index:getImportGraph', workspacePath, filePath, direction, depth),
   indexTestConnection: (workspacePath: string) => ipcRenderer.invoke('index:testConnection', workspacePath),
   indexGetProviders: () => ipcRenderer.invoke('index:getProviders'),
   onIndexProgress: (callback: (status: IndexStatusData) => void) => {
@@ -510,19 +558,11 @@ contextBridge.exposeInMainWorld('electronAPI', {
   mcpRefreshCapabilities: (serverId: string) => ipcRenderer.invoke('mcp:refreshCapabilities', serverId),
   mcpGetConfigPaths: () => ipcRenderer.invoke('mcp:getConfigPaths'),
   mcpReloadConfig: () => ipcRenderer.invoke('mcp:reloadConfig'),
-  mcpAddServer: (config: {
-    id: string
-    name: string
-    command: string
-    args: string[]
-    env: Record<string, string>
-    autoApprove: string[]
-    disabled: boolean
-  }) => ipcRenderer.invoke('mcp:addServer', config),
+  mcpAddServer: (config: McpServerConfig) => ipcRenderer.invoke('mcp:addServer', config),
   mcpRemoveServer: (serverId: string) => ipcRenderer.invoke('mcp:removeServer', serverId),
   mcpToggleServer: (serverId: string, disabled: boolean) => ipcRenderer.invoke('mcp:toggleServer', serverId, disabled),
-  onMcpServerStatus: (callback: (event: { serverId: string; status: string; error?: string }) => void) => {
-    const handler = (_: IpcRendererEvent, event: { serverId: string; status: string; error?: string }) => callback(event)
+  onMcpServerStatus: (callback: (event: { serverId: string; status: string; error?: string; reconnectAttempt?: number }) => void) => {
+    const handler = (_: IpcRendererEvent, event: { serverId: string; status: string; error?: string; reconnectAttempt?: number }) => callback(event)
     ipcRenderer.on('mcp:serverStatus', handler)
     return () => ipcRenderer.removeListener('mcp:serverStatus', handler)
   },
@@ -0,0 +1,180 @@
+/**
+ * Agent 后台命令执行（run_command）
+ * 桌面端 shell:executeBackground 与 headless 模式共用同一套校验与执行逻辑：
+ * 工作目录边界、权限策略底线检查、危险模式检测（可选）与审计日志
+ *
+ * 不依赖 Electron，可在纯 Node 的 headless 进程中使用
+ */
+
+import { spawn } from 'child_process'
+import { logger } from '@shared/utils/Logger'
+import { securityManager, OperationType } from './securityModule'
+
+export interface BackgroundCommandRequest {
+  command: string
+  cwd?: string
+  timeout?: number
+  shell?: string
+}
+
+export interface BackgroundCommandResult {
+  success: boolean
+  output: string
+  exitCode: number
+  error?: string
+}
+
+export interface BackgroundCommandOptions {
+  /** 工作区根目录，为空时不限制工作目录 */
+  roots?: string[] | null
+  /** 检测危险命令模式（headless 自动审批时没有人工确认） */
+  checkDangerousPatterns?: boolean
+  /** 实时输出 */
+  onOutput?: (type: 'stdout' | 'stderr', data: string) => void
+  /** 审计日志中的来源 */
+  source?: string
+}
+
+// 危险命令模式列表
+const DANGEROUS_PATTERNS = [
+  /rm\s+-rf\s+.*\//i,  // rm -rf /
+  /wget\s+.*\s+-O\s+/i,  // 下载文件
+  /curl\s+.*\s+-o\s+/i,  // 下载文件
+  /powershell\s+-e(ncodedCommand)?.*frombase64/i,  // PowerShell 编码命令
+  /\/etc\/passwd|\/etc\/shadow/i,
+  /windowssystem32/i,
+  /registry/i,
+]
+
+/**
+ * 检测危险命令模式
+ */
+export function detectDangerousPatterns(command: string): { safe: boolean; reason?: string } {
+  for (const pattern of DANGEROUS_PATTERNS) {
+    if (pattern.test(command)) {
+      return { safe: false, reason: `检测到危险模式: ${pattern}` }
+    }
+  }
+  return { safe: true }
+}
+
+function reject(command: string, reason: string, error: string, source?: string): BackgroundCommandResult {
+  securityManager.logOperation(OperationType.SHELL_EXECUTE, command, false, { reason, source })
+  return { success: false, output: '', exitCode: 1, error }
+}
+
+/**
+ * 校验并在后台执行命令
+ * 使用 child_process.spawn，不依赖 PTY，精确捕获 exit code
+ */
+export async function executeBackgroundCommand(
+  { command, cwd, timeout = 30000, shell: customShell }: BackgroundCommandRequest,
+  { roots, checkDangerousPatterns, onOutput, source }: BackgroundCommandOptions = {}
+): Promise<BackgroundCommandResult> {
+  const workingDir = cwd || roots?.[0] || process.cwd()
+
+  // 验证工作目录
+  if (roots?.length && !securityManager.validateWorkspacePath(workingDir, roots)) {
+    return reject(command, '路径在工作区外', 'Working directory outside workspace', source)
+  }
+
+  if (checkDangerousPatterns) {
+    const dangerous = detectDangerousPatterns(command)
+    if (!dangerous.safe) {
+      return reject(command, dangerous.reason!, `Command blocked: ${dangerous.reason}`, source)
+    }
+  }
+
+  const policyDenial = securityManager.checkPolicy({ command, paths: [workingDir] }, roots)
+  if (policyDenial) {
+    return reject(
+      command,
+      `权限策略：${policyDenial.rule.reason || 'deny'}`,
+      `Command denied by permission policy${policyDenial.rule.reason ? `: ${policyDenial.rule.reason}` : ''}`,
+      source
+    )
+  }
+
+  return new Promise((resolve) => {
+    const isWindows = process.platform === 'win32'
+    const shell = customShell || (isWindows ? 'powershell.exe' : '/bin/bash')
+    const shellArgs = isWindows
+      ? ['-NoProfile', '-NoLogo', '-Command', command]
+      : ['-c', command]
+
+    logger.security.info(`[Shell] Executing: ${command} in ${workingDir}`)
+
+    const child = spawn(shell, shellArgs, {
+      cwd: workingDir,
+      env: { ...process.env, TERM: 'dumb' }, // 禁用颜色输出
+      windowsHide: true,
+    })
+
+    let stdout = ''
+    let stderr = ''
+    let timedOut = false
+
+    // 超时处理
+    const timeoutId = setTimeout(() => {
+      timedOut = true
+      child.kill('SIGTERM')
+      // Windows 上 SIGTERM 可能不够，延迟后强制 kill
+      setTimeout(() => {
+        if (!child.killed) {
+          child.kill('SIGKILL')
+        }
+      }, 1000)
+    }, timeout)
+
+    child.stdout?.on('data', (data: Buffer) => {
+      const text = data.toString()
+      stdout += text
+      onOutput?.('stdout', text)
+    })
+
+    child.stderr?.on('data', (data: Buffer) => {
+      const text = data.toString()
+      stderr += text
+      onOutput?.('stderr', text)
+    })
+
+    child.on('close', (code, signal) => {
+      clearTimeout(timeoutId)
+
+      // 清理输出（移除 ANSI 序列）
+      const cleanOutput = (stdout + (stderr ? `\n${stderr}` : ''))
+        .replace(/\x1b\[[0-9;]*[a-zA-Z]/g, '')
+        .replace(/\r\n/g, '\n')
+        .trim()
+
+      logger.security.info(`[Shell] Command finished: exit=${code}, signal=${signal}`)
+      securityManager.logOperation(OperationType.SHELL_EXECUTE, command, !timedOut, { exitCode: code, source })
+
+      if (timedOut) {
+        resolve({
+          success: false,
+          output: cleanOutput || `Command timed out after ${timeout / 1000}s`,
+          exitCode: code ?? 124, // 124 是 timeout 的标准退出码
+          error: `Command timed out after ${timeout / 1000}s`,
+        })
+      } else {
+        resolve({
+          success: code === 0,
+          output: cleanOutput,
+          exitCode: code ?? 0,
+        })
+      }
+    })
+
+    child.on('error', (err) => {
+      clearTimeout(timeoutId)
+      logger.security.error(`[Shell] Command error:`, err)
+      resolve({
+        success: false,
+        output: stdout + stderr,
+        exitCode: 1,
+        error: err.message,
+      })
+    })
+  })
+}
@@ -16,6 +16,8 @@ export interface FileWatcherEvent {
 
 export interface FileWatcherConfig {
   ignored: (string | RegExp)[]
+  // 只通知渲染进程、不触发索引的路径（优先于 ignored）
+  notifyOnly: RegExp[]
   persistent: boolean
   ignoreInitial: boolean
   bufferTimeMs: number
@@ -25,6 +27,8 @@ export interface FileWatcherConfig {
 
 const DEFAULT_CONFIG: FileWatcherConfig = {
   ignored: [/node_modules/, /\.git/, /dist/, /build/, /\.adnify/, '**/*.tmp', '**/*.temp'],
+  // 项目自定义斜杠命令需要热重载
+  notifyOnly: [/\.adnify[/\\]commands[/\\]/],
   persistent: true,
   ignoreInitial: true,
   bufferTimeMs: 500,
@@ -98,11 +102,14 @@ export async function setupFileWatcher(
     }
 
     for (const event of events) {
-      if (shouldIgnore(event.path)) continue
+      const notifyOnly = mergedConfig.notifyOnly.some(regex => regex.test(event.path))
+      if (!notifyOnly && shouldIgnore(event.path)) continue
 
       const eventType = event.type === 'create' ? 'create' : event.type === 'delete' ? 'delete' : 'update'
       callback({ event: eventType, path: event.path })
-      fileChangeBuffer?.add({ type: eventType, path: event.path, timestamp: Date.now() })
+      if (!notifyOnly) {
+        fileChangeBuffer?.add({ type: eventType, path: event.path, timestamp: Date.now() })
+      }
     }
   }, watcherOptions)
 
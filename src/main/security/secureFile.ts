@@ -9,6 +9,7 @@ import * as path from 'path'
 import { promises as fsPromises } from 'fs'
 import Store from 'electron-store'
 import { securityManager, OperationType } from './securityModule'
+import type { AgentFileOptions } from '@shared/config/permissionPolicy'
 
 // 导入拆分的模块
 import { readFileWithEncoding, readLargeFile } from './fileUtils'
@@ -195,7 +196,7 @@ export function registerSecureFileHandlers(
   })
 
   // 写入文件（无弹窗）
-  ipcMain.handle('file:write', async (_, filePath: string, content: string) => {
+  ipcMain.handle('file:write', async (_, filePath: string, content: string, options?: AgentFileOptions) => {
     if (!filePath || typeof filePath !== 'string') return false
     if (content === undefined || content === null) return false
 
@@ -215,6 +216,14 @@ export function registerSecureFileHandlers(
       return false
     }
 
+    const policyDenial = options?.agent && securityManager.checkPolicy({ paths: [filePath], write: true }, workspace?.roots)
+    if (policyDenial) {
+      securityManager.logOperation(OperationType.FILE_WRITE, filePath, false, {
+        reason: `权限策略：${policyDenial.rule.reason || 'deny'}`,
+      })
+      return false
+    }
+
     // 禁止类型检查
     const forbiddenPatterns = [/\.exe$/i, /\.dll$/i, /\.sys$/i, /\.tmp$/i, /\.temp$/i]
     for (const pattern of forbiddenPatterns) {
@@ -315,9 +324,10 @@ export function registerSecureFileHandlers(
   })
 
   // 创建目录（无弹窗）
-  ipcMain.handle('file:mkdir', async (_, dirPath: string) => {
+  ipcMain.handle('file:mkdir', async (_, dirPath: string, options?: AgentFileOptions) => {
     if (!dirPath || typeof dirPath !== 'string') return false
     if (securityManager.isSensitivePath(dirPath)) return false
+    if (options?.agent && securityManager.checkPolicy({ paths: [dirPath], write: true }, getWorkspaceSessionFn()?.roots)) return false
 
     try {
       await fsPromises.mkdir(dirPath, { recursive: true })
@@ -333,7 +343,7 @@ export function registerSecureFileHandlers(
   })
 
   // 删除文件/目录（无弹窗，仅底线检查）
-  ipcMain.handle('file:delete', async (_, filePath: string) => {
+  ipcMain.handle('file:delete', async (_, filePath: string, options?: AgentFileOptions) => {
     if (securityManager.isSensitivePath(filePath)) {
       securityManager.logOperation(OperationType.FILE_DELETE, filePath, false, {
         reason: '安全底线：敏感路径',
@@ -341,6 +351,14 @@ export function registerSecureFileHandlers(
       return false
     }
 
+    const policyDenial = options?.agent && securityManager.checkPolicy({ paths: [filePath], write: true }, getWorkspaceSessionFn()?.roots)
+    if (policyDenial) {
+      securityManager.logOperation(OperationType.FILE_DELETE, filePath, false, {
+        reason: `权限策略：${policyDenial.rule.reason || 'deny'}`,
+      })
+      return false
+    }
+
     // 关键配置文件保护
     const criticalFiles = [/\.env$/i, /package-lock\.json$/i, /yarn\.lock$/i, /pnpm-lock\.yaml$/i]
     for (const pattern of criticalFiles) {
@@ -384,7 +402,7 @@ export function registerSecureFileHandlers(
   })
 
   // 重命名文件（无弹窗）
-  ipcMain.handle('file:rename', async (_, oldPath: string, newPath: string) => {
+  ipcMain.handle('file:rename', async (_, oldPath: string, newPath: string, options?: AgentFileOptions) => {
     if (!oldPath || !newPath) return false
 
     if (securityManager.isSensitivePath(oldPath) || securityManager.isSensitivePath(newPath)) {
@@ -395,6 +413,15 @@ export function registerSecureFileHandlers(
       return false
     }
 
+    const policyDenial = options?.agent && securityManager.checkPolicy({ paths: [oldPath, newPath], write: true }, getWorkspaceSessionFn()?.roots)
+    if (policyDenial) {
+      securityManager.logOperation(OperationType.FILE_RENAME, oldPath, false, {
+        reason: `权限策略：${policyDenial.rule.reason || 'deny'}`,
+        newPath,
+      })
+      return false
+    }
+
     try {
       await fsPromises.rename(oldPath, newPath)
       securityManager.logOperation(OperationType.FILE_RENAME, oldPath, true, {
@@ -438,6 +465,11 @@ export function registerSecureFileHandlers(
     return securityManager.getAuditLogs(limit)
   })
 
+  ipcMain.handle('security:getPermissionPolicy', (_, workspacePath: string) => {
+    if (!workspacePath || typeof workspacePath !== 'string') return { rules: [] }
+    return securityManager.getPermissionPolicy(workspacePath)
+  })
+
   ipcMain.handle('security:clearAuditLogs', () => {
     securityManager.clearAuditLogs()
     return true
@@ -6,6 +6,12 @@ import { logger } from '@shared/utils/Logger'
 import { ipcMain, BrowserWindow } from 'electron'
 import { spawn, execSync } from 'child_process'
 import { securityManager, OperationType } from './securityModule'
+import {
+  executeBackgroundCommand,
+  detectDangerousPatterns,
+  type BackgroundCommandRequest,
+  type BackgroundCommandResult,
+} from './backgroundCommand'
 import { SECURITY_DEFAULTS } from '../../shared/constants'
 
 
@@ -46,17 +52,6 @@ export function getWhitelist() {
   }
 }
 
-// 危险命令模式列表
-const DANGEROUS_PATTERNS = [
-  /rm\s+-rf\s+.*\//i,  // rm -rf /
-  /wget\s+.*\s+-O\s+/i,  // 下载文件
-  /curl\s+.*\s+-o\s+/i,  // 下载文件
-  /powershell\s+-e(ncodedCommand)?.*frombase64/i,  // PowerShell 编码命令
-  /\/etc\/passwd|\/etc\/shadow/i,
-  /windowssystem32/i,
-  /registry/i,
-]
-
 // 命令安全检查结果
 interface SecurityCheckResult {
   safe: boolean
@@ -91,16 +86,7 @@ class SecureCommandParser {
    * 检测危险命令模式
    */
   static detectDangerousPatterns(command: string): SecurityCheckResult {
-    for (const pattern of DANGEROUS_PATTERNS) {
-      if (pattern.test(command)) {
-        return {
-          safe: false,
-          reason: `检测到危险模式: ${pattern}`,
-        }
-      }
-    }
-
-    return { safe: true }
+    return detectDangerousPatterns(command)
   }
 
   /**
@@ -205,7 +191,16 @@ export function registerSecureTerminalHandlers(
       return { success: false, error: dangerousCheck.reason }
     }
 
-    // 3. 白名单验证
+    // 3. 权限策略
+    const policyDenial = securityManager.checkPolicy({ command: fullCommand, paths: [targetPath] }, workspace?.roots)
+    if (policyDenial) {
+      securityManager.logOperation(OperationType.SHELL_EXECUTE, fullCommand, false, {
+        reason: `权限策略：${policyDenial.rule.reason || 'deny'}`,
+      })
+      return { success: false, error: `命令被权限策略拒绝${policyDenial.rule.reason ? `：${policyDenial.rule.reason}` : ''}` }
+    }
+
+    // 4. 白名单验证
     const baseCommand = command.toLowerCase()
     const whitelistCheck = SecureCommandParser.validateCommand(baseCommand, 'shell')
     if (!whitelistCheck.safe) {
@@ -215,7 +210,7 @@ export function registerSecureTerminalHandlers(
       return { success: false, error: whitelistCheck.reason }
     }
 
-    // 4. 权限检查（用户确认）
+    // 5. 权限检查（用户确认）
     if (requireConfirm) {
       const hasPermission = await securityManager.checkPermission(
         OperationType.SHELL_EXECUTE,
@@ -231,7 +226,7 @@ export function registerSecureTerminalHandlers(
     }
 
     try {
-      // 5. 安全执行命令
+      // 6. 安全执行命令
       const result = await SecureCommandParser.executeSecureCommand(
         command,
         args,
@@ -239,7 +234,7 @@ export function registerSecureTerminalHandlers(
         timeout
       )
 
-      // 6. 记录审计日志
+      // 7. 记录审计日志
       securityManager.logOperation(OperationType.SHELL_EXECUTE, fullCommand, true, {
         exitCode: result.exitCode,
         outputLength: result.stdout.length,
@@ -576,117 +571,24 @@ export function registerSecureTerminalHandlers(
    */
   ipcMain.handle('shell:executeBackground', async (
     _,
-    { command, cwd, timeout = 30000, shell: customShell }: { 
-      command: string
-      cwd?: string
-      timeout?: number
-      shell?: string 
-    }
-  ): Promise<{ success: boolean; output: string; exitCode: number; error?: string }> => {
+    request: BackgroundCommandRequest
+  ): Promise<BackgroundCommandResult> => {
     const mainWindow = getMainWindow()
     const workspace = getWorkspace()
-    const workingDir = cwd || workspace?.roots[0] || process.cwd()
-    
-    // 验证工作目录
-    if (workspace && !securityManager.validateWorkspacePath(workingDir, workspace.roots)) {
-      return { success: false, output: '', exitCode: 1, error: 'Working directory outside workspace' }
-    }
-    
-    return new Promise((resolve) => {
-      const isWindows = process.platform === 'win32'
-      const shell = customShell || (isWindows ? 'powershell.exe' : '/bin/bash')
-      const shellArgs = isWindows 
-        ? ['-NoProfile', '-NoLogo', '-Command', command]
-        : ['-c', command]
-      
-      logger.security.info(`[Shell] Executing: ${command} in ${workingDir}`)
-      
-      const child = spawn(shell, shellArgs, {
-        cwd: workingDir,
-        env: { ...process.env, TERM: 'dumb' }, // 禁用颜色输出
-        windowsHide: true,
-      })
-      
-      let stdout = ''
-      let stderr = ''
-      let timedOut = false
-      
-      // 超时处理
-      const timeoutId = setTimeout(() => {
-        timedOut = true
-        child.kill('SIGTERM')
-        // Windows 上 SIGTERM 可能不够，延迟后强制 kill
-        setTimeout(() => {
-          if (!child.killed) {
-            child.kill('SIGKILL')
-          }
-        }, 1000)
-      }, timeout)
-      
+
+    return executeBackgroundCommand(request, {
+      roots: workspace?.roots,
       // 实时推送输出
-      child.stdout?.on('data', (data: Buffer) => {
-        const text = data.toString()
-        stdout += text
-        if (mainWindow && !mainWindow.isDestroyed()) {
-          mainWindow.webContents.send('shell:output', { 
-            command, 
-            type: 'stdout', 
-            data: text,
-            timestamp: Date.now()
-          })
-        }
-      })
-      
-      child.stderr?.on('data', (data: Buffer) => {
-        const text = data.toString()
-        stderr += text
+      onOutput: (type, data) => {
         if (mainWindow && !mainWindow.isDestroyed()) {
-          mainWindow.webContents.send('shell:output', { 
-            command, 
-            type: 'stderr', 
-            data: text,
+          mainWindow.webContents.send('shell:output', {
+            command: request.command,
+            type,
+            data,
             timestamp: Date.now()
           })
         }
-      })
-      
-      child.on('close', (code, signal) => {
-        clearTimeout(timeoutId)
-        
-        // 清理输出（移除 ANSI 序列）
-        const cleanOutput = (stdout + (stderr ? `\n${stderr}` : ''))
-          .replace(/\x1b\[[0-9;]*[a-zA-Z]/g, '')
-          .replace(/\r\n/g, '\n')
-          .trim()
-        
-        logger.security.info(`[Shell] Command finished: exit=${code}, signal=${signal}`)
-        
-        if (timedOut) {
-          resolve({
-            success: false,
-            output: cleanOutput || `Command timed out after ${timeout / 1000}s`,
-            exitCode: code ?? 124, // 124 是 timeout 的标准退出码
-            error: `Command timed out after ${timeout / 1000}s`
-          })
-        } else {
-          resolve({
-            success: code === 0,
-            output: cleanOutput,
-            exitCode: code ?? 0,
-          })
-        }
-      })
-      
-      child.on('error', (err) => {
-        clearTimeout(timeoutId)
-        logger.security.error(`[Shell] Command error:`, err)
-        resolve({
-          success: false,
-          output: stdout + stderr,
-          exitCode: 1,
-          error: err.message
-        })
-      })
+      },
     })
   })
 
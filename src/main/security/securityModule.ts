@@ -4,10 +4,17 @@
  */
 
 import { logger } from '@shared/utils/Logger'
-import Store from 'electron-store'
+import type Store from 'electron-store'
 import * as path from 'path'
 import * as fs from 'fs'
 import { SECURITY_DEFAULTS, isSensitivePath as sharedIsSensitivePath } from '@shared/constants'
+import {
+  parsePermissionPolicy,
+  evaluatePermissionPolicy,
+  type PermissionPolicyConfig,
+  type PolicyTarget,
+  type PolicyDecision,
+} from '@shared/config/permissionPolicy'
 
 // 敏感操作类型
 export enum OperationType {
@@ -46,8 +53,18 @@ export interface SecurityConfig {
   showSecurityWarnings?: boolean
 }
 
-// 安全存储（独立于主配置）
-const securityStore = new Store({ name: 'security' })
+// 安全存储（独立于主配置，延迟创建：headless 模式下不依赖 Electron）
+let securityStore: Store | null = null
+
+function getSecurityStore(): Store {
+  if (!securityStore) {
+    // 按需加载：electron-store 在纯 Node 环境下无法导入
+    // electron-store 8 为 CommonJS 导出（module.exports = ElectronStore），没有 default 属性
+    const ElectronStore = require('electron-store') as typeof Store
+    securityStore = new ElectronStore({ name: 'security' })
+  }
+  return securityStore
+}
 
 // 审计日志最大条数
 const MAX_AUDIT_LOGS = 1000
@@ -92,6 +109,10 @@ interface SecurityModule {
   // 白名单管理
   isAllowedCommand: (command: string, type: 'shell' | 'git') => boolean
 
+  // 权限策略（.adnify/settings.json）
+  getPermissionPolicy: (workspaceRoot: string) => PermissionPolicyConfig
+  checkPolicy: (target: PolicyTarget, workspace: string | string[] | null | undefined) => PolicyDecision | null
+
   // 配置更新
   updateConfig: (config: Partial<SecuritySettings>) => void
 }
@@ -117,6 +138,7 @@ class SecurityManager implements SecurityModule {
   private sessionStorage: Map<string, boolean> = new Map()
   private config: Partial<SecuritySettings> = {}
   private workspacePath: string | null = null
+  private policyCache: Map<string, { mtimeMs: number; policy: PermissionPolicyConfig }> = new Map()
 
   setMainWindow(_window: any) {
     // 暂时保留方法签名以兼容 main.ts，但不再存储 window 引用以消除 lint 警告
@@ -176,16 +198,16 @@ class SecurityManager implements SecurityModule {
    * 设置权限
    */
   setPermission(operation: OperationType, level: PermissionLevel): void {
-    const permissions = securityStore.get('permissions', {}) as PermissionConfig
+    const permissions = getSecurityStore().get('permissions', {}) as PermissionConfig
     permissions[operation] = level
-    securityStore.set('permissions', permissions)
+    getSecurityStore().set('permissions', permissions)
   }
 
   /**
    * 获取权限配置
    */
   private getPermissionConfig(operation: OperationType): PermissionLevel {
-    const permissions = securityStore.get('permissions', {}) as PermissionConfig
+    const permissions = getSecurityStore().get('permissions', {}) as PermissionConfig
     if (permissions[operation]) {
       return permissions[operation]
     }
@@ -339,6 +361,41 @@ class SecurityManager implements SecurityModule {
     return sharedIsSensitivePath(filePath)
   }
 
+  /**
+   * 读取工作区权限策略（按文件修改时间缓存）
+   */
+  getPermissionPolicy(workspaceRoot: string): PermissionPolicyConfig {
+    const settingsPath = path.join(workspaceRoot, '.adnify', 'settings.json')
+    try {
+      const { mtimeMs } = fs.statSync(settingsPath)
+      const cached = this.policyCache.get(settingsPath)
+      if (cached && cached.mtimeMs === mtimeMs) return cached.policy
+
+      const settings = JSON.parse(fs.readFileSync(settingsPath, 'utf-8'))
+      const policy = parsePermissionPolicy(settings?.permissions)
+      this.policyCache.set(settingsPath, { mtimeMs, policy })
+      return policy
+    } catch {
+      this.policyCache.delete(settingsPath)
+      return { rules: [] }
+    }
+  }
+
+  /**
+   * 策略底线检查
+   * 主进程无法弹窗，只执行 deny 规则；ask/allow 由渲染进程的审批流程处理
+   */
+  checkPolicy(target: PolicyTarget, workspace: string | string[] | null | undefined): PolicyDecision | null {
+    const roots = (Array.isArray(workspace) ? workspace : [workspace]).filter((r): r is string => !!r)
+    if (roots.length === 0) return null
+
+    const resolvedPaths = target.paths?.map(p => path.resolve(p))
+    const root = roots.find(r => resolvedPaths?.some(p => p === path.resolve(r) || p.startsWith(path.resolve(r) + path.sep))) || roots[0]
+
+    const decision = evaluatePermissionPolicy(this.getPermissionPolicy(root), { ...target, paths: resolvedPaths }, root)
+    return decision?.action === 'deny' ? decision : null
+  }
+
   /**
    * 检查允许的命令
    */
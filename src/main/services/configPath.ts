@@ -67,4 +67,6 @@ export const CONFIG_FILES = {
   MCP: 'mcp.json',
   /** 设置子目录 */
   SETTINGS_DIR: 'settings',
+  /** 本地模型缓存子目录 */
+  MODELS_DIR: 'models',
 } as const
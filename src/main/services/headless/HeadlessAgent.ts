@@ -0,0 +1,227 @@
+/**
+ * Headless Agent
+ * 不依赖 Electron UI 的 Agent 循环，用于 CI 和脚本
+ *
+ * - 复用 UnifiedProvider、TOOL_CONFIGS 与工具分组（--record / --replay 时由 ReplayProvider 包装）
+ * - 所有过程以事件形式输出，由调用方序列化为 JSON Lines
+ * - 需要审批的工具按 approval 策略自动批准或拒绝
+ */
+
+import { logger } from '@shared/utils/Logger'
+import { TOOL_DEFINITIONS, getToolApprovalType } from '@shared/config/tools'
+import { getToolsForContext, type WorkMode } from '@shared/config/toolGroups'
+import { evaluatePermissionPolicy, getToolPolicyTarget, formatPolicyDenial } from '@shared/config/permissionPolicy'
+import { DEFAULT_AGENT_CONFIG } from '@shared/config/agentConfig'
+import type { LLMMessage, ToolDefinition } from '@shared/types'
+import { securityManager } from '../../security/securityModule'
+import { UnifiedProvider } from '../llm/providers/unified'
+import { ReplayProvider } from '../llm/providers/replay'
+import { LLMErrorClass, LLMErrorCode, type ChatResult, type LLMProvider } from '../llm/types'
+import { headlessToolExecutors, executeHeadlessTool } from './HeadlessTools'
+import type { HeadlessOptions, HeadlessEvent, HeadlessExitStatus } from './types'
+
+function buildSystemPrompt(options: HeadlessOptions): string {
+  const approvalNote = options.approval === 'auto'
+    ? 'All tools are auto-approved.'
+    : 'Tools that normally require user approval (commands, deletions) are denied in this run. Do not retry them.'
+
+  let prompt = `You are Adnify, an AI coding agent running non-interactively (headless mode) in the workspace: ${options.workspace}
+
+There is no user to answer questions. Complete the task autonomously, then reply with a short summary of what you did.
+
+Guidelines:
+- Use paths relative to the workspace root
+- Read files before editing them; keep edits minimal and focused
+- ${approvalNote}
+- Stop calling tools when the task is complete`
+
+  if (options.systemPrompt) {
+    prompt += `\n\n${options.systemPrompt}`
+  }
+  return prompt
+}
+
+function toWorkMode(mode: HeadlessOptions['mode']): WorkMode {
+  return mode === 'plan' ? 'plan' : mode === 'chat' ? 'chat' : 'code'
+}
+
+export class HeadlessAgent {
+  private options: HeadlessOptions
+  private emit: (event: HeadlessEvent) => void
+  private abortController = new AbortController()
+
+  constructor(options: HeadlessOptions, emit: (event: HeadlessEvent) => void) {
+    this.options = options
+    this.emit = emit
+  }
+
+  /**
+   * 获取当前模式下 headless 可用的工具
+   */
+  getTools(): ToolDefinition[] {
+    return getToolsForContext({ mode: toWorkMode(this.options.mode) })
+      .filter(name => headlessToolExecutors[name] && TOOL_DEFINITIONS[name])
+      .map(name => TOOL_DEFINITIONS[name])
+  }
+
+  abort(): void {
+    this.abortController.abort()
+  }
+
+  /**
+   * 运行 Agent 循环直到完成、出错或达到最大轮数
+   */
+  async run(): Promise<HeadlessExitStatus> {
+    const { workspace, mode, prompt, llm, replay } = this.options
+    const tools = this.getTools()
+    const maxTurns = this.options.maxTurns || DEFAULT_AGENT_CONFIG.maxToolLoops
+    const provider: LLMProvider = replay
+      ? new ReplayProvider(replay, replay.mode === 'record' ? new UnifiedProvider(llm) : undefined)
+      : new UnifiedProvider(llm)
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 }
+
+    const messages: LLMMessage[] = [{ role: 'user', content: prompt }]
+    const systemPrompt = buildSystemPrompt(this.options)
+
+    this.emit({ type: 'start', workspace, mode, provider: llm.provider, model: llm.model, tools: tools.map(t => t.name) })
+
+    let turn = 0
+    let content = ''
+    let status: HeadlessExitStatus = 'max_turns'
+    let error: string | undefined
+
+    try {
+      while (turn < maxTurns) {
+        if (this.abortController.signal.aborted) {
+          status = 'aborted'
+          break
+        }
+
+        turn++
+        this.emit({ type: 'turn', turn })
+
+        const result = await this.callLLM(provider, messages, tools, systemPrompt)
+        content = result.content
+        if (result.usage) {
+          usage.promptTokens += result.usage.promptTokens
+          usage.completionTokens += result.usage.completionTokens
+          usage.totalTokens += result.usage.totalTokens
+          usage.cacheReadTokens += result.usage.cacheReadTokens || 0
+          usage.cacheWriteTokens += result.usage.cacheWriteTokens || 0
+        }
+
+        if (!result.toolCalls?.length) {
+          status = 'completed'
+          break
+        }
+
+        messages.push({
+          role: 'assistant',
+          content: result.content || '',
+          tool_calls: result.toolCalls.map(tc => ({
+            id: tc.id,
+            type: 'function' as const,
+            function: { name: tc.name, arguments: JSON.stringify(tc.arguments) },
+          })),
+        })
+
+        // 按顺序执行，保证写操作与命令的先后关系
+        for (const toolCall of result.toolCalls) {
+          if (this.abortController.signal.aborted) break
+
+          this.emit({ type: 'tool_call', id: toolCall.id, name: toolCall.name, arguments: toolCall.arguments })
+          const toolResult = await this.executeTool(toolCall.name, toolCall.arguments)
+          this.emit({
+            type: 'tool_result',
+            id: toolCall.id,
+            name: toolCall.name,
+            success: toolResult.success,
+            result: toolResult.result,
+            error: toolResult.error,
+          })
+
+          const output = toolResult.success ? toolResult.result : `Error: ${toolResult.error || 'Unknown error'}`
+          messages.push({
+            role: 'tool',
+            tool_call_id: toolCall.id,
+            name: toolCall.name,
+            content: output.length > DEFAULT_AGENT_CONFIG.maxToolResultChars
+              ? `${output.slice(0, DEFAULT_AGENT_CONFIG.maxToolResultChars)}\n...[Output truncated]`
+              : output,
+          })
+        }
+      }
+    } catch (err) {
+      if (this.abortController.signal.aborted || (err instanceof LLMErrorClass && err.code === LLMErrorCode.ABORTED)) {
+        status = 'aborted'
+      } else {
+        status = 'error'
+        error = err instanceof Error ? err.message : String(err)
+        logger.agent.error('[Headless] Agent loop failed:', error)
+      }
+    }
+
+    if (status === 'max_turns') {
+      error = `Reached the maximum of ${maxTurns} turns`
+    }
+
+    this.emit({ type: 'usage', ...usage })
+    this.emit({ type: 'done', status, turns: turn, content, error })
+    return status
+  }
+
+  private async executeTool(name: string, args: Record<string, unknown>) {
+    if (!headlessToolExecutors[name]) {
+      return { success: false, result: '', error: `Tool "${name}" is not available in headless mode` }
+    }
+
+    // 权限策略优先于工具默认的审批类型
+    const policy = securityManager.getPermissionPolicy(this.options.workspace)
+    const decision = evaluatePermissionPolicy(policy, getToolPolicyTarget(name, args), this.options.workspace)
+    if (decision?.action === 'deny') {
+      return { success: false, result: '', error: formatPolicyDenial(decision) }
+    }
+
+    const needsApproval = decision ? decision.action === 'ask' : getToolApprovalType(name, args) !== 'none'
+    if (needsApproval && this.options.approval !== 'auto') {
+      return { success: false, result: '', error: `Tool "${name}" requires approval and was denied (run with --approval auto to allow)` }
+    }
+    return executeHeadlessTool(name, args, this.options.workspace)
+  }
+
+  private callLLM(
+    provider: LLMProvider,
+    messages: LLMMessage[],
+    tools: ToolDefinition[],
+    systemPrompt: string
+  ): Promise<ChatResult> {
+    const { llm } = this.options
+
+    return new Promise((resolve, reject) => {
+      provider.chat({
+        model: llm.model,
+        messages,
+        tools: tools.length ? tools : undefined,
+        systemPrompt,
+        maxTokens: llm.maxTokens,
+        temperature: llm.temperature,
+        topP: llm.topP,
+        stream: llm.adapterConfig?.request?.bodyTemplate?.stream !== false,
+        signal: this.abortController.signal,
+        adapterConfig: llm.adapterConfig,
+        onStream: (chunk) => {
+          if (chunk.type === 'text' && chunk.content) {
+            this.emit({ type: 'text', content: chunk.content })
+          } else if (chunk.type === 'reasoning' && chunk.content) {
+            this.emit({ type: 'reasoning', content: chunk.content })
+          }
+        },
+        onToolCall: () => {
+          // 工具调用在 onComplete 中统一处理
+        },
+        onComplete: resolve,
+        onError: reject,
+      }).catch(reject)
+    })
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * Headless 工具执行器
+ * 在 Node 环境中直接实现渲染进程 executors.ts 的核心工具，
+ * 参数定义、校验 schema 与审批类型均复用 TOOL_CONFIGS，
+ * 文件编辑工具与桌面端共用 fileEdits，run_command 共用 backgroundCommand 的校验与执行
+ *
+ * 不支持依赖编辑器状态的工具（LSP、索引、计划、子代理等）
+ */
+
+import * as path from 'path'
+import { promises as fsPromises } from 'fs'
+import { spawn } from 'child_process'
+import { rgPath } from '@vscode/ripgrep'
+import { TOOL_SCHEMAS } from '@shared/config/tools'
+import { DEFAULT_AGENT_CONFIG } from '@shared/config/agentConfig'
+import { editFile, writeFileContent, replaceFileLines, applyPatch, type FileEditIO } from '@shared/utils/fileEdits'
+import type { ToolExecutionResult } from '@shared/types'
+import { securityManager, OperationType } from '../../security/securityModule'
+import { readFileWithEncoding, ensureDirectory, safeWriteFile, fileExists, safeDelete } from '../../security/fileUtils'
+import { executeBackgroundCommand } from '../../security/backgroundCommand'
+import type { HeadlessToolExecutor } from './types'
+
+// ===== 辅助函数 =====
+
+/** 解析并校验路径（相对路径基于工作区） */
+function resolvePath(p: unknown, workspace: string, allowRead = false): string {
+  if (typeof p !== 'string') throw new Error('Invalid path: not a string')
+  const resolved = path.resolve(workspace, p)
+  if (!securityManager.validateWorkspacePath(resolved, workspace)) {
+    throw new Error(`Security: Path is outside workspace or sensitive: ${p}`)
+  }
+  if (!allowRead && securityManager.isSensitivePath(resolved)) {
+    throw new Error('Security: Cannot modify sensitive files')
+  }
+  return resolved
+}
+
+async function readFile(filePath: string): Promise<string | null> {
+  if (!(await fileExists(filePath))) return null
+  return readFileWithEncoding(filePath)
+}
+
+async function writeFile(filePath: string, content: string): Promise<boolean> {
+  const success = await safeWriteFile(filePath, content)
+  securityManager.logOperation(OperationType.FILE_WRITE, filePath, success, { source: 'headless' })
+  return success
+}
+
+async function deleteFile(filePath: string): Promise<boolean> {
+  const success = await safeDelete(filePath)
+  securityManager.logOperation(OperationType.FILE_DELETE, filePath, success, { source: 'headless' })
+  return success
+}
+
+const fileIO: FileEditIO = { read: readFile, write: writeFile, delete: deleteFile, exists: fileExists }
+
+async function readDir(dirPath: string): Promise<{ name: string; path: string; isDirectory: boolean }[] | null> {
+  try {
+    const entries = await fsPromises.readdir(dirPath, { withFileTypes: true })
+    return entries.map(e => ({ name: e.name, path: path.join(dirPath, e.name), isDirectory: e.isDirectory() }))
+  } catch {
+    return null
+  }
+}
+
+async function buildDirTree(dirPath: string, maxDepth: number, prefix = '', currentDepth = 0): Promise<string> {
+  if (currentDepth >= maxDepth) return ''
+
+  const items = await readDir(dirPath)
+  if (!items) return ''
+
+  const ignoreDirs = DEFAULT_AGENT_CONFIG.ignoredDirectories
+  const nodes = items
+    .filter(item => !(item.name.startsWith('.') && item.name !== '.env') && !ignoreDirs.includes(item.name))
+    .sort((a, b) => {
+      if (a.isDirectory !== b.isDirectory) return a.isDirectory ? -1 : 1
+      return a.name.localeCompare(b.name)
+    })
+
+  let result = ''
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i]
+    const isLast = i === nodes.length - 1
+    result += `${prefix}${isLast ? '└── ' : '├── '}${node.isDirectory ? '📁 ' : '📄 '}${node.name}\n`
+    if (node.isDirectory && currentDepth < maxDepth - 1) {
+      result += await buildDirTree(node.path, maxDepth, prefix + (isLast ? '    ' : '│   '), currentDepth + 1)
+    }
+  }
+  return result
+}
+
+/** ripgrep 搜索，返回 path:line: text 格式 */
+function ripgrep(pattern: string, rootPath: string, isRegex: boolean, include?: string): Promise<string[]> {
+  const args = ['--json', '--max-count', '2000', '--max-filesize', '1M', '--smart-case']
+  if (!isRegex) args.push('--fixed-strings')
+  DEFAULT_AGENT_CONFIG.ignoredDirectories.forEach(dir => args.push('--glob', `!**/${dir}/**`))
+  include?.split(',').forEach(inc => args.push('--glob', inc.trim()))
+  args.push('--', pattern, rootPath)
+
+  return new Promise((resolve) => {
+    const rg = spawn(rgPath, args)
+    let output = ''
+    const timer = setTimeout(() => rg.kill(), 30000)
+
+    rg.stdout.on('data', (data) => { output += data.toString() })
+    rg.on('error', () => {
+      clearTimeout(timer)
+      resolve([])
+    })
+    rg.on('close', () => {
+      clearTimeout(timer)
+      const results: string[] = []
+      for (const line of output.split('\n')) {
+        if (!line.trim()) continue
+        try {
+          const json = JSON.parse(line)
+          if (json.type !== 'match') continue
+          const filePath = path.relative(rootPath, json.data.path.text) || json.data.path.text
+          results.push(`${filePath}:${json.data.line_number}: ${String(json.data.lines.text).trim()}`)
+        } catch {
+          // 跳过无法解析的行
+        }
+      }
+      resolve(results)
+    })
+  })
+}
+
+// ===== 工具执行器 =====
+
+export const headlessToolExecutors: Record<string, HeadlessToolExecutor> = {
+  async read_file(args, workspace) {
+    const filePath = resolvePath(args.path, workspace, true)
+    const content = await readFile(filePath)
+    if (content === null) return { success: false, result: '', error: `File not found: ${filePath}` }
+
+    const lines = content.split('\n')
+    const startLine = typeof args.start_line === 'number' ? Math.max(1, args.start_line) : 1
+    const endLine = typeof args.end_line === 'number' ? Math.min(lines.length, args.end_line) : lines.length
+    const numberedContent = lines.slice(startLine - 1, endLine).map((line, i) => `${startLine + i}: ${line}`).join('\n')
+
+    return { success: true, result: numberedContent, meta: { filePath } }
+  },
+
+  async list_directory(args, workspace) {
+    const dirPath = resolvePath(args.path, workspace, true)
+    const items = await readDir(dirPath)
+    if (!items) return { success: false, result: '', error: `Directory not found: ${dirPath}` }
+    return { success: true, result: items.map(item => `${item.isDirectory ? '📁' : '📄'} ${item.name}`).join('\n') }
+  },
+
+  async get_dir_tree(args, workspace) {
+    const dirPath = resolvePath(args.path, workspace, true)
+    return { success: true, result: await buildDirTree(dirPath, (args.max_depth as number) || 3) }
+  },
+
+  async search_files(args, workspace) {
+    const rootPath = resolvePath(args.path, workspace, true)
+    const results = await ripgrep(args.pattern as string, rootPath, !!args.is_regex, args.file_pattern as string | undefined)
+    return { success: true, result: results.slice(0, 50).join('\n') || 'No matches found' }
+  },
+
+  async search_in_file(args, workspace) {
+    const filePath = resolvePath(args.path, workspace, true)
+    const content = await readFile(filePath)
+    if (content === null) return { success: false, result: '', error: `File not found: ${filePath}` }
+
+    const pattern = args.pattern as string
+    const matches: string[] = []
+    content.split('\n').forEach((line, index) => {
+      const matched = args.is_regex
+        ? (() => { try { return new RegExp(pattern, 'gi').test(line) } catch { return false } })()
+        : line.toLowerCase().includes(pattern.toLowerCase())
+      if (matched) matches.push(`${index + 1}: ${line.trim()}`)
+    })
+
+    return { success: true, result: matches.length ? `Found ${matches.length} matches:\n${matches.slice(0, 100).join('\n')}` : `No matches found for "${pattern}"` }
+  },
+
+  async read_multiple_files(args, workspace) {
+    const results: string[] = []
+    for (const p of args.paths as string[]) {
+      try {
+        const content = await readFile(resolvePath(p, workspace, true))
+        results.push(`\n--- File: ${p} ---\n${content ?? '[File not found]'}\n`)
+      } catch (e: unknown) {
+        results.push(`\n--- File: ${p} ---\n[Error: ${(e as Error).message}]\n`)
+      }
+    }
+    return { success: true, result: results.join('') }
+  },
+
+  async edit_file(args, workspace) {
+    return editFile(fileIO, resolvePath(args.path, workspace), args.old_string as string, args.new_string as string)
+  },
+
+  async write_file(args, workspace) {
+    return writeFileContent(fileIO, resolvePath(args.path, workspace), args.content as string)
+  },
+
+  async replace_file_content(args, workspace) {
+    const filePath = resolvePath(args.path, workspace)
+    return replaceFileLines(fileIO, filePath, args.start_line as number, args.end_line as number, args.content as string)
+  },
+
+  async apply_patch(args, workspace) {
+    return applyPatch(fileIO, args.patch as string, { resolvePath: p => resolvePath(p, workspace) })
+  },
+
+  async create_file_or_folder(args, workspace) {
+    const rawPath = args.path as string
+    const targetPath = resolvePath(rawPath, workspace)
+
+    if (rawPath.endsWith('/') || rawPath.endsWith('\\')) {
+      const success = await ensureDirectory(targetPath)
+      return { success, result: success ? 'Folder created' : 'Failed to create folder' }
+    }
+
+    const content = (args.content as string) || ''
+    const success = await writeFile(targetPath, content)
+    return { success, result: success ? 'File created' : 'Failed to create file', meta: { filePath: targetPath, isNewFile: true } }
+  },
+
+  async delete_file_or_folder(args, workspace) {
+    const targetPath = resolvePath(args.path, workspace)
+    const success = await deleteFile(targetPath)
+    return { success, result: success ? 'Deleted successfully' : 'Failed to delete' }
+  },
+
+  async run_command(args, workspace) {
+    const command = args.command as string
+    const cwd = args.cwd ? resolvePath(args.cwd, workspace, true) : workspace
+    const timeout = args.timeout ? (args.timeout as number) * 1000 : DEFAULT_AGENT_CONFIG.toolTimeoutMs
+
+    // 与桌面端 shell:executeBackground 共用校验；自动审批时没有人工确认，额外检测危险模式
+    const result = await executeBackgroundCommand(
+      { command, cwd, timeout },
+      { roots: [workspace], checkDangerousPatterns: true, source: 'headless' }
+    )
+    const hasOutput = result.output.length > 0
+
+    let resultText = result.output
+    if (result.error) {
+      resultText = hasOutput ? `${result.output}\n\n[Note: ${result.error}]` : result.error
+    } else if (!hasOutput) {
+      resultText = result.exitCode === 0 ? 'Command executed successfully (no output)' : `Command exited with code ${result.exitCode} (no output)`
+    }
+
+    return {
+      success: result.exitCode === 0 || (hasOutput && !result.error),
+      result: resultText,
+      meta: { command, cwd, exitCode: result.exitCode, timedOut: !!result.error?.includes('timed out') },
+    }
+  },
+}
+
+/**
+ * 校验参数并执行工具
+ */
+export async function executeHeadlessTool(
+  name: string,
+  args: Record<string, unknown>,
+  workspace: string
+): Promise<ToolExecutionResult> {
+  const executor = headlessToolExecutors[name]
+  if (!executor) return { success: false, result: '', error: `Tool "${name}" is not available in headless mode` }
+
+  const schema = TOOL_SCHEMAS[name]
+  const validation = schema ? schema.safeParse(args) : { success: true as const, data: args }
+  if (!validation.success) {
+    const errors = validation.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')
+    return { success: false, result: '', error: `Validation failed: Invalid parameters: ${errors}` }
+  }
+
+  try {
+    return await executor(validation.data as Record<string, unknown>, workspace)
+  } catch (error) {
+    return { success: false, result: '', error: `Execution error: ${(error as Error).message}` }
+  }
+}
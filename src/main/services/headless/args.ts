@@ -0,0 +1,146 @@
+/**
+ * Headless 命令行参数解析
+ */
+
+import * as path from 'path'
+import { getBuiltinProvider, getAdapterConfig, getProviderDefaultModel, type ApiProtocol } from '@shared/config/providers'
+import type { HeadlessOptions, HeadlessMode, HeadlessApproval } from './types'
+
+export const USAGE = `Usage: adnify run [options] <prompt>
+
+Runs the agent without the UI and streams events as JSON lines to stdout.
+The prompt is read from stdin when omitted.
+
+Options:
+  -w, --workspace <dir>     Workspace root (default: current directory)
+  -m, --mode <mode>         agent | plan | chat (default: agent)
+  --provider <id>           Provider id (env ADNIFY_PROVIDER, default: openai)
+  --model <name>            Model name (env ADNIFY_MODEL)
+  --api-key <key>           API key (env ADNIFY_API_KEY)
+  --base-url <url>          API base URL (env ADNIFY_BASE_URL)
+  --protocol <protocol>     openai | anthropic | gemini, for non-builtin providers
+  --approval <policy>       auto | deny, for tools that need approval (default: deny)
+  --max-turns <n>           Maximum LLM turns
+  --system <text>           Extra instructions appended to the system prompt
+  --log-file <path>         Write internal logs to a file
+  --record <dir>            Record LLM responses as fixtures into <dir>
+  --replay <dir>            Replay recorded LLM responses from <dir> (no network)
+  -h, --help                Show this help
+
+Exit codes: 0 completed, 1 error, 2 invalid usage, 3 max turns reached, 130 aborted`
+
+const MODES: HeadlessMode[] = ['agent', 'plan', 'chat']
+const APPROVALS: HeadlessApproval[] = ['auto', 'deny']
+const PROTOCOLS: ApiProtocol[] = ['openai', 'anthropic', 'gemini']
+
+/** 参数错误（退出码 2） */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CliUsageError'
+  }
+}
+
+export interface ParsedCliArgs {
+  command: 'run' | 'help'
+  /** 未提供 prompt 时为 undefined，由调用方从 stdin 读取 */
+  options?: Omit<HeadlessOptions, 'prompt'> & { prompt?: string }
+  logFile?: string
+}
+
+/**
+ * 解析命令行参数
+ */
+export function parseCliArgs(argv: string[], env: NodeJS.ProcessEnv = process.env): ParsedCliArgs {
+  const [command, ...rest] = argv
+  if (!command || command === 'help' || command === '-h' || command === '--help') {
+    return { command: 'help' }
+  }
+  if (command !== 'run') {
+    throw new CliUsageError(`Unknown command: ${command}`)
+  }
+
+  const flags: Record<string, string> = {}
+  const positional: string[] = []
+  const aliases: Record<string, string> = { w: 'workspace', m: 'mode', h: 'help' }
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i]
+    if (arg === '--') {
+      positional.push(...rest.slice(i + 1))
+      break
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      positional.push(arg)
+      continue
+    }
+
+    let name = arg.replace(/^--?/, '')
+    let value: string | undefined
+    const eq = name.indexOf('=')
+    if (eq !== -1) {
+      value = name.slice(eq + 1)
+      name = name.slice(0, eq)
+    }
+    name = aliases[name] || name
+
+    if (name === 'help') return { command: 'help' }
+
+    if (value === undefined) {
+      value = rest[++i]
+      if (value === undefined) throw new CliUsageError(`Missing value for --${name}`)
+    }
+    flags[name] = value
+  }
+
+  const mode = (flags.mode || 'agent') as HeadlessMode
+  if (!MODES.includes(mode)) throw new CliUsageError(`Invalid --mode: ${mode}`)
+
+  const approval = (flags.approval || 'deny') as HeadlessApproval
+  if (!APPROVALS.includes(approval)) throw new CliUsageError(`Invalid --approval: ${approval}`)
+
+  const protocol = flags.protocol as ApiProtocol | undefined
+  if (protocol && !PROTOCOLS.includes(protocol)) throw new CliUsageError(`Invalid --protocol: ${protocol}`)
+
+  let maxTurns: number | undefined
+  if (flags['max-turns'] !== undefined) {
+    maxTurns = Number(flags['max-turns'])
+    if (!Number.isInteger(maxTurns) || maxTurns < 1) throw new CliUsageError(`Invalid --max-turns: ${flags['max-turns']}`)
+  }
+
+  if (flags.record && flags.replay) throw new CliUsageError('--record and --replay cannot be used together')
+  const replay = flags.record
+    ? { mode: 'record' as const, fixturesDir: path.resolve(flags.record) }
+    : flags.replay ? { mode: 'replay' as const, fixturesDir: path.resolve(flags.replay) } : undefined
+
+  const provider = flags.provider || env.ADNIFY_PROVIDER || 'openai'
+  const builtin = getBuiltinProvider(provider)
+  const model = flags.model || env.ADNIFY_MODEL || getProviderDefaultModel(provider)
+  if (!model) throw new CliUsageError('Missing --model')
+
+  const baseUrl = flags['base-url'] || env.ADNIFY_BASE_URL || builtin?.baseUrl
+  if (!builtin && !baseUrl) throw new CliUsageError(`Unknown provider "${provider}" requires --base-url`)
+
+  return {
+    command: 'run',
+    logFile: flags['log-file'],
+    options: {
+      workspace: path.resolve(flags.workspace || process.cwd()),
+      mode,
+      prompt: positional.length && positional[0] !== '-' ? positional.join(' ') : undefined,
+      approval,
+      maxTurns,
+      systemPrompt: flags.system,
+      replay,
+      llm: {
+        provider,
+        model,
+        apiKey: flags['api-key'] || env.ADNIFY_API_KEY || '',
+        baseUrl,
+        timeout: builtin?.defaults.timeout,
+        maxTokens: builtin?.defaults.maxTokens,
+        adapterConfig: protocol ? getAdapterConfig(protocol) : builtin?.adapter,
+      },
+    },
+  }
+}
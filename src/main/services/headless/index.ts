@@ -0,0 +1,85 @@
+/**
+ * Headless 模式导出与命令行入口
+ */
+
+import * as fs from 'fs'
+import { logger } from '@shared/utils/Logger'
+import { HeadlessAgent } from './HeadlessAgent'
+import { parseCliArgs, CliUsageError, USAGE } from './args'
+import type { HeadlessEvent, HeadlessExitStatus } from './types'
+
+export { HeadlessAgent } from './HeadlessAgent'
+export { headlessToolExecutors, executeHeadlessTool } from './HeadlessTools'
+export { parseCliArgs, CliUsageError, USAGE } from './args'
+export * from './types'
+
+/** 结束状态对应的进程退出码 */
+export const EXIT_CODES: Record<HeadlessExitStatus | 'usage', number> = {
+  completed: 0,
+  error: 1,
+  usage: 2,
+  max_turns: 3,
+  aborted: 130,
+}
+
+async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) return ''
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks).toString('utf-8').trim()
+}
+
+/**
+ * 运行命令行，返回退出码
+ * stdout 只输出 JSON Lines 事件，用法和参数错误输出到 stderr
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  let parsed
+  try {
+    parsed = parseCliArgs(argv)
+  } catch (error) {
+    if (!(error instanceof CliUsageError)) throw error
+    process.stderr.write(`${error.message}\n\n${USAGE}\n`)
+    return EXIT_CODES.usage
+  }
+
+  if (parsed.command === 'help' || !parsed.options) {
+    process.stdout.write(`${USAGE}\n`)
+    return EXIT_CODES.completed
+  }
+
+  // 日志不能混入 stdout 的事件流
+  logger.configure({ consoleLogging: false })
+  if (parsed.logFile) {
+    logger.enableFileLogging(parsed.logFile)
+  }
+
+  const prompt = parsed.options.prompt || await readStdin()
+  if (!prompt) {
+    process.stderr.write(`Missing prompt\n\n${USAGE}\n`)
+    return EXIT_CODES.usage
+  }
+  if (!fs.existsSync(parsed.options.workspace) || !fs.statSync(parsed.options.workspace).isDirectory()) {
+    process.stderr.write(`Workspace not found: ${parsed.options.workspace}\n`)
+    return EXIT_CODES.usage
+  }
+
+  const emit = (event: HeadlessEvent) => {
+    process.stdout.write(`${JSON.stringify(event)}\n`)
+  }
+  const agent = new HeadlessAgent({ ...parsed.options, prompt }, emit)
+
+  const onSignal = () => agent.abort()
+  process.once('SIGINT', onSignal)
+  process.once('SIGTERM', onSignal)
+
+  try {
+    const status = await agent.run()
+    return EXIT_CODES[status]
+  } finally {
+    process.off('SIGINT', onSignal)
+    process.off('SIGTERM', onSignal)
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Headless 模式类型定义
+ */
+
+import type { LLMConfig, ToolExecutionResult } from '@shared/types'
+import type { ReplayOptions } from '../llm/providers/replay'
+
+/** 命令行工作模式（与 UI 的 chat/agent/plan 一致） */
+export type HeadlessMode = 'chat' | 'agent' | 'plan'
+
+/** 工具审批策略 */
+export type HeadlessApproval =
+  | 'auto'    // 自动批准所有工具
+  | 'deny'    // 需要审批的工具一律拒绝（默认）
+
+/** headless 运行选项 */
+export interface HeadlessOptions {
+  workspace: string
+  mode: HeadlessMode
+  prompt: string
+  llm: LLMConfig
+  approval: HeadlessApproval
+  /** 最大 LLM 轮数（默认取 agent 配置的 maxToolLoops） */
+  maxTurns?: number
+  /** 追加到系统提示词的内容 */
+  systemPrompt?: string
+  /** 录制或回放 LLM 响应（用于确定性测试） */
+  replay?: ReplayOptions
+}
+
+/** 输出到 stdout 的事件（每行一个 JSON） */
+export type HeadlessEvent =
+  | { type: 'start'; workspace: string; mode: HeadlessMode; provider: string; model: string; tools: string[] }
+  | { type: 'turn'; turn: number }
+  | { type: 'text'; content: string }
+  | { type: 'reasoning'; content: string }
+  | { type: 'tool_call'; id: string; name: string; arguments: Record<string, unknown> }
+  | { type: 'tool_result'; id: string; name: string; success: boolean; result: string; error?: string }
+  | { type: 'usage'; promptTokens: number; completionTokens: number; totalTokens: number; cacheReadTokens?: number; cacheWriteTokens?: number }
+  | { type: 'done'; status: HeadlessExitStatus; turns: number; content: string; error?: string }
+
+/** 运行结束状态 */
+export type HeadlessExitStatus = 'completed' | 'max_turns' | 'error' | 'aborted'
+
+/** headless 工具执行器 */
+export type HeadlessToolExecutor = (
+  args: Record<string, unknown>,
+  workspace: string
+) => Promise<ToolExecutionResult>
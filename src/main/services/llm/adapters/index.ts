@@ -9,3 +9,4 @@ export * from './types'
 export * from './messageAdapter'
 export * from './toolAdapter'
 export * from './responseParser'
+export * from './promptCache'
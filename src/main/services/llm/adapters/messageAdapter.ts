@@ -48,13 +48,22 @@ export class MessageAdapter {
     let pendingSystemContent = systemPrompt || ''
 
     // 收集消息中的系统消息
+    // message 模式下只合并开头的系统消息，中途插入的保留在原位置，避免改写请求前缀导致缓存失效
+    const inlineSystemMessages = new Set<LLMMessage>()
+    let leading = true
     for (const msg of messages) {
-      if (msg.role === 'system') {
-        const content = this.extractTextContent(msg.content)
-        pendingSystemContent = pendingSystemContent
-          ? `${pendingSystemContent}\n\n${content}`
-          : content
+      if (msg.role !== 'system') {
+        leading = false
+        continue
       }
+      if (systemMode === 'message' && !leading) {
+        inlineSystemMessages.add(msg)
+        continue
+      }
+      const content = this.extractTextContent(msg.content)
+      pendingSystemContent = pendingSystemContent
+        ? `${pendingSystemContent}\n\n${content}`
+        : content
     }
 
     // 根据模式处理系统消息
@@ -68,7 +77,12 @@ export class MessageAdapter {
     // 转换其他消息
     let firstUserProcessed = false
     for (const msg of messages) {
-      if (msg.role === 'system') continue // 已处理
+      if (msg.role === 'system') {
+        if (inlineSystemMessages.has(msg)) {
+          result.push({ role: 'system', content: this.extractTextContent(msg.content) })
+        }
+        continue
+      }
 
       if (msg.role === 'user') {
         let content = this.convertContent(msg.content)
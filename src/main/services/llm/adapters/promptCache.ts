@@ -0,0 +1,114 @@
+/**
+ * Prompt 缓存适配
+ *
+ * - Anthropic：显式缓存，在 tools、system 和历史消息前缀上设置 cache_control 断点（上限 4 个）
+ * - OpenAI 兼容：服务端按请求前缀自动缓存，只需保证前缀稳定，并解析各家返回的缓存命中字段
+ */
+
+import { createHash } from 'crypto'
+import type { AnthropicCacheControl, AnthropicContentBlock, AnthropicMessage, OpenAIMessage } from './types'
+
+const EPHEMERAL: AnthropicCacheControl = { type: 'ephemeral' }
+
+/** 消息上的断点数量（tools 和 system 各占 1 个，合计不超过 Anthropic 的 4 个上限） */
+const MESSAGE_BREAKPOINTS = 2
+
+/** 缓存相关的 usage 字段 */
+export interface CacheUsage {
+  cacheReadTokens?: number
+  cacheWriteTokens?: number
+}
+
+export class PromptCache {
+  /**
+   * 为 Anthropic 请求设置缓存断点
+   *
+   * 断点打在最后一个工具、system 末尾，以及最近两条 user 消息上：
+   * 最后一条写入本轮前缀，倒数第二条命中上一轮写入的缓存
+   */
+  static applyAnthropic(request: Record<string, unknown>): void {
+    const tools = request.tools as Array<Record<string, unknown>> | undefined
+    if (tools?.length) {
+      tools[tools.length - 1] = { ...tools[tools.length - 1], cache_control: EPHEMERAL }
+    }
+
+    const system = request.system
+    if (typeof system === 'string' && system) {
+      request.system = [{ type: 'text', text: system, cache_control: EPHEMERAL }]
+    } else if (Array.isArray(system) && system.length) {
+      system[system.length - 1] = { ...system[system.length - 1], cache_control: EPHEMERAL }
+    }
+
+    const messages = request.messages as AnthropicMessage[] | undefined
+    if (!messages?.length) return
+
+    let marked = 0
+    for (let i = messages.length - 1; i >= 0 && marked < MESSAGE_BREAKPOINTS; i--) {
+      if (messages[i].role === 'user' && this.markMessage(messages[i])) {
+        marked++
+      }
+    }
+  }
+
+  /**
+   * 解析 Anthropic usage
+   * Anthropic 的 input_tokens 不含缓存部分，这里加回去，保持 promptTokens 为完整输入长度
+   */
+  static parseAnthropicUsage(usage: {
+    input_tokens: number
+    output_tokens: number
+    cache_read_input_tokens?: number | null
+    cache_creation_input_tokens?: number | null
+  }): { promptTokens: number; completionTokens: number; totalTokens: number } & CacheUsage {
+    const cacheReadTokens = usage.cache_read_input_tokens || 0
+    const cacheWriteTokens = usage.cache_creation_input_tokens || 0
+    const promptTokens = usage.input_tokens + cacheReadTokens + cacheWriteTokens
+
+    return {
+      promptTokens,
+      completionTokens: usage.output_tokens,
+      totalTokens: promptTokens + usage.output_tokens,
+      ...(cacheReadTokens ? { cacheReadTokens } : {}),
+      ...(cacheWriteTokens ? { cacheWriteTokens } : {}),
+    }
+  }
+
+  /**
+   * 解析 OpenAI 兼容协议的缓存命中
+   * - OpenAI: prompt_tokens_details.cached_tokens
+   * - DeepSeek: prompt_cache_hit_tokens
+   * - Moonshot 等: cached_tokens
+   */
+  static parseOpenAICacheUsage(usage: Record<string, unknown>): CacheUsage {
+    const details = usage.prompt_tokens_details as Record<string, unknown> | undefined
+    const cached = details?.cached_tokens ?? usage.prompt_cache_hit_tokens ?? usage.cached_tokens
+    return typeof cached === 'number' && cached > 0 ? { cacheReadTokens: cached } : {}
+  }
+
+  /**
+   * 生成 OpenAI prompt_cache_key
+   * 以模型和开头的系统消息为键，同一会话的请求共享前缀
+   */
+  static getOpenAICacheKey(model: string, messages: OpenAIMessage[]): string | undefined {
+    const system = messages[0]?.role === 'system' ? messages[0].content : undefined
+    if (typeof system !== 'string' || !system) return undefined
+    return createHash('sha256').update(`${model}\n${system}`).digest('hex').slice(0, 32)
+  }
+
+  /** 在消息的最后一个可缓存块上设置断点 */
+  private static markMessage(message: AnthropicMessage): boolean {
+    if (typeof message.content === 'string') {
+      if (!message.content) return false
+      message.content = [{ type: 'text', text: message.content, cache_control: EPHEMERAL }]
+      return true
+    }
+
+    for (let i = message.content.length - 1; i >= 0; i--) {
+      const block = message.content[i]
+      if (block.type === 'text' && !block.text) continue
+      message.content[i] = { ...block, cache_control: EPHEMERAL } as AnthropicContentBlock
+      return true
+    }
+    return false
+  }
+}
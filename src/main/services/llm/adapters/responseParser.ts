@@ -6,6 +6,7 @@
 
 import type { ResponseConfig } from '@/shared/config/providers'
 import type { ParsedStreamChunk } from './types'
+import { PromptCache } from './promptCache'
 import { getByPath } from '@shared/utils/jsonUtils'
 
 /**
@@ -65,6 +66,7 @@ export class ResponseParser {
           promptTokens: u.prompt_tokens || u.promptTokens || u.input_tokens || 0,
           completionTokens: u.completion_tokens || u.completionTokens || u.output_tokens || 0,
           totalTokens: u.total_tokens || u.totalTokens || 0,
+          ...PromptCache.parseOpenAICacheUsage(u),
         },
       })
     }
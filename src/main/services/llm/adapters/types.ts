@@ -27,11 +27,17 @@ export interface AnthropicMessage {
   content: string | Array<AnthropicContentBlock>
 }
 
-export type AnthropicContentBlock =
+/** Anthropic 缓存断点 */
+export interface AnthropicCacheControl {
+  type: 'ephemeral'
+}
+
+export type AnthropicContentBlock = (
   | { type: 'text'; text: string }
   | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
   | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
   | { type: 'tool_result'; tool_use_id: string; content: string }
+) & { cache_control?: AnthropicCacheControl }
 
 /** 转换后的请求参数 */
 export interface ConvertedRequest {
@@ -68,6 +74,7 @@ export interface AnthropicTool {
     properties: Record<string, unknown>
     required?: string[]
   }
+  cache_control?: AnthropicCacheControl
 }
 
 // ============================================
@@ -88,6 +95,8 @@ export interface ParsedStreamChunk {
     promptTokens: number
     completionTokens: number
     totalTokens: number
+    cacheReadTokens?: number
+    cacheWriteTokens?: number
   }
 }
 
@@ -5,12 +5,14 @@
  * 路由规则：
  * 1. 所有请求统一使用 UnifiedProvider
  * 2. UnifiedProvider 根据 protocol 自动选择处理方式
+ * 3. 设置 ADNIFY_LLM_REPLAY=record|replay 时由 ReplayProvider 录制或回放请求
  */
 
 import { logger } from '@shared/utils/Logger'
 import { BrowserWindow } from 'electron'
 import { UnifiedProvider } from './providers/unified'
-import { LLMProvider, LLMMessage, LLMConfig, ToolDefinition, LLMErrorCode } from './types'
+import { ReplayProvider, getReplayOptionsFromEnv } from './providers/replay'
+import { LLMProvider, LLMMessage, LLMConfig, ToolDefinition, LLMErrorCode, ChatResult } from './types'
 
 interface ProviderCacheEntry {
   provider: LLMProvider
@@ -103,8 +105,11 @@ export class LLMService {
       this.providerCache.delete(key)
     }
 
-    // 统一使用 UnifiedProvider
-    const provider = new UnifiedProvider(config)
+    // 统一使用 UnifiedProvider，录制 / 回放模式下由 ReplayProvider 包装
+    const replay = getReplayOptionsFromEnv()
+    const provider = replay
+      ? new ReplayProvider(replay, replay.mode === 'record' ? new UnifiedProvider(config) : undefined)
+      : new UnifiedProvider(config)
 
     this.providerCache.set(key, {
       provider,
@@ -251,7 +256,7 @@ export class LLMService {
     messages: LLMMessage[]
     tools?: ToolDefinition[]
     systemPrompt?: string
-  }): Promise<{ content: string; error?: string }> {
+  }): Promise<{ content: string; usage?: ChatResult['usage']; error?: string; errorCode?: LLMErrorCode }> {
     const { config, messages, tools, systemPrompt } = params
 
     logger.system.info('[LLMService] sendMessageSync', {
@@ -262,6 +267,9 @@ export class LLMService {
 
     const abortController = new AbortController()
     let content = ''
+    let usage: ChatResult['usage']
+    // 记录 Provider 返回的错误码，供渲染进程判断是否切换到备用模型
+    let errorCode: LLMErrorCode | undefined
 
     try {
       const provider = this.getProvider(config)
@@ -291,21 +299,23 @@ export class LLMService {
           // 压缩任务不需要工具调用
         },
 
-        onComplete: () => {
-          // 完成
+        onComplete: (result) => {
+          // 返回用量，供渲染进程计费
+          usage = result.usage
         },
 
         onError: (error) => {
           logger.system.error('[LLMService] Sync error:', error)
+          errorCode = error.code
           throw new Error(error.message)
         },
       })
 
-      return { content }
+      return { content, usage }
     } catch (error: unknown) {
       const err = error as { message?: string }
       logger.system.error('[LLMService] sendMessageSync error:', error)
-      return { content: '', error: err.message || 'Unknown error' }
+      return { content: '', error: err.message || 'Unknown error', errorCode: errorCode ?? LLMErrorCode.UNKNOWN }
     }
   }
 
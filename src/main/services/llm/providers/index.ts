@@ -3,7 +3,10 @@
  * 
  * 统一使用 UnifiedProvider，根据 protocol 自动路由到不同的处理逻辑
  * 支持 OpenAI、Anthropic、Gemini、自定义协议
+ * ReplayProvider 用于录制 / 回放请求，供离线测试使用
  */
 
 export { BaseProvider } from './base'
 export { UnifiedProvider } from './unified'
+export { ReplayProvider, hashChatRequest, getReplayOptionsFromEnv } from './replay'
+export type { ReplayMode, ReplayOptions, ReplayEvent, ReplayFixture } from './replay'
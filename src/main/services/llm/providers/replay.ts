@@ -0,0 +1,182 @@
+/**
+ * 录制 / 回放 Provider
+ *
+ * 用于确定性的 Agent 测试：
+ * - record: 包装真实 Provider，把流式块、工具调用、usage 和错误按顺序保存为 fixture
+ * - replay: 不访问网络，按请求哈希读取 fixture 并原样回放
+ *
+ * fixture 位于 <fixturesDir>/<hash>.json，哈希只包含模型、系统提示词、消息和工具名，
+ * 工具描述调整不会使已录制的 fixture 失效
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { createHash } from 'crypto'
+import { BaseProvider } from './base'
+import { LLMProvider, ChatParams, ChatResult, StreamChunk, LLMToolCall, LLMErrorClass, LLMErrorCode } from '../types'
+
+export type ReplayMode = 'record' | 'replay'
+
+export interface ReplayOptions {
+  mode: ReplayMode
+  /** fixture 目录 */
+  fixturesDir: string
+}
+
+/** 录制的事件（按发生顺序） */
+export type ReplayEvent =
+  | { type: 'stream'; chunk: StreamChunk }
+  | { type: 'tool_call'; toolCall: LLMToolCall }
+  | { type: 'complete'; result: ChatResult }
+  | { type: 'error'; error: { message: string; code: LLMErrorCode; status?: number; retryable: boolean } }
+
+export interface ReplayFixture {
+  version: 1
+  hash: string
+  model: string
+  createdAt: string
+  events: ReplayEvent[]
+}
+
+const FIXTURE_VERSION = 1
+
+/**
+ * 计算请求哈希（fixture 文件名）
+ */
+export function hashChatRequest(params: Pick<ChatParams, 'model' | 'messages' | 'systemPrompt' | 'tools'>): string {
+  const payload = JSON.stringify({
+    model: params.model,
+    systemPrompt: params.systemPrompt || '',
+    messages: params.messages,
+    tools: (params.tools || []).map(t => t.name),
+  })
+  return createHash('sha256').update(payload).digest('hex').slice(0, 16)
+}
+
+/**
+ * 从环境变量读取录制 / 回放配置
+ * ADNIFY_LLM_REPLAY=record|replay，ADNIFY_LLM_FIXTURES=<dir>
+ */
+export function getReplayOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): ReplayOptions | null {
+  const mode = env.ADNIFY_LLM_REPLAY
+  if (mode !== 'record' && mode !== 'replay') return null
+  return { mode, fixturesDir: path.resolve(env.ADNIFY_LLM_FIXTURES || 'llm-fixtures') }
+}
+
+export class ReplayProvider extends BaseProvider {
+  private options: ReplayOptions
+  private inner?: LLMProvider
+
+  /**
+   * @param inner 录制模式下实际发送请求的 Provider
+   */
+  constructor(options: ReplayOptions, inner?: LLMProvider) {
+    super(`Replay:${options.mode}`)
+    if (options.mode === 'record' && !inner) {
+      throw new Error('ReplayProvider in record mode requires an inner provider')
+    }
+    this.options = options
+    this.inner = inner
+  }
+
+  getFixturePath(hash: string): string {
+    return path.join(this.options.fixturesDir, `${hash}.json`)
+  }
+
+  async chat(params: ChatParams): Promise<void> {
+    const hash = hashChatRequest(params)
+    if (this.options.mode === 'record') {
+      await this.record(params, hash)
+    } else {
+      await this.replay(params, hash)
+    }
+  }
+
+  private async record(params: ChatParams, hash: string): Promise<void> {
+    const events: ReplayEvent[] = []
+    const save = () => {
+      const fixture: ReplayFixture = { version: FIXTURE_VERSION, hash, model: params.model, createdAt: new Date().toISOString(), events }
+      try {
+        fs.mkdirSync(this.options.fixturesDir, { recursive: true })
+        fs.writeFileSync(this.getFixturePath(hash), JSON.stringify(fixture, null, 2) + '\n')
+        this.log('info', `Recorded ${hash} (${events.length} events)`)
+      } catch (error) {
+        this.log('error', `Failed to save fixture ${hash}`, error)
+      }
+    }
+
+    await this.inner!.chat({
+      ...params,
+      onStream: (chunk) => {
+        events.push({ type: 'stream', chunk })
+        params.onStream(chunk)
+      },
+      onToolCall: (toolCall) => {
+        events.push({ type: 'tool_call', toolCall })
+        params.onToolCall(toolCall)
+      },
+      onComplete: (result) => {
+        events.push({ type: 'complete', result })
+        save()
+        params.onComplete(result)
+      },
+      onError: (error) => {
+        // 用户中止不是模型的行为，不录制
+        if (error.code !== LLMErrorCode.ABORTED) {
+          events.push({ type: 'error', error: { message: error.message, code: error.code, status: error.status, retryable: error.retryable } })
+          save()
+        }
+        params.onError(error)
+      },
+    })
+  }
+
+  private async replay(params: ChatParams, hash: string): Promise<void> {
+    const filePath = this.getFixturePath(hash)
+
+    let fixture: ReplayFixture
+    try {
+      fixture = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'))
+    } catch {
+      params.onError(new LLMErrorClass(
+        `No recorded response for request ${hash} (expected ${filePath}). Re-record with ADNIFY_LLM_REPLAY=record.`,
+        LLMErrorCode.INVALID_REQUEST,
+        undefined,
+        false,
+        { hash }
+      ))
+      return
+    }
+
+    if (fixture.version !== FIXTURE_VERSION) {
+      params.onError(new LLMErrorClass(`Unsupported fixture version ${fixture.version} in ${filePath}`, LLMErrorCode.INVALID_REQUEST))
+      return
+    }
+
+    for (const event of fixture.events) {
+      // 让出事件循环，保证与真实流式响应相同的异步时序，并允许中途中止
+      await new Promise(resolve => setImmediate(resolve))
+      if (params.signal?.aborted) {
+        params.onError(new LLMErrorClass('Request aborted', LLMErrorCode.ABORTED))
+        return
+      }
+
+      switch (event.type) {
+        case 'stream':
+          params.onStream(event.chunk)
+          break
+        case 'tool_call':
+          params.onToolCall(event.toolCall)
+          break
+        case 'complete':
+          params.onComplete(event.result)
+          return
+        case 'error': {
+          const { message, code, status, retryable } = event.error
+          params.onError(new LLMErrorClass(message, code, status, retryable))
+          return
+        }
+      }
+    }
+  }
+}
@@ -9,7 +9,9 @@ import { BaseProvider } from './base'
 import { MessageAdapter } from '../adapters/messageAdapter'
 import { ToolAdapter } from '../adapters/toolAdapter'
 import { ResponseParser } from '../adapters/responseParser'
-import { ChatParams, LLMToolCall, LLMErrorClass, LLMErrorCode, LLMConfig } from '../types'
+import { PromptCache } from '../adapters/promptCache'
+import type { OpenAIMessage } from '../adapters/types'
+import { ChatParams, ChatResult, LLMToolCall, LLMErrorClass, LLMErrorCode, LLMConfig } from '../types'
 import { AGENT_DEFAULTS } from '@shared/constants'
 import { getBuiltinProvider, type LLMAdapterConfig, type ApiProtocol } from '@shared/config/providers'
 import { logger } from '@shared/utils/Logger'
@@ -135,6 +137,12 @@ export class UnifiedProvider extends BaseProvider {
       if (convertedTools?.length) requestBody.tools = convertedTools
       if (stream) requestBody.stream_options = { include_usage: true }
 
+      // OpenAI 官方按 prompt_cache_key 路由缓存，相同系统提示的请求尽量命中同一份前缀缓存
+      if (this.config.provider === 'openai') {
+        const cacheKey = PromptCache.getOpenAICacheKey(model, converted.messages as OpenAIMessage[])
+        if (cacheKey) requestBody.prompt_cache_key = cacheKey
+      }
+
       // 应用 bodyTemplate
       this.applyBodyTemplate(requestBody)
 
@@ -162,7 +170,7 @@ export class UnifiedProvider extends BaseProvider {
     let fullReasoning = ''
     const toolCalls: LLMToolCall[] = []
     let currentToolCall: { id?: string; name?: string; argsString: string } | null = null
-    let usage: { promptTokens: number; completionTokens: number; totalTokens: number } | undefined
+    let usage: ChatResult['usage']
 
     for await (const chunk of stream) {
       // Usage
@@ -172,6 +180,7 @@ export class UnifiedProvider extends BaseProvider {
           promptTokens: u.prompt_tokens || 0,
           completionTokens: u.completion_tokens || 0,
           totalTokens: u.total_tokens || 0,
+          ...PromptCache.parseOpenAICacheUsage(u),
         }
       }
 
@@ -289,6 +298,7 @@ export class UnifiedProvider extends BaseProvider {
       promptTokens: response.usage.prompt_tokens || 0,
       completionTokens: response.usage.completion_tokens || 0,
       totalTokens: response.usage.total_tokens || 0,
+      ...PromptCache.parseOpenAICacheUsage(response.usage as unknown as Record<string, unknown>),
     } : undefined
 
     onComplete({ content, toolCalls: toolCalls.length > 0 ? toolCalls : undefined, usage })
@@ -358,6 +368,9 @@ export class UnifiedProvider extends BaseProvider {
         delete requestParams.top_p
       }
 
+      // 缓存断点：tools -> system -> 历史消息前缀
+      PromptCache.applyAnthropic(requestParams)
+
       this.logRequest(requestParams, stream, convertedTools?.length || 0)
 
       if (stream) {
@@ -416,11 +429,7 @@ export class UnifiedProvider extends BaseProvider {
     onComplete({
       content: fullContent,
       toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-      usage: {
-        promptTokens: finalMessage.usage.input_tokens,
-        completionTokens: finalMessage.usage.output_tokens,
-        totalTokens: finalMessage.usage.input_tokens + finalMessage.usage.output_tokens,
-      },
+      usage: PromptCache.parseAnthropicUsage(finalMessage.usage),
     })
   }
 
@@ -455,11 +464,7 @@ export class UnifiedProvider extends BaseProvider {
     onComplete({
       content: fullContent,
       toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-      usage: {
-        promptTokens: response.usage.input_tokens,
-        completionTokens: response.usage.output_tokens,
-        totalTokens: response.usage.input_tokens + response.usage.output_tokens,
-      },
+      usage: PromptCache.parseAnthropicUsage(response.usage),
     })
   }
 
@@ -544,7 +549,7 @@ export class UnifiedProvider extends BaseProvider {
         }
 
         // 获取 usage
-        let usage: { promptTokens: number; completionTokens: number; totalTokens: number } | undefined
+        let usage: ChatResult['usage']
         try {
           const response = await result.response
           if (response.usageMetadata) {
@@ -552,6 +557,7 @@ export class UnifiedProvider extends BaseProvider {
               promptTokens: response.usageMetadata.promptTokenCount || 0,
               completionTokens: response.usageMetadata.candidatesTokenCount || 0,
               totalTokens: response.usageMetadata.totalTokenCount || 0,
+              cacheReadTokens: response.usageMetadata.cachedContentTokenCount || undefined,
             }
           }
         } catch { /* ignore */ }
@@ -586,12 +592,13 @@ export class UnifiedProvider extends BaseProvider {
           }
         }
 
-        let usage: { promptTokens: number; completionTokens: number; totalTokens: number } | undefined
+        let usage: ChatResult['usage']
         if (response.usageMetadata) {
           usage = {
             promptTokens: response.usageMetadata.promptTokenCount || 0,
             completionTokens: response.usageMetadata.candidatesTokenCount || 0,
             totalTokens: response.usageMetadata.totalTokenCount || 0,
+            cacheReadTokens: response.usageMetadata.cachedContentTokenCount || undefined,
           }
         }
 
@@ -934,7 +941,7 @@ export class UnifiedProvider extends BaseProvider {
     let fullContent = ''
     let fullReasoning = ''
     const toolCalls: LLMToolCall[] = []
-    let usage: { promptTokens: number; completionTokens: number; totalTokens: number } | undefined
+    let usage: ChatResult['usage']
 
     try {
       while (true) {
@@ -1022,13 +1029,14 @@ export class UnifiedProvider extends BaseProvider {
     const toolCalls: LLMToolCall[] = []
 
     // 提取 usage
-    let usage: { promptTokens: number; completionTokens: number; totalTokens: number } | undefined
+    let usage: ChatResult['usage']
     if (data.usage) {
       const u = data.usage as Record<string, number>
       usage = {
         promptTokens: u.prompt_tokens || u.promptTokens || 0,
         completionTokens: u.completion_tokens || u.completionTokens || 0,
         totalTokens: u.total_tokens || u.totalTokens || 0,
+        ...PromptCache.parseOpenAICacheUsage(u),
       }
     }
 
@@ -72,6 +72,10 @@ export interface ChatResult {
         promptTokens: number
         completionTokens: number
         totalTokens: number
+        /** 命中缓存的输入 token */
+        cacheReadTokens?: number
+        /** 写入缓存的输入 token（Anthropic） */
+        cacheWriteTokens?: number
     }
 }
 
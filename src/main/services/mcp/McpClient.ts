@@ -3,12 +3,14 @@
  * 负责与单个 MCP 服务器的通信
  */
 
-import { spawn } from 'child_process'
 import { EventEmitter } from 'events'
 import { logger } from '@shared/utils/Logger'
+import { isRemoteMcpConfig } from '@shared/types/mcp'
 import type { McpServerConfig, McpTool, McpResource, McpPrompt, McpServerStatus, McpContent } from '@shared/types/mcp'
 import type {
   McpClientState,
+  McpTransport,
+  JsonRpcMessage,
   JsonRpcRequest,
   JsonRpcResponse,
   JsonRpcNotification,
@@ -18,24 +20,30 @@ import type {
   McpPromptsListResult,
   McpToolCallResponse,
 } from './types'
+import { createTransport } from './transports'
 
 const REQUEST_TIMEOUT = 30000 // 30 秒超时
+const DEFAULT_RECONNECT_RETRIES = 5
+const DEFAULT_RECONNECT_DELAY = 1000
+const MAX_RECONNECT_DELAY = 30000
 
 export class McpClient extends EventEmitter {
   private state: McpClientState
+  /** 用户主动断开，不再重连 */
+  private intentionalClose = false
 
   constructor(config: McpServerConfig) {
     super()
     this.state = {
       config,
-      process: null,
+      transport: null,
       status: 'disconnected',
       tools: [],
       resources: [],
       prompts: [],
       requestId: 0,
       pendingRequests: new Map(),
-      messageBuffer: '',
+      reconnectAttempt: 0,
     }
   }
 
@@ -63,94 +71,31 @@ export class McpClient extends EventEmitter {
     return this.state.error
   }
 
+  get sessionId(): string | undefined {
+    return this.state.transport?.sessionId
+  }
+
+  get reconnectAttempt(): number {
+    return this.state.reconnectAttempt
+  }
+
   /** 连接到 MCP 服务器 */
   async connect(): Promise<void> {
     if (this.state.status === 'connected' || this.state.status === 'connecting') {
       return
     }
 
+    this.intentionalClose = false
     this.updateStatus('connecting')
-    const { config } = this.state
 
     try {
-      // 创建一个 Promise 来检测进程是否过早退出
-      let processExited = false
-      let exitError: Error | null = null
-
-      // 启动子进程
-      const proc = spawn(config.command, config.args || [], {
-        cwd: config.cwd,
-        env: { ...process.env, ...config.env },
-        stdio: ['pipe', 'pipe', 'pipe'],
-        shell: true,
-      })
-
-      this.state.process = proc
-
-      // 收集 stderr 用于错误报告
-      let stderrBuffer = ''
-
-      // 处理 stdout（JSON-RPC 消息）
-      proc.stdout?.on('data', (data: Buffer) => {
-        this.handleStdout(data.toString())
-      })
-
-      // 处理 stderr（日志）
-      proc.stderr?.on('data', (data: Buffer) => {
-        const msg = data.toString().trim()
-        stderrBuffer += msg + '\n'
-        logger.mcp?.warn(`[MCP:${config.id}] stderr: ${msg}`)
-      })
-
-      // 处理进程退出
-      proc.on('exit', (code, signal) => {
-        logger.mcp?.info(`[MCP:${config.id}] Process exited: code=${code}, signal=${signal}`)
-        processExited = true
-        if (this.state.status === 'connecting') {
-          // 进程在连接过程中退出
-          exitError = new Error(
-            `Process exited during connection (code=${code})${stderrBuffer ? ': ' + stderrBuffer.trim() : ''}`
-          )
-        }
-        this.handleDisconnect()
-      })
-
-      proc.on('error', (err) => {
-        logger.mcp?.error(`[MCP:${config.id}] Process error:`, err)
-        processExited = true
-        exitError = err
-        this.updateStatus('error', err.message)
-      })
-
-      // 等待一小段时间，检查进程是否立即退出
-      await new Promise(resolve => setTimeout(resolve, 100))
-      
-      if (processExited) {
-        throw exitError || new Error('Process exited immediately after spawn')
-      }
-
-      // 初始化 MCP 协议
-      await this.initialize()
-      
-      // 再次检查进程状态
-      if (processExited || !this.state.process?.stdin?.writable) {
-        throw exitError || new Error('Process exited during initialization')
-      }
-      
-      // 获取能力列表
-      await this.refreshCapabilities()
-
-      // 最终检查
-      if (processExited) {
-        throw exitError || new Error('Process exited after initialization')
-      }
-
+      await this.openSession()
       this.updateStatus('connected')
-      logger.mcp?.info(`[MCP:${config.id}] Connected successfully`)
+      logger.mcp?.info(`[MCP:${this.id}] Connected successfully`)
     } catch (err: any) {
-      logger.mcp?.error(`[MCP:${config.id}] Connection failed:`, err)
+      logger.mcp?.error(`[MCP:${this.id}] Connection failed:`, err)
       this.updateStatus('error', err.message)
-      this.cleanup()
+      await this.cleanup()
       throw err
     }
   }
@@ -162,7 +107,9 @@ export class McpClient extends EventEmitter {
     }
 
     logger.mcp?.info(`[MCP:${this.id}] Disconnecting...`)
-    this.cleanup()
+    this.intentionalClose = true
+    await this.cleanup()
+    this.state.reconnectAttempt = 0
     this.updateStatus('disconnected')
   }
 
@@ -208,9 +155,9 @@ export class McpClient extends EventEmitter {
       throw new Error(`MCP server ${this.id} is not connected`)
     }
 
-    // 确保进程可用
-    if (!this.state.process?.stdin?.writable) {
-      throw new Error(`MCP server ${this.id} process is not available`)
+    // 确保传输可用
+    if (!this.state.transport?.isOpen) {
+      throw new Error(`MCP server ${this.id} transport is not available`)
     }
 
     try {
@@ -248,9 +195,25 @@ export class McpClient extends EventEmitter {
 
   // =================== 私有方法 ===================
 
+  /** 创建传输并完成初始化握手 */
+  private async openSession(): Promise<void> {
+    const transport = createTransport(this.state.config)
+    transport.on('message', (message: JsonRpcMessage) => this.handleMessage(message))
+    transport.on('close', (error?: Error) => this.handleTransportClose(transport, error))
+    this.state.transport = transport
+
+    await transport.start()
+
+    // 初始化 MCP 协议
+    await this.initialize()
+
+    // 获取能力列表
+    await this.refreshCapabilities()
+  }
+
   private async initialize(): Promise<void> {
     const result = await this.sendRequest<McpInitializeResult>('initialize', {
-      protocolVersion: '2024-11-05',
+      protocolVersion: '2025-03-26',
       capabilities: {
         roots: { listChanged: true },
       },
@@ -260,31 +223,20 @@ export class McpClient extends EventEmitter {
       },
     })
 
-    logger.mcp?.info(`[MCP:${this.id}] Initialized: ${result.serverInfo.name} v${result.serverInfo.version}`)
+    logger.mcp?.info(`[MCP:${this.id}] Initialized: ${result.serverInfo.name} v${result.serverInfo.version} (protocol ${result.protocolVersion})`)
+    this.state.transport?.setProtocolVersion?.(result.protocolVersion)
 
     // 发送 initialized 通知
-    this.sendNotification('notifications/initialized', {})
+    await this.sendNotification('notifications/initialized', {})
   }
 
-  private handleStdout(data: string): void {
-    this.state.messageBuffer += data
-
-    // 按行分割处理
-    const lines = this.state.messageBuffer.split('\n')
-    this.state.messageBuffer = lines.pop() || ''
-
-    for (const line of lines) {
-      if (!line.trim()) continue
-      try {
-        const message = JSON.parse(line)
-        this.handleMessage(message)
-      } catch (err) {
-        logger.mcp?.warn(`[MCP:${this.id}] Invalid JSON: ${line}`)
-      }
+  private handleMessage(message: JsonRpcMessage): void {
+    // 服务器发起的请求
+    if ('method' in message && 'id' in message) {
+      this.handleServerRequest(message)
+      return
     }
-  }
 
-  private handleMessage(message: JsonRpcResponse | JsonRpcNotification): void {
     // 响应消息
     if ('id' in message && message.id !== undefined) {
       const pending = this.state.pendingRequests.get(message.id)
@@ -302,8 +254,17 @@ export class McpClient extends EventEmitter {
     }
 
     // 通知消息
-    const notification = message as JsonRpcNotification
-    this.handleNotification(notification)
+    this.handleNotification(message as JsonRpcNotification)
+  }
+
+  private handleServerRequest(request: JsonRpcRequest): void {
+    const response: JsonRpcResponse = request.method === 'ping'
+      ? { jsonrpc: '2.0', id: request.id, result: {} }
+      : { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `Method not found: ${request.method}` } }
+
+    this.state.transport?.send(response).catch(err => {
+      logger.mcp?.warn(`[MCP:${this.id}] Failed to answer ${request.method}: ${err.message}`)
+    })
   }
 
   private handleNotification(notification: JsonRpcNotification): void {
@@ -324,20 +285,9 @@ export class McpClient extends EventEmitter {
 
   private sendRequest<T>(method: string, params: Record<string, unknown>): Promise<T> {
     return new Promise((resolve, reject) => {
-      // 检查进程是否可用
-      if (!this.state.process) {
-        reject(new Error('MCP server process not started'))
-        return
-      }
-      
-      if (!this.state.process.stdin?.writable) {
-        reject(new Error('MCP server stdin not writable'))
-        return
-      }
-
-      // 检查进程是否已退出
-      if (this.state.process.exitCode !== null) {
-        reject(new Error(`MCP server process has exited (code=${this.state.process.exitCode})`))
+      const transport = this.state.transport
+      if (!transport?.isOpen) {
+        reject(new Error('MCP server transport is not open'))
         return
       }
 
@@ -356,25 +306,17 @@ export class McpClient extends EventEmitter {
 
       this.state.pendingRequests.set(id, { resolve, reject, timeout })
 
-      try {
-        const message = JSON.stringify(request) + '\n'
-        this.state.process.stdin.write(message, (err) => {
-          if (err) {
-            this.state.pendingRequests.delete(id)
-            clearTimeout(timeout)
-            reject(new Error(`Failed to write to MCP server: ${err.message}`))
-          }
-        })
-      } catch (err: any) {
+      transport.send(request).catch((err: Error) => {
+        if (!this.state.pendingRequests.has(id)) return
         this.state.pendingRequests.delete(id)
         clearTimeout(timeout)
         reject(new Error(`Failed to send request: ${err.message}`))
-      }
+      })
     })
   }
 
-  private sendNotification(method: string, params: Record<string, unknown>): void {
-    if (!this.state.process?.stdin?.writable) {
+  private async sendNotification(method: string, params: Record<string, unknown>): Promise<void> {
+    if (!this.state.transport?.isOpen) {
       return
     }
 
@@ -384,37 +326,102 @@ export class McpClient extends EventEmitter {
       params,
     }
 
-    const message = JSON.stringify(notification) + '\n'
-    this.state.process.stdin.write(message)
+    await this.state.transport.send(notification)
+  }
+
+  private handleTransportClose(transport: McpTransport, error?: Error): void {
+    // 忽略已替换的旧传输和主动断开
+    if (transport !== this.state.transport || this.intentionalClose) {
+      return
+    }
+
+    // 连接过程中关闭：让等待中的请求失败，由 connect/reconnect 处理
+    if (this.state.status === 'connecting') {
+      this.rejectPendingRequests(error || new Error('Connection closed'))
+      return
+    }
+
+    if (this.state.status !== 'connected') {
+      return
+    }
+
+    const { config } = this.state
+    if (isRemoteMcpConfig(config) && config.reconnect?.enabled !== false) {
+      this.reconnect(error).catch(() => {})
+      return
+    }
+
+    this.handleDisconnect()
+  }
+
+  /** 远程服务器断线重连（指数退避） */
+  private async reconnect(reason?: Error): Promise<void> {
+    const { config } = this.state
+    const options = isRemoteMcpConfig(config) ? config.reconnect : undefined
+    const maxRetries = options?.maxRetries ?? DEFAULT_RECONNECT_RETRIES
+    const initialDelay = options?.initialDelayMs ?? DEFAULT_RECONNECT_DELAY
+    let lastError = reason
+
+    logger.mcp?.warn(`[MCP:${this.id}] Connection lost${reason ? `: ${reason.message}` : ''}, reconnecting...`)
+    await this.cleanup()
+
+    while (this.state.reconnectAttempt < maxRetries && !this.intentionalClose) {
+      const attempt = ++this.state.reconnectAttempt
+      const delay = Math.min(initialDelay * Math.pow(2, attempt - 1), MAX_RECONNECT_DELAY)
+      this.updateStatus('connecting', lastError?.message)
+
+      await new Promise(resolve => setTimeout(resolve, delay))
+      if (this.intentionalClose) return
+
+      try {
+        await this.openSession()
+        this.state.reconnectAttempt = 0
+        this.updateStatus('connected')
+        logger.mcp?.info(`[MCP:${this.id}] Reconnected after ${attempt} attempt(s)`)
+        return
+      } catch (err: any) {
+        lastError = err
+        logger.mcp?.warn(`[MCP:${this.id}] Reconnect attempt ${attempt}/${maxRetries} failed: ${err.message}`)
+        await this.cleanup()
+      }
+    }
+
+    if (this.intentionalClose) return
+    this.state.reconnectAttempt = 0
+    this.updateStatus('error', `Reconnect failed: ${lastError?.message || 'unknown error'}`)
   }
 
   private handleDisconnect(): void {
-    this.cleanup()
+    this.cleanup().catch(() => {})
     this.updateStatus('disconnected')
     this.emit('disconnected')
   }
 
-  private cleanup(): void {
-    // 清理待处理请求
+  private rejectPendingRequests(error: Error): void {
     for (const [, pending] of this.state.pendingRequests) {
       clearTimeout(pending.timeout)
-      pending.reject(new Error('Connection closed'))
+      pending.reject(error)
     }
     this.state.pendingRequests.clear()
+  }
 
-    // 终止进程
-    if (this.state.process) {
-      this.state.process.kill()
-      this.state.process = null
+  private async cleanup(): Promise<void> {
+    // 清理待处理请求
+    this.rejectPendingRequests(new Error('Connection closed'))
+
+    // 关闭传输
+    const transport = this.state.transport
+    this.state.transport = null
+    if (transport) {
+      transport.removeAllListeners()
+      await transport.close().catch(() => {})
     }
-
-    this.state.messageBuffer = ''
   }
 
   private updateStatus(status: McpServerStatus, error?: string): void {
     this.state.status = status
     this.state.error = error
-    this.emit('statusChanged', { status, error })
+    this.emit('statusChanged', { status, error, reconnectAttempt: this.state.reconnectAttempt })
   }
 
   private ensureConnected(): void {
@@ -422,4 +429,4 @@ export class McpClient extends EventEmitter {
       throw new Error(`MCP server ${this.id} is not connected`)
     }
   }
-}
\ No newline at end of file
+}
@@ -7,7 +7,7 @@ import * as fs from 'fs'
 import * as path from 'path'
 import { logger } from '@shared/utils/Logger'
 import { getConfigFilePath, getWorkspaceConfigFilePath, CONFIG_FILES } from '../configPath'
-import type { McpConfig, McpServerConfig } from '@shared/types/mcp'
+import type { McpConfig, McpServerConfig, McpServerConfigEntry } from '@shared/types/mcp'
 
 export class McpConfigLoader {
   private workspaceRoots: string[] = []
@@ -40,7 +40,7 @@ export class McpConfigLoader {
     if (userConfig) {
       for (const [id, serverConfig] of Object.entries(userConfig.mcpServers)) {
         if (!seenIds.has(id)) {
-          configs.push({ id, ...serverConfig })
+          configs.push(this.normalizeServerConfig(id, serverConfig))
           seenIds.add(id)
         }
       }
@@ -59,7 +59,7 @@ export class McpConfigLoader {
             configs.splice(existingIndex, 1)
           }
           // 添加新配置
-          configs.push({ id, ...serverConfig })
+          configs.push(this.normalizeServerConfig(id, serverConfig))
           seenIds.add(id)
         }
       }
@@ -126,6 +126,21 @@ export class McpConfigLoader {
 
   // =================== 私有方法 ===================
 
+  /**
+   * 补全配置条目
+   * 兼容其他客户端的写法：只有 url 时视为 Streamable HTTP，transport 字段作为 type 的别名
+   */
+  private normalizeServerConfig(id: string, entry: McpServerConfigEntry): McpServerConfig {
+    const raw = entry as McpServerConfigEntry & { transport?: string; serverUrl?: string }
+    const url = 'url' in raw ? raw.url : raw.serverUrl
+    if (url) {
+      const declared = raw.type || raw.transport
+      const type = declared === 'sse' ? 'sse' : 'http'
+      return { ...raw, id, name: raw.name || id, type, url } as McpServerConfig
+    }
+    return { ...raw, id, name: raw.name || id } as McpServerConfig
+  }
+
   private loadConfigFile(filePath: string): McpConfig | null {
     try {
       if (!fs.existsSync(filePath)) {
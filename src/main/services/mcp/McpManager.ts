@@ -102,11 +102,12 @@ export class McpManager extends EventEmitter {
     const client = new McpClient(config)
     
     // 监听客户端事件
-    client.on('statusChanged', ({ status, error }) => {
+    client.on('statusChanged', ({ status, error, reconnectAttempt }) => {
       this.sendToRenderer('mcp:serverStatus', {
         serverId: config.id,
         status,
         error,
+        reconnectAttempt,
       })
     })
 
@@ -178,6 +179,8 @@ export class McpManager extends EventEmitter {
         tools: client?.tools || [],
         resources: client?.resources || [],
         prompts: client?.prompts || [],
+        sessionId: client?.sessionId,
+        reconnectAttempt: client?.reconnectAttempt,
       })
     }
 
@@ -274,24 +277,8 @@ export class McpManager extends EventEmitter {
   }
 
   /** 添加服务器 */
-  async addServer(config: {
-    id: string
-    name: string
-    command: string
-    args: string[]
-    env: Record<string, string>
-    autoApprove: string[]
-    disabled: boolean
-  }): Promise<void> {
-    await this.configLoader.addServer({
-      id: config.id,
-      name: config.name,
-      command: config.command,
-      args: config.args,
-      env: config.env,
-      autoApprove: config.autoApprove,
-      disabled: config.disabled,
-    })
+  async addServer(config: McpServerConfig): Promise<void> {
+    await this.configLoader.addServer(config)
     logger.mcp?.info(`[McpManager] Added server: ${config.id}`)
   }
 
@@ -0,0 +1,107 @@
+/**
+ * 旧版 HTTP+SSE 传输（MCP 2024-11-05）
+ *
+ * - GET 打开 SSE 流，服务器先发送 endpoint 事件告知 POST 地址
+ * - 客户端消息 POST 到该地址，服务器消息通过 SSE 的 message 事件返回
+ * - 流断开即视为连接断开，由 McpClient 负责重连
+ */
+
+import { EventEmitter } from 'events'
+import { logger } from '@shared/utils/Logger'
+import type { McpRemoteServerConfig } from '@shared/types/mcp'
+import type { McpTransport, JsonRpcMessage } from '../types'
+import { readSseEvents } from './sseReader'
+
+const ENDPOINT_TIMEOUT = 15000
+
+export class SseTransport extends EventEmitter implements McpTransport {
+  private endpoint: URL | null = null
+  private abortController = new AbortController()
+  private closed = false
+
+  constructor(private config: McpRemoteServerConfig) {
+    super()
+  }
+
+  get isOpen(): boolean {
+    return !this.closed && this.endpoint !== null
+  }
+
+  async start(): Promise<void> {
+    const response = await fetch(this.config.url, {
+      method: 'GET',
+      headers: { ...this.config.headers, Accept: 'text/event-stream' },
+      signal: this.abortController.signal,
+    })
+
+    if (!response.ok || !response.body) {
+      const text = await response.text().catch(() => '')
+      throw new Error(`HTTP ${response.status}: ${text || response.statusText}`)
+    }
+
+    const body = response.body
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new Error('Timed out waiting for SSE endpoint event'))
+        this.abortController.abort()
+      }, ENDPOINT_TIMEOUT)
+
+      readSseEvents(body, (event) => {
+        if (event.event === 'endpoint') {
+          try {
+            // endpoint 可能是相对路径
+            this.endpoint = new URL(event.data, this.config.url)
+            clearTimeout(timer)
+            resolve()
+          } catch {
+            reject(new Error(`Invalid SSE endpoint: ${event.data}`))
+          }
+          return
+        }
+
+        if (event.event === 'message') {
+          try {
+            this.emit('message', JSON.parse(event.data))
+          } catch {
+            logger.mcp?.warn(`[MCP:${this.config.id}] Invalid SSE message: ${event.data}`)
+          }
+        }
+      })
+        .then(() => this.handleStreamEnd(new Error('SSE stream closed by server')))
+        .catch((err: Error) => this.handleStreamEnd(err))
+        .finally(() => {
+          clearTimeout(timer)
+          reject(new Error('SSE stream closed before endpoint event'))
+        })
+    })
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (!this.endpoint || this.closed) {
+      throw new Error('SSE transport is not connected')
+    }
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { ...this.config.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+      signal: this.abortController.signal,
+    })
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '')
+      throw new Error(`HTTP ${response.status}: ${text || response.statusText}`)
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true
+    this.abortController.abort()
+  }
+
+  private handleStreamEnd(error: Error): void {
+    if (this.closed) return
+    this.closed = true
+    this.emit('close', error)
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * stdio 传输
+ * 启动本地子进程，通过 stdin/stdout 逐行收发 JSON-RPC
+ */
+
+import { spawn, type ChildProcess } from 'child_process'
+import { EventEmitter } from 'events'
+import { logger } from '@shared/utils/Logger'
+import type { McpStdioServerConfig } from '@shared/types/mcp'
+import type { McpTransport, JsonRpcMessage } from '../types'
+
+export class StdioTransport extends EventEmitter implements McpTransport {
+  private process: ChildProcess | null = null
+  private messageBuffer = ''
+  private stderrBuffer = ''
+  private closing = false
+
+  constructor(private config: McpStdioServerConfig) {
+    super()
+  }
+
+  get isOpen(): boolean {
+    return !!this.process?.stdin?.writable && this.process.exitCode === null
+  }
+
+  async start(): Promise<void> {
+    const { config } = this
+    let exitError: Error | null = null
+    let processExited = false
+
+    const proc = spawn(config.command, config.args || [], {
+      cwd: config.cwd,
+      env: { ...process.env, ...config.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      shell: true,
+    })
+    this.process = proc
+
+    // 处理 stdout（JSON-RPC 消息）
+    proc.stdout?.on('data', (data: Buffer) => {
+      this.handleStdout(data.toString())
+    })
+
+    // 处理 stderr（日志），收集用于错误报告
+    proc.stderr?.on('data', (data: Buffer) => {
+      const msg = data.toString().trim()
+      this.stderrBuffer += msg + '\n'
+      logger.mcp?.warn(`[MCP:${config.id}] stderr: ${msg}`)
+    })
+
+    proc.on('exit', (code, signal) => {
+      logger.mcp?.info(`[MCP:${config.id}] Process exited: code=${code}, signal=${signal}`)
+      processExited = true
+      exitError = new Error(
+        `Process exited (code=${code})${this.stderrBuffer ? ': ' + this.stderrBuffer.trim() : ''}`
+      )
+      this.process = null
+      this.emit('close', this.closing ? undefined : exitError)
+    })
+
+    proc.on('error', (err) => {
+      logger.mcp?.error(`[MCP:${config.id}] Process error:`, err)
+      processExited = true
+      exitError = err
+    })
+
+    // 等待一小段时间，检查进程是否立即退出
+    await new Promise(resolve => setTimeout(resolve, 100))
+
+    if (processExited) {
+      throw exitError || new Error('Process exited immediately after spawn')
+    }
+  }
+
+  send(message: JsonRpcMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.process) {
+        reject(new Error('MCP server process not started'))
+        return
+      }
+      if (!this.process.stdin?.writable) {
+        reject(new Error('MCP server stdin not writable'))
+        return
+      }
+      if (this.process.exitCode !== null) {
+        reject(new Error(`MCP server process has exited (code=${this.process.exitCode})`))
+        return
+      }
+
+      this.process.stdin.write(JSON.stringify(message) + '\n', (err) => {
+        if (err) {
+          reject(new Error(`Failed to write to MCP server: ${err.message}`))
+        } else {
+          resolve()
+        }
+      })
+    })
+  }
+
+  async close(): Promise<void> {
+    this.closing = true
+    if (this.process) {
+      this.process.kill()
+      this.process = null
+    }
+    this.messageBuffer = ''
+  }
+
+  private handleStdout(data: string): void {
+    this.messageBuffer += data
+
+    // 按行分割处理
+    const lines = this.messageBuffer.split('\n')
+    this.messageBuffer = lines.pop() || ''
+
+    for (const line of lines) {
+      if (!line.trim()) continue
+      try {
+        this.emit('message', JSON.parse(line))
+      } catch {
+        logger.mcp?.warn(`[MCP:${this.config.id}] Invalid JSON: ${line}`)
+      }
+    }
+  }
+}
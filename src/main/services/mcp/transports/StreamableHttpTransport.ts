@@ -0,0 +1,220 @@
+/**
+ * Streamable HTTP 传输（MCP 2025-03-26）
+ *
+ * - 每条消息单独 POST，响应为 JSON 或 SSE 流
+ * - 服务器在 initialize 响应中下发 Mcp-Session-Id，后续请求都需携带
+ * - 初始化完成后通过 GET 打开服务器推送流，断开时带 Last-Event-ID 恢复
+ * - 会话过期（404）时关闭传输，由 McpClient 重新初始化
+ */
+
+import { EventEmitter } from 'events'
+import { logger } from '@shared/utils/Logger'
+import type { McpRemoteServerConfig } from '@shared/types/mcp'
+import type { McpTransport, JsonRpcMessage } from '../types'
+import { readSseEvents } from './sseReader'
+
+const SESSION_HEADER = 'mcp-session-id'
+const PROTOCOL_VERSION_HEADER = 'mcp-protocol-version'
+const STREAM_RETRY_DELAY = 1000
+const STREAM_MAX_RETRIES = 5
+
+export class StreamableHttpTransport extends EventEmitter implements McpTransport {
+  private _sessionId?: string
+  private protocolVersion?: string
+  private lastEventId?: string
+  private abortController = new AbortController()
+  private streamRetries = 0
+  private closed = false
+
+  constructor(private config: McpRemoteServerConfig) {
+    super()
+  }
+
+  get isOpen(): boolean {
+    return !this.closed
+  }
+
+  get sessionId(): string | undefined {
+    return this._sessionId
+  }
+
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version
+  }
+
+  async start(): Promise<void> {
+    // 连接在首次 POST（initialize）时建立，这里只校验 URL
+    new URL(this.config.url)
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error('Transport is closed')
+    }
+
+    const response = await fetch(this.config.url, {
+      method: 'POST',
+      headers: this.buildHeaders({
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      }),
+      body: JSON.stringify(message),
+      signal: this.abortController.signal,
+    })
+
+    const sessionId = response.headers.get(SESSION_HEADER)
+    if (sessionId) {
+      this._sessionId = sessionId
+    }
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '')
+      // 携带会话 ID 时收到 404 表示会话已失效
+      if (response.status === 404 && this._sessionId) {
+        this._sessionId = undefined
+        this.fail(new Error('MCP session expired'))
+      }
+      throw new Error(`HTTP ${response.status}: ${text || response.statusText}`)
+    }
+
+    // 初始化完成后打开推送流
+    if ('method' in message && message.method === 'notifications/initialized') {
+      this.openEventStream()
+    }
+
+    // 通知和响应返回 202，无响应体
+    if (response.status === 202) {
+      return
+    }
+
+    const contentType = response.headers.get('content-type') || ''
+    if (contentType.includes('text/event-stream')) {
+      // 响应流在后台读取，消息通过 'message' 事件交给 McpClient
+      this.consumeStream(response, false)
+    } else if (contentType.includes('application/json')) {
+      const data = await response.json()
+      for (const item of Array.isArray(data) ? data : [data]) {
+        this.emit('message', item)
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return
+    this.closed = true
+    this.abortController.abort()
+
+    // 通知服务器结束会话，服务器不支持时返回 405，忽略即可
+    if (this._sessionId) {
+      try {
+        await fetch(this.config.url, {
+          method: 'DELETE',
+          headers: this.buildHeaders({}),
+          signal: AbortSignal.timeout(5000),
+        })
+      } catch {
+        // 忽略
+      }
+    }
+  }
+
+  // =================== 私有方法 ===================
+
+  private buildHeaders(base: Record<string, string>): Record<string, string> {
+    const headers: Record<string, string> = { ...this.config.headers, ...base }
+    if (this._sessionId) {
+      headers[SESSION_HEADER] = this._sessionId
+    }
+    if (this.protocolVersion) {
+      headers[PROTOCOL_VERSION_HEADER] = this.protocolVersion
+    }
+    return headers
+  }
+
+  /** 打开服务器推送流（GET） */
+  private async openEventStream(): Promise<void> {
+    if (this.closed) return
+
+    const headers = this.buildHeaders({ Accept: 'text/event-stream' })
+    if (this.lastEventId) {
+      headers['last-event-id'] = this.lastEventId
+    }
+
+    try {
+      const response = await fetch(this.config.url, {
+        method: 'GET',
+        headers,
+        signal: this.abortController.signal,
+      })
+
+      // 服务器不提供推送流
+      if (response.status === 405) {
+        logger.mcp?.debug(`[MCP:${this.config.id}] Server does not offer an SSE stream`)
+        return
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+
+      this.streamRetries = 0
+      await this.consumeStream(response, true)
+    } catch (err: any) {
+      if (this.closed) return
+      this.retryEventStream(err)
+    }
+  }
+
+  private retryEventStream(err: Error): void {
+    if (this.streamRetries >= STREAM_MAX_RETRIES) {
+      this.fail(new Error(`SSE stream lost: ${err.message}`))
+      return
+    }
+    const delay = STREAM_RETRY_DELAY * Math.pow(2, this.streamRetries++)
+    logger.mcp?.warn(`[MCP:${this.config.id}] SSE stream lost, retrying in ${delay}ms: ${err.message}`)
+    setTimeout(() => this.openEventStream(), delay)
+  }
+
+  /**
+   * 读取 SSE 响应
+   * @param reconnect 推送流正常结束时是否重新打开
+   */
+  private async consumeStream(response: Response, reconnect: boolean): Promise<void> {
+    if (!response.body) return
+
+    try {
+      await readSseEvents(response.body, (event) => {
+        if (event.id) {
+          this.lastEventId = event.id
+        }
+        if (event.event !== 'message' || !event.data) return
+        try {
+          const data = JSON.parse(event.data)
+          for (const item of Array.isArray(data) ? data : [data]) {
+            this.emit('message', item)
+          }
+        } catch {
+          logger.mcp?.warn(`[MCP:${this.config.id}] Invalid SSE message: ${event.data}`)
+        }
+      })
+    } catch (err: any) {
+      if (this.closed) return
+      if (!reconnect) {
+        logger.mcp?.warn(`[MCP:${this.config.id}] Response stream interrupted: ${err.message}`)
+        return
+      }
+      throw err
+    }
+
+    // 服务器可能随时结束推送流，稍后重新打开
+    if (reconnect && !this.closed) {
+      setTimeout(() => this.openEventStream(), STREAM_RETRY_DELAY)
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.closed) return
+    this.closed = true
+    this.abortController.abort()
+    this.emit('close', error)
+  }
+}
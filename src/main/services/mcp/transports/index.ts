@@ -0,0 +1,19 @@
+/**
+ * MCP 传输层
+ * 根据服务器配置创建对应的传输
+ */
+
+import { isRemoteMcpConfig, type McpServerConfig } from '@shared/types/mcp'
+import type { McpTransport } from '../types'
+import { StdioTransport } from './StdioTransport'
+import { StreamableHttpTransport } from './StreamableHttpTransport'
+import { SseTransport } from './SseTransport'
+
+export function createTransport(config: McpServerConfig): McpTransport {
+  if (!isRemoteMcpConfig(config)) {
+    return new StdioTransport(config)
+  }
+  return config.type === 'sse' ? new SseTransport(config) : new StreamableHttpTransport(config)
+}
+
+export { StdioTransport, StreamableHttpTransport, SseTransport }
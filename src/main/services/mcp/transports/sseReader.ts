@@ -0,0 +1,85 @@
+/**
+ * MCP SSE 事件读取
+ * 按 SSE 规范解析 event/data/id 字段（LLM 的 parseSSEStream 只处理 data 行）
+ */
+
+/** SSE 事件 */
+export interface McpSseEvent {
+  event: string
+  data: string
+  id?: string
+}
+
+/**
+ * 读取 SSE 流，逐个回调完整事件
+ * 流正常结束时 resolve，读取出错（含 abort）时 reject
+ */
+export async function readSseEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: McpSseEvent) => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder('utf-8')
+  let buffer = ''
+  let eventName = ''
+  let dataLines: string[] = []
+  let eventId: string | undefined
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventName || 'message', data: dataLines.join('\n'), id: eventId })
+    }
+    eventName = ''
+    dataLines = []
+    eventId = undefined
+  }
+
+  const processLine = (line: string) => {
+    // 空行表示事件结束
+    if (line === '') {
+      dispatch()
+      return
+    }
+    // 注释行（心跳）
+    if (line.startsWith(':')) return
+
+    const colonIndex = line.indexOf(':')
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex)
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1)
+    if (value.startsWith(' ')) value = value.slice(1)
+
+    switch (field) {
+      case 'event':
+        eventName = value
+        break
+      case 'data':
+        dataLines.push(value)
+        break
+      case 'id':
+        eventId = value
+        break
+      // retry 等字段忽略
+    }
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      // 末尾的 \r 可能与下一块的 \n 组成 \r\n，先留在 buffer 中
+      const lines = buffer.split(/\r\n|\n|\r(?!$)/)
+      buffer = lines.pop() || ''
+      for (const line of lines) {
+        processLine(line)
+      }
+    }
+
+    // 流结束时分发残留事件
+    if (buffer) processLine(buffer.replace(/\r$/, ''))
+    dispatch()
+  } finally {
+    reader.releaseLock()
+  }
+}
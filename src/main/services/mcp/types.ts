@@ -2,13 +2,13 @@
  * MCP 主进程内部类型定义
  */
 
-import type { ChildProcess } from 'child_process'
+import type { EventEmitter } from 'events'
 import type { McpServerConfig, McpTool, McpResource, McpPrompt, McpServerStatus } from '@shared/types/mcp'
 
 /** MCP 客户端内部状态 */
 export interface McpClientState {
   config: McpServerConfig
-  process: ChildProcess | null
+  transport: McpTransport | null
   status: McpServerStatus
   error?: string
   tools: McpTool[]
@@ -16,7 +16,30 @@ export interface McpClientState {
   prompts: McpPrompt[]
   requestId: number
   pendingRequests: Map<number, PendingRequest>
-  messageBuffer: string
+  /** 当前重连尝试次数（0 表示未在重连） */
+  reconnectAttempt: number
+}
+
+/**
+ * MCP 传输层
+ *
+ * 事件：
+ * - message: (message: JsonRpcMessage) 收到服务器消息
+ * - close: (error?: Error) 连接关闭，主动 close() 时不带 error
+ */
+export interface McpTransport extends EventEmitter {
+  /** 建立连接，失败时抛出 */
+  start(): Promise<void>
+  /** 发送 JSON-RPC 消息 */
+  send(message: JsonRpcMessage): Promise<void>
+  /** 关闭连接 */
+  close(): Promise<void>
+  /** 传输是否可写 */
+  readonly isOpen: boolean
+  /** 远程会话 ID（仅 Streamable HTTP） */
+  readonly sessionId?: string
+  /** 协商后的协议版本，用于后续请求头 */
+  setProtocolVersion?(version: string): void
 }
 
 /** 待处理请求 */
@@ -53,6 +76,9 @@ export interface JsonRpcNotification {
   params?: Record<string, unknown>
 }
 
+/** 任意 JSON-RPC 消息 */
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcResponse | JsonRpcNotification
+
 /** MCP 初始化结果 */
 export interface McpInitializeResult {
   protocolVersion: string
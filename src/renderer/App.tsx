@@ -284,11 +284,8 @@ function AppContent() {
       window.dispatchEvent(new CustomEvent('debug:toggleBreakpoint'))
     }
     else if (keybindingService.matches(e, 'workbench.action.showShortcuts')) {
-      const target = e.target as HTMLElement
-      if (target.tagName !== 'INPUT' && target.tagName !== 'TEXTAREA') {
-        e.preventDefault()
-        setShowKeyboardShortcuts(true)
-      }
+      e.preventDefault()
+      setShowKeyboardShortcuts(true)
     }
     else if (keybindingService.matches(e, 'workbench.action.toggleComposer')) {
       e.preventDefault()
@@ -9,6 +9,7 @@ export * from './types'
 export {
     useAgentStore,
     selectCurrentThread,
+    selectCurrentWorktree,
     selectMessages,
     selectStreamState,
     selectContextItems,
@@ -44,6 +45,8 @@ export { streamingEditService } from './services/streamingEditService'
 export { sessionService } from './services/sessionService'
 export { rulesService } from './services/rulesService'
 export { composerService } from './services/composerService'
+export { worktreeService } from './services/worktreeService'
+export { planDocumentService, usePlanDocumentStore } from './services/planDocumentService'
 
 // 新增服务
 export { contextCompactionService } from './services/ContextCompactionService'
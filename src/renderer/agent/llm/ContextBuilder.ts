@@ -9,6 +9,7 @@ import { useStore } from '@store'
 import { useAgentStore } from '../store/AgentStore'
 import { toolRegistry } from '../tools'
 import { getAgentConfig } from '../utils/AgentConfig'
+import { worktreeService } from '../services/worktreeService'
 import { ContextItem, MessageContent, TextContent } from '../types'
 import { fileContentCache, searchResultCache } from '@shared/utils/CacheService'
 
@@ -127,7 +128,7 @@ async function processCodebaseContext(
     const results = await searchResultCache.getOrSet(
       cacheKey,
       async () => {
-        const searchResults = await api.index.hybridSearch(workspacePath, cleanQuery, 20)
+        const searchResults = await api.index.hybridSearch(worktreeService.getOwnerWorkspace(workspacePath) || workspacePath, cleanQuery, 20)
         return searchResults || []
       },
       60 * 1000 // 1 分钟 TTL（搜索结果变化较快）
@@ -10,6 +10,7 @@ import { toolManager, initializeToolProviders, setToolLoadingContext } from '../
 import { useStore } from '@/renderer/store'
 import { parsePartialArgs, parseXMLToolCalls, removeXMLToolCallsFromContent, generateToolCallId } from '../utils/XMLToolParser'
 import { LLMStreamChunk, LLMToolCall } from '@/renderer/types/electron'
+import { TokenUsage } from '../types'
 
 /**
  * 流式处理器状态
@@ -345,10 +346,10 @@ export function handleLLMToolCall(
  * 注意：reasoning 已经作为 part 存储，不再单独返回
  */
 export function handleLLMDone(
-  result: { content?: string; toolCalls?: LLMToolCall[]; reasoning?: string; usage?: { promptTokens: number; completionTokens: number; totalTokens: number } },
+  result: { content?: string; toolCalls?: LLMToolCall[]; reasoning?: string; usage?: TokenUsage },
   state: StreamHandlerState,
   currentAssistantId: string | null
-): { content: string; toolCalls: LLMToolCall[]; usage?: { promptTokens: number; completionTokens: number; totalTokens: number } } {
+): { content: string; toolCalls: LLMToolCall[]; usage?: TokenUsage } {
   closeReasoningIfNeeded(state, currentAssistantId)
 
   // 合并结果中的工具调用
@@ -21,6 +21,14 @@ export interface OpenAIMessage {
   tool_call_id?: string
 }
 
+/**
+ * 序列化回传给模型的工具参数
+ * "_" 开头的字段是执行后附加的 UI 数据（_meta 执行结果、_subagent 子代理进度等），不属于模型的调用
+ */
+function serializeToolArguments(args: Record<string, unknown> | undefined): string {
+  return JSON.stringify(Object.fromEntries(Object.entries(args || {}).filter(([key]) => !key.startsWith('_'))))
+}
+
 /**
  * 从 ChatMessage[] 和 AssistantMessage 的 toolCalls 构建完整的 OpenAI 消息
  */
@@ -72,7 +80,7 @@ export function buildOpenAIMessages(
             type: 'function' as const,
             function: {
               name: tc.name,
-              arguments: JSON.stringify(tc.arguments || {}),
+              arguments: serializeToolArguments(tc.arguments),
             },
           })),
         })
@@ -67,7 +67,7 @@ const SECURITY_RULES = `## Security Rules
 
 export const PLANNING_TOOLS_DESC = `### Planning Tools
 - **create_plan** - Create execution plan for complex multi-step tasks
-  - Parameters: items (required array with title, description)
+  - Parameters: title, items (required array with title, description, dependsOn, acceptanceCriteria)
 
 - **update_plan** - Update plan status or items
   - Parameters: status, items, currentStepId
@@ -236,6 +236,7 @@ const CORE_TOOLS_ZH = `## 可用工具
 - **覆盖整个文件** → \`write_file\`
 - **精确行编辑** → \`replace_file_content\`（知道行号时首选）
 - **精确文本替换** → \`edit_file\`（使用 old_string/new_string）
+- **多文件或多处修改** → \`apply_patch\`（统一 diff 或 V4A 补丁，整体应用）
 
 7. **edit_file** - 精确文本替换
    - 参数：path（必需）、old_string（必需）、new_string（必需）
@@ -248,36 +249,62 @@ const CORE_TOOLS_ZH = `## 可用工具
    - 用于精确编辑，当你知道行号时使用
    - 始终先用 read_file 获取行号
 
-9. **write_file** - 写入或覆盖整个文件
+9. **apply_patch** - 一次应用多文件补丁
+   - 参数：patch（必需，统一 diff 或 *** Begin Patch 格式）
+   - 支持新建、删除和重命名文件；任一 hunk 失败则不修改任何文件
+
+10. **write_file** - 写入或覆盖整个文件
    - 参数：path（必需）、content（必需）
 
-10. **create_file_or_folder** - 创建新文件或文件夹
+11. **create_file_or_folder** - 创建新文件或文件夹
     - 参数：path（必需）、content（可选）
     - 文件夹需添加尾部斜杠（如 "src/utils/"）
 
-11. **delete_file_or_folder** - 删除文件或文件夹
+12. **delete_file_or_folder** - 删除文件或文件夹
     - 参数：path（必需）、recursive（可选）
     - 警告：危险操作需要批准
 
 ### 终端和执行
-12. **run_command** - 执行 shell 命令
+13. **run_command** - 执行 shell 命令
     - 参数：command（必需）、cwd、timeout
     - 警告：终端命令需要批准
     - 绝不使用 cat/grep/find，使用专用工具
 
-13. **get_lint_errors** - 获取 lint/编译错误
+14. **run_tests** - 运行测试并返回结构化结果（通过/失败/失败位置）
+    - 参数：path、test_name、framework、timeout
+    - 验证修改时优先于 run_command
+
+15. **run_task** - 按名称运行 .adnify/tasks.json 中的项目任务（先运行 dependsOn）
+    - 参数：name（必需）、wait_seconds（后台任务）
+    - 返回问题匹配器提取的错误位置；项目定义了构建 / lint 任务时优先使用
+
+16. **get_lint_errors** - 获取 lint/编译错误
     - 参数：path（必需）
 
 ### 代码智能
-14. **find_references** - 查找符号的所有引用
-15. **go_to_definition** - 获取定义位置
-16. **get_hover_info** - 获取类型信息和文档
-17. **get_document_symbols** - 获取文件中的所有符号
+17. **find_references** - 查找符号的所有引用
+18. **go_to_definition** - 获取定义位置
+19. **get_hover_info** - 获取类型信息和文档
+20. **get_document_symbols** - 获取文件中的所有符号
 
 ### 高级工具
-18. **codebase_search** - 跨代码库语义搜索（概念查询）
-19. **web_search** - 搜索网络
-20. **read_url** - 获取 URL 内容
+21. **codebase_search** - 跨代码库语义搜索（概念查询）
+22. **get_callers** - 基于符号图查找函数的调用位置（无需 LSP）
+23. **get_callees** - 基于符号图列出函数调用的其他函数及其定义
+24. **get_import_graph** - 查看文件的导入 / 被导入关系
+25. **web_search** - 搜索网络
+26. **read_url** - 获取 URL 内容
+
+### 调试
+27. **debug_launch** - 在调试器中启动程序，等待命中断点或退出
+    - 参数：program 或 configuration（.adnify/launch.json 中的名称）、args、cwd、stop_on_entry
+    - 启动前先用 debug_set_breakpoint 设置断点；会话会显示在调试面板中
+28. **debug_set_breakpoint** - 添加或移除断点（path、line、condition、remove）
+29. **debug_continue** - 继续 / 单步（action：continue、step_over、step_into、step_out、pause）
+30. **debug_stack** - 获取调用栈
+31. **debug_variables** - 查看栈帧中的变量（frame_index、scope、depth）
+32. **debug_evaluate** - 在栈帧中求值表达式（需要批准）
+33. **debug_stop** - 结束调试会话，检查完成后务必调用
 
 {{PLANNING_TOOLS}}
 
@@ -366,10 +393,10 @@ const BASE_SYSTEM_INFO_ZH = `## 环境
 [用户定义的自定义指令]`
 
 const PLANNING_TOOLS_DESC_ZH = `### 计划工具
-21. **create_plan** - 创建执行计划
-    - 参数：items（必需，包含 title、description 的数组）
+34. **create_plan** - 创建执行计划
+    - 参数：title、items（必需，包含 title、description、dependsOn、acceptanceCriteria 的数组）
 
-22. **update_plan** - 更新计划状态/项目
+35. **update_plan** - 更新计划状态/项目
     - 参数：status、items、currentStepId
 `
 
@@ -77,18 +77,28 @@ export async function buildSystemPrompt(
 		const plan = store.plan
 
 		if (plan && plan.items.length > 0) {
-			const planSection = `\n\n## Current Plan
+			const planLines = plan.items.map((item, i) => {
+				const mark = item.status === 'completed' ? 'x' : item.status === 'in_progress' ? '/' : item.status === 'failed' ? '!' : item.status === 'skipped' ? '-' : ' '
+				const deps = item.dependsOn?.length ? ` (after ${item.dependsOn.map(id => plan.items.findIndex(p => p.id === id) + 1).join(', ')})` : ''
+				const criteria = item.status === 'in_progress' && item.acceptanceCriteria?.length
+					? item.acceptanceCriteria.map(c => `\n   - Acceptance: ${c}`).join('')
+					: ''
+				return `${i + 1}. [${mark}] [id: ${item.id}] ${item.title}${deps}${criteria}`
+			}).join('\n')
+
+			const planSection = `\n\n## Current Plan${plan.title ? `: ${plan.title}` : ''}
 Status: ${plan.status}
 
-${plan.items.map((item, i) => `${i + 1}. [${item.status === 'completed' ? 'x' : item.status === 'in_progress' ? '/' : item.status === 'failed' ? '!' : ' '}] ${item.title}`).join('\n')}
+${planLines}
 
 ### 📋 Plan Management
 If a plan exists (see "Current Plan" above):
 1. Check the current status of plan items
-2. After completing a step, use \`update_plan\` to mark it as 'completed'
-3. If a step fails, mark it as 'failed'
-4. If you need to change the plan, use \`update_plan\` to modify items
-5. ALWAYS keep the plan status in sync with your actions`
+2. Do not start a step before the steps it depends on are completed
+3. Verify a step's acceptance criteria before using \`update_plan\` to mark it as 'completed'
+4. If a step fails, mark it as 'failed'
+5. If you need to change the plan, use \`update_plan\` to modify items
+6. ALWAYS keep the plan status in sync with your actions`
 
 			systemPrompt += planSection
 		}
@@ -5,7 +5,7 @@
 
 import { api } from '@/renderer/services/electronAPI'
 import { logger } from '@utils/Logger'
-import { performanceMonitor, CacheService, withRetry, isRetryableError } from '@shared/utils'
+import { performanceMonitor, CacheService, withRetry, isRetryableError, getPatchPaths } from '@shared/utils'
 import { AppError, formatErrorMessage } from '@/shared/errors'
 import { useAgentStore } from '../store/AgentStore'
 import { useStore } from '@store'
@@ -16,9 +16,13 @@ import {
   ContextItem,
   MessageContent,
   TextContent,
+  TokenUsage,
 } from '../types'
 import { LLMStreamChunk, LLMToolCall, LLMResult } from '@/renderer/types/electron'
 import { getReadOnlyTools } from '@/shared/config/tools'
+import { testService, useTestStore, formatTestRunSummary, type TestFramework } from '@/renderer/services/testService'
+import { isFallbackError } from '@/renderer/services/modelRouter'
+import { costService, formatBudgetStatus } from '@/renderer/services/costService'
 
 // 导入拆分的模块
 import {
@@ -71,11 +75,24 @@ export interface LLMCallConfig {
   advanced?: import('@/shared/config/providers').AdvancedConfig
 }
 
+/** 单次运行的附加选项（如斜杠命令限定的工具） */
+export interface AgentRunOptions {
+  /** 仅向模型提供这些工具 */
+  allowedTools?: string[]
+  /** 主模型限流或鉴权失败时依次切换的备用配置 */
+  fallbackConfigs?: LLMCallConfig[]
+}
+
 // ===== Agent 服务类 =====
 
 class AgentServiceClass {
   private abortController: AbortController | null = null
   private currentAssistantId: string | null = null
+  private currentConfig: LLMCallConfig | null = null
+  private currentOptions: AgentRunOptions = {}
+  private fallbackConfigs: LLMCallConfig[] = []
+  /** 本次运行中已提醒或已确认的预算（scope:level） */
+  private budgetNotified = new Set<string>()
   private isRunning = false
   private unsubscribers: (() => void)[] = []
   private streamState: StreamHandlerState = createStreamHandlerState()
@@ -141,6 +158,13 @@ class AgentServiceClass {
     return ((h1 >>> 0).toString(36) + (h2 >>> 0).toString(36))
   }
 
+  /**
+   * 获取当前运行中的 LLM 配置（供子代理复用）
+   */
+  getRunningConfig(): LLMCallConfig | null {
+    return this.isRunning ? this.currentConfig : null
+  }
+
   async calculateContextStats(contextItems: ContextItem[], currentInput: string): Promise<void> {
     return calculateContextStats(contextItems, currentInput)
   }
@@ -152,7 +176,8 @@ class AgentServiceClass {
     config: LLMCallConfig,
     workspacePath: string | null,
     systemPrompt: string,
-    chatMode: WorkMode = 'agent'
+    chatMode: WorkMode = 'agent',
+    options: AgentRunOptions = {}
   ): Promise<void> {
     if (this.isRunning) {
       logger.agent.warn('[Agent] Already running, ignoring new request')
@@ -168,6 +193,9 @@ class AgentServiceClass {
 
     this.isRunning = true
     this.abortController = new AbortController()
+    this.currentConfig = config
+    this.currentOptions = options
+    this.fallbackConfigs = [...(options.fallbackConfigs || [])]
 
     try {
       const contextItems = store.getCurrentThread()?.contextItems || []
@@ -287,10 +315,15 @@ class AgentServiceClass {
       // 使用 MessageBuilder 的 compressContext
       await compressContext(llmMessages, agentLoopConfig.contextCompressThreshold)
 
-      const result = await this.callLLMWithRetry(config, llmMessages, chatMode)
+      // 超出硬预算时暂停，等待用户确认
+      if (!(await this.checkBudget())) break
+
+      const result = await this.callLLMWithFallback(config, llmMessages, chatMode)
 
       if (this.abortController?.signal.aborted) break
 
+      this.recordCost(result.usage)
+
       if (result.error) {
         store.appendToAssistant(this.currentAssistantId!, `\n\n❌ Error: ${result.error}`)
         break
@@ -373,6 +406,8 @@ class AgentServiceClass {
         {
           workspacePath,
           currentAssistantId: this.currentAssistantId,
+          abortSignal: this.abortController?.signal,
+          allowedTools: this.currentOptions.allowedTools,
         },
         this.abortController?.signal
       )
@@ -433,11 +468,86 @@ class AgentServiceClass {
     }
   }
 
+  /**
+   * 记录本轮 LLM 调用的费用，并累计到当前助手消息
+   */
+  private recordCost(usage: TokenUsage | undefined): void {
+    if (!usage || !this.currentConfig) return
+    const store = useAgentStore.getState()
+
+    const cost = costService.record({
+      threadId: store.currentThreadId,
+      provider: this.currentConfig.provider,
+      model: this.currentConfig.model,
+      usage,
+    }, useStore.getState().costSettings)
+
+    if (this.currentAssistantId) {
+      const message = store.getMessages().find(m => m.id === this.currentAssistantId)
+      const previous = message?.role === 'assistant' ? message.cost || 0 : 0
+      store.updateMessage(this.currentAssistantId, { cost: previous + cost })
+    }
+  }
+
+  /**
+   * 检查预算：软预算每次运行提醒一次，硬预算暂停并等待用户确认
+   * @returns 是否继续运行
+   */
+  private async checkBudget(): Promise<boolean> {
+    const { costSettings, language } = useStore.getState()
+    const store = useAgentStore.getState()
+
+    for (const status of costService.checkBudgets(store.currentThreadId, costSettings.budgets)) {
+      const key = `${status.scope}:${status.level}`
+      if (this.budgetNotified.has(key)) continue
+      this.budgetNotified.add(key)
+
+      const text = formatBudgetStatus(status, language)
+      if (status.level === 'soft') {
+        store.appendToAssistant(this.currentAssistantId!, `\n\n💰 ${text}`)
+        continue
+      }
+
+      logger.agent.warn(`[Agent] Hard budget reached (${status.scope}), waiting for confirmation`)
+      const approved = await costService.requestBudgetApproval(status, this.abortController?.signal)
+      if (!approved) {
+        store.appendToAssistant(this.currentAssistantId!, `\n\n⏸️ ${text}`)
+        return false
+      }
+    }
+
+    return true
+  }
+
+  /**
+   * 调用 LLM，限流或鉴权失败时切换到备用模型
+   * 切换后本次运行的后续轮次（包括子 Agent）都使用该模型
+   */
+  private async callLLMWithFallback(
+    config: LLMCallConfig,
+    messages: OpenAIMessage[],
+    chatMode: WorkMode
+  ): Promise<{ content?: string; toolCalls?: LLMToolCall[]; usage?: TokenUsage; error?: string; errorCode?: string }> {
+    let current = this.currentConfig || config
+    let result = await this.callLLMWithRetry(current, messages, chatMode)
+
+    while (result.error && isFallbackError(result.errorCode) && this.fallbackConfigs.length > 0) {
+      if (this.abortController?.signal.aborted) break
+      const next = this.fallbackConfigs.shift()!
+      logger.agent.warn(`[Agent] ${current.provider}/${current.model} failed (${result.errorCode}), falling back to ${next.provider}/${next.model}`)
+      current = next
+      this.currentConfig = next
+      result = await this.callLLMWithRetry(next, messages, chatMode)
+    }
+
+    return result
+  }
+
   private async callLLMWithRetry(
     config: LLMCallConfig,
     messages: OpenAIMessage[],
     chatMode: WorkMode
-  ): Promise<{ content?: string; toolCalls?: LLMToolCall[]; error?: string }> {
+  ): Promise<{ content?: string; toolCalls?: LLMToolCall[]; usage?: TokenUsage; error?: string; errorCode?: string }> {
     const retryConfig = getAgentConfig()
 
     try {
@@ -447,6 +557,10 @@ class AgentServiceClass {
             throw new Error('Aborted')
           }
           const result = await this.callLLM(config, messages, chatMode)
+          // 限流 / 鉴权错误重试同一模型无效，直接交给备用模型
+          if (result.error && isFallbackError(result.errorCode)) {
+            return result
+          }
           if (result.error) {
             throw new Error(result.error)
           }
@@ -475,7 +589,7 @@ class AgentServiceClass {
     config: LLMCallConfig,
     messages: OpenAIMessage[],
     chatMode: WorkMode
-  ): Promise<{ content?: string; toolCalls?: LLMToolCall[]; reasoning?: string; reasoningStartTime?: number; usage?: { promptTokens: number; completionTokens: number; totalTokens: number }; error?: string }> {
+  ): Promise<{ content?: string; toolCalls?: LLMToolCall[]; reasoning?: string; reasoningStartTime?: number; usage?: TokenUsage; error?: string; errorCode?: string }> {
     // 开始性能监控
     performanceMonitor.start(`llm:${config.model}`, 'llm', {
       provider: config.provider,
@@ -542,13 +656,13 @@ class AgentServiceClass {
 
       // 监听错误
       this.unsubscribers.push(
-        api.llm.onError((error: { message: string }) => {
+        api.llm.onError((error: { message: string; code?: string }) => {
           // 结束性能监控（失败）
           performanceMonitor.end(`llm:${config.model}`, false, { error: error.message })
 
           closeReasoningIfNeeded(this.streamState, this.currentAssistantId)
           cleanupListeners()
-          resolve({ error: error.message })
+          resolve({ error: error.message, errorCode: error.code })
         })
       )
 
@@ -563,7 +677,10 @@ class AgentServiceClass {
         templateId,
       })
       
-      const allTools = chatMode === 'chat' ? [] : toolManager.getAllToolDefinitions()
+      const { allowedTools } = this.currentOptions
+      const allTools = chatMode === 'chat'
+        ? []
+        : toolManager.getAllToolDefinitions().filter(tool => !allowedTools || allowedTools.includes(tool.name))
       
       api.llm.send({
         config,
@@ -594,6 +711,10 @@ class AgentServiceClass {
     store.setStreamPhase('idle')
     this.currentAssistantId = null
     this.abortController = null
+    this.currentConfig = null
+    this.fallbackConfigs = []
+    this.budgetNotified.clear()
+    this.currentOptions = {}
     this.isRunning = false
     this.streamState = createStreamHandlerState()
     
@@ -616,11 +737,9 @@ class AgentServiceClass {
   ): Promise<{ hasErrors: boolean; errors: string[] }> {
     const errors: string[] = []
     const editedFiles = writeToolCalls
-      .filter(tc => ['edit_file', 'write_file', 'create_file_or_folder'].includes(tc.name))
-      .map(tc => {
-        const filePath = tc.arguments.path as string
-        return filePath.startsWith(workspacePath) ? filePath : `${workspacePath}/${filePath}`.replace(/\/+/g, '/')
-      })
+      .filter(tc => ['edit_file', 'write_file', 'create_file_or_folder', 'apply_patch'].includes(tc.name))
+      .flatMap(tc => tc.name === 'apply_patch' ? getPatchPaths(tc.arguments.patch as string) : [tc.arguments.path as string])
+      .map(filePath => filePath.startsWith(workspacePath) ? filePath : `${workspacePath}/${filePath}`.replace(/\/+/g, '/'))
       .filter(path => !path.endsWith('/'))
 
     for (const filePath of editedFiles) {
@@ -640,8 +759,46 @@ class AgentServiceClass {
         }
       } catch (e) { }
     }
+
+    // 运行相关测试（Agent 本轮已调用 run_tests 时，结果已在工具输出中，不重复运行）
+    const { agentConfig } = useStore.getState()
+    if (agentConfig.autoFixRunTests && editedFiles.length > 0 && !writeToolCalls.some(tc => tc.name === 'run_tests')) {
+      errors.push(...await this.runRelatedTests(workspacePath, editedFiles))
+    }
     return { hasErrors: errors.length > 0, errors }
   }
+
+  /**
+   * 运行与修改文件相关的测试，返回失败摘要
+   */
+  private async runRelatedTests(workspacePath: string, editedFiles: string[]): Promise<string[]> {
+    try {
+      if (useTestStore.getState().tests.length === 0) {
+        await testService.discover(workspacePath)
+      }
+      const testFiles = testService.getRelatedTestFiles(editedFiles)
+      if (testFiles.length === 0) return []
+
+      // 按框架分组运行
+      const byFramework = new Map<TestFramework, string[]>()
+      for (const file of testFiles) {
+        const framework = testService.getTestsForFile(file)[0]?.framework
+        if (framework) byFramework.set(framework, [...(byFramework.get(framework) || []), file])
+      }
+
+      const failures: string[] = []
+      for (const [framework, paths] of byFramework) {
+        const summary = await testService.run(workspacePath, { framework, paths })
+        if (summary.failed > 0) {
+          failures.push(`Tests failed:\n${formatTestRunSummary(summary, workspacePath, 5)}`)
+        }
+      }
+      return failures
+    } catch (error) {
+      logger.agent.warn('[Agent] Failed to run related tests:', error)
+      return []
+    }
+  }
 }
 
 export const AgentService = new AgentServiceClass()
@@ -164,38 +164,28 @@ class ContextCompactionServiceClass {
    */
   private async callLLMForSummary(prompt: string): Promise<string | null> {
     try {
-      // 从主 store 获取 LLM 配置
-      const { useStore } = await import('@store')
-      const state = useStore.getState()
-      const llmConfig = state.llmConfig
-      const providerConfigs = state.providerConfigs
-      
-      if (!llmConfig?.apiKey) {
-        // 尝试从 providerConfigs 获取 apiKey
-        const providerConfig = providerConfigs[llmConfig.provider]
-        if (!providerConfig?.apiKey) {
-          logger.agent.warn('[ContextCompaction] No API key configured')
-          return null
-        }
-      }
+      // 按路由规则选择摘要模型（可配置为更便宜的快速模型）
+      const { modelRouter } = await import('@services/modelRouter')
+      const configs = modelRouter.resolve('compaction')
 
-      // 构建完整的配置，确保包含 adapterConfig
-      const fullConfig = {
-        ...llmConfig,
-        apiKey: llmConfig.apiKey || providerConfigs[llmConfig.provider]?.apiKey || '',
-        maxTokens: 1000, // 摘要不需要太长
-        temperature: 0.3, // 低温度保证一致性
+      if (!configs[0].apiKey) {
+        logger.agent.warn('[ContextCompaction] No API key configured')
+        return null
       }
 
       // 使用独立的压缩 API（不与主对话冲突）
-      const result = await api.llm.compactContext({
-        config: fullConfig,
+      const result = await modelRouter.run('compaction', config => api.llm.compactContext({
+        config: {
+          ...config,
+          maxTokens: 1000, // 摘要不需要太长
+          temperature: 0.3, // 低温度保证一致性
+        },
         messages: [
           { role: 'user', content: prompt }
         ],
         tools: [], // 不需要工具
         systemPrompt: 'You are a helpful assistant that summarizes conversations concisely. Output only the summary, no extra text.',
-      })
+      }), configs, useAgentStore.getState().currentThreadId)
 
       if (result.error) {
         logger.agent.error('[ContextCompaction] LLM error:', result.error)
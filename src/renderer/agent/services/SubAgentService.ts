@@ -0,0 +1,329 @@
+/**
+ * 子代理服务
+ * 在独立的消息历史中运行只读的嵌套 Agent 循环，只把精简报告返回给父 Agent
+ *
+ * - 子代理与父 Agent 共用 LLM 通道：父循环在等待工具结果期间不会发起请求，
+ *   因此 spawn_subagent 被配置为串行工具，保证同一时间只有一个请求
+ * - 父 Agent 中止时，通过 abortSignal 级联中止子代理
+ * - 每轮调用都计入费用统计，超出硬预算时与父 Agent 一样暂停并等待确认
+ */
+
+import { api } from '@/renderer/services/electronAPI'
+import { logger } from '@utils/Logger'
+import { useStore } from '@store'
+import { costService, type BudgetScope } from '@/renderer/services/costService'
+import { modelRouter } from '@/renderer/services/modelRouter'
+import { TOOL_DEFINITIONS } from '@/shared/config/tools'
+import { getToolGroup } from '@/shared/config/toolGroups'
+import { evaluatePermissionPolicy, getToolPolicyTarget, formatPolicyDenial } from '@/shared/config/permissionPolicy'
+import type { LLMMessage, ToolDefinition, ToolExecutionContext, ToolExecutionResult } from '@/shared/types'
+import { LLMToolCall, LLMResult } from '@/renderer/types/electron'
+import { truncateToolResult } from '@/renderer/utils/partialJson'
+import { useAgentStore } from '../store/AgentStore'
+import { toolRegistry } from '../tools/registry'
+import { getAgentConfig } from '../utils/AgentConfig'
+import { LoopDetector } from '../utils/LoopDetector'
+import type { SubAgentProgress, SubAgentStep, TokenUsage } from '../types'
+import type { LLMCallConfig } from './AgentService'
+import { worktreeService } from './worktreeService'
+
+/** 子代理最大轮数（同时受 maxToolLoops 限制） */
+const MAX_TURNS = 15
+
+/** 返回给父 Agent 的报告上限 */
+const MAX_REPORT_CHARS = 8000
+
+const FINAL_REPORT_REQUEST = 'Stop exploring now. Write your final report based on what you have found so far.'
+
+function buildSystemPrompt(workspacePath: string): string {
+  return `You are a research sub-agent working inside the workspace: ${workspacePath}
+
+You were delegated a single task by another agent. You can only use read-only tools to read files, search and inspect code. You cannot edit files or run commands.
+
+Guidelines:
+- Explore efficiently: search first, then read only the relevant parts of files
+- Run independent tool calls in parallel
+- When you have enough information, stop calling tools and reply with your final report
+
+Final report:
+- Answer the task directly and concisely
+- Reference concrete file paths and line numbers
+- Include only what the requesting agent needs; do not paste whole files`
+}
+
+/** 工具调用的简短说明 */
+function summarizeToolCall(toolCall: LLMToolCall): string {
+  const args = toolCall.arguments as Record<string, unknown>
+  const value = args.path || args.query || args.pattern || args.paths
+  if (Array.isArray(value)) return value.join(', ')
+  return typeof value === 'string' ? value : ''
+}
+
+/** 用户在硬预算确认中选择停止 */
+class BudgetStopError extends Error {
+  constructor() {
+    super('budget limit reached')
+  }
+}
+
+class SubAgentServiceClass {
+  /**
+   * 运行子代理
+   */
+  async run(
+    task: { description: string; prompt: string },
+    config: LLMCallConfig,
+    ctx: ToolExecutionContext
+  ): Promise<ToolExecutionResult> {
+    if (!ctx.workspacePath) {
+      return { success: false, result: '', error: 'No workspace open' }
+    }
+
+    const agentConfig = getAgentConfig()
+    const maxTurns = Math.min(MAX_TURNS, agentConfig.maxToolLoops)
+    const toolNames = getToolGroup('subagent') || []
+    const tools = toolNames.map(name => TOOL_DEFINITIONS[name]).filter(Boolean)
+    const loopDetector = new LoopDetector()
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+    // 本次运行中用户已确认继续的硬预算
+    const approvedBudgets = new Set<BudgetScope>()
+
+    const progress: SubAgentProgress = { status: 'running', turn: 0, steps: [] }
+    const messages: LLMMessage[] = [
+      { role: 'system', content: buildSystemPrompt(ctx.workspacePath) },
+      { role: 'user', content: task.prompt },
+    ]
+
+    logger.agent.info(`[SubAgent] Starting: ${task.description}`)
+    this.reportProgress(ctx, progress)
+
+    let report = ''
+    try {
+      while (progress.turn < maxTurns) {
+        if (ctx.abortSignal?.aborted) throw new Error('Aborted')
+
+        if (!(await this.checkBudget(approvedBudgets, ctx.abortSignal))) throw new BudgetStopError()
+
+        progress.turn++
+        this.reportProgress(ctx, progress)
+
+        const result = await this.callLLM(config, messages, tools, ctx.abortSignal)
+        this.addUsage(usage, result.usage)
+        this.recordCost(config, result.usage, ctx)
+
+        if (!result.toolCalls?.length) {
+          report = result.content || ''
+          break
+        }
+
+        const loopResult = loopDetector.checkLoop(result.toolCalls)
+        if (loopResult.isLoop) {
+          logger.agent.warn(`[SubAgent] Loop detected: ${loopResult.reason}`)
+          break
+        }
+
+        messages.push({
+          role: 'assistant',
+          content: result.content || '',
+          tool_calls: result.toolCalls.map(tc => ({
+            id: tc.id,
+            type: 'function' as const,
+            function: { name: tc.name, arguments: JSON.stringify(tc.arguments) },
+          })),
+        })
+
+        // 子代理只有只读工具，全部并行执行
+        const toolResults = await Promise.all(
+          result.toolCalls.map(tc => this.executeTool(tc, toolNames, ctx, progress))
+        )
+        for (const { toolCall, content } of toolResults) {
+          messages.push({ role: 'tool', tool_call_id: toolCall.id, content })
+        }
+      }
+
+      // 轮数耗尽或检测到循环时，要求子代理基于已有信息给出报告
+      if (!report) {
+        if (ctx.abortSignal?.aborted) throw new Error('Aborted')
+        if (!(await this.checkBudget(approvedBudgets, ctx.abortSignal))) throw new BudgetStopError()
+        messages.push({ role: 'user', content: FINAL_REPORT_REQUEST })
+        // 历史中含有工具调用，部分协议要求仍然携带工具定义
+        const result = await this.callLLM(config, messages, tools, ctx.abortSignal)
+        this.addUsage(usage, result.usage)
+        this.recordCost(config, result.usage, ctx)
+        report = result.content || ''
+      }
+    } catch (error) {
+      const aborted = ctx.abortSignal?.aborted || error instanceof BudgetStopError
+      const message = error instanceof Error ? error.message : String(error)
+      progress.status = aborted ? 'aborted' : 'failed'
+      this.reportProgress(ctx, progress)
+      logger.agent.warn(`[SubAgent] ${aborted ? 'Aborted' : 'Failed'}: ${message}`)
+      return {
+        success: false,
+        result: '',
+        error: error instanceof BudgetStopError
+          ? `Sub-agent stopped: ${message}`
+          : aborted ? 'Sub-agent aborted' : `Sub-agent failed: ${message}`,
+        meta: { subagent: progress, usage },
+      }
+    }
+
+    progress.status = 'completed'
+    this.reportProgress(ctx, progress)
+    logger.agent.info(`[SubAgent] Completed in ${progress.turn} turns, ${progress.steps.length} tool calls`)
+
+    const trimmed = report.trim() || 'The sub-agent finished without producing a report.'
+    return {
+      success: true,
+      result: trimmed.length > MAX_REPORT_CHARS ? `${trimmed.slice(0, MAX_REPORT_CHARS)}\n...[Report truncated]` : trimmed,
+      meta: { subagent: progress, usage },
+    }
+  }
+
+  /**
+   * 执行子代理的工具调用（不写入父会话的消息历史）
+   */
+  private async executeTool(
+    toolCall: LLMToolCall,
+    allowedTools: string[],
+    ctx: ToolExecutionContext,
+    progress: SubAgentProgress
+  ): Promise<{ toolCall: LLMToolCall; content: string }> {
+    const step: SubAgentStep = {
+      id: toolCall.id,
+      name: toolCall.name,
+      summary: summarizeToolCall(toolCall),
+      status: 'running',
+    }
+    progress.steps.push(step)
+    this.reportProgress(ctx, progress)
+
+    let result: ToolExecutionResult
+    if (!allowedTools.includes(toolCall.name)) {
+      result = { success: false, result: '', error: `Tool "${toolCall.name}" is not available to sub-agents (read-only tools only)` }
+    } else {
+      // 子代理无法请求审批，策略要求询问的操作同样拒绝
+      const policy = ctx.workspacePath
+        ? await api.security.getPermissionPolicy(worktreeService.getOwnerWorkspace(ctx.workspacePath) || ctx.workspacePath)
+        : null
+      const decision = evaluatePermissionPolicy(policy, getToolPolicyTarget(toolCall.name, toolCall.arguments), ctx.workspacePath)
+      result = decision && decision.action !== 'allow'
+        ? { success: false, result: '', error: formatPolicyDenial(decision) }
+        : await toolRegistry.execute(toolCall.name, toolCall.arguments, { workspacePath: ctx.workspacePath })
+    }
+
+    step.status = result.success ? 'success' : 'error'
+    this.reportProgress(ctx, progress)
+
+    const content = result.success ? (result.result || '') : `Error: ${result.error || 'Unknown error'}`
+    return { toolCall, content: truncateToolResult(content, toolCall.name, getAgentConfig().maxToolResultChars) }
+  }
+
+  /**
+   * 调用 LLM（非流式展示，只取最终结果）
+   */
+  private callLLM(
+    config: LLMCallConfig,
+    messages: LLMMessage[],
+    tools: ToolDefinition[],
+    signal?: AbortSignal
+  ): Promise<LLMResult> {
+    return new Promise((resolve, reject) => {
+      const unsubscribers: (() => void)[] = []
+      const cleanup = () => {
+        unsubscribers.forEach(unsub => unsub())
+        signal?.removeEventListener('abort', onAbort)
+      }
+      const onAbort = () => {
+        cleanup()
+        api.llm.abort()
+        reject(new Error('Aborted'))
+      }
+
+      if (signal?.aborted) {
+        reject(new Error('Aborted'))
+        return
+      }
+      signal?.addEventListener('abort', onAbort)
+
+      unsubscribers.push(
+        api.llm.onDone((result: LLMResult) => {
+          cleanup()
+          resolve(result)
+        }),
+        api.llm.onError((error: { message: string }) => {
+          cleanup()
+          reject(new Error(error.message))
+        })
+      )
+
+      api.llm.send({
+        config,
+        messages,
+        tools,
+        systemPrompt: '',
+      }).catch((err) => {
+        cleanup()
+        reject(err instanceof Error ? err : new Error(String(err)))
+      })
+    })
+  }
+
+  /**
+   * 记录一轮调用的费用，并累计到父 Agent 的当前助手消息
+   */
+  private recordCost(config: LLMCallConfig, usage: TokenUsage | undefined, ctx: ToolExecutionContext): void {
+    const store = useAgentStore.getState()
+    const cost = modelRouter.recordUsage(config, usage, store.currentThreadId)
+    if (!cost || !ctx.currentAssistantId) return
+
+    const message = store.getMessages().find(m => m.id === ctx.currentAssistantId)
+    if (message?.role === 'assistant') {
+      store.updateMessage(ctx.currentAssistantId, { cost: (message.cost || 0) + cost })
+    }
+  }
+
+  /**
+   * 检查硬预算（软预算由父 Agent 提醒），超出时等待用户确认
+   * @returns 是否继续运行
+   */
+  private async checkBudget(approved: Set<BudgetScope>, signal?: AbortSignal): Promise<boolean> {
+    const { costSettings } = useStore.getState()
+    const statuses = costService.checkBudgets(useAgentStore.getState().currentThreadId, costSettings.budgets)
+
+    for (const status of statuses) {
+      if (status.level !== 'hard' || approved.has(status.scope)) continue
+      logger.agent.warn(`[SubAgent] Hard budget reached (${status.scope}), waiting for confirmation`)
+      if (!(await costService.requestBudgetApproval(status, signal))) return false
+      approved.add(status.scope)
+    }
+    return true
+  }
+
+  private addUsage(total: TokenUsage, usage?: TokenUsage): void {
+    if (!usage) return
+    total.promptTokens += usage.promptTokens
+    total.completionTokens += usage.completionTokens
+    total.totalTokens += usage.totalTokens
+  }
+
+  /**
+   * 更新父 Agent 中 spawn_subagent 工具卡片的进度
+   */
+  private reportProgress(ctx: ToolExecutionContext, progress: SubAgentProgress): void {
+    if (!ctx.currentAssistantId || !ctx.toolCallId) return
+
+    const store = useAgentStore.getState()
+    const message = store.getMessages().find(m => m.id === ctx.currentAssistantId)
+    if (!message || message.role !== 'assistant') return
+
+    const toolCall = message.toolCalls?.find(tc => tc.id === ctx.toolCallId)
+    if (!toolCall) return
+
+    store.updateToolCall(ctx.currentAssistantId, ctx.toolCallId, {
+      arguments: { ...toolCall.arguments, _subagent: { ...progress, steps: progress.steps.map(s => ({ ...s })) } },
+    })
+  }
+}
+
+export const subAgentService = new SubAgentServiceClass()
@@ -11,17 +11,29 @@ import { useAgentStore } from '../store/AgentStore'
 import { useStore } from '@store'
 import { toolManager, initializeToolProviders } from '../tools'
 import { ToolStatus } from '../types'
-import type { ToolExecutionResult } from '../tools'
+import type { ToolExecutionResult, ToolExecutionContext as SharedToolExecutionContext } from '../tools'
+import type { ToolFileChange } from '@/shared/types'
 import { LLMToolCall } from '@/renderer/types/electron'
 import { truncateToolResult } from '@/renderer/utils/partialJson'
-import { isWriteTool } from '@/shared/config/tools'
+import { toRelativePath } from '@/renderer/utils/pathUtils'
+import { isWriteTool, getToolMetadata, getToolApprovalType } from '@/shared/config/tools'
+import {
+  evaluatePermissionPolicy,
+  getToolPolicyTarget,
+  formatPolicyDenial,
+  type PolicyDecision,
+} from '@/shared/config/permissionPolicy'
 import { getAgentConfig } from '../utils/AgentConfig'
 import { compressToolResult } from '../utils/ContextCompressor'
 import { streamingEditService } from './streamingEditService'
+import { worktreeService } from './worktreeService'
 
 export interface ToolExecutionContext {
   workspacePath: string | null
   currentAssistantId: string | null
+  abortSignal?: AbortSignal
+  /** 限定可用的工具（自定义命令的 allowed-tools），未设置时不限制 */
+  allowedTools?: string[]
 }
 
 export class ToolExecutionService {
@@ -36,15 +48,39 @@ export class ToolExecutionService {
   ): Promise<{ success: boolean; content: string; rejected?: boolean; meta?: Record<string, unknown> }> {
     const store = useAgentStore.getState()
     const { id, name, arguments: args } = toolCall
-    const { workspacePath, currentAssistantId } = context
+    const { workspacePath, currentAssistantId, abortSignal, allowedTools } = context
+
+    // 工具定义已按 allowedTools 过滤，模型仍调用列表外的工具时直接拒绝
+    if (allowedTools && !allowedTools.includes(name)) {
+      const error = `Tool "${name}" is not allowed for this command`
+      if (currentAssistantId) {
+        store.updateToolCall(currentAssistantId, id, { status: 'error', error })
+      }
+      store.addToolResult(id, name, `Error: ${error}`, 'tool_error', args as Record<string, unknown>)
+      return { success: false, content: `Error: ${error}` }
+    }
+
+    // 权限策略优先于工具默认的审批类型
+    const policyDecision = await this.evaluatePolicy(name, args, workspacePath)
+    if (policyDecision?.action === 'deny') {
+      const content = `Error: ${formatPolicyDenial(policyDecision)}`
+      if (currentAssistantId) {
+        store.updateToolCall(currentAssistantId, id, { status: 'error', error: formatPolicyDenial(policyDecision) })
+      }
+      store.addToolResult(id, name, content, 'tool_error', args as Record<string, unknown>)
+      return { success: false, content }
+    }
 
     // 检查是否需要审批
     // 确保工具提供者已初始化
     initializeToolProviders()
-    const approvalType = toolManager.getApprovalType(name)
+    // 删除或移动文件的补丁与 delete_file_or_folder 一样需要 dangerous 审批
+    const approvalType = name === 'apply_patch' ? getToolApprovalType(name, args) : toolManager.getApprovalType(name)
     const { autoApprove } = useStore.getState()
     // 只有 terminal 和 dangerous 类型需要审批，none 类型不需要
-    const needsApproval = approvalType !== 'none' && !(autoApprove as any)[approvalType]
+    const needsApproval = policyDecision
+      ? policyDecision.action === 'ask'
+      : approvalType !== 'none' && !(autoApprove as any)[approvalType]
 
     // 更新工具状态
     if (currentAssistantId) {
@@ -100,7 +136,7 @@ export class ToolExecutionService {
     }
 
     // 执行工具（带重试）
-    const result = await this.executeWithRetry(name, args, workspacePath)
+    const result = await this.executeWithRetry(name, args, { workspacePath, currentAssistantId, toolCallId: id, abortSignal })
 
     // 结束性能监控
     performanceMonitor.end(timerName, result.success)
@@ -121,7 +157,7 @@ export class ToolExecutionService {
         result: result.result,
         error: result.error,
         richContent: result.richContent,
-        arguments: { ...args, _meta: result.meta },
+        ...this.splitFileChanges(args, result.meta),
       })
     }
 
@@ -139,6 +175,12 @@ export class ToolExecutionService {
     } else if (streamingEditId) {
       // 工具执行失败，取消流式编辑
       streamingEditService.cancelEdit(streamingEditId)
+    } else if (result.success && Array.isArray(result.meta?.files)) {
+      // 多文件补丁（apply_patch）：每个文件单独记录，共用同一个 toolCallId
+      for (const file of result.meta.files as ToolFileChange[]) {
+        store.addSnapshotToCurrentCheckpoint(file.filePath, file.oldContent)
+        await this.recordFileChange(store, file.filePath, id, name, file.oldContent, { success: true, result: '', meta: { ...file } }, workspacePath)
+      }
     }
 
     // 格式化结果 - 先用智能压缩，再用通用截断
@@ -154,24 +196,62 @@ export class ToolExecutionService {
     return { success: result.success, content: truncatedContent, rejected: false, meta: result.meta }
   }
 
+  /**
+   * 评估工作区权限策略（.adnify/settings.json）
+   */
+  private async evaluatePolicy(
+    name: string,
+    args: Record<string, unknown>,
+    workspacePath: string | null
+  ): Promise<PolicyDecision | null> {
+    if (!workspacePath) return null
+    try {
+      // worktree 中隔离运行时沿用所属工作区的策略
+      const policy = await api.security.getPermissionPolicy(worktreeService.getOwnerWorkspace(workspacePath) || workspacePath)
+      return evaluatePermissionPolicy(policy, getToolPolicyTarget(name, args), workspacePath)
+    } catch (error) {
+      logger.agent.warn('[ToolExecutionService] Failed to load permission policy:', error)
+      return null
+    }
+  }
+
+  /**
+   * 多文件工具的完整内容单独保存在 fileChanges，arguments._meta.files 只保留路径和行数
+   */
+  private splitFileChanges(
+    args: Record<string, unknown>,
+    meta: Record<string, unknown> | undefined
+  ): { arguments: Record<string, unknown>; fileChanges?: ToolFileChange[] } {
+    if (!Array.isArray(meta?.files)) return { arguments: { ...args, _meta: meta } }
+
+    const fileChanges = meta.files as ToolFileChange[]
+    const files = fileChanges.map(({ filePath, changeType, linesAdded, linesRemoved }) => ({ filePath, changeType, linesAdded, linesRemoved }))
+    return { arguments: { ...args, _meta: { ...meta, files } }, fileChanges }
+  }
+
   /**
    * 带重试的工具执行
    */
   private async executeWithRetry(
     name: string,
     args: Record<string, unknown>,
-    workspacePath: string | null
+    context: SharedToolExecutionContext
   ): Promise<ToolExecutionResult> {
     const config = getAgentConfig()
+    // 工具可单独配置超时，0 表示由工具自身控制（如子代理）
+    const timeoutMs = getToolMetadata(name)?.timeoutMs ?? config.toolTimeoutMs
 
     try {
       return await withRetry(
         async () => {
-          const result = await withTimeout(
-            toolManager.execute(name, args, { workspacePath }),
-            config.toolTimeoutMs,
-            new Error(`Tool execution timed out after ${config.toolTimeoutMs / 1000}s`)
-          )
+          const execution = toolManager.execute(name, args, context)
+          const result = timeoutMs > 0
+            ? await withTimeout(
+              execution,
+              timeoutMs,
+              new Error(`Tool execution timed out after ${timeoutMs / 1000}s`)
+            )
+            : await execution
           if (!result.success && result.error && isRetryableError(result.error)) {
             throw new Error(result.error)
           }
@@ -205,7 +285,7 @@ export class ToolExecutionService {
     result: ToolExecutionResult,
     workspacePath: string | null
   ): Promise<void> {
-    const meta = result.meta as { linesAdded?: number; linesRemoved?: number; newContent?: string; isNewFile?: boolean } | undefined
+    const meta = result.meta as { linesAdded?: number; linesRemoved?: number; newContent?: string; isNewFile?: boolean; changeType?: ToolFileChange['changeType'] } | undefined
     
     store.addPendingChange({
       filePath: fullPath,
@@ -216,6 +296,10 @@ export class ToolExecutionService {
       linesRemoved: meta?.linesRemoved || 0,
     })
 
+    // 计划执行中：记录当前步骤修改的文件及所在检查点
+    const checkpoints = store.messageCheckpoints
+    store.recordPlanStepChange(toRelativePath(fullPath, workspacePath), checkpoints[checkpoints.length - 1]?.id)
+
     try {
       const { composerService } = await import('./composerService')
       const relativePath = workspacePath ? fullPath.replace(workspacePath, '').replace(/^[\\/]/, '') : fullPath
@@ -224,7 +308,7 @@ export class ToolExecutionService {
         relativePath,
         oldContent: originalContent,
         newContent: meta?.newContent || null,
-        changeType: toolName === 'delete_file_or_folder' ? 'delete' : (meta?.isNewFile ? 'create' : 'modify'),
+        changeType: meta?.changeType ?? (toolName === 'delete_file_or_folder' ? 'delete' : (meta?.isNewFile ? 'create' : 'modify')),
         linesAdded: meta?.linesAdded || 0,
         linesRemoved: meta?.linesRemoved || 0,
         toolCallId,
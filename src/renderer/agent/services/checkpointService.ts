@@ -138,18 +138,19 @@ class CheckpointService {
 
   /**
    * 创建新检查点
+   * @param maxSnapshots 快照文件数上限（批量替换等需要整体回滚的操作可传入文件总数）
    */
   async createCheckpoint(
     type: 'user_message' | 'tool_edit',
     description: string,
     filePaths: string[],
-    messageId?: string
+    messageId?: string,
+    maxSnapshots = 20
   ): Promise<Checkpoint> {
     // 确保已初始化
     await this.init()
     
     const snapshots: Record<string, FileSnapshot> = {}
-    const maxSnapshots = 20
 
     // 只保存前 N 个文件的快照
     const pathsToSnapshot = filePaths.slice(0, maxSnapshots)
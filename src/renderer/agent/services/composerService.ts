@@ -46,6 +46,65 @@ export interface ComposerState {
   isProcessing: boolean
 }
 
+// ============ Diff ============
+
+/**
+ * Generate a unified diff for a list of changes
+ * Standalone so callers can render a review without touching the active session
+ */
+export function generateUnifiedDiff(changes: FileChange[]): string {
+  let diff = ''
+  
+  for (const change of changes) {
+    diff += `\n${'='.repeat(60)}\n`
+    diff += `File: ${change.relativePath}\n`
+    diff += `Type: ${change.changeType}\n`
+    diff += `Status: ${change.status}\n`
+    diff += `Lines: +${change.linesAdded} -${change.linesRemoved}\n`
+    diff += `${'='.repeat(60)}\n\n`
+    
+    if (change.changeType === 'create') {
+      diff += `+++ ${change.relativePath} (new file)\n`
+      if (change.newContent) {
+        diff += change.newContent.split('\n').map(l => `+ ${l}`).join('\n')
+      }
+    } else if (change.changeType === 'delete') {
+      diff += `--- ${change.relativePath} (deleted)\n`
+      if (change.oldContent) {
+        diff += change.oldContent.split('\n').map(l => `- ${l}`).join('\n')
+      }
+    } else {
+      // Modified - show simple diff
+      diff += `--- ${change.relativePath}\n`
+      diff += `+++ ${change.relativePath}\n`
+      // For a real diff, we'd use a diff algorithm here
+      // This is simplified
+      if (change.oldContent && change.newContent) {
+        const oldLines = change.oldContent.split('\n')
+        const newLines = change.newContent.split('\n')
+        
+        // Simple line-by-line comparison
+        const maxLines = Math.max(oldLines.length, newLines.length)
+        for (let i = 0; i < maxLines; i++) {
+          const oldLine = oldLines[i]
+          const newLine = newLines[i]
+          
+          if (oldLine === newLine) {
+            diff += `  ${oldLine || ''}\n`
+          } else {
+            if (oldLine !== undefined) diff += `- ${oldLine}\n`
+            if (newLine !== undefined) diff += `+ ${newLine}\n`
+          }
+        }
+      }
+    }
+    
+    diff += '\n'
+  }
+  
+  return diff
+}
+
 // ============ Composer Service ============
 
 class ComposerServiceClass {
@@ -172,13 +231,15 @@ class ComposerServiceClass {
     const change = this.state.currentSession.changes.find(c => c.filePath === filePath)
     if (!change || change.status !== 'pending') return false
     
-    // Restore original content if it was modified
-    if (change.changeType === 'modify' && change.oldContent !== null) {
-      try {
+    // Restore the file to its state before the change
+    try {
+      if (change.changeType === 'create') {
+        await api.file.delete(filePath)
+      } else if (change.oldContent !== null) {
         await api.file.write(filePath, change.oldContent)
-      } catch (error) {
-        logger.agent.error('[Composer] Failed to restore file:', error)
       }
+    } catch (error) {
+      logger.agent.error('[Composer] Failed to restore file:', error)
     }
     
     change.status = 'rejected'
@@ -281,6 +342,13 @@ class ComposerServiceClass {
     return groups
   }
 
+  /**
+   * Whether the current session still has changes awaiting review
+   */
+  hasPendingChanges(): boolean {
+    return !!this.state.currentSession?.changes.some(c => c.status === 'pending')
+  }
+
   /**
    * Get summary of changes
    */
@@ -308,57 +376,7 @@ class ComposerServiceClass {
    */
   generateUnifiedDiff(): string {
     if (!this.state.currentSession) return ''
-    
-    let diff = ''
-    
-    for (const change of this.state.currentSession.changes) {
-      diff += `\n${'='.repeat(60)}\n`
-      diff += `File: ${change.relativePath}\n`
-      diff += `Type: ${change.changeType}\n`
-      diff += `Status: ${change.status}\n`
-      diff += `Lines: +${change.linesAdded} -${change.linesRemoved}\n`
-      diff += `${'='.repeat(60)}\n\n`
-      
-      if (change.changeType === 'create') {
-        diff += `+++ ${change.relativePath} (new file)\n`
-        if (change.newContent) {
-          diff += change.newContent.split('\n').map(l => `+ ${l}`).join('\n')
-        }
-      } else if (change.changeType === 'delete') {
-        diff += `--- ${change.relativePath} (deleted)\n`
-        if (change.oldContent) {
-          diff += change.oldContent.split('\n').map(l => `- ${l}`).join('\n')
-        }
-      } else {
-        // Modified - show simple diff
-        diff += `--- ${change.relativePath}\n`
-        diff += `+++ ${change.relativePath}\n`
-        // For a real diff, we'd use a diff algorithm here
-        // This is simplified
-        if (change.oldContent && change.newContent) {
-          const oldLines = change.oldContent.split('\n')
-          const newLines = change.newContent.split('\n')
-          
-          // Simple line-by-line comparison
-          const maxLines = Math.max(oldLines.length, newLines.length)
-          for (let i = 0; i < maxLines; i++) {
-            const oldLine = oldLines[i]
-            const newLine = newLines[i]
-            
-            if (oldLine === newLine) {
-              diff += `  ${oldLine || ''}\n`
-            } else {
-              if (oldLine !== undefined) diff += `- ${oldLine}\n`
-              if (newLine !== undefined) diff += `+ ${newLine}\n`
-            }
-          }
-        }
-      }
-      
-      diff += '\n'
-    }
-    
-    return diff
+    return generateUnifiedDiff(this.state.currentSession.changes)
   }
 
   // ============ Private Methods ============
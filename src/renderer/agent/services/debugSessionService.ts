@@ -0,0 +1,358 @@
+/**
+ * Agent 调试会话服务
+ * 供 debug_* 工具使用：启动会话、等待暂停、读取堆栈 / 变量 / 求值
+ *
+ * 会话通过与 DebugPanel 相同的 api.debug 接口创建，并同步到全局 store，
+ * 因此 Agent 启动的会话会出现在调试面板中，用户可以随时接管
+ */
+
+import { api } from '@/renderer/services/electronAPI'
+import { logger } from '@utils/Logger'
+import { useStore } from '@/renderer/store'
+import { toRelativePath, normalizePath } from '@utils/pathUtils'
+import type { DebugConfig, DebugEvent, DebugStackFrame, DebugVariable } from '@renderer/types/electron'
+
+export type DebugStepAction = 'continue' | 'step_over' | 'step_into' | 'step_out' | 'pause'
+
+/** 一次执行（启动 / 继续 / 单步）后的结果 */
+export interface DebugStopResult {
+  state: 'paused' | 'stopped' | 'running'
+  reason?: string
+  exitCode?: number
+  /** 暂停时的栈顶帧 */
+  frame?: DebugStackFrame
+  /** 本次执行期间的程序输出（已截断） */
+  output: string
+}
+
+interface TrackedSession {
+  /** 每次暂停 / 结束时递增，用于等待“下一次”停止 */
+  stopSeq: number
+  state: DebugStopResult['state']
+  reason?: string
+  exitCode?: number
+  threadId: number
+  output: string[]
+  waiters: Set<() => void>
+}
+
+const DEFAULT_WAIT_MS = 30_000
+const MAX_OUTPUT_LINES = 200
+const MAX_OUTPUT_CHARS = 4000
+
+class DebugSessionService {
+  private sessions = new Map<string, TrackedSession>()
+  private unsubscribe: (() => void) | null = null
+  /** 最近一个由 Agent 启动的会话 */
+  private lastSessionId: string | null = null
+
+  /**
+   * 创建并启动调试会话，等待第一次暂停（断点 / 入口）或程序结束
+   */
+  async launch(config: DebugConfig, waitMs = DEFAULT_WAIT_MS): Promise<{ sessionId: string; result: DebugStopResult }> {
+    this.ensureListening()
+
+    const created = await api.debug.createSession(config)
+    if (!created.success || !created.sessionId) {
+      throw new Error(created.error || 'Failed to create debug session')
+    }
+    const sessionId = created.sessionId
+    const tracked = this.track(sessionId)
+    this.lastSessionId = sessionId
+
+    // 与 DebugPanel 相同的顺序：先同步断点，再启动
+    await this.syncAllBreakpoints(sessionId)
+
+    const { setActiveSessionId, setDebugVisible, addConsoleOutput } = useStore.getState()
+    setActiveSessionId(sessionId)
+    setDebugVisible(true)
+    addConsoleOutput(`✓ Session created by Agent: ${config.name}`)
+
+    const seq = tracked.stopSeq
+    const launched = await api.debug.launch(sessionId)
+    if (!launched.success) {
+      await api.debug.stop(sessionId)
+      this.sessions.delete(sessionId)
+      throw new Error(launched.error || 'Failed to launch debug session')
+    }
+    addConsoleOutput('▶ Launching...')
+    await this.refreshSessions()
+
+    return { sessionId, result: await this.waitForStop(sessionId, seq, waitMs) }
+  }
+
+  /**
+   * 继续 / 单步 / 暂停，并等待下一次停止
+   */
+  async step(sessionId: string, action: DebugStepAction, waitMs = DEFAULT_WAIT_MS): Promise<DebugStopResult> {
+    const tracked = this.track(sessionId)
+    const seq = tracked.stopSeq
+    tracked.output = []
+
+    const run = {
+      continue: api.debug.continue,
+      step_over: api.debug.stepOver,
+      step_into: api.debug.stepInto,
+      step_out: api.debug.stepOut,
+      pause: api.debug.pause,
+    }[action]
+    const response = await run(sessionId)
+    if (!response.success) throw new Error(response.error || `Failed to ${action.replace('_', ' ')}`)
+
+    return this.waitForStop(sessionId, seq, waitMs)
+  }
+
+  async stop(sessionId: string): Promise<void> {
+    await api.debug.stop(sessionId)
+    this.sessions.delete(sessionId)
+    if (this.lastSessionId === sessionId) this.lastSessionId = null
+    const { activeSessionId, setActiveSessionId } = useStore.getState()
+    if (activeSessionId === sessionId) setActiveSessionId(null)
+    await this.refreshSessions()
+  }
+
+  /**
+   * 解析工具参数中的会话：显式 ID > Agent 最近启动的会话 > 调试面板的活动会话
+   */
+  resolveSessionId(sessionId?: string): string {
+    const id = sessionId || this.lastSessionId || useStore.getState().activeSessionId
+    if (!id) throw new Error('No active debug session. Start one with debug_launch first.')
+    return id
+  }
+
+  /**
+   * 添加或移除断点（写入全局断点列表，编辑器与调试面板同步显示）
+   */
+  async setBreakpoint(filePath: string, line: number, options: { condition?: string; remove?: boolean } = {}): Promise<void> {
+    const { removeBreakpoint, addBreakpoint } = useStore.getState()
+    removeBreakpoint(filePath, line)
+    if (!options.remove) addBreakpoint(filePath, line, options.condition)
+
+    // 已有会话时立即下发（setBreakpoints 按文件整体替换）
+    const sessionIds = new Set([this.lastSessionId, useStore.getState().activeSessionId].filter((id): id is string => !!id))
+    for (const sessionId of sessionIds) {
+      if (this.sessions.get(sessionId)?.state === 'stopped') continue
+      await api.debug.setBreakpoints(sessionId, filePath, this.getFileBreakpoints(filePath))
+    }
+  }
+
+  async getStackTrace(sessionId: string): Promise<DebugStackFrame[]> {
+    const tracked = this.track(sessionId)
+    const response = await api.debug.getStackTrace(sessionId, tracked.threadId)
+    if (!response.success) throw new Error(response.error || 'Failed to get stack trace')
+    return response.frames || []
+  }
+
+  /**
+   * 读取指定帧的作用域变量，按 depth 展开对象
+   */
+  async getVariables(
+    sessionId: string,
+    frameIndex = 0,
+    options: { scope?: string; depth?: number; maxPerScope?: number } = {}
+  ): Promise<{ scope: string; variables: DebugVariable[] }[]> {
+    const frame = await this.getFrame(sessionId, frameIndex)
+    const scopesResponse = await api.debug.getScopes(sessionId, frame.id)
+    if (!scopesResponse.success) throw new Error(scopesResponse.error || 'Failed to get scopes')
+
+    const scopeFilter = options.scope?.toLowerCase()
+    const scopes = (scopesResponse.scopes || []).filter(s =>
+      scopeFilter ? s.name.toLowerCase().includes(scopeFilter) : !s.expensive
+    )
+
+    const result: { scope: string; variables: DebugVariable[] }[] = []
+    for (const scope of scopes) {
+      const variables = await this.loadVariables(sessionId, scope.variablesReference, options.depth ?? 1, options.maxPerScope ?? 50)
+      result.push({ scope: scope.name, variables })
+    }
+    return result
+  }
+
+  async evaluate(sessionId: string, expression: string, frameIndex = 0): Promise<{ result: string; type?: string }> {
+    const frame = await this.getFrame(sessionId, frameIndex).catch(() => undefined)
+    const response = await api.debug.evaluate(sessionId, expression, frame?.id)
+    if (!response.success || !response.result) throw new Error(response.error || 'Evaluation failed')
+    return response.result
+  }
+
+  /**
+   * 格式化停止结果（位置 + 源码片段 + 输出）
+   */
+  async formatStopResult(result: DebugStopResult, workspacePath: string | null): Promise<string> {
+    const lines: string[] = []
+    if (result.state === 'paused') {
+      lines.push(`Paused (${result.reason || 'unknown'})${result.frame ? ` at ${formatFrame(result.frame, workspacePath)}` : ''}`)
+      const snippet = result.frame?.source?.path ? await readSnippet(result.frame.source.path, result.frame.line) : ''
+      if (snippet) lines.push('', snippet)
+    } else if (result.state === 'stopped') {
+      lines.push(`Program terminated${result.exitCode !== undefined ? ` with exit code ${result.exitCode}` : ''}`)
+    } else {
+      lines.push('Program is still running (no breakpoint hit yet). Use debug_continue with action="pause" or set a breakpoint.')
+    }
+    if (result.output.trim()) lines.push('', 'Output:', result.output.trimEnd())
+    return lines.join('\n')
+  }
+
+  // ========== 私有方法 ==========
+
+  private ensureListening(): void {
+    if (this.unsubscribe) return
+    this.unsubscribe = api.debug.onEvent(({ sessionId, event }: { sessionId: string; event: DebugEvent }) => {
+      const tracked = this.sessions.get(sessionId)
+      if (tracked) this.handleEvent(tracked, event)
+    })
+  }
+
+  private track(sessionId: string): TrackedSession {
+    this.ensureListening()
+    let tracked = this.sessions.get(sessionId)
+    if (!tracked) {
+      // 用户在调试面板中启动的会话也可以交给 Agent
+      const existing = useStore.getState().sessions.find(s => s.id === sessionId)
+      tracked = {
+        stopSeq: 0,
+        state: existing?.state === 'paused' ? 'paused' : existing?.state === 'stopped' ? 'stopped' : 'running',
+        threadId: 1,
+        output: [],
+        waiters: new Set(),
+      }
+      this.sessions.set(sessionId, tracked)
+    }
+    return tracked
+  }
+
+  private handleEvent(tracked: TrackedSession, event: DebugEvent): void {
+    switch (event.type) {
+      case 'stopped':
+        tracked.state = 'paused'
+        tracked.reason = event.reason
+        if (event.threadId) tracked.threadId = event.threadId
+        break
+      case 'continued':
+        tracked.state = 'running'
+        return
+      case 'exited':
+        tracked.exitCode = event.exitCode
+        tracked.state = 'stopped'
+        break
+      case 'terminated':
+        tracked.state = 'stopped'
+        break
+      case 'output':
+        tracked.output = [...tracked.output.slice(-MAX_OUTPUT_LINES), event.output]
+        return
+      case 'error':
+        tracked.output = [...tracked.output.slice(-MAX_OUTPUT_LINES), `[error] ${event.message}\n`]
+        return
+      default:
+        return
+    }
+    tracked.stopSeq++
+    tracked.waiters.forEach(resolve => resolve())
+  }
+
+  private async waitForStop(sessionId: string, seq: number, waitMs: number): Promise<DebugStopResult> {
+    const tracked = this.track(sessionId)
+    if (tracked.stopSeq === seq) {
+      await new Promise<void>(resolve => {
+        const done = () => {
+          clearTimeout(timer)
+          tracked.waiters.delete(done)
+          resolve()
+        }
+        const timer = setTimeout(done, waitMs)
+        tracked.waiters.add(done)
+      })
+    }
+
+    const output = tracked.output.join('').slice(-MAX_OUTPUT_CHARS)
+    if (tracked.stopSeq === seq) return { state: 'running', output }
+    if (tracked.state !== 'paused') {
+      await this.refreshSessions()
+      return { state: 'stopped', exitCode: tracked.exitCode, output }
+    }
+
+    const frames = await this.getStackTrace(sessionId).catch(error => {
+      logger.agent.warn('[DebugSession] Failed to load stack trace:', error)
+      return [] as DebugStackFrame[]
+    })
+    return { state: 'paused', reason: tracked.reason, frame: frames[0], output }
+  }
+
+  private async getFrame(sessionId: string, frameIndex: number): Promise<DebugStackFrame> {
+    const frames = await this.getStackTrace(sessionId)
+    const frame = frames[frameIndex]
+    if (!frame) throw new Error(frames.length ? `Frame index out of range (0-${frames.length - 1})` : 'Program is not paused')
+    return frame
+  }
+
+  private async loadVariables(sessionId: string, reference: number, depth: number, limit: number): Promise<DebugVariable[]> {
+    const response = await api.debug.getVariables(sessionId, reference)
+    if (!response.success) return []
+    const variables = (response.variables || []).slice(0, limit)
+    if (depth <= 0) return variables
+    return Promise.all(variables.map(async v => v.variablesReference > 0
+      ? { ...v, children: await this.loadVariables(sessionId, v.variablesReference, depth - 1, 20) }
+      : v
+    ))
+  }
+
+  private getFileBreakpoints(filePath: string) {
+    return useStore.getState().breakpoints
+      .filter(bp => bp.enabled && normalizePath(bp.filePath) === normalizePath(filePath))
+      .map(bp => ({ line: bp.line, condition: bp.condition }))
+  }
+
+  private async syncAllBreakpoints(sessionId: string): Promise<void> {
+    const files = new Set(useStore.getState().breakpoints.filter(bp => bp.enabled).map(bp => bp.filePath))
+    for (const filePath of files) {
+      await api.debug.setBreakpoints(sessionId, filePath, this.getFileBreakpoints(filePath))
+    }
+  }
+
+  private async refreshSessions(): Promise<void> {
+    useStore.getState().setSessions(await api.debug.getAllSessions())
+  }
+}
+
+// ========== 格式化 ==========
+
+export function formatFrame(frame: DebugStackFrame, workspacePath: string | null): string {
+  const file = frame.source?.path || frame.file
+  const location = file ? `${toRelativePath(file, workspacePath)}:${frame.line}` : '<unknown>'
+  return `${frame.name} (${location})`
+}
+
+/**
+ * 变量树格式化为缩进文本
+ */
+export function formatVariables(variables: DebugVariable[], indent = '  '): string[] {
+  return variables.flatMap(v => [
+    `${indent}${v.name}${v.type ? `: ${v.type}` : ''} = ${v.value}`,
+    ...(v.children?.length ? formatVariables(v.children, `${indent}  `) : []),
+  ])
+}
+
+async function readSnippet(filePath: string, line: number, context = 2): Promise<string> {
+  const content = await api.file.read(filePath)
+  if (!content) return ''
+  const lines = content.split(/\r?\n/)
+  const start = Math.max(0, line - 1 - context)
+  const end = Math.min(lines.length, line + context)
+  return lines.slice(start, end)
+    .map((text, i) => `${start + i + 1 === line ? '>' : ' '} ${String(start + i + 1).padStart(4)} | ${text}`)
+    .join('\n')
+}
+
+/**
+ * 将 launch.json 中的变量替换为实际路径
+ */
+export function resolveLaunchVariables(value: string, workspacePath: string, activeFile?: string | null): string {
+  return value
+    .replace(/\$\{workspaceFolder\}/g, workspacePath)
+    .replace(/\$\{file\}/g, activeFile || '')
+    .replace(/\$\{fileBasename\}/g, activeFile?.split(/[\\/]/).pop() || '')
+    .replace(/\$\{fileDirname\}/g, activeFile?.split(/[\\/]/).slice(0, -1).join('/') || '')
+}
+
+export const debugSessionService = new DebugSessionService()
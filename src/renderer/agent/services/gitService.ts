@@ -1,4 +1,8 @@
 import { api } from '@/renderer/services/electronAPI'
+import { joinPath } from '@utils/pathUtils'
+import { ADNIFY_DIR_NAME } from '@services/adnifyDirService'
+import { buildHunkPatch, type GitHunk } from '@utils/gitHunks'
+import { parseRefDecorations, type GitRef } from '@utils/gitGraph'
 
 /**
  * Git 服务 (使用安全的 Git API)
@@ -33,6 +37,7 @@ export interface GitCommit {
     email?: string
     date: Date
     parents?: string[]
+    refs?: GitRef[]
 }
 
 export interface GitStashEntry {
@@ -42,6 +47,13 @@ export interface GitStashEntry {
     date?: Date
 }
 
+export interface GitWorktree {
+    path: string
+    head: string
+    branch?: string
+    detached: boolean
+}
+
 export interface GitBranch {
     name: string
     current: boolean
@@ -52,6 +64,48 @@ export interface GitBranch {
     lastCommit?: string
 }
 
+export interface GitBlameLine {
+    line: number
+    hash: string
+    author: string
+    date: Date
+    content: string
+    summary?: string
+    /** 尚未提交的行 */
+    uncommitted?: boolean
+}
+
+/** 提交历史查询条件 */
+export interface GitLogOptions {
+    /** 起始引用或范围（如 main、v1.0..release），默认 HEAD；'--all' 表示所有分支 */
+    ref?: string
+    count?: number
+    skip?: number
+    author?: string
+    message?: string
+    path?: string
+}
+
+/** 文件在某次提交中的版本 */
+export interface GitFileRevision extends GitCommit {
+    /** 该提交中的文件路径（跟随重命名） */
+    path: string
+    status: GitFileChange['status']
+}
+
+/** 两个提交 / 分支的比较结果 */
+export interface GitRefComparison {
+    base: string
+    target: string
+    /** target 中不在 base 里的提交数 */
+    ahead: number
+    /** base 中不在 target 里的提交数 */
+    behind: number
+    /** base..target 的提交 */
+    commits: GitCommit[]
+    files: GitFileChange[]
+}
+
 interface GitExecResult {
     stdout: string
     stderr: string
@@ -313,6 +367,55 @@ class GitService {
         return result.exitCode === 0
     }
 
+    // ==================== 变更块操作 ====================
+
+    /**
+     * 获取暂存区中的文件内容（路径相对于 rootPath），不在暂存区时返回 null
+     */
+    async getIndexFileContent(relativePath: string, rootPath?: string): Promise<string | null> {
+        const result = await this.exec(['show', `:./${relativePath.replace(/\\/g, '/')}`], rootPath)
+        return result.exitCode === 0 ? result.stdout : null
+    }
+
+    /**
+     * 将补丁应用到暂存区（git apply --cached），补丁通过 .adnify 下的临时文件传入
+     */
+    async applyPatchToIndex(patch: string, reverse: boolean = false, rootPath?: string): Promise<{ success: boolean; error?: string }> {
+        const targetRoot = rootPath || this.primaryWorkspacePath
+        if (!targetRoot) return { success: false, error: 'No workspace' }
+
+        const dir = joinPath(targetRoot, ADNIFY_DIR_NAME)
+        const patchPath = joinPath(dir, 'hunk.patch')
+        try {
+            await api.file.ensureDir(dir)
+            if (!await api.file.write(patchPath, patch)) {
+                return { success: false, error: 'Failed to write patch file' }
+            }
+            const args = ['apply', '--cached', '--whitespace=nowarn', ...(reverse ? ['--reverse'] : []), patchPath]
+            const result = await this.exec(args, targetRoot)
+            return {
+                success: result.exitCode === 0,
+                error: result.exitCode !== 0 ? result.stderr || result.stdout : undefined,
+            }
+        } finally {
+            await api.file.delete(patchPath)
+        }
+    }
+
+    /**
+     * 暂存单个变更块（变更块基于暂存区内容计算）
+     */
+    async stageHunk(relativePath: string, indexContent: string, workingContent: string, hunk: GitHunk, rootPath?: string) {
+        return this.applyPatchToIndex(buildHunkPatch(relativePath, indexContent, workingContent, hunk), false, rootPath)
+    }
+
+    /**
+     * 取消暂存单个变更块（变更块基于 HEAD → 暂存区计算）
+     */
+    async unstageHunk(relativePath: string, headContent: string, indexContent: string, hunk: GitHunk, rootPath?: string) {
+        return this.applyPatchToIndex(buildHunkPatch(relativePath, headContent, indexContent, hunk), true, rootPath)
+    }
+
     async commit(message: string, rootPath?: string): Promise<{ success: boolean; error?: string }> {
         try {
             const result = await this.exec(['commit', '-m', message], rootPath)
@@ -345,6 +448,27 @@ class GitService {
         return result.exitCode === 0
     }
 
+    // ==================== 冲突文件 ====================
+
+    /**
+     * 读取冲突文件在暂存区中的版本：1 为共同祖先（base），2 为当前分支（ours），3 为合并进来的版本（theirs）
+     */
+    async getConflictStageContent(relativePath: string, stage: 1 | 2 | 3, rootPath?: string): Promise<string | null> {
+        const result = await this.exec(['show', `:${stage}:./${relativePath.replace(/\\/g, '/')}`], rootPath)
+        return result.exitCode === 0 ? result.stdout : null
+    }
+
+    /**
+     * 正在合并进来的提交引用（merge / cherry-pick / revert / rebase 进行中），不存在时返回 null
+     */
+    async getIncomingHead(rootPath?: string): Promise<string | null> {
+        for (const ref of ['MERGE_HEAD', 'CHERRY_PICK_HEAD', 'REVERT_HEAD', 'REBASE_HEAD']) {
+            const result = await this.exec(['rev-parse', '--verify', '--quiet', ref], rootPath)
+            if (result.exitCode === 0 && result.stdout.trim()) return ref
+        }
+        return null
+    }
+
     // ==================== 远程操作 ====================
 
     async pull(rootPath?: string): Promise<{ success: boolean; error?: string }> {
@@ -520,6 +644,89 @@ class GitService {
         }
     }
 
+    // ==================== Worktree 操作 ====================
+
+    async addWorktree(worktreePath: string, branch: string, startPoint: string = 'HEAD', rootPath?: string): Promise<{ success: boolean; error?: string }> {
+        try {
+            const result = await this.exec(['worktree', 'add', '-b', branch, worktreePath, startPoint], rootPath)
+            return {
+                success: result.exitCode === 0,
+                error: result.exitCode !== 0 ? result.stderr : undefined,
+            }
+        } catch (e: any) {
+            return { success: false, error: e.message }
+        }
+    }
+
+    async removeWorktree(worktreePath: string, force?: boolean, rootPath?: string): Promise<{ success: boolean; error?: string }> {
+        try {
+            const args = force ? ['worktree', 'remove', '--force', worktreePath] : ['worktree', 'remove', worktreePath]
+            const result = await this.exec(args, rootPath)
+            return {
+                success: result.exitCode === 0,
+                error: result.exitCode !== 0 ? result.stderr : undefined,
+            }
+        } catch (e: any) {
+            return { success: false, error: e.message }
+        }
+    }
+
+    async getHeadCommit(rootPath?: string): Promise<string | null> {
+        try {
+            const result = await this.exec(['rev-parse', 'HEAD'], rootPath)
+            return result.exitCode === 0 ? result.stdout.trim() : null
+        } catch {
+            return null
+        }
+    }
+
+    /**
+     * 获取暂存区相对指定 commit 的变更（含行数统计）
+     */
+    async getStagedChangesSince(commitHash: string, rootPath?: string): Promise<GitFileChange[]> {
+        try {
+            const [statusResult, numstatResult] = await Promise.all([
+                this.exec(['diff', '--cached', '--name-status', '--no-renames', commitHash], rootPath),
+                this.exec(['diff', '--cached', '--numstat', '--no-renames', commitHash], rootPath),
+            ])
+            if (statusResult.exitCode !== 0) return []
+
+            const stats = new Map<string, { additions: number; deletions: number }>()
+            for (const line of numstatResult.stdout.split('\n').filter(Boolean)) {
+                const [additions, deletions, path] = line.split('\t')
+                // 二进制文件的统计为 "-"
+                stats.set(path, { additions: parseInt(additions) || 0, deletions: parseInt(deletions) || 0 })
+            }
+
+            return statusResult.stdout.split('\n').filter(Boolean).map(line => {
+                const [status, path] = line.split('\t')
+                return { path, status: this.parseStatus(status[0]), ...stats.get(path) }
+            })
+        } catch {
+            return []
+        }
+    }
+
+    async getWorktrees(rootPath?: string): Promise<GitWorktree[]> {
+        try {
+            const result = await this.exec(['worktree', 'list', '--porcelain'], rootPath)
+            if (result.exitCode !== 0) return []
+
+            return result.stdout.split(/\n\s*\n/).filter(block => block.trim()).map(block => {
+                const worktree: GitWorktree = { path: '', head: '', detached: false }
+                for (const line of block.split('\n')) {
+                    if (line.startsWith('worktree ')) worktree.path = line.slice(9).trim()
+                    else if (line.startsWith('HEAD ')) worktree.head = line.slice(5).trim()
+                    else if (line.startsWith('branch ')) worktree.branch = line.slice(7).trim().replace(/^refs\/heads\//, '')
+                    else if (line.trim() === 'detached') worktree.detached = true
+                }
+                return worktree
+            })
+        } catch {
+            return []
+        }
+    }
+
     // ==================== Merge 操作 ====================
 
     async mergeBranch(name: string, rootPath?: string): Promise<{ success: boolean; error?: string; conflicts?: string[] }> {
@@ -884,6 +1091,131 @@ class GitService {
         }
     }
 
+    /**
+     * 查询提交历史（拓扑顺序，含父提交与引用），支持按作者、提交信息、路径过滤
+     */
+    async getCommitLog(options: GitLogOptions = {}, rootPath?: string): Promise<GitCommit[]> {
+        const { ref = 'HEAD', count = 200, skip = 0, author, message, path } = options
+        // 引用来自用户输入，拒绝以 "-" 开头的值以免被当作选项
+        if (ref !== '--all' && ref.startsWith('-')) return []
+
+        try {
+            const args = [
+                'log', ref,
+                `--max-count=${count}`,
+                `--skip=${skip}`,
+                '--topo-order',
+                '--decorate=short',
+                '--pretty=format:%H|%h|%an|%ae|%aI|%P|%D|%s',
+            ]
+            if (author) args.push(`--author=${author}`)
+            if (message) args.push(`--grep=${message}`, '--regexp-ignore-case')
+            if (path) args.push('--', path)
+
+            const [result, remotes] = await Promise.all([
+                this.exec(args, rootPath),
+                this.exec(['remote'], rootPath),
+            ])
+            if (result.exitCode !== 0 || !result.stdout) return []
+
+            const remoteNames = remotes.stdout.split('\n').map(r => r.trim()).filter(Boolean)
+            return result.stdout.trim().split('\n').filter(Boolean).map(line => {
+                // 提交信息可能包含分隔符，放在最后
+                const [hash, shortHash, author, email, dateStr, parents, refs, ...subject] = line.split('|')
+                return {
+                    hash,
+                    shortHash,
+                    message: subject.join('|'),
+                    author,
+                    email,
+                    date: new Date(dateStr),
+                    parents: parents ? parents.split(' ').filter(Boolean) : [],
+                    refs: parseRefDecorations(refs, remoteNames),
+                }
+            })
+        } catch {
+            return []
+        }
+    }
+
+    /**
+     * 比较两个提交 / 分支：ahead/behind 数、base..target 的提交与文件变更
+     */
+    async compareRefs(base: string, target: string, rootPath?: string): Promise<GitRefComparison | null> {
+        if (base.startsWith('-') || target.startsWith('-')) return null
+
+        try {
+            const [countResult, statusResult, numstatResult, commits] = await Promise.all([
+                this.exec(['rev-list', '--left-right', '--count', `${base}...${target}`], rootPath),
+                this.exec(['diff', '--name-status', '--no-renames', base, target], rootPath),
+                this.exec(['diff', '--numstat', '--no-renames', base, target], rootPath),
+                this.getCommitLog({ ref: `${base}..${target}` }, rootPath),
+            ])
+            if (countResult.exitCode !== 0 || statusResult.exitCode !== 0) return null
+
+            const [behind, ahead] = countResult.stdout.trim().split(/\s+/).map(n => Number(n) || 0)
+
+            const stats = new Map<string, { additions: number; deletions: number }>()
+            for (const line of numstatResult.stdout.split('\n').filter(Boolean)) {
+                const [additions, deletions, path] = line.split('\t')
+                stats.set(path, { additions: parseInt(additions) || 0, deletions: parseInt(deletions) || 0 })
+            }
+            const files = statusResult.stdout.split('\n').filter(Boolean).map(line => {
+                const [status, path] = line.split('\t')
+                return { path, status: this.parseStatus(status[0]), ...stats.get(path) }
+            })
+
+            return { base, target, ahead, behind, commits, files }
+        } catch {
+            return null
+        }
+    }
+
+    /**
+     * 获取文件的历史版本（跟随重命名），每个版本带有该提交中的文件路径
+     */
+    async getFileRevisions(filePath: string, count: number = 100, rootPath?: string): Promise<GitFileRevision[]> {
+        try {
+            const result = await this.exec([
+                'log',
+                `--max-count=${count}`,
+                '--follow',
+                '--name-status',
+                // 提交行以 ">" 开头，与 name-status 行区分
+                '--pretty=format:>%H|%h|%an|%ae|%aI|%P|%s',
+                '--',
+                filePath
+            ], rootPath)
+
+            if (result.exitCode !== 0 || !result.stdout) return []
+
+            const revisions: GitFileRevision[] = []
+            let current: GitCommit | null = null
+            for (const line of result.stdout.split('\n').filter(Boolean)) {
+                if (line.startsWith('>')) {
+                    const [hash, shortHash, author, email, dateStr, parents, ...subject] = line.slice(1).split('|')
+                    current = {
+                        hash,
+                        shortHash,
+                        message: subject.join('|'),
+                        author,
+                        email,
+                        date: new Date(dateStr),
+                        parents: parents ? parents.split(' ').filter(Boolean) : [],
+                    }
+                } else if (current) {
+                    // 重命名行为 "R100\told\tnew"，取新路径
+                    const [status, ...paths] = line.split('\t')
+                    revisions.push({ ...current, path: paths[paths.length - 1], status: this.parseStatus(status[0]) })
+                    current = null
+                }
+            }
+            return revisions
+        } catch {
+            return []
+        }
+    }
+
     // ==================== Reset 操作 ====================
 
     async resetSoft(commitHash: string, rootPath?: string): Promise<{ success: boolean; error?: string }> {
@@ -1046,12 +1378,12 @@ class GitService {
     /**
      * 获取 blame 信息
      */
-    async getBlame(filePath: string, rootPath?: string): Promise<{ line: number; hash: string; author: string; date: Date; content: string }[]> {
+    async getBlame(filePath: string, rootPath?: string): Promise<GitBlameLine[]> {
         try {
             const result = await this.exec(['blame', '--line-porcelain', filePath], rootPath)
             if (result.exitCode !== 0) return []
 
-            const lines: { line: number; hash: string; author: string; date: Date; content: string }[] = []
+            const lines: GitBlameLine[] = []
             const chunks = result.stdout.split(/^([a-f0-9]{40})/m).filter(Boolean)
 
             let lineNum = 0
@@ -1062,6 +1394,7 @@ class GitService {
                 const authorMatch = info.match(/^author (.+)$/m)
                 const timeMatch = info.match(/^author-time (\d+)$/m)
                 const contentMatch = info.match(/^\t(.*)$/m)
+                const summaryMatch = info.match(/^summary (.*)$/m)
 
                 if (authorMatch && timeMatch) {
                     lineNum++
@@ -1071,6 +1404,8 @@ class GitService {
                         author: authorMatch[1],
                         date: new Date(parseInt(timeMatch[1]) * 1000),
                         content: contentMatch?.[1] || '',
+                        summary: summaryMatch?.[1] || '',
+                        uncommitted: /^0+$/.test(hash),
                     })
                 }
             }
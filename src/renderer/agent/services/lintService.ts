@@ -7,6 +7,7 @@ import { api } from '@/renderer/services/electronAPI'
 import { logger } from '@utils/Logger'
 import { LintError } from '../types'
 import { onDiagnostics, lspUriToPath } from '@services/lspService'
+import { taskService } from '@services/taskService'
 
 // 支持的语言和对应的 lint 命令
 const LINT_COMMANDS: Record<string, { command: string; parser: (output: string, file: string) => LintError[] }> = {
@@ -185,7 +186,21 @@ class LintService {
 			return lspErrors
 		}
 
-		// 2. 检查缓存
+		// 2. tasks.json 问题匹配器报告的问题（cargo / gradle / make 等自定义构建）
+		// 问题来自上次任务运行，文件修改后不会失效，强制刷新时跳过
+		const taskErrors = forceRefresh ? [] : taskService.getProblemsForFile(filePath)
+		if (taskErrors.length > 0) {
+			return taskErrors.map(p => ({
+				code: p.code || p.source,
+				message: p.message,
+				severity: p.severity === 1 ? 'error' : p.severity === 2 ? 'warning' : 'info',
+				startLine: p.line,
+				endLine: p.endLine || p.line,
+				file: p.file,
+			}))
+		}
+
+		// 3. 检查缓存
 		if (!forceRefresh) {
 			const cached = this.cache.get(filePath)
 			if (cached && Date.now() - cached.timestamp < this.cacheTimeout) {
@@ -0,0 +1,188 @@
+/**
+ * 计划文档服务
+ *
+ * 计划保存在 .adnify/plans/ 下：<name>.json 为完整数据（依赖、验收标准、步骤涉及的文件与检查点），
+ * <name>.md 为同步生成的可读视图。AgentStore 中的计划变化会自动写回文档，
+ * 切换到执行过该计划的会话时重新载入，并支持在新会话中恢复执行下一步。
+ */
+
+import { create } from 'zustand'
+import { api } from '@/renderer/services/electronAPI'
+import { logger } from '@utils/Logger'
+import { joinPath, toFullPath } from '@utils/pathUtils'
+import { ADNIFY_DIR_NAME, ADNIFY_FILES } from '@services/adnifyDirService'
+import { useModeStore } from '@/renderer/modes'
+import { useAgentStore } from '../store/AgentStore'
+import { getNextPlanStep, getPlanFileBase, renderPlanMarkdown, buildResumePrompt } from '../utils/planDocument'
+import type { Plan } from '../types'
+
+interface PlanDocumentState {
+  /** 工作区内的计划，按更新时间倒序 */
+  plans: Plan[]
+  /** 只有 Markdown、没有 JSON 数据的旧版计划文件 */
+  legacyFiles: string[]
+}
+
+export const usePlanDocumentStore = create<PlanDocumentState>(() => ({
+  plans: [],
+  legacyFiles: [],
+}))
+
+export interface PlanResumeResult {
+  success: boolean
+  prompt?: string
+  error?: string
+}
+
+const sortPlans = (plans: Plan[]) => [...plans].sort((a, b) => b.updatedAt - a.updatedAt)
+
+class PlanDocumentService {
+  private workspacePath: string | null = null
+  private writeChain: Promise<void> = Promise.resolve()
+  private lastSaved: Plan | null = null
+  private unsubscribe: (() => void) | null = null
+
+  /**
+   * 加载工作区的计划文档，并开始同步 AgentStore 中的计划
+   */
+  async load(workspacePath: string | null): Promise<void> {
+    this.workspacePath = workspacePath
+    this.lastSaved = null
+    this.subscribe()
+
+    const plans: Plan[] = []
+    const legacyFiles: string[] = []
+    const dir = this.getPlansDir()
+    if (dir) {
+      try {
+        const files = (await api.file.readDir(dir)).filter(f => !f.isDirectory)
+        const jsonNames = new Set(files.filter(f => f.name.endsWith('.json')).map(f => f.name.slice(0, -5)))
+        for (const file of files) {
+          if (file.name.endsWith('.md') && !jsonNames.has(file.name.slice(0, -3))) {
+            legacyFiles.push(file.path)
+            continue
+          }
+          if (!file.name.endsWith('.json')) continue
+          const content = await api.file.read(file.path)
+          if (!content) continue
+          try {
+            plans.push(JSON.parse(content) as Plan)
+          } catch (e) {
+            logger.agent.warn('[PlanDocument] Invalid plan file:', file.path, e)
+          }
+        }
+      } catch {
+        // 目录不存在
+      }
+    }
+
+    usePlanDocumentStore.setState({ plans: sortPlans(plans), legacyFiles })
+  }
+
+  getPlan(planId: string): Plan | undefined {
+    return usePlanDocumentStore.getState().plans.find(plan => plan.id === planId)
+  }
+
+  /** 计划 Markdown 视图的绝对路径 */
+  getMarkdownPath(plan: Plan): string | null {
+    const dir = this.getPlansDir()
+    return dir ? joinPath(dir, `${getPlanFileBase(plan)}.md`) : null
+  }
+
+  /** 根据 Markdown 路径查找计划（用于编辑器中的计划预览） */
+  findByMarkdownPath(path: string): Plan | undefined {
+    const normalized = path.replace(/\\/g, '/')
+    return usePlanDocumentStore.getState().plans.find(plan => this.getMarkdownPath(plan)?.replace(/\\/g, '/') === normalized)
+  }
+
+  /**
+   * 写入 JSON 与 Markdown，返回 Markdown 路径；同一对象不会重复写入
+   */
+  save(plan: Plan): string | null {
+    const workspacePath = this.workspacePath
+    const dir = this.getPlansDir()
+    const markdownPath = this.getMarkdownPath(plan)
+    if (!workspacePath || !dir || !markdownPath) return null
+    if (plan === this.lastSaved) return markdownPath
+
+    // 标题变化时文件名随之变化，清理旧文件
+    const previous = this.getPlan(plan.id)
+    const previousBase = previous ? getPlanFileBase(previous) : null
+    const base = getPlanFileBase(plan)
+
+    this.lastSaved = plan
+    usePlanDocumentStore.setState(state => ({ plans: sortPlans([plan, ...state.plans.filter(p => p.id !== plan.id)]) }))
+
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await api.file.ensureDir(dir)
+        await api.file.write(joinPath(dir, `${base}.json`), JSON.stringify(plan, null, 2))
+        await api.file.write(markdownPath, renderPlanMarkdown(plan))
+        if (previousBase && previousBase !== base) {
+          await api.file.delete(joinPath(dir, `${previousBase}.json`))
+          await api.file.delete(joinPath(dir, `${previousBase}.md`))
+        }
+      })
+      .catch(e => logger.agent.error('[PlanDocument] Failed to save plan:', e))
+
+    return markdownPath
+  }
+
+  /**
+   * 在新会话中恢复计划：载入计划、切换到 Plan 模式、附加依赖步骤修改过的文件，
+   * 返回描述下一步的消息，由调用方发送
+   */
+  resume(planId: string, language: 'zh' | 'en' = 'en'): PlanResumeResult {
+    const plan = this.getPlan(planId)
+    if (!plan) return { success: false, error: language === 'zh' ? '计划不存在' : 'Plan not found' }
+
+    const step = getNextPlanStep(plan)
+    if (!step) {
+      const blocked = plan.items.some(item => item.status === 'pending' || item.status === 'in_progress')
+      return {
+        success: false,
+        error: blocked
+          ? (language === 'zh' ? '剩余步骤的依赖尚未完成' : 'The remaining steps are blocked by unfinished dependencies')
+          : (language === 'zh' ? '计划中没有待执行的步骤' : 'No pending steps left in this plan'),
+      }
+    }
+
+    const store = useAgentStore.getState()
+    store.createThread()
+    store.loadPlan({ ...plan, status: 'active', currentStepId: step.id, updatedAt: Date.now() })
+    useModeStore.getState().setMode('plan')
+
+    const dependencyFiles = plan.items
+      .filter(item => step.dependsOn?.includes(item.id))
+      .flatMap(item => item.files || [])
+    for (const file of [...new Set(dependencyFiles)].slice(0, 10)) {
+      store.addContextItem({ type: 'File', uri: toFullPath(file, this.workspacePath) })
+    }
+
+    const planFile = `${ADNIFY_DIR_NAME}/${ADNIFY_FILES.PLANS_DIR}/${getPlanFileBase(plan)}.md`
+    return { success: true, prompt: buildResumePrompt(plan, step, planFile, language) }
+  }
+
+  private getPlansDir(): string | null {
+    return this.workspacePath ? joinPath(this.workspacePath, ADNIFY_DIR_NAME, ADNIFY_FILES.PLANS_DIR) : null
+  }
+
+  /** 计划变化时写回文档；切换会话时载入该会话关联的计划，未关联计划时卸载当前计划 */
+  private subscribe(): void {
+    if (this.unsubscribe) return
+    this.unsubscribe = useAgentStore.subscribe((state, prev) => {
+      if (state.plan && state.plan !== prev.plan) {
+        this.save(state.plan)
+      }
+
+      const threadId = state.currentThreadId
+      if (threadId !== prev.currentThreadId && !(threadId && state.plan?.threadIds?.includes(threadId))) {
+        const linked = threadId ? usePlanDocumentStore.getState().plans.find(plan => plan.threadIds?.includes(threadId)) : undefined
+        if (linked) state.loadPlan(linked)
+        else if (state.plan) state.clearPlan()
+      }
+    })
+  }
+}
+
+export const planDocumentService = new PlanDocumentService()
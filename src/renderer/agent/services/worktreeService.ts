@@ -0,0 +1,183 @@
+/**
+ * Worktree 隔离运行服务
+ *
+ * 为对话创建独立的 git worktree（新分支），Agent 的文件修改和命令都在其中执行，
+ * 不影响主工作区未提交的改动。任务完成后生成审查 diff，确认后合并回原分支。
+ *
+ * worktree 位于 <workspace>/.adnify/worktrees/<id>，保证仍在工作区安全边界之内
+ */
+
+import { api } from '@/renderer/services/electronAPI'
+import { logger } from '@utils/Logger'
+import { joinPath } from '@utils/pathUtils'
+import { ADNIFY_DIR_NAME, ADNIFY_FILES } from '@services/adnifyDirService'
+import { gitService } from './gitService'
+import { generateUnifiedDiff, FileChange } from './composerService'
+import { WorktreeInfo } from '../types'
+
+// 匹配 <owner>/.adnify/worktrees/<id>[/...]
+const WORKTREE_PATH_RE = new RegExp(`^(.*?)[/\\\\]${ADNIFY_DIR_NAME.replace('.', '\\.')}[/\\\\]${ADNIFY_FILES.WORKTREES_DIR}[/\\\\][^/\\\\]+(?:[/\\\\]|$)`)
+
+const BRANCH_PREFIX = 'adnify/'
+
+export interface WorktreeReview {
+  changes: FileChange[]
+  diff: string
+}
+
+export interface WorktreeMergeResult {
+  success: boolean
+  error?: string
+  conflicts?: string[]
+}
+
+class WorktreeService {
+  /**
+   * 从当前分支创建 worktree
+   */
+  async create(workspacePath: string, title: string): Promise<{ success: boolean; worktree?: WorktreeInfo; error?: string }> {
+    if (!(await gitService.isGitRepo(workspacePath))) {
+      return { success: false, error: 'Not a git repository' }
+    }
+
+    const baseBranch = await gitService.getCurrentBranch(workspacePath)
+    const baseCommit = await gitService.getHeadCommit(workspacePath)
+    if (!baseBranch || !baseCommit) {
+      return { success: false, error: 'Cannot start an isolated run from a detached HEAD or an empty repository' }
+    }
+
+    const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+    const branch = `${BRANCH_PREFIX}${this.slugify(title)}-${id}`
+    const worktreesDir = joinPath(workspacePath, ADNIFY_DIR_NAME, ADNIFY_FILES.WORKTREES_DIR)
+    const path = joinPath(worktreesDir, id)
+
+    // 避免 worktree 出现在主仓库的未跟踪文件中
+    await api.file.ensureDir(worktreesDir)
+    await api.file.write(joinPath(worktreesDir, '.gitignore'), '*\n')
+
+    const result = await gitService.addWorktree(path, branch, baseCommit, workspacePath)
+    if (!result.success) {
+      return { success: false, error: result.error }
+    }
+
+    logger.agent.info(`[Worktree] Created ${branch} at ${path}`)
+    return {
+      success: true,
+      worktree: { id, path, branch, baseBranch, baseCommit, ownerPath: workspacePath, title, createdAt: Date.now() },
+    }
+  }
+
+  /**
+   * worktree 路径（或其中的文件）所属的主工作区，非 worktree 路径返回 null
+   */
+  getOwnerWorkspace(path: string): string | null {
+    const match = path.match(WORKTREE_PATH_RE)
+    return match ? match[1] : null
+  }
+
+  /**
+   * 将 worktree 中的路径映射为主工作区中的对应路径
+   */
+  mapToOwner(filePath: string, worktreePath: string): string {
+    const owner = this.getOwnerWorkspace(worktreePath)
+    if (!owner || !filePath.startsWith(worktreePath)) return filePath
+    return owner + filePath.slice(worktreePath.length)
+  }
+
+  /**
+   * 将主工作区中的路径映射为 worktree 中的对应路径
+   */
+  mapFromOwner(filePath: string, worktreePath: string): string {
+    const owner = this.getOwnerWorkspace(worktreePath)
+    if (!owner || !filePath.startsWith(owner) || this.getOwnerWorkspace(filePath)) return filePath
+    return worktreePath + filePath.slice(owner.length)
+  }
+
+  /**
+   * 收集 worktree 相对基准 commit 的全部变更（包括 Agent 已提交和未提交的）
+   */
+  async getChanges(worktree: WorktreeInfo): Promise<FileChange[]> {
+    await gitService.stageAll(worktree.path)
+    const files = await gitService.getStagedChangesSince(worktree.baseCommit, worktree.path)
+
+    return Promise.all(files.map(async file => {
+      const changeType: FileChange['changeType'] = file.status === 'added' ? 'create' : file.status === 'deleted' ? 'delete' : 'modify'
+      const filePath = joinPath(worktree.path, file.path)
+      const [oldContent, newContent] = await Promise.all([
+        changeType === 'create' ? null : gitService.getFileContentAtCommit(file.path, worktree.baseCommit, worktree.path),
+        changeType === 'delete' ? null : api.file.read(filePath),
+      ])
+      return {
+        filePath,
+        relativePath: file.path,
+        oldContent,
+        newContent,
+        changeType,
+        linesAdded: file.additions || 0,
+        linesRemoved: file.deletions || 0,
+        status: 'pending' as const,
+      }
+    }))
+  }
+
+  /**
+   * 生成审查用的统一 diff
+   * 不经过全局 Composer 会话，避免替换并行运行中的 Agent 正在使用的会话
+   */
+  async buildReview(worktree: WorktreeInfo): Promise<WorktreeReview> {
+    const changes = await this.getChanges(worktree)
+    return { changes, diff: generateUnifiedDiff(changes) }
+  }
+
+  /**
+   * 提交 worktree 中的全部改动（无改动时跳过）
+   */
+  async commit(worktree: WorktreeInfo, message: string): Promise<{ success: boolean; error?: string }> {
+    await gitService.stageAll(worktree.path)
+    const status = await gitService.getStatus(worktree.path)
+    if (!status || status.staged.length === 0) return { success: true }
+    return gitService.commit(message, worktree.path)
+  }
+
+  /**
+   * 提交并合并回原分支，成功后清理 worktree 和分支
+   * 出现冲突时保留 worktree，冲突留在主工作区由用户解决
+   */
+  async merge(worktree: WorktreeInfo, message: string): Promise<WorktreeMergeResult> {
+    const committed = await this.commit(worktree, message)
+    if (!committed.success) return committed
+
+    const currentBranch = await gitService.getCurrentBranch(worktree.ownerPath)
+    if (currentBranch !== worktree.baseBranch) {
+      return { success: false, error: `Workspace is on "${currentBranch}", switch back to "${worktree.baseBranch}" before merging` }
+    }
+
+    const merged = await gitService.mergeBranch(worktree.branch, worktree.ownerPath)
+    if (!merged.success) return merged
+
+    logger.agent.info(`[Worktree] Merged ${worktree.branch} into ${worktree.baseBranch}`)
+    await this.remove(worktree, false)
+    return { success: true }
+  }
+
+  /**
+   * 放弃 worktree 中的全部改动
+   */
+  async discard(worktree: WorktreeInfo): Promise<{ success: boolean; error?: string }> {
+    return this.remove(worktree, true)
+  }
+
+  private async remove(worktree: WorktreeInfo, force: boolean): Promise<{ success: boolean; error?: string }> {
+    const removed = await gitService.removeWorktree(worktree.path, force, worktree.ownerPath)
+    if (!removed.success) return removed
+    // 已合并时用 -d 删除；放弃时分支未合并，需要 -D
+    return gitService.deleteBranch(worktree.branch, force, worktree.ownerPath)
+  }
+
+  private slugify(title: string): string {
+    const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 32).replace(/^-+|-+$/g, '')
+    return slug || 'task'
+  }
+}
+
+export const worktreeService = new WorktreeService()
@@ -236,6 +236,11 @@ export const selectCurrentThread = (state: AgentStore) => {
     return state.threads[state.currentThreadId] || null
 }
 
+export const selectCurrentWorktree = (state: AgentStore) => {
+    if (!state.currentThreadId) return null
+    return state.threads[state.currentThreadId]?.worktree || null
+}
+
 export const selectMessages = (state: AgentStore) => {
     if (!state.currentThreadId) return EMPTY_MESSAGES
     const thread = state.threads[state.currentThreadId]
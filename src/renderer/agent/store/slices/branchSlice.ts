@@ -1,6 +1,6 @@
 /**
  * 对话分支管理 Slice
- * 支持从任意消息点创建分支、切换分支、合并分支
+ * 支持从任意消息点创建分支、切换分支、对比分支并挑选消息 / 文件变更
  * 
  * 主线消息保存机制：
  * - 使用特殊的 __mainline__ 分支保存主线消息
@@ -9,14 +9,13 @@
  */
 
 import type { StateCreator } from 'zustand'
+import { api } from '@/renderer/services/electronAPI'
+import { calculateLineChanges } from '@/shared/utils/fileEdits'
 import type { ChatMessage, MessageContent } from '../../types'
 import type { ThreadSlice } from './threadSlice'
 import type { MessageSlice } from './messageSlice'
-
-// ===== 常量 =====
-
-/** 主线分支的特殊 ID */
-const MAINLINE_BRANCH_ID = '__mainline__'
+import type { CheckpointSlice } from './checkpointSlice'
+import { MAINLINE_BRANCH_ID, resolveBranchMessages, prepareCherryPick, type BranchFileChange } from '../../utils/branchCompare'
 
 // ===== 类型定义 =====
 
@@ -57,6 +56,12 @@ export interface BranchActions {
   getActiveBranch: () => Branch | null
   /** 从消息重新生成（创建新分支并重新发送） */
   regenerateFromMessage: (messageId: string) => { branchId: string; messageContent: MessageContent } | null
+  /** 获取分支的完整消息（null 表示主线） */
+  getBranchMessages: (branchId: string | null) => ChatMessage[]
+  /** 将其他分支的消息追加到当前分支，返回追加的消息数 */
+  cherryPickMessages: (sourceBranchId: string | null, messageIds: string[]) => number
+  /** 将其他分支的文件变更应用到工作区（进入待确认更改，可撤销） */
+  cherryPickFileChange: (change: BranchFileChange) => Promise<boolean>
 }
 
 export type BranchSlice = BranchState & BranchActions
@@ -95,7 +100,7 @@ function getOrCreateMainlineBranch(
 // ===== Slice 创建器 =====
 
 export const createBranchSlice: StateCreator<
-  ThreadSlice & MessageSlice & BranchSlice,
+  ThreadSlice & MessageSlice & CheckpointSlice & BranchSlice,
   [],
   [],
   BranchSlice
@@ -407,4 +412,53 @@ export const createBranchSlice: StateCreator<
 
     return { branchId, messageContent }
   },
+
+  getBranchMessages: (branchId) => {
+    const threadId = get().currentThreadId
+    const thread = threadId ? get().threads[threadId] : null
+    if (!threadId || !thread) return []
+    return resolveBranchMessages(thread.messages, get().branches[threadId] || [], get().activeBranchId[threadId] ?? null, branchId)
+  },
+
+  cherryPickMessages: (sourceBranchId, messageIds) => {
+    const threadId = get().currentThreadId
+    if (!threadId || !get().threads[threadId]) return 0
+
+    const picked = prepareCherryPick(get().getBranchMessages(sourceBranchId), messageIds, generateId)
+    if (picked.length === 0) return 0
+
+    set(state => {
+      const currentThread = state.threads[threadId]
+      if (!currentThread) return state
+      return {
+        threads: {
+          ...state.threads,
+          [threadId]: { ...currentThread, messages: [...currentThread.messages, ...picked], lastModified: Date.now() },
+        },
+      }
+    })
+
+    return picked.length
+  },
+
+  cherryPickFileChange: async (change) => {
+    const current = await api.file.read(change.path)
+    if (current === change.after) return true
+
+    const success = change.after === null
+      ? await api.file.delete(change.path)
+      : await api.file.write(change.path, change.after)
+    if (!success) return false
+
+    const lines = calculateLineChanges(current || '', change.after || '')
+    get().addPendingChange({
+      filePath: change.path,
+      toolCallId: `cherry-pick-${generateId()}`,
+      toolName: 'cherry_pick',
+      snapshot: { path: change.path, content: current },
+      linesAdded: lines.added,
+      linesRemoved: lines.removed,
+    })
+    return true
+  },
 })
@@ -12,7 +12,7 @@ export { createCheckpointSlice } from './checkpointSlice'
 export type { CheckpointSlice, CheckpointState, CheckpointActions } from './checkpointSlice'
 
 export { createPlanSlice } from './planSlice'
-export type { PlanSlice, PlanState, PlanActions } from './planSlice'
+export type { PlanSlice, PlanState, PlanActions, PlanItemInput } from './planSlice'
 
 export { createStreamSlice } from './streamSlice'
 export type { StreamSlice, StreamSliceState, StreamActions } from './streamSlice'
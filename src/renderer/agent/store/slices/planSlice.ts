@@ -5,20 +5,32 @@
 
 import type { StateCreator } from 'zustand'
 import type { Plan, PlanItem } from '../../types'
+import type { ThreadSlice } from './threadSlice'
 
 // ===== 类型定义 =====
 
+/** 创建计划时的步骤输入，dependsOn 可用步骤序号（从 1 开始）、ID 或标题 */
+export interface PlanItemInput {
+    title: string
+    description?: string
+    dependsOn?: Array<number | string>
+    acceptanceCriteria?: string[]
+}
+
 export interface PlanState {
     plan: Plan | null
 }
 
 export interface PlanActions {
-    createPlan: (items: Array<{ title: string; description?: string }>) => void
+    createPlan: (items: PlanItemInput[], title?: string) => void
+    loadPlan: (plan: Plan) => void
+    setPlanTitle: (title: string) => void
     updatePlanStatus: (status: Plan['status']) => void
     updatePlanItem: (itemId: string, updates: Partial<PlanItem>) => void
     addPlanItem: (item: { title: string; description?: string }) => void
     deletePlanItem: (itemId: string) => void
     setPlanStep: (stepId: string | null) => void
+    recordPlanStepChange: (filePath: string, checkpointId?: string) => void
     clearPlan: () => void
 }
 
@@ -28,36 +40,72 @@ export type PlanSlice = PlanState & PlanActions
 
 const generateShortId = () => crypto.randomUUID().slice(0, 8)
 
+const addUnique = (list: string[] | undefined, value: string | null | undefined) =>
+    !value || list?.includes(value) ? list : [...(list || []), value]
+
+/** 将步骤序号 / ID / 标题解析为步骤 ID，忽略无法识别和指向自身的依赖 */
+function resolveDependencies(refs: PlanItemInput['dependsOn'], items: PlanItem[], selfIndex: number): string[] | undefined {
+    if (!refs?.length) return undefined
+    const ids = refs.map(ref => {
+        const index = typeof ref === 'number' ? ref - 1 : /^\d+$/.test(ref) ? parseInt(ref, 10) - 1 : -1
+        if (index >= 0) return items[index]?.id
+        return items.find(item => item.id === ref || item.title === ref)?.id
+    })
+    const resolved = [...new Set(ids.filter((id): id is string => !!id && id !== items[selfIndex].id))]
+    return resolved.length > 0 ? resolved : undefined
+}
+
 // ===== Slice 创建器 =====
 
 export const createPlanSlice: StateCreator<
-    PlanSlice,
+    ThreadSlice & PlanSlice,
     [],
     [],
     PlanSlice
-> = (set) => ({
+> = (set, get) => ({
     // 初始状态
     plan: null,
 
     // 创建计划
-    createPlan: (items) => {
+    createPlan: (items, title) => {
+        const planItems: PlanItem[] = items.map(item => ({
+            id: generateShortId(),
+            title: item.title,
+            description: item.description,
+            status: 'pending' as const,
+            acceptanceCriteria: item.acceptanceCriteria?.length ? item.acceptanceCriteria : undefined,
+        }))
+        items.forEach((item, index) => {
+            planItems[index].dependsOn = resolveDependencies(item.dependsOn, planItems, index)
+        })
+
         set({
             plan: {
                 id: crypto.randomUUID(),
-                items: items.map(item => ({
-                    id: generateShortId(),
-                    title: item.title,
-                    description: item.description,
-                    status: 'pending' as const,
-                })),
+                title,
+                items: planItems,
                 status: 'draft' as const,
                 currentStepId: null,
+                threadIds: addUnique([], get().currentThreadId),
                 createdAt: Date.now(),
                 updatedAt: Date.now(),
             },
         })
     },
 
+    // 载入已保存的计划（恢复执行），并关联当前会话
+    loadPlan: (plan) => {
+        set({ plan: { ...plan, threadIds: addUnique(plan.threadIds, get().currentThreadId) } })
+    },
+
+    // 设置计划标题
+    setPlanTitle: (title) => {
+        set(state => {
+            if (!state.plan) return {}
+            return { plan: { ...state.plan, title, updatedAt: Date.now() } }
+        })
+    },
+
     // 更新计划状态
     updatePlanStatus: (status) => {
         set(state => {
@@ -136,6 +184,29 @@ export const createPlanSlice: StateCreator<
         })
     },
 
+    // 记录当前步骤修改的文件和所在检查点（只记录已关联计划的会话中的修改）
+    recordPlanStepChange: (filePath, checkpointId) => {
+        set(state => {
+            const plan = state.plan
+            if (!plan || !state.currentThreadId || !plan.threadIds?.includes(state.currentThreadId)) return {}
+            const step = plan.items.find(item => item.id === plan.currentStepId && item.status === 'in_progress')
+                || plan.items.find(item => item.status === 'in_progress')
+            if (!step) return {}
+
+            const files = addUnique(step.files, filePath)
+            const checkpointIds = addUnique(step.checkpointIds, checkpointId)
+            if (files === step.files && checkpointIds === step.checkpointIds) return {}
+
+            return {
+                plan: {
+                    ...plan,
+                    items: plan.items.map(item => item.id === step.id ? { ...item, files, checkpointIds } : item),
+                    updatedAt: Date.now(),
+                },
+            }
+        })
+    },
+
     // 清空计划
     clearPlan: () => {
         set({ plan: null })
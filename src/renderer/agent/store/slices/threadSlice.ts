@@ -4,7 +4,7 @@
  */
 
 import type { StateCreator } from 'zustand'
-import type { ChatThread } from '../../types'
+import type { ChatThread, WorktreeInfo } from '../../types'
 
 // ===== 类型定义 =====
 
@@ -18,6 +18,7 @@ export interface ThreadActions {
     switchThread: (threadId: string) => void
     deleteThread: (threadId: string) => void
     getCurrentThread: () => ChatThread | null
+    setThreadWorktree: (threadId: string, worktree: WorktreeInfo | undefined) => void
 }
 
 export type ThreadSlice = ThreadState & ThreadActions
@@ -133,4 +134,18 @@ export const createThreadSlice: StateCreator<
         if (!state.currentThreadId) return null
         return state.threads[state.currentThreadId] || null
     },
+
+    // 绑定 / 解除线程的隔离 worktree
+    setThreadWorktree: (threadId, worktree) => {
+        set(state => {
+            const thread = state.threads[threadId]
+            if (!thread) return state
+            return {
+                threads: {
+                    ...state.threads,
+                    [threadId]: { ...thread, worktree },
+                },
+            }
+        })
+    },
 })
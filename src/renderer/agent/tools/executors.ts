@@ -7,19 +7,50 @@ import { api } from '@/renderer/services/electronAPI'
 import { logger } from '@utils/Logger'
 import type { ToolExecutionResult, ToolExecutionContext } from '@/shared/types'
 import type { PlanItem } from '../types'
-import { validatePath, isSensitivePath } from '@/renderer/utils/pathUtils'
+import type { DebugConfig } from '@/renderer/types/electron'
+import { validatePath, isSensitivePath, toRelativePath } from '@/renderer/utils/pathUtils'
 import { pathToLspUri } from '@/renderer/services/lspService'
-import {
-    calculateLineChanges,
-} from '@/renderer/utils/searchReplace'
 import { getAgentConfig } from '../utils/AgentConfig'
 import { AgentService } from '../services/AgentService'
 import { useAgentStore } from '../store/AgentStore'
+import type { PlanItemInput } from '../store/slices'
+import { planDocumentService } from '../services/planDocumentService'
+import { renderPlanMarkdown } from '../utils/planDocument'
 import { lintService } from '../services/lintService'
+import { worktreeService } from '../services/worktreeService'
 import { useStore } from '@/renderer/store'
+import { testService, formatTestRunSummary, type TestFramework } from '@/renderer/services/testService'
+import { taskService, formatTaskResult } from '@/renderer/services/taskService'
+import { checkpointService } from '../services/checkpointService'
+import { debugSessionService, formatFrame, formatVariables, resolveLaunchVariables, type DebugStepAction } from '../services/debugSessionService'
+import { parseJsonc } from '@/shared/utils/jsonUtils'
+import { editFile, writeFileContent, replaceFileLines, applyPatch, type FileEditIO } from '@/shared/utils/fileEdits'
 
 // ===== 辅助函数 =====
 
+/** Agent 发起的文件修改，主进程据此执行权限策略底线检查 */
+const AGENT_WRITE = { agent: true }
+
+/** 文件编辑工具通过 IPC 读写，写入均标记为 Agent 发起 */
+const agentFileIO: FileEditIO = {
+    read: path => api.file.read(path),
+    write: (path, content) => api.file.write(path, content, AGENT_WRITE),
+    delete: path => api.file.delete(path, AGENT_WRITE),
+    exists: path => api.file.exists(path),
+}
+
+const SYMBOL_GRAPH_UNAVAILABLE = 'Symbol graph is not available. Build the codebase index first (Settings → Index → Start Indexing).'
+
+/**
+ * 索引只为主工作区构建，在 worktree 中隔离运行时查询所属工作区的索引
+ */
+function getIndexScope(workspacePath: string): { root: string; toIndexPath: (path: string) => string } {
+    return {
+        root: worktreeService.getOwnerWorkspace(workspacePath) || workspacePath,
+        toIndexPath: path => worktreeService.mapToOwner(path, workspacePath),
+    }
+}
+
 interface DirTreeNode {
     name: string
     path: string
@@ -66,17 +97,6 @@ function formatDirTree(nodes: DirTreeNode[], prefix = ''): string {
     return result
 }
 
-function generatePlanMarkdown(plan: { items: PlanItem[] }, title?: string): string {
-    let content = `# 📋 ${title || 'Execution Plan'}\n\n> Generated: ${new Date().toLocaleString()}\n\n## Steps\n`
-    plan.items.forEach(item => {
-        const checkbox = item.status === 'completed' ? '[x]' : item.status === 'in_progress' ? '[/]' : item.status === 'failed' ? '[!]' : '[ ]'
-        const icon = item.status === 'completed' ? '✅' : item.status === 'in_progress' ? '🔄' : item.status === 'failed' ? '❌' : '⬜'
-        content += `- ${checkbox} ${icon} [id: ${item.id}] ${item.title}\n`
-        if (item.description) content += `  > ${item.description}\n`
-    })
-    return content + `\n---\n*Plan ID: ${plan.items[0]?.id?.slice(0, 8) || 'N/A'}*\n`
-}
-
 function resolvePath(p: unknown, workspacePath: string | null, allowRead = false): string {
     if (typeof p !== 'string') throw new Error('Invalid path: not a string')
     const validation = validatePath(p, workspacePath, { allowSensitive: false, allowOutsideWorkspace: false })
@@ -87,6 +107,43 @@ function resolvePath(p: unknown, workspacePath: string | null, allowRead = false
     return validation.sanitizedPath!
 }
 
+/** 根据 debug_launch 参数构建调试配置（launch.json 命名配置或直接指定程序） */
+async function buildDebugConfig(args: Record<string, unknown>, workspacePath: string): Promise<DebugConfig> {
+    const activeFile = useStore.getState().activeFilePath
+    const resolve = (value: unknown) => typeof value === 'string' ? resolveLaunchVariables(value, workspacePath, activeFile) : undefined
+
+    if (args.configuration) {
+        const content = await api.file.read(`${workspacePath}/.adnify/launch.json`)
+        if (!content) throw new Error('No .adnify/launch.json found. Pass program instead.')
+        const configurations = (parseJsonc(content) as { configurations?: unknown } | null)?.configurations
+        const config = Array.isArray(configurations)
+            ? (configurations as DebugConfig[]).find(c => c.name === args.configuration)
+            : undefined
+        if (!config) throw new Error(`Launch configuration not found: ${args.configuration}`)
+        return {
+            ...config,
+            program: config.program ? resolvePath(resolve(config.program), workspacePath, true) : undefined,
+            cwd: resolve(config.cwd) || workspacePath,
+            args: (args.args as string[] | undefined) || config.args,
+            stopOnEntry: (args.stop_on_entry as boolean | undefined) ?? config.stopOnEntry,
+        }
+    }
+
+    const program = resolvePath(args.program, workspacePath, true)
+    const type = (args.type as string) || (/\.py$/.test(program) ? 'python' : /\.go$/.test(program) || !/\.\w+$/.test(program) ? 'go' : 'node')
+    return {
+        type,
+        name: `Agent: ${toRelativePath(program, workspacePath)}`,
+        request: 'launch',
+        program,
+        args: args.args as string[] | undefined,
+        cwd: args.cwd ? resolvePath(args.cwd, workspacePath, true) : workspacePath,
+        stopOnEntry: args.stop_on_entry as boolean,
+        // go 调试器以包为单位
+        ...(type === 'go' ? { mode: 'debug' } : {}),
+    }
+}
+
 // ===== 工具执行器 =====
 
 export const toolExecutors: Record<string, (args: Record<string, unknown>, ctx: ToolExecutionContext) => Promise<ToolExecutionResult>> = {
@@ -170,129 +227,49 @@ export const toolExecutors: Record<string, (args: Record<string, unknown>, ctx:
 
     async edit_file(args, ctx) {
         const path = resolvePath(args.path, ctx.workspacePath)
-        const originalContent = await api.file.read(path)
-        if (originalContent === null) return { success: false, result: '', error: `File not found: ${path}. Use write_file to create new files.` }
-
-        // 获取 old_string 和 new_string 参数
-        const oldString = args.old_string as string
-        const newString = args.new_string as string
-
-        if (!oldString) {
-            return { success: false, result: '', error: 'old_string is required. Provide the exact text to find and replace.' }
-        }
-
-        if (oldString === newString) {
-            return { success: false, result: '', error: 'old_string and new_string are identical. No changes needed.' }
-        }
-
-        // 检查 old_string 在文件中出现的次数
-        const occurrences = originalContent.split(oldString).length - 1
-
-        if (occurrences === 0) {
-            // 提供详细的错误信息帮助调试
-            const hasCache = AgentService.hasValidFileCache(path)
-            const tip = hasCache
-                ? 'The old_string was not found. The file may have been modified. Use read_file to get the latest content.'
-                : 'The old_string was not found. Use read_file first to get the exact content including whitespace.'
-            
-            // 尝试找到相似的内容
-            const normalizedOld = oldString.replace(/\s+/g, ' ').trim()
-            const normalizedContent = originalContent.replace(/\s+/g, ' ')
-            const hasSimilar = normalizedContent.includes(normalizedOld)
-            
-            let errorMsg = `old_string not found in file.\n\nTip: ${tip}`
-            if (hasSimilar) {
-                errorMsg += '\n\nNote: Similar content exists but whitespace differs. Copy exact content from read_file output.'
-            }
-            
-            return { success: false, result: '', error: errorMsg }
-        }
-
-        if (occurrences > 1) {
-            return {
-                success: false,
-                result: '',
-                error: `old_string found ${occurrences} times in file. It must be unique.\n\nTip: Include more surrounding context (3-5 lines before/after) to make old_string unique.`
-            }
-        }
-
-        // 执行替换
-        const newContent = originalContent.replace(oldString, newString)
-
-        const success = await api.file.write(path, newContent)
-        if (!success) return { success: false, result: '', error: 'Failed to write file' }
-
+        // 已读取过但仍找不到，说明文件可能已被修改
+        const tip = AgentService.hasValidFileCache(path)
+            ? 'The old_string was not found. The file may have been modified. Use read_file to get the latest content.'
+            : 'The old_string was not found. Use read_file first to get the exact content including whitespace.'
+        const result = await editFile(agentFileIO, path, args.old_string as string, args.new_string as string, tip)
         // 更新文件缓存
-        AgentService.markFileAsRead(path, newContent)
-
-        const lineChanges = calculateLineChanges(originalContent, newContent)
-        return { 
-            success: true, 
-            result: 'File updated successfully', 
-            meta: { 
-                filePath: path, 
-                oldContent: originalContent, 
-                newContent, 
-                linesAdded: lineChanges.added, 
-                linesRemoved: lineChanges.removed 
-            } 
-        }
+        if (result.success) AgentService.markFileAsRead(path, result.meta!.newContent as string)
+        return result
     },
 
     async write_file(args, ctx) {
-        const path = resolvePath(args.path, ctx.workspacePath)
-        const content = args.content as string
-        const originalContent = await api.file.read(path) || ''
-        const success = await api.file.write(path, content)
-        if (!success) return { success: false, result: '', error: 'Failed to write file' }
-
-        const lineChanges = calculateLineChanges(originalContent, content)
-        return { success: true, result: 'File written successfully', meta: { filePath: path, oldContent: originalContent, newContent: content, linesAdded: lineChanges.added, linesRemoved: lineChanges.removed } }
+        return writeFileContent(agentFileIO, resolvePath(args.path, ctx.workspacePath), args.content as string)
     },
 
     async replace_file_content(args, ctx) {
         const path = resolvePath(args.path, ctx.workspacePath)
-        const originalContent = await api.file.read(path)
-        if (originalContent === null) return { success: false, result: '', error: `File not found: ${path}` }
 
         // 对于行号替换，建议先读取文件以确保行号准确
         if (!AgentService.hasValidFileCache(path)) {
             logger.agent.warn(`[replace_file_content] File ${path} not in cache, line numbers may be inaccurate`)
         }
 
-        const content = args.content as string
-        if (originalContent === '') {
-            const success = await api.file.write(path, content)
-            if (success) AgentService.markFileAsRead(path, content)
-            return success
-                ? { success: true, result: 'File written (was empty)', meta: { filePath: path, oldContent: '', newContent: content, linesAdded: content.split('\n').length, linesRemoved: 0 } }
-                : { success: false, result: '', error: 'Failed to write file' }
-        }
-
-        const lines = originalContent.split('\n')
-        const startLine = args.start_line as number
-        const endLine = args.end_line as number
-        
-        // 验证行号范围
-        if (startLine < 1 || endLine > lines.length || startLine > endLine) {
-            return {
-                success: false,
-                result: '',
-                error: `Invalid line range: ${startLine}-${endLine}. File has ${lines.length} lines. Use read_file to verify line numbers.`
-            }
-        }
-        
-        lines.splice(startLine - 1, endLine - startLine + 1, ...content.split('\n'))
-        const newContent = lines.join('\n')
-
-        const success = await api.file.write(path, newContent)
-        if (!success) return { success: false, result: '', error: 'Failed to write file' }
-        
+        const result = await replaceFileLines(agentFileIO, path, args.start_line as number, args.end_line as number, args.content as string)
         // 更新文件缓存
-        AgentService.markFileAsRead(path, newContent)
+        if (result.success) AgentService.markFileAsRead(path, result.meta!.newContent as string)
+        return result
+    },
 
-        const lineChanges = calculateLineChanges(originalContent, newContent)
-        return { success: true, result: 'File updated successfully', meta: { filePath: path, oldContent: originalContent, newContent, linesAdded: lineChanges.added, linesRemoved: lineChanges.removed } }
+    async apply_patch(args, ctx) {
+        // 整个补丁作为一个检查点，可一次性回滚
+        let checkpointId: string | undefined
+        const result = await applyPatch(agentFileIO, args.patch as string, {
+            resolvePath: p => resolvePath(p, ctx.workspacePath),
+            beforeWrite: async touched => {
+                checkpointId = (await checkpointService.createCheckpoint('tool_edit', `apply_patch: ${touched.length} file(s)`, touched)).id
+            },
+        })
+        if (!result.success) return result
+
+        for (const file of result.meta!.files as Array<{ filePath: string; newContent: string | null }>) {
+            if (file.newContent !== null) AgentService.markFileAsRead(file.filePath, file.newContent)
+        }
+        return { ...result, meta: { checkpointId, ...result.meta } }
     },
 
     async create_file_or_folder(args, ctx) {
@@ -300,18 +277,18 @@ export const toolExecutors: Record<string, (args: Record<string, unknown>, ctx:
         const isFolder = path.endsWith('/') || path.endsWith('\\')
 
         if (isFolder) {
-            const success = await api.file.mkdir(path)
+            const success = await api.file.mkdir(path, AGENT_WRITE)
             return { success, result: success ? 'Folder created' : 'Failed to create folder' }
         }
 
         const content = (args.content as string) || ''
-        const success = await api.file.write(path, content)
+        const success = await api.file.write(path, content, AGENT_WRITE)
         return { success, result: success ? 'File created' : 'Failed to create file', meta: { filePath: path, isNewFile: true, newContent: content, linesAdded: content.split('\n').length } }
     },
 
     async delete_file_or_folder(args, ctx) {
         const path = resolvePath(args.path, ctx.workspacePath)
-        const success = await api.file.delete(path)
+        const success = await api.file.delete(path, AGENT_WRITE)
         return { success, result: success ? 'Deleted successfully' : 'Failed to delete' }
     },
 
@@ -363,6 +340,101 @@ export const toolExecutors: Record<string, (args: Record<string, unknown>, ctx:
         }
     },
 
+    async run_tests(args, ctx) {
+        if (!ctx.workspacePath) return { success: false, result: '', error: 'No workspace open' }
+        const path = args.path ? resolvePath(args.path, ctx.workspacePath, true) : undefined
+        const summary = await testService.run(ctx.workspacePath, {
+            paths: path ? [path] : undefined,
+            testName: args.test_name as string | undefined,
+            framework: args.framework as TestFramework | undefined,
+            timeout: args.timeout ? (args.timeout as number) * 1000 : undefined,
+        })
+        const result = formatTestRunSummary(summary, ctx.workspacePath)
+        const meta = { framework: summary.framework, command: summary.command, exitCode: summary.exitCode, passed: summary.passed, failed: summary.failed, skipped: summary.skipped }
+        // 测试失败是有效结果而非工具错误，只有未产生任何结果时才视为失败
+        return summary.results.length > 0 || summary.exitCode === 0
+            ? { success: true, result, meta }
+            : { success: false, result: '', error: result, meta }
+    },
+
+    async run_task(args, ctx) {
+        if (!ctx.workspacePath) return { success: false, result: '', error: 'No workspace open' }
+        const name = args.name as string
+        if (!taskService.getTask(name)) {
+            const labels = taskService.getTasks().map(t => t.label)
+            return {
+                success: false,
+                result: '',
+                error: labels.length > 0
+                    ? `Task not found: ${name}. Available tasks: ${labels.join(', ')}`
+                    : 'No tasks defined. Add them to .adnify/tasks.json',
+            }
+        }
+        const result = await taskService.run(name, ctx.workspacePath, { waitMs: ((args.wait_seconds as number) || 60) * 1000 })
+        const text = formatTaskResult(result, ctx.workspacePath)
+        const problems = [result, ...(result.dependencies || [])].reduce((sum, r) => sum + r.problems.length, 0)
+        const meta = { status: result.status, exitCode: result.exitCode, problems }
+        // 与 run_tests 一致：构建失败但报告了问题是有效结果
+        return result.status !== 'failed' || problems > 0
+            ? { success: true, result: text, meta }
+            : { success: false, result: '', error: text, meta }
+    },
+
+    async debug_launch(args, ctx) {
+        if (!ctx.workspacePath) return { success: false, result: '', error: 'No workspace open' }
+        const config = await buildDebugConfig(args, ctx.workspacePath)
+        const waitMs = ((args.wait_seconds as number) || 30) * 1000
+        const { sessionId, result } = await debugSessionService.launch(config, waitMs)
+        const text = await debugSessionService.formatStopResult(result, ctx.workspacePath)
+        return { success: true, result: `Session ${sessionId} (${config.type}: ${config.name})\n${text}`, meta: { sessionId, state: result.state } }
+    },
+
+    async debug_set_breakpoint(args, ctx) {
+        const path = resolvePath(args.path, ctx.workspacePath, true)
+        const line = args.line as number
+        await debugSessionService.setBreakpoint(path, line, { condition: args.condition as string | undefined, remove: args.remove as boolean })
+        const target = `${toRelativePath(path, ctx.workspacePath)}:${line}`
+        return { success: true, result: args.remove ? `Breakpoint removed at ${target}` : `Breakpoint set at ${target}${args.condition ? ` when ${args.condition}` : ''}` }
+    },
+
+    async debug_continue(args, ctx) {
+        const sessionId = debugSessionService.resolveSessionId(args.session_id as string | undefined)
+        const action = (args.action as DebugStepAction) || 'continue'
+        const result = await debugSessionService.step(sessionId, action, ((args.wait_seconds as number) || 30) * 1000)
+        return { success: true, result: await debugSessionService.formatStopResult(result, ctx.workspacePath), meta: { sessionId, state: result.state } }
+    },
+
+    async debug_stack(args, ctx) {
+        const sessionId = debugSessionService.resolveSessionId(args.session_id as string | undefined)
+        const frames = await debugSessionService.getStackTrace(sessionId)
+        if (frames.length === 0) return { success: false, result: '', error: 'No stack frames. Is the program paused?' }
+        const maxFrames = (args.max_frames as number) || 20
+        const lines = frames.slice(0, maxFrames).map((frame, i) => `#${i} ${formatFrame(frame, ctx.workspacePath)}`)
+        if (frames.length > maxFrames) lines.push(`... ${frames.length - maxFrames} more frames`)
+        return { success: true, result: lines.join('\n') }
+    },
+
+    async debug_variables(args) {
+        const sessionId = debugSessionService.resolveSessionId(args.session_id as string | undefined)
+        const depth = Math.min(Math.max((args.depth as number) ?? 1, 0), 3)
+        const scopes = await debugSessionService.getVariables(sessionId, (args.frame_index as number) || 0, { scope: args.scope as string | undefined, depth })
+        if (scopes.length === 0) return { success: true, result: 'No variables in this frame' }
+        const result = scopes.map(({ scope, variables }) => [`${scope}:`, ...(variables.length ? formatVariables(variables) : ['  (empty)'])].join('\n')).join('\n\n')
+        return { success: true, result }
+    },
+
+    async debug_evaluate(args) {
+        const sessionId = debugSessionService.resolveSessionId(args.session_id as string | undefined)
+        const { result, type } = await debugSessionService.evaluate(sessionId, args.expression as string, (args.frame_index as number) || 0)
+        return { success: true, result: type ? `${result} (${type})` : result }
+    },
+
+    async debug_stop(args) {
+        const sessionId = debugSessionService.resolveSessionId(args.session_id as string | undefined)
+        await debugSessionService.stop(sessionId)
+        return { success: true, result: `Debug session ${sessionId} stopped` }
+    },
+
     async get_lint_errors(args, ctx) {
         const path = resolvePath(args.path, ctx.workspacePath, true)
         const errors = await lintService.getLintErrors(path, args.refresh as boolean)
@@ -371,9 +443,67 @@ export const toolExecutors: Record<string, (args: Record<string, unknown>, ctx:
 
     async codebase_search(args, ctx) {
         if (!ctx.workspacePath) return { success: false, result: '', error: 'No workspace open' }
-        const results = await api.index.hybridSearch(ctx.workspacePath, args.query as string, (args.top_k as number) || 10)
+        const activeFile = useStore.getState().activeFilePath || undefined
+        const results = await api.index.hybridSearch(getIndexScope(ctx.workspacePath).root, args.query as string, (args.top_k as number) || 10, { activeFile })
         if (!results?.length) return { success: false, result: 'No results found' }
-        return { success: true, result: results.map(r => `${r.relativePath}:${r.startLine}: ${r.content.trim()}`).join('\n') }
+        // 附带排序依据，便于 Agent 判断结果相关性
+        const formatRanking = (r: typeof results[number]) => r.rerankScore === undefined
+            ? `score ${r.score.toFixed(3)}`
+            : `rerank ${r.rerankScore.toFixed(2)}${r.rerankReasons?.length ? `: ${r.rerankReasons.join(', ')}` : ''}`
+        // 符号图中该代码块调用的定义，便于继续追踪
+        const formatRelated = (r: typeof results[number]) => r.related?.length
+            ? `\n  -> related: ${r.related.map(d => `${d.name} (${d.relativePath}:${d.line})`).join(', ')}`
+            : ''
+        return { success: true, result: results.map(r => `${r.relativePath}:${r.startLine} [${formatRanking(r)}]: ${r.content.trim()}${formatRelated(r)}`).join('\n') }
+    },
+
+    async get_callers(args, ctx) {
+        if (!ctx.workspacePath) return { success: false, result: '', error: 'No workspace open' }
+        const scope = getIndexScope(ctx.workspacePath)
+        const path = args.path ? scope.toIndexPath(resolvePath(args.path, ctx.workspacePath, true)) : undefined
+        const callers = await api.index.getCallers(scope.root, args.symbol as string, path)
+        if (!callers) return { success: false, result: '', error: SYMBOL_GRAPH_UNAVAILABLE }
+        if (!callers.length) return { success: true, result: `No callers of "${args.symbol}" found` }
+        return {
+            success: true,
+            result: callers.map(c => `${c.relativePath}:${c.line}${c.caller ? ` in ${c.caller}` : ' (top level)'}`).join('\n'),
+        }
+    },
+
+    async get_callees(args, ctx) {
+        if (!ctx.workspacePath) return { success: false, result: '', error: 'No workspace open' }
+        const scope = getIndexScope(ctx.workspacePath)
+        const path = args.path ? scope.toIndexPath(resolvePath(args.path, ctx.workspacePath, true)) : undefined
+        const entries = await api.index.getCallees(scope.root, args.symbol as string, path)
+        if (!entries) return { success: false, result: '', error: SYMBOL_GRAPH_UNAVAILABLE }
+        if (!entries.length) return { success: true, result: `No definition of "${args.symbol}" found in the symbol graph` }
+        return {
+            success: true,
+            result: entries.map(({ definition, callees }) => {
+                const header = `${definition.name} (${definition.relativePath}:${definition.line})`
+                if (!callees.length) return `${header}\n  (no calls to workspace definitions)`
+                return [header, ...callees.map(c => `  line ${c.line}: ${c.name} -> ${c.definitions.map(d => `${d.relativePath}:${d.line}`).join(', ')}`)].join('\n')
+            }).join('\n\n'),
+        }
+    },
+
+    async get_import_graph(args, ctx) {
+        if (!ctx.workspacePath) return { success: false, result: '', error: 'No workspace open' }
+        const scope = getIndexScope(ctx.workspacePath)
+        const path = scope.toIndexPath(resolvePath(args.path, ctx.workspacePath, true))
+        const depth = Math.min(Math.max((args.depth as number) || 1, 1), 5)
+        const graph = await api.index.getImportGraph(scope.root, path, args.direction as 'imports' | 'importedBy' | 'both', depth)
+        if (!graph) return { success: false, result: '', error: SYMBOL_GRAPH_UNAVAILABLE }
+
+        const sections = [`Import graph for ${graph.root} (depth ${depth})`]
+        if (args.direction !== 'importedBy') {
+            sections.push(`Imports:\n${graph.imports.map(e => `  ${e.from} -> ${e.to}`).join('\n') || '  (none in workspace)'}`)
+            if (graph.external.length) sections.push(`External: ${graph.external.join(', ')}`)
+        }
+        if (args.direction !== 'imports') {
+            sections.push(`Imported by:\n${graph.importedBy.map(e => `  ${e.from} -> ${e.to}`).join('\n') || '  (none)'}`)
+        }
+        return { success: true, result: sections.join('\n\n') }
     },
 
     async find_references(args, ctx) {
@@ -455,33 +585,25 @@ export const toolExecutors: Record<string, (args: Record<string, unknown>, ctx:
         return { success: true, result: `Title: ${result.title}\n\n${result.content}` }
     },
 
-    async create_plan(args, ctx) {
-        const items = args.items as Array<{ title: string; description?: string }>
-        const title = args.title as string | undefined
-        useAgentStore.getState().createPlan(items)
+    async create_plan(args) {
+        const items = args.items as PlanItemInput[]
+        useAgentStore.getState().createPlan(items, args.title as string | undefined)
 
         const plan = useAgentStore.getState().plan
-        if (plan && ctx.workspacePath) {
-            const planContent = generatePlanMarkdown(plan, title)
-            const planName = title ? title.replace(/[^a-zA-Z0-9\u4e00-\u9fa5]/g, '_').slice(0, 30) : `plan_${new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19)}`
-            const planFilePath = `${ctx.workspacePath}/.adnify/plans/${planName}.md`
-
-            await api.file.ensureDir(`${ctx.workspacePath}/.adnify/plans`)
-            await api.file.write(planFilePath, planContent)
-
-            useStore.getState().openFile(planFilePath, planContent)
+        const planFilePath = plan && planDocumentService.save(plan)
+        if (plan && planFilePath) {
+            useStore.getState().openFile(planFilePath, renderPlanMarkdown(plan))
             useStore.getState().setActiveFile(planFilePath)
-            await api.file.write(`${ctx.workspacePath}/.adnify/active_plan.txt`, planFilePath)
-
-            return { success: true, result: `Plan created with ${plan.items.length} items` }
+            return { success: true, result: `Plan created with ${plan.items.length} items. Step IDs: ${plan.items.map((item, i) => `${i + 1}=${item.id}`).join(', ')}` }
         }
         return { success: true, result: 'Plan created successfully' }
     },
 
-    async update_plan(args, ctx) {
+    async update_plan(args) {
         const store = useAgentStore.getState()
         const plan = store.plan
 
+        if (args.title) store.setPlanTitle(args.title as string)
         if (args.status) store.updatePlanStatus(args.status as 'draft' | 'active' | 'completed' | 'failed')
 
         if (args.items && plan) {
@@ -527,25 +649,13 @@ export const toolExecutors: Record<string, (args: Record<string, unknown>, ctx:
             store.setPlanStep(stepId)
         }
 
-        // 同步文件
+        // 同步已打开的计划文档
         const updatedPlan = useAgentStore.getState().plan
-        if (updatedPlan && ctx.workspacePath) {
-            let planFilePath = await api.file.read(`${ctx.workspacePath}/.adnify/active_plan.txt`)
-            planFilePath = (planFilePath || `${ctx.workspacePath}/.adnify/plan.md`).trim()
-
-            let finalTitle = args.title as string | undefined
-            if (!finalTitle) {
-                const oldContent = await api.file.read(planFilePath)
-                const match = oldContent?.match(/^# 📋 (.*)$/m)
-                if (match) finalTitle = match[1]
-            }
-
-            const planContent = generatePlanMarkdown(updatedPlan, finalTitle)
-            await api.file.write(planFilePath, planContent)
-
+        const planFilePath = updatedPlan && planDocumentService.save(updatedPlan)
+        if (updatedPlan && planFilePath) {
             try {
                 const openFile = useStore.getState().openFiles.find((f: { path: string }) => f.path === planFilePath)
-                if (openFile) useStore.getState().reloadFileFromDisk(planFilePath, planContent)
+                if (openFile) useStore.getState().reloadFileFromDisk(planFilePath, renderPlanMarkdown(updatedPlan))
             } catch (err) {
                 logger.agent.error('[update_plan] Failed to sync editor:', err)
             }
@@ -554,6 +664,17 @@ export const toolExecutors: Record<string, (args: Record<string, unknown>, ctx:
         return { success: true, result: 'Plan updated successfully' }
     },
 
+    async spawn_subagent(args, ctx) {
+        const config = AgentService.getRunningConfig()
+        if (!config) return { success: false, result: '', error: 'Sub-agents can only be started from a running agent' }
+        const { subAgentService } = await import('../services/SubAgentService')
+        return subAgentService.run(
+            { description: args.description as string, prompt: args.prompt as string },
+            config,
+            ctx
+        )
+    },
+
     async uiux_search(args) {
         const { uiuxDatabase } = await import('./uiux')
         
@@ -61,11 +61,31 @@ export interface ToolCallPart {
 /** 助手消息部分 */
 export type AssistantPart = TextPart | ReasoningPart | ToolCallPart
 
+/** 子代理中的单步工具调用 */
+export interface SubAgentStep {
+    id: string
+    name: string
+    /** 简短说明（路径、查询等） */
+    summary: string
+    status: 'running' | 'success' | 'error'
+}
+
+/** 子代理进度（显示在 spawn_subagent 工具卡片中） */
+export interface SubAgentProgress {
+    status: 'running' | 'completed' | 'failed' | 'aborted'
+    turn: number
+    steps: SubAgentStep[]
+}
+
 /** Token 使用统计 */
 export interface TokenUsage {
     promptTokens: number
     completionTokens: number
     totalTokens: number
+    /** 命中缓存的输入 token */
+    cacheReadTokens?: number
+    /** 写入缓存的输入 token */
+    cacheWriteTokens?: number
 }
 
 /** 用户消息 */
@@ -91,6 +111,8 @@ export interface AssistantMessage {
     reasoning?: string
     reasoningStartTime?: number
     usage?: TokenUsage
+    /** 本条消息所有 LLM 调用的累计费用（USD） */
+    cost?: number
 }
 
 /** 工具结果消息 */
@@ -147,14 +169,25 @@ export interface PlanItem {
     title: string
     description?: string
     status: PlanItemStatus
+    /** 依赖的步骤 ID，全部完成后才可执行 */
+    dependsOn?: string[]
+    /** 验收标准 */
+    acceptanceCriteria?: string[]
+    /** 执行该步骤时修改的文件（相对工作区路径） */
+    files?: string[]
+    /** 执行该步骤时所在的消息检查点 */
+    checkpointIds?: string[]
 }
 
 /** 计划 */
 export interface Plan {
     id: string
+    title?: string
     items: PlanItem[]
     status: PlanStatus
     currentStepId: string | null
+    /** 执行过该计划的会话 */
+    threadIds?: string[]
     createdAt: number
     updatedAt: number
 }
@@ -208,6 +241,25 @@ export interface ChatThread {
     state: ThreadState
     /** 上下文压缩摘要（每个线程独立） */
     contextSummary?: string | null
+    /** 隔离运行的 git worktree（设置后 Agent 的工具路径都指向该目录） */
+    worktree?: WorktreeInfo
+}
+
+/** Agent 隔离运行使用的 git worktree */
+export interface WorktreeInfo {
+    id: string
+    /** worktree 目录（绝对路径，位于 .adnify/worktrees 下） */
+    path: string
+    /** 任务分支 */
+    branch: string
+    /** 创建时所在的分支（合并目标） */
+    baseBranch: string
+    /** 创建时的提交 */
+    baseCommit: string
+    /** 所属工作区 */
+    ownerPath: string
+    title: string
+    createdAt: number
 }
 
 /** 流阶段 */
@@ -41,6 +41,7 @@ export function getAgentConfig(): AgentRuntimeConfig {
         // 工具执行
         toolTimeoutMs: agentConfig.toolTimeoutMs ?? DEFAULT_AGENT_CONFIG.toolTimeoutMs,
         enableAutoFix: agentConfig.enableAutoFix ?? DEFAULT_AGENT_CONFIG.enableAutoFix,
+        autoFixRunTests: agentConfig.autoFixRunTests ?? DEFAULT_AGENT_CONFIG.autoFixRunTests,
 
         // 上下文压缩阈值
         contextCompressThreshold: agentConfig.contextCompressThreshold ?? DEFAULT_AGENT_CONFIG.contextCompressThreshold,
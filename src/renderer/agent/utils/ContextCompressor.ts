@@ -24,7 +24,7 @@ export const COMPACT_CONFIG = {
     // 摘要最大字符数
     maxSummaryChars: 2000,
     // 保留的关键工具调用类型
-    importantToolTypes: ['edit_file', 'write_file', 'create_file_or_folder', 'delete_file_or_folder', 'run_command'],
+    importantToolTypes: ['edit_file', 'write_file', 'apply_patch', 'create_file_or_folder', 'delete_file_or_folder', 'run_command'],
 } as const
 
 // 可压缩的消息类型（排除 checkpoint）
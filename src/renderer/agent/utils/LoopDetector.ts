@@ -85,6 +85,14 @@ const WRITE_OPERATIONS = new Set([
   'run_command',
 ])
 
+// 结果取决于调试器运行状态的操作（如连续单步），相同参数重复调用是正常的
+const STATEFUL_OPERATIONS = new Set([
+  'debug_continue',
+  'debug_stack',
+  'debug_variables',
+  'debug_evaluate',
+])
+
 export class LoopDetector {
   private history: ToolCallRecord[] = []
   private contentHashes: Map<string, string[]> = new Map()  // 文件路径 -> 内容哈希历史
@@ -111,6 +119,7 @@ export class LoopDetector {
     this.cleanupOldRecords(now)
 
     for (const tc of toolCalls) {
+      if (STATEFUL_OPERATIONS.has(tc.name)) continue
       const record = this.createRecord(tc, fileContents)
       
       // 1. 检测精确重复（完全相同的参数）
@@ -0,0 +1,204 @@
+/**
+ * 对话分支对比工具函数
+ * 还原各分支的完整消息、提取分支产生的文件变更，以及挑选消息到其他分支
+ */
+
+import { toFullPath } from '@utils/pathUtils'
+import type { ChatMessage, AssistantMessage, ToolResultMessage, MessageCheckpoint, ToolCall } from '../types'
+import type { Branch } from '../store/slices/branchSlice'
+
+/** 主线分支的特殊 ID（切换到其他分支时用于保存主线消息） */
+export const MAINLINE_BRANCH_ID = '__mainline__'
+
+/** 分支中某个文件的最终变更 */
+export interface BranchFileChange {
+    path: string
+    /** 分支首次修改前的内容，null 表示文件原本不存在 */
+    before: string | null
+    /** 分支最后一次修改后的内容，null 表示被删除 */
+    after: string | null
+    /** 产生变更的助手消息 */
+    messageIds: string[]
+    /** 记录了修改前内容的检查点 */
+    checkpointIds: string[]
+}
+
+export type FileCompareStatus = 'left' | 'right' | 'same' | 'different'
+
+export interface FileComparison {
+    path: string
+    status: FileCompareStatus
+    left?: BranchFileChange
+    right?: BranchFileChange
+}
+
+export interface BranchComparison {
+    /** 两个分支共同的前缀消息数 */
+    commonCount: number
+    left: ChatMessage[]
+    right: ChatMessage[]
+    files: FileComparison[]
+}
+
+/**
+ * 还原分支的完整消息（分叉点之前的公共消息 + 分支消息）
+ * branchId 为 null 表示主线；当前所在分支的消息就是线程消息
+ */
+export function resolveBranchMessages(
+    threadMessages: ChatMessage[],
+    branches: Branch[],
+    activeBranchId: string | null,
+    branchId: string | null
+): ChatMessage[] {
+    if (branchId === activeBranchId) return threadMessages
+
+    const withFork = (base: ChatMessage[], branch: Branch) => {
+        const forkIndex = base.findIndex(m => m.id === branch.forkFromMessageId)
+        return forkIndex === -1 ? null : [...base.slice(0, forkIndex + 1), ...branch.messages]
+    }
+
+    const mainlineBranch = branches.find(b => b.id === MAINLINE_BRANCH_ID)
+    const mainline = activeBranchId === null
+        ? threadMessages
+        : (mainlineBranch && withFork(threadMessages, mainlineBranch)) || threadMessages
+    if (branchId === null) return mainline
+
+    const branch = branches.find(b => b.id === branchId)
+    if (!branch) return []
+    return withFork(mainline, branch) || withFork(threadMessages, branch) || branch.messages
+}
+
+function toolCallChanges(toolCall: ToolCall, workspacePath: string | null): Array<{ path: string; before?: string | null; after: string | null }> {
+    if (toolCall.status !== 'success') return []
+    const args = toolCall.arguments as Record<string, unknown> & { _meta?: Record<string, unknown> }
+    const meta = args._meta
+
+    // 多文件补丁的完整内容在 fileChanges 中（_meta.files 只有路径和行数）
+    if (toolCall.fileChanges) {
+        return toolCall.fileChanges.map(file => ({
+            path: file.filePath,
+            before: file.oldContent,
+            after: file.newContent,
+        }))
+    }
+    if (typeof meta?.filePath === 'string' && 'newContent' in meta) {
+        return [{
+            path: meta.filePath,
+            before: meta.isNewFile ? null : (meta.oldContent as string | null | undefined),
+            after: (meta.newContent as string | null) ?? null,
+        }]
+    }
+    if (toolCall.name === 'delete_file_or_folder' && typeof args.path === 'string') {
+        return [{ path: toFullPath(args.path, workspacePath), after: null }]
+    }
+    return []
+}
+
+/**
+ * 汇总消息中工具调用产生的文件变更（同一文件取首次修改前与最后修改后的内容）
+ * 修改前的内容优先取自本分支用户消息对应的检查点
+ */
+export function collectFileChanges(
+    messages: ChatMessage[],
+    checkpoints: MessageCheckpoint[],
+    workspacePath: string | null = null
+): BranchFileChange[] {
+    const changes = new Map<string, BranchFileChange>()
+    let checkpoint: MessageCheckpoint | undefined
+
+    for (const message of messages) {
+        if (message.role === 'user') {
+            checkpoint = checkpoints.find(cp => cp.messageId === message.id)
+            continue
+        }
+        if (message.role !== 'assistant') continue
+
+        for (const toolCall of message.toolCalls || []) {
+            for (const { path, before, after } of toolCallChanges(toolCall, workspacePath)) {
+                const existing = changes.get(path)
+                if (existing) {
+                    existing.after = after
+                    if (!existing.messageIds.includes(message.id)) existing.messageIds.push(message.id)
+                    continue
+                }
+                const snapshot = checkpoint?.fileSnapshots[path]
+                changes.set(path, {
+                    path,
+                    before: snapshot ? snapshot.content : before ?? null,
+                    after,
+                    messageIds: [message.id],
+                    checkpointIds: snapshot && checkpoint ? [checkpoint.id] : [],
+                })
+            }
+        }
+    }
+
+    return [...changes.values()]
+}
+
+/**
+ * 对比两个分支：去掉共同前缀后的消息，以及各自的文件变更
+ */
+export function compareBranches(
+    left: ChatMessage[],
+    right: ChatMessage[],
+    checkpoints: MessageCheckpoint[],
+    workspacePath: string | null = null
+): BranchComparison {
+    let commonCount = 0
+    while (commonCount < left.length && commonCount < right.length && left[commonCount].id === right[commonCount].id) {
+        commonCount++
+    }
+
+    const leftTail = left.slice(commonCount)
+    const rightTail = right.slice(commonCount)
+    const leftFiles = new Map(collectFileChanges(leftTail, checkpoints, workspacePath).map(c => [c.path, c]))
+    const rightFiles = new Map(collectFileChanges(rightTail, checkpoints, workspacePath).map(c => [c.path, c]))
+
+    const paths = [...new Set([...leftFiles.keys(), ...rightFiles.keys()])].sort()
+    const files = paths.map((path): FileComparison => {
+        const l = leftFiles.get(path)
+        const r = rightFiles.get(path)
+        const status: FileCompareStatus = !r ? 'left' : !l ? 'right' : l.after === r.after ? 'same' : 'different'
+        return { path, status, left: l, right: r }
+    })
+
+    return { commonCount, left: leftTail, right: rightTail, files }
+}
+
+/**
+ * 挑选消息：选中的助手消息自动带上其工具结果，保持消息顺序，
+ * 并为消息和工具调用生成新 ID，避免与目标分支中的原消息冲突
+ */
+export function prepareCherryPick(messages: ChatMessage[], selectedIds: string[], generateId: () => string = () => crypto.randomUUID()): ChatMessage[] {
+    const selected = new Set(selectedIds)
+    const toolCallIds = new Set(
+        messages
+            .filter((m): m is AssistantMessage => m.role === 'assistant' && selected.has(m.id))
+            .flatMap(m => (m.toolCalls || []).map(tc => tc.id))
+    )
+
+    const picked = messages.filter(m =>
+        (selected.has(m.id) && (m.role === 'user' || m.role === 'assistant')) ||
+        (m.role === 'tool' && toolCallIds.has(m.toolCallId))
+    )
+
+    const idMap = new Map([...toolCallIds].map(id => [id, generateId()]))
+    const remap = (toolCall: ToolCall): ToolCall => ({ ...toolCall, id: idMap.get(toolCall.id) || toolCall.id })
+
+    return picked.map((message): ChatMessage => {
+        if (message.role === 'assistant') {
+            return {
+                ...message,
+                id: generateId(),
+                isStreaming: false,
+                toolCalls: message.toolCalls?.map(remap),
+                parts: message.parts.map(part => part.type === 'tool_call' ? { ...part, toolCall: remap(part.toolCall) } : part),
+            }
+        }
+        if (message.role === 'tool') {
+            return { ...(message as ToolResultMessage), id: generateId(), toolCallId: idMap.get(message.toolCallId) || message.toolCallId }
+        }
+        return { ...message, id: generateId() }
+    })
+}
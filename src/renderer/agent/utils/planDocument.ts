@@ -0,0 +1,116 @@
+/**
+ * 计划文档工具函数
+ * 步骤依赖解析、Markdown 渲染与恢复执行时的上下文提示
+ */
+
+import type { Plan, PlanItem, PlanItemStatus } from '../types'
+
+const STATUS_MARKS: Record<PlanItemStatus, { checkbox: string; icon: string }> = {
+    pending: { checkbox: '[ ]', icon: '⬜' },
+    in_progress: { checkbox: '[/]', icon: '🔄' },
+    completed: { checkbox: '[x]', icon: '✅' },
+    failed: { checkbox: '[!]', icon: '❌' },
+    skipped: { checkbox: '[-]', icon: '⏭️' },
+}
+
+/** 已完成或跳过的步骤视为满足依赖 */
+export function isPlanStepDone(item: PlanItem): boolean {
+    return item.status === 'completed' || item.status === 'skipped'
+}
+
+/** 依赖全部满足、尚未完成的步骤 */
+export function getRunnableSteps(plan: Plan): PlanItem[] {
+    const done = new Set(plan.items.filter(isPlanStepDone).map(item => item.id))
+    return plan.items.filter(item =>
+        (item.status === 'pending' || item.status === 'in_progress') &&
+        (item.dependsOn || []).every(id => done.has(id) || !plan.items.some(other => other.id === id))
+    )
+}
+
+/** 下一个要执行的步骤：优先继续进行中的步骤，否则取第一个可执行的待办步骤 */
+export function getNextPlanStep(plan: Plan): PlanItem | null {
+    const runnable = getRunnableSteps(plan)
+    return runnable.find(item => item.status === 'in_progress') || runnable[0] || null
+}
+
+export function getPlanProgress(plan: Plan): { done: number; total: number } {
+    return { done: plan.items.filter(isPlanStepDone).length, total: plan.items.length }
+}
+
+/** .adnify/plans 下的文件名（不含扩展名），标题 + ID 前缀避免重名 */
+export function getPlanFileBase(plan: Plan): string {
+    const slug = (plan.title || 'plan').replace(/[^a-zA-Z0-9\u4e00-\u9fa5]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 30)
+    return `${slug || 'plan'}_${plan.id.slice(0, 8)}`
+}
+
+function formatStepRef(plan: Plan, id: string): string {
+    const index = plan.items.findIndex(item => item.id === id)
+    return index === -1 ? id : `${index + 1}. ${plan.items[index].title}`
+}
+
+/** 渲染为 Markdown，步骤列表格式与 PlanPreview 的解析保持一致 */
+export function renderPlanMarkdown(plan: Plan): string {
+    const { done, total } = getPlanProgress(plan)
+    let content = `# 📋 ${plan.title || 'Execution Plan'}\n\n`
+    content += `> Status: ${plan.status} · Progress: ${done}/${total} · Updated: ${new Date(plan.updatedAt).toLocaleString()}\n\n## Steps\n`
+
+    for (const item of plan.items) {
+        const { checkbox, icon } = STATUS_MARKS[item.status]
+        content += `- ${checkbox} ${icon} [id: ${item.id}] ${item.title}\n`
+        if (item.description) content += `  > ${item.description}\n`
+    }
+
+    const detailed = plan.items.filter(item =>
+        item.dependsOn?.length || item.acceptanceCriteria?.length || item.files?.length || item.checkpointIds?.length
+    )
+    if (detailed.length > 0) {
+        content += '\n## Details\n'
+        for (const item of detailed) {
+            content += `\n### ${plan.items.indexOf(item) + 1}. ${item.title}\n\n`
+            if (item.dependsOn?.length) content += `- Depends on: ${item.dependsOn.map(id => formatStepRef(plan, id)).join(', ')}\n`
+            if (item.acceptanceCriteria?.length) {
+                content += '- Acceptance criteria:\n'
+                content += item.acceptanceCriteria.map(criterion => `  - ${criterion}\n`).join('')
+            }
+            if (item.files?.length) content += `- Files: ${item.files.map(file => `\`${file}\``).join(', ')}\n`
+            if (item.checkpointIds?.length) content += `- Checkpoints: ${item.checkpointIds.map(id => `\`${id.slice(0, 8)}\``).join(', ')}\n`
+        }
+    }
+
+    return content + `\n---\n*Plan ID: ${plan.id}*\n`
+}
+
+/**
+ * 在新会话中恢复计划时发送的消息：进度概览 + 下一步的说明、验收标准和依赖
+ */
+export function buildResumePrompt(plan: Plan, step: PlanItem, planFile: string, language: 'zh' | 'en' = 'en'): string {
+    const t = (zh: string, en: string) => language === 'zh' ? zh : en
+    const title = plan.title || t('执行计划', 'Execution Plan')
+    const index = plan.items.findIndex(item => item.id === step.id)
+
+    const lines = [
+        t(`继续执行计划「${title}」（${planFile}）。`, `Resume the plan "${title}" (${planFile}).`),
+        '',
+        t('## 进度', '## Progress'),
+        ...plan.items.map((item, i) => {
+            const files = item.files?.length ? t(`（文件：${item.files.join(', ')}）`, ` (files: ${item.files.join(', ')})`) : ''
+            return `- ${STATUS_MARKS[item.status].checkbox} ${i + 1}. ${item.title}${files}`
+        }),
+        '',
+        t(`## 下一步：${index + 1}. ${step.title}（id: ${step.id}）`, `## Next step: ${index + 1}. ${step.title} (id: ${step.id})`),
+    ]
+
+    if (step.description) lines.push(step.description)
+    if (step.dependsOn?.length) {
+        lines.push('', t('依赖步骤：', 'Depends on: ') + step.dependsOn.map(id => formatStepRef(plan, id)).join(', '))
+    }
+    if (step.acceptanceCriteria?.length) {
+        lines.push('', t('验收标准：', 'Acceptance criteria:'), ...step.acceptanceCriteria.map(criterion => `- ${criterion}`))
+    }
+
+    lines.push('', t(
+        '请先用 update_plan 将该步骤标记为 in_progress，完成并逐条验证验收标准后再标记为 completed。',
+        'First mark this step in_progress with update_plan, then mark it completed once every acceptance criterion is verified.'
+    ))
+    return lines.join('\n')
+}
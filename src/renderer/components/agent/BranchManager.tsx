@@ -1,13 +1,20 @@
 /**
  * 对话分支管理组件
- * 显示分支列表、切换分支、创建分支等操作
+ * 显示分支列表、切换分支、创建分支、对比分支并挑选消息 / 文件变更等操作
  */
 
-import React, { useState, useCallback } from 'react'
-import { GitBranch, Trash2, Edit2, Check, X, RotateCcw, ChevronDown } from 'lucide-react'
-import { useAgentStore, selectBranches, selectActiveBranch, selectIsOnBranch } from '@/renderer/agent'
-import { Button } from '../ui'
+import { api } from '@/renderer/services/electronAPI'
+import React, { useState, useCallback, useMemo } from 'react'
+import { GitBranch, Trash2, Edit2, Check, X, RotateCcw, ChevronDown, GitCompare, ArrowLeft, Cherry, FileDiff, Wrench } from 'lucide-react'
+import { useAgentStore, selectBranches, selectActiveBranch, selectIsOnBranch, getMessageText } from '@/renderer/agent'
+import type { ChatMessage } from '@/renderer/agent'
+import { useStore } from '@store'
+import { toRelativePath } from '@utils/pathUtils'
+import { calculateLineChanges } from '@/shared/utils/fileEdits'
+import { toast } from '@/renderer/components/common/ToastProvider'
+import { Button, Select } from '../ui'
 import type { Branch } from '@/renderer/agent/store/slices/branchSlice'
+import { MAINLINE_BRANCH_ID, compareBranches, type BranchFileChange, type FileComparison } from '@/renderer/agent/utils/branchCompare'
 
 interface BranchManagerProps {
   language?: 'zh' | 'en'
@@ -26,6 +33,7 @@ export default function BranchManager({ language = 'en', onClose }: BranchManage
 
   const [editingId, setEditingId] = useState<string | null>(null)
   const [editName, setEditName] = useState('')
+  const [comparing, setComparing] = useState(false)
 
   const handleStartEdit = useCallback((branch: Branch) => {
     setEditingId(branch.id)
@@ -70,6 +78,10 @@ export default function BranchManager({ language = 'en', onClose }: BranchManage
     })
   }
 
+  if (comparing) {
+    return <BranchCompareView language={language} onBack={() => setComparing(false)} />
+  }
+
   return (
     <div className="p-4 space-y-4">
       {/* Header */}
@@ -80,11 +92,25 @@ export default function BranchManager({ language = 'en', onClose }: BranchManage
             {language === 'zh' ? '对话分支' : 'Conversation Branches'}
           </h3>
         </div>
-        {onClose && (
-          <Button variant="ghost" size="icon" onClick={onClose} className="h-6 w-6">
-            <X className="w-4 h-4" />
-          </Button>
-        )}
+        <div className="flex items-center gap-1">
+          {branches.some(b => b.id !== MAINLINE_BRANCH_ID) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setComparing(true)}
+              className="h-6 px-2 text-xs gap-1"
+              title={language === 'zh' ? '对比分支并挑选消息或文件变更' : 'Compare branches and cherry-pick messages or file changes'}
+            >
+              <GitCompare className="w-3.5 h-3.5" />
+              {language === 'zh' ? '对比' : 'Compare'}
+            </Button>
+          )}
+          {onClose && (
+            <Button variant="ghost" size="icon" onClick={onClose} className="h-6 w-6">
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Mainline */}
@@ -228,6 +254,244 @@ export default function BranchManager({ language = 'en', onClose }: BranchManage
   )
 }
 
+// 分支对比中的主线选项值（Select 只接受字符串）
+const MAIN_OPTION = '__main__'
+
+const toBranchId = (value: string) => value === MAIN_OPTION ? null : value
+
+function formatLineChanges(change: BranchFileChange): string {
+  const { added, removed } = calculateLineChanges(change.before || '', change.after || '')
+  return change.after === null ? `deleted` : `+${added} -${removed}`
+}
+
+/** 对比列中的单条消息 */
+function CompareMessage({
+  message,
+  selectable,
+  selected,
+  onToggle,
+  language,
+}: {
+  message: ChatMessage
+  selectable: boolean
+  selected: boolean
+  onToggle: () => void
+  language: 'zh' | 'en'
+}) {
+  if (message.role !== 'user' && message.role !== 'assistant') return null
+
+  const text = message.role === 'user' ? getMessageText(message.content) : message.content
+  const toolCalls = message.role === 'assistant' ? message.toolCalls || [] : []
+
+  return (
+    <label
+      className={`block p-2 rounded-lg border text-xs transition-colors ${
+        selected ? 'border-accent/40 bg-accent/10' : 'border-white/5 bg-surface/30'
+      } ${selectable ? 'cursor-pointer hover:border-white/10' : ''}`}
+    >
+      <div className="flex items-start gap-2">
+        {selectable && (
+          <input type="checkbox" checked={selected} onChange={onToggle} className="mt-0.5 accent-[rgb(var(--accent))]" />
+        )}
+        <div className="flex-1 min-w-0">
+          <div className="text-[10px] uppercase tracking-wide text-text-muted mb-0.5">
+            {message.role === 'user' ? (language === 'zh' ? '用户' : 'User') : (language === 'zh' ? '助手' : 'Assistant')}
+          </div>
+          {text && <p className="text-text-secondary line-clamp-3 whitespace-pre-wrap break-words">{text}</p>}
+          {toolCalls.length > 0 && (
+            <div className="mt-1 flex flex-wrap gap-1">
+              {toolCalls.map(tc => (
+                <span
+                  key={tc.id}
+                  className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-white/5 text-[10px] ${
+                    tc.status === 'error' ? 'text-red-400' : 'text-text-muted'
+                  }`}
+                >
+                  <Wrench className="w-2.5 h-2.5" />
+                  {tc.name}
+                  {typeof tc.arguments?.path === 'string' && <span className="truncate max-w-[120px]">{tc.arguments.path}</span>}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </label>
+  )
+}
+
+/**
+ * 分支对比视图
+ * 并排显示两个分支分叉后的消息、工具调用和文件变更，可将另一分支的内容挑选到当前分支
+ */
+export function BranchCompareView({ language = 'en', onBack }: { language?: 'zh' | 'en'; onBack: () => void }) {
+  const branches = useAgentStore(selectBranches)
+  const activeBranch = useAgentStore(selectActiveBranch)
+  const threadMessages = useAgentStore(state => state.currentThreadId ? state.threads[state.currentThreadId]?.messages : undefined)
+  const checkpoints = useAgentStore(state => state.messageCheckpoints)
+  const getBranchMessages = useAgentStore(state => state.getBranchMessages)
+  const cherryPickMessages = useAgentStore(state => state.cherryPickMessages)
+  const cherryPickFileChange = useAgentStore(state => state.cherryPickFileChange)
+  const { workspacePath, openFile, setActiveFile, setActiveDiff } = useStore()
+
+  const userBranches = branches.filter(b => b.id !== MAINLINE_BRANCH_ID)
+  const currentValue = activeBranch?.id ?? MAIN_OPTION
+  const [leftValue, setLeftValue] = useState(currentValue)
+  const [rightValue, setRightValue] = useState(
+    () => [MAIN_OPTION, ...userBranches.map(b => b.id)].find(v => v !== currentValue) ?? MAIN_OPTION
+  )
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+
+  const options = [
+    { value: MAIN_OPTION, label: language === 'zh' ? '主线' : 'Main' },
+    ...userBranches.map(b => ({ value: b.id, label: b.name })),
+  ]
+  const nameOf = (value: string) => options.find(o => o.value === value)?.label || value
+
+  const comparison = useMemo(
+    () => compareBranches(getBranchMessages(toBranchId(leftValue)), getBranchMessages(toBranchId(rightValue)), checkpoints, workspacePath),
+    // threadMessages / branches 变化时重新计算
+    [leftValue, rightValue, threadMessages, branches, checkpoints, workspacePath, getBranchMessages]
+  )
+
+  // 只能挑选到当前所在的分支
+  const sourceValue = leftValue === currentValue ? rightValue : rightValue === currentValue ? leftValue : null
+  const sourceMessages = sourceValue === rightValue ? comparison.right : comparison.left
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev)
+    if (next.has(id)) next.delete(id)
+    else next.add(id)
+    return next
+  })
+
+  const handleCherryPickMessages = () => {
+    if (sourceValue === null) return
+    const count = cherryPickMessages(toBranchId(sourceValue), [...selected])
+    setSelected(new Set())
+    toast.success(language === 'zh' ? `已挑选 ${count} 条消息到当前分支` : `Cherry-picked ${count} message(s) into the current branch`)
+  }
+
+  const handleApplyFile = async (change: BranchFileChange) => {
+    const ok = await cherryPickFileChange(change)
+    const name = toRelativePath(change.path, workspacePath)
+    if (ok) toast.success(language === 'zh' ? `已应用 ${name}，可在待确认更改中撤销` : `Applied ${name}. Undo it from pending changes.`)
+    else toast.error(language === 'zh' ? `应用失败: ${name}` : `Failed to apply ${name}`)
+  }
+
+  const handleShowDiff = async (file: FileComparison) => {
+    const [original, modified] = file.left && file.right
+      ? [file.left.after, file.right.after]
+      : [(file.left || file.right)!.before, (file.left || file.right)!.after]
+    const current = await api.file.read(file.path)
+    if (current !== null) {
+      openFile(file.path, current)
+      setActiveFile(file.path)
+    }
+    setActiveDiff({ original: original || '', modified: modified || '', filePath: file.path })
+  }
+
+  const statusLabel: Record<FileComparison['status'], string> = language === 'zh'
+    ? { left: '仅左侧', right: '仅右侧', same: '相同', different: '不同' }
+    : { left: 'Left only', right: 'Right only', same: 'Same', different: 'Differs' }
+
+  const renderColumn = (messages: ChatMessage[], selectable: boolean) => (
+    <div className="space-y-1.5 min-w-0">
+      {messages.filter(m => m.role === 'user' || m.role === 'assistant').length === 0 ? (
+        <p className="text-xs text-text-muted text-center py-4">{language === 'zh' ? '分叉后没有消息' : 'No messages after the fork'}</p>
+      ) : messages.map(m => (
+        <CompareMessage
+          key={m.id}
+          message={m}
+          selectable={selectable}
+          selected={selected.has(m.id)}
+          onToggle={() => toggle(m.id)}
+          language={language}
+        />
+      ))}
+    </div>
+  )
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="icon" onClick={onBack} className="h-6 w-6">
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <GitCompare className="w-4 h-4 text-accent" />
+        <h3 className="text-sm font-medium text-text-primary">
+          {language === 'zh' ? '对比分支' : 'Compare Branches'}
+        </h3>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <Select options={options} value={leftValue} onChange={v => { setLeftValue(v); setSelected(new Set()) }} />
+        <Select options={options} value={rightValue} onChange={v => { setRightValue(v); setSelected(new Set()) }} />
+      </div>
+
+      <p className="text-xs text-text-muted">
+        {language === 'zh'
+          ? `分叉前有 ${comparison.commonCount} 条共同消息。${sourceValue === null ? '切换到其中一个分支后才能挑选内容。' : `勾选「${nameOf(sourceValue)}」中的消息以挑选到当前分支。`}`
+          : `${comparison.commonCount} shared message(s) before the fork. ${sourceValue === null ? 'Switch to one of these branches to cherry-pick into it.' : `Select messages from "${nameOf(sourceValue)}" to cherry-pick them into the current branch.`}`}
+      </p>
+
+      <div className="grid grid-cols-2 gap-3">
+        {renderColumn(comparison.left, sourceValue !== null && sourceValue === leftValue && leftValue !== rightValue)}
+        {renderColumn(comparison.right, sourceValue !== null && sourceValue === rightValue && leftValue !== rightValue)}
+      </div>
+
+      {selected.size > 0 && (
+        <div className="flex justify-end">
+          <Button variant="primary" size="sm" onClick={handleCherryPickMessages} className="h-7 text-xs gap-1.5">
+            <Cherry className="w-3.5 h-3.5" />
+            {language === 'zh'
+              ? `挑选 ${sourceMessages.filter(m => selected.has(m.id)).length} 条消息到当前分支`
+              : `Cherry-pick ${sourceMessages.filter(m => selected.has(m.id)).length} message(s) into the current branch`}
+          </Button>
+        </div>
+      )}
+
+      <div className="pt-2 border-t border-white/5 space-y-1.5">
+        <p className="text-xs font-medium text-text-secondary">
+          {language === 'zh' ? '文件变更' : 'File changes'}
+        </p>
+        {comparison.files.length === 0 ? (
+          <p className="text-xs text-text-muted">{language === 'zh' ? '两个分支分叉后都没有修改文件' : 'Neither branch changed files after the fork'}</p>
+        ) : comparison.files.map(file => {
+          const source = sourceValue === null ? undefined : sourceValue === leftValue ? file.left : file.right
+          return (
+            <div key={file.path} className="flex items-center gap-2 px-2 py-1.5 rounded-lg bg-surface/30 border border-white/5 text-xs">
+              <span className="flex-1 min-w-0 truncate font-mono text-text-secondary" title={file.path}>
+                {toRelativePath(file.path, workspacePath)}
+              </span>
+              <span className="w-20 text-right text-text-muted">{file.left ? formatLineChanges(file.left) : '—'}</span>
+              <span className="w-20 text-right text-text-muted">{file.right ? formatLineChanges(file.right) : '—'}</span>
+              <span className={`w-16 text-center px-1.5 py-0.5 rounded text-[10px] ${
+                file.status === 'different' ? 'bg-orange-500/10 text-orange-400' : 'bg-white/5 text-text-muted'
+              }`}>
+                {statusLabel[file.status]}
+              </span>
+              <Button variant="ghost" size="icon" onClick={() => handleShowDiff(file)} className="h-6 w-6" title={language === 'zh' ? '查看差异' : 'Show diff'}>
+                <FileDiff className="w-3.5 h-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => source && handleApplyFile(source)}
+                disabled={!source || file.status === 'same'}
+                className="h-6 w-6"
+                title={language === 'zh' ? '将该分支的结果应用到工作区' : 'Apply this branch\'s result to the workspace'}
+              >
+                <Cherry className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
 /**
  * 分支选择器 - 显示在聊天面板顶部左侧
  * 始终显示当前分支状态，点击展开分支管理
@@ -0,0 +1,45 @@
+/**
+ * 预算确认条
+ * Agent 运行超出硬预算时显示在输入框上方，由用户决定继续或停止
+ */
+
+import { Wallet } from 'lucide-react'
+import { useCostStore, costService, formatBudgetStatus } from '@/renderer/services/costService'
+import { Button } from '../ui'
+
+interface BudgetBarProps {
+  language?: 'zh' | 'en'
+}
+
+export default function BudgetBar({ language = 'en' }: BudgetBarProps) {
+  const pendingBudget = useCostStore(state => state.pendingBudget)
+
+  if (!pendingBudget) return null
+
+  return (
+    <div className="flex items-center justify-between gap-2 px-3 py-1.5 mb-2 rounded-lg bg-orange-500/10 border border-orange-500/30 text-xs">
+      <div className="flex items-center gap-2 min-w-0 text-orange-300">
+        <Wallet className="w-3.5 h-3.5 shrink-0" />
+        <span className="truncate">{formatBudgetStatus(pendingBudget, language)}</span>
+      </div>
+      <div className="flex items-center gap-1 shrink-0">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => costService.resolveBudgetApproval(false)}
+          className="h-6 px-2 text-xs"
+        >
+          {language === 'zh' ? '停止' : 'Stop'}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => costService.resolveBudgetApproval(true)}
+          className="h-6 px-2 text-xs bg-orange-500/20 hover:bg-orange-500/30 text-orange-300"
+        >
+          {language === 'zh' ? '继续运行' : 'Continue'}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -13,7 +13,7 @@ import {
 import { motion, AnimatePresence } from 'framer-motion'
 import { Logo } from '@/renderer/components/common/Logo'
 import { useStore, useModeStore } from '@/renderer/store'
-import { useAgent } from '@/renderer/hooks/useAgent'
+import { useAgent, SendMessageOptions } from '@/renderer/hooks/useAgent'
 import { useAgentStore } from '@/renderer/agent'
 import { t } from '@/renderer/i18n'
 import { toFullPath } from '@/renderer/utils/pathUtils'
@@ -40,6 +40,8 @@ import { Button } from '../ui'
 import { useToast } from '@/renderer/components/common/ToastProvider'
 import { BranchSelector } from './BranchManager'
 import BranchManager from './BranchManager'
+import WorktreeBar, { WorktreeToggle } from './WorktreePanel'
+import BudgetBar from './BudgetBar'
 
 export default function ChatPanel() {
   const {
@@ -496,14 +498,16 @@ export default function ChatPanel() {
     }
 
     // 检查是否是斜杠命令
+    let options: SendMessageOptions = {}
     if (input.startsWith('/')) {
-      const result = slashCommandService.parse(input, {
+      const result = await slashCommandService.parse(input, {
         activeFilePath: activeFilePath || undefined,
         selectedCode: selectedCode || undefined,
         workspacePath: workspacePath || undefined,
       })
       if (result) {
         userMessage = result.prompt
+        options = { mode: result.mode, model: result.model, allowedTools: result.allowedTools }
         if (result.mode) {
           setChatMode(result.mode)
         }
@@ -512,7 +516,7 @@ export default function ChatPanel() {
 
     setInput('')
     setImages([])
-    await sendMessage(userMessage)
+    await sendMessage(userMessage, options)
   }, [input, images, isStreaming, sendMessage, checkContextLength, activeFilePath, selectedCode, workspacePath, setChatMode])
 
   // 编辑消息
@@ -559,8 +563,18 @@ export default function ChatPanel() {
   }, [activeFilePath, contextItems, addContextItem])
 
   // 处理斜杠命令选择
-  const handleSlashCommand = useCallback((cmd: SlashCommand) => {
-    const result = slashCommandService.parse('/' + cmd.name, {
+  const handleSlashCommand = useCallback(async (cmd: SlashCommand) => {
+    setShowSlashCommand(false)
+    setSlashCommandQuery('')
+
+    // 项目命令保留命令名，参数和模板在发送时展开
+    if (cmd.source === 'project') {
+      setInput(`/${cmd.name} `)
+      textareaRef.current?.focus()
+      return
+    }
+
+    const result = await slashCommandService.parse('/' + cmd.name, {
       activeFilePath: activeFilePath || undefined,
       selectedCode: selectedCode || undefined,
       workspacePath: workspacePath || undefined,
@@ -568,11 +582,9 @@ export default function ChatPanel() {
     if (result) {
       setInput(result.prompt)
       if (result.mode) {
-        setChatMode(result.mode as any)
+        setChatMode(result.mode)
       }
     }
-    setShowSlashCommand(false)
-    setSlashCommandQuery('')
     textareaRef.current?.focus()
   }, [activeFilePath, selectedCode, workspacePath, setChatMode])
 
@@ -590,11 +602,17 @@ export default function ChatPanel() {
       }
     }
 
+    if (keybindingService.matches(e, 'chat.stop')) {
+      e.preventDefault()
+      abort()
+      return
+    }
+
     if (keybindingService.matches(e, 'chat.send')) {
       e.preventDefault()
       handleSubmit()
     }
-  }, [showFileMention, handleSubmit])
+  }, [showFileMention, handleSubmit, abort])
 
   const hasApiKey = !!llmConfig.apiKey
 
@@ -740,6 +758,7 @@ export default function ChatPanel() {
           </div>
 
           <div className="flex items-center gap-1">
+            <WorktreeToggle language={language} />
             <Button
               variant="ghost"
               size="icon"
@@ -1004,6 +1023,12 @@ export default function ChatPanel() {
           {/* Bottom Input Area - Unified Tray */}
           <div className="shrink-0 z-20 flex flex-col">
             <div className="mx-4 mb-4 flex flex-col">
+              {/* Worktree 隔离运行 */}
+              <WorktreeBar language={language} />
+
+              {/* 超出硬预算时的确认 */}
+              <BudgetBar language={language} />
+
               {/* Status Bar */}
               <AgentStatusBar
                 pendingChanges={pendingChanges}
@@ -12,6 +12,7 @@ import { Check, X, ChevronDown, ExternalLink, Loader2, FileCode } from 'lucide-r
 import { motion, AnimatePresence } from 'framer-motion'
 import { ToolCall } from '@renderer/agent/types'
 import { streamingEditService } from '@renderer/agent/services/streamingEditService'
+import { getPatchPaths } from '@shared/utils/patch'
 import InlineDiffPreview, { getDiffStats } from './InlineDiffPreview'
 
 interface FileChangeCardProps {
@@ -33,8 +34,12 @@ export default function FileChangeCard({
 
     const args = toolCall.arguments as Record<string, unknown>
     const meta = args._meta as Record<string, unknown> | undefined
-    const filePath = (args.path || meta?.filePath) as string || 'unknown'
-    const fileName = filePath.split(/[\\/]/).pop() || filePath
+    // apply_patch 一次修改多个文件，标题显示补丁涉及的文件
+    const patchPaths = useMemo(() => typeof args.patch === 'string' ? getPatchPaths(args.patch) : [], [args.patch])
+    const filePath = (args.path || meta?.filePath || patchPaths[0]) as string || 'unknown'
+    const fileName = patchPaths.length > 1
+        ? patchPaths.map(p => p.split(/[\\/]/).pop()).join(', ')
+        : filePath.split(/[\\/]/).pop() || filePath
 
     const isStreaming = args._streaming === true
     const isRunning = toolCall.status === 'running' || toolCall.status === 'pending'
@@ -96,7 +101,7 @@ export default function FileChangeCard({
         }
         if (meta?.newContent) return meta.newContent as string
         // Fallback: 从 args 中获取
-        return (args.content || args.code || args.new_string || args.replacement || args.source) as string || ''
+        return (args.content || args.code || args.new_string || args.replacement || args.source || args.patch) as string || ''
     }, [args, meta, streamingContent, isRunning, isStreaming])
 
     // 计算行数变化 - 优先使用工具返回的准确统计
@@ -224,7 +229,7 @@ export default function FileChangeCard({
 
                 {/* Actions */}
                 <div className="flex items-center gap-2">
-                    {isSuccess && onOpenInEditor && (
+                    {isSuccess && onOpenInEditor && patchPaths.length === 0 && (
                         <button
                             onClick={(e) => {
                                 e.stopPropagation()
@@ -1,10 +1,13 @@
-import { Play, RotateCcw, CheckCircle2, Circle, Clock, AlertCircle } from 'lucide-react'
+import { Play, RotateCcw, CheckCircle2, Circle, Clock, AlertCircle, SkipForward, PlayCircle } from 'lucide-react'
 import ReactMarkdown from 'react-markdown'
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism'
 import { Button } from '../ui'
 import { useAgent } from '@/renderer/hooks/useAgent'
 import { useStore } from '@/renderer/store'
+import { usePlanDocumentStore, planDocumentService } from '@/renderer/agent/services/planDocumentService'
+import { getNextPlanStep } from '@/renderer/agent/utils/planDocument'
+import { toast } from '@/renderer/components/common/ToastProvider'
 import React from 'react'
 
 interface PlanPreviewProps {
@@ -29,9 +32,18 @@ function extractText(node: any): string {
     return ''
 }
 
-export function PlanPreview({ content, fontSize = 14 }: PlanPreviewProps) {
-    const { sendMessage } = useAgent()
+export function PlanPreview({ content, fontSize = 14, filePath }: PlanPreviewProps) {
+    const { sendMessage, resumePlan } = useAgent()
     const { language } = useStore()
+    // 订阅计划列表，保证文档加载后能匹配到对应计划
+    const plan = usePlanDocumentStore(() => planDocumentService.findByMarkdownPath(filePath))
+    const nextStep = plan ? getNextPlanStep(plan) : null
+
+    const handleResume = async () => {
+        if (!plan) return
+        const result = await resumePlan(plan.id)
+        if (!result.success) toast.warning(result.error || (language === 'zh' ? '无法恢复计划' : 'Cannot resume plan'))
+    }
 
     const handleExecuteStep = (title: string) => {
         const prompt = language === 'zh'
@@ -46,6 +58,20 @@ export function PlanPreview({ content, fontSize = 14 }: PlanPreviewProps) {
             style={{ fontSize: `${fontSize}px` }}
         >
             <div className="max-w-3xl mx-auto prose prose-invert">
+                {nextStep && (
+                    <div className="not-prose flex justify-end mb-2">
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={handleResume}
+                            className="h-7 px-2 text-xs gap-1.5 text-accent hover:bg-accent/10"
+                            title={nextStep.title}
+                        >
+                            <PlayCircle className="w-3.5 h-3.5" />
+                            {language === 'zh' ? '在新会话中继续' : 'Resume in new thread'}
+                        </Button>
+                    </div>
+                )}
                 <ReactMarkdown
                     components={{
                         code({ className, children, ...props }) {
@@ -73,13 +99,14 @@ export function PlanPreview({ content, fontSize = 14 }: PlanPreviewProps) {
                             const text = extractText(children).trim()
                             // 更加宽松的正则：匹配 [ ] 或 [x] 等，后面跟着可选的图标，再跟着可选的 [id: xxx]，最后是标题
                             // 格式示例: [ ] ⬜ [id: 91ceb9a5] 优化HTML结构
-                            const match = /^\[( |x|\/|!)\]\s*(?:✅|🔄|❌|⬜)?\s*(?:\[id: ([a-f0-9]+)\])?\s*(.*)/i.exec(text)
+                            const match = /^\[( |x|\/|!|-)\]\s*(?:✅|🔄|❌|⬜|⏭️)?\s*(?:\[id: ([a-f0-9]+)\])?\s*(.*)/i.exec(text)
 
                             if (match) {
                                 const [, checkbox, , title] = match
                                 const isCompleted = checkbox.toLowerCase() === 'x'
                                 const isInProgress = checkbox === '/'
                                 const isFailed = checkbox === '!'
+                                const isSkipped = checkbox === '-'
 
                                 return (
                                     <li className="flex items-center gap-3 group py-1 list-none">
@@ -87,9 +114,10 @@ export function PlanPreview({ content, fontSize = 14 }: PlanPreviewProps) {
                                             {isCompleted ? <CheckCircle2 className="w-4 h-4 text-green-500" /> :
                                                 isInProgress ? <Clock className="w-4 h-4 text-blue-400 animate-spin-slow" /> :
                                                     isFailed ? <AlertCircle className="w-4 h-4 text-red-500" /> :
-                                                        <Circle className="w-4 h-4 text-text-muted" />}
+                                                        isSkipped ? <SkipForward className="w-4 h-4 text-text-muted" /> :
+                                                            <Circle className="w-4 h-4 text-text-muted" />}
                                         </span>
-                                        <span className={`flex-1 ${isCompleted ? 'text-text-muted line-through' : 'text-text-primary'}`}>
+                                        <span className={`flex-1 ${isCompleted || isSkipped ? 'text-text-muted line-through' : 'text-text-primary'}`}>
                                             {title}
                                         </span>
                                         {!isInProgress && (
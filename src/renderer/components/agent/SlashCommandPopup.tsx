@@ -3,8 +3,8 @@
  * 当用户输入 / 时显示可用命令
  */
 
-import { useMemo } from 'react'
-import { Command, Sparkles, FileCode, Wrench, Bug, Zap, MessageSquare, Code } from 'lucide-react'
+import { useMemo, useEffect, useState } from 'react'
+import { Command, Sparkles, FileCode, Wrench, Bug, Zap, MessageSquare, Code, FileText } from 'lucide-react'
 import { slashCommandService, SlashCommand } from '@/renderer/services/slashCommandService'
 import { InputPopup, InputPopupItem } from '@/renderer/components/common/InputPopup'
 import { useStore } from '@/renderer/store'
@@ -33,7 +33,10 @@ interface CommandItem extends InputPopupItem {
 
 export default function SlashCommandPopup({ query, position, onSelect, onClose }: SlashCommandPopupProps) {
     const { language } = useStore()
-    const matchingCommands = slashCommandService.findMatching(query)
+    // 项目命令热重载后刷新列表
+    const [version, setVersion] = useState(0)
+    useEffect(() => slashCommandService.subscribe(() => setVersion(v => v + 1)), [])
+    const matchingCommands = useMemo(() => slashCommandService.findMatching(query), [query, version])
 
     // 转换为 InputPopup 需要的格式
     const items: CommandItem[] = useMemo(() => {
@@ -41,7 +44,7 @@ export default function SlashCommandPopup({ query, position, onSelect, onClose }
             id: cmd.name,
             label: `/${cmd.name}`,
             description: cmd.description,
-            icon: COMMAND_ICONS[cmd.name] || Sparkles,
+            icon: cmd.source === 'project' ? FileText : COMMAND_ICONS[cmd.name] || Sparkles,
             command: cmd,
         }))
     }, [matchingCommands])
@@ -6,12 +6,12 @@
 import { useState, useMemo, useEffect, memo } from 'react'
 import {
   Check, X, ChevronDown, Loader2,
-  Terminal, Search, Copy, AlertTriangle
+  Terminal, Search, Copy, AlertTriangle, Bot
 } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useStore } from '@store'
 import { t } from '@renderer/i18n'
-import { ToolCall } from '@renderer/agent/types'
+import { ToolCall, SubAgentProgress } from '@renderer/agent/types'
 import { JsonHighlight } from '@utils/jsonHighlight'
 import { terminalManager } from '@/renderer/services/TerminalManager'
 import { RichContentRenderer } from './RichContentRenderer'
@@ -26,16 +26,30 @@ interface ToolCallCardProps {
 // 工具标签映射
 const TOOL_LABELS: Record<string, string> = {
   run_command: 'Run Command',
+  run_tests: 'Run Tests',
+  run_task: 'Run Task',
+  debug_launch: 'Debug',
+  debug_set_breakpoint: 'Breakpoint',
+  debug_continue: 'Debug Step',
+  debug_stack: 'Call Stack',
+  debug_variables: 'Variables',
+  debug_evaluate: 'Evaluate',
+  debug_stop: 'Stop Debug',
   search_files: 'Search Files',
   list_directory: 'List Directory',
   read_file: 'Read File',
   write_file: 'Write File',
   create_file: 'Create File',
   edit_file: 'Edit File',
+  apply_patch: 'Apply Patch',
   delete_file_or_folder: 'Delete',
   web_search: 'Web Search',
   read_url: 'Read URL',
   ask_user: 'Ask User',
+  spawn_subagent: 'Sub-agent',
+  get_callers: 'Callers',
+  get_callees: 'Callees',
+  get_import_graph: 'Import Graph',
 }
 
 const ToolCallCard = memo(function ToolCallCard({
@@ -83,6 +97,26 @@ const ToolCallCard = memo(function ToolCallCard({
       const cmd = args.command as string
       return cmd
     }
+    if (name === 'run_tests') {
+      const target = (args.test_name || args.path) as string
+      return target || 'all'
+    }
+    if (name === 'run_task') {
+      return args.name as string
+    }
+    if (name === 'debug_launch') {
+      return (args.configuration || args.program) as string
+    }
+    if (name === 'debug_set_breakpoint') {
+      const path = args.path as string
+      return path ? `${path.split(/[\\/]/).pop()}:${args.line}` : ''
+    }
+    if (name === 'debug_continue') {
+      return (args.action as string) || 'continue'
+    }
+    if (name === 'debug_evaluate') {
+      return args.expression as string
+    }
     if (name === 'read_file' || name === 'write_file' || name === 'create_file' || name === 'edit_file') {
       const path = args.path as string
       return path?.split(/[\\/]/).pop() || path
@@ -99,6 +133,16 @@ const ToolCallCard = memo(function ToolCallCard({
       const query = args.query as string
       return query ? `"${query}"` : ''
     }
+    if (name === 'spawn_subagent') {
+      return args.description as string
+    }
+    if (name === 'get_callers' || name === 'get_callees') {
+      return args.symbol as string
+    }
+    if (name === 'get_import_graph') {
+      const path = args.path as string
+      return path?.split(/[\\/]/).pop() || path
+    }
     return ''
   }, [toolCall.name, args])
 
@@ -206,7 +250,46 @@ const ToolCallCard = memo(function ToolCallCard({
       )
     }
 
-    // 3. 默认通用预览
+    // 3. 子代理进度
+    if (name === 'spawn_subagent') {
+      // 运行中进度在 _subagent，完成后由执行结果写入 _meta
+      const progress = (args._subagent || (args._meta as Record<string, unknown> | undefined)?.subagent) as SubAgentProgress | undefined
+      return (
+        <div className="bg-black/20 rounded-md border border-white/5 overflow-hidden shadow-inner">
+          <div className="px-3 py-2 border-b border-white/5 flex items-center justify-between gap-2 text-xs text-text-muted">
+            <span className="flex items-center gap-2 min-w-0">
+              <Bot className="w-3 h-3 shrink-0" />
+              <span className="truncate">{args.prompt as string}</span>
+            </span>
+            {progress && <span className="shrink-0 font-mono opacity-70">Turn {progress.turn}</span>}
+          </div>
+          {progress && progress.steps.length > 0 && (
+            <div className="max-h-40 overflow-y-auto custom-scrollbar px-3 py-2 space-y-1">
+              {progress.steps.map(step => (
+                <div key={step.id} className="flex items-center gap-2 text-[11px]">
+                  {step.status === 'running' ? (
+                    <Loader2 className="w-3 h-3 text-accent animate-spin shrink-0" />
+                  ) : step.status === 'success' ? (
+                    <Check className="w-3 h-3 text-green-400 shrink-0" />
+                  ) : (
+                    <X className="w-3 h-3 text-red-400 shrink-0" />
+                  )}
+                  <span className="text-text-secondary shrink-0">{TOOL_LABELS[step.name] || step.name}</span>
+                  {step.summary && <span className="text-text-muted truncate font-mono opacity-70">{step.summary}</span>}
+                </div>
+              ))}
+            </div>
+          )}
+          {toolCall.result && (
+            <div className="max-h-48 overflow-auto custom-scrollbar p-3 border-t border-white/5 text-xs text-text-secondary whitespace-pre-wrap">
+              {toolCall.result}
+            </div>
+          )}
+        </div>
+      )
+    }
+
+    // 4. 默认通用预览
     return (
       <div className="space-y-2">
         {/* 参数 */}
@@ -0,0 +1,245 @@
+/**
+ * Worktree 隔离运行组件
+ * 头部开关 + 输入框上方的状态条 + 任务完成后的审查 / 合并弹窗
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { GitFork, GitMerge, Trash2, FileDiff } from 'lucide-react'
+import { useStore } from '@/renderer/store'
+import { useAgentStore, selectCurrentWorktree, selectIsStreaming, worktreeService } from '@/renderer/agent'
+import type { WorktreeReview } from '@/renderer/agent/services/worktreeService'
+import { getMessageText, WorktreeInfo } from '@/renderer/agent/types'
+import { toast } from '@/renderer/components/common/ToastProvider'
+import { Button, Input, Modal } from '../ui'
+
+interface WorktreeProps {
+  language?: 'zh' | 'en'
+}
+
+/** 当前对话第一条用户消息，作为任务标题 */
+function getThreadTitle(): string {
+  const thread = useAgentStore.getState().getCurrentThread()
+  const firstUserMsg = thread?.messages.find(m => m.role === 'user')
+  return firstUserMsg && 'content' in firstUserMsg ? getMessageText(firstUserMsg.content).trim().slice(0, 72) : ''
+}
+
+/**
+ * 头部按钮：为当前对话开启隔离运行
+ */
+export function WorktreeToggle({ language = 'en' }: WorktreeProps) {
+  const workspacePath = useStore(state => state.workspacePath)
+  const worktree = useAgentStore(selectCurrentWorktree)
+  const isStreaming = useAgentStore(selectIsStreaming)
+  const [isCreating, setIsCreating] = useState(false)
+
+  const handleCreate = useCallback(async () => {
+    const threadId = useAgentStore.getState().currentThreadId
+    if (!workspacePath || !threadId) return
+
+    setIsCreating(true)
+    const result = await worktreeService.create(workspacePath, getThreadTitle() || 'agent task')
+    setIsCreating(false)
+
+    if (result.success && result.worktree) {
+      useAgentStore.getState().setThreadWorktree(threadId, result.worktree)
+      toast.success(language === 'zh' ? `已在分支 ${result.worktree.branch} 上隔离运行` : `Isolated run on ${result.worktree.branch}`)
+    } else {
+      toast.error(language === 'zh' ? `创建 worktree 失败: ${result.error}` : `Failed to create worktree: ${result.error}`)
+    }
+  }, [workspacePath, language])
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      onClick={handleCreate}
+      disabled={!workspacePath || !!worktree || isStreaming || isCreating}
+      title={worktree
+        ? (language === 'zh' ? `正在 ${worktree.branch} 上隔离运行` : `Running isolated on ${worktree.branch}`)
+        : (language === 'zh' ? '在独立的 git worktree 中运行' : 'Run in an isolated git worktree')}
+      className={`hover:bg-white/5 transition-colors ${worktree ? 'text-accent' : 'text-text-muted hover:text-text-primary'}`}
+    >
+      <GitFork className="w-4 h-4" />
+    </Button>
+  )
+}
+
+/**
+ * 状态条：显示隔离分支，任务结束后自动打开审查
+ */
+export default function WorktreeBar({ language = 'en' }: WorktreeProps) {
+  const worktree = useAgentStore(selectCurrentWorktree)
+  const isStreaming = useAgentStore(selectIsStreaming)
+  const [review, setReview] = useState<WorktreeReview | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const wasStreaming = useRef(isStreaming)
+
+  const openReview = useCallback(async (target: WorktreeInfo, silent = false) => {
+    setIsLoading(true)
+    try {
+      const result = await worktreeService.buildReview(target)
+      if (result.changes.length > 0) {
+        setReview(result)
+      } else if (!silent) {
+        toast.info(language === 'zh' ? 'worktree 中没有改动' : 'No changes in the worktree')
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }, [language])
+
+  useEffect(() => {
+    if (wasStreaming.current && !isStreaming && worktree) {
+      openReview(worktree, true)
+    }
+    wasStreaming.current = isStreaming
+  }, [isStreaming, worktree, openReview])
+
+  if (!worktree) return null
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-2 px-3 py-1.5 mb-2 rounded-lg bg-accent/5 border border-accent/20 text-xs">
+        <div className="flex items-center gap-2 min-w-0 text-text-secondary">
+          <GitFork className="w-3.5 h-3.5 text-accent shrink-0" />
+          <span className="truncate font-mono" title={worktree.path}>{worktree.branch}</span>
+          <span className="text-text-muted shrink-0">← {worktree.baseBranch}</span>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => openReview(worktree)}
+            disabled={isStreaming || isLoading}
+            className="h-6 px-2 text-xs"
+          >
+            <FileDiff className="w-3.5 h-3.5 mr-1" />
+            {language === 'zh' ? '审查并合并' : 'Review & Merge'}
+          </Button>
+        </div>
+      </div>
+
+      {review && (
+        <WorktreeReviewModal
+          worktree={worktree}
+          review={review}
+          language={language}
+          onClose={() => setReview(null)}
+        />
+      )}
+    </>
+  )
+}
+
+interface WorktreeReviewModalProps {
+  worktree: WorktreeInfo
+  review: WorktreeReview
+  language: 'zh' | 'en'
+  onClose: () => void
+}
+
+function WorktreeReviewModal({ worktree, review, language, onClose }: WorktreeReviewModalProps) {
+  const [message, setMessage] = useState(worktree.title)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const finish = useCallback(() => {
+    const threadId = useAgentStore.getState().currentThreadId
+    if (threadId) useAgentStore.getState().setThreadWorktree(threadId, undefined)
+    onClose()
+  }, [onClose])
+
+  const handleMerge = useCallback(async () => {
+    setIsBusy(true)
+    const result = await worktreeService.merge(worktree, message.trim() || worktree.title)
+    setIsBusy(false)
+
+    if (result.success) {
+      toast.success(language === 'zh' ? `已合并到 ${worktree.baseBranch}` : `Merged into ${worktree.baseBranch}`)
+      finish()
+    } else if (result.conflicts) {
+      // 冲突留在主工作区由用户在 Git 面板中解决，worktree 保留
+      toast.error(language === 'zh'
+        ? `合并冲突: ${result.conflicts.join(', ')}`
+        : `Merge conflicts: ${result.conflicts.join(', ')}`)
+      onClose()
+    } else {
+      toast.error(language === 'zh' ? `合并失败: ${result.error}` : `Merge failed: ${result.error}`)
+    }
+  }, [worktree, message, language, finish, onClose])
+
+  const handleDiscard = useCallback(async () => {
+    const { globalConfirm } = await import('../common/ConfirmDialog')
+    const confirmed = await globalConfirm({
+      title: language === 'zh' ? '放弃改动' : 'Discard changes',
+      message: language === 'zh'
+        ? `将删除 worktree 和分支 ${worktree.branch}，其中的改动无法恢复。`
+        : `This removes the worktree and branch ${worktree.branch}. Its changes cannot be recovered.`,
+      variant: 'danger',
+    })
+    if (!confirmed) return
+
+    setIsBusy(true)
+    const result = await worktreeService.discard(worktree)
+    setIsBusy(false)
+
+    if (result.success) {
+      toast.success(language === 'zh' ? '已放弃 worktree 中的改动' : 'Worktree discarded')
+      finish()
+    } else {
+      toast.error(result.error || 'Failed to discard worktree')
+    }
+  }, [worktree, language, finish])
+
+  const linesAdded = review.changes.reduce((sum, c) => sum + c.linesAdded, 0)
+  const linesRemoved = review.changes.reduce((sum, c) => sum + c.linesRemoved, 0)
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={language === 'zh' ? `审查 ${worktree.branch}` : `Review ${worktree.branch}`}
+      size="4xl"
+    >
+      <div className="flex flex-col gap-4">
+        <div className="flex items-center gap-3 text-xs text-text-muted">
+          <span>{language === 'zh' ? `${review.changes.length} 个文件` : `${review.changes.length} file(s)`}</span>
+          <span className="text-green-400">+{linesAdded}</span>
+          <span className="text-red-400">-{linesRemoved}</span>
+          <span className="ml-auto font-mono">{worktree.branch} → {worktree.baseBranch}</span>
+        </div>
+
+        <pre className="max-h-[50vh] overflow-auto rounded-lg bg-black/30 border border-white/5 p-3 text-xs font-mono leading-relaxed">
+          {review.diff.split('\n').map((line, i) => (
+            <div
+              key={i}
+              className={
+                line.startsWith('+') ? 'text-green-400'
+                  : line.startsWith('-') ? 'text-red-400'
+                    : line.startsWith('File: ') ? 'text-accent font-semibold'
+                      : 'text-text-secondary'
+              }
+            >
+              {line || ' '}
+            </div>
+          ))}
+        </pre>
+
+        <div className="flex items-center gap-2">
+          <Input
+            value={message}
+            onChange={e => setMessage(e.target.value)}
+            placeholder={language === 'zh' ? '提交信息' : 'Commit message'}
+          />
+          <Button variant="danger" onClick={handleDiscard} disabled={isBusy} className="shrink-0">
+            <Trash2 className="w-4 h-4 mr-1" />
+            {language === 'zh' ? '放弃' : 'Discard'}
+          </Button>
+          <Button variant="primary" onClick={handleMerge} disabled={isBusy} isLoading={isBusy} className="shrink-0">
+            <GitMerge className="w-4 h-4 mr-1" />
+            {language === 'zh' ? `合并到 ${worktree.baseBranch}` : `Merge into ${worktree.baseBranch}`}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
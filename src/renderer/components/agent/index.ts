@@ -12,3 +12,5 @@ export { RichContentRenderer } from './RichContentRenderer'
 // 新增组件
 export { default as BranchManager, BranchSelector, BranchIndicator, MessageBranchActions } from './BranchManager'
 export { default as ContextCompactionIndicator, CompactionProgressBar } from './ContextCompactionIndicator'
+export { default as WorktreeBar, WorktreeToggle } from './WorktreePanel'
+export { default as BudgetBar } from './BudgetBar'
@@ -230,6 +230,7 @@ export default function ChatInput({
         <div className="flex items-end gap-3 px-4 pb-3 pt-2">
           <textarea
             ref={textareaRef}
+            data-chat-input
             value={input}
             onChange={onInputChange}
             onKeyDown={onKeyDown}
@@ -8,7 +8,8 @@ import { useState, useEffect, useCallback, useRef, memo } from 'react'
 import {
   Search, FolderOpen, Settings, Terminal,
   MessageSquare, History, Trash2, RefreshCw, Save,
-  X, Zap, Keyboard, Sparkles, ArrowRight, Plus, FolderPlus
+  X, Zap, Keyboard, Sparkles, ArrowRight, Plus, FolderPlus,
+  Play, Square, Wrench, ClipboardList
 } from 'lucide-react'
 import { useStore, useModeStore } from '@/renderer/store'
 import { useAgentStore } from '@/renderer/agent'
@@ -17,6 +18,9 @@ import { t } from '@/renderer/i18n'
 import { keybindingService } from '@/renderer/services/keybindingService'
 import { adnifyDir } from '@/renderer/services/adnifyDirService'
 import { toast } from '@/renderer/components/common/ToastProvider'
+import { taskService, useTaskStore } from '@/renderer/services/taskService'
+import { usePlanDocumentStore } from '@/renderer/agent/services/planDocumentService'
+import { getNextPlanStep, getPlanProgress } from '@/renderer/agent/utils/planDocument'
 
 interface Command {
   id: string
@@ -97,20 +101,101 @@ export default function CommandPalette({ onClose, onShowKeyboardShortcuts }: Com
     setShowQuickOpen,
     setShowComposer,
     setShowAbout,
+    openFile,
+    setActiveFile,
   } = useStore()
 
+  const tasks = useTaskStore(state => state.tasks)
+  const taskRuns = useTaskStore(state => state.runs)
+  const plans = usePlanDocumentStore(state => state.plans)
+
   // 从 AgentStore 获取 setInputPrompt
   const setInputPrompt = useAgentStore(state => state.setInputPrompt)
 
   const { setMode } = useModeStore()
 
-  const { clearMessages, clearCheckpoints } = useAgent()
+  const { clearMessages, clearCheckpoints, resumePlan } = useAgent()
 
   const [query, setQuery] = useState('')
   const [selectedIndex, setSelectedIndex] = useState(0)
   const inputRef = useRef<HTMLInputElement>(null)
   const listRef = useRef<HTMLDivElement>(null)
 
+  const runTask = (label: string) => {
+    if (!workspacePath) return
+    taskService.run(label, workspacePath).then(result => {
+      const problems = [...(result.dependencies || []), result].reduce((sum, r) => sum + r.problems.length, 0)
+      const detail = problems > 0
+        ? (language === 'zh' ? `${problems} 个问题，详见问题面板` : `${problems} problem(s), see the Problems panel`)
+        : undefined
+      if (result.status === 'failed') {
+        toast.error(language === 'zh' ? `任务失败: ${label}` : `Task failed: ${label}`, detail || result.error)
+      } else if (result.status === 'succeeded') {
+        toast.success(language === 'zh' ? `任务完成: ${label}` : `Task finished: ${label}`, detail)
+      }
+    }).catch(error => {
+      toast.error(language === 'zh' ? `任务失败: ${label}` : `Task failed: ${label}`, String(error))
+    })
+  }
+
+  const configureTasks = async () => {
+    if (!workspacePath) return
+    const file = await taskService.ensureTasksFile(workspacePath)
+    const content = await api.file.read(file)
+    if (content === null) return
+    openFile(file, content)
+    setActiveFile(file)
+  }
+
+  // 项目任务（.adnify/tasks.json）
+  const taskCommands: Command[] = workspacePath ? [
+    ...tasks.map(task => ({
+      id: `task-run-${task.label}`,
+      label: `Run Task: ${task.label}`,
+      description: task.detail || task.command || `dependsOn: ${[task.dependsOn].flat().join(', ')}`,
+      icon: Play,
+      category: 'Tasks',
+      action: () => runTask(task.label),
+    })),
+    ...tasks
+      .filter(task => task.isBackground && ['running', 'watching'].includes(taskRuns[task.label]?.status))
+      .map(task => ({
+        id: `task-stop-${task.label}`,
+        label: `Stop Task: ${task.label}`,
+        description: 'Stop the background task and close its terminal',
+        icon: Square,
+        category: 'Tasks',
+        action: () => taskService.stop(task.label),
+      })),
+    {
+      id: 'task-configure',
+      label: 'Configure Tasks',
+      description: 'Open .adnify/tasks.json',
+      icon: Wrench,
+      category: 'Tasks',
+      action: () => { configureTasks() },
+    },
+  ] : []
+
+  // 可恢复执行的计划（.adnify/plans）
+  const planCommands: Command[] = plans.flatMap(plan => {
+    const step = getNextPlanStep(plan)
+    if (!step) return []
+    const { done, total } = getPlanProgress(plan)
+    return [{
+      id: `plan-resume-${plan.id}`,
+      label: `Resume Plan: ${plan.title || plan.id.slice(0, 8)}`,
+      description: `${done}/${total} done · next: ${step.title}`,
+      icon: ClipboardList,
+      category: 'Plans',
+      action: () => {
+        resumePlan(plan.id).then(result => {
+          if (!result.success) toast.warning(result.error || 'Cannot resume plan')
+        })
+      },
+    }]
+  })
+
   // 定义所有命令
   const commands: Command[] = [
     // AI Actions (Priority)
@@ -314,6 +399,9 @@ export default function CommandPalette({ onClose, onShowKeyboardShortcuts }: Com
       category: 'AI Tools',
       action: () => clearCheckpoints(),
     },
+
+    ...taskCommands,
+    ...planCommands,
   ]
 
   // 过滤命令
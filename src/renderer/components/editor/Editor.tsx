@@ -11,6 +11,7 @@ import { getFileName, getPathSeparator } from '@utils/pathUtils'
 import { toast } from '../common/ToastProvider'
 import DiffViewer from './DiffViewer'
 import InlineEdit from './InlineEdit'
+import GitHunkPeek from './GitHunkPeek'
 import EditorContextMenu from './EditorContextMenu'
 import { lintService } from '@renderer/agent/services/lintService'
 import { streamingEditService } from '@renderer/agent/services/streamingEditService'
@@ -36,6 +37,8 @@ import { keybindingService } from '@services/keybindingService'
 import { monaco } from '@renderer/monacoWorker'
 import type { ThemeName } from '@store/slices/themeSlice'
 import { useEditorBreakpoints } from '@hooks/useEditorBreakpoints'
+import { useEditorTestDecorations } from '@hooks/useEditorTestDecorations'
+import { useEditorGitDecorations } from '@hooks/useEditorGitDecorations'
 
 // 从工具模块导入
 import { getLanguage } from './utils/languageMap'
@@ -95,6 +98,12 @@ export default function Editor() {
   // 断点管理
   useEditorBreakpoints(editorRef.current, activeFilePath)
 
+  // 测试用例状态与运行入口
+  useEditorTestDecorations(editorRef.current, activeFilePath)
+
+  // Git 变更标记、行内 blame 与变更块操作
+  const gitDecorations = useEditorGitDecorations(editorRef.current, activeFilePath)
+
   // Markdown 预览模式状态
   const [markdownMode, setMarkdownMode] = useState<'edit' | 'preview' | 'split'>('edit')
 
@@ -972,6 +981,18 @@ export default function Editor() {
         )
       })()}
 
+      {/* Git 变更块预览 */}
+      {gitDecorations.peek && (
+        <GitHunkPeek
+          peek={gitDecorations.peek}
+          onStage={gitDecorations.stageHunk}
+          onUnstage={gitDecorations.unstageHunk}
+          onRevert={gitDecorations.revertHunk}
+          onClose={gitDecorations.closePeek}
+          onNavigate={gitDecorations.gotoHunk}
+        />
+      )}
+
       {/* 内联编辑弹窗 (Cmd+K) */}
       {inlineEditState?.show && activeFile && (
         <InlineEdit
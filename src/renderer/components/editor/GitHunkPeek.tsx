@@ -0,0 +1,115 @@
+/**
+ * Git 变更块预览
+ * 渲染在编辑器 view zone 中，显示变更块的原始内容并提供暂存 / 取消暂存 / 还原操作
+ */
+
+import { useState } from 'react'
+import { createPortal } from 'react-dom'
+import { ChevronDown, ChevronUp, Minus, Plus, RotateCcw, X } from 'lucide-react'
+import { useStore } from '@store'
+import { getHunkKind } from '@utils/gitHunks'
+import type { GitHunkPeek as GitHunkPeekState } from '@hooks/useEditorGitDecorations'
+import { toast } from '../common/ToastProvider'
+
+interface GitHunkPeekProps {
+  peek: GitHunkPeekState
+  onStage: () => Promise<{ success: boolean; error?: string }>
+  onUnstage: () => Promise<{ success: boolean; error?: string }>
+  onRevert: () => void
+  onClose: () => void
+  onNavigate: (direction: 1 | -1) => void
+}
+
+// 与 useEditorGitDecorations 中的预览高度保持一致
+const MAX_VISIBLE_LINES = 12
+
+export default function GitHunkPeek({ peek, onStage, onUnstage, onRevert, onClose, onNavigate }: GitHunkPeekProps) {
+  const { language } = useStore()
+  const [busy, setBusy] = useState(false)
+  const { hunk, staged } = peek
+  const kind = getHunkKind(hunk)
+
+  const runAction = async (action: () => Promise<{ success: boolean; error?: string }>, failedTitle: string) => {
+    setBusy(true)
+    try {
+      const result = await action()
+      if (!result.success) toast.error(failedTitle, result.error)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const title = staged
+    ? (language === 'zh' ? '已暂存的更改' : 'Staged Change')
+    : kind === 'added'
+      ? (language === 'zh' ? `新增 ${hunk.newLines.length} 行` : `${hunk.newLines.length} line(s) added`)
+      : kind === 'deleted'
+        ? (language === 'zh' ? `删除 ${hunk.oldLines.length} 行` : `${hunk.oldLines.length} line(s) deleted`)
+        : (language === 'zh' ? `修改 ${hunk.oldLines.length} 行` : `${hunk.oldLines.length} line(s) modified`)
+
+  const buttonClass = 'flex items-center gap-1 px-2 py-0.5 rounded text-[11px] text-text-secondary hover:text-text-primary hover:bg-white/10 disabled:opacity-50 transition-colors'
+
+  return createPortal(
+    <div className="h-full flex flex-col border-y border-accent/40 bg-background-secondary/95 font-mono text-xs">
+      <div className="flex items-center gap-2 px-3 h-6 flex-shrink-0 border-b border-border-subtle">
+        <span className="text-text-muted font-sans">{title}</span>
+        <div className="flex-1" />
+        {staged ? (
+          <button
+            className={buttonClass}
+            disabled={busy}
+            onClick={() => runAction(onUnstage, language === 'zh' ? '取消暂存失败' : 'Unstage Failed')}
+          >
+            <Minus className="w-3 h-3" />
+            {language === 'zh' ? '取消暂存' : 'Unstage'}
+          </button>
+        ) : (
+          <>
+            <button
+              className={buttonClass}
+              disabled={busy}
+              onClick={() => runAction(onStage, language === 'zh' ? '暂存失败' : 'Stage Failed')}
+            >
+              <Plus className="w-3 h-3" />
+              {language === 'zh' ? '暂存' : 'Stage'}
+            </button>
+            <button className={buttonClass} disabled={busy} onClick={onRevert}>
+              <RotateCcw className="w-3 h-3" />
+              {language === 'zh' ? '还原' : 'Revert'}
+            </button>
+            <button className={buttonClass} onClick={() => onNavigate(-1)} title={language === 'zh' ? '上一个更改' : 'Previous Change'}>
+              <ChevronUp className="w-3 h-3" />
+            </button>
+            <button className={buttonClass} onClick={() => onNavigate(1)} title={language === 'zh' ? '下一个更改' : 'Next Change'}>
+              <ChevronDown className="w-3 h-3" />
+            </button>
+          </>
+        )}
+        <button className={buttonClass} onClick={onClose} title={language === 'zh' ? '关闭' : 'Close'}>
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+      <div className="flex-1 overflow-auto">
+        {hunk.oldLines.length === 0 ? (
+          <div className="px-3 py-1 text-text-muted font-sans italic">
+            {language === 'zh' ? '新增内容，无原始行' : 'New lines, nothing to show from the original'}
+          </div>
+        ) : (
+          hunk.oldLines.slice(0, MAX_VISIBLE_LINES).map((line, i) => (
+            <div key={i} className="px-3 whitespace-pre bg-red-500/10 text-red-300 leading-[19px]">
+              <span className="select-none opacity-50 mr-2">-</span>{line}
+            </div>
+          ))
+        )}
+        {hunk.oldLines.length > MAX_VISIBLE_LINES && (
+          <div className="px-3 text-text-muted font-sans">
+            {language === 'zh'
+              ? `… 另有 ${hunk.oldLines.length - MAX_VISIBLE_LINES} 行`
+              : `… ${hunk.oldLines.length - MAX_VISIBLE_LINES} more line(s)`}
+          </div>
+        )}
+      </div>
+    </div>,
+    peek.domNode
+  )
+}
@@ -7,6 +7,8 @@ import { api } from '@/renderer/services/electronAPI'
 import { useState, useRef, useEffect, useCallback } from 'react'
 import { X, Sparkles, Check, Loader2, RefreshCw } from 'lucide-react'
 import { useStore } from '@store'
+import { modelRouter } from '@services/modelRouter'
+import type { LLMResult } from '@renderer/types/electron'
 import { t } from '@renderer/i18n'
 import DiffViewer from '../editor/DiffViewer'
 
@@ -40,7 +42,7 @@ export default function InlineEdit({
 	const [generatedCode, setGeneratedCode] = useState('')
 	const [error, setError] = useState('')
 	const inputRef = useRef<HTMLInputElement>(null)
-	const { llmConfig, language } = useStore()
+	const { language } = useStore()
 
 	useEffect(() => {
 		inputRef.current?.focus()
@@ -57,8 +59,8 @@ export default function InlineEdit({
 			// 构建提示词
 			const prompt = buildEditPrompt(instruction, selectedCode, filePath, lineRange)
 			
-			// 调用 LLM
-			const result = await generateEdit(llmConfig, prompt)
+			// 调用 LLM（按路由规则选择模型，失败时切换备用模型）
+			const result = await modelRouter.run('inlineEdit', config => generateEdit(config, prompt))
 			
 			if (result.success && result.code) {
 				setGeneratedCode(result.code)
@@ -72,7 +74,7 @@ export default function InlineEdit({
 			setError(error.message || 'An error occurred')
 			setState('error')
 		}
-	}, [instruction, state, selectedCode, filePath, lineRange, llmConfig])
+	}, [instruction, state, selectedCode, filePath, lineRange])
 
 	const handleApply = useCallback(() => {
 		if (generatedCode) {
@@ -260,7 +262,7 @@ interface LLMConfigForEdit {
 async function generateEdit(
 	config: LLMConfigForEdit,
 	prompt: string
-): Promise<{ success: boolean; code?: string; error?: string }> {
+): Promise<{ success: boolean; code?: string; error?: string; errorCode?: string; usage?: LLMResult['usage'] }> {
 	return new Promise((resolve) => {
 		let result = ''
 		let resolved = false
@@ -284,22 +286,23 @@ async function generateEdit(
 
 		// 监听完成
 		unsubscribers.push(
-			api.llm.onDone(() => {
+			api.llm.onDone((done: LLMResult) => {
 				cleanup()
 				// 清理可能的 markdown 代码块
 				let code = result.trim()
 				if (code.startsWith('```')) {
 					code = code.replace(/^```\w*\n?/, '').replace(/\n?```$/, '')
 				}
-				resolve({ success: true, code })
+				// 用量由 modelRouter.run 计费
+				resolve({ success: true, code, usage: done.usage })
 			})
 		)
 
 		// 监听错误
 		unsubscribers.push(
-			api.llm.onError((error: { message: string }) => {
+			api.llm.onError((error: { message: string; code?: string }) => {
 				cleanup()
-				resolve({ success: false, error: error.message })
+				resolve({ success: false, error: error.message, errorCode: error.code })
 			})
 		)
 
@@ -38,9 +38,11 @@ export function TabContextMenu({
     }
     document.addEventListener('mousedown', handleClickOutside)
     document.addEventListener('keydown', handleEscape)
+    keybindingService.setContext('tabContextMenuVisible', true)
     return () => {
       document.removeEventListener('mousedown', handleClickOutside)
       document.removeEventListener('keydown', handleEscape)
+      keybindingService.setContext('tabContextMenuVisible', false)
     }
   }, [onClose])
 
@@ -1,9 +1,10 @@
 import React, { useEffect, ReactNode } from 'react';
 import { useStore } from '@store';
-import { ThemeName } from '@store/slices/themeSlice';
+import { ThemeName, BuiltinThemeName } from '@store/slices/themeSlice';
+import { themeManager, themeColorsToCssVars } from '@renderer/config/themeConfig';
 
 // Theme definitions
-export const themes: Record<ThemeName, Record<string, string>> = {
+export const themes: Record<BuiltinThemeName, Record<string, string>> = {
     'adnify-dark': {
         '--background': '10 10 12',         // Soft Deep Dark
         '--background-secondary': '18 18 21',
@@ -126,23 +127,36 @@ export const themes: Record<ThemeName, Record<string, string>> = {
     }
 };
 
+/**
+ * 获取主题的 CSS 变量，导入的主题由其 ThemeColors 转换
+ */
+export function getThemeVars(themeName: ThemeName): Record<string, string> {
+    if (themeName in themes) return themes[themeName as BuiltinThemeName];
+    const custom = themeManager.getThemeById(themeName);
+    return custom ? themeColorsToCssVars(custom.colors) : themes['adnify-dark'];
+}
+
+export function isLightTheme(themeName: ThemeName): boolean {
+    return themeManager.getThemeById(themeName)?.type === 'light';
+}
+
 interface ThemeManagerProps {
     children: ReactNode;
 }
 
 export const ThemeManager: React.FC<ThemeManagerProps> = ({ children }) => {
-    const currentTheme = useStore((state) => state.currentTheme) as ThemeName;
+    const currentTheme = useStore((state) => state.currentTheme);
 
     useEffect(() => {
         const root = document.documentElement;
-        const themeVars = themes[currentTheme] || themes['adnify-dark'];
+        const themeVars = getThemeVars(currentTheme);
 
         Object.entries(themeVars).forEach(([key, value]: [string, string]) => {
             root.style.setProperty(key, value);
         });
 
         // Set color-scheme for browser UI (scrollbars etc)
-        root.style.colorScheme = currentTheme === 'dawn' ? 'light' : 'dark';
+        root.style.colorScheme = isLightTheme(currentTheme) ? 'light' : 'dark';
 
     }, [currentTheme]);
 
@@ -3,7 +3,8 @@
  */
 
 import type { ThemeName } from '@store/slices/themeSlice'
-import { themes } from '../ThemeManager'
+import { themeManager } from '@renderer/config/themeConfig'
+import { getThemeVars, isLightTheme } from '../ThemeManager'
 
 // RGB 字符串转 Hex
 const rgbToHex = (rgbStr: string) => {
@@ -18,10 +19,11 @@ const rgbToHex = (rgbStr: string) => {
 
 /**
  * 定义 Monaco 主题
+ * 导入的 VS Code 主题使用其语法高亮规则与编辑器颜色覆盖默认值
  */
 export function defineMonacoTheme(monacoInstance: typeof import('monaco-editor'), themeName: ThemeName) {
-  const themeVars = themes[themeName] || themes['adnify-dark']
-  if (!themeVars) return
+  const themeVars = getThemeVars(themeName)
+  const editorTheme = themeManager.getThemeById(themeName)?.editorTheme
 
   const bg = rgbToHex(themeVars['--background'])
   const surface = rgbToHex(themeVars['--surface'])
@@ -32,9 +34,9 @@ export function defineMonacoTheme(monacoInstance: typeof import('monaco-editor')
   const selection = accent + '40'
 
   monacoInstance.editor.defineTheme('adnify-dynamic', {
-    base: themeName === 'dawn' ? 'vs' : 'vs-dark',
+    base: isLightTheme(themeName) ? 'vs' : 'vs-dark',
     inherit: true,
-    rules: [
+    rules: editorTheme?.rules ?? [
       { token: 'comment', foreground: textMuted.slice(1), fontStyle: 'italic' },
       { token: 'keyword', foreground: accent.slice(1) },
       { token: 'string', foreground: 'a5d6ff' },
@@ -58,6 +60,7 @@ export function defineMonacoTheme(monacoInstance: typeof import('monaco-editor')
       'editorSuggestWidget.selectedBackground': accent + '20',
       'editorHoverWidget.background': surface,
       'editorHoverWidget.border': border,
+      ...editorTheme?.colors,
     }
   })
 }
@@ -0,0 +1,672 @@
+/**
+ * Git 提交历史浏览器
+ * 分支 / 合并泳道图、按作者 / 提交信息 / 路径搜索、任意两个提交或分支的比较，
+ * 以及单个文件的历史时间线（任意两个版本之间打开 DiffViewer）
+ */
+
+import { api } from '@/renderer/services/electronAPI'
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import {
+  GitCommit as GitCommitIcon, GitCompare, History, Search, ArrowLeft, ArrowUp, ArrowDown,
+  FileText, Loader2, Copy, Tag, GitBranch, X,
+} from 'lucide-react'
+import { useStore } from '@store'
+import { joinPath, getFileName } from '@utils/pathUtils'
+import { computeGraphLayout, type GitGraphRow } from '@utils/gitGraph'
+import {
+  gitService,
+  type GitCommit,
+  type GitFileChange,
+  type GitFileRevision,
+  type GitRefComparison,
+} from '@renderer/agent/services/gitService'
+import { toast } from '@components/common/ToastProvider'
+import DiffViewer from '../editor/DiffViewer'
+
+interface CommitHistoryProps {
+  /** 打开时选中的提交 */
+  initialCommit?: string
+  /** 打开时显示该文件（工作区相对路径）的历史 */
+  initialFile?: string
+  onClose: () => void
+}
+
+type SearchField = 'message' | 'author' | 'path'
+
+type DetailPanel =
+  | { kind: 'commit'; hash: string }
+  | { kind: 'compare'; base: string; target: string }
+  | { kind: 'file'; path: string }
+
+interface DiffState {
+  title: string
+  path: string
+  original: string
+  modified: string
+}
+
+/** 工作区中的当前版本，用于文件时间线 */
+const WORKING_TREE = 'WORKING_TREE'
+const PAGE_SIZE = 200
+const ROW_HEIGHT = 28
+const LANE_WIDTH = 12
+const LANE_COLORS = ['#3b82f6', '#22c55e', '#f59e0b', '#ec4899', '#a855f7', '#14b8a6', '#ef4444', '#84cc16']
+
+// 单行泳道图
+function GraphCell({ row, columns, isMerge }: { row: GitGraphRow; columns: number; isMerge: boolean }) {
+  const mid = ROW_HEIGHT / 2
+  const x = (lane: number) => lane * LANE_WIDTH + LANE_WIDTH / 2
+  const curve = (from: number, to: number, y1: number, y2: number) =>
+    from === to
+      ? `M ${x(from)} ${y1} L ${x(to)} ${y2}`
+      : `M ${x(from)} ${y1} C ${x(from)} ${(y1 + y2) / 2}, ${x(to)} ${(y1 + y2) / 2}, ${x(to)} ${y2}`
+
+  return (
+    <svg width={columns * LANE_WIDTH} height={ROW_HEIGHT} className="flex-shrink-0">
+      {row.top.map((edge, i) => (
+        <path key={`t${i}`} d={curve(edge.from, edge.to, 0, mid)} stroke={LANE_COLORS[edge.color]} strokeWidth={1.5} fill="none" />
+      ))}
+      {row.bottom.map((edge, i) => (
+        <path key={`b${i}`} d={curve(edge.from, edge.to, mid, ROW_HEIGHT)} stroke={LANE_COLORS[edge.color]} strokeWidth={1.5} fill="none" />
+      ))}
+      <circle
+        cx={x(row.column)}
+        cy={mid}
+        r={isMerge ? 3.5 : 4}
+        fill={isMerge ? 'rgb(var(--background))' : LANE_COLORS[row.color]}
+        stroke={LANE_COLORS[row.color]}
+        strokeWidth={isMerge ? 2 : 0}
+      />
+    </svg>
+  )
+}
+
+// 引用标签
+function RefBadges({ commit }: { commit: GitCommit }) {
+  if (!commit.refs?.length) return null
+  const styles = {
+    head: 'bg-accent/20 text-accent',
+    branch: 'bg-green-500/15 text-green-400',
+    remote: 'bg-purple-500/15 text-purple-400',
+    tag: 'bg-amber-500/15 text-amber-400',
+  }
+  return (
+    <>
+      {commit.refs.filter(ref => ref.type !== 'head').map(ref => (
+        <span key={`${ref.type}:${ref.name}`} className={`flex items-center gap-0.5 px-1 rounded text-[10px] flex-shrink-0 ${styles[ref.type]}`}>
+          {ref.type === 'tag' ? <Tag className="w-2.5 h-2.5" /> : <GitBranch className="w-2.5 h-2.5" />}
+          {ref.name}
+        </span>
+      ))}
+    </>
+  )
+}
+
+// 文件变更列表
+function FileChangeList({ files, onOpen, onHistory }: {
+  files: GitFileChange[]
+  onOpen: (file: GitFileChange) => void
+  onHistory?: (file: GitFileChange) => void
+}) {
+  const { language } = useStore()
+  const statusColor: Record<string, string> = {
+    added: 'text-green-400', modified: 'text-yellow-400', deleted: 'text-red-400', renamed: 'text-blue-400',
+  }
+  return (
+    <div>
+      {files.map(file => (
+        <div
+          key={file.path}
+          className="group flex items-center gap-2 px-3 py-1 hover:bg-surface-hover cursor-pointer"
+          onClick={() => onOpen(file)}
+        >
+          <span className={`text-[10px] font-mono w-3 ${statusColor[file.status] || 'text-text-muted'}`}>{file.status[0].toUpperCase()}</span>
+          <span className="text-xs text-text-primary truncate flex-1" title={file.path}>{file.path}</span>
+          {(file.additions !== undefined || file.deletions !== undefined) && (
+            <span className="text-[10px] font-mono flex-shrink-0">
+              <span className="text-green-400">+{file.additions ?? 0}</span>{' '}
+              <span className="text-red-400">-{file.deletions ?? 0}</span>
+            </span>
+          )}
+          {onHistory && (
+            <button
+              onClick={(e) => { e.stopPropagation(); onHistory(file) }}
+              className="p-0.5 rounded hover:bg-surface-active opacity-0 group-hover:opacity-100"
+              title={language === 'zh' ? '文件历史' : 'File History'}
+            >
+              <History className="w-3 h-3 text-text-muted" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function CommitHistory({ initialCommit, initialFile, onClose }: CommitHistoryProps) {
+  const { workspacePath, language } = useStore()
+
+  const [ref, setRef] = useState('--all')
+  const [refOptions, setRefOptions] = useState<string[]>([])
+  const [searchField, setSearchField] = useState<SearchField>('message')
+  const [query, setQuery] = useState('')
+  const [debouncedQuery, setDebouncedQuery] = useState('')
+  const [commits, setCommits] = useState<GitCommit[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const [panel, setPanel] = useState<DetailPanel | null>(
+    initialFile ? { kind: 'file', path: initialFile } : initialCommit ? { kind: 'commit', hash: initialCommit } : null
+  )
+  const [diff, setDiff] = useState<DiffState | null>(null)
+
+  // 搜索防抖
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), 300)
+    return () => clearTimeout(timer)
+  }, [query])
+
+  // 分支与标签选项
+  useEffect(() => {
+    Promise.all([gitService.getBranches(), gitService.getTags()]).then(([branches, tags]) => {
+      setRefOptions([...branches.map(b => b.name), ...tags.map(tag => tag.name)])
+    })
+  }, [])
+
+  const logOptions = useMemo(() => ({
+    ref,
+    author: searchField === 'author' ? debouncedQuery || undefined : undefined,
+    message: searchField === 'message' ? debouncedQuery || undefined : undefined,
+    path: searchField === 'path' ? debouncedQuery || undefined : undefined,
+  }), [ref, searchField, debouncedQuery])
+
+  const loadCommits = useCallback(async (skip: number) => {
+    setIsLoading(true)
+    try {
+      const page = await gitService.getCommitLog({ ...logOptions, count: PAGE_SIZE, skip })
+      setCommits(prev => (skip === 0 ? page : [...prev, ...page]))
+      setHasMore(page.length === PAGE_SIZE)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [logOptions])
+
+  useEffect(() => {
+    loadCommits(0)
+  }, [loadCommits])
+
+  // 过滤后的结果缺少中间提交，泳道图没有意义
+  const isFiltered = !!debouncedQuery
+  const graph = useMemo(() => (isFiltered ? null : computeGraphLayout(commits)), [commits, isFiltered])
+
+  const selectedHash = panel?.kind === 'commit' ? panel.hash : null
+
+  const handleCommitClick = (commit: GitCommit, e: React.MouseEvent) => {
+    // Ctrl/Cmd + 点击：与当前选中的提交比较
+    if ((e.ctrlKey || e.metaKey) && selectedHash && selectedHash !== commit.hash) {
+      // 列表按拓扑顺序排列，靠后的提交作为比较基准
+      const selectedIndex = commits.findIndex(c => c.hash === selectedHash)
+      const [base, target] = commits.indexOf(commit) > selectedIndex ? [commit.hash, selectedHash] : [selectedHash, commit.hash]
+      setPanel({ kind: 'compare', base, target })
+    } else {
+      setPanel({ kind: 'commit', hash: commit.hash })
+    }
+    setDiff(null)
+  }
+
+  // 打开两个版本之间的 diff（版本为 null 表示文件在该侧不存在）
+  const openDiff = useCallback(async (from: { rev: string | null; path: string }, to: { rev: string | null; path: string }, title: string) => {
+    const read = ({ rev, path }: { rev: string | null; path: string }) => {
+      if (!rev) return Promise.resolve('')
+      if (rev === WORKING_TREE) return api.file.read(joinPath(workspacePath || '', path)).then(c => c ?? '')
+      return gitService.getFileContentAtCommit(path, rev).then(c => c ?? '')
+    }
+    const [original, modified] = await Promise.all([read(from), read(to)])
+    setDiff({ title, path: to.path, original, modified })
+  }, [workspacePath])
+
+  return (
+    <div className="flex flex-col h-[80vh] bg-background">
+      {/* Header */}
+      <div className="flex items-center gap-2 px-4 py-2.5 border-b border-border-subtle bg-surface/50">
+        <History className="w-4 h-4 text-accent" />
+        <span className="text-sm font-medium text-text-primary mr-2">{language === 'zh' ? '提交历史' : 'Commit History'}</span>
+        <select
+          value={ref}
+          onChange={e => setRef(e.target.value)}
+          className="h-7 px-2 text-xs bg-surface border border-border-subtle rounded text-text-primary max-w-[180px]"
+        >
+          <option value="--all">{language === 'zh' ? '所有分支' : 'All Branches'}</option>
+          <option value="HEAD">HEAD</option>
+          {refOptions.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <select
+          value={searchField}
+          onChange={e => setSearchField(e.target.value as SearchField)}
+          className="h-7 px-2 text-xs bg-surface border border-border-subtle rounded text-text-primary"
+        >
+          <option value="message">{language === 'zh' ? '提交信息' : 'Message'}</option>
+          <option value="author">{language === 'zh' ? '作者' : 'Author'}</option>
+          <option value="path">{language === 'zh' ? '路径' : 'Path'}</option>
+        </select>
+        <div className="relative flex-1 max-w-xs">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-text-muted" />
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder={language === 'zh' ? '搜索...' : 'Search...'}
+            className="w-full h-7 pl-6 pr-2 text-xs bg-surface border border-border-subtle rounded text-text-primary focus:outline-none focus:border-accent"
+          />
+        </div>
+        <button
+          onClick={() => { setPanel({ kind: 'compare', base: selectedHash || 'HEAD', target: 'HEAD' }); setDiff(null) }}
+          className="flex items-center gap-1 h-7 px-2 text-xs rounded hover:bg-surface-hover text-text-secondary"
+          title={language === 'zh' ? '比较两个提交或分支（也可 Ctrl+点击提交）' : 'Compare two commits or branches (or Ctrl+Click a commit)'}
+        >
+          <GitCompare className="w-3.5 h-3.5" />
+          {language === 'zh' ? '比较' : 'Compare'}
+        </button>
+        <div className="flex-1" />
+        <button onClick={onClose} className="p-1 rounded hover:bg-surface-hover">
+          <X className="w-4 h-4 text-text-muted" />
+        </button>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        {/* Commit list */}
+        <div className="w-[55%] border-r border-border-subtle overflow-y-auto custom-scrollbar">
+          {isFiltered && (
+            <div className="px-3 py-1 text-[10px] text-text-muted border-b border-border-subtle">
+              {language === 'zh' ? '搜索结果不显示分支图' : 'Graph is hidden while searching'}
+            </div>
+          )}
+          {commits.map((commit, index) => (
+            <div
+              key={commit.hash}
+              onClick={(e) => handleCommitClick(commit, e)}
+              className={`flex items-center gap-2 pr-3 cursor-pointer transition-colors ${
+                selectedHash === commit.hash ? 'bg-accent/15' : 'hover:bg-surface-hover'
+              }`}
+              style={{ height: ROW_HEIGHT }}
+            >
+              {graph ? (
+                <GraphCell row={graph.rows[index]} columns={graph.columns} isMerge={(commit.parents?.length || 0) > 1} />
+              ) : (
+                <GitCommitIcon className="w-3.5 h-3.5 ml-2 text-text-muted flex-shrink-0" />
+              )}
+              <RefBadges commit={commit} />
+              <span className="text-xs text-text-primary truncate flex-1">{commit.message}</span>
+              <span className="text-[10px] text-text-muted truncate max-w-[100px] flex-shrink-0">{commit.author}</span>
+              <span className="text-[10px] text-text-muted opacity-60 flex-shrink-0 w-[70px] text-right">{commit.date.toLocaleDateString()}</span>
+              <span className="text-[10px] text-accent font-mono flex-shrink-0">{commit.shortHash}</span>
+            </div>
+          ))}
+          {isLoading && (
+            <div className="flex justify-center py-3">
+              <Loader2 className="w-4 h-4 animate-spin text-text-muted" />
+            </div>
+          )}
+          {!isLoading && commits.length === 0 && (
+            <div className="p-6 text-center text-xs text-text-muted">{language === 'zh' ? '没有匹配的提交' : 'No matching commits'}</div>
+          )}
+          {!isLoading && hasMore && (
+            <button onClick={() => loadCommits(commits.length)} className="w-full py-2 text-xs text-accent hover:bg-surface-hover">
+              {language === 'zh' ? '加载更多' : 'Load More'}
+            </button>
+          )}
+        </div>
+
+        {/* Detail panel */}
+        <div className="flex-1 min-w-0 overflow-y-auto custom-scrollbar">
+          {diff ? (
+            <div className="flex flex-col">
+              <div className="flex items-center gap-2 px-3 py-2 border-b border-border-subtle">
+                <button onClick={() => setDiff(null)} className="p-1 rounded hover:bg-surface-hover">
+                  <ArrowLeft className="w-3.5 h-3.5 text-text-muted" />
+                </button>
+                <span className="text-xs text-text-primary truncate">{getFileName(diff.path)}</span>
+                <span className="text-[10px] text-text-muted font-mono truncate">{diff.title}</span>
+              </div>
+              <div className="p-2">
+                <DiffViewer
+                  originalContent={diff.original}
+                  modifiedContent={diff.modified}
+                  filePath={diff.path}
+                  minimal={true}
+                  onAccept={() => setDiff(null)}
+                  onReject={() => setDiff(null)}
+                />
+              </div>
+            </div>
+          ) : panel?.kind === 'commit' ? (
+            <CommitDetailPanel
+              hash={panel.hash}
+              onSelectCommit={hash => setPanel({ kind: 'commit', hash })}
+              onOpenFile={(file, commit) => openDiff(
+                { rev: file.status === 'added' ? null : commit.parents?.[0] || null, path: file.path },
+                { rev: file.status === 'deleted' ? null : commit.hash, path: file.path },
+                `${commit.parents?.[0]?.slice(0, 7) || '∅'} → ${commit.shortHash}`
+              )}
+              onFileHistory={file => setPanel({ kind: 'file', path: file.path })}
+            />
+          ) : panel?.kind === 'compare' ? (
+            <ComparePanel
+              base={panel.base}
+              target={panel.target}
+              refOptions={refOptions}
+              onChange={(base, target) => setPanel({ kind: 'compare', base, target })}
+              onSelectCommit={hash => setPanel({ kind: 'commit', hash })}
+              onOpenFile={(file, comparison) => openDiff(
+                { rev: file.status === 'added' ? null : comparison.base, path: file.path },
+                { rev: file.status === 'deleted' ? null : comparison.target, path: file.path },
+                `${comparison.base} → ${comparison.target}`
+              )}
+            />
+          ) : panel?.kind === 'file' ? (
+            <FileHistoryPanel
+              path={panel.path}
+              onSelectCommit={hash => setPanel({ kind: 'commit', hash })}
+              onCompare={(from, to) => openDiff(
+                { rev: from?.hash ?? null, path: from?.path ?? to.path },
+                { rev: to.hash, path: to.path },
+                `${from?.shortHash ?? '∅'} → ${to.shortHash}`
+              )}
+            />
+          ) : (
+            <div className="h-full flex items-center justify-center text-xs text-text-muted p-6 text-center">
+              {language === 'zh'
+                ? '选择一个提交查看详情，Ctrl+点击另一个提交进行比较'
+                : 'Select a commit to see its details, Ctrl+Click another commit to compare'}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// ==================== 详情面板 ====================
+
+function CommitDetailPanel({ hash, onSelectCommit, onOpenFile, onFileHistory }: {
+  hash: string
+  onSelectCommit: (hash: string) => void
+  onOpenFile: (file: GitFileChange, commit: GitCommit) => void
+  onFileHistory: (file: GitFileChange) => void
+}) {
+  const { language } = useStore()
+  const [details, setDetails] = useState<{ commit: GitCommit; files: GitFileChange[] } | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    gitService.getCommitDetails(hash).then(async result => {
+      if (!result || cancelled) return { result, files: [] }
+      // 与第一个父提交比较，获得准确的文件状态；根提交没有父提交
+      const parent = result.commit.parents?.[0]
+      const comparison = parent ? await gitService.compareRefs(parent, result.commit.hash) : null
+      return { result, files: comparison?.files ?? result.files as GitFileChange[] }
+    }).then(({ result, files }) => {
+      if (cancelled) return
+      setDetails(result ? { commit: result.commit, files } : null)
+      setIsLoading(false)
+    })
+    return () => { cancelled = true }
+  }, [hash])
+
+  if (isLoading) {
+    return <div className="flex justify-center py-6"><Loader2 className="w-4 h-4 animate-spin text-text-muted" /></div>
+  }
+  if (!details) {
+    return <div className="p-6 text-center text-xs text-text-muted">{language === 'zh' ? '无法读取提交' : 'Failed to read commit'}</div>
+  }
+
+  const { commit, files } = details
+  return (
+    <div>
+      <div className="px-3 py-3 border-b border-border-subtle space-y-1.5">
+        <div className="text-sm text-text-primary font-medium break-words">{commit.message}</div>
+        <div className="text-[11px] text-text-muted">
+          {commit.author}{commit.email ? ` <${commit.email}>` : ''} · {commit.date.toLocaleString()}
+        </div>
+        <div className="flex items-center gap-2 text-[11px]">
+          <span className="font-mono text-accent">{commit.hash.slice(0, 12)}</span>
+          <button
+            onClick={() => { navigator.clipboard.writeText(commit.hash); toast.success(language === 'zh' ? '哈希已复制' : 'Hash copied') }}
+            className="p-0.5 rounded hover:bg-surface-hover"
+          >
+            <Copy className="w-3 h-3 text-text-muted" />
+          </button>
+          {!!commit.parents?.length && (
+            <span className="text-text-muted">
+              {language === 'zh' ? '父提交' : 'Parents'}:{' '}
+              {commit.parents.map(parent => (
+                <button key={parent} onClick={() => onSelectCommit(parent)} className="font-mono text-accent hover:underline mr-1">
+                  {parent.slice(0, 7)}
+                </button>
+              ))}
+            </span>
+          )}
+        </div>
+        {(commit.parents?.length || 0) > 1 && (
+          <div className="text-[10px] text-text-muted">
+            {language === 'zh' ? '合并提交：文件变更相对于第一个父提交' : 'Merge commit: changes are shown against the first parent'}
+          </div>
+        )}
+      </div>
+      <div className="px-3 py-1.5 text-[10px] text-text-muted uppercase tracking-wide">
+        {language === 'zh' ? `${files.length} 个文件` : `${files.length} file(s)`}
+      </div>
+      <FileChangeList files={files} onOpen={file => onOpenFile(file, commit)} onHistory={onFileHistory} />
+    </div>
+  )
+}
+
+function ComparePanel({ base, target, refOptions, onChange, onSelectCommit, onOpenFile }: {
+  base: string
+  target: string
+  refOptions: string[]
+  onChange: (base: string, target: string) => void
+  onSelectCommit: (hash: string) => void
+  onOpenFile: (file: GitFileChange, comparison: GitRefComparison) => void
+}) {
+  const { language } = useStore()
+  const [baseInput, setBaseInput] = useState(base)
+  const [targetInput, setTargetInput] = useState(target)
+  const [comparison, setComparison] = useState<GitRefComparison | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    setBaseInput(base)
+    setTargetInput(target)
+    let cancelled = false
+    setIsLoading(true)
+    gitService.compareRefs(base, target).then(result => {
+      if (cancelled) return
+      setComparison(result)
+      setIsLoading(false)
+    })
+    return () => { cancelled = true }
+  }, [base, target])
+
+  const inputClass = 'flex-1 min-w-0 h-7 px-2 text-xs font-mono bg-surface border border-border-subtle rounded text-text-primary focus:outline-none focus:border-accent'
+
+  return (
+    <div>
+      <form
+        className="flex items-center gap-2 px-3 py-2 border-b border-border-subtle"
+        onSubmit={e => { e.preventDefault(); onChange(baseInput.trim() || 'HEAD', targetInput.trim() || 'HEAD') }}
+      >
+        <input value={baseInput} onChange={e => setBaseInput(e.target.value)} list="git-ref-options" className={inputClass} />
+        <span className="text-xs text-text-muted">→</span>
+        <input value={targetInput} onChange={e => setTargetInput(e.target.value)} list="git-ref-options" className={inputClass} />
+        <datalist id="git-ref-options">
+          {refOptions.map(name => <option key={name} value={name} />)}
+        </datalist>
+        <button type="submit" className="h-7 px-2 text-xs rounded bg-accent/20 text-accent hover:bg-accent/30">
+          {language === 'zh' ? '比较' : 'Compare'}
+        </button>
+      </form>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6"><Loader2 className="w-4 h-4 animate-spin text-text-muted" /></div>
+      ) : !comparison ? (
+        <div className="p-6 text-center text-xs text-text-muted">
+          {language === 'zh' ? '无法比较，请检查提交或分支名称' : 'Cannot compare, check the commit or branch names'}
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center gap-3 px-3 py-2 text-[11px] text-text-muted border-b border-border-subtle">
+            <span className="flex items-center gap-0.5 text-green-400"><ArrowUp className="w-3 h-3" />{comparison.ahead}</span>
+            <span className="flex items-center gap-0.5 text-orange-400"><ArrowDown className="w-3 h-3" />{comparison.behind}</span>
+            <span>
+              {language === 'zh'
+                ? `${comparison.target} 领先 ${comparison.ahead} 个提交，落后 ${comparison.behind} 个提交`
+                : `${comparison.target} is ${comparison.ahead} ahead, ${comparison.behind} behind`}
+            </span>
+          </div>
+          {comparison.commits.length > 0 && (
+            <>
+              <div className="px-3 py-1.5 text-[10px] text-text-muted uppercase tracking-wide">
+                {language === 'zh' ? `${comparison.commits.length} 个提交` : `${comparison.commits.length} commit(s)`}
+              </div>
+              {comparison.commits.map(commit => (
+                <div
+                  key={commit.hash}
+                  onClick={() => onSelectCommit(commit.hash)}
+                  className="flex items-center gap-2 px-3 py-1 hover:bg-surface-hover cursor-pointer"
+                >
+                  <span className="text-[10px] text-accent font-mono flex-shrink-0">{commit.shortHash}</span>
+                  <span className="text-xs text-text-primary truncate flex-1">{commit.message}</span>
+                  <span className="text-[10px] text-text-muted flex-shrink-0">{commit.author}</span>
+                </div>
+              ))}
+            </>
+          )}
+          <div className="px-3 py-1.5 text-[10px] text-text-muted uppercase tracking-wide">
+            {language === 'zh' ? `${comparison.files.length} 个文件` : `${comparison.files.length} file(s)`}
+          </div>
+          <FileChangeList files={comparison.files} onOpen={file => onOpenFile(file, comparison)} />
+        </>
+      )}
+    </div>
+  )
+}
+
+function FileHistoryPanel({ path, onSelectCommit, onCompare }: {
+  path: string
+  onSelectCommit: (hash: string) => void
+  /** from 为 null 表示与空文件比较（文件新增） */
+  onCompare: (from: GitFileRevision | null, to: GitFileRevision) => void
+}) {
+  const { language } = useStore()
+  const [revisions, setRevisions] = useState<GitFileRevision[]>([])
+  const [checked, setChecked] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    setChecked([])
+    gitService.getFileRevisions(path).then(result => {
+      if (cancelled) return
+      // 工作区版本放在时间线顶部
+      const working: GitFileRevision = {
+        hash: WORKING_TREE,
+        shortHash: language === 'zh' ? '工作区' : 'Working Tree',
+        message: language === 'zh' ? '当前文件' : 'Current file',
+        author: '',
+        date: new Date(),
+        path: result[0]?.path ?? path,
+        status: 'modified',
+      }
+      setRevisions([working, ...result])
+      setIsLoading(false)
+    })
+    return () => { cancelled = true }
+  }, [path, language])
+
+  const toggleChecked = (hash: string) => {
+    setChecked(prev => prev.includes(hash) ? prev.filter(h => h !== hash) : [...prev, hash].slice(-2))
+  }
+
+  // 与时间线中的上一个版本比较
+  const compareWithPrevious = (index: number) => {
+    const revision = revisions[index]
+    const previous = revision.status === 'added' ? null : revisions[index + 1] ?? null
+    onCompare(previous, revision)
+  }
+
+  const compareChecked = () => {
+    // 按时间线顺序：较旧的版本在左
+    const [newer, older] = revisions.filter(r => checked.includes(r.hash))
+    if (newer && older) onCompare(older, newer)
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border-subtle">
+        <FileText className="w-3.5 h-3.5 text-accent flex-shrink-0" />
+        <span className="text-xs text-text-primary truncate flex-1" title={path}>{path}</span>
+        <button
+          onClick={compareChecked}
+          disabled={checked.length !== 2}
+          className="h-6 px-2 text-[11px] rounded bg-accent/20 text-accent hover:bg-accent/30 disabled:opacity-40"
+        >
+          {language === 'zh' ? '比较所选版本' : 'Compare Selected'}
+        </button>
+      </div>
+      {isLoading ? (
+        <div className="flex justify-center py-6"><Loader2 className="w-4 h-4 animate-spin text-text-muted" /></div>
+      ) : (
+        <div className="relative">
+          {revisions.map((revision, index) => (
+            <div
+              key={revision.hash}
+              onClick={() => compareWithPrevious(index)}
+              className="group flex items-start gap-2 px-3 py-1.5 hover:bg-surface-hover cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={checked.includes(revision.hash)}
+                onClick={e => e.stopPropagation()}
+                onChange={() => toggleChecked(revision.hash)}
+                className="mt-0.5 flex-shrink-0"
+              />
+              <div className="flex flex-col items-center flex-shrink-0 pt-1">
+                <span className={`w-2 h-2 rounded-full ${revision.hash === WORKING_TREE ? 'bg-text-muted' : 'bg-accent'}`} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="text-xs text-text-primary truncate">{revision.message}</div>
+                <div className="flex items-center gap-2 text-[10px] text-text-muted">
+                  {revision.hash === WORKING_TREE ? (
+                    <span>{revision.shortHash}</span>
+                  ) : (
+                    <>
+                      <button
+                        onClick={e => { e.stopPropagation(); onSelectCommit(revision.hash) }}
+                        className="font-mono text-accent hover:underline"
+                      >
+                        {revision.shortHash}
+                      </button>
+                      <span>{revision.author}</span>
+                      <span className="opacity-60">{revision.date.toLocaleDateString()}</span>
+                      {revision.path !== revisions[index - 1]?.path && index > 1 && (
+                        <span className="text-blue-400 truncate">{revision.path}</span>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+          {revisions.length <= 1 && (
+            <div className="p-6 text-center text-xs text-text-muted">
+              {language === 'zh' ? '该文件没有提交历史' : 'This file has no commit history'}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
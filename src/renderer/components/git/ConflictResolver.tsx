@@ -1,27 +1,28 @@
 /**
  * Git 冲突解决组件
- * 提供三方合并视图和冲突解决操作
+ * 三方视图（base / ours / theirs 取自暂存区 stage 1/2/3）、逐块选择与 AI 合并建议，
+ * 标记解决前通过 get_lint_errors 检查结果
  */
 
 import { api } from '@/renderer/services/electronAPI'
-import { useState, useEffect, useCallback } from 'react'
-import { GitMerge, Check, X, ArrowLeft, ArrowRight, RefreshCw } from 'lucide-react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { GitMerge, Check, X, ArrowLeft, ArrowRight, RefreshCw, Sparkles, Undo2, Loader2 } from 'lucide-react'
 import { useStore } from '@store'
-import { t } from '@renderer/i18n'
+import { t, type TranslationKey } from '@renderer/i18n'
 import { gitService } from '@renderer/agent/services/gitService'
+import {
+  mergeConflictService,
+  parseConflictSegments,
+  getConflictHunks,
+  attachBase,
+  buildResolvedContent,
+  type ConflictSegment,
+  type ConflictHunk,
+  type ConflictSides,
+} from '@services/mergeConflictService'
 import { toast } from '@components/common/ToastProvider'
 import { Button } from '@components/ui'
-
-interface ConflictMarker {
-  startLine: number
-  endLine: number
-  oursStart: number
-  oursEnd: number
-  theirsStart: number
-  theirsEnd: number
-  baseStart?: number
-  baseEnd?: number
-}
+import DiffViewer from '../editor/DiffViewer'
 
 interface ConflictResolverProps {
   filePath: string
@@ -29,108 +30,63 @@ interface ConflictResolverProps {
   onCancel: () => void
 }
 
-/**
- * 解析冲突标记
- */
-function parseConflicts(content: string): ConflictMarker[] {
-  const lines = content.split('\n')
-  const conflicts: ConflictMarker[] = []
-  
-  let i = 0
-  while (i < lines.length) {
-    if (lines[i].startsWith('<<<<<<<')) {
-      const startLine = i
-      let oursEnd = i
-      let baseStart: number | undefined
-      let baseEnd: number | undefined
-      let theirsStart = i
-      let endLine = i
-      
-      // 查找 ours 部分结束
-      while (i < lines.length && !lines[i].startsWith('|||||||') && !lines[i].startsWith('=======')) {
-        i++
-      }
-      oursEnd = i - 1
-      
-      // 检查是否有 base 部分 (diff3 格式)
-      if (lines[i]?.startsWith('|||||||')) {
-        baseStart = i + 1
-        i++
-        while (i < lines.length && !lines[i].startsWith('=======')) {
-          i++
-        }
-        baseEnd = i - 1
-      }
-      
-      // 查找 theirs 部分
-      if (lines[i]?.startsWith('=======')) {
-        theirsStart = i + 1
-        i++
-        while (i < lines.length && !lines[i].startsWith('>>>>>>>')) {
-          i++
-        }
-        endLine = i
-      }
-      
-      conflicts.push({
-        startLine,
-        endLine,
-        oursStart: startLine + 1,
-        oursEnd,
-        theirsStart,
-        theirsEnd: endLine - 1,
-        baseStart,
-        baseEnd,
-      })
-    }
-    i++
-  }
-  
-  return conflicts
+/** AI 合并建议 */
+interface Proposal {
+  status: 'pending' | 'done' | 'error'
+  lines?: string[]
+  error?: string
 }
 
-/**
- * 提取冲突区域的内容
- */
-function extractConflictContent(content: string, marker: ConflictMarker): {
-  ours: string
-  theirs: string
-  base?: string
-} {
-  const lines = content.split('\n')
-  
-  return {
-    ours: lines.slice(marker.oursStart, marker.oursEnd + 1).join('\n'),
-    theirs: lines.slice(marker.theirsStart, marker.theirsEnd + 1).join('\n'),
-    base: marker.baseStart !== undefined && marker.baseEnd !== undefined
-      ? lines.slice(marker.baseStart, marker.baseEnd + 1).join('\n')
-      : undefined,
-  }
+// 冲突块的一侧
+function HunkColumn({ title, lines, className, emptyText }: {
+  title: string
+  lines: string[] | null
+  className: string
+  emptyText?: string
+}) {
+  return (
+    <div className="flex flex-col min-h-0 border border-border-subtle rounded-lg overflow-hidden">
+      <div className={`px-3 py-1.5 border-b border-border-subtle ${className}`}>
+        <span className="text-xs font-medium">{title}</span>
+      </div>
+      {lines === null ? (
+        <div className="flex-1 p-3 text-xs text-text-muted italic bg-surface/30">{emptyText}</div>
+      ) : (
+        <pre className="flex-1 p-3 text-xs font-mono overflow-auto bg-surface/30">{lines.join('\n')}</pre>
+      )}
+    </div>
+  )
 }
 
 export function ConflictResolver({ filePath, onResolved, onCancel }: ConflictResolverProps) {
   const { language } = useStore()
-  const [content, setContent] = useState<string>('')
-  const [conflicts, setConflicts] = useState<ConflictMarker[]>([])
+  const [segments, setSegments] = useState<ConflictSegment[]>([])
+  const [resolutions, setResolutions] = useState<Record<number, string[]>>({})
+  const [proposals, setProposals] = useState<Record<number, Proposal>>({})
   const [currentConflict, setCurrentConflict] = useState(0)
-  const [resolvedContent, setResolvedContent] = useState<string>('')
   const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const sidesRef = useRef<Promise<ConflictSides> | null>(null)
 
-  const tt = useCallback((key: string) => t(key as any, language), [language])
+  const tt = useCallback((key: TranslationKey, params?: Record<string, string | number>) => t(key, language, params), [language])
 
-  // 加载文件内容
+  // 加载冲突文件与三方版本
   useEffect(() => {
     const loadFile = async () => {
       setIsLoading(true)
       try {
-        const fileContent = await api.file.read(filePath)
-        if (fileContent) {
-          setContent(fileContent)
-          setResolvedContent(fileContent)
-          setConflicts(parseConflicts(fileContent))
+        const [fileContent, stages] = await Promise.all([
+          api.file.read(filePath),
+          mergeConflictService.loadStages(filePath),
+        ])
+        if (fileContent !== null) {
+          setSegments(attachBase(parseConflictSegments(fileContent), stages))
+          setResolutions({})
+          setProposals({})
+          setCurrentConflict(0)
         }
       } catch (e) {
-        toast.error('Failed to load file')
+        toast.error(tt('git.conflictLoadFailed'))
       } finally {
         setIsLoading(false)
       }
@@ -138,105 +94,101 @@ export function ConflictResolver({ filePath, onResolved, onCancel }: ConflictRes
     loadFile()
   }, [filePath])
 
-  // 选择 ours 版本
-  const acceptOurs = useCallback(() => {
-    if (conflicts.length === 0) return
-    
-    const marker = conflicts[currentConflict]
-    const { ours } = extractConflictContent(content, marker)
-    
-    const lines = resolvedContent.split('\n')
-    const before = lines.slice(0, marker.startLine)
-    const after = lines.slice(marker.endLine + 1)
-    
-    const newContent = [...before, ours, ...after].join('\n')
-    setResolvedContent(newContent)
-    
-    // 更新冲突列表
-    const newConflicts = parseConflicts(newContent)
-    setConflicts(newConflicts)
-    
-    if (currentConflict >= newConflicts.length && newConflicts.length > 0) {
-      setCurrentConflict(newConflicts.length - 1)
-    }
-  }, [conflicts, currentConflict, content, resolvedContent])
+  const hunks = useMemo(() => getConflictHunks(segments), [segments])
+  const unresolvedCount = hunks.filter(h => !resolutions[h.index]).length
 
-  // 选择 theirs 版本
-  const acceptTheirs = useCallback(() => {
-    if (conflicts.length === 0) return
-    
-    const marker = conflicts[currentConflict]
-    const { theirs } = extractConflictContent(content, marker)
-    
-    const lines = resolvedContent.split('\n')
-    const before = lines.slice(0, marker.startLine)
-    const after = lines.slice(marker.endLine + 1)
-    
-    const newContent = [...before, theirs, ...after].join('\n')
-    setResolvedContent(newContent)
-    
-    // 更新冲突列表
-    const newConflicts = parseConflicts(newContent)
-    setConflicts(newConflicts)
-    
-    if (currentConflict >= newConflicts.length && newConflicts.length > 0) {
-      setCurrentConflict(newConflicts.length - 1)
-    }
-  }, [conflicts, currentConflict, content, resolvedContent])
+  // 解决当前冲突块，并跳到下一个未解决的冲突块
+  const resolveHunk = useCallback((hunk: ConflictHunk, lines: string[]) => {
+    setResolutions(prev => ({ ...prev, [hunk.index]: lines }))
+    const next = hunks.findIndex(h => h.index > hunk.index && !resolutions[h.index])
+    if (next !== -1) setCurrentConflict(next)
+  }, [hunks, resolutions])
+
+  const undoResolution = useCallback((hunk: ConflictHunk) => {
+    setResolutions(prev => {
+      const { [hunk.index]: _removed, ...rest } = prev
+      return rest
+    })
+  }, [])
 
-  // 接受两者
-  const acceptBoth = useCallback(() => {
-    if (conflicts.length === 0) return
-    
-    const marker = conflicts[currentConflict]
-    const { ours, theirs } = extractConflictContent(content, marker)
-    
-    const lines = resolvedContent.split('\n')
-    const before = lines.slice(0, marker.startLine)
-    const after = lines.slice(marker.endLine + 1)
-    
-    const newContent = [...before, ours, theirs, ...after].join('\n')
-    setResolvedContent(newContent)
-    
-    // 更新冲突列表
-    const newConflicts = parseConflicts(newContent)
-    setConflicts(newConflicts)
-    
-    if (currentConflict >= newConflicts.length && newConflicts.length > 0) {
-      setCurrentConflict(newConflicts.length - 1)
+  // AI 生成合并建议
+  const runAI = useCallback(async (targets: ConflictHunk[]) => {
+    sidesRef.current ??= mergeConflictService.loadSides(filePath)
+    const sides = await sidesRef.current
+
+    setProposals(prev => ({ ...prev, ...Object.fromEntries(targets.map(h => [h.index, { status: 'pending' as const }])) }))
+    let failed = 0
+    for (const hunk of targets) {
+      const result = await mergeConflictService.resolveHunk(filePath, segments, hunk, sides)
+      if (!result.lines) failed++
+      setProposals(prev => ({
+        ...prev,
+        [hunk.index]: result.lines ? { status: 'done', lines: result.lines } : { status: 'error', error: result.error },
+      }))
     }
-  }, [conflicts, currentConflict, content, resolvedContent])
+    if (failed > 0) toast.error(tt('git.aiResolveFailed'), `${failed} / ${targets.length}`)
+  }, [filePath, segments, tt])
+
+  const discardProposal = useCallback((hunk: ConflictHunk) => {
+    setProposals(prev => {
+      const { [hunk.index]: _removed, ...rest } = prev
+      return rest
+    })
+  }, [])
 
-  // 保存并标记为已解决
+  // 保存、检查并标记为已解决
   const saveAndResolve = useCallback(async () => {
-    if (conflicts.length > 0) {
+    if (unresolvedCount > 0) {
       toast.warning(tt('git.unresolvedConflicts'))
       return
     }
-    
+
+    setIsSaving(true)
     try {
-      await api.file.write(filePath, resolvedContent)
+      const content = buildResolvedContent(segments, resolutions)
+      if (!await api.file.write(filePath, content)) {
+        toast.error(tt('git.conflictSaveFailed'))
+        return
+      }
+      useStore.getState().reloadFileFromDisk(filePath, content)
+
+      const lintErrors = await mergeConflictService.verify(filePath)
+      if (lintErrors.length > 0) {
+        const { globalConfirm } = await import('@components/common/ConfirmDialog')
+        const confirmed = await globalConfirm({
+          title: tt('git.lintErrorsFound'),
+          message: `${tt('git.lintErrorsConfirm', { count: lintErrors.length })}\n\n${lintErrors.slice(0, 5).join('\n')}`,
+          confirmText: tt('git.markResolved'),
+          variant: 'danger',
+        })
+        if (!confirmed) return
+      }
+
       await gitService.stageFile(filePath)
       toast.success(tt('git.conflictResolved'))
       onResolved()
     } catch (e) {
-      toast.error('Failed to save file')
+      toast.error(tt('git.conflictSaveFailed'))
+    } finally {
+      setIsSaving(false)
     }
-  }, [conflicts, filePath, resolvedContent, tt, onResolved])
+  }, [unresolvedCount, segments, resolutions, filePath, tt, onResolved])
 
   if (isLoading) {
     return (
-      <div className="flex items-center justify-center h-full">
+      <div className="flex items-center justify-center h-[80vh]">
         <RefreshCw className="w-6 h-6 animate-spin text-accent" />
       </div>
     )
   }
 
-  const currentMarker = conflicts[currentConflict]
-  const currentContent = currentMarker ? extractConflictContent(content, currentMarker) : null
+  const currentHunk = hunks[currentConflict]
+  const resolved = currentHunk ? resolutions[currentHunk.index] : undefined
+  const proposal = currentHunk ? proposals[currentHunk.index] : undefined
+  const isAIRunning = Object.values(proposals).some(p => p.status === 'pending')
 
   return (
-    <div className="flex flex-col h-full bg-background">
+    <div className="flex flex-col h-[80vh] bg-background">
       {/* 头部 */}
       <div className="flex items-center justify-between px-4 py-2 border-b border-border-subtle bg-surface">
         <div className="flex items-center gap-2">
@@ -247,10 +199,21 @@ export function ConflictResolver({ filePath, onResolved, onCancel }: ConflictRes
           </span>
         </div>
         <div className="flex items-center gap-2">
-          {conflicts.length > 0 && (
-            <span className="text-xs text-status-warning">
-              {conflicts.length} {tt('git.conflictsRemaining')}
-            </span>
+          {unresolvedCount > 0 && (
+            <>
+              <span className="text-xs text-status-warning">
+                {unresolvedCount} {tt('git.conflictsRemaining')}
+              </span>
+              <Button
+                variant="secondary"
+                size="sm"
+                disabled={isAIRunning}
+                onClick={() => runAI(hunks.filter(h => !resolutions[h.index]))}
+              >
+                <Sparkles className="w-3.5 h-3.5 mr-1" />
+                {tt('git.aiResolveAll')}
+              </Button>
+            </>
           )}
           <Button variant="ghost" size="sm" onClick={onCancel}>
             <X className="w-4 h-4" />
@@ -259,7 +222,7 @@ export function ConflictResolver({ filePath, onResolved, onCancel }: ConflictRes
       </div>
 
       {/* 冲突导航 */}
-      {conflicts.length > 0 && (
+      {currentHunk && (
         <div className="flex items-center justify-between px-4 py-2 border-b border-border-subtle bg-surface/50">
           <div className="flex items-center gap-2">
             <Button
@@ -271,58 +234,131 @@ export function ConflictResolver({ filePath, onResolved, onCancel }: ConflictRes
               <ArrowLeft className="w-4 h-4" />
             </Button>
             <span className="text-xs">
-              {currentConflict + 1} / {conflicts.length}
+              {currentConflict + 1} / {hunks.length}
             </span>
             <Button
               variant="ghost"
               size="sm"
-              disabled={currentConflict >= conflicts.length - 1}
-              onClick={() => setCurrentConflict(c => Math.min(conflicts.length - 1, c + 1))}
+              disabled={currentConflict >= hunks.length - 1}
+              onClick={() => setCurrentConflict(c => Math.min(hunks.length - 1, c + 1))}
             >
               <ArrowRight className="w-4 h-4" />
             </Button>
+            {resolved && (
+              <span className="flex items-center gap-1 text-xs text-green-400">
+                <Check className="w-3.5 h-3.5" /> {tt('git.conflictResolved')}
+              </span>
+            )}
           </div>
           <div className="flex items-center gap-2">
-            <Button variant="secondary" size="sm" onClick={acceptOurs}>
+            <Button variant="secondary" size="sm" onClick={() => resolveHunk(currentHunk, currentHunk.ours)}>
               {tt('git.acceptOurs')}
             </Button>
-            <Button variant="secondary" size="sm" onClick={acceptTheirs}>
+            <Button variant="secondary" size="sm" onClick={() => resolveHunk(currentHunk, currentHunk.theirs)}>
               {tt('git.acceptTheirs')}
             </Button>
-            <Button variant="secondary" size="sm" onClick={acceptBoth}>
+            <Button variant="secondary" size="sm" onClick={() => resolveHunk(currentHunk, [...currentHunk.ours, ...currentHunk.theirs])}>
               {tt('git.acceptBoth')}
             </Button>
+            {currentHunk.base && (
+              <Button variant="secondary" size="sm" onClick={() => resolveHunk(currentHunk, currentHunk.base!)}>
+                {tt('git.acceptBase')}
+              </Button>
+            )}
+            <Button
+              variant="secondary"
+              size="sm"
+              disabled={proposal?.status === 'pending'}
+              onClick={() => runAI([currentHunk])}
+            >
+              <Sparkles className="w-3.5 h-3.5 mr-1" />
+              {tt('git.aiResolve')}
+            </Button>
           </div>
         </div>
       )}
 
       {/* 冲突内容 */}
       <div className="flex-1 overflow-auto p-4">
-        {currentContent ? (
-          <div className="grid grid-cols-2 gap-4 h-full">
-            {/* Ours */}
-            <div className="flex flex-col border border-border-subtle rounded-lg overflow-hidden">
-              <div className="px-3 py-1.5 bg-green-500/10 border-b border-border-subtle">
-                <span className="text-xs font-medium text-green-400">
-                  {tt('git.currentChanges')} (Ours)
-                </span>
-              </div>
-              <pre className="flex-1 p-3 text-xs font-mono overflow-auto bg-surface/30">
-                {currentContent.ours}
-              </pre>
+        {currentHunk ? (
+          <div className="flex flex-col gap-4 h-full">
+            <div className="grid grid-cols-3 gap-4 flex-1 min-h-[160px]">
+              <HunkColumn
+                title={`${tt('git.currentChanges')} (Ours${currentHunk.oursLabel ? `: ${currentHunk.oursLabel}` : ''})`}
+                lines={currentHunk.ours}
+                className="bg-green-500/10 text-green-400"
+              />
+              <HunkColumn
+                title={tt('git.commonAncestor')}
+                lines={currentHunk.base}
+                className="bg-surface-hover text-text-secondary"
+                emptyText={tt('git.baseUnknown')}
+              />
+              <HunkColumn
+                title={`${tt('git.incomingChanges')} (Theirs${currentHunk.theirsLabel ? `: ${currentHunk.theirsLabel}` : ''})`}
+                lines={currentHunk.theirs}
+                className="bg-blue-500/10 text-blue-400"
+              />
             </div>
 
-            {/* Theirs */}
-            <div className="flex flex-col border border-border-subtle rounded-lg overflow-hidden">
-              <div className="px-3 py-1.5 bg-blue-500/10 border-b border-border-subtle">
-                <span className="text-xs font-medium text-blue-400">
-                  {tt('git.incomingChanges')} (Theirs)
-                </span>
+            {/* AI 合并建议 */}
+            {proposal && (
+              <div className="flex flex-col border border-accent/30 rounded-lg overflow-hidden">
+                <div className="flex items-center justify-between px-3 py-1.5 bg-accent/10 border-b border-border-subtle">
+                  <span className="flex items-center gap-1.5 text-xs font-medium text-accent">
+                    <Sparkles className="w-3.5 h-3.5" />
+                    {proposal.status === 'pending' ? tt('git.aiResolving') : tt('git.aiProposal')}
+                  </span>
+                  {proposal.status !== 'pending' && (
+                    <div className="flex items-center gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => discardProposal(currentHunk)}>
+                        {tt('git.discardProposal')}
+                      </Button>
+                      {proposal.lines && (
+                        <Button variant="primary" size="sm" onClick={() => resolveHunk(currentHunk, proposal.lines!)}>
+                          <Check className="w-3.5 h-3.5 mr-1" />
+                          {tt('git.acceptProposal')}
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+                {proposal.status === 'pending' && (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="w-4 h-4 animate-spin text-accent" />
+                  </div>
+                )}
+                {proposal.status === 'error' && (
+                  <div className="p-3 text-xs text-red-400">{proposal.error}</div>
+                )}
+                {proposal.lines && (
+                  <div className="max-h-[280px] overflow-auto">
+                    <DiffViewer
+                      originalContent={currentHunk.ours.join('\n')}
+                      modifiedContent={proposal.lines.join('\n')}
+                      filePath={filePath}
+                      minimal={true}
+                      onAccept={() => resolveHunk(currentHunk, proposal.lines!)}
+                      onReject={() => discardProposal(currentHunk)}
+                    />
+                  </div>
+                )}
               </div>
-              <pre className="flex-1 p-3 text-xs font-mono overflow-auto bg-surface/30">
-                {currentContent.theirs}
-              </pre>
-            </div>
+            )}
+
+            {/* 当前冲突块的解决结果 */}
+            {resolved && (
+              <div className="flex flex-col border border-green-500/30 rounded-lg overflow-hidden">
+                <div className="flex items-center justify-between px-3 py-1.5 bg-green-500/10 border-b border-border-subtle">
+                  <span className="text-xs font-medium text-green-400">{tt('git.resolutionResult')}</span>
+                  <Button variant="ghost" size="sm" onClick={() => undoResolution(currentHunk)}>
+                    <Undo2 className="w-3.5 h-3.5 mr-1" />
+                    {tt('git.undoResolution')}
+                  </Button>
+                </div>
+                <pre className="p-3 text-xs font-mono overflow-auto max-h-[200px] bg-surface/30">{resolved.join('\n')}</pre>
+              </div>
+            )}
           </div>
         ) : (
           <div className="flex flex-col items-center justify-center h-full text-text-muted">
@@ -339,10 +375,10 @@ export function ConflictResolver({ filePath, onResolved, onCancel }: ConflictRes
         </Button>
         <Button
           variant="primary"
-          disabled={conflicts.length > 0}
+          disabled={unresolvedCount > 0 || isSaving}
           onClick={saveAndResolve}
         >
-          <Check className="w-4 h-4 mr-1" />
+          {isSaving ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Check className="w-4 h-4 mr-1" />}
           {tt('git.markResolved')}
         </Button>
       </div>
@@ -3,3 +3,4 @@
  */
 
 export { ConflictResolver } from './ConflictResolver'
+export { CommitHistory } from './CommitHistory'
@@ -1,4 +1,4 @@
-import { Files, Search, GitBranch, Settings, Sparkles, AlertCircle, ListTree, History } from 'lucide-react'
+import { Files, Search, GitBranch, Settings, Sparkles, AlertCircle, ListTree, History, FlaskConical } from 'lucide-react'
 import { Tooltip } from '../ui/Tooltip'
 import { useStore } from '@store'
 import { t } from '@renderer/i18n'
@@ -13,6 +13,7 @@ export default function ActivityBar() {
     { id: 'problems', icon: AlertCircle, label: language === 'zh' ? '问题' : 'Problems' },
     { id: 'outline', icon: ListTree, label: language === 'zh' ? '大纲' : 'Outline' },
     { id: 'history', icon: History, label: language === 'zh' ? '历史' : 'History' },
+    { id: 'tests', icon: FlaskConical, label: language === 'zh' ? '测试' : 'Tests' },
   ] as const
 
   return (
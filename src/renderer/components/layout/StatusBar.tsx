@@ -15,11 +15,13 @@ import {
   Minimize2,
   MessageSquare,
   Bug,
+  Keyboard,
 } from 'lucide-react'
 import { useStore } from '@store'
 import { t } from '@renderer/i18n'
 import { IndexStatus } from '@app-types/electron'
 import { indexWorkerService, IndexProgress } from '@services/indexWorkerService'
+import { keybindingService } from '@services/keybindingService'
 import BottomBarPopover from '../ui/BottomBarPopover'
 import ToolCallLogContent from '../panels/ToolCallLogContent'
 import TokenStatsContent from '../panels/TokenStatsContent'
@@ -38,6 +40,7 @@ export default function StatusBar() {
   } = useStore()
   const [indexStatus, setIndexStatus] = useState<IndexStatus | null>(null)
   const [workerProgress, setWorkerProgress] = useState<IndexProgress | null>(null)
+  const [pendingChord, setPendingChord] = useState<string | null>(null)
   
   // Token 阈值（从配置获取）
   const maxContextTokens = agentConfig.maxContextTokens ?? AGENT_DEFAULTS.MAX_CONTEXT_TOKENS
@@ -69,6 +72,8 @@ export default function StatusBar() {
         totalUsage.promptTokens += msg.usage.promptTokens
         totalUsage.completionTokens += msg.usage.completionTokens
         totalUsage.totalTokens += msg.usage.totalTokens
+        totalUsage.cacheReadTokens = (totalUsage.cacheReadTokens || 0) + (msg.usage.cacheReadTokens || 0)
+        totalUsage.cacheWriteTokens = (totalUsage.cacheWriteTokens || 0) + (msg.usage.cacheWriteTokens || 0)
         lastUsage = msg.usage
       }
     }
@@ -96,6 +101,9 @@ export default function StatusBar() {
     }
   }, [])
 
+  // 监听组合键状态
+  useEffect(() => keybindingService.onChordChange(setPendingChord), [])
+
   // 监听索引状态
   useEffect(() => {
     if (!workspacePath) {
@@ -149,6 +157,18 @@ export default function StatusBar() {
           </div>
         </button>
 
+        {/* 组合键等待第二个按键 */}
+        {pendingChord && (
+          <div className="flex items-center gap-1.5 text-accent animate-fade-in">
+            <Keyboard className="w-3 h-3" />
+            <span>
+              {language === 'zh'
+                ? `已按下 (${pendingChord})，等待组合键的下一个按键...`
+                : `(${pendingChord}) was pressed. Waiting for next key of chord...`}
+            </span>
+          </div>
+        )}
+
         {/* Worker 状态 */}
         {workerProgress && !workerProgress.isComplete && workerProgress.total > 0 && (
           <div className="flex items-center gap-1.5 text-accent animate-fade-in">
@@ -169,7 +189,11 @@ export default function StatusBar() {
             {indexStatus?.isIndexing ? (
               <>
                 <Loader2 className="w-3 h-3 animate-spin text-accent" />
-                <span className="text-accent hidden sm:inline">Indexing...</span>
+                <span className="text-accent hidden sm:inline">
+                  {indexStatus.modelProgress?.status === 'downloading'
+                    ? `Model ${indexStatus.modelProgress.progress}%`
+                    : 'Indexing...'}
+                </span>
               </>
             ) : indexStatus?.totalChunks ? (
               <CheckCircle2 className="w-3 h-3 text-green-400/70 group-hover:text-green-400 transition-colors" />
@@ -21,6 +21,8 @@ import { useStore } from '@store'
 import DiffViewer from '../editor/DiffViewer'
 import { t } from '@renderer/i18n'
 import { composerService, FileChange } from '@renderer/agent/services/composerService'
+import { modelRouter } from '@services/modelRouter'
+import type { LLMResult } from '@renderer/types/electron'
 import { getEditorConfig } from '@renderer/config/editorConfig'
 
 interface FileEdit {
@@ -679,8 +681,9 @@ async function generateComposerEdits(
     )
 
     unsubscribers.push(
-      api.llm.onDone(() => {
+      api.llm.onDone((done: LLMResult) => {
         cleanup()
+        modelRouter.recordUsage(config, done.usage)
 
         // 解析响应
         const edits: Omit<FileEdit, 'status'>[] = []
@@ -234,6 +234,11 @@ export default function DebugPanel() {
       return
     }
 
+    await startSession(resolvedConfig)
+  }
+
+  // 创建会话、同步断点并启动
+  const startSession = async (resolvedConfig: DebugConfig) => {
     try {
       // 创建会话
       const createResult = await api.debug.createSession(resolvedConfig)
@@ -262,6 +267,19 @@ export default function DebugPanel() {
     }
   }
 
+  // 外部事件（如 Test Explorer 调试单个测试）直接使用给定的配置启动
+  const startSessionRef = useRef(startSession)
+  startSessionRef.current = startSession
+
+  useEffect(() => {
+    const handleStartConfigEvent = (e: Event) => {
+      const config = (e as CustomEvent<DebugConfig>).detail
+      if (config) startSessionRef.current(config)
+    }
+    window.addEventListener('debug:startConfig', handleStartConfigEvent)
+    return () => window.removeEventListener('debug:startConfig', handleStartConfigEvent)
+  }, [])
+
   // 同步断点到调试器
   const syncBreakpoints = async (sessionId: string) => {
     // 按文件分组断点
@@ -1,15 +1,26 @@
-
-import { useEffect, useState } from 'react'
-import { Search, RotateCcw } from 'lucide-react'
+import { api } from '@/renderer/services/electronAPI'
+import { useEffect, useRef, useState } from 'react'
+import { Search, RotateCcw, AlertTriangle, Upload } from 'lucide-react'
+import { useStore } from '@store'
 import { keybindingService, Command } from '@services/keybindingService'
 import { registerCoreCommands } from '@renderer/config/commands'
+import { formatKeybinding, eventToKeyStroke, KeyStroke } from '@utils/keybindings'
+import { toast } from '@components/common/ToastProvider'
 import { Input, Button, Modal } from '../ui'
 
+// 组合键最多两段
+const MAX_CHORD_STROKES = 2
+
 export default function KeybindingPanel() {
+    const { language } = useStore()
     const [commands, setCommands] = useState<Command[]>([])
     const [bindings, setBindings] = useState<Record<string, string>>({})
     const [searchQuery, setSearchQuery] = useState('')
     const [recordingId, setRecordingId] = useState<string | null>(null)
+    const [recordedStrokes, setRecordedStrokes] = useState<KeyStroke[]>([])
+    const [recordedWhen, setRecordedWhen] = useState('')
+    const recorderRef = useRef<HTMLDivElement>(null)
+    const isZh = language === 'zh'
 
     useEffect(() => {
         registerCoreCommands()
@@ -18,36 +29,57 @@ export default function KeybindingPanel() {
         })
     }, [])
 
+    useEffect(() => {
+        if (recordingId) recorderRef.current?.focus()
+    }, [recordingId])
+
     const loadData = () => {
         setCommands(keybindingService.getAllCommands())
         const newBindings: Record<string, string> = {}
         keybindingService.getAllCommands().forEach(cmd => {
             const binding = keybindingService.getBinding(cmd.id)
-            if (binding) newBindings[cmd.id] = binding
+            if (binding) newBindings[cmd.id] = formatKeybinding(binding)
         })
         setBindings(newBindings)
     }
 
-    const handleKeyDown = async (e: React.KeyboardEvent) => {
+    const startRecording = (id: string) => {
+        setRecordingId(id)
+        setRecordedStrokes([])
+        setRecordedWhen(keybindingService.getWhen(id) ?? '')
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
         if (!recordingId) return
         e.preventDefault()
         e.stopPropagation()
 
-        const modifiers = []
-        if (e.ctrlKey) modifiers.push('Ctrl')
-        if (e.shiftKey) modifiers.push('Shift')
-        if (e.altKey) modifiers.push('Alt')
-        if (e.metaKey) modifiers.push('Meta')
-
-        let key = e.key
-        if (key === 'Control' || key === 'Shift' || key === 'Alt' || key === 'Meta') return
+        if (e.key === 'Escape' && !e.ctrlKey && !e.shiftKey && !e.altKey && !e.metaKey && recordedStrokes.length === 0) {
+            setRecordingId(null)
+            return
+        }
+        // 已录制按键后，单独按 Enter 表示确认
+        if (e.key === 'Enter' && !e.ctrlKey && !e.shiftKey && !e.altKey && !e.metaKey && recordedStrokes.length > 0) {
+            handleSave()
+            return
+        }
+
+        const stroke = eventToKeyStroke(e)
+        if (!stroke) return
+        setRecordedStrokes(prev => prev.length >= MAX_CHORD_STROKES ? [stroke] : [...prev, stroke])
+    }
 
-        if (key === ' ') key = 'Space'
-        if (key.length === 1) key = key.toUpperCase()
+    const recordedKey = recordedStrokes.length > 0
+        ? formatKeybinding(recordedStrokes)
+        : (recordingId && keybindingService.getBinding(recordingId)) || ''
 
-        const binding = [...modifiers, key].join('+')
+    const recordingConflicts = recordingId && recordedKey
+        ? keybindingService.getConflicts(recordingId, { commandId: recordingId, key: recordedKey, when: recordedWhen })
+        : []
 
-        await keybindingService.updateBinding(recordingId, binding)
+    const handleSave = async () => {
+        if (!recordingId || !recordedKey) return
+        await keybindingService.updateBinding(recordingId, recordedKey, recordedWhen)
         setRecordingId(null)
         loadData()
     }
@@ -57,9 +89,29 @@ export default function KeybindingPanel() {
         loadData()
     }
 
+    const handleImport = async () => {
+        const file = await api.file.open()
+        if (!file) return
+        try {
+            const result = await keybindingService.importVSCodeKeybindings(file.content)
+            toast.success(
+                isZh ? `已导入 ${result.imported} 个快捷键` : `Imported ${result.imported} keybindings`,
+                [
+                    result.removed > 0 ? (isZh ? `移除 ${result.removed} 个默认绑定` : `${result.removed} default bindings removed`) : '',
+                    result.skipped.length > 0 ? (isZh ? `跳过不支持的命令：${result.skipped.slice(0, 5).join(', ')}` : `Skipped unsupported commands: ${result.skipped.slice(0, 5).join(', ')}`) : '',
+                ].filter(Boolean).join('\n') || undefined
+            )
+            loadData()
+        } catch (e) {
+            toast.error(isZh ? '导入 keybindings.json 失败' : 'Failed to import keybindings.json', e instanceof Error ? e.message : String(e))
+        }
+    }
+
+    const query = searchQuery.toLowerCase()
     const filteredCommands = commands.filter(cmd =>
-        cmd.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        (cmd.category && cmd.category.toLowerCase().includes(searchQuery.toLowerCase()))
+        cmd.title.toLowerCase().includes(query) ||
+        (cmd.category && cmd.category.toLowerCase().includes(query)) ||
+        bindings[cmd.id]?.toLowerCase().includes(query)
     )
 
     return (
@@ -68,46 +120,71 @@ export default function KeybindingPanel() {
                 <div className="relative flex-1">
                     <Input
                         leftIcon={<Search className="w-4 h-4" />}
-                        placeholder="Search keybindings..."
+                        placeholder={isZh ? '搜索命令或快捷键...' : 'Search keybindings...'}
                         value={searchQuery}
                         onChange={e => setSearchQuery(e.target.value)}
                     />
                 </div>
+                <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={handleImport}
+                    title={isZh ? '导入 VS Code 的 keybindings.json' : 'Import VS Code keybindings.json'}
+                >
+                    <Upload className="w-3.5 h-3.5 mr-1.5" />
+                    {isZh ? '从 VS Code 导入' : 'Import from VS Code'}
+                </Button>
             </div>
 
             <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
                 <div className="space-y-1">
-                    {filteredCommands.map(cmd => (
-                        <div key={cmd.id} className="flex items-center justify-between p-3 rounded-lg hover:bg-surface-hover group transition-colors">
-                            <div className="flex flex-col gap-0.5">
-                                <span className="text-sm font-medium">{cmd.title}</span>
-                                <span className="text-xs text-text-muted">{cmd.category} • {cmd.id}</span>
-                            </div>
+                    {filteredCommands.map(cmd => {
+                        const when = keybindingService.getWhen(cmd.id)
+                        const conflicts = keybindingService.getConflicts(cmd.id)
+                        return (
+                            <div key={cmd.id} className="flex items-center justify-between p-3 rounded-lg hover:bg-surface-hover group transition-colors">
+                                <div className="flex flex-col gap-0.5 min-w-0">
+                                    <span className="text-sm font-medium">{cmd.title}</span>
+                                    <span className="text-xs text-text-muted">{cmd.category} • {cmd.id}</span>
+                                    {when && bindings[cmd.id] && (
+                                        <span className="text-[11px] text-text-muted font-mono truncate" title={when}>when: {when}</span>
+                                    )}
+                                </div>
+
+                                <div className="flex items-center gap-2">
+                                    {conflicts.length > 0 && (
+                                        <span
+                                            className="text-status-warning"
+                                            title={`${isZh ? '与以下命令冲突：' : 'Conflicts with: '}${conflicts.map(c => c.title).join(', ')}`}
+                                        >
+                                            <AlertTriangle className="w-3.5 h-3.5" />
+                                        </span>
+                                    )}
 
-                            <div className="flex items-center gap-2">
-                                <Button
-                                    variant="outline"
-                                    size="sm"
-                                    onClick={() => setRecordingId(cmd.id)}
-                                    className="font-mono min-w-[80px]"
-                                >
-                                    {bindings[cmd.id] || '-'}
-                                </Button>
-
-                                {keybindingService.isOverridden(cmd.id) && (
                                     <Button
-                                        variant="ghost"
-                                        size="icon"
-                                        onClick={() => handleReset(cmd.id)}
-                                        className="opacity-0 group-hover:opacity-100 transition-opacity"
-                                        title="Reset to default"
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => startRecording(cmd.id)}
+                                        className="font-mono min-w-[80px]"
                                     >
-                                        <RotateCcw className="w-3.5 h-3.5" />
+                                        {bindings[cmd.id] || '-'}
                                     </Button>
-                                )}
+
+                                    {keybindingService.isOverridden(cmd.id) && (
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={() => handleReset(cmd.id)}
+                                            className="opacity-0 group-hover:opacity-100 transition-opacity"
+                                            title={isZh ? '恢复默认' : 'Reset to default'}
+                                        >
+                                            <RotateCcw className="w-3.5 h-3.5" />
+                                        </Button>
+                                    )}
+                                </div>
                             </div>
-                        </div>
-                    ))}
+                        )
+                    })}
                 </div>
             </div>
 
@@ -115,28 +192,56 @@ export default function KeybindingPanel() {
             <Modal
                 isOpen={!!recordingId}
                 onClose={() => setRecordingId(null)}
-                title="Press desired key combination"
+                title={isZh ? '按下快捷键' : 'Press desired key combination'}
                 size="sm"
             >
-                <div className="flex flex-col items-center gap-6 py-4">
-                    <p className="text-text-muted text-sm">Press Esc to cancel</p>
+                <div className="flex flex-col items-center gap-5 py-4">
+                    <p className="text-text-muted text-sm text-center">
+                        {isZh
+                            ? '可连续按两次组成组合键（如 Ctrl+K Ctrl+S），按 Enter 确认，Esc 取消'
+                            : 'Press up to two keys for a chord (e.g. Ctrl+K Ctrl+S). Enter to confirm, Esc to cancel'}
+                    </p>
+
+                    <div
+                        ref={recorderRef}
+                        tabIndex={0}
+                        data-keybinding-recorder
+                        onKeyDown={handleKeyDown}
+                        className="px-6 py-3 bg-surface-active rounded-lg border border-accent/30 text-2xl font-mono text-accent shadow-lg shadow-accent/10 outline-none focus:border-accent"
+                    >
+                        {recordedStrokes.length > 0 ? formatKeybinding(recordedStrokes) : <span className="animate-pulse">Recording...</span>}
+                    </div>
 
-                    <div className="px-6 py-3 bg-surface-active rounded-lg border border-accent/30 text-2xl font-mono text-accent shadow-lg shadow-accent/10 animate-pulse">
-                        Recording...
+                    <div className="w-full flex flex-col gap-1.5">
+                        <label className="text-xs text-text-muted">
+                            {isZh ? 'When 条件（可选）' : 'When expression (optional)'}
+                        </label>
+                        <Input
+                            value={recordedWhen}
+                            onChange={e => setRecordedWhen(e.target.value)}
+                            placeholder="editorFocus && !agentRunning"
+                            className="font-mono text-xs"
+                        />
                     </div>
 
-                    <input
-                        autoFocus
-                        readOnly
-                        className="w-0 h-0 opacity-0"
-                        onKeyDown={e => {
-                            if (e.key === 'Escape') {
-                                setRecordingId(null)
-                                return
-                            }
-                            handleKeyDown(e)
-                        }}
-                    />
+                    {recordingConflicts.length > 0 && (
+                        <div className="w-full flex items-start gap-2 text-xs text-status-warning">
+                            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                            <span>
+                                {isZh ? '与以下命令冲突：' : 'Conflicts with: '}
+                                {recordingConflicts.map(c => c.title).join(', ')}
+                            </span>
+                        </div>
+                    )}
+
+                    <div className="w-full flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => setRecordingId(null)}>
+                            {isZh ? '取消' : 'Cancel'}
+                        </Button>
+                        <Button variant="primary" size="sm" disabled={!recordedKey} onClick={handleSave}>
+                            {isZh ? '保存' : 'Save'}
+                        </Button>
+                    </div>
                 </div>
             </Modal>
         </div>
@@ -3,10 +3,15 @@
  */
 
 import { api } from '@/renderer/services/electronAPI'
-import { useState, useEffect } from 'react'
-import { ClipboardList } from 'lucide-react'
+import { ClipboardList, Play } from 'lucide-react'
 import { useStore } from '@store'
 import { useModeStore } from '@/renderer/modes'
+import { useAgentStore } from '@/renderer/agent'
+import { planDocumentService, usePlanDocumentStore } from '@/renderer/agent/services/planDocumentService'
+import { getNextPlanStep, getPlanProgress, renderPlanMarkdown } from '@/renderer/agent/utils/planDocument'
+import { useAgent } from '@/renderer/hooks/useAgent'
+import { toast } from '@/renderer/components/common/ToastProvider'
+import type { Plan } from '@/renderer/agent/types'
 import BottomBarPopover from '../ui/BottomBarPopover'
 
 interface PlanListContentProps {
@@ -14,79 +19,92 @@ interface PlanListContentProps {
 }
 
 export default function PlanListContent({ language }: PlanListContentProps) {
-    const { workspacePath, openFile, setActiveFile } = useStore()
-    const [plans, setPlans] = useState<string[]>([])
-    const [activePlan, setActivePlanPath] = useState<string | null>(null)
+    const { openFile, setActiveFile } = useStore()
+    const plans = usePlanDocumentStore(state => state.plans)
+    const legacyFiles = usePlanDocumentStore(state => state.legacyFiles)
+    const activePlanId = useAgentStore(state => state.plan?.id)
+    const { resumePlan } = useAgent()
 
-    const loadPlans = async () => {
-        if (!workspacePath) return
-
-        try {
-            const plansDir = `${workspacePath}/.adnify/plans`
-            const files = await api.file.readDir(plansDir)
-            const planFiles = files
-                .filter(f => !f.isDirectory && f.name.endsWith('.md'))
-                .map(f => f.path)
-            setPlans(planFiles)
+    const handleOpenFile = async (path: string) => {
+        const content = await api.file.read(path)
+        if (content !== null) {
+            openFile(path, content)
+            setActiveFile(path)
+        }
+    }
 
-            const active = await api.file.read(`${workspacePath}/.adnify/active_plan.txt`)
-            if (active) {
-                setActivePlanPath(active.trim())
-            }
-        } catch {
-            setPlans([])
+    const handleOpenPlan = (plan: Plan) => {
+        const path = planDocumentService.getMarkdownPath(plan)
+        if (path) {
+            openFile(path, renderPlanMarkdown(plan))
+            setActiveFile(path)
         }
     }
 
-    useEffect(() => {
-        loadPlans()
-    }, [workspacePath])
+    const handleResume = async (plan: Plan) => {
+        const result = await resumePlan(plan.id)
+        if (!result.success) toast.warning(result.error || (language === 'zh' ? '无法恢复计划' : 'Cannot resume plan'))
+    }
 
-    const handleOpenPlan = async (planPath: string) => {
-        const content = await api.file.read(planPath)
-        if (content) {
-            openFile(planPath, content)
-            setActiveFile(planPath)
-            if (workspacePath) {
-                await api.file.write(`${workspacePath}/.adnify/active_plan.txt`, planPath)
-            }
-            setActivePlanPath(planPath)
-        }
+    const getFileName = (path: string) => {
+        return path.split(/[\\/]/).pop()?.replace('.md', '') || 'Unknown'
     }
 
-    const getPlanName = (path: string) => {
-        return path.split('/').pop()?.replace('.md', '') || 'Unknown'
+    if (plans.length === 0 && legacyFiles.length === 0) {
+        return (
+            <div className="p-4 text-xs text-text-muted text-center">
+                {language === 'zh' ? '暂无计划' : 'No plans yet'}
+                <p className="text-[10px] mt-1 opacity-60">
+                    {language === 'zh' ? '在 Agent + Plan 模式下创建计划' : 'Create plans in Agent + Plan mode'}
+                </p>
+            </div>
+        )
     }
 
     return (
-        <div className="p-2">
-            {plans.length === 0 ? (
-                <div className="p-4 text-xs text-text-muted text-center">
-                    {language === 'zh' ? '暂无计划' : 'No plans yet'}
-                    <p className="text-[10px] mt-1 opacity-60">
-                        {language === 'zh' ? '在 Agent + Plan 模式下创建计划' : 'Create plans in Agent + Plan mode'}
-                    </p>
-                </div>
-            ) : (
-                <div className="space-y-0.5">
-                    {plans.map(planPath => (
-                        <button
-                            key={planPath}
-                            onClick={() => handleOpenPlan(planPath)}
-                            className={`w-full px-3 py-2 text-left text-xs flex items-center gap-2 hover:bg-white/5 rounded transition-colors
-                ${planPath === activePlan ? 'bg-purple-500/10 text-purple-400' : 'text-text-primary'}`}
-                        >
+        <div className="p-2 space-y-0.5">
+            {plans.map(plan => {
+                const { done, total } = getPlanProgress(plan)
+                const isActive = plan.id === activePlanId
+                const canResume = !!getNextPlanStep(plan)
+                return (
+                    <div
+                        key={plan.id}
+                        className={`group w-full px-3 py-2 text-xs flex items-center gap-2 hover:bg-white/5 rounded transition-colors
+                ${isActive ? 'bg-purple-500/10 text-purple-400' : 'text-text-primary'}`}
+                    >
+                        <button onClick={() => handleOpenPlan(plan)} className="flex-1 min-w-0 flex items-center gap-2 text-left">
                             <ClipboardList className="w-3.5 h-3.5 flex-shrink-0" />
-                            <span className="truncate">{getPlanName(planPath)}</span>
-                            {planPath === activePlan && (
-                                <span className="ml-auto text-[10px] text-purple-400 bg-purple-500/20 px-1.5 py-0.5 rounded">
-                                    Active
-                                </span>
-                            )}
+                            <span className="truncate">{plan.title || getFileName(planDocumentService.getMarkdownPath(plan) || '')}</span>
+                            <span className="flex-shrink-0 text-[10px] text-text-muted">{done}/{total}</span>
                         </button>
-                    ))}
-                </div>
-            )}
+                        {isActive && (
+                            <span className="text-[10px] text-purple-400 bg-purple-500/20 px-1.5 py-0.5 rounded">
+                                Active
+                            </span>
+                        )}
+                        {canResume && (
+                            <button
+                                onClick={() => handleResume(plan)}
+                                className="p-1 rounded opacity-0 group-hover:opacity-100 text-accent hover:bg-accent/10 transition-opacity"
+                                title={language === 'zh' ? '在新会话中继续下一步' : 'Resume the next step in a new thread'}
+                            >
+                                <Play className="w-3 h-3" />
+                            </button>
+                        )}
+                    </div>
+                )
+            })}
+            {legacyFiles.map(path => (
+                <button
+                    key={path}
+                    onClick={() => handleOpenFile(path)}
+                    className="w-full px-3 py-2 text-left text-xs flex items-center gap-2 hover:bg-white/5 rounded transition-colors text-text-muted"
+                >
+                    <ClipboardList className="w-3.5 h-3.5 flex-shrink-0" />
+                    <span className="truncate">{getFileName(path)}</span>
+                </button>
+            ))}
         </div>
     )
 }
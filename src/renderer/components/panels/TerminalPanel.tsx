@@ -12,7 +12,8 @@ import { useEffect, useRef, useState, useCallback } from 'react'
 import { X, Plus, Trash2, ChevronUp, ChevronDown, Terminal as TerminalIcon, Sparkles, Play, SplitSquareHorizontal, LayoutTemplate } from 'lucide-react'
 import { useStore, useModeStore } from '@store'
 import { useAgentStore } from '@/renderer/agent'
-import { themes } from '../editor/ThemeManager'
+import { getThemeVars } from '../editor/ThemeManager'
+import { themeManager } from '@renderer/config/themeConfig'
 import { Button, Select } from '../ui'
 import { terminalManager, TerminalManagerState } from '@/renderer/services/TerminalManager'
 
@@ -42,9 +43,9 @@ const XTERM_STYLE = `
 .xterm-link-layer a { cursor: pointer; color: #3b82f6; text-decoration: underline; }
 `
 
-// 生成终端主题
+// 生成终端主题，导入的 VS Code 主题使用其 terminal.* 颜色
 function getTerminalTheme(themeName: string) {
-    const themeVars = themes[themeName as keyof typeof themes] || themes['adnify-dark']
+    const themeVars = getThemeVars(themeName)
     const rgbToHex = (rgb: string) => {
         if (!rgb) return '#000000'
         const [r, g, b] = rgb.split(' ').map(Number)
@@ -64,6 +65,7 @@ function getTerminalTheme(themeName: string) {
         magenta: '#a855f7',
         cyan: '#06b6d4',
         white: rgbToHex(themeVars['--text-primary']),
+        ...themeManager.getThemeById(themeName)?.terminalColors,
     }
 }
 
@@ -1,13 +1,14 @@
 /**
  * Token 统计面板内容
- * 显示会话的 Token 使用详情
+ * 显示会话的 Token 使用详情和费用
  */
 
-import { Coins, Zap, AlertTriangle, Plus } from 'lucide-react'
+import { Coins, Zap, AlertTriangle, Plus, Database, Wallet } from 'lucide-react'
 import { TokenUsage } from '@renderer/agent/types'
 import { useStore } from '@renderer/store'
 import { useAgentStore } from '@renderer/agent'
 import { AGENT_DEFAULTS } from '@shared/constants'
+import { useCostStore, formatCost, getMonthCost, toDayKey, type BudgetScope } from '@renderer/services/costService'
 import { Button } from '../ui'
 
 interface TokenStatsContentProps {
@@ -36,6 +37,28 @@ export default function TokenStatsContent({
   const formatNumber = (n: number) => n.toLocaleString()
   const formatK = (n: number) => n >= 1000 ? `${(n / 1000).toFixed(1)}k` : n.toString()
 
+  // Prompt 缓存统计（仅在 provider 返回缓存字段时显示）
+  const cacheRead = totalUsage.cacheReadTokens || 0
+  const cacheWrite = totalUsage.cacheWriteTokens || 0
+  const hasCacheStats = cacheRead > 0 || cacheWrite > 0
+  const cacheHitRate = totalUsage.promptTokens > 0 ? (cacheRead / totalUsage.promptTokens) * 100 : 0
+
+  // 费用统计（来自工作区 .adnify/costs.json）
+  const ledger = useCostStore(state => state.ledger)
+  const currentThreadId = useAgentStore(state => state.currentThreadId)
+  const budgets = useStore(state => state.costSettings.budgets)
+  const spent: Record<BudgetScope, number> = {
+    thread: currentThreadId ? ledger.threads[currentThreadId]?.cost || 0 : 0,
+    daily: ledger.days[toDayKey(Date.now())]?.cost || 0,
+    monthly: getMonthCost(ledger),
+  }
+  const costRows: { scope: BudgetScope | 'workspace'; label: string; value: number }[] = [
+    { scope: 'thread', label: language === 'zh' ? '本会话' : 'Thread', value: spent.thread },
+    { scope: 'daily', label: language === 'zh' ? '今日' : 'Today', value: spent.daily },
+    { scope: 'monthly', label: language === 'zh' ? '本月' : 'This Month', value: spent.monthly },
+    { scope: 'workspace', label: language === 'zh' ? '工作区累计' : 'Workspace', value: ledger.total.cost },
+  ]
+
   return (
     <div className="p-4 space-y-4">
       {/* 总计卡片 */}
@@ -86,6 +109,67 @@ export default function TokenStatsContent({
         </div>
       </div>
 
+      {/* 费用 */}
+      <div className="p-3 rounded-xl bg-surface-hover border border-border-subtle">
+        <div className="flex items-center gap-2 mb-2">
+          <Wallet className="w-3.5 h-3.5 text-accent" />
+          <span className="text-xs font-medium text-text-secondary">
+            {language === 'zh' ? '费用 (USD)' : 'Cost (USD)'}
+          </span>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          {costRows.map(row => {
+            const limit = row.scope !== 'workspace' ? budgets[row.scope] : undefined
+            const cap = limit?.hard ?? limit?.soft
+            const overSoft = !!limit?.soft && row.value >= limit.soft
+            return (
+              <div key={row.scope} className="p-2 rounded-lg bg-black/20">
+                <div className="text-[10px] text-text-muted uppercase tracking-wider mb-1">{row.label}</div>
+                <div className={`text-sm font-mono ${overSoft ? 'text-orange-400' : 'text-text-primary'}`}>
+                  {formatCost(row.value)}
+                  {cap !== undefined && <span className="text-[10px] text-text-muted"> / {formatCost(cap)}</span>}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      {/* Prompt 缓存 */}
+      {hasCacheStats && (
+        <div className="p-3 rounded-xl bg-surface-hover border border-border-subtle">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-2">
+              <Database className="w-3.5 h-3.5 text-green-400" />
+              <span className="text-xs font-medium text-text-secondary">
+                {language === 'zh' ? 'Prompt 缓存' : 'Prompt Cache'}
+              </span>
+            </div>
+            <span className="text-xs font-mono text-green-400">
+              {cacheHitRate.toFixed(0)}% {language === 'zh' ? '命中' : 'hit'}
+            </span>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="p-2 rounded-lg bg-black/20">
+              <div className="text-[10px] text-text-muted uppercase tracking-wider mb-1">
+                {language === 'zh' ? '缓存读取' : 'Cache Read'}
+              </div>
+              <div className="text-sm font-mono text-text-primary">
+                {formatNumber(cacheRead)}
+              </div>
+            </div>
+            <div className="p-2 rounded-lg bg-black/20">
+              <div className="text-[10px] text-text-muted uppercase tracking-wider mb-1">
+                {language === 'zh' ? '缓存写入' : 'Cache Write'}
+              </div>
+              <div className="text-sm font-mono text-text-primary">
+                {formatNumber(cacheWrite)}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* 最近请求 */}
       {lastUsage && (
         <div className="p-3 rounded-xl bg-surface-hover border border-border-subtle">
@@ -99,6 +183,11 @@ export default function TokenStatsContent({
             <span className="text-text-muted">
               {language === 'zh' ? '输入' : 'In'}: <span className="font-mono text-text-primary">{formatNumber(lastUsage.promptTokens)}</span>
             </span>
+            {!!lastUsage.cacheReadTokens && (
+              <span className="text-text-muted">
+                {language === 'zh' ? '缓存' : 'Cached'}: <span className="font-mono text-green-400">{formatNumber(lastUsage.cacheReadTokens)}</span>
+              </span>
+            )}
             <span className="text-text-muted">
               {language === 'zh' ? '输出' : 'Out'}: <span className="font-mono text-text-primary">{formatNumber(lastUsage.completionTokens)}</span>
             </span>
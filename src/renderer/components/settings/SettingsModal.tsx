@@ -14,8 +14,10 @@ import { Button, Modal, Select } from '@components/ui'
 import { SettingsTab, EditorSettingsState, LANGUAGES } from './types'
 import {
     ProviderSettings,
+    ModelRoutingSettings,
     EditorSettings,
     AgentSettings,
+    CostBudgetSettings,
     SecuritySettings,
     IndexSettings,
     SystemSettings,
@@ -27,7 +29,8 @@ export default function SettingsModal() {
         llmConfig, setLLMConfig, setShowSettings, language, setLanguage,
         autoApprove, setAutoApprove, providerConfigs, setProviderConfig,
         promptTemplateId, setPromptTemplateId, agentConfig, setAgentConfig,
-        aiInstructions, setAiInstructions
+        aiInstructions, setAiInstructions, modelRouting, setModelRouting,
+        costSettings, setCostSettings
     } = useStore()
 
     const [activeTab, setActiveTab] = useState<SettingsTab>('provider')
@@ -39,6 +42,8 @@ export default function SettingsModal() {
     const [localAgentConfig, setLocalAgentConfig] = useState(agentConfig)
     const [localProviderConfigs, setLocalProviderConfigs] = useState(providerConfigs)
     const [localAiInstructions, setLocalAiInstructions] = useState(aiInstructions)
+    const [localModelRouting, setLocalModelRouting] = useState(modelRouting)
+    const [localCostSettings, setLocalCostSettings] = useState(costSettings)
     const [saved, setSaved] = useState(false)
 
     const editorConfig = getEditorConfig()
@@ -72,6 +77,8 @@ export default function SettingsModal() {
     useEffect(() => { setLocalAutoApprove(autoApprove) }, [autoApprove])
     useEffect(() => { setLocalAgentConfig(agentConfig) }, [agentConfig])
     useEffect(() => { setLocalAiInstructions(aiInstructions) }, [aiInstructions])
+    useEffect(() => { setLocalModelRouting(modelRouting) }, [modelRouting])
+    useEffect(() => { setLocalCostSettings(costSettings) }, [costSettings])
 
     const handleSave = async () => {
         // 更新 Store 状态
@@ -81,6 +88,8 @@ export default function SettingsModal() {
         setPromptTemplateId(localPromptTemplateId)
         setAgentConfig(localAgentConfig)
         setAiInstructions(localAiInstructions)
+        setModelRouting(localModelRouting)
+        setCostSettings(localCostSettings)
 
         // 合并当前 provider 的配置到 localProviderConfigs
         const currentProviderLocalConfig = localProviderConfigs[localConfig.provider] || {}
@@ -112,6 +121,8 @@ export default function SettingsModal() {
             providerConfigs: finalProviderConfigs as any,
             aiInstructions: localAiInstructions,
             onboardingCompleted: true,
+            modelRouting: localModelRouting,
+            costSettings: localCostSettings,
         })
 
         // 编辑器配置独立保存到 editorConfig（localStorage + 文件）
@@ -157,6 +168,17 @@ export default function SettingsModal() {
         models: [...(p.models || []), ...(providerConfigs[id]?.customModels || [])]
     }))
     const selectedProvider = providers.find(p => p.id === localConfig.provider)
+    // 模型路由可选的 Provider（包含自定义厂商）
+    const routingProviders = [
+        ...providers,
+        ...Object.entries(localProviderConfigs)
+            .filter(([id]) => id.startsWith('custom-'))
+            .map(([id, config]) => ({
+                id,
+                name: config.displayName || id,
+                models: [...new Set([config.model, ...(config.customModels || [])].filter((m): m is string => !!m))],
+            })),
+    ]
 
     const tabs: { id: SettingsTab; label: string; icon: React.ReactNode }[] = [
         { id: 'provider', label: language === 'zh' ? '模型提供商' : 'Providers', icon: <Cpu className="w-4 h-4" /> },
@@ -243,6 +265,16 @@ export default function SettingsModal() {
                                 language={language}
                             />
                         )}
+                        {activeTab === 'provider' && (
+                            <div className="mt-6">
+                                <ModelRoutingSettings
+                                    routing={localModelRouting}
+                                    setRouting={setLocalModelRouting}
+                                    providers={routingProviders}
+                                    language={language}
+                                />
+                            </div>
+                        )}
                         {activeTab === 'editor' && (
                             <EditorSettings settings={editorSettings} setSettings={setEditorSettings} language={language} />
                         )}
@@ -259,6 +291,13 @@ export default function SettingsModal() {
                                 language={language}
                             />
                         )}
+                        {activeTab === 'agent' && (
+                            <CostBudgetSettings
+                                costSettings={localCostSettings}
+                                setCostSettings={setLocalCostSettings}
+                                language={language}
+                            />
+                        )}
                         {activeTab === 'keybindings' && <KeybindingPanel />}
                         {activeTab === 'mcp' && <McpSettings language={language} />}
                         {activeTab === 'indexing' && <IndexSettings language={language} />}
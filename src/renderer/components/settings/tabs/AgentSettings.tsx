@@ -71,6 +71,12 @@ export function AgentSettings({
                                 checked={agentConfig.enableAutoFix}
                                 onChange={(e) => setAgentConfig({ ...agentConfig, enableAutoFix: e.target.checked })}
                             />
+                            <Switch
+                                label={t('自动检查时运行相关测试', 'Run related tests during auto-check')}
+                                checked={agentConfig.autoFixRunTests ?? false}
+                                disabled={!agentConfig.enableAutoFix}
+                                onChange={(e) => setAgentConfig({ ...agentConfig, autoFixRunTests: e.target.checked })}
+                            />
                         </div>
                         <div className="flex items-start gap-2 p-3 rounded-lg bg-orange-500/10 border border-orange-500/20 text-orange-400 text-xs">
                             <AlertOctagon className="w-4 h-4 shrink-0 mt-0.5" />
@@ -0,0 +1,131 @@
+/**
+ * 费用与预算设置组件
+ * 模型价格覆盖 + 按会话 / 每日 / 每月的软硬预算
+ */
+
+import { Plus, Trash, Wallet } from 'lucide-react'
+import { DEFAULT_MODEL_PRICING, type BudgetScope, type ModelPricing } from '@services/costService'
+import { Button, Input } from '@components/ui'
+import { CostBudgetSettingsProps } from '../types'
+
+const BUDGET_SCOPES: { scope: BudgetScope; zh: string; en: string }[] = [
+    { scope: 'thread', zh: '每个会话', en: 'Per thread' },
+    { scope: 'daily', zh: '每日（工作区）', en: 'Daily (workspace)' },
+    { scope: 'monthly', zh: '每月（工作区）', en: 'Monthly (workspace)' },
+]
+
+const PRICE_FIELDS: { field: keyof ModelPricing; zh: string; en: string }[] = [
+    { field: 'input', zh: '输入', en: 'Input' },
+    { field: 'output', zh: '输出', en: 'Output' },
+    { field: 'cacheRead', zh: '缓存读', en: 'Cache read' },
+    { field: 'cacheWrite', zh: '缓存写', en: 'Cache write' },
+]
+
+/** 空字符串表示未设置 */
+function parseAmount(value: string): number | undefined {
+    const amount = parseFloat(value)
+    return Number.isFinite(amount) && amount >= 0 ? amount : undefined
+}
+
+export function CostBudgetSettings({ costSettings, setCostSettings, language }: CostBudgetSettingsProps) {
+    const t = (zh: string, en: string) => language === 'zh' ? zh : en
+    const overrides = Object.entries(costSettings.pricingOverrides)
+
+    const setOverrides = (entries: [string, ModelPricing][]) =>
+        setCostSettings(prev => ({ ...prev, pricingOverrides: Object.fromEntries(entries) }))
+
+    const setBudget = (scope: BudgetScope, level: 'soft' | 'hard', value: string) =>
+        setCostSettings(prev => ({
+            ...prev,
+            budgets: { ...prev.budgets, [scope]: { ...prev.budgets[scope], [level]: parseAmount(value) } },
+        }))
+
+    return (
+        <section className="p-5 bg-surface/30 rounded-xl border border-white/5 space-y-4">
+            <div className="flex items-center gap-2 mb-1">
+                <Wallet className="w-4 h-4 text-accent" />
+                <h5 className="text-sm font-medium text-text-primary">{t('费用与预算', 'Cost & Budgets')}</h5>
+            </div>
+            <p className="text-xs text-text-muted">
+                {t(
+                    '费用按工作区记录在 .adnify/costs.json。达到软预算时提醒，达到硬预算时暂停 Agent 并询问是否继续（USD，留空表示不限制）。',
+                    'Spend is recorded per workspace in .adnify/costs.json. A soft budget warns; a hard budget pauses the agent and asks before continuing (USD, leave empty for no limit).'
+                )}
+            </p>
+
+            <div className="space-y-2">
+                {BUDGET_SCOPES.map(({ scope, zh, en }) => (
+                    <div key={scope} className="flex items-center gap-3">
+                        <span className="w-36 shrink-0 text-xs font-medium text-text-secondary">{t(zh, en)}</span>
+                        {(['soft', 'hard'] as const).map(level => (
+                            <Input
+                                key={level}
+                                type="number"
+                                min={0}
+                                step={0.5}
+                                value={costSettings.budgets[scope]?.[level] ?? ''}
+                                onChange={(e) => setBudget(scope, level, e.target.value)}
+                                placeholder={level === 'soft' ? t('软预算', 'Soft') : t('硬预算', 'Hard')}
+                                className="bg-black/20 border-white/10 text-xs"
+                            />
+                        ))}
+                    </div>
+                ))}
+            </div>
+
+            <div className="space-y-2 pt-2 border-t border-white/5">
+                <div className="flex items-center justify-between">
+                    <label className="text-xs font-medium text-text-secondary">
+                        {t('价格覆盖（USD / 百万 token）', 'Pricing overrides (USD / 1M tokens)')}
+                    </label>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => !costSettings.pricingOverrides[''] && setOverrides([...overrides, ['', { input: 0, output: 0 }]])}
+                        title={t('添加价格', 'Add pricing')}
+                    >
+                        <Plus className="w-4 h-4" />
+                    </Button>
+                </div>
+
+                {overrides.map(([key, pricing], index) => (
+                    <div key={index} className="flex items-center gap-2">
+                        <Input
+                            value={key}
+                            onChange={(e) => setOverrides(overrides.map((entry, i) => i === index ? [e.target.value.trim(), entry[1]] : entry))}
+                            list="cost-pricing-models"
+                            placeholder="provider/model"
+                            className="bg-black/20 border-white/10 text-xs font-mono"
+                        />
+                        {PRICE_FIELDS.map(({ field, zh, en }) => (
+                            <Input
+                                key={field}
+                                type="number"
+                                min={0}
+                                step={0.01}
+                                value={pricing[field] ?? ''}
+                                onChange={(e) => setOverrides(overrides.map((entry, i) => i === index
+                                    ? [entry[0], { ...entry[1], [field]: parseAmount(e.target.value) ?? (field === 'input' || field === 'output' ? 0 : undefined) }]
+                                    : entry))}
+                                placeholder={t(zh, en)}
+                                title={t(zh, en)}
+                                className="w-24 shrink-0 bg-black/20 border-white/10 text-xs"
+                            />
+                        ))}
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setOverrides(overrides.filter((_, i) => i !== index))}
+                            title={t('移除', 'Remove')}
+                        >
+                            <Trash className="w-4 h-4" />
+                        </Button>
+                    </div>
+                ))}
+                <datalist id="cost-pricing-models">
+                    {Object.keys(DEFAULT_MODEL_PRICING).map(key => <option key={key} value={key} />)}
+                </datalist>
+            </div>
+        </section>
+    )
+}
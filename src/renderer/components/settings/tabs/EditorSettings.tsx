@@ -4,11 +4,14 @@
 
 import { api } from '@/renderer/services/electronAPI'
 import { useState } from 'react'
-import { Layout, Type, Sparkles, Terminal, Check, Settings2, Zap } from 'lucide-react'
+import { Layout, Type, Sparkles, Terminal, Check, Settings2, Zap, Upload, X } from 'lucide-react'
 import { useStore } from '@store'
 import { getEditorConfig, saveEditorConfig, EditorConfig } from '@renderer/config/editorConfig'
+import { themeManager, themeColorsToCssVars, Theme } from '@renderer/config/themeConfig'
 import { themes } from '@components/editor/ThemeManager'
-import { Input, Select, Switch } from '@components/ui'
+import { toast } from '@components/common/ToastProvider'
+import { Button, Input, Select, Switch } from '@components/ui'
+import { getFileName } from '@utils/pathUtils'
 import { EditorSettingsProps } from '../types'
 
 // 预定义的触发字符选项
@@ -30,13 +33,53 @@ const TRIGGER_CHAR_OPTIONS = [
 export function EditorSettings({ settings, setSettings, language }: EditorSettingsProps) {
     const [advancedConfig, setAdvancedConfig] = useState<EditorConfig>(getEditorConfig())
     const { currentTheme, setTheme } = useStore()
-    const allThemes = Object.keys(themes)
+    const [customThemes, setCustomThemes] = useState<Theme[]>(themeManager.getCustomThemes())
+    const allThemes = [
+        ...Object.entries(themes).map(([id, vars]) => ({ id, name: id.replace(/-/g, ' '), vars, imported: false })),
+        ...customThemes.map(theme => ({ id: theme.id, name: theme.name, vars: themeColorsToCssVars(theme.colors), imported: true })),
+    ]
 
     const handleThemeChange = (themeId: string) => {
-        setTheme(themeId as any)
+        setTheme(themeId)
         api.settings.set('currentTheme', themeId)
     }
 
+    // include 引用的文件不在工作区内时无法直接读取，请用户手动选择
+    const readIncludedTheme = async (path: string) => {
+        const content = await api.file.read(path)
+        if (content !== null) return content
+        const { globalConfirm } = await import('@components/common/ConfirmDialog')
+        const confirmed = await globalConfirm({
+            title: language === 'zh' ? '选择被引用的主题文件' : 'Locate included theme',
+            message: language === 'zh'
+                ? `主题通过 include 引用了 ${getFileName(path)}，但无法直接读取，请手动选择该文件。`
+                : `The theme includes ${getFileName(path)}, which cannot be read directly. Please select the file.`,
+            confirmText: language === 'zh' ? '选择文件' : 'Select File',
+        })
+        if (!confirmed) return null
+        const picked = await api.file.open()
+        return picked?.content ?? null
+    }
+
+    const handleImportTheme = async () => {
+        const file = await api.file.open()
+        if (!file) return
+        try {
+            const theme = await themeManager.importVSCodeTheme(file, readIncludedTheme)
+            setCustomThemes([...themeManager.getCustomThemes()])
+            handleThemeChange(theme.id)
+            toast.success(language === 'zh' ? `已导入主题 ${theme.name}` : `Imported theme ${theme.name}`)
+        } catch (e) {
+            toast.error(language === 'zh' ? '导入主题失败' : 'Failed to import theme', e instanceof Error ? e.message : String(e))
+        }
+    }
+
+    const handleRemoveTheme = (themeId: string) => {
+        themeManager.removeCustomTheme(themeId)
+        setCustomThemes([...themeManager.getCustomThemes()])
+        if (currentTheme === themeId) handleThemeChange('adnify-dark')
+    }
+
     const toggleTriggerChar = (char: string) => {
         const current = settings.completionTriggerChars
         if (current.includes(char)) {
@@ -50,15 +93,25 @@ export function EditorSettings({ settings, setSettings, language }: EditorSettin
         <div className="space-y-8 animate-fade-in pb-10">
             {/* Theme Section */}
             <section>
-                <div className="flex items-center gap-2 mb-4">
-                    <Layout className="w-4 h-4 text-accent" />
-                    <h4 className="text-sm font-semibold text-text-primary uppercase tracking-wide">
-                        {language === 'zh' ? '外观' : 'Appearance'}
-                    </h4>
+                <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-2">
+                        <Layout className="w-4 h-4 text-accent" />
+                        <h4 className="text-sm font-semibold text-text-primary uppercase tracking-wide">
+                            {language === 'zh' ? '外观' : 'Appearance'}
+                        </h4>
+                    </div>
+                    <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={handleImportTheme}
+                        title={language === 'zh' ? '导入 VS Code 颜色主题（JSON）' : 'Import a VS Code color theme (JSON)'}
+                    >
+                        <Upload className="w-3.5 h-3.5 mr-1.5" />
+                        {language === 'zh' ? '导入 VS Code 主题' : 'Import VS Code Theme'}
+                    </Button>
                 </div>
                 <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
-                    {allThemes.map(themeId => {
-                        const themeVars = themes[themeId as keyof typeof themes]
+                    {allThemes.map(({ id: themeId, name, vars: themeVars, imported }) => {
                         return (
                             <button
                                 key={themeId}
@@ -74,13 +127,25 @@ export function EditorSettings({ settings, setSettings, language }: EditorSettin
                                     <div className="w-6 h-6 rounded-full shadow-sm ring-1 ring-white/10" style={{ backgroundColor: `rgb(${themeVars['--accent']})` }} title="Accent" />
                                     <div className="w-6 h-6 rounded-full shadow-sm ring-1 ring-white/10" style={{ backgroundColor: `rgb(${themeVars['--text-primary']})` }} title="Text" />
                                 </div>
-                                <span className="text-xs font-medium capitalize block truncate text-text-secondary group-hover:text-text-primary transition-colors">
-                                    {themeId.replace(/-/g, ' ')}
+                                <span className={`text-xs font-medium block truncate text-text-secondary group-hover:text-text-primary transition-colors ${imported ? '' : 'capitalize'}`}>
+                                    {name}
                                 </span>
-                                {currentTheme === themeId && (
+                                {currentTheme === themeId ? (
                                     <div className="absolute top-3 right-3 bg-accent rounded-full p-0.5">
                                         <Check className="w-3 h-3 text-white" />
                                     </div>
+                                ) : imported && (
+                                    <span
+                                        role="button"
+                                        onClick={e => {
+                                            e.stopPropagation()
+                                            handleRemoveTheme(themeId)
+                                        }}
+                                        className="absolute top-3 right-3 p-0.5 rounded-full text-text-muted hover:text-status-error hover:bg-surface-hover opacity-0 group-hover:opacity-100 transition-opacity"
+                                        title={language === 'zh' ? '删除主题' : 'Remove theme'}
+                                    >
+                                        <X className="w-3 h-3" />
+                                    </span>
                                 )}
                             </button>
                         )
@@ -295,6 +360,29 @@ export function EditorSettings({ settings, setSettings, language }: EditorSettin
                                     ? '关闭后需手动点击刷新按钮更新 Git 状态' 
                                     : 'When disabled, click refresh button to update Git status manually'}
                             </p>
+                            <Switch 
+                                label={language === 'zh' ? '显示行号旁的变更标记' : 'Show Gutter Change Markers'} 
+                                checked={advancedConfig.git?.gutterIndicators ?? true} 
+                                onChange={(e) => { 
+                                    const newConfig = { ...advancedConfig, git: { ...advancedConfig.git, gutterIndicators: e.target.checked } }
+                                    setAdvancedConfig(newConfig)
+                                    saveEditorConfig(newConfig) 
+                                }} 
+                            />
+                            <Switch 
+                                label={language === 'zh' ? '显示行内 Blame' : 'Show Inline Blame'} 
+                                checked={advancedConfig.git?.inlineBlame ?? true} 
+                                onChange={(e) => { 
+                                    const newConfig = { ...advancedConfig, git: { ...advancedConfig.git, inlineBlame: e.target.checked } }
+                                    setAdvancedConfig(newConfig)
+                                    saveEditorConfig(newConfig) 
+                                }} 
+                            />
+                            <p className="text-[10px] text-text-muted opacity-70 pl-7">
+                                {language === 'zh' 
+                                    ? '点击变更标记可暂存、取消暂存或还原单个变更块' 
+                                    : 'Click a change marker to stage, unstage or revert a single hunk'}
+                            </p>
                         </div>
                     </section>
 
@@ -5,12 +5,12 @@
 import { api } from '@/renderer/services/electronAPI'
 import { logger } from '@utils/Logger'
 import { useState, useEffect } from 'react'
-import { Eye, EyeOff, AlertTriangle, Database, Settings2 } from 'lucide-react'
+import { Eye, EyeOff, AlertTriangle, Database, Settings2, ArrowUpDown } from 'lucide-react'
 import { useStore } from '@store'
 import { toast } from '@components/common/ToastProvider'
 import { Button, Input, Select } from '@components/ui'
 import { Language } from '@renderer/i18n'
-import type { EmbeddingConfigInput } from '@renderer/types/electron'
+import type { EmbeddingConfigInput, RerankConfigInput, IndexStatus } from '@renderer/types/electron'
 
 interface IndexSettingsProps {
     language: Language
@@ -23,6 +23,16 @@ interface EmbeddingConfigState {
     model: string
     baseUrl: string
     dimensions: number
+    batchSize: number  // 0 表示使用 provider 默认值
+}
+
+// Rerank 配置状态
+interface RerankConfigState {
+    provider: NonNullable<RerankConfigInput['provider']>
+    apiKey: string
+    model: string
+    baseUrl: string
+    candidates: number
 }
 
 // 默认索引配置
@@ -39,6 +49,16 @@ const DEFAULT_EMBEDDING_CONFIG: EmbeddingConfigState = {
     model: '',
     baseUrl: '',
     dimensions: 768,
+    batchSize: 0,
+}
+
+// 默认 Rerank 配置
+const DEFAULT_RERANK_CONFIG: RerankConfigState = {
+    provider: 'heuristic',
+    apiKey: '',
+    model: '',
+    baseUrl: '',
+    candidates: 30,
 }
 
 export function IndexSettings({ language }: IndexSettingsProps) {
@@ -46,9 +66,11 @@ export function IndexSettings({ language }: IndexSettingsProps) {
     const [embeddingConfig, setEmbeddingConfig] = useState<EmbeddingConfigState>(DEFAULT_EMBEDDING_CONFIG)
     const [showApiKey, setShowApiKey] = useState(false)
     const [isIndexing, setIsIndexing] = useState(false)
-    const [indexStatus, setIndexStatus] = useState<{ totalFiles: number; indexedFiles: number; isIndexing: boolean } | null>(null)
+    const [indexStatus, setIndexStatus] = useState<IndexStatus | null>(null)
     const [showAdvanced, setShowAdvanced] = useState(false)
     const [indexOptions, setIndexOptions] = useState(DEFAULT_INDEX_OPTIONS)
+    const [rerankConfig, setRerankConfig] = useState<RerankConfigState>(DEFAULT_RERANK_CONFIG)
+    const [showRerankKey, setShowRerankKey] = useState(false)
 
     const EMBEDDING_PROVIDERS = [
         { id: 'jina', name: 'Jina AI', description: language === 'zh' ? '免费 100万 tokens/月，专为代码优化' : 'Free 100M tokens/month, optimized for code' },
@@ -56,10 +78,22 @@ export function IndexSettings({ language }: IndexSettingsProps) {
         { id: 'cohere', name: 'Cohere', description: language === 'zh' ? '免费 100次/分钟' : 'Free 100 calls/min' },
         { id: 'huggingface', name: 'HuggingFace', description: language === 'zh' ? '免费，有速率限制' : 'Free with rate limits' },
         { id: 'ollama', name: 'Ollama', description: language === 'zh' ? '本地运行，完全免费' : 'Local, completely free' },
+        { id: 'local', name: language === 'zh' ? '内置本地模型' : 'Built-in Local Model', description: language === 'zh' ? '进程内运行，离线可用' : 'Runs in-process, works offline' },
         { id: 'openai', name: 'OpenAI', description: language === 'zh' ? '付费，质量最高' : 'Paid, highest quality' },
         { id: 'custom', name: language === 'zh' ? '自定义服务' : 'Custom Service', description: language === 'zh' ? '兼容 OpenAI API 格式的自定义服务' : 'OpenAI API compatible custom service' },
     ]
 
+    const RERANK_PROVIDERS = [
+        { id: 'none', name: language === 'zh' ? '关闭' : 'Off', description: language === 'zh' ? '仅使用 RRF 融合排序' : 'RRF fusion order only' },
+        { id: 'heuristic', name: language === 'zh' ? '本地启发式' : 'Local Heuristic', description: language === 'zh' ? '符号名匹配 + 与当前文件的路径邻近度，无需网络' : 'Symbol matches + proximity to the active file, no network' },
+        { id: 'jina', name: 'Jina AI', description: 'jina-reranker-v2-base-multilingual' },
+        { id: 'cohere', name: 'Cohere', description: 'rerank-v3.5' },
+        { id: 'voyage', name: 'Voyage AI', description: 'rerank-2' },
+        { id: 'ollama', name: language === 'zh' ? '本地服务' : 'Local Server', description: language === 'zh' ? 'Ollama 兼容的 /rerank 接口' : 'Ollama-compatible /rerank endpoint' },
+        { id: 'custom', name: language === 'zh' ? '自定义服务' : 'Custom Service', description: language === 'zh' ? '兼容 Jina/Cohere rerank API 格式' : 'Jina/Cohere rerank API compatible' },
+    ]
+    const isRemoteRerank = rerankConfig.provider !== 'none' && rerankConfig.provider !== 'heuristic'
+
     useEffect(() => {
         api.settings.get('embeddingConfig').then(config => {
             if (config) {
@@ -71,6 +105,7 @@ export function IndexSettings({ language }: IndexSettingsProps) {
                     model: cfg.model || '',
                     baseUrl: cfg.baseUrl || '',
                     dimensions: cfg.dimensions || 768,
+                    batchSize: cfg.batchSize || 0,
                 }))
             }
         })
@@ -79,6 +114,11 @@ export function IndexSettings({ language }: IndexSettingsProps) {
                 setIndexOptions({ ...DEFAULT_INDEX_OPTIONS, ...(options as typeof DEFAULT_INDEX_OPTIONS) })
             }
         })
+        api.settings.get('rerankConfig').then(config => {
+            if (config) {
+                setRerankConfig({ ...DEFAULT_RERANK_CONFIG, ...(config as Partial<RerankConfigState>) })
+            }
+        })
     }, [])
 
     // 切换 provider 时重置相关字段
@@ -96,6 +136,8 @@ export function IndexSettings({ language }: IndexSettingsProps) {
             api.index.status?.(workspacePath).then(status => {
                 setIndexStatus(status)
             }).catch(() => { })
+            // 本地模型下载进度也通过索引状态推送
+            return api.index.onProgress(setIndexStatus)
         }
     }, [workspacePath])
 
@@ -124,14 +166,34 @@ export function IndexSettings({ language }: IndexSettingsProps) {
         if (embeddingConfig.provider === 'custom' && embeddingConfig.dimensions) {
             configToSave.dimensions = embeddingConfig.dimensions
         }
+        if (embeddingConfig.batchSize > 0) {
+            configToSave.batchSize = embeddingConfig.batchSize
+        }
+
+        if (rerankConfig.provider === 'custom' && !rerankConfig.baseUrl) {
+            toast.error(language === 'zh' ? '自定义重排服务必须填写 API 地址' : 'Custom rerank service requires API URL')
+            return
+        }
+
+        const rerankToSave: RerankConfigInput = {
+            provider: rerankConfig.provider,
+            candidates: rerankConfig.candidates,
+        }
+        if (isRemoteRerank) {
+            if (rerankConfig.apiKey) rerankToSave.apiKey = rerankConfig.apiKey
+            if (rerankConfig.model) rerankToSave.model = rerankConfig.model
+            if (rerankConfig.baseUrl) rerankToSave.baseUrl = rerankConfig.baseUrl
+        }
 
         logger.settings.info('[IndexSettings] Saving embedding config:', configToSave)
 
         try {
             await api.settings.set('embeddingConfig', configToSave)
             await api.settings.set('indexOptions', indexOptions)
+            await api.settings.set('rerankConfig', rerankToSave)
             if (workspacePath) {
                 await api.index.updateEmbeddingConfig?.(workspacePath, configToSave)
+                await api.index.updateRerankConfig?.(workspacePath, rerankToSave)
             }
             toast.success(language === 'zh' ? '索引配置已保存' : 'Indexing configuration saved')
         } catch (error) {
@@ -227,7 +289,42 @@ export function IndexSettings({ language }: IndexSettingsProps) {
                             </div>
                         )}
 
-                        {embeddingConfig.provider !== 'ollama' && (
+                        {/* 内置本地模型配置 */}
+                        {embeddingConfig.provider === 'local' && (
+                            <div className="space-y-3 p-3 bg-surface/50 rounded-lg border border-border-subtle">
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <label className="text-sm font-medium text-text-primary block mb-2">
+                                            {language === 'zh' ? '模型' : 'Model'}
+                                        </label>
+                                        <Input
+                                            type="text"
+                                            value={embeddingConfig.model}
+                                            onChange={(e) => setEmbeddingConfig(prev => ({ ...prev, model: e.target.value }))}
+                                            placeholder="Xenova/all-MiniLM-L6-v2"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="text-sm font-medium text-text-primary block mb-2">
+                                            {language === 'zh' ? '下载地址' : 'Download Host'}
+                                        </label>
+                                        <Input
+                                            type="text"
+                                            value={embeddingConfig.baseUrl}
+                                            onChange={(e) => setEmbeddingConfig(prev => ({ ...prev, baseUrl: e.target.value }))}
+                                            placeholder="https://huggingface.co/"
+                                        />
+                                    </div>
+                                </div>
+                                <p className="text-xs text-text-muted">
+                                    {language === 'zh'
+                                        ? '首次索引时下载 ONNX 模型到配置目录的 models/ 下，之后完全离线运行。离线机器可将模型仓库拷贝到 models/<模型 ID>/'
+                                        : 'The ONNX model is downloaded to models/ in the config directory on first use, then runs fully offline. On air-gapped machines, copy the model repository to models/<model id>/'}
+                                </p>
+                            </div>
+                        )}
+
+                        {embeddingConfig.provider !== 'ollama' && embeddingConfig.provider !== 'local' && (
                             <div>
                                 <label className="text-sm font-medium text-text-primary block mb-2">
                                     API Key {embeddingConfig.provider !== 'custom' && <span className="text-text-muted text-xs">({language === 'zh' ? '必填' : 'required'})</span>}
@@ -283,6 +380,17 @@ export function IndexSettings({ language }: IndexSettingsProps) {
                                             />
                                         </div>
                                     </div>
+                                    <div className="space-y-1">
+                                        <label className="text-xs text-text-muted">{language === 'zh' ? 'Embedding 批大小 (0 为默认)' : 'Embedding Batch Size (0 = default)'}</label>
+                                        <Input
+                                            type="number"
+                                            value={embeddingConfig.batchSize}
+                                            onChange={(e) => setEmbeddingConfig(prev => ({ ...prev, batchSize: Math.max(0, parseInt(e.target.value) || 0) }))}
+                                            min={0}
+                                            max={256}
+                                            className="text-xs"
+                                        />
+                                    </div>
                                     <div className="space-y-1">
                                         <label className="text-xs text-text-muted">{language === 'zh' ? '最大文件大小 (KB)' : 'Max File Size (KB)'}</label>
                                         <Input
@@ -305,6 +413,86 @@ export function IndexSettings({ language }: IndexSettingsProps) {
                 </div>
             </section>
 
+            <section>
+                <h4 className="text-sm font-medium text-text-secondary uppercase tracking-wider text-xs mb-4">
+                    {language === 'zh' ? '结果重排' : 'Result Reranking'}
+                </h4>
+                <div className="p-5 bg-surface/30 rounded-xl border border-border-subtle space-y-4">
+                    <div>
+                        <label className="text-sm font-medium text-text-primary flex items-center gap-2 mb-2">
+                            <ArrowUpDown className="w-3.5 h-3.5" />
+                            {language === 'zh' ? '重排方式' : 'Reranker'}
+                        </label>
+                        <Select
+                            value={rerankConfig.provider}
+                            onChange={(provider) => setRerankConfig(prev => ({ ...prev, provider: provider as RerankConfigState['provider'], model: '', baseUrl: provider === 'custom' ? prev.baseUrl : '' }))}
+                            options={RERANK_PROVIDERS.map(p => ({ value: p.id, label: `${p.name} - ${p.description}` }))}
+                        />
+                        <p className="text-xs text-text-muted mt-1">
+                            {language === 'zh'
+                                ? '在向量与关键词结果融合后重新排序，远程服务失败时自动回退到本地启发式'
+                                : 'Reorders results after vector/keyword fusion; remote failures fall back to the local heuristic'}
+                        </p>
+                    </div>
+
+                    {isRemoteRerank && (
+                        <div className="space-y-3 p-3 bg-surface/50 rounded-lg border border-border-subtle">
+                            <div>
+                                <label className="text-sm font-medium text-text-primary block mb-2">
+                                    API URL {rerankConfig.provider === 'custom' && <span className="text-error">*</span>}
+                                </label>
+                                <Input
+                                    type="text"
+                                    value={rerankConfig.baseUrl}
+                                    onChange={(e) => setRerankConfig(prev => ({ ...prev, baseUrl: e.target.value }))}
+                                    placeholder={rerankConfig.provider === 'ollama' ? 'http://localhost:11434/api/rerank' : (language === 'zh' ? '留空使用默认地址' : 'Leave empty for the default endpoint')}
+                                />
+                            </div>
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="text-sm font-medium text-text-primary block mb-2">
+                                        {language === 'zh' ? '模型名称' : 'Model Name'}
+                                    </label>
+                                    <Input
+                                        type="text"
+                                        value={rerankConfig.model}
+                                        onChange={(e) => setRerankConfig(prev => ({ ...prev, model: e.target.value }))}
+                                        placeholder={RERANK_PROVIDERS.find(p => p.id === rerankConfig.provider)?.description}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="text-sm font-medium text-text-primary block mb-2">API Key</label>
+                                    <div className="relative">
+                                        <Input type={showRerankKey ? 'text' : 'password'} value={rerankConfig.apiKey} onChange={(e) => setRerankConfig(prev => ({ ...prev, apiKey: e.target.value }))} placeholder={language === 'zh' ? '本地服务可留空' : 'Optional for local servers'} />
+                                        <button type="button" onClick={() => setShowRerankKey(!showRerankKey)} className="absolute right-3 top-1/2 -translate-y-1/2 text-text-muted hover:text-text-primary">
+                                            {showRerankKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {rerankConfig.provider !== 'none' && (
+                        <div className="space-y-1">
+                            <label className="text-xs text-text-muted">{language === 'zh' ? '重排候选数量' : 'Rerank Candidates'}</label>
+                            <Input
+                                type="number"
+                                value={rerankConfig.candidates}
+                                onChange={(e) => setRerankConfig(prev => ({ ...prev, candidates: parseInt(e.target.value) || 30 }))}
+                                min={10}
+                                max={100}
+                                className="text-xs"
+                            />
+                        </div>
+                    )}
+
+                    <Button variant="secondary" size="sm" onClick={handleSaveEmbeddingConfig}>
+                        {language === 'zh' ? '保存配置' : 'Save Configuration'}
+                    </Button>
+                </div>
+            </section>
+
             <section>
                 <h4 className="text-sm font-medium text-text-secondary uppercase tracking-wider text-xs mb-4">
                     {language === 'zh' ? '代码库索引' : 'Codebase Index'}
@@ -318,6 +506,16 @@ export function IndexSettings({ language }: IndexSettingsProps) {
                             <div className="text-xs text-text-muted mt-1">
                                 {language === 'zh' ? '已索引文件' : 'Indexed files'}: {indexStatus.indexedFiles} / {indexStatus.totalFiles}
                             </div>
+                            {indexStatus.modelProgress && indexStatus.modelProgress.status !== 'ready' && (
+                                <div className="text-xs text-text-muted mt-1">
+                                    {indexStatus.modelProgress.status === 'downloading'
+                                        ? `${language === 'zh' ? '正在下载模型' : 'Downloading model'} ${indexStatus.modelProgress.model}: ${indexStatus.modelProgress.progress}%`
+                                        : `${language === 'zh' ? '正在加载模型' : 'Loading model'} ${indexStatus.modelProgress.model}...`}
+                                </div>
+                            )}
+                            {indexStatus.error && (
+                                <div className="text-xs text-error mt-1">{indexStatus.error}</div>
+                            )}
                         </div>
                     )}
 
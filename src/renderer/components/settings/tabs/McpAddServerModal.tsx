@@ -39,11 +39,12 @@ import {
   type McpPresetCategory,
   type McpEnvConfig,
 } from '@shared/config/mcpPresets'
+import type { McpServerConfig, McpTransportType } from '@shared/types/mcp'
 
 interface McpAddServerModalProps {
   isOpen: boolean
   onClose: () => void
-  onAdd: (config: McpServerFormData) => Promise<boolean>
+  onAdd: (config: McpServerConfig) => Promise<boolean>
   language: 'en' | 'zh'
   existingServerIds: string[]
 }
@@ -60,6 +61,19 @@ export interface McpServerFormData {
 
 type ViewMode = 'presets' | 'custom' | 'configure'
 
+/** 解析 "Key: Value" 形式的请求头，每行一个 */
+function parseHeaders(input: string): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const line of input.split('\n')) {
+    const index = line.indexOf(':')
+    if (index <= 0) continue
+    const key = line.slice(0, index).trim()
+    const value = line.slice(index + 1).trim()
+    if (key) headers[key] = value
+  }
+  return headers
+}
+
 // 图标映射
 const ICON_MAP: Record<string, React.ComponentType<{ className?: string }>> = {
   Search: SearchIcon,
@@ -101,6 +115,9 @@ export default function McpAddServerModal({
   const [envValues, setEnvValues] = useState<Record<string, string>>({})
   const [showSecrets, setShowSecrets] = useState<Record<string, boolean>>({})
   const [argsInput, setArgsInput] = useState('')
+  const [transport, setTransport] = useState<McpTransportType>('stdio')
+  const [urlInput, setUrlInput] = useState('')
+  const [headersInput, setHeadersInput] = useState('')
   const [autoApproveInput, setAutoApproveInput] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -151,6 +168,9 @@ export default function McpAddServerModal({
       disabled: false,
     })
     setArgsInput('')
+    setTransport('stdio')
+    setUrlInput('')
+    setHeadersInput('')
     setAutoApproveInput('')
     setViewMode('custom')
   }
@@ -168,7 +188,7 @@ export default function McpAddServerModal({
     setIsSubmitting(true)
 
     try {
-      let config: McpServerFormData
+      let config: McpServerConfig
 
       if (selectedPreset) {
         // 从预设创建
@@ -216,17 +236,36 @@ export default function McpAddServerModal({
         if (!formData.name.trim()) {
           throw new Error(language === 'zh' ? '请填写服务器名称' : 'Please fill in server name')
         }
-        if (!formData.command.trim()) {
-          throw new Error(language === 'zh' ? '请填写启动命令' : 'Please fill in command')
-        }
         if (existingServerIds.includes(formData.id)) {
           throw new Error(language === 'zh' ? '服务器 ID 已存在' : 'Server ID already exists')
         }
+        const autoApprove = autoApproveInput.split(/[,\s]+/).filter(Boolean)
 
-        config = {
-          ...formData,
-          args: argsInput.split(/\s+/).filter(Boolean),
-          autoApprove: autoApproveInput.split(/[,\s]+/).filter(Boolean),
+        if (transport === 'stdio') {
+          if (!formData.command.trim()) {
+            throw new Error(language === 'zh' ? '请填写启动命令' : 'Please fill in command')
+          }
+          config = {
+            ...formData,
+            args: argsInput.split(/\s+/).filter(Boolean),
+            autoApprove,
+          }
+        } else {
+          try {
+            const url = new URL(urlInput.trim())
+            if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error()
+          } catch {
+            throw new Error(language === 'zh' ? '请填写有效的服务器 URL' : 'Please enter a valid server URL')
+          }
+          config = {
+            id: formData.id,
+            name: formData.name,
+            type: transport,
+            url: urlInput.trim(),
+            headers: parseHeaders(headersInput),
+            autoApprove,
+            disabled: false,
+          }
         }
       }
 
@@ -260,6 +299,9 @@ export default function McpAddServerModal({
     setEnvValues({})
     setShowSecrets({})
     setArgsInput('')
+    setTransport('stdio')
+    setUrlInput('')
+    setHeadersInput('')
     setAutoApproveInput('')
     setError(null)
   }
@@ -552,28 +594,87 @@ export default function McpAddServerModal({
 
             <div className="space-y-1.5">
               <label className="text-sm font-medium text-text-secondary">
-                {language === 'zh' ? '启动命令' : 'Command'} <span className="text-red-400">*</span>
+                {language === 'zh' ? '传输方式' : 'Transport'}
               </label>
-              <Input
-                value={formData.command}
-                onChange={(e) => setFormData(prev => ({ ...prev, command: e.target.value }))}
-                placeholder="npx, uvx, node, python..."
-              />
+              <div className="flex gap-2">
+                {([
+                  { id: 'stdio', label: language === 'zh' ? '本地进程 (stdio)' : 'Local process (stdio)' },
+                  { id: 'http', label: 'Streamable HTTP' },
+                  { id: 'sse', label: language === 'zh' ? 'SSE (旧版)' : 'SSE (legacy)' },
+                ] as const).map(option => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                      transport === option.id
+                        ? 'bg-accent text-white'
+                        : 'bg-surface/50 text-text-secondary hover:bg-surface/70'
+                    }`}
+                    onClick={() => setTransport(option.id)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
             </div>
 
-            <div className="space-y-1.5">
-              <label className="text-sm font-medium text-text-secondary">
-                {language === 'zh' ? '命令参数' : 'Arguments'}
-              </label>
-              <Input
-                value={argsInput}
-                onChange={(e) => setArgsInput(e.target.value)}
-                placeholder="-y @modelcontextprotocol/server-xxx"
-              />
-              <p className="text-xs text-text-muted">
-                {language === 'zh' ? '用空格分隔多个参数' : 'Separate multiple arguments with spaces'}
-              </p>
-            </div>
+            {transport === 'stdio' ? (
+              <>
+                <div className="space-y-1.5">
+                  <label className="text-sm font-medium text-text-secondary">
+                    {language === 'zh' ? '启动命令' : 'Command'} <span className="text-red-400">*</span>
+                  </label>
+                  <Input
+                    value={formData.command}
+                    onChange={(e) => setFormData(prev => ({ ...prev, command: e.target.value }))}
+                    placeholder="npx, uvx, node, python..."
+                  />
+                </div>
+
+                <div className="space-y-1.5">
+                  <label className="text-sm font-medium text-text-secondary">
+                    {language === 'zh' ? '命令参数' : 'Arguments'}
+                  </label>
+                  <Input
+                    value={argsInput}
+                    onChange={(e) => setArgsInput(e.target.value)}
+                    placeholder="-y @modelcontextprotocol/server-xxx"
+                  />
+                  <p className="text-xs text-text-muted">
+                    {language === 'zh' ? '用空格分隔多个参数' : 'Separate multiple arguments with spaces'}
+                  </p>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="space-y-1.5">
+                  <label className="text-sm font-medium text-text-secondary">
+                    {language === 'zh' ? '服务器 URL' : 'Server URL'} <span className="text-red-400">*</span>
+                  </label>
+                  <Input
+                    value={urlInput}
+                    onChange={(e) => setUrlInput(e.target.value)}
+                    placeholder={transport === 'sse' ? 'https://mcp.example.com/sse' : 'https://mcp.example.com/mcp'}
+                  />
+                </div>
+
+                <div className="space-y-1.5">
+                  <label className="text-sm font-medium text-text-secondary">
+                    {language === 'zh' ? '请求头' : 'Headers'}
+                  </label>
+                  <textarea
+                    value={headersInput}
+                    onChange={(e) => setHeadersInput(e.target.value)}
+                    placeholder="Authorization: Bearer <token>"
+                    rows={3}
+                    className="w-full px-3 py-2 bg-surface/50 border border-white/10 rounded-lg text-sm font-mono text-text-primary placeholder:text-text-muted focus:outline-none focus:border-accent/50 resize-none"
+                  />
+                  <p className="text-xs text-text-muted">
+                    {language === 'zh' ? '每行一个，格式为 Key: Value' : 'One per line, formatted as Key: Value'}
+                  </p>
+                </div>
+              </>
+            )}
 
             <div className="space-y-1.5">
               <label className="text-sm font-medium text-text-secondary">
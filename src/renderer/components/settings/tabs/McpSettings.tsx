@@ -27,8 +27,8 @@ import {
 import { useStore } from '@store'
 import { mcpService } from '@services/mcpService'
 import { Button } from '@components/ui'
-import type { McpServerState, McpServerStatus } from '@shared/types/mcp'
-import McpAddServerModal, { type McpServerFormData } from './McpAddServerModal'
+import { isRemoteMcpConfig, getMcpTransportType, type McpServerConfig, type McpServerState, type McpServerStatus } from '@shared/types/mcp'
+import McpAddServerModal from './McpAddServerModal'
 
 interface McpSettingsProps {
   language: 'en' | 'zh'
@@ -75,7 +75,7 @@ export default function McpSettings({ language }: McpSettingsProps) {
     setActionLoading(null)
   }
 
-  const handleAddServer = async (config: McpServerFormData): Promise<boolean> => {
+  const handleAddServer = async (config: McpServerConfig): Promise<boolean> => {
     try {
       const success = await mcpService.addServer(config)
       if (success) {
@@ -144,6 +144,15 @@ export default function McpSettings({ language }: McpSettingsProps) {
     return texts[status]
   }
 
+  const getServerSummary = (server: McpServerState) => {
+    const { config } = server
+    return isRemoteMcpConfig(config)
+      ? config.url
+      : `${config.command} ${config.args?.join(' ') || ''}`
+  }
+
+  const maskValue = (value: string) => value.length > 20 ? value.slice(0, 8) + '***' : value
+
   const renderServerCard = (server: McpServerState) => {
     const isExpanded = expandedServer === server.id
     const isLoading = actionLoading?.startsWith(server.id) || actionLoading === `refresh-${server.id}`
@@ -169,13 +178,18 @@ export default function McpSettings({ language }: McpSettingsProps) {
             <div className="flex-1 min-w-0">
               <div className="flex items-center gap-2">
                 <h4 className="font-medium text-text-primary">{server.config.name}</h4>
+                {isRemoteMcpConfig(server.config) && (
+                  <span className="px-1.5 py-0.5 text-[10px] bg-accent/10 text-accent rounded uppercase">
+                    {server.config.type}
+                  </span>
+                )}
                 {server.config.disabled && (
                   <span className="px-1.5 py-0.5 text-[10px] bg-white/10 text-text-muted rounded">
                     {language === 'zh' ? '已禁用' : 'Disabled'}
                   </span>
                 )}
               </div>
-              <p className="text-xs text-text-muted truncate">{server.config.command} {server.config.args?.join(' ')}</p>
+              <p className="text-xs text-text-muted truncate">{getServerSummary(server)}</p>
             </div>
             {isExpanded ? (
               <ChevronUp className="w-4 h-4 text-text-muted" />
@@ -190,7 +204,11 @@ export default function McpSettings({ language }: McpSettingsProps) {
             {!server.config.disabled && (
               <div className="flex items-center gap-2">
                 {getStatusIcon(server.status)}
-                <span className="text-sm text-text-secondary">{getStatusText(server.status)}</span>
+                <span className="text-sm text-text-secondary">
+                  {server.status === 'connecting' && server.reconnectAttempt
+                    ? (language === 'zh' ? `重连中 (${server.reconnectAttempt})` : `Reconnecting (${server.reconnectAttempt})`)
+                    : getStatusText(server.status)}
+                </span>
               </div>
             )}
 
@@ -317,17 +335,37 @@ export default function McpSettings({ language }: McpSettingsProps) {
               </h5>
               <div className="text-xs text-text-muted space-y-1 font-mono bg-black/20 p-3 rounded">
                 <div><span className="text-text-secondary">id:</span> {server.id}</div>
-                <div><span className="text-text-secondary">command:</span> {server.config.command}</div>
-                {server.config.args && server.config.args.length > 0 && (
-                  <div><span className="text-text-secondary">args:</span> {server.config.args.join(' ')}</div>
-                )}
-                {server.config.env && Object.keys(server.config.env).length > 0 && (
-                  <div>
-                    <span className="text-text-secondary">env:</span>
-                    {Object.entries(server.config.env).map(([k, v]) => (
-                      <div key={k} className="ml-4">{k}={v.length > 20 ? v.slice(0, 8) + '***' : v}</div>
-                    ))}
-                  </div>
+                <div><span className="text-text-secondary">transport:</span> {getMcpTransportType(server.config)}</div>
+                {isRemoteMcpConfig(server.config) ? (
+                  <>
+                    <div><span className="text-text-secondary">url:</span> {server.config.url}</div>
+                    {server.config.headers && Object.keys(server.config.headers).length > 0 && (
+                      <div>
+                        <span className="text-text-secondary">headers:</span>
+                        {Object.entries(server.config.headers).map(([k, v]) => (
+                          <div key={k} className="ml-4">{k}: {maskValue(v)}</div>
+                        ))}
+                      </div>
+                    )}
+                    {server.sessionId && (
+                      <div><span className="text-text-secondary">session:</span> {server.sessionId}</div>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <div><span className="text-text-secondary">command:</span> {server.config.command}</div>
+                    {server.config.args && server.config.args.length > 0 && (
+                      <div><span className="text-text-secondary">args:</span> {server.config.args.join(' ')}</div>
+                    )}
+                    {server.config.env && Object.keys(server.config.env).length > 0 && (
+                      <div>
+                        <span className="text-text-secondary">env:</span>
+                        {Object.entries(server.config.env).map(([k, v]) => (
+                          <div key={k} className="ml-4">{k}={maskValue(v)}</div>
+                        ))}
+                      </div>
+                    )}
+                  </>
                 )}
               </div>
             </div>
@@ -0,0 +1,143 @@
+/**
+ * 模型路由设置组件
+ * 按用途选择 Provider / 模型，并配置限流或鉴权失败时的备用模型
+ */
+
+import { Plus, Route, Trash } from 'lucide-react'
+import { LLM_PURPOSES } from '@services/modelRouter'
+import type { LLMPurpose, ModelRoute } from '@store'
+import type { ModelTarget } from '@services/settingsService'
+import { Button, Input, Select } from '@components/ui'
+import { ModelRoutingSettingsProps } from '../types'
+
+const PURPOSE_LABELS: Record<LLMPurpose, { zh: string; en: string }> = {
+    agent: { zh: 'Agent 模式', en: 'Agent mode' },
+    plan: { zh: 'Plan 模式', en: 'Plan mode' },
+    chat: { zh: 'Chat 模式', en: 'Chat mode' },
+    compaction: { zh: '上下文摘要', en: 'Context summary' },
+    inlineEdit: { zh: '内联编辑', en: 'Inline edit' },
+    completion: { zh: '代码补全', en: 'Code completion' },
+    commitMessage: { zh: '提交信息生成', en: 'Commit message' },
+    searchReplace: { zh: 'AI 搜索替换', en: 'AI search & replace' },
+    mergeResolve: { zh: 'AI 解决合并冲突', en: 'AI merge conflict resolution' },
+}
+
+interface TargetEditorProps {
+    target: ModelTarget | undefined
+    onChange: (target: ModelTarget | undefined) => void
+    providers: ModelRoutingSettingsProps['providers']
+    placeholder: string
+    listId: string
+}
+
+function TargetEditor({ target, onChange, providers, placeholder, listId }: TargetEditorProps) {
+    const provider = providers.find(p => p.id === target?.provider)
+
+    return (
+        <div className="flex items-center gap-2 flex-1 min-w-0">
+            <Select
+                value={target?.provider || ''}
+                onChange={(value) => onChange(value
+                    ? { provider: value, model: providers.find(p => p.id === value)?.models[0] || '' }
+                    : undefined)}
+                options={[
+                    { value: '', label: placeholder },
+                    ...providers.map(p => ({ value: p.id, label: p.name })),
+                ]}
+                className="w-40 shrink-0"
+            />
+            <Input
+                value={target?.model || ''}
+                onChange={(e) => target && onChange({ ...target, model: e.target.value })}
+                disabled={!target}
+                list={listId}
+                placeholder="model"
+                className="text-xs"
+            />
+            <datalist id={listId}>
+                {provider?.models.map(m => <option key={m} value={m} />)}
+            </datalist>
+        </div>
+    )
+}
+
+export function ModelRoutingSettings({ routing, setRouting, providers, language }: ModelRoutingSettingsProps) {
+    const t = (zh: string, en: string) => language === 'zh' ? zh : en
+
+    const updateRoute = (purpose: LLMPurpose, update: (route: ModelRoute) => ModelRoute) => {
+        setRouting(prev => ({ ...prev, [purpose]: update(prev[purpose] || { fallbacks: [] }) }))
+    }
+
+    return (
+        <section className="p-5 bg-surface/30 rounded-xl border border-white/5 space-y-4">
+            <div className="flex items-center gap-2 mb-1">
+                <Route className="w-4 h-4 text-accent" />
+                <h5 className="text-sm font-medium text-text-primary">{t('模型路由', 'Model Routing')}</h5>
+            </div>
+            <p className="text-xs text-text-muted">
+                {t(
+                    '为不同用途选择模型（例如摘要和补全使用便宜的快速模型）。遇到限流、额度不足或 API Key 无效时，按顺序切换到备用模型。',
+                    'Pick a model per purpose (e.g. a cheap, fast model for summaries and completions). On rate-limit, quota or invalid API key errors, fallbacks are tried in order.'
+                )}
+            </p>
+
+            <div className="space-y-3">
+                {LLM_PURPOSES.map(purpose => {
+                    const route = routing[purpose]
+                    const fallbacks = route?.fallbacks || []
+
+                    return (
+                        <div key={purpose} className="p-3 rounded-lg bg-background/40 border border-white/5 space-y-2">
+                            <div className="flex items-center gap-3">
+                                <span className="w-32 shrink-0 text-xs font-medium text-text-secondary">
+                                    {t(PURPOSE_LABELS[purpose].zh, PURPOSE_LABELS[purpose].en)}
+                                </span>
+                                <TargetEditor
+                                    target={route?.target}
+                                    onChange={(target) => updateRoute(purpose, r => ({ ...r, target }))}
+                                    providers={providers}
+                                    placeholder={t('使用主模型', 'Main model')}
+                                    listId={`route-${purpose}-models`}
+                                />
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => updateRoute(purpose, r => ({ ...r, fallbacks: [...r.fallbacks, { provider: '', model: '' }] }))}
+                                    title={t('添加备用模型', 'Add fallback')}
+                                >
+                                    <Plus className="w-4 h-4" />
+                                </Button>
+                            </div>
+
+                            {fallbacks.map((fallback, index) => (
+                                <div key={index} className="flex items-center gap-3 pl-4">
+                                    <span className="w-28 shrink-0 text-[11px] text-text-muted">
+                                        {t(`备用 ${index + 1}`, `Fallback ${index + 1}`)}
+                                    </span>
+                                    <TargetEditor
+                                        target={fallback.provider ? fallback : undefined}
+                                        onChange={(target) => updateRoute(purpose, r => ({
+                                            ...r,
+                                            fallbacks: r.fallbacks.map((f, i) => i === index ? (target || { provider: '', model: '' }) : f),
+                                        }))}
+                                        providers={providers}
+                                        placeholder={t('选择提供商', 'Select provider')}
+                                        listId={`route-${purpose}-fallback-${index}-models`}
+                                    />
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => updateRoute(purpose, r => ({ ...r, fallbacks: r.fallbacks.filter((_, i) => i !== index) }))}
+                                        title={t('移除', 'Remove')}
+                                    >
+                                        <Trash className="w-4 h-4" />
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    )
+                })}
+            </div>
+        </section>
+    )
+}
@@ -3,8 +3,10 @@
  */
 
 export { ProviderSettings } from './ProviderSettings'
+export { ModelRoutingSettings } from './ModelRoutingSettings'
 export { EditorSettings } from './EditorSettings'
 export { AgentSettings } from './AgentSettings'
+export { CostBudgetSettings } from './CostBudgetSettings'
 export { PromptPreviewModal } from './PromptPreviewModal'
 export { SecuritySettings } from './SecuritySettings'
 export { IndexSettings } from './IndexSettings'
@@ -3,9 +3,10 @@
  */
 
 import { Language } from '@renderer/i18n'
-import { LLMConfig, AutoApproveSettings } from '@store'
+import { LLMConfig, AutoApproveSettings, ModelRoutingConfig } from '@store'
 import { ProviderModelConfig } from '@app-types/provider'
 import { AgentConfig } from '@renderer/store/slices/settingsSlice'
+import type { CostSettings } from '@services/costService'
 
 export type SettingsTab = 'provider' | 'editor' | 'agent' | 'mcp' | 'keybindings' | 'indexing' | 'security' | 'system'
 
@@ -21,6 +22,19 @@ export interface ProviderSettingsProps {
     language: Language
 }
 
+export interface ModelRoutingSettingsProps {
+    routing: ModelRoutingConfig
+    setRouting: React.Dispatch<React.SetStateAction<ModelRoutingConfig>>
+    providers: { id: string; name: string; models: string[] }[]
+    language: Language
+}
+
+export interface CostBudgetSettingsProps {
+    costSettings: CostSettings
+    setCostSettings: React.Dispatch<React.SetStateAction<CostSettings>>
+    language: Language
+}
+
 export interface EditorSettingsState {
     fontSize: number
     tabSize: number
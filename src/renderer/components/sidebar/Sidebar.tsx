@@ -10,6 +10,7 @@ import { GitView } from './panels/GitView'
 import { ProblemsView } from './panels/ProblemsView'
 import { OutlineView } from './panels/OutlineView'
 import { HistoryView } from './panels/HistoryView'
+import { TestsView } from './panels/TestsView'
 
 export default function Sidebar() {
     const { activeSidePanel } = useStore()
@@ -24,6 +25,7 @@ export default function Sidebar() {
             {activeSidePanel === 'problems' && <ProblemsView />}
             {activeSidePanel === 'outline' && <OutlineView />}
             {activeSidePanel === 'history' && <HistoryView />}
+            {activeSidePanel === 'tests' && <TestsView />}
         </div>
     )
 }
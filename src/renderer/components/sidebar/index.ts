@@ -9,3 +9,4 @@ export { GitView } from './panels/GitView'
 export { ProblemsView } from './panels/ProblemsView'
 export { OutlineView } from './panels/OutlineView'
 export { HistoryView } from './panels/HistoryView'
+export { TestsView } from './panels/TestsView'
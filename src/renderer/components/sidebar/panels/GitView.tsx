@@ -10,7 +10,7 @@ import {
     ChevronDown, ChevronRight, Plus, Minus, RefreshCw, Trash2,
     ArrowUp, ArrowDown, Check, X, MoreHorizontal, FolderGit2,
     Undo2, RotateCcw, Copy, Archive, AlertTriangle,
-    Play, SkipForward, Loader2, Sparkles
+    Play, SkipForward, Loader2, Sparkles, History, FileClock
 } from 'lucide-react'
 import { useStore } from '@store'
 import { t, type TranslationKey } from '@renderer/i18n'
@@ -18,9 +18,11 @@ import { gitService, GitStatus, GitCommit, GitBranch as GitBranchType, GitStashE
 import { getEditorConfig } from '@renderer/config/editorConfig'
 import { toast } from '@components/common/ToastProvider'
 import { keybindingService } from '@services/keybindingService'
+import { modelRouter } from '@services/modelRouter'
 import { Input, Button, Modal } from '@components/ui'
-import { getFileName } from '@utils/pathUtils'
+import { getFileName, toRelativePath, isPathInWorkspace } from '@utils/pathUtils'
 import { ConflictResolver } from '@components/git/ConflictResolver'
+import { CommitHistory } from '@components/git/CommitHistory'
 
 // ==================== 类型定义 ====================
 type GitTab = 'changes' | 'branches' | 'stash' | 'history'
@@ -383,7 +385,7 @@ function getTimeAgo(date: Date, language: 'en' | 'zh'): string {
 
 // ==================== 主组件 ====================
 export function GitView() {
-    const { workspacePath, language, openFile, setActiveFile } = useStore()
+    const { workspacePath, language, openFile, setActiveFile, activeFilePath } = useStore()
     
     // 状态
     const [activeTab, setActiveTab] = useState<GitTab>('changes')
@@ -422,6 +424,9 @@ export function GitView() {
     // 冲突解决
     const [conflictFile, setConflictFile] = useState<string | null>(null)
 
+    // 提交历史浏览器
+    const [historyExplorer, setHistoryExplorer] = useState<{ commit?: string; file?: string } | null>(null)
+
     // 国际化辅助函数
     const tt = useCallback((key: TranslationKey) => t(key, language), [language])
 
@@ -494,8 +499,8 @@ export function GitView() {
             return
         }
 
-        const { llmConfig } = useStore.getState()
-        if (!llmConfig.apiKey) {
+        const configs = modelRouter.resolve('commitMessage')
+        if (!configs[0].apiKey) {
             toast.warning(tt('apiKeyWarning'))
             return
         }
@@ -528,10 +533,10 @@ ${diffs.join('\n\n---\n\n')}
 Commit message:`
 
             // 调用 LLM API (使用 compactContext 进行同步调用)
-            const response = await api.llm.compactContext({
-                config: llmConfig,
+            const response = await modelRouter.run('commitMessage', config => api.llm.compactContext({
+                config,
                 messages: [{ role: 'user', content: prompt }],
-            })
+            }), configs)
 
             if (response?.content) {
                 // 清理生成的消息
@@ -1327,6 +1332,23 @@ Commit message:`
                 {/* History Tab */}
                 {activeTab === 'history' && (
                     <div className="flex flex-col">
+                        <div className="flex items-center gap-1 px-3 py-2 border-b border-border-subtle">
+                            <button
+                                onClick={() => setHistoryExplorer({})}
+                                className="flex items-center gap-1.5 px-2 py-1 text-[11px] text-text-secondary hover:text-text-primary hover:bg-surface-hover rounded transition-colors"
+                            >
+                                <History className="w-3 h-3" /> {tt('git.browseHistory')}
+                            </button>
+                            {activeFilePath && isPathInWorkspace(activeFilePath, workspacePath) && (
+                                <button
+                                    onClick={() => setHistoryExplorer({ file: toRelativePath(activeFilePath, workspacePath) })}
+                                    className="flex items-center gap-1.5 px-2 py-1 text-[11px] text-text-secondary hover:text-text-primary hover:bg-surface-hover rounded transition-colors"
+                                    title={getFileName(activeFilePath)}
+                                >
+                                    <FileClock className="w-3 h-3" /> {tt('git.fileHistory')}
+                                </button>
+                            )}
+                        </div>
                         {commits.length === 0 ? (
                             <div className="p-6 text-center">
                                 <GitCommitIcon className="w-8 h-8 text-text-muted mx-auto mb-2 opacity-30" />
@@ -1344,10 +1366,7 @@ Commit message:`
                                             navigator.clipboard.writeText(commit.hash)
                                             toast.success(tt('git.hashCopied'))
                                         }}
-                                        onClick={() => {
-                                            // TODO: Show commit details
-                                            toast.info(commit.shortHash, commit.message)
-                                        }}
+                                        onClick={() => setHistoryExplorer({ commit: commit.hash })}
                                     />
                                 ))}
                             </div>
@@ -1356,6 +1375,17 @@ Commit message:`
                 )}
             </div>
 
+            {/* Commit History Explorer */}
+            {historyExplorer && (
+                <Modal isOpen={true} onClose={() => setHistoryExplorer(null)} title="" size="5xl" noPadding>
+                    <CommitHistory
+                        initialCommit={historyExplorer.commit}
+                        initialFile={historyExplorer.file}
+                        onClose={() => setHistoryExplorer(null)}
+                    />
+                </Modal>
+            )}
+
             {/* Conflict Resolver Modal */}
             {conflictFile && (
                 <Modal isOpen={true} onClose={() => setConflictFile(null)} title="" size="5xl" noPadding>
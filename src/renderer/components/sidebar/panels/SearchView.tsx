@@ -4,10 +4,12 @@
 
 import { api } from '@/renderer/services/electronAPI'
 import { useState, useCallback, useMemo } from 'react'
-import { ChevronRight, ChevronDown, FileText, Edit2, Box, MoreHorizontal, Loader2 } from 'lucide-react'
+import { ChevronRight, ChevronDown, FileText, Edit2, Box, MoreHorizontal, Loader2, Eye, Sparkles, Undo2, X, GitCompare } from 'lucide-react'
 import { useStore } from '@store'
 import { t } from '@renderer/i18n'
-import { getFileName } from '@utils/pathUtils'
+import { getFileName, toRelativePath } from '@utils/pathUtils'
+import { searchReplaceService, useSearchReplaceStore, matchesGlobs, applyReplaceMatches, type ReplaceResult } from '@services/searchReplaceService'
+import { toast } from '@/renderer/components/common/ToastProvider'
 import { Input } from '../../ui'
 
 export function SearchView() {
@@ -16,6 +18,7 @@ export function SearchView() {
   const [isRegex, setIsRegex] = useState(false)
   const [isCaseSensitive, setIsCaseSensitive] = useState(false)
   const [isWholeWord, setIsWholeWord] = useState(false)
+  const [includePattern, setIncludePattern] = useState('')
   const [excludePattern, setExcludePattern] = useState('')
   const [showDetails, setShowDetails] = useState(false)
   const [showReplace, setShowReplace] = useState(false)
@@ -26,6 +29,10 @@ export function SearchView() {
 
   const [searchInOpenFiles, setSearchInOpenFiles] = useState(false)
   const [replaceInSelection, setReplaceInSelection] = useState(false)
+  const [aiMode, setAiMode] = useState(false)
+  const [aiInstruction, setAiInstruction] = useState('')
+
+  const { files: previewFiles, isApplying, aiProgress, lastReplace } = useSearchReplaceStore()
 
   const [searchHistory, setSearchHistory] = useState<string[]>(() => {
     try {
@@ -37,7 +44,8 @@ export function SearchView() {
   })
   const [showHistory, setShowHistory] = useState(false)
 
-  const { workspacePath, workspace, openFile, setActiveFile, language, openFiles } = useStore()
+  const { workspacePath, workspace, openFile, setActiveFile, language, openFiles, setActiveDiff, setShowComposer } = useStore()
+  const searchOptions = { isRegex, isCaseSensitive, isWholeWord, include: includePattern, exclude: excludePattern }
 
   const addToHistory = useCallback((searchQuery: string) => {
     if (!searchQuery.trim()) return
@@ -63,6 +71,7 @@ export function SearchView() {
 
     setIsSearching(true)
     setSearchResults([])
+    searchReplaceService.clear()
     addToHistory(query)
     setShowHistory(false)
 
@@ -72,6 +81,7 @@ export function SearchView() {
         const flags = (isCaseSensitive ? '' : 'i') + 'g'
 
         openFiles.forEach((file) => {
+          if (!matchesGlobs(toRelativePath(file.path, workspacePath), includePattern, excludePattern)) return
           const lines = file.content.split('\n')
           lines.forEach((lineContent, lineIndex) => {
             let match = false
@@ -108,12 +118,7 @@ export function SearchView() {
       } else {
         const roots = (workspace?.roots || [workspacePath].filter(Boolean)) as string[]
         if (roots.length > 0) {
-          const results = await api.file.search(query, roots, {
-            isRegex,
-            isCaseSensitive,
-            isWholeWord,
-            exclude: excludePattern,
-          })
+          const results = await searchReplaceService.search(query, roots, searchOptions)
           setSearchResults(results)
         }
       }
@@ -197,35 +202,69 @@ export function SearchView() {
 
     if (searchResults.length === 0) return
 
-    const filePaths = [...new Set(searchResults.map((r) => r.path))]
+    if (await buildPreview(replaceQuery)) {
+      await applyPreview()
+    }
+  }
 
-    for (const filePath of filePaths) {
-      const content = await api.file.read(filePath)
-      if (content === null) continue
+  const notifyResult = (result: ReplaceResult, message: string) => {
+    if (result.files > 0) toast.success(message)
+    if (result.skipped.length > 0) toast.warning(t('replaceSkipped', language, { count: result.skipped.length }), result.skipped.join(', '))
+  }
 
-      let newContent = content
-      if (isRegex) {
-        try {
-          const regex = new RegExp(query, isCaseSensitive ? 'g' : 'gi')
-          newContent = content.replace(regex, replaceQuery)
-        } catch {
-          continue
-        }
-      } else {
-        const flags = isCaseSensitive ? 'g' : 'gi'
-        const escapedQuery = query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
-        const regex = isWholeWord ? new RegExp(`\\b${escapedQuery}\\b`, flags) : new RegExp(escapedQuery, flags)
-        newContent = content.replace(regex, replaceQuery)
-      }
+  const buildPreview = async (replacement: string | null) => {
+    const openPaths = searchInOpenFiles ? openFiles.map((f) => f.path) : undefined
+    const result = await searchReplaceService.preview(query, replacement, searchOptions, openPaths)
+    if (!result.success) toast.error(t('invalidRegex', language))
+    return result.success
+  }
 
-      if (newContent !== content) {
-        await api.file.write(filePath, newContent)
-      }
+  const applyPreview = async () => {
+    const result = await searchReplaceService.apply(`Replace "${query}" → "${replaceQuery}"`)
+    notifyResult(result, t('replaceDone', language, { matches: result.matches, files: result.files }))
+    handleSearch()
+  }
+
+  const handlePreview = async () => {
+    if (!query.trim()) return
+    await buildPreview(aiMode ? null : replaceQuery)
+  }
+
+  const handleRunAI = async () => {
+    if (!aiInstruction.trim()) return
+    if (previewFiles.length === 0 && !(await buildPreview(null))) return
+
+    const result = await searchReplaceService.runAI(aiInstruction)
+    if (result.error) toast.error(result.error)
+    else if (result.failed > 0) toast.warning(t('aiReplaceFailed', language, { count: result.failed }))
+  }
+
+  const handleStage = async () => {
+    const result = await searchReplaceService.stageToComposer(aiInstruction)
+    if (result.error) {
+      toast.error(t('aiReplaceComposerBusy', language))
+      setShowComposer(true)
+      return
     }
+    notifyResult(result, t('aiReplaceStaged', language, { files: result.files }))
+    if (result.files > 0) setShowComposer(true)
+  }
 
-    handleSearch()
+  const handleUndo = async () => {
+    const result = await searchReplaceService.undo()
+    if (result.success) toast.success(t('replaceUndone', language, { count: result.restoredFiles.length }))
+    else toast.error(t('undoReplace', language), result.errors.join('\n'))
+    if (query.trim()) handleSearch()
   }
 
+  const showFileDiff = (path: string) => {
+    const file = previewFiles.find((f) => f.path === path)
+    if (file) setActiveDiff({ original: file.content, modified: applyReplaceMatches(file.content, file.matches), filePath: file.path })
+  }
+
+  const selectedMatchCount = previewFiles.reduce((sum, f) => sum + f.matches.filter((m) => m.selected).length, 0)
+  const aiDoneCount = previewFiles.reduce((sum, f) => sum + f.matches.filter((m) => m.selected && m.aiStatus === 'done').length, 0)
+
   return (
     <div className="flex flex-col h-full bg-transparent text-sm">
       <div className="h-10 px-3 flex items-center border-b border-white/5 sticky top-0 z-10 bg-transparent">
@@ -315,34 +354,76 @@ export function SearchView() {
 
         {showReplace && (
           <div className="relative flex items-center ml-5 animate-slide-in gap-1">
-            <Input
-              value={replaceQuery}
-              onChange={(e) => setReplaceQuery(e.target.value)}
-              placeholder={t('replacePlaceholder', language)}
-              className="flex-1 h-8 text-xs"
-            />
+            {aiMode ? (
+              <Input
+                value={aiInstruction}
+                onChange={(e) => setAiInstruction(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleRunAI()}
+                placeholder={t('aiReplacePlaceholder', language)}
+                className="flex-1 h-8 text-xs"
+              />
+            ) : (
+              <Input
+                value={replaceQuery}
+                onChange={(e) => setReplaceQuery(e.target.value)}
+                placeholder={t('replacePlaceholder', language)}
+                className="flex-1 h-8 text-xs"
+              />
+            )}
             <button
-              onClick={handleReplaceInFile}
-              disabled={!replaceQuery || searchResults.length === 0}
-              className="p-1.5 hover:bg-surface-active rounded transition-colors disabled:opacity-30"
-              title={t('replace', language)}
+              onClick={() => setAiMode(!aiMode)}
+              className={`p-1.5 hover:bg-surface-active rounded transition-colors ${aiMode ? 'bg-accent/20 text-accent' : 'text-text-muted'}`}
+              title={t('aiReplace', language)}
             >
-              <Edit2 className="w-3 h-3 text-text-muted" />
+              <Sparkles className="w-3 h-3" />
             </button>
             <button
-              onClick={() => handleReplaceAll()}
-              disabled={!replaceQuery || searchResults.length === 0}
+              onClick={handlePreview}
+              disabled={!query.trim() || isApplying}
               className="p-1.5 hover:bg-surface-active rounded transition-colors disabled:opacity-30"
-              title={t('replaceAll', language)}
+              title={t('replacePreview', language)}
             >
-              <span className="text-[10px] font-bold text-text-muted">All</span>
+              <Eye className="w-3 h-3 text-text-muted" />
             </button>
+            {!aiMode && (
+              <>
+                <button
+                  onClick={handleReplaceInFile}
+                  disabled={!replaceQuery || searchResults.length === 0}
+                  className="p-1.5 hover:bg-surface-active rounded transition-colors disabled:opacity-30"
+                  title={t('replace', language)}
+                >
+                  <Edit2 className="w-3 h-3 text-text-muted" />
+                </button>
+                <button
+                  onClick={() => handleReplaceAll()}
+                  disabled={!replaceQuery || searchResults.length === 0 || isApplying}
+                  className="p-1.5 hover:bg-surface-active rounded transition-colors disabled:opacity-30"
+                  title={t('replaceAll', language)}
+                >
+                  <span className="text-[10px] font-bold text-text-muted">All</span>
+                </button>
+                <button
+                  onClick={() => setReplaceInSelection(!replaceInSelection)}
+                  className={`p-1.5 hover:bg-surface-active rounded transition-colors ${replaceInSelection ? 'bg-accent/20 text-accent' : 'text-text-muted'}`}
+                  title={t('replaceInSelection', language)}
+                >
+                  <Box className="w-3 h-3" />
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        {lastReplace && (
+          <div className="ml-5 flex items-center gap-2 text-[10px] text-text-muted">
+            <span className="truncate flex-1" title={lastReplace.description}>{lastReplace.description}</span>
             <button
-              onClick={() => setReplaceInSelection(!replaceInSelection)}
-              className={`p-1.5 hover:bg-surface-active rounded transition-colors ${replaceInSelection ? 'bg-accent/20 text-accent' : 'text-text-muted'}`}
-              title={t('replaceInSelection', language)}
+              onClick={handleUndo}
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-surface-active hover:text-text-primary transition-colors"
             >
-              <Box className="w-3 h-3" />
+              <Undo2 className="w-3 h-3" />
+              {t('undoReplace', language)}
             </button>
           </div>
         )}
@@ -353,15 +434,23 @@ export function SearchView() {
             className="flex items-center gap-1 text-[10px] text-text-muted hover:text-text-primary mb-1 transition-colors"
           >
             <MoreHorizontal className="w-3 h-3" />
-            {t('filesToExclude', language)}
+            {t('filesToInclude', language)} / {t('filesToExclude', language)}
           </button>
 
           {showDetails && (
             <div className="flex flex-col gap-2 animate-slide-in">
+              <Input
+                value={includePattern}
+                onChange={(e) => setIncludePattern(e.target.value)}
+                placeholder={t('includePlaceholder', language)}
+                title={t('filesToInclude', language)}
+                className="w-full h-7 text-xs"
+              />
               <Input
                 value={excludePattern}
                 onChange={(e) => setExcludePattern(e.target.value)}
                 placeholder={t('excludePlaceholder', language)}
+                title={t('filesToExclude', language)}
                 className="w-full h-7 text-xs"
               />
             </div>
@@ -376,7 +465,113 @@ export function SearchView() {
           </div>
         )}
 
-        {!isSearching && searchResults.length > 0 && (
+        {!isSearching && previewFiles.length > 0 && (
+          <div className="flex flex-col">
+            <div className="px-3 py-1.5 flex items-center gap-2 text-[10px] text-text-muted font-semibold bg-background-secondary border-b border-border-subtle sticky top-0 z-10">
+              <span className="flex-1 truncate">
+                {aiProgress
+                  ? t('aiReplaceProgress', language, { done: aiProgress.done, total: aiProgress.total })
+                  : t('searchResultsCount', language, { results: String(selectedMatchCount), files: String(previewFiles.length) })}
+              </span>
+              {aiMode ? (
+                aiProgress ? (
+                  <button onClick={() => searchReplaceService.cancelAI()} className="px-1.5 py-0.5 rounded hover:bg-surface-active">
+                    {t('cancel', language)}
+                  </button>
+                ) : (
+                  <>
+                    <button
+                      onClick={handleRunAI}
+                      disabled={!aiInstruction.trim() || selectedMatchCount === 0}
+                      className="px-1.5 py-0.5 rounded hover:bg-surface-active disabled:opacity-30"
+                    >
+                      {t('aiReplaceRun', language)}
+                    </button>
+                    <button
+                      onClick={handleStage}
+                      disabled={aiDoneCount === 0}
+                      className="px-1.5 py-0.5 rounded bg-accent/20 text-accent hover:bg-accent/30 disabled:opacity-30"
+                    >
+                      {t('aiReplaceStage', language)}
+                    </button>
+                  </>
+                )
+              ) : (
+                <button
+                  onClick={applyPreview}
+                  disabled={selectedMatchCount === 0 || isApplying}
+                  className="px-1.5 py-0.5 rounded bg-accent/20 text-accent hover:bg-accent/30 disabled:opacity-30"
+                >
+                  {t('replaceSelected', language)}
+                </button>
+              )}
+              <button onClick={() => searchReplaceService.clear()} className="p-0.5 rounded hover:bg-surface-active" title={t('cancel', language)}>
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+
+            {previewFiles.map((file) => {
+              const selectedCount = file.matches.filter((m) => m.selected).length
+              return (
+                <div key={file.path} className="flex flex-col">
+                  <div className="flex items-center gap-1.5 px-2 py-1 text-text-secondary bg-background-secondary/95 group">
+                    <input
+                      type="checkbox"
+                      checked={selectedCount === file.matches.length}
+                      ref={(el) => { if (el) el.indeterminate = selectedCount > 0 && selectedCount < file.matches.length }}
+                      onChange={(e) => searchReplaceService.setFileSelected(file.path, e.target.checked)}
+                      className="w-3 h-3 accent-accent"
+                    />
+                    <FileText className="w-3.5 h-3.5 text-text-muted" />
+                    <span className="text-xs font-medium truncate flex-1" title={file.relativePath}>
+                      {getFileName(file.path)}
+                    </span>
+                    <button
+                      onClick={() => showFileDiff(file.path)}
+                      className="p-0.5 rounded opacity-0 group-hover:opacity-100 hover:bg-surface-active transition-opacity"
+                    >
+                      <GitCompare className="w-3 h-3 text-text-muted" />
+                    </button>
+                    <span className="text-[10px] text-text-muted bg-surface-active px-1.5 rounded-full">
+                      {selectedCount}/{file.matches.length}
+                    </span>
+                  </div>
+
+                  {file.matches.map((match) => {
+                    const prefix = match.before.slice(0, match.column - 1)
+                    const suffix = match.after.slice(prefix.length + match.replacement.length)
+                    return (
+                      <label
+                        key={match.id}
+                        className="pl-5 pr-2 py-0.5 flex items-start gap-1.5 text-[11px] font-mono text-text-muted hover:bg-surface-hover cursor-pointer"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={match.selected}
+                          onChange={() => searchReplaceService.toggleMatch(file.path, match.id)}
+                          className="w-3 h-3 mt-0.5 accent-accent flex-shrink-0"
+                        />
+                        <span className="w-6 text-right flex-shrink-0 opacity-50 select-none">{match.line}:</span>
+                        <span className={`truncate ${match.selected ? '' : 'opacity-50'}`} title={`${match.before}\n${match.after}`}>
+                          {prefix.trimStart()}
+                          <span className="bg-red-500/20 text-red-300 line-through">{match.text}</span>
+                          {match.aiStatus === 'pending' ? (
+                            <Loader2 className="inline w-3 h-3 mx-0.5 animate-spin text-accent" />
+                          ) : match.replacement !== match.text && (
+                            <span className="bg-green-500/20 text-green-300">{match.replacement}</span>
+                          )}
+                          {suffix}
+                        </span>
+                      </label>
+                    )
+                  })}
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {!isSearching && previewFiles.length === 0 && searchResults.length > 0 && (
           <div className="flex flex-col">
             <div className="px-3 py-1.5 text-[10px] text-text-muted font-semibold bg-background-secondary border-b border-border-subtle sticky top-0 z-10">
               {t('searchResultsCount', language, {
@@ -0,0 +1,231 @@
+/**
+ * 测试面板 - 发现、运行和调试测试用例
+ */
+
+import { api } from '@/renderer/services/electronAPI'
+import { useState, useMemo, useEffect, useCallback } from 'react'
+import {
+  ChevronRight, FileText, Play, Bug, RefreshCw, Loader2,
+  CheckCircle2, XCircle, CircleDashed, CircleSlash,
+} from 'lucide-react'
+import { useStore } from '@store'
+import { toast } from '@components/common/ToastProvider'
+import { testService, useTestStore, type TestCase, type TestStatus, type TestRunOptions } from '@services/testService'
+import { toRelativePath } from '@utils/pathUtils'
+
+export function TestsView() {
+  const { workspacePath, openFile, setActiveFile, setDebugVisible, language } = useStore()
+
+  const tests = useTestStore(state => state.tests)
+  const statuses = useTestStore(state => state.statuses)
+  const results = useTestStore(state => state.results)
+  const frameworks = useTestStore(state => state.frameworks)
+  const isDiscovering = useTestStore(state => state.isDiscovering)
+  const isRunning = useTestStore(state => state.isRunning)
+  const lastRun = useTestStore(state => state.lastRun)
+
+  const [expandedFiles, setExpandedFiles] = useState<Set<string>>(new Set())
+
+  const discover = useCallback(() => {
+    if (!workspacePath) return
+    testService.discover(workspacePath).catch(error => {
+      toast.error(language === 'zh' ? '测试发现失败' : 'Test discovery failed', String(error))
+    })
+  }, [workspacePath, language])
+
+  useEffect(() => {
+    discover()
+  }, [discover])
+
+  const testsByFile = useMemo(() => {
+    const groups = new Map<string, TestCase[]>()
+    for (const test of tests) {
+      groups.set(test.file, [...(groups.get(test.file) || []), test])
+    }
+    groups.forEach(list => list.sort((a, b) => a.line - b.line))
+    return groups
+  }, [tests])
+
+  const toggleFile = (file: string) => {
+    setExpandedFiles((prev) => {
+      const next = new Set(prev)
+      if (next.has(file)) next.delete(file)
+      else next.add(file)
+      return next
+    })
+  }
+
+  const runTests = async (options: TestRunOptions) => {
+    if (!workspacePath || isRunning) return
+    try {
+      const summary = await testService.run(workspacePath, options)
+      if (summary.results.length === 0 && summary.exitCode !== 0) {
+        toast.error(language === 'zh' ? '测试运行失败' : 'Test run failed', summary.output?.slice(-300))
+      }
+    } catch (error) {
+      toast.error(language === 'zh' ? '测试运行失败' : 'Test run failed', String(error))
+    }
+  }
+
+  const debugTest = (test: TestCase) => {
+    if (!workspacePath) return
+    setDebugVisible(true)
+    testService.debug(test, workspacePath)
+  }
+
+  const gotoTest = async (file: string, line: number, column = 1) => {
+    const content = await api.file.read(file)
+    if (content === null) return
+    openFile(file, content)
+    setActiveFile(file)
+    window.dispatchEvent(new CustomEvent('editor:goto-line', { detail: { line, column } }))
+  }
+
+  const getFileStatus = (fileTests: TestCase[]): TestStatus => {
+    const fileStatuses = fileTests.map(t => statuses[t.id] || 'idle')
+    if (fileStatuses.includes('running')) return 'running'
+    if (fileStatuses.includes('failed')) return 'failed'
+    if (fileStatuses.length > 0 && fileStatuses.every(s => s === 'passed' || s === 'skipped')) return 'passed'
+    return 'idle'
+  }
+
+  const getStatusIcon = (status: TestStatus) => {
+    switch (status) {
+      case 'running': return <Loader2 className="w-3.5 h-3.5 text-accent animate-spin" />
+      case 'passed': return <CheckCircle2 className="w-3.5 h-3.5 text-status-success" />
+      case 'failed': return <XCircle className="w-3.5 h-3.5 text-status-error" />
+      case 'skipped': return <CircleSlash className="w-3.5 h-3.5 text-text-muted" />
+      default: return <CircleDashed className="w-3.5 h-3.5 text-text-muted" />
+    }
+  }
+
+  const actionButton = (title: string, onClick: () => void, Icon: typeof Play, disabled = false) => (
+    <button
+      title={title}
+      disabled={disabled}
+      onClick={(e) => { e.stopPropagation(); onClick() }}
+      className="p-1 rounded text-text-muted hover:text-text-primary hover:bg-surface-hover disabled:opacity-40 disabled:pointer-events-none"
+    >
+      <Icon className="w-3 h-3" />
+    </button>
+  )
+
+  return (
+    <div className="flex flex-col h-full bg-transparent">
+      <div className="h-10 px-3 flex items-center justify-between border-b border-white/5 bg-transparent sticky top-0 z-10">
+        <span className="text-[11px] font-bold text-text-muted uppercase tracking-wider opacity-80">
+          {language === 'zh' ? '测试' : 'Tests'}
+        </span>
+        <div className="flex items-center gap-1">
+          {actionButton(language === 'zh' ? '运行全部' : 'Run All', () => runTests({}), Play, isRunning || tests.length === 0)}
+          {actionButton(language === 'zh' ? '刷新' : 'Refresh', discover, RefreshCw, isDiscovering)}
+        </div>
+      </div>
+
+      {lastRun && (
+        <div className="px-3 py-2 border-b border-border-subtle flex items-center gap-3 text-[10px]">
+          <span className="flex items-center gap-1 text-status-success">
+            <CheckCircle2 className="w-3 h-3" /> {lastRun.passed}
+          </span>
+          <span className="flex items-center gap-1 text-status-error">
+            <XCircle className="w-3 h-3" /> {lastRun.failed}
+          </span>
+          {lastRun.skipped > 0 && (
+            <span className="flex items-center gap-1 text-text-muted">
+              <CircleSlash className="w-3 h-3" /> {lastRun.skipped}
+            </span>
+          )}
+          <span className="ml-auto text-text-muted">{(lastRun.durationMs / 1000).toFixed(1)}s</span>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        {isDiscovering && tests.length === 0 ? (
+          <div className="p-6 flex justify-center">
+            <Loader2 className="w-4 h-4 text-text-muted animate-spin" />
+          </div>
+        ) : testsByFile.size === 0 ? (
+          <div className="p-6 text-center text-xs text-text-muted">
+            {frameworks.length === 0
+              ? language === 'zh'
+                ? '未检测到测试框架（vitest / jest / mocha / pytest / go test）'
+                : 'No test framework detected (vitest / jest / mocha / pytest / go test)'
+              : language === 'zh'
+                ? '没有发现测试'
+                : 'No tests found'}
+          </div>
+        ) : (
+          Array.from(testsByFile.entries()).map(([file, fileTests]) => {
+            const isExpanded = expandedFiles.has(file)
+            const relativePath = workspacePath ? toRelativePath(file, workspacePath) : file
+
+            return (
+              <div key={file} className="border-b border-border-subtle/50">
+                <div
+                  onClick={() => toggleFile(file)}
+                  className="flex items-center gap-2 px-3 py-2 cursor-pointer hover:bg-surface-hover group"
+                  title={relativePath}
+                >
+                  <ChevronRight
+                    className={`w-3 h-3 text-text-muted transition-transform ${isExpanded ? 'rotate-90' : ''}`}
+                  />
+                  {getStatusIcon(getFileStatus(fileTests))}
+                  <FileText className="w-3.5 h-3.5 text-text-muted" />
+                  <span className="text-xs text-text-secondary flex-1 truncate">{relativePath}</span>
+                  <div className="hidden group-hover:flex items-center">
+                    {actionButton(language === 'zh' ? '运行文件' : 'Run File', () => runTests({ framework: fileTests[0].framework, paths: [file] }), Play, isRunning)}
+                  </div>
+                  <span className="text-[10px] text-text-muted bg-surface-active px-1.5 rounded">{fileTests.length}</span>
+                </div>
+
+                {isExpanded && (
+                  <div className="pb-1">
+                    {fileTests.map((test) => {
+                      const result = results[test.id]
+                      const status = statuses[test.id] || 'idle'
+
+                      return (
+                        <div
+                          key={test.id}
+                          onClick={() => gotoTest(test.file, test.line)}
+                          className="flex items-start gap-2 px-3 py-1.5 pl-8 cursor-pointer hover:bg-surface-hover group"
+                        >
+                          {getStatusIcon(status)}
+                          <div className="flex-1 min-w-0">
+                            <p className="text-xs text-text-primary truncate" title={test.fullName}>{test.fullName}</p>
+                            {status === 'failed' && result?.message && (
+                              <p
+                                className="text-[10px] text-status-error truncate"
+                                title={result.message}
+                                onClick={(e) => {
+                                  if (!result.location) return
+                                  e.stopPropagation()
+                                  gotoTest(result.location.file, result.location.line, result.location.column)
+                                }}
+                              >
+                                {result.message.split('\n')[0]}
+                              </p>
+                            )}
+                          </div>
+                          <div className="hidden group-hover:flex items-center">
+                            {actionButton(
+                              language === 'zh' ? '运行' : 'Run',
+                              () => runTests({ framework: test.framework, paths: [test.file], testName: testService.getNameFilter(test) }),
+                              Play,
+                              isRunning
+                            )}
+                            {actionButton(language === 'zh' ? '调试' : 'Debug', () => debugTest(test), Bug)}
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )}
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
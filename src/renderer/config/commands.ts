@@ -1,15 +1,19 @@
 
-import { keybindingService } from '@services/keybindingService'
+import { keybindingService, Command } from '@services/keybindingService'
 
+/**
+ * 注册核心命令及默认快捷键
+ * when 为上下文表达式，可用上下文：editorFocus、terminalFocus、chatInputFocus、inputFocus、agentRunning 等
+ */
 export const registerCoreCommands = () => {
-    const commands = [
-        { id: 'file.save', title: 'Save File', category: 'File', defaultKey: 'Ctrl+S' },
+    const commands: Command[] = [
+        { id: 'file.save', title: 'Save File', category: 'File', defaultKey: 'Ctrl+S', when: '!editorFocus' },
         { id: 'file.open', title: 'Open File', category: 'File', defaultKey: 'Ctrl+O' },
         { id: 'view.toggleSidebar', title: 'Toggle Sidebar', category: 'View', defaultKey: 'Ctrl+B' },
         { id: 'view.toggleTerminal', title: 'Toggle Terminal', category: 'View', defaultKey: 'Ctrl+`' },
         { id: 'view.toggleDebug', title: 'Toggle Debug Panel', category: 'View', defaultKey: 'Ctrl+Shift+D' },
-        { id: 'editor.find', title: 'Find', category: 'Editor', defaultKey: 'Ctrl+F' },
-        { id: 'editor.replace', title: 'Replace', category: 'Editor', defaultKey: 'Ctrl+H' },
+        { id: 'editor.find', title: 'Find', category: 'Editor', defaultKey: 'Ctrl+F', when: 'editorFocus' },
+        { id: 'editor.replace', title: 'Replace', category: 'Editor', defaultKey: 'Ctrl+H', when: 'editorFocus' },
         { id: 'terminal.new', title: 'New Terminal', category: 'Terminal', defaultKey: 'Ctrl+Shift+`' },
 
         // Debug
@@ -21,27 +25,27 @@ export const registerCoreCommands = () => {
         { id: 'debug.toggleBreakpoint', title: 'Toggle Breakpoint', category: 'Debug', defaultKey: 'F9' },
 
         // Chat
-        { id: 'chat.send', title: 'Send Message', category: 'Chat', defaultKey: 'Enter' },
-        { id: 'chat.stop', title: 'Stop Generation', category: 'Chat', defaultKey: 'Escape' },
+        { id: 'chat.send', title: 'Send Message', category: 'Chat', defaultKey: 'Enter', when: 'chatInputFocus' },
+        { id: 'chat.stop', title: 'Stop Generation', category: 'Chat', defaultKey: 'Escape', when: 'chatInputFocus && agentRunning' },
 
         // List/Tree
-        { id: 'list.select', title: 'Select Item', category: 'List', defaultKey: 'Enter' },
-        { id: 'list.cancel', title: 'Cancel Selection', category: 'List', defaultKey: 'Escape' },
-        { id: 'list.focusDown', title: 'Focus Next Item', category: 'List', defaultKey: 'ArrowDown' },
-        { id: 'list.focusUp', title: 'Focus Previous Item', category: 'List', defaultKey: 'ArrowUp' },
+        { id: 'list.select', title: 'Select Item', category: 'List', defaultKey: 'Enter', when: 'inputFocus' },
+        { id: 'list.cancel', title: 'Cancel Selection', category: 'List', defaultKey: 'Escape', when: 'inputFocus' },
+        { id: 'list.focusDown', title: 'Focus Next Item', category: 'List', defaultKey: 'ArrowDown', when: 'inputFocus' },
+        { id: 'list.focusUp', title: 'Focus Previous Item', category: 'List', defaultKey: 'ArrowUp', when: 'inputFocus' },
 
         // Git
         { id: 'git.commit', title: 'Commit Changes', category: 'Git', defaultKey: 'Ctrl+Enter' },
 
         // Editor
         { id: 'editor.save', title: 'Save File', category: 'File', defaultKey: 'Ctrl+S' }, // Duplicate of file.save, but for consistency
-        { id: 'editor.cancel', title: 'Cancel Operation', category: 'Editor', defaultKey: 'Escape' },
+        { id: 'editor.cancel', title: 'Cancel Operation', category: 'Editor', defaultKey: 'Escape', when: 'tabContextMenuVisible' },
 
         // Workbench
         { id: 'workbench.action.showCommands', title: 'Show Command Palette', category: 'View', defaultKey: 'Ctrl+Shift+P' },
         { id: 'workbench.action.quickOpen', title: 'Go to File', category: 'File', defaultKey: 'Ctrl+P' },
         { id: 'workbench.action.openSettings', title: 'Open Settings', category: 'File', defaultKey: 'Ctrl+,' },
-        { id: 'workbench.action.showShortcuts', title: 'Keyboard Shortcuts', category: 'Help', defaultKey: '?' },
+        { id: 'workbench.action.showShortcuts', title: 'Keyboard Shortcuts', category: 'Help', defaultKey: '?', when: '!inputFocus' },
         { id: 'workbench.action.toggleComposer', title: 'Toggle Composer', category: 'View', defaultKey: 'Ctrl+Shift+I' },
         { id: 'workbench.action.toggleDevTools', title: 'Toggle Developer Tools', category: 'Help', defaultKey: 'F12' },
         { id: 'workbench.action.closePanel', title: 'Close Panel', category: 'View', defaultKey: 'Escape' },
@@ -36,6 +36,8 @@ export interface EditorConfig {
   // Git 相关
   git: {
     autoRefresh: boolean // 是否自动刷新 Git 状态
+    gutterIndicators: boolean // 是否在行号旁显示变更标记
+    inlineBlame: boolean // 是否在光标行末显示 blame 信息
   }
 
   // 性能相关
@@ -103,6 +105,8 @@ export const defaultEditorConfig: EditorConfig = {
   // Git 相关
   git: {
     autoRefresh: true,
+    gutterIndicators: true,
+    inlineBlame: true,
   },
 
   // 性能相关
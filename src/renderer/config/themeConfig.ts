@@ -6,6 +6,7 @@
 
 import { api } from '@/renderer/services/electronAPI'
 import { logger } from '@utils/Logger'
+import { resolveVSCodeTheme, convertVSCodeTheme } from '@utils/vscodeTheme'
 
 export interface ThemeColors {
   // 背景色 (RGB 格式: "r g b")
@@ -44,12 +45,27 @@ export interface ThemeColors {
   statusInfo: string
 }
 
+/** Monaco 语法高亮规则，颜色为不带 # 的 HEX */
+export interface MonacoTokenRule {
+  token: string
+  foreground?: string
+  background?: string
+  fontStyle?: string
+}
+
 export interface Theme {
   id: string
   name: string
   type: 'dark' | 'light'
   colors: ThemeColors
   monacoTheme: string
+  /** 导入主题的 Monaco 语法高亮规则与编辑器颜色（HEX） */
+  editorTheme?: {
+    rules: MonacoTokenRule[]
+    colors: Record<string, string>
+  }
+  /** 导入主题的 xterm 终端配色（HEX） */
+  terminalColors?: Record<string, string>
 }
 
 // 辅助函数：将 HEX 转换为 RGB 格式 "r g b"
@@ -59,6 +75,15 @@ function hexToRgb(hex: string): string {
   return `${parseInt(result[1], 16)} ${parseInt(result[2], 16)} ${parseInt(result[3], 16)}`
 }
 
+/**
+ * ThemeColors 转换为 CSS 变量，如 backgroundSecondary → --background-secondary
+ */
+export function themeColorsToCssVars(colors: ThemeColors): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(colors).map(([key, value]) => [`--${key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)}`, value])
+  )
+}
+
 // 内置主题 (使用 RGB 格式)
 export const builtinThemes: Theme[] = [
   {
@@ -290,6 +315,10 @@ class ThemeManager {
     return this.getAllThemes().find(t => t.id === id)
   }
 
+  getCustomThemes(): Theme[] {
+    return this.customThemes
+  }
+
   getCurrentTheme(): Theme {
     return this.currentTheme
   }
@@ -312,6 +341,29 @@ class ThemeManager {
     this.saveToConfig()
   }
 
+  /**
+   * 导入 VS Code 颜色主题，与已导入的同名主题重复时覆盖
+   * readFile 用于读取 include 引用的主题文件
+   */
+  async importVSCodeTheme(
+    file: { path: string; content: string },
+    readFile: (path: string) => Promise<string | null>
+  ): Promise<Theme> {
+    const resolved = await resolveVSCodeTheme(file.path, path =>
+      path === file.path ? Promise.resolve(file.content) : readFile(path)
+    )
+    const fallback = {
+      dark: builtinThemes.find(t => t.id === 'adnify-dark')!.colors,
+      light: builtinThemes.find(t => t.id === 'dawn')!.colors,
+    }
+    const theme = convertVSCodeTheme(resolved, fallback, file.path)
+
+    this.customThemes = [...this.customThemes.filter(t => t.id !== theme.id), theme]
+    this.saveToConfig()
+    logger.settings.info('[Theme] Imported VS Code theme:', theme.name)
+    return theme
+  }
+
   removeCustomTheme(themeId: string) {
     this.customThemes = this.customThemes.filter(t => t.id !== themeId)
     if (this.currentTheme.id === themeId) {
@@ -324,35 +376,10 @@ class ThemeManager {
     const root = document.documentElement
     const colors = theme.colors
 
-    // 设置 CSS 变量 (RGB 格式) - 修复变量名以匹配 Tailwind Config
-    root.style.setProperty('--background', colors.background)
-    root.style.setProperty('--background-secondary', colors.backgroundSecondary)
-    root.style.setProperty('--background-tertiary', colors.backgroundTertiary)
-    
-    root.style.setProperty('--surface', colors.surface)
-    root.style.setProperty('--surface-hover', colors.surfaceHover)
-    root.style.setProperty('--surface-active', colors.surfaceActive)
-    root.style.setProperty('--surface-muted', colors.surfaceMuted)
-    
-    root.style.setProperty('--text-primary', colors.textPrimary)
-    root.style.setProperty('--text-secondary', colors.textSecondary)
-    root.style.setProperty('--text-muted', colors.textMuted)
-    root.style.setProperty('--text-inverted', colors.textInverted)
-    
-    root.style.setProperty('--border', colors.border)
-    root.style.setProperty('--border-subtle', colors.borderSubtle)
-    root.style.setProperty('--border-active', colors.borderActive)
-    
-    root.style.setProperty('--accent', colors.accent)
-    root.style.setProperty('--accent-hover', colors.accentHover)
-    root.style.setProperty('--accent-active', colors.accentActive)
-    root.style.setProperty('--accent-foreground', colors.accentForeground)
-    root.style.setProperty('--accent-subtle', colors.accentSubtle)
-    
-    root.style.setProperty('--status-success', colors.statusSuccess)
-    root.style.setProperty('--status-warning', colors.statusWarning)
-    root.style.setProperty('--status-error', colors.statusError)
-    root.style.setProperty('--status-info', colors.statusInfo)
+    // 设置 CSS 变量 (RGB 格式)
+    Object.entries(themeColorsToCssVars(colors)).forEach(([name, value]) => {
+      root.style.setProperty(name, value)
+    })
 
     // 设置主题类型
     root.setAttribute('data-theme', theme.type)
@@ -16,10 +16,38 @@ import {
   selectPendingChanges,
   selectMessageCheckpoints,
 } from '@/renderer/agent/store/AgentStore'
-import { AgentService } from '@/renderer/agent/services/AgentService'
+import { AgentService, type LLMCallConfig } from '@/renderer/agent/services/AgentService'
+import { modelRouter } from '@/renderer/services/modelRouter'
+import type { LLMConfig } from '@/renderer/services/settingsService'
+import { worktreeService } from '@/renderer/agent/services/worktreeService'
+import { planDocumentService, type PlanResumeResult } from '@/renderer/agent/services/planDocumentService'
 import { MessageContent, ChatThread, ToolCall } from '@/renderer/agent/types'
 import { buildSystemPrompt } from '@/renderer/agent/prompts/prompts'
 import { AGENT_DEFAULTS } from '@/shared/constants'
+import type { WorkMode } from '@/renderer/modes/types'
+
+/** 运行时 LLM 配置 -> Agent 调用配置 */
+function toCallConfig(config: LLMConfig): LLMCallConfig {
+  return {
+    provider: config.provider,
+    model: config.model,
+    apiKey: config.apiKey,
+    baseUrl: config.baseUrl,
+    timeout: config.timeout,
+    maxTokens: config.parameters?.maxTokens,
+    temperature: config.parameters?.temperature,
+    topP: config.parameters?.topP,
+    adapterConfig: config.adapterConfig,
+    advanced: config.advanced,
+  }
+}
+
+/** 单条消息的运行选项（斜杠命令可覆盖模式、模型和可用工具） */
+export interface SendMessageOptions {
+  mode?: WorkMode
+  model?: string
+  allowedTools?: string[]
+}
 
 export function useAgent() {
   // 从主 store 获取配置
@@ -103,38 +131,48 @@ export function useAgent() {
   const regenerateFromMessage = useAgentStore(state => state.regenerateFromMessage)
 
   // 发送消息
-  const sendMessage = useCallback(async (content: MessageContent) => {
+  const sendMessage = useCallback(async (content: MessageContent, options: SendMessageOptions = {}) => {
+    const mode = options.mode || chatMode
+
+    // 隔离运行的对话在 worktree 中执行，打开的文件也映射到 worktree 中的副本
+    const worktree = useAgentStore.getState().getCurrentThread()?.worktree
+    const runPath = worktree?.path || workspacePath
+    const toRunPath = (path: string) => worktree ? worktreeService.mapFromOwner(path, worktree.path) : path
+
     // 类型转换：OpenFile[] -> string[], string | null -> string | undefined
-    const openFilePaths = openFiles.map(f => f.path)
-    const activeFile = activeFilePath || undefined
+    const openFilePaths = openFiles.map(f => toRunPath(f.path))
+    const activeFile = activeFilePath ? toRunPath(activeFilePath) : undefined
 
-    const systemPrompt = await buildSystemPrompt(chatMode, workspacePath, {
+    const systemPrompt = await buildSystemPrompt(mode, runPath, {
       openFiles: openFilePaths,
       activeFile,
       customInstructions: aiInstructions,
       promptTemplateId,
     })
 
+    // 按模式路由模型；斜杠命令显式指定模型时沿用主 Provider
+    const [routed, ...fallbacks] = modelRouter.resolve(mode)
+    const primary = options.model ? { ...llmConfig, model: options.model } : routed
+
     await AgentService.sendMessage(
       content,
-      {
-        provider: llmConfig.provider,
-        model: llmConfig.model,
-        apiKey: llmConfig.apiKey,
-        baseUrl: llmConfig.baseUrl,
-        timeout: llmConfig.timeout,
-        maxTokens: llmConfig.parameters?.maxTokens,
-        temperature: llmConfig.parameters?.temperature,
-        topP: llmConfig.parameters?.topP,
-        adapterConfig: llmConfig.adapterConfig,
-        advanced: llmConfig.advanced,
-      },
-      workspacePath,
+      toCallConfig(primary),
+      runPath,
       systemPrompt,
-      chatMode
+      mode,
+      { allowedTools: options.allowedTools, fallbackConfigs: fallbacks.map(toCallConfig) }
     )
   }, [llmConfig, workspacePath, chatMode, promptTemplateId, aiInstructions, openFiles, activeFilePath])
 
+  // 在新会话中恢复计划的下一步
+  const resumePlan = useCallback(async (planId: string): Promise<PlanResumeResult> => {
+    const result = planDocumentService.resume(planId, useStore.getState().language)
+    if (result.success && result.prompt) {
+      await sendMessage(result.prompt, { mode: 'plan' })
+    }
+    return result
+  }, [sendMessage])
+
   // 检测上下文是否过长（在用户发送消息前调用）
   // 使用累计 token 数判断，而非字符数
   const checkContextLength = useCallback((): { needsCompact: boolean; messageCount: number; tokenCount: number } => {
@@ -246,6 +284,7 @@ export function useAgent() {
     deletePlanItem,
     setPlanStep,
     clearPlan,
+    resumePlan,
 
     // 分支
     createBranch,
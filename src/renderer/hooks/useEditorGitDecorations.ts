@@ -0,0 +1,392 @@
+/**
+ * 编辑器 Git 装饰器 Hook
+ * - 行号旁的变更标记：未暂存变更（暂存区 → 编辑器内容）与已暂存变更（HEAD → 暂存区）
+ * - 光标所在行的行尾 blame 信息
+ * - 点击变更标记打开变更块预览，可暂存 / 取消暂存 / 还原单个变更块
+ *
+ * 变更标记与测试状态共用 linesDecorations 区域，点击时按样式类区分
+ */
+import { useEffect, useRef, useCallback, useState } from 'react'
+import type { editor } from 'monaco-editor'
+import { useStore } from '@store'
+import { logger } from '@utils/Logger'
+import { t } from '@renderer/i18n'
+import { normalizePath, toRelativePath } from '@utils/pathUtils'
+import { getEditorConfig } from '@renderer/config/editorConfig'
+import { gitService, type GitBlameLine } from '@renderer/agent/services/gitService'
+import { api } from '@/renderer/services/electronAPI'
+import {
+  computeHunks,
+  getHunkKind,
+  getHunkLineRange,
+  mapLineThroughHunks,
+  revertHunk,
+  getMinimalEdit,
+  type GitHunk,
+} from '@utils/gitHunks'
+
+/** 变更块预览 */
+export interface GitHunkPeek {
+  hunk: GitHunk
+  /** 已暂存的变更块（HEAD → 暂存区） */
+  staged: boolean
+  /** 预览显示在该行之后 */
+  afterLineNumber: number
+  domNode: HTMLElement
+}
+
+// 编辑后重新计算变更块的延迟
+const RECOMPUTE_DELAY_MS = 300
+// .git 变化后重新读取暂存区的延迟
+const RELOAD_DELAY_MS = 500
+// 预览中最多显示的原始行数
+const PEEK_MAX_LINES = 12
+
+// 注入 Git 装饰样式
+function injectGitStyles() {
+  const styleId = 'git-gutter-styles'
+  if (document.getElementById(styleId)) return
+
+  const style = document.createElement('style')
+  style.id = styleId
+  style.textContent = `
+    .git-gutter-added, .git-gutter-modified, .git-gutter-staged {
+      cursor: pointer;
+      width: 3px !important;
+      margin-left: 1px;
+    }
+    .git-gutter-added { background: #587c0c; }
+    .git-gutter-modified { background: #0c7d9d; }
+    .git-gutter-staged {
+      background: repeating-linear-gradient(-45deg, #848484 0 2px, transparent 2px 4px);
+    }
+    .git-gutter-deleted, .git-gutter-staged-deleted {
+      cursor: pointer;
+      width: 0 !important;
+      height: 0 !important;
+      margin-top: -4px;
+      border-style: solid;
+      border-width: 4px 0 4px 5px;
+      border-color: transparent transparent transparent #94151b;
+    }
+    .git-gutter-staged-deleted { border-left-color: #848484; }
+    .git-blame-inline {
+      color: rgb(var(--text-muted)) !important;
+      opacity: 0.6;
+      font-style: italic;
+      margin-left: 3em;
+    }
+  `
+  document.head.appendChild(style)
+}
+
+const GUTTER_CLASS: Record<ReturnType<typeof getHunkKind>, string> = {
+  added: 'git-gutter-added',
+  modified: 'git-gutter-modified',
+  deleted: 'git-gutter-deleted',
+}
+
+function formatBlame(line: GitBlameLine, language: 'en' | 'zh'): string {
+  if (line.uncommitted) return language === 'zh' ? '你 · 未提交的更改' : 'You · Uncommitted changes'
+
+  const minutes = Math.floor((Date.now() - line.date.getTime()) / 60000)
+  const hours = Math.floor(minutes / 60)
+  const days = Math.floor(hours / 24)
+  const ago = minutes < 1 ? t('justNow', language)
+    : minutes < 60 ? t('minutesAgo', language, { count: String(minutes) })
+    : hours < 24 ? t('hoursAgo', language, { count: String(hours) })
+    : days < 30 ? t('daysAgo', language, { count: String(days) })
+    : line.date.toLocaleDateString()
+  return `${line.author}, ${ago} · ${line.summary || line.hash}`
+}
+
+export function useEditorGitDecorations(
+  editor: editor.IStandaloneCodeEditor | null,
+  filePath: string | null
+) {
+  const decorationsRef = useRef<string[]>([])
+  const blameDecorationsRef = useRef<string[]>([])
+  const zoneIdRef = useRef<string | null>(null)
+  // 当前文件的 Git 基准：暂存区与 HEAD 内容（未跟踪时为 null）
+  const baseRef = useRef<{ index: string | null; head: string | null }>({ index: null, head: null })
+  const blameRef = useRef<GitBlameLine[]>([])
+  const hunksRef = useRef<{ unstaged: GitHunk[]; staged: GitHunk[] }>({ unstaged: [], staged: [] })
+  const [peek, setPeek] = useState<GitHunkPeek | null>(null)
+
+  const { workspacePath, workspace, language } = useStore()
+  const isDirty = useStore(state => state.openFiles.find(f => f.path === filePath)?.isDirty ?? false)
+
+  // 文件所在的工作区根目录与相对路径
+  const roots = workspace?.roots || (workspacePath ? [workspacePath] : [])
+  const root = filePath ? roots.find(r => normalizePath(filePath).startsWith(normalizePath(r))) || null : null
+  const relativePath = filePath && root ? toRelativePath(filePath, root) : null
+
+  // 注入样式
+  useEffect(() => {
+    injectGitStyles()
+  }, [])
+
+  // 根据暂存区内容与编辑器内容更新变更标记
+  const updateDecorations = useCallback(() => {
+    const model = editor?.getModel()
+    if (!editor || !model) return
+
+    const { index, head } = baseRef.current
+    if (index === null || !getEditorConfig().git.gutterIndicators) {
+      hunksRef.current = { unstaged: [], staged: [] }
+      decorationsRef.current = editor.deltaDecorations(decorationsRef.current, [])
+      return
+    }
+
+    const unstaged = computeHunks(index, model.getValue())
+    const staged = head === null ? [] : computeHunks(head, index)
+    hunksRef.current = { unstaged, staged }
+
+    const toDecoration = (hunk: GitHunk, className: string, tooltip: string, mapLine?: (line: number) => number): editor.IModelDeltaDecoration => ({
+      range: { ...getHunkLineRange(hunk, mapLine), startColumn: 1, endColumn: 1 },
+      options: {
+        isWholeLine: true,
+        linesDecorationsClassName: className,
+        linesDecorationsTooltip: tooltip,
+        stickiness: 1, // NeverGrowsWhenTypingAtEdges
+      },
+    })
+
+    const newDecorations = [
+      ...staged.map(hunk => toDecoration(
+        hunk,
+        getHunkKind(hunk) === 'deleted' ? 'git-gutter-staged-deleted' : 'git-gutter-staged',
+        language === 'zh' ? '已暂存的更改' : 'Staged change',
+        line => mapLineThroughHunks(line, unstaged)
+      )),
+      ...unstaged.map(hunk => toDecoration(hunk, GUTTER_CLASS[getHunkKind(hunk)], language === 'zh' ? '未暂存的更改' : 'Unstaged change')),
+    ]
+    decorationsRef.current = editor.deltaDecorations(decorationsRef.current, newDecorations)
+  }, [editor, language])
+
+  // 更新光标所在行的 blame（内容未保存时行号可能错位，不显示）
+  const updateBlame = useCallback(() => {
+    if (!editor) return
+    const line = editor.getPosition()?.lineNumber
+    const blame = line && !isDirty && getEditorConfig().git.inlineBlame ? blameRef.current[line - 1] : undefined
+    const model = editor.getModel()
+
+    blameDecorationsRef.current = editor.deltaDecorations(blameDecorationsRef.current, blame && model && line ? [{
+      range: { startLineNumber: line, startColumn: model.getLineMaxColumn(line), endLineNumber: line, endColumn: model.getLineMaxColumn(line) },
+      options: {
+        after: { content: formatBlame(blame, language), inlineClassName: 'git-blame-inline' },
+        hoverMessage: blame.uncommitted ? undefined : { value: `**${blame.author}** · \`${blame.hash}\` · ${blame.date.toLocaleString()}\n\n${blame.summary || ''}` },
+      },
+    }] : [])
+  }, [editor, isDirty, language])
+
+  // 读取暂存区、HEAD 与 blame
+  const reload = useCallback(async () => {
+    if (!root || !relativePath) {
+      baseRef.current = { index: null, head: null }
+      blameRef.current = []
+      return
+    }
+
+    const config = getEditorConfig().git
+    const [index, head, blame] = await Promise.all([
+      gitService.getIndexFileContent(relativePath, root),
+      gitService.getFileContentAtCommit(`./${relativePath.replace(/\\/g, '/')}`, 'HEAD', root),
+      config.inlineBlame ? gitService.getBlame(relativePath, root) : Promise.resolve([]),
+    ])
+    baseRef.current = { index, head }
+    blameRef.current = blame
+  }, [root, relativePath])
+
+  const refresh = useCallback(async () => {
+    try {
+      await reload()
+    } catch (error) {
+      logger.ui.warn('[GitDecorations] Failed to read git state:', error)
+    }
+    updateDecorations()
+    updateBlame()
+  }, [reload, updateDecorations, updateBlame])
+
+  // 切换文件时重新读取
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // 保存状态变化时刷新 blame
+  useEffect(() => {
+    updateBlame()
+  }, [updateBlame])
+
+  // 编辑后重新计算变更块，光标移动时更新 blame
+  useEffect(() => {
+    if (!editor) return
+
+    let timer: ReturnType<typeof setTimeout> | null = null
+    const contentDisposable = editor.onDidChangeModelContent(() => {
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(updateDecorations, RECOMPUTE_DELAY_MS)
+    })
+    const cursorDisposable = editor.onDidChangeCursorPosition(updateBlame)
+
+    return () => {
+      if (timer) clearTimeout(timer)
+      contentDisposable.dispose()
+      cursorDisposable.dispose()
+    }
+  }, [editor, updateDecorations, updateBlame])
+
+  // 暂存区（.git）或文件本身在磁盘上变化时重新读取
+  useEffect(() => {
+    if (!filePath || !root) return
+
+    let timer: ReturnType<typeof setTimeout> | null = null
+    const unsubscribe = api.file.onChanged((event: { event: string; path: string }) => {
+      if (!event.path.includes('.git') && normalizePath(event.path) !== normalizePath(filePath)) return
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(refresh, RELOAD_DELAY_MS)
+    })
+
+    return () => {
+      if (timer) clearTimeout(timer)
+      unsubscribe()
+    }
+  }, [filePath, root, refresh])
+
+  const closePeek = useCallback(() => {
+    if (editor && zoneIdRef.current) {
+      const zoneId = zoneIdRef.current
+      editor.changeViewZones(accessor => accessor.removeZone(zoneId))
+    }
+    zoneIdRef.current = null
+    setPeek(null)
+  }, [editor])
+
+  // 在变更块下方插入预览区域（内容由调用方通过 portal 渲染到 domNode）
+  const openPeek = useCallback((hunk: GitHunk, staged: boolean) => {
+    if (!editor) return
+    closePeek()
+
+    const range = getHunkLineRange(hunk, staged ? line => mapLineThroughHunks(line, hunksRef.current.unstaged) : undefined)
+    const afterLineNumber = getHunkKind(hunk) === 'deleted' ? range.startLineNumber : range.endLineNumber
+    const domNode = document.createElement('div')
+    domNode.style.zIndex = '10'
+    // 阻止编辑器接管预览内的鼠标事件，保证按钮可点击
+    domNode.addEventListener('mousedown', e => e.stopPropagation())
+
+    editor.changeViewZones(accessor => {
+      zoneIdRef.current = accessor.addZone({
+        afterLineNumber,
+        heightInLines: Math.min(hunk.oldLines.length, PEEK_MAX_LINES) + 2,
+        domNode,
+      })
+    })
+    editor.revealLineInCenterIfOutsideViewport(afterLineNumber)
+    setPeek({ hunk, staged, afterLineNumber, domNode })
+  }, [editor, closePeek])
+
+  // 点击变更标记打开预览
+  useEffect(() => {
+    if (!editor) return
+
+    const disposable = editor.onMouseDown((e) => {
+      if (e.target.type !== 4) return // GUTTER_LINE_DECORATIONS
+      if (!(e.target.element?.className || '').includes('git-gutter')) return
+      const line = e.target.position?.lineNumber
+      if (!line) return
+
+      const { unstaged, staged } = hunksRef.current
+      const contains = (hunk: GitHunk, mapLine?: (l: number) => number) => {
+        const range = getHunkLineRange(hunk, mapLine)
+        return line >= range.startLineNumber && line <= range.endLineNumber
+      }
+      const unstagedHunk = unstaged.find(hunk => contains(hunk))
+      const stagedHunk = unstagedHunk ? undefined : staged.find(hunk => contains(hunk, l => mapLineThroughHunks(l, unstaged)))
+      const hunk = unstagedHunk || stagedHunk
+      if (!hunk) return
+
+      if (peek && peek.hunk === hunk) closePeek()
+      else openPeek(hunk, !unstagedHunk)
+    })
+
+    return () => disposable.dispose()
+  }, [editor, peek, openPeek, closePeek])
+
+  const runGitAction = useCallback(async (action: () => Promise<{ success: boolean; error?: string }>) => {
+    const result = await action()
+    if (!result.success) {
+      logger.ui.warn('[GitDecorations] Hunk action failed:', result.error)
+      return result
+    }
+    closePeek()
+    await refresh()
+    return result
+  }, [closePeek, refresh])
+
+  /** 暂存预览中的变更块（使用编辑器当前内容） */
+  const stageHunk = useCallback(() => runGitAction(async () => {
+    const model = editor?.getModel()
+    const { index } = baseRef.current
+    if (!peek || peek.staged || !model || index === null || !relativePath || !root) return { success: false }
+    return gitService.stageHunk(relativePath, index, model.getValue(), peek.hunk, root)
+  }), [editor, peek, relativePath, root, runGitAction])
+
+  /** 取消暂存预览中的变更块 */
+  const unstageHunk = useCallback(() => runGitAction(async () => {
+    const { index, head } = baseRef.current
+    if (!peek || !peek.staged || index === null || head === null || !relativePath || !root) return { success: false }
+    return gitService.unstageHunk(relativePath, head, index, peek.hunk, root)
+  }), [peek, relativePath, root, runGitAction])
+
+  /** 在编辑器中还原未暂存的变更块（可撤销） */
+  const revertPeekHunk = useCallback(() => {
+    const model = editor?.getModel()
+    const { index } = baseRef.current
+    if (!editor || !model || !peek || peek.staged || index === null) return
+
+    const current = model.getValue()
+    const edit = getMinimalEdit(current, revertHunk(index, current, peek.hunk))
+    const start = model.getPositionAt(edit.start)
+    const end = model.getPositionAt(edit.end)
+    editor.executeEdits('git-revert-hunk', [{
+      range: { startLineNumber: start.lineNumber, startColumn: start.column, endLineNumber: end.lineNumber, endColumn: end.column },
+      text: edit.text,
+    }])
+    closePeek()
+    updateDecorations()
+  }, [editor, peek, closePeek, updateDecorations])
+
+  /** 跳到下一个 / 上一个变更块并打开预览 */
+  const gotoHunk = useCallback((direction: 1 | -1) => {
+    const { unstaged } = hunksRef.current
+    if (!editor || unstaged.length === 0) return
+    const line = peek?.afterLineNumber ?? editor.getPosition()?.lineNumber ?? 1
+    const ordered = direction === 1 ? unstaged : [...unstaged].reverse()
+    const next = ordered.find(hunk => {
+      const start = getHunkLineRange(hunk).startLineNumber
+      return direction === 1 ? start > line : start < (peek ? getHunkLineRange(peek.hunk).startLineNumber : line)
+    }) || ordered[0]
+    editor.setPosition({ lineNumber: getHunkLineRange(next).startLineNumber, column: 1 })
+    openPeek(next, false)
+  }, [editor, peek, openPeek])
+
+  // 切换文件或卸载时清理装饰器和预览
+  useEffect(() => {
+    return () => {
+      if (editor) {
+        editor.deltaDecorations(decorationsRef.current, [])
+        editor.deltaDecorations(blameDecorationsRef.current, [])
+        if (zoneIdRef.current) {
+          const zoneId = zoneIdRef.current
+          editor.changeViewZones(accessor => accessor.removeZone(zoneId))
+        }
+      }
+      decorationsRef.current = []
+      blameDecorationsRef.current = []
+      zoneIdRef.current = null
+      setPeek(null)
+    }
+  }, [editor, filePath])
+
+  return { peek, stageHunk, unstageHunk, revertHunk: revertPeekHunk, closePeek, gotoHunk, refresh }
+}
@@ -0,0 +1,151 @@
+/**
+ * 编辑器测试装饰器 Hook
+ * 在测试用例所在行的行号旁显示运行状态，点击即运行该用例
+ *
+ * 使用 linesDecorations 区域，避免与断点的 glyph margin 冲突
+ */
+import { useEffect, useRef, useCallback } from 'react'
+import type { editor } from 'monaco-editor'
+import { useStore } from '@store'
+import { logger } from '@utils/Logger'
+import { testService, useTestStore, isTestFilePath, type TestStatus } from '@services/testService'
+
+const STATUS_CLASS: Record<TestStatus, string> = {
+  idle: 'test-gutter-idle',
+  running: 'test-gutter-running',
+  passed: 'test-gutter-passed',
+  failed: 'test-gutter-failed',
+  skipped: 'test-gutter-skipped',
+}
+
+// 编辑后重新扫描测试位置的延迟
+const RESCAN_DELAY_MS = 500
+
+// 注入测试装饰样式
+function injectTestStyles() {
+  const styleId = 'test-gutter-styles'
+  if (document.getElementById(styleId)) return
+
+  const style = document.createElement('style')
+  style.id = styleId
+  style.textContent = `
+    .test-gutter-idle, .test-gutter-running, .test-gutter-passed, .test-gutter-failed, .test-gutter-skipped {
+      cursor: pointer;
+      margin-left: 3px;
+      width: 0 !important;
+      height: 0 !important;
+      margin-top: 5px;
+      border-style: solid;
+      border-width: 5px 0 5px 8px;
+      border-color: transparent transparent transparent #848484;
+    }
+    .test-gutter-passed { border-left-color: #73c991; }
+    .test-gutter-failed { border-left-color: #f14c4c; }
+    .test-gutter-skipped { opacity: 0.4; }
+    .test-gutter-running {
+      border-left-color: #3794ff;
+      animation: test-gutter-pulse 1s ease-in-out infinite;
+    }
+    @keyframes test-gutter-pulse {
+      50% { opacity: 0.3; }
+    }
+  `
+  document.head.appendChild(style)
+}
+
+export function useEditorTestDecorations(
+  editor: editor.IStandaloneCodeEditor | null,
+  filePath: string | null
+) {
+  const decorationsRef = useRef<string[]>([])
+  const { workspacePath, language } = useStore()
+  const tests = useTestStore(state => state.tests)
+  const statuses = useTestStore(state => state.statuses)
+  const results = useTestStore(state => state.results)
+
+  // 注入样式
+  useEffect(() => {
+    injectTestStyles()
+  }, [])
+
+  // 更新测试装饰器
+  const updateDecorations = useCallback(() => {
+    if (!editor || !filePath) return
+    if (!editor.getModel()) return
+
+    const newDecorations: editor.IModelDeltaDecoration[] = testService.getTestsForFile(filePath).map(test => {
+      const status = statuses[test.id] || 'idle'
+      const message = results[test.id]?.message
+      const hover = status === 'failed' && message
+        ? `**${test.fullName}** failed\n\n\`\`\`\n${message.split('\n').slice(0, 10).join('\n')}\n\`\`\``
+        : `${language === 'zh' ? '运行测试' : 'Run test'}: ${test.fullName}`
+      return {
+        range: { startLineNumber: test.line, startColumn: 1, endLineNumber: test.line, endColumn: 1 },
+        options: {
+          linesDecorationsClassName: STATUS_CLASS[status],
+          linesDecorationsTooltip: test.fullName,
+          hoverMessage: { value: hover },
+          stickiness: 1, // NeverGrowsWhenTypingAtEdges
+        },
+      }
+    })
+
+    decorationsRef.current = editor.deltaDecorations(decorationsRef.current, newDecorations)
+  }, [editor, filePath, statuses, results, language])
+
+  // 监听测试和状态变化
+  useEffect(() => {
+    updateDecorations()
+  }, [tests, updateDecorations])
+
+  // 编辑测试文件后重新扫描用例位置
+  useEffect(() => {
+    if (!editor || !filePath || !isTestFilePath(filePath)) return
+
+    let timer: ReturnType<typeof setTimeout> | null = null
+    const disposable = editor.onDidChangeModelContent(() => {
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(() => {
+        const model = editor.getModel()
+        if (model) testService.rediscoverFile(filePath, model.getValue())
+      }, RESCAN_DELAY_MS)
+    })
+
+    return () => {
+      if (timer) clearTimeout(timer)
+      disposable.dispose()
+    }
+  }, [editor, filePath])
+
+  // 处理行装饰点击：运行该行的测试
+  useEffect(() => {
+    if (!editor || !filePath || !workspacePath) return
+
+    const disposable = editor.onMouseDown((e) => {
+      if (e.target.type !== 4) return // GUTTER_LINE_DECORATIONS
+      const line = e.target.position?.lineNumber
+      const test = line ? testService.getTestsForFile(filePath).find(t => t.line === line) : undefined
+      if (!test || useTestStore.getState().isRunning) return
+
+      testService.run(workspacePath, {
+        framework: test.framework,
+        paths: [test.file],
+        testName: testService.getNameFilter(test),
+      }).catch(error => logger.ui.warn('[TestDecorations] Failed to run test:', error))
+    })
+
+    return () => disposable.dispose()
+  }, [editor, filePath, workspacePath])
+
+  // 清理装饰器
+  useEffect(() => {
+    return () => {
+      if (editor && decorationsRef.current.length > 0) {
+        editor.deltaDecorations(decorationsRef.current, [])
+        decorationsRef.current = []
+      }
+    }
+  }, [editor])
+
+  return { updateDecorations }
+}
@@ -236,6 +236,22 @@ export const en = {
   // Search Results
   'searchResultsCount': '{results} results in {files} files',
   'replaceAll': 'Replace All',
+  'includePlaceholder': 'e.g. src/**/*.ts, *.tsx',
+  'replacePreview': 'Preview Replace',
+  'replaceSelected': 'Replace Selected',
+  'replaceDone': 'Replaced {matches} matches in {files} files',
+  'replaceSkipped': 'Skipped {count} files modified since preview',
+  'undoReplace': 'Undo Replace',
+  'replaceUndone': 'Restored {count} files',
+  'invalidRegex': 'Invalid regular expression',
+  'aiReplace': 'AI Replace',
+  'aiReplacePlaceholder': 'Describe how to transform each match',
+  'aiReplaceRun': 'Transform Matches',
+  'aiReplaceProgress': 'Transforming {done}/{total}',
+  'aiReplaceStage': 'Review in Composer',
+  'aiReplaceStaged': 'Staged {files} files in Composer',
+  'aiReplaceComposerBusy': 'Composer has pending changes, review them before staging',
+  'aiReplaceFailed': '{count} matches failed to transform',
 
   // Editor Context Menu
   'ctxGotoDefinition': 'Go to Definition',
@@ -359,6 +375,36 @@ export const en = {
   'git.stashDropped': 'Stash dropped',
   'git.noStash': 'No stashed changes',
   'git.noCommits': 'No commits yet',
+  'git.browseHistory': 'Browse full history',
+  'git.fileHistory': 'File history',
+  'git.historyExplorer': 'History Explorer',
+  'git.resolveConflicts': 'Resolve Conflicts',
+  'git.conflictsRemaining': 'conflicts remaining',
+  'git.acceptOurs': 'Accept Current',
+  'git.acceptTheirs': 'Accept Incoming',
+  'git.acceptBoth': 'Accept Both',
+  'git.acceptBase': 'Accept Base',
+  'git.currentChanges': 'Current',
+  'git.incomingChanges': 'Incoming',
+  'git.commonAncestor': 'Base',
+  'git.baseUnknown': 'Base unavailable: the file was edited after the merge',
+  'git.allConflictsResolved': 'All conflicts resolved',
+  'git.markResolved': 'Mark as Resolved',
+  'git.unresolvedConflicts': 'There are unresolved conflicts',
+  'git.conflictResolved': 'Conflict resolved',
+  'git.conflictLoadFailed': 'Failed to load file',
+  'git.conflictSaveFailed': 'Failed to save file',
+  'git.resolutionResult': 'Result',
+  'git.undoResolution': 'Undo',
+  'git.aiResolve': 'AI Resolve',
+  'git.aiResolveAll': 'AI Resolve All',
+  'git.aiResolving': 'AI is resolving...',
+  'git.aiProposal': 'AI proposal (compared with current)',
+  'git.acceptProposal': 'Accept',
+  'git.discardProposal': 'Discard',
+  'git.aiResolveFailed': 'AI resolve failed',
+  'git.lintErrorsFound': 'Lint errors found',
+  'git.lintErrorsConfirm': 'The resolved file has {count} lint error(s). Mark it as resolved anyway?',
   'git.operationInProgress': '{operation} in progress',
   'git.continue': 'Continue',
   'git.abort': 'Abort',
@@ -236,6 +236,22 @@ export const zh = {
   // Search Results
   'searchResultsCount': '在 {files} 个文件中找到 {results} 个结果',
   'replaceAll': '全部替换',
+  'includePlaceholder': '例如 src/**/*.ts, *.tsx',
+  'replacePreview': '预览替换',
+  'replaceSelected': '替换选中项',
+  'replaceDone': '已在 {files} 个文件中替换 {matches} 处',
+  'replaceSkipped': '跳过 {count} 个预览后被修改的文件',
+  'undoReplace': '撤销替换',
+  'replaceUndone': '已恢复 {count} 个文件',
+  'invalidRegex': '无效的正则表达式',
+  'aiReplace': 'AI 替换',
+  'aiReplacePlaceholder': '描述如何改写每个匹配',
+  'aiReplaceRun': '生成替换',
+  'aiReplaceProgress': '正在生成 {done}/{total}',
+  'aiReplaceStage': '在 Composer 中审阅',
+  'aiReplaceStaged': '已将 {files} 个文件暂存到 Composer',
+  'aiReplaceComposerBusy': 'Composer 中还有待审查的变更，请先处理后再暂存',
+  'aiReplaceFailed': '{count} 处匹配生成失败',
 
   // Editor Context Menu
   'ctxGotoDefinition': '跳转到定义',
@@ -359,6 +375,36 @@ export const zh = {
   'git.stashDropped': '贮藏已删除',
   'git.noStash': '没有贮藏的更改',
   'git.noCommits': '暂无提交',
+  'git.browseHistory': '浏览完整历史',
+  'git.fileHistory': '当前文件历史',
+  'git.historyExplorer': '提交历史',
+  'git.resolveConflicts': '解决冲突',
+  'git.conflictsRemaining': '个冲突待解决',
+  'git.acceptOurs': '采用当前',
+  'git.acceptTheirs': '采用传入',
+  'git.acceptBoth': '保留两者',
+  'git.acceptBase': '采用共同祖先',
+  'git.currentChanges': '当前更改',
+  'git.incomingChanges': '传入更改',
+  'git.commonAncestor': '共同祖先',
+  'git.baseUnknown': '无法确定共同祖先：文件在合并后被编辑过',
+  'git.allConflictsResolved': '所有冲突已解决',
+  'git.markResolved': '标记为已解决',
+  'git.unresolvedConflicts': '仍有未解决的冲突',
+  'git.conflictResolved': '冲突已解决',
+  'git.conflictLoadFailed': '无法读取文件',
+  'git.conflictSaveFailed': '无法保存文件',
+  'git.resolutionResult': '解决结果',
+  'git.undoResolution': '撤销',
+  'git.aiResolve': 'AI 解决',
+  'git.aiResolveAll': 'AI 解决全部',
+  'git.aiResolving': 'AI 正在解决...',
+  'git.aiProposal': 'AI 合并建议（与当前更改对比）',
+  'git.acceptProposal': '接受',
+  'git.discardProposal': '丢弃',
+  'git.aiResolveFailed': 'AI 解决失败',
+  'git.lintErrorsFound': '发现 Lint 错误',
+  'git.lintErrorsConfirm': '解决后的文件有 {count} 个 Lint 错误，仍然标记为已解决？',
   'git.operationInProgress': '{operation} 进行中',
   'git.continue': '继续',
   'git.abort': '中止',
@@ -17,6 +17,10 @@ import { useAgentStore } from '@renderer/agent/store/AgentStore'
 import { adnifyDir } from './adnifyDirService'
 import { checkpointService } from '@renderer/agent/services/checkpointService'
 import { mcpService } from './mcpService'
+import { slashCommandService } from './slashCommandService'
+import { taskService } from './taskService'
+import { costService } from './costService'
+import { planDocumentService } from '@renderer/agent/services/planDocumentService'
 import { gitService } from '@renderer/agent/services/gitService'
 import { resetLspState } from './lspService'
 import { clearExtraLibs } from './monacoTypeService'
@@ -276,6 +280,10 @@ class WorkspaceManager {
     if (workspace.roots.length === 0) {
       setFiles([])
       gitService.setWorkspace(null)
+      await slashCommandService.loadProjectCommands(null)
+      await taskService.loadTasks(null)
+      await costService.load(null)
+      await planDocumentService.load(null)
       return
     }
     
@@ -283,6 +291,9 @@ class WorkspaceManager {
     
     // 2. 初始化 adnifyDir
     await adnifyDir.setPrimaryRoot(primaryRoot)
+
+    // 计划文档需在 AgentStore 重新加载前切换，避免把新工作区的计划写入旧工作区
+    await planDocumentService.load(primaryRoot)
     
     // 3. 设置 gitService 工作区
     gitService.setWorkspace(primaryRoot)
@@ -308,6 +319,15 @@ class WorkspaceManager {
     
     // 7. 初始化 MCP 服务
     await mcpService.initialize(workspace.roots)
+
+    // 8. 加载项目自定义斜杠命令
+    await slashCommandService.loadProjectCommands(primaryRoot)
+
+    // 9. 加载项目任务（切换工作区时停止上一个工作区的后台任务）
+    await taskService.loadTasks(primaryRoot)
+
+    // 10. 加载费用账本
+    await costService.load(primaryRoot)
   }
 }
 
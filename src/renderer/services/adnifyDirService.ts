@@ -4,25 +4,36 @@
  * 所有项目级数据都存储在 .adnify 目录下：
  * .adnify/
  *   ├── index/              # 代码库向量索引
+ *   ├── worktrees/          # 隔离运行 Agent 的 git worktree
+ *   ├── test-results/       # 测试运行报告（run_tests / Test Explorer）
+ *   ├── plans/              # 计划文档（<name>.json 为数据，<name>.md 为可读视图）
  *   ├── sessions.json       # Agent 会话历史（包含检查点）
  *   ├── settings.json       # 项目级设置
  *   ├── workspace-state.json # 工作区状态（打开的文件等）
+ *   ├── tasks.json          # 项目任务（构建 / lint / watch 与问题匹配器）
+ *   ├── costs.json          # LLM 费用账本（按会话 / 日期 / 模型累计）
  *   └── rules.md            # 项目 AI 规则
  */
 
 // 目录名常量
 import { api } from '@/renderer/services/electronAPI'
 import { logger } from '@utils/Logger'
+import type { PermissionPolicyConfig } from '@shared/config/permissionPolicy'
 
 export const ADNIFY_DIR_NAME = '.adnify'
 
 // 子目录和文件
 export const ADNIFY_FILES = {
   INDEX_DIR: 'index',
+  WORKTREES_DIR: 'worktrees',
+  TEST_RESULTS_DIR: 'test-results',
+  PLANS_DIR: 'plans',
   SESSIONS: 'sessions.json',
   SETTINGS: 'settings.json',
   WORKSPACE_STATE: 'workspace-state.json',
   RULES: 'rules.md',
+  TASKS: 'tasks.json',
+  COSTS: 'costs.json',
 } as const
 
 type AdnifyFile = typeof ADNIFY_FILES[keyof typeof ADNIFY_FILES]
@@ -73,6 +84,8 @@ export interface ProjectSettingsData {
     autoApproveReadOnly: boolean
     maxToolCallsPerTurn: number
   }
+  /** 工具权限策略（由主进程读取并执行底线检查） */
+  permissions?: PermissionPolicyConfig
 }
 
 // ============ 默认值 ============
@@ -13,6 +13,9 @@
 import { api } from '@/renderer/services/electronAPI'
 import { logger } from '@utils/Logger'
 import { useStore } from '@store'
+import { modelRouter } from '@services/modelRouter'
+import type { LLMConfig } from '@services/settingsService'
+import type { LLMResult } from '@renderer/types/electron'
 import { getEditorConfig } from '@renderer/config/editorConfig'
 import { FIM_CAPABLE_MODELS, getLanguageFromPath as sharedGetLanguageFromPath } from '@shared/languages'
 
@@ -571,28 +574,59 @@ class CompletionService {
 
   /**
    * Fetch completion from LLM using existing sendMessage API
+   * The model is picked by the 'completion' route, falling back on rate-limit / auth errors
    */
-  private fetchCompletion(
+  private async fetchCompletion(
     context: CompletionContext,
     signal: AbortSignal
   ): Promise<CompletionResult> {
-    return new Promise((resolve, reject) => {
-      const state = useStore.getState()
-      const { llmConfig } = state
+    const configs = modelRouter.resolve('completion')
 
-      if (!llmConfig.apiKey) {
-        reject(new Error('API key not configured'))
-        return
-      }
+    if (!configs[0].apiKey) {
+      throw new Error('API key not configured')
+    }
 
-      // Build the prompt for FIM (Fill-in-the-Middle)
-      const prompt = this.buildFIMPrompt(context)
+    const result = await modelRouter.run(
+      'completion',
+      config => this.sendCompletionRequest(config, this.buildFIMPrompt(context, config.model), signal),
+      configs
+    )
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    logger.completion.info('[Completion] LLM Done. Text:', result.text)
+
+    if (!result.text) {
+      return { suggestions: [], cached: false }
+    }
+
+    const suggestion: CompletionSuggestion = {
+      text: result.text.trim(),
+      displayText: this.formatDisplayText(result.text.trim()),
+      range: { start: 0, end: 0 },
+      confidence: 0.8
+    }
+    return { suggestions: [suggestion], cached: false }
+  }
+
+  /**
+   * Send a single completion request with the given model config
+   */
+  private sendCompletionRequest(
+    config: LLMConfig,
+    prompt: string,
+    signal: AbortSignal
+  ): Promise<{ text: string; error?: string; errorCode?: string; usage?: LLMResult['usage'] }> {
+    return new Promise((resolve, reject) => {
       let completionText = ''
       let isAborted = false
 
       // Handle abort signal
       const abortHandler = () => {
         isAborted = true
+        cleanup()
         api.llm.abort()
         reject(new DOMException('Aborted', 'AbortError'))
       }
@@ -606,31 +640,17 @@ class CompletionService {
         }
       })
 
-      const unsubError = api.llm.onError((error: { message: string }) => {
+      const unsubError = api.llm.onError((error: { message: string; code?: string }) => {
         cleanup()
         if (!isAborted) {
-          reject(new Error(error.message))
+          resolve({ text: '', error: error.message, errorCode: error.code })
         }
       })
 
-      const unsubDone = api.llm.onDone(() => {
+      const unsubDone = api.llm.onDone((done: LLMResult) => {
         cleanup()
         if (isAborted) return
-
-        logger.completion.info('[Completion] LLM Done. Text:', completionText)
-
-        if (!completionText) {
-          resolve({ suggestions: [], cached: false })
-          return
-        }
-
-        const suggestion: CompletionSuggestion = {
-          text: completionText.trim(),
-          displayText: this.formatDisplayText(completionText.trim()),
-          range: { start: 0, end: 0 },
-          confidence: 0.8
-        }
-        resolve({ suggestions: [suggestion], cached: false })
+        resolve({ text: completionText, usage: done.usage })
       })
 
       const cleanup = () => {
@@ -642,7 +662,7 @@ class CompletionService {
 
       // Send the completion request
       api.llm.send({
-        config: llmConfig,
+        config,
         messages: [{ role: 'user', content: prompt }],
         systemPrompt: 'You are a code completion assistant. Output ONLY the code completion, no explanations or markdown.'
       }).catch((err) => {
@@ -667,10 +687,8 @@ class CompletionService {
    * Build FIM (Fill-in-the-Middle) prompt
    * Uses proper FIM format for supported models
    */
-  private buildFIMPrompt(context: CompletionContext): string {
+  private buildFIMPrompt(context: CompletionContext, model: string): string {
     const { prefix, suffix, language, openFiles, currentFunction, imports } = context
-    const state = useStore.getState()
-    const model = state.llmConfig.model || ''
 
     // Check if model supports native FIM format
     if (this.options.fimEnabled && this.isFIMModel(model)) {
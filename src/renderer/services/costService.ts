@@ -0,0 +1,357 @@
+/**
+ * 成本统计服务（.adnify/costs.json）
+ *
+ * - 按 Provider / 模型价格表（可被用户覆盖）计算每次 LLM 调用的费用
+ * - 按消息、会话、工作区、日期和模型累计费用，持久化到工作区的 .adnify/costs.json
+ * - 软预算超出时提醒，硬预算超出时暂停 Agent 循环并等待用户确认
+ *
+ * 价格单位为 USD / 百万 token；未知模型不计费（记录 token 但费用为 0）
+ */
+
+import { create } from 'zustand'
+import { api } from '@/renderer/services/electronAPI'
+import { logger } from '@utils/Logger'
+import { joinPath } from '@utils/pathUtils'
+import type { TokenUsage } from '@renderer/agent/types'
+import { ADNIFY_DIR_NAME, ADNIFY_FILES } from './adnifyDirService'
+
+// ============ 类型定义 ============
+
+/** 模型价格（USD / 百万 token） */
+export interface ModelPricing {
+  input: number
+  output: number
+  /** 缓存读取价格，未设置时按 input 计费 */
+  cacheRead?: number
+  /** 缓存写入价格，未设置时按 input 计费 */
+  cacheWrite?: number
+}
+
+/** 预算上限（USD），soft 提醒，hard 暂停并确认 */
+export interface BudgetLimit {
+  soft?: number
+  hard?: number
+}
+
+export type BudgetScope = 'thread' | 'daily' | 'monthly'
+
+export type CostBudgets = Partial<Record<BudgetScope, BudgetLimit>>
+
+/** 成本设置（保存在应用设置中） */
+export interface CostSettings {
+  /** 按 `provider/model` 覆盖价格 */
+  pricingOverrides: Record<string, ModelPricing>
+  budgets: CostBudgets
+}
+
+/** 累计桶 */
+export interface CostBucket {
+  cost: number
+  promptTokens: number
+  completionTokens: number
+  requests: number
+}
+
+/** 工作区费用账本 */
+export interface CostLedger {
+  version: 1
+  currency: 'USD'
+  total: CostBucket
+  /** 按本地日期（YYYY-MM-DD） */
+  days: Record<string, CostBucket>
+  /** 按会话 ID */
+  threads: Record<string, CostBucket & { updatedAt: number }>
+  /** 按 `provider/model` */
+  models: Record<string, CostBucket>
+}
+
+/** 单次调用的费用记录 */
+export interface CostEntry {
+  threadId: string | null
+  provider: string
+  model: string
+  usage: TokenUsage
+  timestamp?: number
+}
+
+/** 预算检查结果 */
+export interface BudgetStatus {
+  scope: BudgetScope
+  level: 'soft' | 'hard'
+  spent: number
+  limit: number
+}
+
+interface CostState {
+  ledger: CostLedger
+  /** 等待用户确认的硬预算 */
+  pendingBudget: BudgetStatus | null
+}
+
+// ============ 价格表 ============
+
+/** 内置 Provider 模型价格（USD / 百万 token） */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'openai/gpt-4o': { input: 2.5, output: 10, cacheRead: 1.25 },
+  'openai/gpt-4o-mini': { input: 0.15, output: 0.6, cacheRead: 0.075 },
+  'openai/gpt-4-turbo': { input: 10, output: 30 },
+  'openai/o1': { input: 15, output: 60, cacheRead: 7.5 },
+  'openai/o1-mini': { input: 1.1, output: 4.4, cacheRead: 0.55 },
+  'openai/o3-mini': { input: 1.1, output: 4.4, cacheRead: 0.55 },
+  'anthropic/claude-sonnet-4-20250514': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'anthropic/claude-3-5-sonnet-20241022': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'anthropic/claude-3-5-haiku-20241022': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  'anthropic/claude-3-opus-20240229': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'gemini/gemini-2.0-flash-exp': { input: 0.1, output: 0.4 },
+  'gemini/gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini/gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini/gemini-2.5-pro-preview-05-06': { input: 1.25, output: 10 },
+}
+
+export const DEFAULT_COST_SETTINGS: CostSettings = {
+  pricingOverrides: {},
+  budgets: {},
+}
+
+// ============ 纯函数 ============
+
+export function pricingKey(provider: string, model: string): string {
+  return `${provider}/${model}`
+}
+
+/**
+ * 查找模型价格：用户覆盖 > 内置价格 > 其他 Provider 下同名模型（如自定义代理转发的 gpt-4o）
+ */
+export function getModelPricing(
+  provider: string,
+  model: string,
+  overrides: Record<string, ModelPricing> = {}
+): ModelPricing | undefined {
+  const key = pricingKey(provider, model)
+  if (overrides[key]) return overrides[key]
+  if (DEFAULT_MODEL_PRICING[key]) return DEFAULT_MODEL_PRICING[key]
+
+  const byModel = (table: Record<string, ModelPricing>) =>
+    Object.entries(table).find(([k]) => k.slice(k.indexOf('/') + 1) === model)?.[1]
+  return byModel(overrides) || byModel(DEFAULT_MODEL_PRICING)
+}
+
+/**
+ * 计算一次调用的费用（promptTokens 包含缓存读写的 token）
+ */
+export function calculateCost(usage: TokenUsage, pricing: ModelPricing | undefined): number {
+  if (!pricing) return 0
+  const cacheRead = usage.cacheReadTokens || 0
+  const cacheWrite = usage.cacheWriteTokens || 0
+  const uncached = Math.max(0, usage.promptTokens - cacheRead - cacheWrite)
+
+  return (
+    uncached * pricing.input +
+    cacheRead * (pricing.cacheRead ?? pricing.input) +
+    cacheWrite * (pricing.cacheWrite ?? pricing.input) +
+    usage.completionTokens * pricing.output
+  ) / 1_000_000
+}
+
+export function createEmptyLedger(): CostLedger {
+  return { version: 1, currency: 'USD', total: emptyBucket(), days: {}, threads: {}, models: {} }
+}
+
+function emptyBucket(): CostBucket {
+  return { cost: 0, promptTokens: 0, completionTokens: 0, requests: 0 }
+}
+
+function addToBucket<T extends CostBucket>(bucket: T | undefined, usage: TokenUsage, cost: number, extra?: Omit<T, keyof CostBucket>): T {
+  const base = bucket || ({ ...emptyBucket(), ...extra } as T)
+  return {
+    ...base,
+    ...extra,
+    cost: base.cost + cost,
+    promptTokens: base.promptTokens + usage.promptTokens,
+    completionTokens: base.completionTokens + usage.completionTokens,
+    requests: base.requests + 1,
+  }
+}
+
+/** 本地日期 YYYY-MM-DD */
+export function toDayKey(timestamp: number): string {
+  const d = new Date(timestamp)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+/**
+ * 将一次调用记入账本（返回新账本，不修改原对象）
+ */
+export function addToLedger(ledger: CostLedger, entry: CostEntry, cost: number): CostLedger {
+  const timestamp = entry.timestamp ?? Date.now()
+  const day = toDayKey(timestamp)
+  const model = pricingKey(entry.provider, entry.model)
+
+  return {
+    ...ledger,
+    total: addToBucket(ledger.total, entry.usage, cost),
+    days: { ...ledger.days, [day]: addToBucket(ledger.days[day], entry.usage, cost) },
+    models: { ...ledger.models, [model]: addToBucket(ledger.models[model], entry.usage, cost) },
+    threads: entry.threadId
+      ? { ...ledger.threads, [entry.threadId]: addToBucket(ledger.threads[entry.threadId], entry.usage, cost, { updatedAt: timestamp }) }
+      : ledger.threads,
+  }
+}
+
+/**
+ * 指定月份（默认当月）的费用
+ */
+export function getMonthCost(ledger: CostLedger, timestamp = Date.now()): number {
+  const month = toDayKey(timestamp).slice(0, 7)
+  return Object.entries(ledger.days)
+    .filter(([day]) => day.startsWith(month))
+    .reduce((sum, [, bucket]) => sum + bucket.cost, 0)
+}
+
+/**
+ * 检查预算，返回所有已超出的上限（硬预算优先于同一范围的软预算）
+ */
+export function checkBudgets(
+  ledger: CostLedger,
+  budgets: CostBudgets,
+  threadId: string | null,
+  timestamp = Date.now()
+): BudgetStatus[] {
+  const spentByScope: Record<BudgetScope, number> = {
+    thread: threadId ? ledger.threads[threadId]?.cost || 0 : 0,
+    daily: ledger.days[toDayKey(timestamp)]?.cost || 0,
+    monthly: getMonthCost(ledger, timestamp),
+  }
+
+  const statuses: BudgetStatus[] = []
+  for (const scope of ['thread', 'daily', 'monthly'] as BudgetScope[]) {
+    const limit = budgets[scope]
+    const spent = spentByScope[scope]
+    if (limit?.hard && spent >= limit.hard) {
+      statuses.push({ scope, level: 'hard', spent, limit: limit.hard })
+    } else if (limit?.soft && spent >= limit.soft) {
+      statuses.push({ scope, level: 'soft', spent, limit: limit.soft })
+    }
+  }
+  return statuses
+}
+
+/** 费用显示（小额保留更多小数位） */
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0.00'
+  if (cost < 0.01) return `$${cost.toFixed(4)}`
+  return `$${cost.toFixed(2)}`
+}
+
+export function formatBudgetStatus(status: BudgetStatus, language: 'en' | 'zh' = 'en'): string {
+  const scopeLabel = language === 'zh'
+    ? { thread: '本会话', daily: '今日', monthly: '本月' }[status.scope]
+    : { thread: 'this thread', daily: 'today', monthly: 'this month' }[status.scope]
+  const amounts = `${formatCost(status.spent)} / ${formatCost(status.limit)}`
+  if (language === 'zh') {
+    return `${scopeLabel}花费已达${status.level === 'hard' ? '硬' : '软'}预算：${amounts}`
+  }
+  return `Spend for ${scopeLabel} reached the ${status.level} budget: ${amounts}`
+}
+
+// ============ Store ============
+
+export const useCostStore = create<CostState>(() => ({
+  ledger: createEmptyLedger(),
+  pendingBudget: null,
+}))
+
+// ============ 服务 ============
+
+class CostService {
+  private workspacePath: string | null = null
+  private writeChain: Promise<void> = Promise.resolve()
+  private budgetResolver: ((approved: boolean) => void) | null = null
+
+  /**
+   * 加载工作区的费用账本
+   */
+  async load(workspacePath: string | null): Promise<void> {
+    this.workspacePath = workspacePath
+    let ledger = createEmptyLedger()
+
+    const file = this.getLedgerFile()
+    if (file) {
+      try {
+        const content = await api.file.read(file)
+        if (content) ledger = { ...ledger, ...(JSON.parse(content) as Partial<CostLedger>) }
+      } catch (e) {
+        logger.system.warn('[Cost] Failed to load costs.json:', e)
+      }
+    }
+
+    useCostStore.setState({ ledger })
+  }
+
+  getLedger(): CostLedger {
+    return useCostStore.getState().ledger
+  }
+
+  /**
+   * 记录一次 LLM 调用，返回本次费用
+   */
+  record(entry: CostEntry, settings: CostSettings = DEFAULT_COST_SETTINGS): number {
+    const cost = calculateCost(entry.usage, getModelPricing(entry.provider, entry.model, settings.pricingOverrides))
+    const ledger = addToLedger(this.getLedger(), entry, cost)
+    useCostStore.setState({ ledger })
+    this.persist(ledger)
+    return cost
+  }
+
+  getThreadCost(threadId: string | null): number {
+    return threadId ? this.getLedger().threads[threadId]?.cost || 0 : 0
+  }
+
+  checkBudgets(threadId: string | null, budgets: CostBudgets): BudgetStatus[] {
+    return checkBudgets(this.getLedger(), budgets, threadId)
+  }
+
+  /**
+   * 硬预算超出时等待用户确认是否继续
+   */
+  requestBudgetApproval(status: BudgetStatus, signal?: AbortSignal): Promise<boolean> {
+    this.resolveBudgetApproval(false)
+    useCostStore.setState({ pendingBudget: status })
+
+    return new Promise((resolve) => {
+      const onAbort = () => this.resolveBudgetApproval(false)
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.budgetResolver = (approved) => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve(approved)
+      }
+    })
+  }
+
+  resolveBudgetApproval(approved: boolean): void {
+    const resolver = this.budgetResolver
+    this.budgetResolver = null
+    useCostStore.setState({ pendingBudget: null })
+    resolver?.(approved)
+  }
+
+  private getLedgerFile(): string | null {
+    return this.workspacePath ? joinPath(this.workspacePath, ADNIFY_DIR_NAME, ADNIFY_FILES.COSTS) : null
+  }
+
+  /** 串行写入，避免并发调用交错 */
+  private persist(ledger: CostLedger): void {
+    const workspacePath = this.workspacePath
+    const file = this.getLedgerFile()
+    if (!workspacePath || !file) return
+
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await api.file.ensureDir(joinPath(workspacePath, ADNIFY_DIR_NAME))
+        await api.file.write(file, JSON.stringify(ledger, null, 2))
+      })
+      .catch(e => logger.system.error('[Cost] Failed to save costs.json:', e))
+  }
+}
+
+export const costService = new CostService()
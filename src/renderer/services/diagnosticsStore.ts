@@ -8,10 +8,16 @@ import { create } from 'zustand'
 import { LspDiagnostic } from '@app-types/electron'
 import { onDiagnostics } from './lspService'
 
+/** LSP 推送的诊断来源；任务问题匹配器使用 `task:<label>` */
+export const LSP_SOURCE = 'lsp'
+
 interface DiagnosticsState {
-  // URI -> 诊断列表
+  // URI -> 诊断列表（合并所有来源）
   diagnostics: Map<string, LspDiagnostic[]>
 
+  // 来源 -> URI -> 诊断列表
+  sources: Map<string, Map<string, LspDiagnostic[]>>
+
   // 更新版本号（用于触发组件重新渲染）
   version: number
 
@@ -20,7 +26,10 @@ interface DiagnosticsState {
   warningCount: number
 
   // 操作
-  setDiagnostics: (uri: string, diags: LspDiagnostic[]) => void
+  setDiagnostics: (uri: string, diags: LspDiagnostic[], source?: string) => void
+  /** 整体替换某个来源的诊断（上次有、本次没有的文件会被清除） */
+  setSourceDiagnostics: (source: string, byUri: Map<string, LspDiagnostic[]>) => void
+  clearSource: (source: string) => void
   clearAll: () => void
 }
 
@@ -70,43 +79,75 @@ export function getFileStats(
   return { errors, warnings }
 }
 
+/**
+ * 合并所有来源的诊断并重新计算全局统计
+ */
+function mergeSources(sources: Map<string, Map<string, LspDiagnostic[]>>) {
+  const diagnostics = new Map<string, LspDiagnostic[]>()
+  let errorCount = 0
+  let warningCount = 0
+
+  sources.forEach((byUri) => {
+    byUri.forEach((diags, uri) => {
+      const existing = diagnostics.get(uri)
+      diagnostics.set(uri, existing ? [...existing, ...diags] : diags)
+      diags.forEach((diag) => {
+        if (diag.severity === 1) errorCount++
+        else if (diag.severity === 2) warningCount++
+      })
+    })
+  })
+
+  return { diagnostics, errorCount, warningCount }
+}
+
 export const useDiagnosticsStore = create<DiagnosticsState>((set) => ({
   diagnostics: new Map(),
+  sources: new Map(),
   version: 0,
   errorCount: 0,
   warningCount: 0,
 
-  setDiagnostics: (uri, diags) => {
+  setDiagnostics: (uri, diags, source = LSP_SOURCE) => {
     set((state) => {
-      const next = new Map(state.diagnostics)
+      const sources = new Map(state.sources)
+      const byUri = new Map(sources.get(source))
       if (diags.length === 0) {
-        next.delete(uri)
+        byUri.delete(uri)
       } else {
-        next.set(uri, diags)
+        byUri.set(uri, diags)
       }
+      if (byUri.size === 0) sources.delete(source)
+      else sources.set(source, byUri)
 
-      // 重新计算全局统计
-      let errors = 0
-      let warnings = 0
-      next.forEach((d) => {
-        d.forEach((diag) => {
-          if (diag.severity === 1) errors++
-          else if (diag.severity === 2) warnings++
-        })
-      })
+      return { sources, ...mergeSources(sources), version: state.version + 1 }
+    })
+  },
 
-      return {
-        diagnostics: next,
-        version: state.version + 1,
-        errorCount: errors,
-        warningCount: warnings,
-      }
+  setSourceDiagnostics: (source, byUri) => {
+    set((state) => {
+      const sources = new Map(state.sources)
+      const next = new Map([...byUri].filter(([, diags]) => diags.length > 0))
+      if (next.size === 0) sources.delete(source)
+      else sources.set(source, next)
+
+      return { sources, ...mergeSources(sources), version: state.version + 1 }
+    })
+  },
+
+  clearSource: (source) => {
+    set((state) => {
+      if (!state.sources.has(source)) return state
+      const sources = new Map(state.sources)
+      sources.delete(source)
+      return { sources, ...mergeSources(sources), version: state.version + 1 }
     })
   },
 
   clearAll: () => {
     set({
       diagnostics: new Map(),
+      sources: new Map(),
       version: 0,
       errorCount: 0,
       warningCount: 0,
@@ -32,13 +32,13 @@ function createGroupedAPI() {
       getTree: (path: string, maxDepth?: number) => raw.getFileTree(path, maxDepth),
       read: (path: string) => raw.readFile(path),
       readBinary: (path: string) => raw.readBinaryFile(path),
-      write: (path: string, content: string) => raw.writeFile(path, content),
+      write: (path: string, content: string, options?: Parameters<typeof raw.writeFile>[2]) => raw.writeFile(path, content, options),
       save: (content: string, path?: string) => raw.saveFile(content, path),
       exists: (path: string) => raw.fileExists(path),
-      mkdir: (path: string) => raw.mkdir(path),
+      mkdir: (path: string, options?: Parameters<typeof raw.mkdir>[1]) => raw.mkdir(path, options),
       ensureDir: (path: string) => raw.ensureDir(path),
-      delete: (path: string) => raw.deleteFile(path),
-      rename: (oldPath: string, newPath: string) => raw.renameFile(oldPath, newPath),
+      delete: (path: string, options?: Parameters<typeof raw.deleteFile>[1]) => raw.deleteFile(path, options),
+      rename: (oldPath: string, newPath: string, options?: Parameters<typeof raw.renameFile>[2]) => raw.renameFile(oldPath, newPath, options),
       showInFolder: (path: string) => raw.showItemInFolder(path),
       search: (query: string, rootPath: string | string[], options?: Parameters<typeof raw.searchFiles>[2]) => 
         raw.searchFiles(query, rootPath, options),
@@ -108,6 +108,7 @@ function createGroupedAPI() {
       clearAuditLogs: () => raw.clearAuditLogs(),
       getPermissions: () => raw.getPermissions(),
       resetPermissions: () => raw.resetPermissions(),
+      getPermissionPolicy: (workspacePath: string) => raw.getPermissionPolicy(workspacePath),
     },
 
     // 索引
@@ -117,11 +118,18 @@ function createGroupedAPI() {
       status: (workspacePath: string) => raw.indexStatus(workspacePath),
       hasIndex: (workspacePath: string) => raw.indexHasIndex(workspacePath),
       search: (workspacePath: string, query: string, topK?: number) => raw.indexSearch(workspacePath, query, topK),
-      hybridSearch: (workspacePath: string, query: string, topK?: number) => raw.indexHybridSearch(workspacePath, query, topK),
+      hybridSearch: (workspacePath: string, query: string, topK?: number, options?: { activeFile?: string }) =>
+        raw.indexHybridSearch(workspacePath, query, topK, options),
       updateFile: (workspacePath: string, filePath: string) => raw.indexUpdateFile(workspacePath, filePath),
       clear: (workspacePath: string) => raw.indexClear(workspacePath),
       updateEmbeddingConfig: (workspacePath: string, config: Parameters<typeof raw.indexUpdateEmbeddingConfig>[1]) => 
         raw.indexUpdateEmbeddingConfig(workspacePath, config),
+      updateRerankConfig: (workspacePath: string, config: Parameters<typeof raw.indexUpdateRerankConfig>[1]) =>
+        raw.indexUpdateRerankConfig(workspacePath, config),
+      getCallers: (workspacePath: string, symbol: string, filePath?: string) => raw.indexGetCallers(workspacePath, symbol, filePath),
+      getCallees: (workspacePath: string, symbol: string, filePath?: string) => raw.indexGetCallees(workspacePath, symbol, filePath),
+      getImportGraph: (workspacePath: string, filePath: string, direction?: 'imports' | 'importedBy' | 'both', depth?: number) =>
+        raw.indexGetImportGraph(workspacePath, filePath, direction, depth),
       testConnection: (workspacePath: string) => raw.indexTestConnection(workspacePath),
       getProviders: () => raw.indexGetProviders(),
       onProgress: (callback: Parameters<typeof raw.onIndexProgress>[0]) => raw.onIndexProgress(callback),
@@ -7,7 +7,7 @@ import { api } from './electronAPI'
 import { logger } from '@utils/Logger'
 import { startupMetrics } from '@shared/utils/startupMetrics'
 import { useStore } from '../store'
-import { useAgentStore, initializeAgentStore } from '@renderer/agent/store/AgentStore'
+import { useAgentStore, initializeAgentStore, selectIsStreaming } from '@renderer/agent/store/AgentStore'
 import { initEditorConfig } from '../config/editorConfig'
 import { themeManager } from '../config/themeConfig'
 import { keybindingService } from './keybindingService'
@@ -17,6 +17,10 @@ import { checkpointService } from '@renderer/agent/services/checkpointService'
 import { initDiagnosticsListener } from './diagnosticsStore'
 import { restoreWorkspaceState } from './workspaceStateService'
 import { mcpService } from './mcpService'
+import { slashCommandService } from './slashCommandService'
+import { taskService } from './taskService'
+import { costService } from './costService'
+import { planDocumentService } from '@renderer/agent/services/planDocumentService'
 
 export interface InitResult {
   success: boolean
@@ -52,6 +56,9 @@ async function initCoreModules(): Promise<void> {
     initEditorConfig(),
     themeManager.init(),
   ])
+
+  // 同步 Agent 运行状态到快捷键的 agentRunning 上下文
+  useAgentStore.subscribe(state => keybindingService.setContext('agentRunning', selectIsStreaming(state)))
   
   startupMetrics.end('init-core')
 }
@@ -130,6 +137,42 @@ function scheduleBackgroundInit(workspaceRoots: string[]): void {
     }
   })
   
+  // 项目自定义斜杠命令
+  scheduleIdleTask(async () => {
+    try {
+      await slashCommandService.loadProjectCommands(workspaceRoots[0])
+    } catch (e) {
+      logger.system.warn('[Init] Project slash commands load failed:', e)
+    }
+  })
+
+  // 项目任务（.adnify/tasks.json）
+  scheduleIdleTask(async () => {
+    try {
+      await taskService.loadTasks(workspaceRoots[0])
+    } catch (e) {
+      logger.system.warn('[Init] Project tasks load failed:', e)
+    }
+  })
+
+  // LLM 费用账本（.adnify/costs.json）
+  scheduleIdleTask(async () => {
+    try {
+      await costService.load(workspaceRoots[0])
+    } catch (e) {
+      logger.system.warn('[Init] Cost ledger load failed:', e)
+    }
+  })
+
+  // 计划文档（.adnify/plans）
+  scheduleIdleTask(async () => {
+    try {
+      await planDocumentService.load(workspaceRoots[0])
+    } catch (e) {
+      logger.system.warn('[Init] Plan documents load failed:', e)
+    }
+  })
+
   // MCP 服务初始化
   scheduleIdleTask(async () => {
     try {
@@ -1,29 +1,80 @@
 import { api } from '@/renderer/services/electronAPI'
 import { logger } from '@utils/Logger'
+import {
+    KeyStroke,
+    parseKeybinding,
+    formatKeybinding,
+    eventToKeyStroke,
+    strokeMatchesEvent,
+    keybindingsConflict,
+    evaluateWhen as evaluateWhenExpression,
+    parseVSCodeKeybindings,
+    VSCODE_COMMAND_MAP,
+} from '@utils/keybindings'
 
 const LOCAL_STORAGE_KEY = 'adnify-keybindings'
 
+// 由焦点位置决定的上下文，按键时根据 document.activeElement 计算
+const FOCUS_CONTEXTS: Record<string, string> = {
+    editorFocus: '.monaco-editor',
+    editorTextFocus: '.monaco-editor',
+    terminalFocus: '.xterm',
+    chatInputFocus: '[data-chat-input]',
+}
+
+// 录制快捷键时不参与组合键处理的区域
+const RECORDER_SELECTOR = '[data-keybinding-recorder]'
+
 export interface Command {
     id: string
     title: string
     category?: string
     defaultKey?: string
+    /** 默认的 when 上下文表达式，如 "editorFocus && !agentRunning" */
+    when?: string
     handler?: () => void
 }
 
 export interface Keybinding {
     commandId: string
     key: string
+    when?: string
+}
+
+/** 用户覆盖的快捷键；key 为空字符串表示移除绑定 */
+interface KeybindingOverride {
+    key: string
+    when?: string
+}
+
+export interface VSCodeImportResult {
+    imported: number
+    removed: number
+    /** 无法映射的 VS Code 命令 */
+    skipped: string[]
+}
+
+/** 组合键进行中的状态 */
+interface PendingChord {
+    strokes: KeyStroke[]
+    candidates: Keybinding[]
 }
 
 class KeybindingService {
     private commands: Map<string, Command> = new Map()
-    private overrides: Map<string, string> = new Map()
+    private overrides: Map<string, KeybindingOverride> = new Map()
+    private contexts: Map<string, unknown> = new Map()
+    private pendingChord: PendingChord | null = null
+    // 完成组合键的按键事件及其对应的命令
+    private chordEvent: KeyboardEvent | null = null
+    private chordCommands: Set<string> = new Set()
+    private chordListeners: Set<(pending: string | null) => void> = new Set()
     private initialized = false
 
     async init() {
         if (this.initialized) return
         await this.loadOverrides()
+        window.addEventListener('keydown', this.handleChordKeyDown, true)
         this.initialized = true
         logger.system.info('[KeybindingService] Initialized with', this.commands.size, 'commands')
     }
@@ -33,7 +84,19 @@ class KeybindingService {
     }
 
     getBinding(commandId: string): string | undefined {
-        return this.overrides.get(commandId) || this.commands.get(commandId)?.defaultKey
+        const override = this.overrides.get(commandId)
+        return override ? override.key : this.commands.get(commandId)?.defaultKey
+    }
+
+    getWhen(commandId: string): string | undefined {
+        const override = this.overrides.get(commandId)
+        return override ? override.when : this.commands.get(commandId)?.when
+    }
+
+    getKeybinding(commandId: string): Keybinding | undefined {
+        const key = this.getBinding(commandId)
+        if (!key) return undefined
+        return { commandId, key, when: this.getWhen(commandId) }
     }
 
     getAllCommands(): Command[] {
@@ -44,6 +107,104 @@ class KeybindingService {
         return this.overrides.has(commandId)
     }
 
+    /**
+     * 与指定命令快捷键冲突的其他命令
+     */
+    getConflicts(commandId: string, binding = this.getKeybinding(commandId)): Command[] {
+        if (!binding) return []
+        return this.getAllCommands().filter(cmd => {
+            if (cmd.id === commandId) return false
+            const other = this.getKeybinding(cmd.id)
+            return !!other && keybindingsConflict(binding, other)
+        })
+    }
+
+    // ==================== when 上下文 ====================
+
+    setContext(key: string, value: unknown) {
+        this.contexts.set(key, value)
+    }
+
+    getContext(key: string): unknown {
+        const selector = FOCUS_CONTEXTS[key]
+        if (selector) return !!this.getActiveElement()?.closest(selector)
+        if (key === 'inputFocus') {
+            const el = this.getActiveElement()
+            return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.isContentEditable)
+        }
+        return this.contexts.get(key)
+    }
+
+    evaluateWhen(when: string | undefined): boolean {
+        return evaluateWhenExpression(when, key => this.getContext(key))
+    }
+
+    private getActiveElement(): HTMLElement | null {
+        return typeof document === 'undefined' ? null : document.activeElement as HTMLElement | null
+    }
+
+    // ==================== 组合键 ====================
+
+    /** 监听组合键状态变化，pending 为已按下的前缀（如 "Ctrl+K"），结束时为 null */
+    onChordChange(listener: (pending: string | null) => void): () => void {
+        this.chordListeners.add(listener)
+        return () => this.chordListeners.delete(listener)
+    }
+
+    private setPendingChord(pending: PendingChord | null) {
+        this.pendingChord = pending
+        const text = pending ? formatKeybinding(pending.strokes) : null
+        this.chordListeners.forEach(listener => listener(text))
+    }
+
+    /**
+     * 捕获阶段处理多段组合键：按下前缀时拦截事件并等待下一次按键，
+     * 完成组合键的事件照常分发，由 matches 识别
+     */
+    private handleChordKeyDown = (e: KeyboardEvent) => {
+        if ((e.target as HTMLElement | null)?.closest?.(RECORDER_SELECTOR)) return
+        const stroke = eventToKeyStroke(e)
+        if (!stroke) return
+
+        const index = this.pendingChord?.strokes.length ?? 0
+        const candidates = (this.pendingChord?.candidates ?? this.getActiveChords())
+            .filter(binding => {
+                const strokes = parseKeybinding(binding.key)
+                return strokes.length > index && strokeMatchesEvent(strokes[index], e)
+            })
+
+        const completed = candidates.filter(binding => parseKeybinding(binding.key).length === index + 1)
+        if (completed.length > 0) {
+            this.chordEvent = e
+            this.chordCommands = new Set(completed.map(b => b.commandId))
+            this.setPendingChord(null)
+            return
+        }
+
+        if (candidates.length > 0) {
+            this.setPendingChord({ strokes: [...(this.pendingChord?.strokes ?? []), stroke], candidates })
+        } else if (this.pendingChord) {
+            logger.system.info(`[KeybindingService] (${formatKeybinding([...this.pendingChord.strokes, stroke])}) is not a command`)
+            this.setPendingChord(null)
+        } else {
+            return
+        }
+        e.preventDefault()
+        e.stopPropagation()
+    }
+
+    /** 当前上下文中生效的多段组合键 */
+    private getActiveChords(): Keybinding[] {
+        const result: Keybinding[] = []
+        for (const id of this.commands.keys()) {
+            const binding = this.getKeybinding(id)
+            if (binding && parseKeybinding(binding.key).length > 1 && this.evaluateWhen(binding.when)) {
+                result.push(binding)
+            }
+        }
+        return result
+    }
+
     /**
      * 处理按键事件
      * @returns 如果事件被处理则返回 true
@@ -62,43 +223,30 @@ class KeybindingService {
     }
 
     matches(e: KeyboardEvent | React.KeyboardEvent, commandId: string): boolean {
-        const binding = this.getBinding(commandId)
-        if (!binding) return false
-
-        const parts = binding.toLowerCase().split('+')
-        const key = parts.pop()
-
-        const meta = parts.includes('meta') || parts.includes('cmd') || parts.includes('command')
-        const ctrl = parts.includes('ctrl') || parts.includes('control')
-        const shift = parts.includes('shift')
-        const alt = parts.includes('alt') || parts.includes('option')
-
-        const modifiersMatch =
-            (e.metaKey === meta) &&
-            (e.ctrlKey === ctrl) &&
-            (e.shiftKey === shift) &&
-            (e.altKey === alt)
-
-        // Handle special keys
-        let keyMatch = false
-        if (key === 'space') {
-            keyMatch = e.code === 'Space' || e.key === ' '
+        const binding = this.getKeybinding(commandId)
+        if (!binding || !this.evaluateWhen(binding.when)) return false
+
+        const event = 'nativeEvent' in e ? e.nativeEvent : e
+        const strokes = parseKeybinding(binding.key)
+        let matched: boolean
+        if (strokes.length > 1) {
+            matched = event === this.chordEvent && this.chordCommands.has(commandId)
         } else {
-            keyMatch = e.key.toLowerCase() === key
+            // 完成组合键的按键不再触发单键绑定
+            matched = strokes.length === 1 && event !== this.chordEvent && strokeMatchesEvent(strokes[0], event)
         }
 
-        if (modifiersMatch && keyMatch) {
-            logger.system.info(`[KeybindingService] Match found for ${commandId} (${binding})`)
+        if (matched) {
+            logger.system.info(`[KeybindingService] Match found for ${commandId} (${binding.key})`)
         }
-
-        return modifiersMatch && keyMatch
+        return matched
     }
 
-    async updateBinding(commandId: string, newKey: string | null) {
+    async updateBinding(commandId: string, newKey: string | null, when = this.getWhen(commandId)) {
         if (newKey === null) {
             this.overrides.delete(commandId)
         } else {
-            this.overrides.set(commandId, newKey)
+            this.overrides.set(commandId, { key: newKey, ...(when?.trim() ? { when: when.trim() } : {}) })
         }
         await this.saveOverrides()
     }
@@ -108,13 +256,53 @@ class KeybindingService {
         await this.saveOverrides()
     }
 
+    /**
+     * 导入 VS Code keybindings.json
+     * "-command" 形式的条目表示移除默认绑定，仅在文件中没有为该命令指定新绑定时生效
+     */
+    async importVSCodeKeybindings(text: string): Promise<VSCodeImportResult> {
+        const entries = parseVSCodeKeybindings(text)
+        const bound = new Map<string, KeybindingOverride>()
+        const removed = new Set<string>()
+        const skipped = new Set<string>()
+
+        for (const entry of entries) {
+            const isRemoval = entry.command.startsWith('-')
+            const command = isRemoval ? entry.command.slice(1) : entry.command
+            const commandId = VSCODE_COMMAND_MAP[command] ?? (this.commands.has(command) ? command : null)
+            const strokes = parseKeybinding(entry.key)
+            if (!commandId || strokes.length === 0) {
+                skipped.add(entry.command)
+                continue
+            }
+            if (isRemoval) {
+                removed.add(commandId)
+            } else {
+                // 与 VS Code 一致，后出现的条目优先
+                bound.set(commandId, { key: formatKeybinding(strokes), ...(entry.when ? { when: entry.when } : {}) })
+            }
+        }
+
+        for (const [commandId, override] of bound) {
+            this.overrides.set(commandId, override)
+        }
+        const removedOnly = [...removed].filter(id => !bound.has(id))
+        for (const commandId of removedOnly) {
+            this.overrides.set(commandId, { key: '' })
+        }
+        await this.saveOverrides()
+
+        logger.system.info(`[KeybindingService] Imported ${bound.size} VS Code keybindings, removed ${removedOnly.length}, skipped ${skipped.size}`)
+        return { imported: bound.size, removed: removedOnly.length, skipped: [...skipped] }
+    }
+
     private async loadOverrides() {
         // 优先从 localStorage 读取（快速）
         try {
             const localData = localStorage.getItem(LOCAL_STORAGE_KEY)
             if (localData) {
                 const parsed = JSON.parse(localData)
-                this.overrides = new Map(Object.entries(parsed))
+                this.overrides = this.parseOverrides(parsed)
                 // 异步同步到文件（不阻塞）
                 api.settings.set('keybindings', parsed).catch(() => {})
                 return
@@ -125,9 +313,9 @@ class KeybindingService {
         
         // 从文件读取
         try {
-            const saved = await api.settings.get('keybindings') as Record<string, string>
+            const saved = await api.settings.get('keybindings') as Record<string, string | KeybindingOverride>
             if (saved) {
-                this.overrides = new Map(Object.entries(saved))
+                this.overrides = this.parseOverrides(saved)
                 // 同步到 localStorage
                 localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(saved))
             }
@@ -136,6 +324,11 @@ class KeybindingService {
         }
     }
 
+    // 兼容旧格式（命令 ID → 快捷键字符串）
+    private parseOverrides(saved: Record<string, string | KeybindingOverride>): Map<string, KeybindingOverride> {
+        return new Map(Object.entries(saved).map(([id, value]) => [id, typeof value === 'string' ? { key: value } : value]))
+    }
+
     private async saveOverrides() {
         const obj = Object.fromEntries(this.overrides)
         // 同步写入 localStorage（快速）
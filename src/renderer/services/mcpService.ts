@@ -7,7 +7,9 @@ import { api } from '@/renderer/services/electronAPI'
 import { useStore } from '@store'
 import { logger } from '@utils/Logger'
 import type {
+  McpServerConfig,
   McpServerState,
+  McpServerStatusEvent,
   McpToolCallRequest,
   McpToolCallResult,
   McpResourceReadRequest,
@@ -207,15 +209,7 @@ class McpService {
   }
 
   /** 添加服务器 */
-  async addServer(config: {
-    id: string
-    name: string
-    command: string
-    args: string[]
-    env: Record<string, string>
-    autoApprove: string[]
-    disabled: boolean
-  }): Promise<boolean> {
+  async addServer(config: McpServerConfig): Promise<boolean> {
     try {
       const result = await api.mcp.addServer(config)
       return result.success
@@ -272,8 +266,8 @@ class McpService {
     const store = useStore.getState()
 
     // 服务器状态变更
-    const cleanupStatus = api.mcp.onServerStatus((event: { serverId: string; status: string; error?: string }) => {
-      store.updateMcpServerStatus(event.serverId, event.status, event.error)
+    const cleanupStatus = api.mcp.onServerStatus((event: McpServerStatusEvent) => {
+      store.updateMcpServerStatus(event.serverId, event.status, event.error, event.reconnectAttempt)
     })
     this.cleanupFns.push(cleanupStatus)
 
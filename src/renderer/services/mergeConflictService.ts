@@ -0,0 +1,333 @@
+/**
+ * 合并冲突解决服务
+ *
+ * - 将冲突文件解析为普通文本段与冲突块，按冲突块记录解决结果后重新拼接，避免逐次替换造成的行号错位
+ * - 从暂存区 stage 1/2/3 读取 base / ours / theirs；冲突标记不含 base（非 diff3 风格）时，
+ *   通过 base → ours 的差异把每个冲突块映射回 base 中的对应行
+ * - AI 解决：将冲突块连同两侧的提交信息交给模型（mergeResolve 路由），生成的合并结果由用户逐块接受
+ * - 标记解决前通过 get_lint_errors 检查结果
+ */
+
+import { api } from '@/renderer/services/electronAPI'
+import { logger } from '@utils/Logger'
+import { useStore } from '@store'
+import { toRelativePath, getFileName } from '@utils/pathUtils'
+import { computeHunks, splitLines, type GitHunk } from '@utils/gitHunks'
+import { gitService, type GitCommit } from '@renderer/agent/services/gitService'
+import { toolRegistry } from '@renderer/agent/tools/registry'
+import { modelRouter } from './modelRouter'
+
+// ============ 类型 ============
+
+export interface ConflictHunk {
+  index: number
+  ours: string[]
+  theirs: string[]
+  /** 共同祖先中的对应行，无法确定时为 null */
+  base: string[] | null
+  oursLabel: string
+  theirsLabel: string
+}
+
+export type ConflictSegment =
+  | { type: 'text'; lines: string[] }
+  | { type: 'conflict'; hunk: ConflictHunk }
+
+/** 三方版本（暂存区 stage 1/2/3） */
+export interface ConflictStages {
+  base: string | null
+  ours: string | null
+  theirs: string | null
+}
+
+/** 两侧最近修改该文件的提交，作为 AI 解决冲突的上下文 */
+export interface ConflictSides {
+  ours: GitCommit[]
+  theirs: GitCommit[]
+}
+
+// AI 解决时附带的冲突块前后上下文行数
+const CONTEXT_LINES = 20
+// 每侧附带的提交信息数量
+const SIDE_COMMIT_COUNT = 5
+
+// ============ 纯函数 ============
+
+/**
+ * 解析冲突标记，支持 diff3 风格的 ||||||| base 段
+ */
+export function parseConflictSegments(content: string): ConflictSegment[] {
+  const lines = content.split('\n')
+  const segments: ConflictSegment[] = []
+  let text: string[] = []
+  let index = 0
+  let i = 0
+
+  while (i < lines.length) {
+    if (!lines[i].startsWith('<<<<<<<')) {
+      text.push(lines[i++])
+      continue
+    }
+
+    const start = i
+    const oursLabel = lines[i].slice(7).trim()
+    const ours: string[] = []
+    let base: string[] | null = null
+    const theirs: string[] = []
+    i++
+    while (i < lines.length && !lines[i].startsWith('|||||||') && !lines[i].startsWith('=======')) ours.push(lines[i++])
+    if (lines[i]?.startsWith('|||||||')) {
+      base = []
+      i++
+      while (i < lines.length && !lines[i].startsWith('=======')) base.push(lines[i++])
+    }
+    i++
+    while (i < lines.length && !lines[i].startsWith('>>>>>>>')) theirs.push(lines[i++])
+
+    // 标记不完整时按普通文本处理
+    if (i >= lines.length) {
+      text.push(...lines.slice(start))
+      break
+    }
+
+    const theirsLabel = lines[i].slice(7).trim()
+    i++
+    if (text.length > 0) segments.push({ type: 'text', lines: text })
+    text = []
+    segments.push({ type: 'conflict', hunk: { index: index++, ours, theirs, base, oursLabel, theirsLabel } })
+  }
+
+  if (text.length > 0) segments.push({ type: 'text', lines: text })
+  return segments
+}
+
+export function getConflictHunks(segments: ConflictSegment[]): ConflictHunk[] {
+  return segments.flatMap(s => (s.type === 'conflict' ? [s.hunk] : []))
+}
+
+/**
+ * 将新版本中的行区间 [start, end) 映射回旧版本（hunks 为旧 → 新的变更块）
+ * 与区间重叠的变更块整体计入，区间边界上的纯删除也计入
+ */
+export function mapRangeToOld(start: number, end: number, hunks: GitHunk[]): { start: number; end: number } {
+  let oldStart: number | null = null
+  let oldEnd: number | null = null
+  // 未改动行的 旧行号 - 新行号
+  let delta = 0
+
+  for (const hunk of hunks) {
+    const newEnd = hunk.newStart + hunk.newLines.length
+    const hunkOldEnd = hunk.oldStart + hunk.oldLines.length
+    const overlaps = hunk.newLines.length > 0
+      ? hunk.newStart < end && newEnd > start
+      : hunk.newStart >= start && hunk.newStart <= end
+
+    if (!overlaps) {
+      if (hunk.newStart >= end) break
+      delta = hunkOldEnd - newEnd
+      continue
+    }
+    if (oldStart === null) oldStart = Math.min(hunk.oldStart, start + delta)
+    oldEnd = hunkOldEnd
+    delta = hunkOldEnd - newEnd
+  }
+
+  const mappedStart = oldStart ?? start + delta
+  return { start: mappedStart, end: Math.max(oldEnd ?? mappedStart, end + delta) }
+}
+
+/**
+ * 为缺少 base 的冲突块补充共同祖先中的对应行
+ * 仅当冲突文件的 ours 部分与 stage 2 一致（用户尚未手动编辑）时可靠，否则保持 null
+ */
+export function attachBase(segments: ConflictSegment[], stages: ConflictStages): ConflictSegment[] {
+  if (stages.base === null || stages.ours === null) return segments
+
+  const oursLines = splitLines(stages.ours).lines
+  const reconstructed = segments.flatMap(s => (s.type === 'text' ? s.lines : s.hunk.ours))
+  // 文件末尾换行会在拆分时产生一个空行
+  if (reconstructed.length > 0 && reconstructed[reconstructed.length - 1] === '') reconstructed.pop()
+  if (reconstructed.join('\n') !== oursLines.join('\n')) return segments
+
+  const baseLines = splitLines(stages.base).lines
+  const hunks = computeHunks(stages.base, stages.ours)
+  let offset = 0
+
+  return segments.map(segment => {
+    if (segment.type === 'text') {
+      offset += segment.lines.length
+      return segment
+    }
+    const { hunk } = segment
+    const range = { start: offset, end: offset + hunk.ours.length }
+    offset = range.end
+    if (hunk.base !== null) return segment
+    const mapped = mapRangeToOld(range.start, range.end, hunks)
+    return { type: 'conflict', hunk: { ...hunk, base: baseLines.slice(mapped.start, mapped.end) } }
+  })
+}
+
+/**
+ * 拼接解决结果；尚未解决的冲突块保留原冲突标记
+ */
+export function buildResolvedContent(segments: ConflictSegment[], resolutions: Record<number, string[]>): string {
+  return segments.flatMap(segment => {
+    if (segment.type === 'text') return segment.lines
+    const { hunk } = segment
+    const resolved = resolutions[hunk.index]
+    if (resolved) return resolved
+    return [
+      `<<<<<<< ${hunk.oursLabel}`.trimEnd(),
+      ...hunk.ours,
+      ...(hunk.base ? ['|||||||', ...hunk.base] : []),
+      '=======',
+      ...hunk.theirs,
+      `>>>>>>> ${hunk.theirsLabel}`.trimEnd(),
+    ]
+  }).join('\n')
+}
+
+/**
+ * 冲突块前后的上下文行
+ */
+export function getHunkContext(segments: ConflictSegment[], hunkIndex: number, size: number = CONTEXT_LINES): { before: string[]; after: string[] } {
+  const position = segments.findIndex(s => s.type === 'conflict' && s.hunk.index === hunkIndex)
+  const previous = segments[position - 1]
+  const next = segments[position + 1]
+  return {
+    before: previous?.type === 'text' ? previous.lines.slice(-size) : [],
+    after: next?.type === 'text' ? next.lines.slice(0, size) : [],
+  }
+}
+
+export function buildMergePrompt(
+  filePath: string,
+  hunk: ConflictHunk,
+  context: { before: string[]; after: string[] },
+  sides: ConflictSides
+): string {
+  const block = (lines: string[] | null) => (lines === null ? '(unknown)' : lines.length ? lines.join('\n') : '(empty)')
+  const commits = (list: GitCommit[]) => list.length ? list.map(c => `- ${c.shortHash} ${c.message}`).join('\n') : '- (none)'
+
+  return `Resolve a git merge conflict in \`${filePath}\`.
+
+Commits on OURS (${hunk.oursLabel || 'current branch'}) that touched this file:
+${commits(sides.ours)}
+
+Commits on THEIRS (${hunk.theirsLabel || 'incoming'}) that touched this file:
+${commits(sides.theirs)}
+
+Code before the conflict:
+<before>
+${context.before.join('\n')}
+</before>
+
+<base>
+${block(hunk.base)}
+</base>
+
+<ours>
+${block(hunk.ours)}
+</ours>
+
+<theirs>
+${block(hunk.theirs)}
+</theirs>
+
+Code after the conflict:
+<after>
+${context.after.join('\n')}
+</after>
+
+Combine the intent of both sides relative to BASE, keeping every change that does not contradict the other side. Output ONLY the merged lines that replace the conflict, wrapped in <resolved></resolved>. Do not repeat the surrounding code and do not include conflict markers.`
+}
+
+/**
+ * 提取模型输出中的合并结果
+ */
+export function parseMergeResponse(response: string): string[] | null {
+  const tagged = response.match(/<resolved>\n?([\s\S]*?)\n?<\/resolved>/)
+  let text = tagged ? tagged[1] : response.trim()
+  const fenced = text.match(/^```[\w-]*\n([\s\S]*?)\n?```$/)
+  if (fenced) text = fenced[1]
+  if (/^(<{7}|={7}|>{7})/m.test(text)) return null
+  return text === '' ? [] : text.split('\n')
+}
+
+// ============ 服务 ============
+
+class MergeConflictService {
+  /**
+   * 读取冲突文件的三方版本
+   */
+  async loadStages(filePath: string): Promise<ConflictStages> {
+    const relativePath = toRelativePath(filePath, useStore.getState().workspacePath)
+    const [base, ours, theirs] = await Promise.all([
+      gitService.getConflictStageContent(relativePath, 1),
+      gitService.getConflictStageContent(relativePath, 2),
+      gitService.getConflictStageContent(relativePath, 3),
+    ])
+    return { base, ours, theirs }
+  }
+
+  /**
+   * 两侧最近修改该文件的提交
+   */
+  async loadSides(filePath: string): Promise<ConflictSides> {
+    const incoming = await gitService.getIncomingHead()
+    if (!incoming) return { ours: [], theirs: [] }
+
+    const path = toRelativePath(filePath, useStore.getState().workspacePath)
+    const isMerge = incoming === 'MERGE_HEAD'
+    const [ours, theirs] = await Promise.all([
+      gitService.getCommitLog({ ref: `${incoming}..HEAD`, count: SIDE_COMMIT_COUNT, path }),
+      // cherry-pick / revert / rebase 只涉及正在应用的单个提交
+      gitService.getCommitLog(isMerge ? { ref: `HEAD..${incoming}`, count: SIDE_COMMIT_COUNT, path } : { ref: incoming, count: 1 }),
+    ])
+    return { ours, theirs }
+  }
+
+  /**
+   * 用 AI 生成单个冲突块的合并结果
+   */
+  async resolveHunk(
+    filePath: string,
+    segments: ConflictSegment[],
+    hunk: ConflictHunk,
+    sides: ConflictSides
+  ): Promise<{ lines?: string[]; error?: string }> {
+    const configs = modelRouter.resolve('mergeResolve')
+    if (!configs[0].apiKey) return { error: 'No API key configured' }
+
+    try {
+      const response = await modelRouter.run('mergeResolve', config => api.llm.compactContext({
+        config: { ...config, temperature: 0 },
+        messages: [{ role: 'user', content: buildMergePrompt(getFileName(filePath), hunk, getHunkContext(segments, hunk.index), sides) }],
+        tools: [],
+        systemPrompt: 'You are an expert at resolving git merge conflicts. Output only the merged code inside <resolved></resolved>.',
+      }), configs)
+
+      if (response.error || response.content === undefined) return { error: response.error || 'Empty response' }
+      const lines = parseMergeResponse(response.content)
+      return lines ? { lines } : { error: 'Response still contains conflict markers' }
+    } catch (e) {
+      logger.system.warn('[MergeConflict] AI resolve failed:', filePath, hunk.index, e)
+      return { error: e instanceof Error ? e.message : String(e) }
+    }
+  }
+
+  /**
+   * 使用 get_lint_errors 检查解决后的文件，返回错误级别的诊断
+   * 已缓存的 LSP / 任务诊断针对的是带冲突标记的旧内容，先清除再强制重新检查
+   */
+  async verify(filePath: string): Promise<string[]> {
+    const { workspacePath } = useStore.getState()
+    const { lintService } = await import('@renderer/agent/services/lintService')
+    lintService.clearCache(filePath)
+    const result = await toolRegistry.execute('get_lint_errors', { path: filePath, refresh: true }, { workspacePath })
+    if (!result.success || !result.result) return []
+    return result.result.split('\n').filter(line => /\[error\]/i.test(line))
+  }
+}
+
+export const mergeConflictService = new MergeConflictService()
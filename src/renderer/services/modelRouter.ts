@@ -0,0 +1,135 @@
+/**
+ * 模型路由服务
+ * 按用途（Agent、摘要、补全等）选择 Provider / 模型，并在限流或鉴权失败时切换到备用模型
+ * 经过路由的调用按实际使用的模型计费
+ */
+
+import { logger } from '@utils/Logger'
+import { useStore } from '@store'
+import { LLMErrorCode } from '@/shared/types/llm'
+import type { TokenUsage } from '@renderer/agent/types'
+import { costService } from './costService'
+import {
+  settingsService,
+  type LLMConfig,
+  type LLMPurpose,
+  type ModelRoutingConfig,
+  type ModelTarget,
+  type ProviderConfig,
+} from './settingsService'
+
+/** 可配置路由的用途（按设置界面的显示顺序） */
+export const LLM_PURPOSES: LLMPurpose[] = ['agent', 'plan', 'chat', 'compaction', 'inlineEdit', 'completion', 'commitMessage', 'searchReplace', 'mergeResolve']
+
+/** 触发备用模型的错误码（重试同一模型无济于事） */
+const FALLBACK_ERROR_CODES: string[] = [
+  LLMErrorCode.RATE_LIMIT,
+  LLMErrorCode.QUOTA_EXCEEDED,
+  LLMErrorCode.INVALID_API_KEY,
+]
+
+/** 单次调用的结果需要带上错误信息，供路由判断是否切换模型 */
+export interface RoutedCallResult {
+  error?: string
+  errorCode?: string
+  usage?: TokenUsage
+}
+
+/** 解析路由所需的设置 */
+export interface RoutingSettings {
+  llmConfig: LLMConfig
+  providerConfigs: Record<string, ProviderConfig>
+  modelRouting: ModelRoutingConfig
+}
+
+/**
+ * 判断错误是否应切换到备用模型
+ */
+export function isFallbackError(code?: string): boolean {
+  return !!code && FALLBACK_ERROR_CODES.includes(code)
+}
+
+/**
+ * 解析某个用途的配置链：首选模型在前，其后为备用模型（已去重）
+ */
+export function resolveRouteConfigs(purpose: LLMPurpose, settings: RoutingSettings): LLMConfig[] {
+  const { llmConfig, providerConfigs, modelRouting } = settings
+  const route = modelRouting[purpose]
+
+  const build = (target: ModelTarget) =>
+    settingsService.buildLLMConfig(target, providerConfigs, llmConfig.parameters)
+
+  const primary = route?.target
+    ? build(route.target)
+    : { ...llmConfig, apiKey: llmConfig.apiKey || providerConfigs[llmConfig.provider]?.apiKey || '' }
+
+  const chain = [primary]
+  const seen = new Set([`${primary.provider}/${primary.model}`])
+  for (const target of route?.fallbacks || []) {
+    const key = `${target.provider}/${target.model}`
+    if (!target.provider || !target.model || seen.has(key)) continue
+    seen.add(key)
+    chain.push(build(target))
+  }
+
+  return chain
+}
+
+class ModelRouter {
+  /**
+   * 获取某个用途的配置链（读取当前设置）
+   */
+  resolve(purpose: LLMPurpose): LLMConfig[] {
+    const { llmConfig, providerConfigs, modelRouting } = useStore.getState()
+    return resolveRouteConfigs(purpose, { llmConfig, providerConfigs, modelRouting })
+  }
+
+  /**
+   * 获取某个用途的首选配置
+   */
+  getConfig(purpose: LLMPurpose): LLMConfig {
+    return this.resolve(purpose)[0]
+  }
+
+  /**
+   * 记录一次 LLM 调用的费用（Agent 主循环以外的调用），threadId 为空时只计入工作区统计
+   */
+  recordUsage(config: Pick<LLMConfig, 'provider' | 'model'>, usage: TokenUsage | undefined, threadId: string | null = null): number {
+    if (!usage) return 0
+    return costService.record(
+      { threadId, provider: config.provider, model: config.model, usage },
+      useStore.getState().costSettings
+    )
+  }
+
+  /**
+   * 按配置链依次调用，遇到限流 / 鉴权错误时切换到下一个模型
+   * 其他错误直接返回，由调用方处理；每次调用返回的用量都会计费
+   */
+  async run<T extends RoutedCallResult>(
+    purpose: LLMPurpose,
+    call: (config: LLMConfig) => Promise<T>,
+    configs: LLMConfig[] = this.resolve(purpose),
+    threadId: string | null = null
+  ): Promise<T> {
+    let result!: T
+
+    for (let i = 0; i < configs.length; i++) {
+      const config = configs[i]
+      result = await call(config)
+      this.recordUsage(config, result.usage, threadId)
+      if (!result.error || !isFallbackError(result.errorCode) || i === configs.length - 1) {
+        return result
+      }
+
+      const next = configs[i + 1]
+      logger.llm.warn(
+        `[ModelRouter] ${purpose}: ${config.provider}/${config.model} failed (${result.errorCode}), falling back to ${next.provider}/${next.model}`
+      )
+    }
+
+    return result
+  }
+}
+
+export const modelRouter = new ModelRouter()
@@ -0,0 +1,489 @@
+/**
+ * 工作区搜索替换服务
+ *
+ * - 按 include / exclude glob 在工作区中搜索，为每个匹配生成替换预览（支持正则捕获组 $1、$<name>）
+ * - 替换前为涉及的全部文件创建一个检查点，可整体撤销
+ * - AI 替换：用自然语言描述变换，逐个匹配交给低成本模型（searchReplace 路由，
+ *   未配置时沿用代码补全的路由）生成替换文本，结果按文件暂存到 Composer 中逐个接受 / 拒绝
+ */
+
+import { create } from 'zustand'
+import picomatch from 'picomatch'
+import { api } from '@/renderer/services/electronAPI'
+import { logger } from '@utils/Logger'
+import { useStore } from '@store'
+import { joinPath, toRelativePath } from '@utils/pathUtils'
+import { calculateLineChanges } from '@shared/utils/fileEdits'
+import { checkpointService } from '@renderer/agent/services/checkpointService'
+import { composerService } from '@renderer/agent/services/composerService'
+import { modelRouter } from './modelRouter'
+import type { LLMPurpose } from './settingsService'
+import type { SearchFileResult, SearchFilesOptions } from '@shared/types'
+
+// ============ 类型 ============
+
+export type ReplaceSearchOptions = SearchFilesOptions
+
+export interface ReplaceMatch {
+  /** 文件内唯一：匹配起始偏移 */
+  id: string
+  line: number
+  column: number
+  start: number
+  end: number
+  text: string
+  replacement: string
+  /** 匹配所在的行（替换前 / 替换后），用于预览 */
+  before: string
+  after: string
+  selected: boolean
+  /** AI 替换的生成状态 */
+  aiStatus?: 'pending' | 'done' | 'error'
+}
+
+export interface FileReplacePreview {
+  path: string
+  relativePath: string
+  /** 生成预览时的文件内容，替换前会校验文件未被修改 */
+  content: string
+  matches: ReplaceMatch[]
+}
+
+export interface ReplaceResult {
+  files: number
+  matches: number
+  /** 预览后被修改或无法创建快照而跳过的文件 */
+  skipped: string[]
+  error?: string
+}
+
+interface SearchReplaceState {
+  files: FileReplacePreview[]
+  isApplying: boolean
+  aiProgress: { done: number; total: number } | null
+  /** 最近一次替换的检查点，用于撤销 */
+  lastReplace: { checkpointId: string; description: string; files: number } | null
+}
+
+export const useSearchReplaceStore = create<SearchReplaceState>(() => ({
+  files: [],
+  isApplying: false,
+  aiProgress: null,
+  lastReplace: null,
+}))
+
+/** 预览读取的文件数上限 */
+const MAX_PREVIEW_FILES = 500
+/** 单次 AI 替换处理的匹配数上限 */
+const MAX_AI_MATCHES = 100
+/** AI 替换的并发请求数 */
+const AI_CONCURRENCY = 3
+/** 交给模型的匹配上下文行数（上下各） */
+const AI_CONTEXT_LINES = 3
+
+// ============ 匹配与预览（纯函数） ============
+
+/**
+ * 构建搜索正则（全局、多行），非正则模式下转义查询；无效正则返回 null
+ */
+export function buildSearchRegex(query: string, options: Pick<ReplaceSearchOptions, 'isRegex' | 'isCaseSensitive' | 'isWholeWord'>): RegExp | null {
+  if (!query) return null
+  let source = options.isRegex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  if (options.isWholeWord) source = `\\b(?:${source})\\b`
+  try {
+    return new RegExp(source, `gm${options.isCaseSensitive ? '' : 'i'}`)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 展开替换模板：$$、$&、$`、$'、$1…$99、$<name>（与 String.prototype.replace 一致）
+ */
+export function expandReplacement(template: string, match: RegExpExecArray): string {
+  const input = match.input
+  const groupCount = match.length - 1
+
+  return template.replace(/\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g, (token, symbol: string, name?: string) => {
+    if (symbol === '$') return '$'
+    if (symbol === '&') return match[0]
+    if (symbol === '`') return input.slice(0, match.index)
+    if (symbol === "'") return input.slice(match.index + match[0].length)
+    if (name !== undefined) return match.groups ? match.groups[name] ?? '' : token
+
+    // 两位数组号不存在时退回一位数组号（$10 在只有 1 个分组时为 $1 + "0"）
+    let index = parseInt(symbol, 10)
+    let rest = ''
+    if (symbol.length === 2 && index > groupCount) {
+      index = parseInt(symbol[0], 10)
+      rest = symbol[1]
+    }
+    if (index === 0 || index > groupCount) return token
+    return (match[index] ?? '') + rest
+  })
+}
+
+function lineBounds(content: string, start: number, end: number): [number, number] {
+  const lineStart = content.lastIndexOf('\n', start - 1) + 1
+  const newline = content.indexOf('\n', Math.max(end - 1, start))
+  return [lineStart, newline === -1 ? content.length : newline]
+}
+
+function withReplacement(content: string, match: Pick<ReplaceMatch, 'start' | 'end'>, replacement: string): string {
+  const [lineStart, lineEnd] = lineBounds(content, match.start, match.end)
+  return (content.slice(lineStart, match.start) + replacement + content.slice(match.end, lineEnd)).replace(/\r/g, '')
+}
+
+/**
+ * 查找文件内的全部匹配并计算替换结果
+ * 正则模式下 replacement 作为模板展开捕获组，否则按字面替换；为 null 时保留原文（等待 AI 生成）
+ * 空匹配会被忽略
+ */
+export function findReplaceMatches(content: string, regex: RegExp, replacement: string | null, isRegex: boolean): ReplaceMatch[] {
+  const matches: ReplaceMatch[] = []
+  const pattern = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : regex.flags + 'g')
+  let line = 1
+  let lastIndex = 0
+
+  for (const match of content.matchAll(pattern)) {
+    if (!match[0]) continue
+    const start = match.index!
+    const end = start + match[0].length
+
+    for (let i = lastIndex; i < start; i++) {
+      if (content.charCodeAt(i) === 10) line++
+    }
+    lastIndex = start
+
+    const text = replacement === null
+      ? match[0]
+      : isRegex ? expandReplacement(replacement, match as RegExpExecArray) : replacement
+    const [lineStart, lineEnd] = lineBounds(content, start, end)
+    matches.push({
+      id: String(start),
+      line,
+      column: start - lineStart + 1,
+      start,
+      end,
+      text: match[0],
+      replacement: text,
+      before: content.slice(lineStart, lineEnd).replace(/\r/g, ''),
+      after: withReplacement(content, { start, end }, text),
+      selected: true,
+    })
+  }
+
+  return matches
+}
+
+/**
+ * 应用选中的匹配，返回新内容
+ */
+export function applyReplaceMatches(content: string, matches: ReplaceMatch[]): string {
+  let result = ''
+  let cursor = 0
+  for (const match of [...matches].sort((a, b) => a.start - b.start)) {
+    if (!match.selected || match.start < cursor) continue
+    result += content.slice(cursor, match.start) + match.replacement
+    cursor = match.end
+  }
+  return result + content.slice(cursor)
+}
+
+/**
+ * 按逗号分隔的 include / exclude glob 过滤相对路径
+ * 不含 / 的模式匹配任意一级文件或目录名（与 ripgrep --glob 的行为一致）
+ */
+export function matchesGlobs(relativePath: string, include?: string, exclude?: string): boolean {
+  const parse = (value?: string) => (value || '').split(',').map(p => p.trim()).filter(Boolean)
+  const normalized = relativePath.replace(/\\/g, '/')
+  const segments = normalized.split('/')
+  const isMatch = (patterns: string[]) => {
+    const namePatterns = patterns.filter(p => !p.includes('/'))
+    return picomatch.isMatch(normalized, patterns, { dot: true }) ||
+      (namePatterns.length > 0 && segments.some(segment => picomatch.isMatch(segment, namePatterns, { dot: true })))
+  }
+
+  const includes = parse(include)
+  const excludes = parse(exclude)
+  if (includes.length > 0 && !isMatch(includes)) return false
+  return excludes.length === 0 || !isMatch(excludes)
+}
+
+/**
+ * 构建 AI 替换的提示：变换说明 + 匹配上下文，只要求输出替换文本
+ */
+export function buildAIReplacePrompt(instruction: string, file: Pick<FileReplacePreview, 'relativePath' | 'content'>, match: ReplaceMatch): string {
+  const lines = file.content.split('\n')
+  const endLine = match.line + match.text.split('\n').length - 1
+  const from = Math.max(1, match.line - AI_CONTEXT_LINES)
+  const to = Math.min(lines.length, endLine + AI_CONTEXT_LINES)
+  const context = lines.slice(from - 1, to).map((text, i) => `${from + i}: ${text.replace(/\r$/, '')}`).join('\n')
+
+  return `Transform the matched text according to the instruction.
+
+Instruction: ${instruction}
+
+File: ${file.relativePath} (line ${match.line})
+Context:
+${context}
+
+Matched text:
+<match>${match.text}</match>
+
+Output only the replacement text for the matched text, without explanations, quotes or code fences. If no change is needed, output the matched text unchanged.`
+}
+
+/** 清理模型输出：去掉代码块和多余的换行 */
+export function cleanAIReplacement(output: string, original: string): string {
+  let text = output.replace(/^\s*<match>([\s\S]*)<\/match>\s*$/, '$1')
+  const fenced = text.trim().match(/^```[\w-]*\n([\s\S]*?)\n?```$/)
+  if (fenced) text = fenced[1]
+  if (!original.endsWith('\n')) text = text.replace(/\n+$/, '')
+  if (!original.startsWith('\n')) text = text.replace(/^\n+/, '')
+  return text
+}
+
+// ============ 服务 ============
+
+const updateFiles = (update: (files: FileReplacePreview[]) => FileReplacePreview[]) =>
+  useSearchReplaceStore.setState(state => ({ files: update(state.files) }))
+
+class SearchReplaceService {
+  private aiCancelled = false
+
+  /**
+   * 在工作区各根目录中搜索，返回绝对路径
+   */
+  async search(query: string, roots: string[], options: ReplaceSearchOptions): Promise<SearchFileResult[]> {
+    const results = await Promise.all(roots.map(async root => {
+      const matches = await api.file.search(query, root, options)
+      return matches.map(m => ({ ...m, path: joinPath(root, m.path) }))
+    }))
+    return results.flat()
+  }
+
+  /**
+   * 为搜索到的文件生成替换预览
+   * @param filePaths 已知的候选文件（如仅搜索打开的文件），不传时在工作区中搜索
+   */
+  async preview(query: string, replacement: string | null, options: ReplaceSearchOptions, filePaths?: string[]): Promise<{ success: boolean; error?: string }> {
+    const regex = buildSearchRegex(query, options)
+    if (!regex) return { success: false, error: 'Invalid regular expression' }
+
+    const { workspacePath, workspace } = useStore.getState()
+    const roots = (workspace?.roots || [workspacePath].filter(Boolean)) as string[]
+    const candidates = filePaths ?? [...new Set((await this.search(query, roots, options)).map(r => r.path))]
+    const root = (path: string) => roots.find(r => toRelativePath(path, r) !== path) || workspacePath
+
+    const files: FileReplacePreview[] = []
+    for (const path of candidates.slice(0, MAX_PREVIEW_FILES)) {
+      const relativePath = toRelativePath(path, root(path))
+      if (filePaths && !matchesGlobs(relativePath, options.include, options.exclude)) continue
+
+      const content = await api.file.read(path)
+      if (content === null) continue
+      const matches = findReplaceMatches(content, regex, replacement, options.isRegex)
+      if (matches.length > 0) files.push({ path, relativePath, content, matches })
+    }
+
+    useSearchReplaceStore.setState({ files })
+    return { success: true }
+  }
+
+  clear(): void {
+    this.aiCancelled = true
+    useSearchReplaceStore.setState({ files: [], aiProgress: null })
+  }
+
+  toggleMatch(path: string, matchId: string): void {
+    updateFiles(files => files.map(file => file.path !== path ? file : {
+      ...file,
+      matches: file.matches.map(m => m.id === matchId ? { ...m, selected: !m.selected } : m),
+    }))
+  }
+
+  setFileSelected(path: string, selected: boolean): void {
+    updateFiles(files => files.map(file => file.path !== path ? file : {
+      ...file,
+      matches: file.matches.map(m => ({ ...m, selected })),
+    }))
+  }
+
+  /**
+   * 应用选中的替换：先为全部文件创建检查点，再写入；预览后被修改的文件会跳过
+   */
+  async apply(description: string): Promise<ReplaceResult> {
+    const result: ReplaceResult = { files: 0, matches: 0, skipped: [] }
+    const targets = await this.collectTargets(result.skipped)
+    if (targets.length === 0) return result
+
+    useSearchReplaceStore.setState({ isApplying: true })
+    try {
+      const checkpoint = await this.createCheckpoint(description, targets.map(t => t.file.path))
+      for (const { file, newContent, count } of targets) {
+        if (!(file.path in checkpoint.snapshots)) {
+          result.skipped.push(file.relativePath)
+          continue
+        }
+        if (await api.file.write(file.path, newContent)) {
+          useStore.getState().reloadFileFromDisk(file.path, newContent)
+          result.files++
+          result.matches += count
+        } else {
+          result.skipped.push(file.relativePath)
+        }
+      }
+
+      useSearchReplaceStore.setState({
+        files: [],
+        lastReplace: result.files > 0 ? { checkpointId: checkpoint.id, description, files: result.files } : null,
+      })
+      return result
+    } finally {
+      useSearchReplaceStore.setState({ isApplying: false })
+    }
+  }
+
+  /**
+   * 撤销最近一次替换（回滚到替换前的检查点）
+   */
+  async undo(): Promise<{ success: boolean; restoredFiles: string[]; errors: string[] }> {
+    const last = useSearchReplaceStore.getState().lastReplace
+    if (!last) return { success: false, restoredFiles: [], errors: ['Nothing to undo'] }
+
+    const result = await checkpointService.rollbackTo(last.checkpointId)
+    for (const path of result.restoredFiles) {
+      const content = await api.file.read(path)
+      if (content !== null) useStore.getState().reloadFileFromDisk(path, content)
+    }
+    useSearchReplaceStore.setState({ lastReplace: null })
+    return result
+  }
+
+  /**
+   * AI 替换：逐个选中的匹配调用模型生成替换文本，更新预览
+   */
+  async runAI(instruction: string): Promise<{ success: boolean; failed: number; error?: string }> {
+    const pending = useSearchReplaceStore.getState().files
+      .flatMap(file => file.matches.filter(m => m.selected).map(match => ({ file, match })))
+      .slice(0, MAX_AI_MATCHES)
+    if (pending.length === 0) return { success: false, failed: 0, error: 'No matches selected' }
+
+    const { modelRouting } = useStore.getState()
+    const purpose: LLMPurpose = modelRouting.searchReplace?.target || !modelRouting.completion?.target ? 'searchReplace' : 'completion'
+    const configs = modelRouter.resolve(purpose)
+    if (!configs[0].apiKey) {
+      return { success: false, failed: 0, error: 'No API key configured' }
+    }
+
+    this.aiCancelled = false
+    const total = pending.length
+    let done = 0
+    let failed = 0
+    const setMatch = (path: string, id: string, patch: Partial<ReplaceMatch>) => updateFiles(files => files.map(file => file.path !== path ? file : {
+      ...file,
+      matches: file.matches.map(m => m.id === id ? { ...m, ...patch } : m),
+    }))
+
+    useSearchReplaceStore.setState({ aiProgress: { done, total } })
+    for (const { file, match } of pending) setMatch(file.path, match.id, { aiStatus: 'pending' })
+
+    const worker = async () => {
+      while (pending.length > 0 && !this.aiCancelled) {
+        const { file, match } = pending.shift()!
+        try {
+          const response = await modelRouter.run(purpose, config => api.llm.compactContext({
+            config: { ...config, temperature: 0 },
+            messages: [{ role: 'user', content: buildAIReplacePrompt(instruction, file, match) }],
+            tools: [],
+            systemPrompt: 'You are a precise code transformation engine. Output only the transformed text.',
+          }), configs)
+
+          if (response.error || response.content === undefined) throw new Error(response.error || 'Empty response')
+          const replacement = cleanAIReplacement(response.content, match.text)
+          setMatch(file.path, match.id, { replacement, after: withReplacement(file.content, match, replacement), aiStatus: 'done' })
+        } catch (e) {
+          failed++
+          logger.system.warn('[SearchReplace] AI replace failed:', file.relativePath, match.line, e)
+          setMatch(file.path, match.id, { selected: false, aiStatus: 'error' })
+        }
+        useSearchReplaceStore.setState({ aiProgress: { done: ++done, total } })
+      }
+    }
+
+    await Promise.all(Array.from({ length: AI_CONCURRENCY }, worker))
+
+    // 取消时未处理的匹配保持原样
+    updateFiles(files => files.map(file => ({
+      ...file,
+      matches: file.matches.map(m => m.aiStatus === 'pending' ? { ...m, aiStatus: undefined } : m),
+    })))
+    useSearchReplaceStore.setState({ aiProgress: null })
+    return { success: !this.aiCancelled, failed }
+  }
+
+  cancelAI(): void {
+    this.aiCancelled = true
+  }
+
+  /**
+   * 将 AI 替换结果按文件暂存到 Composer，由用户逐个接受 / 拒绝
+   * 暂存前创建检查点，接受后仍可整体撤销
+   * Composer 只展示当前会话，已有待审查的变更（如 Agent 运行中）时拒绝暂存，避免替换其会话
+   */
+  async stageToComposer(instruction: string): Promise<ReplaceResult> {
+    const result: ReplaceResult = { files: 0, matches: 0, skipped: [] }
+    if (composerService.hasPendingChanges()) {
+      return { ...result, error: 'Composer has pending changes, review them before staging AI replacements' }
+    }
+    const targets = await this.collectTargets(result.skipped, m => m.aiStatus === 'done')
+    if (targets.length === 0) return result
+
+    const description = `AI replace: ${instruction}`
+    const checkpoint = await this.createCheckpoint(description, targets.map(t => t.file.path))
+    composerService.startSession(description, instruction)
+
+    for (const { file, newContent, count } of targets) {
+      const { added, removed } = calculateLineChanges(file.content, newContent)
+      composerService.addChange({
+        filePath: file.path,
+        relativePath: file.relativePath,
+        oldContent: file.content,
+        newContent,
+        changeType: 'modify',
+        linesAdded: added,
+        linesRemoved: removed,
+      })
+      result.files++
+      result.matches += count
+    }
+
+    useSearchReplaceStore.setState({ files: [], lastReplace: { checkpointId: checkpoint.id, description, files: result.files } })
+    return result
+  }
+
+  /** 计算各文件替换后的内容，跳过预览后已被修改的文件 */
+  private async collectTargets(skipped: string[], filter: (match: ReplaceMatch) => boolean = () => true) {
+    const targets: Array<{ file: FileReplacePreview; newContent: string; count: number }> = []
+    for (const file of useSearchReplaceStore.getState().files) {
+      const matches = file.matches.map(m => ({ ...m, selected: m.selected && filter(m) }))
+      const count = matches.filter(m => m.selected && m.replacement !== m.text).length
+      if (count === 0) continue
+
+      const current = await api.file.read(file.path)
+      if (current !== file.content) {
+        skipped.push(file.relativePath)
+        continue
+      }
+      targets.push({ file, newContent: applyReplaceMatches(file.content, matches), count })
+    }
+    return targets
+  }
+
+  private createCheckpoint(description: string, paths: string[]) {
+    return checkpointService.createCheckpoint('tool_edit', description, paths, undefined, paths.length)
+  }
+}
+
+export const searchReplaceService = new SearchReplaceService()
@@ -16,6 +16,7 @@ import {
   type AdvancedConfig,
   type UserProviderConfig,
 } from '@/shared/config/providers'
+import { DEFAULT_COST_SETTINGS, type CostSettings } from './costService'
 
 // ============ 类型定义 ============
 
@@ -52,6 +53,7 @@ export interface AgentConfig {
   maxToolLoops: number
   maxHistoryMessages: number
   enableAutoFix: boolean
+  autoFixRunTests?: boolean
   maxToolResultChars: number
   maxFileContentChars: number
   maxTotalContextChars: number
@@ -73,6 +75,26 @@ export interface AgentConfig {
   ignoredDirectories: string[]
 }
 
+/** 模型路由的用途 */
+export type LLMPurpose = 'agent' | 'plan' | 'chat' | 'compaction' | 'inlineEdit' | 'completion' | 'commitMessage' | 'searchReplace' | 'mergeResolve'
+
+/** 路由目标（Provider + 模型，其余配置取自对应 Provider） */
+export interface ModelTarget {
+  provider: string
+  model: string
+}
+
+/** 单个用途的路由规则 */
+export interface ModelRoute {
+  /** 首选模型，未设置时使用主模型 */
+  target?: ModelTarget
+  /** 遇到限流 / 鉴权错误时依次尝试的备用模型 */
+  fallbacks: ModelTarget[]
+}
+
+/** 按用途的模型路由配置 */
+export type ModelRoutingConfig = Partial<Record<LLMPurpose, ModelRoute>>
+
 /** 完整的应用设置 */
 export interface AppSettings {
   llmConfig: LLMConfig
@@ -83,6 +105,8 @@ export interface AppSettings {
   providerConfigs: Record<string, ProviderConfig>
   aiInstructions: string
   onboardingCompleted: boolean
+  modelRouting?: ModelRoutingConfig
+  costSettings?: CostSettings
 }
 
 // ============ 默认值 ============
@@ -109,6 +133,7 @@ const defaultAgentConfig: AgentConfig = {
   maxToolLoops: 30,
   maxHistoryMessages: 60,
   enableAutoFix: true,
+  autoFixRunTests: false,
   maxToolResultChars: 10000,
   maxFileContentChars: 15000,
   maxTotalContextChars: 60000,
@@ -252,6 +277,23 @@ function cleanProviderConfigs(
   return cleaned
 }
 
+/** 清理模型路由 - 去掉没有任何规则的用途 */
+function cleanModelRouting(routing?: ModelRoutingConfig): ModelRoutingConfig | undefined {
+  if (!routing) return undefined
+  const cleaned: ModelRoutingConfig = {}
+
+  for (const [purpose, route] of Object.entries(routing) as [LLMPurpose, ModelRoute | undefined][]) {
+    if (!route) continue
+    const fallbacks = route.fallbacks.filter(f => f.provider && f.model)
+    const target = route.target?.provider && route.target.model ? route.target : undefined
+    if (target || fallbacks.length > 0) {
+      cleaned[purpose] = { target, fallbacks }
+    }
+  }
+
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined
+}
+
 // ============ 设置服务类 ============
 
 const LOCAL_STORAGE_KEY = 'adnify-app-settings'
@@ -310,6 +352,8 @@ class SettingsService {
       providerConfigs: mergedProviderConfigs,
       aiInstructions: settings.aiInstructions || '',
       onboardingCompleted: settings.onboardingCompleted ?? false,
+      modelRouting: settings.modelRouting || {},
+      costSettings: { ...DEFAULT_COST_SETTINGS, ...settings.costSettings },
     }
   }
 
@@ -341,6 +385,8 @@ class SettingsService {
         providerConfigs: settings.providerConfigs,
         aiInstructions: settings.aiInstructions,
         onboardingCompleted: settings.onboardingCompleted,
+        modelRouting: settings.modelRouting,
+        costSettings: settings.costSettings,
       }
       localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(toSave))
     } catch (e) {
@@ -362,6 +408,8 @@ class SettingsService {
         providerConfigs: cleanedProviderConfigs,
         aiInstructions: settings.aiInstructions,
         onboardingCompleted: settings.onboardingCompleted,
+        modelRouting: cleanModelRouting(settings.modelRouting),
+        costSettings: settings.costSettings,
       }
 
       // 同步写入 localStorage
@@ -402,9 +450,19 @@ class SettingsService {
       providerConfigs: generateDefaultProviderConfigs(),
       aiInstructions: '',
       onboardingCompleted: false,
+      modelRouting: {},
+      costSettings: DEFAULT_COST_SETTINGS,
     }
   }
 
+  /**
+   * 为路由目标构建完整的运行时配置
+   * API Key、baseUrl、适配器等取自目标 Provider 的配置，生成参数沿用主模型
+   */
+  buildLLMConfig(target: ModelTarget, providerConfigs: Record<string, ProviderConfig>, parameters?: LLMParameters): LLMConfig {
+    return this.mergeLLMConfig({ ...target, parameters }, providerConfigs)
+  }
+
   private mergeLLMConfig(saved?: Partial<LLMConfig>, providerConfigs?: Record<string, ProviderConfig>): LLMConfig {
     if (!saved) return defaultLLMConfig
 
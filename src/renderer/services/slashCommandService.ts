@@ -1,13 +1,40 @@
 /**
  * 斜杠命令服务
  * 提供 /test, /explain, /refactor 等快捷命令
+ *
+ * 项目可在 .adnify/commands/*.md 中定义自己的命令（文件名即命令名），文件变化时自动重新加载：
+ *
+ *   ---
+ *   description: Draft release notes
+ *   aliases: [rn]
+ *   mode: agent
+ *   allowed-tools: [read_file, search_files]
+ *   model: gpt-4o
+ *   ---
+ *   Write release notes for $ARGUMENTS based on @CHANGELOG.md
+ *
+ * 模板支持 $ARGUMENTS、{{selection}}、{{file}}，以及 @相对路径 引用文件内容
  */
 
+import { api } from '@/renderer/services/electronAPI'
+import { logger } from '@utils/Logger'
+import { joinPath, toRelativePath } from '@utils/pathUtils'
+import { ADNIFY_DIR_NAME } from './adnifyDirService'
+import type { WorkMode } from '@/renderer/modes/types'
+
+export const COMMANDS_DIR = 'commands'
+
+const RELOAD_DEBOUNCE_MS = 300
+
 export interface SlashCommand {
     name: string
     description: string
     aliases?: string[]
-    handler: (args: string, context: SlashCommandContext) => SlashCommandResult
+    /** 内置命令或项目命令（.adnify/commands 下的 markdown 文件） */
+    source?: 'builtin' | 'project'
+    /** 项目命令的文件路径 */
+    filePath?: string
+    handler: (args: string, context: SlashCommandContext) => SlashCommandResult | Promise<SlashCommandResult>
 }
 
 export interface SlashCommandContext {
@@ -18,7 +45,22 @@ export interface SlashCommandContext {
 
 export interface SlashCommandResult {
     prompt: string
-    mode?: 'chat' | 'agent'
+    mode?: WorkMode
+    /** 仅向模型提供这些工具 */
+    allowedTools?: string[]
+    /** 覆盖当前模型 */
+    model?: string
+}
+
+/** 项目命令文件解析结果 */
+export interface ProjectCommandDefinition {
+    name: string
+    description: string
+    aliases: string[]
+    mode?: WorkMode
+    allowedTools?: string[]
+    model?: string
+    template: string
 }
 
 // 内置斜杠命令
@@ -104,8 +146,134 @@ function buildPrompt(action: string, args: string, ctx: SlashCommandContext): st
     return prompt
 }
 
+// ============ 项目命令解析 ============
+
+const WORK_MODES: WorkMode[] = ['chat', 'agent', 'plan']
+
+/**
+ * 解析 frontmatter 中的值：支持字符串、[a, b] 行内列表
+ */
+function parseFrontmatterValue(raw: string): string | string[] {
+    const value = raw.trim()
+    if (value.startsWith('[') && value.endsWith(']')) {
+        return value.slice(1, -1).split(',').map(v => unquote(v.trim())).filter(Boolean)
+    }
+    return unquote(value)
+}
+
+function unquote(value: string): string {
+    return /^(['"]).*\1$/.test(value) ? value.slice(1, -1) : value
+}
+
+function toList(value: string | string[] | undefined): string[] | undefined {
+    if (value === undefined) return undefined
+    const list = Array.isArray(value) ? value : value.split(',').map(v => v.trim()).filter(Boolean)
+    return list.length > 0 ? list : undefined
+}
+
+/**
+ * 解析命令文件（frontmatter + 模板正文）
+ * frontmatter 支持 key: value、key: [a, b] 以及 "- item" 形式的列表
+ */
+export function parseCommandFile(name: string, content: string): ProjectCommandDefinition {
+    const fields: Record<string, string | string[]> = {}
+    let template = content
+
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/)
+    if (match) {
+        template = content.slice(match[0].length)
+        let listKey: string | null = null
+        for (const line of match[1].split(/\r?\n/)) {
+            const item = line.match(/^\s+-\s+(.*)$/)
+            if (item && listKey) {
+                (fields[listKey] as string[]).push(unquote(item[1].trim()))
+                continue
+            }
+            const pair = line.match(/^([\w-]+)\s*:\s*(.*)$/)
+            if (!pair) continue
+            const key = pair[1].toLowerCase()
+            if (pair[2].trim()) {
+                fields[key] = parseFrontmatterValue(pair[2])
+                listKey = null
+            } else {
+                fields[key] = []
+                listKey = key
+            }
+        }
+    }
+
+    const mode = typeof fields.mode === 'string' && WORK_MODES.includes(fields.mode as WorkMode) ? fields.mode as WorkMode : undefined
+    template = template.trim()
+
+    return {
+        name,
+        description: typeof fields.description === 'string' && fields.description
+            ? fields.description
+            : template.split('\n')[0].replace(/^#+\s*/, '').slice(0, 80),
+        aliases: toList(fields.aliases) || [],
+        mode,
+        allowedTools: toList(fields['allowed-tools'] || fields.allowed_tools || fields.allowedtools),
+        model: typeof fields.model === 'string' && fields.model ? fields.model : undefined,
+        template,
+    }
+}
+
+/**
+ * 渲染命令模板
+ * 模板中的 @路径 按工作区相对路径读取并附加文件内容，读取失败时保持原样
+ */
+export async function renderCommandTemplate(
+    template: string,
+    args: string,
+    ctx: SlashCommandContext,
+    readFile: (path: string) => Promise<string | null>
+): Promise<string> {
+    // 模板未使用 $ARGUMENTS 时参数追加到末尾
+    let prompt = template.includes('$ARGUMENTS')
+        ? template.replace(/\$ARGUMENTS/g, () => args.trim())
+        : args.trim() ? `${template}\n\n${args.trim()}` : template
+
+    // 先展开 @文件，避免选中代码中的 @ 被误当作引用
+    if (ctx.workspacePath) {
+        const references = Array.from(new Set(Array.from(prompt.matchAll(/(^|\s)@([\w./\\-]+\.[\w-]+)/g), m => m[2])))
+        for (const reference of references) {
+            const content = await readFile(joinPath(ctx.workspacePath, reference))
+            if (content === null) continue
+            const pattern = new RegExp(`(^|\\s)@${reference.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w/-]|\\.[\\w-])`, 'g')
+            prompt = prompt.replace(pattern, `$1${reference}`) + `\n\n${reference}:\n\`\`\`\n${content}\n\`\`\`\n`
+        }
+    }
+
+    const activeFile = ctx.activeFilePath ? toRelativePath(ctx.activeFilePath, ctx.workspacePath || null) : ''
+    return prompt
+        .replace(/\{\{\s*selection\s*\}\}/g, () => ctx.selectedCode || '')
+        .replace(/\{\{\s*file\s*\}\}/g, () => activeFile)
+}
+
+function createProjectCommand(definition: ProjectCommandDefinition, filePath: string): SlashCommand {
+    return {
+        name: definition.name,
+        description: definition.description,
+        aliases: definition.aliases,
+        source: 'project',
+        filePath,
+        handler: async (args, ctx) => ({
+            prompt: await renderCommandTemplate(definition.template, args, ctx, path => api.file.read(path)),
+            mode: definition.mode,
+            allowedTools: definition.allowedTools,
+            model: definition.model,
+        }),
+    }
+}
+
 class SlashCommandService {
-    private commands: SlashCommand[] = commands
+    private builtinCommands: SlashCommand[] = commands.map(cmd => ({ ...cmd, source: 'builtin' as const }))
+    private projectCommands: SlashCommand[] = []
+    private commands: SlashCommand[] = this.builtinCommands
+    private workspacePath: string | null = null
+    private listeners = new Set<() => void>()
+    private unsubscribeWatcher: (() => void) | null = null
+    private reloadTimer: ReturnType<typeof setTimeout> | null = null
 
     /**
      * 获取所有可用命令
@@ -114,6 +282,27 @@ class SlashCommandService {
         return this.commands
     }
 
+    /**
+     * 加载工作区 .adnify/commands 下的命令，并在文件变化时重新加载
+     */
+    async loadProjectCommands(workspacePath: string | null): Promise<void> {
+        this.workspacePath = workspacePath
+        if (!this.unsubscribeWatcher) {
+            this.unsubscribeWatcher = api.file.onChanged(event => {
+                if (this.isCommandFile(event.path)) this.scheduleReload()
+            })
+        }
+        await this.reload()
+    }
+
+    /**
+     * 订阅命令列表变化
+     */
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener)
+        return () => this.listeners.delete(listener)
+    }
+
     /**
      * 根据输入查找匹配的命令
      */
@@ -133,29 +322,73 @@ class SlashCommandService {
     /**
      * 解析并执行命令
      */
-    parse(inputText: string, context: SlashCommandContext): SlashCommandResult | null {
+    async parse(inputText: string, context: SlashCommandContext): Promise<SlashCommandResult | null> {
         if (!inputText.startsWith('/')) return null
 
         const parts = inputText.slice(1).split(' ')
-        const cmdName = parts[0].toLowerCase()
-        const args = parts.slice(1).join(' ')
+        const cmd = this.findCommand(parts[0])
+        if (!cmd) return null
+
+        return cmd.handler(parts.slice(1).join(' '), context)
+    }
+
+    /**
+     * 检查输入是否是斜杠命令
+     */
+    isCommand(text: string): boolean {
+        return text.startsWith('/') && this.findCommand(text.slice(1).split(' ')[0]) !== undefined
+    }
 
-        const cmd = this.commands.find(c => {
+    // ============ Private Methods ============
+
+    private findCommand(name: string): SlashCommand | undefined {
+        const cmdName = name.toLowerCase()
+        return this.commands.find(c => {
             if (c.name.toLowerCase() === cmdName) return true
             if (c.aliases?.some(a => a.toLowerCase() === cmdName)) return true
             return false
         })
+    }
 
-        if (!cmd) return null
+    private getCommandsDir(): string | null {
+        return this.workspacePath ? joinPath(this.workspacePath, ADNIFY_DIR_NAME, COMMANDS_DIR) : null
+    }
 
-        return cmd.handler(args, context)
+    private isCommandFile(path: string): boolean {
+        const dir = this.getCommandsDir()
+        if (!dir || !path.endsWith('.md')) return false
+        const normalized = path.replace(/\\/g, '/')
+        return normalized.startsWith(dir.replace(/\\/g, '/') + '/')
     }
 
-    /**
-     * 检查输入是否是斜杠命令
-     */
-    isCommand(text: string): boolean {
-        return text.startsWith('/') && this.parse(text, {}) !== null
+    private scheduleReload(): void {
+        if (this.reloadTimer) clearTimeout(this.reloadTimer)
+        this.reloadTimer = setTimeout(() => {
+            this.reloadTimer = null
+            this.reload()
+        }, RELOAD_DEBOUNCE_MS)
+    }
+
+    private async reload(): Promise<void> {
+        const dir = this.getCommandsDir()
+        const loaded: SlashCommand[] = []
+
+        if (dir && await api.file.exists(dir)) {
+            const items = await api.file.readDir(dir)
+            for (const item of items.filter(i => !i.isDirectory && i.name.endsWith('.md'))) {
+                const content = await api.file.read(item.path)
+                if (content === null) continue
+                const definition = parseCommandFile(item.name.slice(0, -3), content)
+                loaded.push(createProjectCommand(definition, item.path))
+            }
+            logger.system.info(`[SlashCommand] Loaded ${loaded.length} project commands`)
+        }
+
+        // 项目命令优先于同名内置命令
+        const names = new Set(loaded.flatMap(c => [c.name, ...(c.aliases || [])].map(n => n.toLowerCase())))
+        this.projectCommands = loaded.sort((a, b) => a.name.localeCompare(b.name))
+        this.commands = [...this.projectCommands, ...this.builtinCommands.filter(c => !names.has(c.name.toLowerCase()))]
+        this.listeners.forEach(listener => listener())
     }
 }
 
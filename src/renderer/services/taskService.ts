@@ -0,0 +1,713 @@
+/**
+ * 任务服务（.adnify/tasks.json）
+ *
+ * - 加载项目任务定义（兼容 VS Code tasks.json 的常用子集），文件变化时自动重新加载
+ * - 按 dependsOn 顺序运行任务；后台 / watch 任务在终端中持续运行
+ * - 使用正则问题匹配器从输出中提取问题，写入 diagnosticsStore（来源为 `task:<label>`）
+ *
+ * 普通任务通过 shell:executeBackground 运行；后台任务通过 beginsPattern / endsPattern
+ * 划分每一轮编译，每轮结束时整体替换该任务的问题
+ */
+
+import { create } from 'zustand'
+import { api } from '@/renderer/services/electronAPI'
+import { logger } from '@utils/Logger'
+import { useStore } from '@store'
+import { toFullPath, toRelativePath, joinPath, normalizePath, getFileName, getDirPath } from '@utils/pathUtils'
+import { parseJsonc } from '@shared/utils/jsonUtils'
+import type { LspDiagnostic } from '@app-types/electron'
+import { ADNIFY_DIR_NAME, ADNIFY_FILES } from './adnifyDirService'
+import { useDiagnosticsStore } from './diagnosticsStore'
+import { pathToLspUri } from './lspService'
+
+// ============ 类型 ============
+
+export interface ProblemPattern {
+  regexp: string
+  /** 以下均为捕获组序号 */
+  file?: number
+  line?: number
+  column?: number
+  endLine?: number
+  endColumn?: number
+  severity?: number
+  code?: number
+  message?: number
+  /** 多行匹配的最后一个模式可重复匹配（如 eslint stylish 的每条问题） */
+  loop?: boolean
+}
+
+export interface ProblemMatcher {
+  owner?: string
+  /** 显示在问题面板中的来源，默认使用 owner 或任务名 */
+  source?: string
+  /** 未捕获到严重级别时的默认值 */
+  severity?: 'error' | 'warning' | 'info'
+  /** 相对路径的解析基准，默认相对任务工作目录 */
+  fileLocation?: 'absolute' | 'relative' | ['relative', string]
+  pattern: ProblemPattern | ProblemPattern[]
+  /** 后台任务每一轮输出的开始 / 结束标记 */
+  background?: {
+    beginsPattern: string
+    endsPattern: string
+  }
+}
+
+export type ProblemMatcherRef = string | ProblemMatcher | (string | ProblemMatcher)[]
+
+export interface TaskDefinition {
+  label: string
+  /** 只有 dependsOn 的任务是组合任务 */
+  command?: string
+  args?: string[]
+  options?: { cwd?: string }
+  detail?: string
+  group?: 'build' | 'test' | 'lint' | { kind: 'build' | 'test' | 'lint'; isDefault?: boolean }
+  dependsOn?: string | string[]
+  /** 默认并行运行依赖，sequence 表示按声明顺序依次运行 */
+  dependsOrder?: 'parallel' | 'sequence'
+  /** 后台 / watch 任务：在终端中持续运行，不等待退出 */
+  isBackground?: boolean
+  problemMatcher?: ProblemMatcherRef
+}
+
+export interface TaskProblem {
+  file: string
+  /** 1-based */
+  line: number
+  column?: number
+  endLine?: number
+  endColumn?: number
+  /** 与 LSP 一致：1 错误 2 警告 3 信息 */
+  severity: 1 | 2 | 3
+  message: string
+  code?: string
+  source: string
+}
+
+export type TaskRunStatus = 'running' | 'watching' | 'succeeded' | 'failed' | 'stopped'
+
+export interface TaskRunResult {
+  label: string
+  status: TaskRunStatus
+  command?: string
+  exitCode?: number
+  durationMs: number
+  problems: TaskProblem[]
+  /** 截断后的输出（无问题且失败时用于排查） */
+  output?: string
+  error?: string
+  /** 本次运行中先执行的依赖任务 */
+  dependencies?: TaskRunResult[]
+}
+
+interface TaskState {
+  tasks: TaskDefinition[]
+  /** tasks.json 解析错误 */
+  loadError: string | null
+  /** label -> 最近一次运行状态 */
+  runs: Record<string, TaskRunResult>
+}
+
+export const TASK_SOURCE_PREFIX = 'task:'
+
+const RELOAD_DEBOUNCE_MS = 300
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000
+const DEFAULT_BACKGROUND_WAIT_MS = 60 * 1000
+const BACKGROUND_PUBLISH_DELAY_MS = 500
+const MAX_CYCLE_LINES = 5000
+const MAX_RAW_OUTPUT = 4000
+
+// ============ 内置问题匹配器 ============
+
+const TSC_PATTERN: ProblemPattern = {
+  regexp: '^([^\\s].*?)[(:](\\d+)[,:](\\d+)(?:\\):\\s+|\\s+-\\s+)(error|warning|info)\\s+TS(\\d+)\\s*:\\s*(.*)$',
+  file: 1, line: 2, column: 3, severity: 4, code: 5, message: 6,
+}
+
+export const BUILTIN_PROBLEM_MATCHERS: Record<string, ProblemMatcher> = {
+  $tsc: { owner: 'typescript', source: 'ts', pattern: TSC_PATTERN },
+  '$tsc-watch': {
+    owner: 'typescript', source: 'ts', pattern: TSC_PATTERN,
+    background: {
+      beginsPattern: '^\\s*(?:\\d{1,2}:\\d{2}:\\d{2}(?:\\s*[AP]M)?\\s+-\\s+)?(?:Starting compilation in watch mode|File change detected\\. Starting incremental compilation)',
+      endsPattern: '^\\s*(?:\\d{1,2}:\\d{2}:\\d{2}(?:\\s*[AP]M)?\\s+-\\s+)?Found \\d+ errors?\\. Watching for file changes\\.',
+    },
+  },
+  '$eslint-compact': {
+    owner: 'eslint', source: 'eslint', fileLocation: 'absolute',
+    pattern: { regexp: '^(.+):\\sline\\s(\\d+),\\scol\\s(\\d+),\\s(Error|Warning|Info)\\s-\\s(.+?)(?:\\s\\((.+)\\))?$', file: 1, line: 2, column: 3, severity: 4, message: 5, code: 6 },
+  },
+  '$eslint-stylish': {
+    owner: 'eslint', source: 'eslint', fileLocation: 'absolute',
+    pattern: [
+      { regexp: '^((?:[a-zA-Z]:)?[\\\\/][^\\s].*)$', file: 1 },
+      { regexp: '^\\s+(\\d+):(\\d+)\\s+(error|warning|info)\\s+(.+?)(?:\\s\\s+(\\S+))?$', line: 1, column: 2, severity: 3, message: 4, code: 5, loop: true },
+    ],
+  },
+  $gcc: {
+    owner: 'cpp', source: 'gcc',
+    pattern: { regexp: '^(.*?):(\\d+):(?:(\\d+):)?\\s+(?:fatal\\s+)?(warning|error|note):\\s+(.*)$', file: 1, line: 2, column: 3, severity: 4, message: 5 },
+  },
+  $rustc: {
+    owner: 'rust', source: 'rustc',
+    pattern: [
+      { regexp: '^(warning|error)(?:\\[(\\w+)\\])?: (.*)$', severity: 1, code: 2, message: 3 },
+      { regexp: '^\\s*-->\\s*(.+?):(\\d+):(\\d+)\\s*$', file: 1, line: 2, column: 3 },
+    ],
+  },
+  $go: {
+    owner: 'go', source: 'go', severity: 'error',
+    pattern: { regexp: '^\\s*(?:\\.\\/)?([^\\s:]+\\.go):(\\d+)(?::(\\d+))?:\\s+(.*)$', file: 1, line: 2, column: 3, message: 4 },
+  },
+  $javac: {
+    owner: 'java', source: 'javac',
+    pattern: { regexp: '^(?:\\[(?:ERROR|WARNING)\\]\\s+)?(.+\\.java):(?:\\[(\\d+),(\\d+)\\]|(\\d+):)\\s*(error|warning)?:?\\s*(.*)$', file: 1, line: 2, column: 3, severity: 5, message: 6 },
+  },
+  $kotlinc: {
+    owner: 'kotlin', source: 'kotlinc',
+    pattern: { regexp: '^(e|w): (?:file:\\/\\/)?(.+\\.kts?):(\\d+):(\\d+):? (.*)$', severity: 1, file: 2, line: 3, column: 4, message: 5 },
+  },
+  $mypy: {
+    owner: 'python', source: 'mypy',
+    pattern: { regexp: '^(.+\\.pyi?):(\\d+):(?:(\\d+):)?\\s+(error|warning|note):\\s+(.*?)(?:\\s+\\[([\\w-]+)\\])?$', file: 1, line: 2, column: 3, severity: 4, message: 5, code: 6 },
+  },
+}
+
+const TASKS_TEMPLATE = `{
+  // 任务格式兼容 VS Code tasks.json 的常用子集
+  // 内置问题匹配器: ${Object.keys(BUILTIN_PROBLEM_MATCHERS).join(', ')}
+  "version": "2.0.0",
+  "tasks": [
+    {
+      "label": "build",
+      "command": "npm run build",
+      "group": "build",
+      "problemMatcher": "$tsc"
+    }
+  ]
+}
+`
+
+// ============ 解析 ============
+
+/**
+ * 解析 tasks.json 内容，无效时抛出带原因的错误
+ */
+export function parseTasksConfig(content: string): TaskDefinition[] {
+  const parsed = parseJsonc(content)
+  const tasks = Array.isArray(parsed) ? parsed : (parsed as { tasks?: unknown } | null)?.tasks
+  if (!Array.isArray(tasks)) throw new Error('tasks.json must contain a "tasks" array')
+
+  const labels = new Set<string>()
+  return tasks.map((task: TaskDefinition & { name?: string }, index) => {
+    const label = task.label || task.name
+    if (!label) throw new Error(`Task #${index + 1} is missing a "label"`)
+    if (labels.has(label)) throw new Error(`Duplicate task label: ${label}`)
+    if (!task.command && !task.dependsOn) throw new Error(`Task "${label}" needs a "command" or "dependsOn"`)
+    labels.add(label)
+    return { ...task, label }
+  })
+}
+
+function getDependencies(task: TaskDefinition): string[] {
+  if (!task.dependsOn) return []
+  return Array.isArray(task.dependsOn) ? task.dependsOn : [task.dependsOn]
+}
+
+/**
+ * 计算运行顺序（依赖在前、去重），检测未知任务和循环依赖
+ */
+export function resolveTaskOrder(tasks: TaskDefinition[], label: string): string[] {
+  const byLabel = new Map(tasks.map(t => [t.label, t]))
+  const order: string[] = []
+  const visiting: string[] = []
+
+  const visit = (name: string) => {
+    if (order.includes(name)) return
+    if (visiting.includes(name)) throw new Error(`Circular task dependency: ${[...visiting, name].join(' -> ')}`)
+    const task = byLabel.get(name)
+    if (!task) throw new Error(`Task not found: ${name}`)
+    visiting.push(name)
+    getDependencies(task).forEach(visit)
+    visiting.pop()
+    order.push(name)
+  }
+
+  visit(label)
+  return order
+}
+
+/**
+ * 将 problemMatcher 引用（内置名称 / 内联定义 / 数组）解析为匹配器列表
+ */
+export function resolveProblemMatchers(ref: ProblemMatcherRef | undefined): ProblemMatcher[] {
+  if (!ref) return []
+  return (Array.isArray(ref) ? ref : [ref]).map(item => {
+    if (typeof item !== 'string') return item
+    const matcher = BUILTIN_PROBLEM_MATCHERS[item.startsWith('$') ? item : `$${item}`]
+    if (!matcher) throw new Error(`Unknown problem matcher: ${item}`)
+    return matcher
+  })
+}
+
+function parseSeverity(value: string | undefined, fallback: ProblemMatcher['severity']): TaskProblem['severity'] {
+  const text = (value || fallback || 'error').toLowerCase()
+  if (text.startsWith('w')) return 2
+  if (text.startsWith('i') || text.startsWith('n') || text.startsWith('h')) return 3
+  return 1
+}
+
+function resolveProblemFile(file: string, matcher: ProblemMatcher, cwd: string): string {
+  const cleaned = file.trim().replace(/^\.[\\/]/, '')
+  if (matcher.fileLocation === 'absolute') return cleaned
+  const base = Array.isArray(matcher.fileLocation) ? toFullPath(matcher.fileLocation[1], cwd) : cwd
+  return toFullPath(cleaned, base)
+}
+
+type PartialProblem = Partial<Record<'file' | 'line' | 'column' | 'endLine' | 'endColumn' | 'severity' | 'code' | 'message', string>>
+
+function capture(match: RegExpMatchArray, pattern: ProblemPattern): PartialProblem {
+  const data: PartialProblem = {}
+  for (const key of ['file', 'line', 'column', 'endLine', 'endColumn', 'severity', 'code', 'message'] as const) {
+    const group = pattern[key]
+    if (group !== undefined && match[group] !== undefined && match[group] !== '') data[key] = match[group]
+  }
+  return data
+}
+
+function toProblem(data: PartialProblem, matcher: ProblemMatcher, cwd: string, source: string): TaskProblem | null {
+  if (!data.file || !data.line || !data.message) return null
+  const toNumber = (value?: string) => (value ? parseInt(value, 10) : undefined)
+  return {
+    file: resolveProblemFile(data.file, matcher, cwd),
+    line: parseInt(data.line, 10),
+    column: toNumber(data.column),
+    endLine: toNumber(data.endLine),
+    endColumn: toNumber(data.endColumn),
+    severity: parseSeverity(data.severity, matcher.severity),
+    message: data.message.trim(),
+    code: data.code,
+    source: matcher.source || matcher.owner || source,
+  }
+}
+
+/**
+ * 用问题匹配器扫描任务输出
+ * 多行模式需要连续的行依次匹配；最后一个模式带 loop 时可重复匹配，每次产生一个问题
+ */
+export function matchProblems(output: string, matchers: ProblemMatcher[], cwd: string, source = 'task'): TaskProblem[] {
+  const lines = output.split(/\r?\n/)
+  const problems: TaskProblem[] = []
+
+  for (const matcher of matchers) {
+    const patterns = Array.isArray(matcher.pattern) ? matcher.pattern : [matcher.pattern]
+    const regexps = patterns.map(p => new RegExp(p.regexp))
+    const last = patterns.length - 1
+
+    for (let i = 0; i < lines.length; i++) {
+      const first = lines[i].match(regexps[0])
+      if (!first) continue
+
+      let data = capture(first, patterns[0])
+      let j = 1
+      while (j <= last) {
+        const match = i + j < lines.length ? lines[i + j].match(regexps[j]) : null
+        if (!match) break
+        data = { ...data, ...capture(match, patterns[j]) }
+        j++
+      }
+      if (j <= last) continue
+
+      const problem = toProblem(data, matcher, cwd, source)
+      if (problem) problems.push(problem)
+
+      // loop：最后一个模式继续匹配后续行，共享前面模式捕获的字段
+      let end = i + last
+      if (last > 0 && patterns[last].loop) {
+        const shared = { ...data }
+        while (end + 1 < lines.length) {
+          const match = lines[end + 1].match(regexps[last])
+          if (!match) break
+          const next = toProblem({ ...shared, ...capture(match, patterns[last]) }, matcher, cwd, source)
+          if (next) problems.push(next)
+          end++
+        }
+      }
+      i = end
+    }
+  }
+
+  return problems
+}
+
+/**
+ * 格式化任务结果（供 Agent 使用）
+ */
+export function formatTaskResult(result: TaskRunResult, workspacePath: string | null, maxProblems = 30): string {
+  const lines: string[] = []
+
+  for (const dep of result.dependencies || []) {
+    lines.push(`[${dep.label}] ${describeStatus(dep)}${dep.problems.length ? `, ${dep.problems.length} problem(s)` : ''}`)
+  }
+
+  const errors = result.problems.filter(p => p.severity === 1).length
+  const warnings = result.problems.filter(p => p.severity === 2).length
+  lines.push(`Task "${result.label}" ${describeStatus(result)}${result.durationMs ? ` (${(result.durationMs / 1000).toFixed(1)}s)` : ''}`)
+  if (result.error) lines.push(result.error)
+
+  const problems = [...(result.dependencies || []).flatMap(d => d.problems), ...result.problems]
+  if (problems.length > 0) {
+    lines.push('', `${errors} error(s), ${warnings} warning(s)${problems.length > result.problems.length ? ` (${problems.length} problems including dependencies)` : ''}:`)
+    for (const p of problems.slice(0, maxProblems)) {
+      const location = `${workspacePath ? toRelativePath(p.file, workspacePath) : p.file}:${p.line}${p.column ? `:${p.column}` : ''}`
+      const severity = p.severity === 1 ? 'error' : p.severity === 2 ? 'warning' : 'info'
+      lines.push(`${location} ${severity}${p.code ? `[${p.code}]` : ''}: ${p.message}`)
+    }
+    if (problems.length > maxProblems) lines.push(`... and ${problems.length - maxProblems} more`)
+  } else if (result.output && result.status === 'failed') {
+    lines.push('', result.output)
+  }
+
+  return lines.join('\n')
+}
+
+function describeStatus(result: TaskRunResult): string {
+  switch (result.status) {
+    case 'succeeded': return `succeeded (exit code ${result.exitCode ?? 0})`
+    case 'failed': return result.exitCode !== undefined ? `failed (exit code ${result.exitCode})` : 'failed'
+    case 'watching': return 'is running in the background'
+    case 'running': return 'is still running (no end of compilation detected yet)'
+    case 'stopped': return 'was stopped'
+  }
+}
+
+// ============ Store ============
+
+export const useTaskStore = create<TaskState>(() => ({
+  tasks: [],
+  loadError: null,
+  runs: {},
+}))
+
+// ============ 服务 ============
+
+const TERMINAL_ESCAPE_RE = /\x1b\[[0-9;?]*[a-zA-Z]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[()][A-Z0-9]/g
+
+function quoteArg(arg: string): string {
+  if (!/[\s"'$`&|;<>()]/.test(arg)) return arg
+  const isWindows = typeof navigator !== 'undefined' && /^win/i.test(navigator.platform)
+  return isWindows ? `'${arg.replace(/'/g, "''")}'` : `'${arg.replace(/'/g, "'\\''")}'`
+}
+
+interface BackgroundTask {
+  terminalId: string
+  ready: Promise<TaskRunResult>
+  /** 关闭终端（会触发 dispose） */
+  close: () => void
+  dispose: () => void
+}
+
+class TaskService {
+  private workspacePath: string | null = null
+  private unsubscribeWatcher: (() => void) | null = null
+  private reloadTimer: ReturnType<typeof setTimeout> | null = null
+  private background = new Map<string, BackgroundTask>()
+
+  /**
+   * 加载工作区 .adnify/tasks.json，并在文件变化时重新加载
+   */
+  async loadTasks(workspacePath: string | null): Promise<void> {
+    if (this.workspacePath && this.workspacePath !== workspacePath) this.stopAll()
+    this.workspacePath = workspacePath
+    if (!this.unsubscribeWatcher) {
+      this.unsubscribeWatcher = api.file.onChanged(event => {
+        const file = this.getTasksFile()
+        if (file && normalizePath(event.path) === normalizePath(file)) this.scheduleReload()
+      })
+    }
+    await this.reload()
+  }
+
+  getTasks(): TaskDefinition[] {
+    return useTaskStore.getState().tasks
+  }
+
+  getTask(label: string): TaskDefinition | undefined {
+    return this.getTasks().find(t => t.label === label)
+  }
+
+  /**
+   * 运行任务（先运行 dependsOn 中的任务）
+   * 后台任务在首轮编译结束（endsPattern）或 waitMs 后返回，之后继续在终端中运行
+   */
+  async run(label: string, workspacePath: string, options: { waitMs?: number; timeoutMs?: number } = {}): Promise<TaskRunResult> {
+    const tasks = this.getTasks()
+    const order = resolveTaskOrder(tasks, label)
+    const runs = new Map<string, Promise<TaskRunResult>>()
+    const executed: TaskRunResult[] = []
+
+    const runOne = (name: string): Promise<TaskRunResult> => {
+      const existing = runs.get(name)
+      if (existing) return existing
+      const promise = (async () => {
+        const task = this.getTask(name)!
+        const dependencies = getDependencies(task)
+        const results = task.dependsOrder === 'sequence'
+          ? await dependencies.reduce<Promise<TaskRunResult[]>>(async (acc, dep) => {
+            const done = await acc
+            if (done.some(r => r.status === 'failed')) return done
+            return [...done, await runOne(dep)]
+          }, Promise.resolve([]))
+          : await Promise.all(dependencies.map(runOne))
+
+        const failed = results.find(r => r.status === 'failed')
+        const result = failed
+          ? { label: name, status: 'failed' as const, durationMs: 0, problems: [], error: `Dependency "${failed.label}" failed` }
+          : await this.execute(task, workspacePath, options)
+        if (name !== label) executed.push(result)
+        return result
+      })()
+      runs.set(name, promise)
+      return promise
+    }
+
+    logger.terminal.info(`[Task] Running ${order.join(' -> ')}`)
+    const result = await runOne(label)
+    return executed.length > 0 ? { ...result, dependencies: executed } : result
+  }
+
+  /**
+   * 停止后台任务
+   */
+  stop(label: string): void {
+    const running = this.background.get(label)
+    if (!running) return
+    running.close()
+    running.dispose()
+  }
+
+  stopAll(): void {
+    for (const label of [...this.background.keys()]) this.stop(label)
+    for (const source of useDiagnosticsStore.getState().sources.keys()) {
+      if (source.startsWith(TASK_SOURCE_PREFIX)) useDiagnosticsStore.getState().clearSource(source)
+    }
+  }
+
+  /**
+   * 获取任务问题匹配器报告的某个文件的问题
+   */
+  getProblemsForFile(filePath: string): TaskProblem[] {
+    const target = normalizePath(filePath).toLowerCase()
+    return Object.values(useTaskStore.getState().runs)
+      .flatMap(run => run.problems)
+      .filter(p => normalizePath(p.file).toLowerCase() === target)
+  }
+
+  /**
+   * 确保 tasks.json 存在（不存在时写入示例），返回其路径
+   */
+  async ensureTasksFile(workspacePath: string): Promise<string> {
+    const file = joinPath(workspacePath, ADNIFY_DIR_NAME, ADNIFY_FILES.TASKS)
+    if (!await api.file.exists(file)) {
+      await api.file.ensureDir(getDirPath(file))
+      await api.file.write(file, TASKS_TEMPLATE)
+    }
+    return file
+  }
+
+  // ============ Private Methods ============
+
+  private getTasksFile(): string | null {
+    return this.workspacePath ? joinPath(this.workspacePath, ADNIFY_DIR_NAME, ADNIFY_FILES.TASKS) : null
+  }
+
+  private scheduleReload(): void {
+    if (this.reloadTimer) clearTimeout(this.reloadTimer)
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null
+      this.reload()
+    }, RELOAD_DEBOUNCE_MS)
+  }
+
+  private async reload(): Promise<void> {
+    const file = this.getTasksFile()
+    const content = file ? await api.file.read(file) : null
+    if (!content) {
+      useTaskStore.setState({ tasks: [], loadError: null })
+      return
+    }
+
+    try {
+      const tasks = parseTasksConfig(content)
+      useTaskStore.setState({ tasks, loadError: null })
+      logger.terminal.info(`[Task] Loaded ${tasks.length} tasks`)
+    } catch (error) {
+      // 保留上一次有效的任务，避免编辑过程中任务列表闪烁
+      const message = error instanceof Error ? error.message : String(error)
+      useTaskStore.setState({ loadError: message })
+      logger.terminal.warn('[Task] Failed to parse tasks.json:', message)
+    }
+  }
+
+  private resolveVariables(value: string, workspacePath: string): string {
+    const activeFile = useStore.getState().activeFilePath || ''
+    return value
+      .replace(/\$\{workspaceFolder\}/g, workspacePath)
+      .replace(/\$\{file\}/g, activeFile)
+      .replace(/\$\{relativeFile\}/g, activeFile ? toRelativePath(activeFile, workspacePath) : '')
+      .replace(/\$\{fileBasename\}/g, activeFile ? getFileName(activeFile) : '')
+      .replace(/\$\{fileDirname\}/g, activeFile ? getDirPath(activeFile) : '')
+  }
+
+  private buildCommand(task: TaskDefinition, workspacePath: string): { command: string; cwd: string } {
+    const resolve = (value: string) => this.resolveVariables(value, workspacePath)
+    const args = (task.args || []).map(arg => quoteArg(resolve(arg)))
+    return {
+      command: [resolve(task.command!), ...args].join(' '),
+      cwd: task.options?.cwd ? toFullPath(resolve(task.options.cwd), workspacePath) : workspacePath,
+    }
+  }
+
+  private async execute(task: TaskDefinition, workspacePath: string, options: { waitMs?: number; timeoutMs?: number }): Promise<TaskRunResult> {
+    // 组合任务：依赖已全部成功
+    if (!task.command) {
+      return this.setRun({ label: task.label, status: 'succeeded', durationMs: 0, problems: [] })
+    }
+
+    const matchers = resolveProblemMatchers(task.problemMatcher)
+    if (task.isBackground) return this.startBackground(task, workspacePath, matchers, options.waitMs ?? DEFAULT_BACKGROUND_WAIT_MS)
+
+    const { command, cwd } = this.buildCommand(task, workspacePath)
+    const startTime = Date.now()
+    this.setRun({ label: task.label, status: 'running', command, durationMs: 0, problems: useTaskStore.getState().runs[task.label]?.problems || [] })
+
+    try {
+      const execution = await api.shell.executeBackground({ command, cwd, timeout: options.timeoutMs || DEFAULT_TIMEOUT_MS })
+      const output = [execution.output, execution.error].filter(Boolean).join('\n')
+      const problems = matchProblems(output, matchers, cwd, task.label)
+      this.publishProblems(task.label, problems)
+      return this.setRun({
+        label: task.label,
+        status: execution.exitCode === 0 ? 'succeeded' : 'failed',
+        command,
+        exitCode: execution.exitCode,
+        durationMs: Date.now() - startTime,
+        problems,
+        output: output.slice(-MAX_RAW_OUTPUT),
+      })
+    } catch (error) {
+      return this.setRun({
+        label: task.label, status: 'failed', command, durationMs: Date.now() - startTime, problems: [],
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  private async startBackground(task: TaskDefinition, workspacePath: string, matchers: ProblemMatcher[], waitMs: number): Promise<TaskRunResult> {
+    const label = task.label
+    const running = this.background.get(label)
+    if (running) return running.ready
+
+    const { command, cwd } = this.buildCommand(task, workspacePath)
+    const markers = matchers.find(m => m.background)?.background
+    const beginsRe = markers ? new RegExp(markers.beginsPattern) : null
+    const endsRe = markers ? new RegExp(markers.endsPattern) : null
+    const startTime = Date.now()
+
+    // 按需加载终端（xterm 依赖浏览器环境）
+    const { terminalManager } = await import('./TerminalManager')
+    const terminalId = await terminalManager.createTerminal({ name: `Task - ${label}`, cwd })
+    useStore.getState().setTerminalVisible(true)
+    this.setRun({ label, status: 'running', command, durationMs: 0, problems: [] })
+
+    let pending = ''
+    let cycle: string[] = []
+    let publishTimer: ReturnType<typeof setTimeout> | null = null
+    let resolveReady: (result: TaskRunResult) => void = () => {}
+    const ready = new Promise<TaskRunResult>(resolve => { resolveReady = resolve })
+
+    const finishCycle = (status: TaskRunStatus) => {
+      const problems = matchProblems(cycle.join('\n'), matchers, cwd, label)
+      this.publishProblems(label, problems)
+      return this.setRun({ label, status, command, durationMs: Date.now() - startTime, problems, output: cycle.slice(-40).join('\n') })
+    }
+
+    const unsubscribeData = api.terminal.onData(({ id, data }: { id: string; data: string }) => {
+      if (id !== terminalId) return
+      const lines = (pending + data.replace(TERMINAL_ESCAPE_RE, '')).split(/\r?\n/)
+      pending = lines.pop() || ''
+
+      for (const line of lines.map(l => l.replace(/^.*\r/, ''))) {
+        if (beginsRe?.test(line)) {
+          cycle = []
+          this.setRun({ ...useTaskStore.getState().runs[label], status: 'running' })
+        }
+        cycle.push(line)
+        if (cycle.length > MAX_CYCLE_LINES) cycle.splice(0, cycle.length - MAX_CYCLE_LINES)
+        if (endsRe?.test(line)) resolveReady(finishCycle('watching'))
+      }
+
+      // 没有轮次标记的后台任务：输出静止后按累计输出刷新问题
+      if (!endsRe && lines.length > 0) {
+        if (publishTimer) clearTimeout(publishTimer)
+        publishTimer = setTimeout(() => finishCycle('watching'), BACKGROUND_PUBLISH_DELAY_MS)
+      }
+    })
+
+    let unsubscribeTerminals = () => {}
+    const dispose = () => {
+      if (this.background.get(label)?.terminalId !== terminalId) return
+      this.background.delete(label)
+      unsubscribeData()
+      unsubscribeTerminals()
+      if (publishTimer) clearTimeout(publishTimer)
+      const result = this.setRun({ ...useTaskStore.getState().runs[label], status: 'stopped' })
+      resolveReady(result)
+    }
+
+    // 用户在终端面板中关闭终端时视为停止
+    unsubscribeTerminals = terminalManager.subscribe(state => {
+      if (!state.terminals.some(t => t.id === terminalId)) dispose()
+    })
+
+    this.background.set(label, { terminalId, ready, close: () => terminalManager.closeTerminal(terminalId), dispose })
+    terminalManager.writeToTerminal(terminalId, `${command}\r`)
+
+    if (!endsRe) {
+      resolveReady(this.setRun({ label, status: 'watching', command, durationMs: 0, problems: [] }))
+    }
+
+    // 超时后返回当前状态，任务继续在后台运行
+    const timeout = new Promise<TaskRunResult>(resolve => {
+      setTimeout(() => resolve({ ...useTaskStore.getState().runs[label], durationMs: Date.now() - startTime }), waitMs)
+    })
+    return Promise.race([ready, timeout])
+  }
+
+  private publishProblems(label: string, problems: TaskProblem[]): void {
+    const byUri = new Map<string, LspDiagnostic[]>()
+    for (const p of problems) {
+      const uri = pathToLspUri(p.file)
+      const start = { line: p.line - 1, character: Math.max((p.column || 1) - 1, 0) }
+      const end = p.endLine
+        ? { line: p.endLine - 1, character: Math.max((p.endColumn || 1) - 1, 0) }
+        : start
+      byUri.set(uri, [...(byUri.get(uri) || []), {
+        range: { start, end },
+        severity: p.severity,
+        code: p.code,
+        source: p.source,
+        message: p.message,
+      }])
+    }
+    useDiagnosticsStore.getState().setSourceDiagnostics(`${TASK_SOURCE_PREFIX}${label}`, byUri)
+  }
+
+  private setRun(result: TaskRunResult): TaskRunResult {
+    useTaskStore.setState(state => ({ runs: { ...state.runs, [result.label]: result } }))
+    return result
+  }
+}
+
+export const taskService = new TaskService()
@@ -0,0 +1,712 @@
+/**
+ * 测试服务
+ *
+ * - 检测工作区使用的测试框架（vitest / jest / mocha / pytest / go test）
+ * - 静态扫描测试文件，发现测试用例及其所在行（供 Test Explorer 和编辑器装饰使用）
+ * - 以机器可读的报告格式运行测试，解析为结构化结果（通过 / 失败 / 失败位置）
+ *
+ * 报告文件写入 .adnify/test-results/，解析失败时保留截断的原始输出
+ */
+
+import { create } from 'zustand'
+import { api } from '@/renderer/services/electronAPI'
+import { logger } from '@utils/Logger'
+import { toFullPath, toRelativePath, getDirPath, getFileName, normalizePath } from '@utils/pathUtils'
+import { ADNIFY_DIR_NAME, ADNIFY_FILES } from './adnifyDirService'
+
+// ============ 类型 ============
+
+export type TestFramework = 'vitest' | 'jest' | 'mocha' | 'pytest' | 'go'
+
+export type TestStatus = 'idle' | 'running' | 'passed' | 'failed' | 'skipped'
+
+export interface TestCase {
+  /** `${file}::${fullName}` */
+  id: string
+  /** 测试自身的标题 */
+  name: string
+  /** 包含 describe / 类名的完整名称（与报告中的名称一致） */
+  fullName: string
+  file: string
+  /** 1-based */
+  line: number
+  framework: TestFramework
+}
+
+export interface TestLocation {
+  file: string
+  line: number
+  column?: number
+}
+
+export interface TestResult {
+  fullName: string
+  file: string
+  status: 'passed' | 'failed' | 'skipped'
+  durationMs?: number
+  message?: string
+  /** 失败断言或异常在工作区中的位置 */
+  location?: TestLocation
+}
+
+export interface TestRunSummary {
+  framework: TestFramework
+  command: string
+  exitCode: number
+  passed: number
+  failed: number
+  skipped: number
+  durationMs: number
+  results: TestResult[]
+  /** 没有可解析的报告时附带的原始输出（已截断） */
+  output?: string
+}
+
+export interface TestRunOptions {
+  framework?: TestFramework
+  /** 限定运行的文件或目录（绝对路径或相对工作区） */
+  paths?: string[]
+  /** 按名称过滤（正则） */
+  testName?: string
+  /** 超时（毫秒） */
+  timeout?: number
+}
+
+// ============ 框架检测 ============
+
+const JS_FRAMEWORKS: TestFramework[] = ['vitest', 'jest', 'mocha']
+
+const JS_TEST_GLOB = '**/*.{test,spec}.{ts,tsx,js,jsx,mjs,cjs,mts,cts},**/__tests__/**/*.{ts,tsx,js,jsx}'
+
+/** 各框架的测试文件匹配规则与声明语句 */
+const DISCOVERY: Record<TestFramework, { include: string; query: string }> = {
+  vitest: { include: JS_TEST_GLOB, query: '\\b(describe|suite|it|test)\\b' },
+  jest: { include: JS_TEST_GLOB, query: '\\b(describe|it|test)\\b' },
+  mocha: { include: `${JS_TEST_GLOB},test/**/*.{js,mjs,cjs,ts}`, query: '\\b(describe|context|suite|it|specify|test)\\b' },
+  pytest: { include: '**/test_*.py,**/*_test.py', query: '^\\s*(async\\s+)?def\\s+test' },
+  go: { include: '**/*_test.go', query: '^func\\s+Test' },
+}
+
+const TEST_FILE_PATTERNS = [
+  /\.(test|spec)\.[cm]?[jt]sx?$/,
+  /[\\/]__tests__[\\/]/,
+  /(^|[\\/])test_[^\\/]*\.py$/,
+  /_test\.(py|go)$/,
+]
+
+/** 按文件名判断是否为测试文件 */
+export function isTestFilePath(filePath: string): boolean {
+  return TEST_FILE_PATTERNS.some(pattern => pattern.test(filePath))
+}
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000
+const MAX_RAW_OUTPUT = 4000
+
+/**
+ * 根据工作区中的配置文件检测测试框架
+ */
+export async function detectTestFrameworks(workspacePath: string): Promise<TestFramework[]> {
+  const frameworks: TestFramework[] = []
+  const read = (name: string) => api.file.read(toFullPath(name, workspacePath))
+
+  const packageJson = await read('package.json')
+  if (packageJson) {
+    try {
+      const pkg = JSON.parse(packageJson)
+      const deps = { ...pkg.dependencies, ...pkg.devDependencies }
+      const testScript = String(pkg.scripts?.test || '')
+      for (const framework of JS_FRAMEWORKS) {
+        if (deps[framework] || new RegExp(`\\b${framework}\\b`).test(testScript)) frameworks.push(framework)
+      }
+    } catch {
+      logger.system.warn('[TestService] Invalid package.json')
+    }
+  }
+
+  const [pytestIni, conftest, pyproject, setupCfg] = await Promise.all(
+    ['pytest.ini', 'conftest.py', 'pyproject.toml', 'setup.cfg'].map(read)
+  )
+  if (pytestIni !== null || conftest !== null || pyproject?.includes('pytest') || setupCfg?.includes('[tool:pytest]')) {
+    frameworks.push('pytest')
+  }
+
+  if (await api.file.exists(toFullPath('go.mod', workspacePath))) frameworks.push('go')
+
+  return frameworks
+}
+
+// ============ 测试发现 ============
+
+const JS_SUITE_RE = /^(\s*)(?:describe|suite|context)(?:\.(?:only|skip|concurrent|sequential|each\s*\(.*?\)))?\s*\(\s*(['"`])(.+?)\2/
+const JS_TEST_RE = /^(\s*)(?:it|test|specify)(?:\.(?:only|skip|todo|concurrent|fails|each\s*\(.*?\)))?\s*\(\s*(['"`])(.+?)\2/
+const PY_CLASS_RE = /^(\s*)class\s+(Test\w*)/
+const PY_TEST_RE = /^(\s*)(?:async\s+)?def\s+(test\w*)\s*\(/
+const GO_TEST_RE = /^func\s+(Test\w+)\s*\(\s*\w+\s+\*testing\.T\s*\)/
+
+/**
+ * 从测试文件内容中解析测试用例（基于缩进推断 describe 嵌套）
+ */
+export function parseTestFile(content: string, file: string, framework: TestFramework): TestCase[] {
+  const tests: TestCase[] = []
+  const lines = content.split(/\r?\n/)
+  const stack: { indent: number; name: string }[] = []
+  const add = (name: string, fullName: string, line: number) => {
+    tests.push({ id: `${file}::${fullName}`, name, fullName, file, line, framework })
+  }
+
+  lines.forEach((text, i) => {
+    if (framework === 'go') {
+      const match = text.match(GO_TEST_RE)
+      if (match) add(match[1], match[1], i + 1)
+      return
+    }
+
+    const isPython = framework === 'pytest'
+    const suite = text.match(isPython ? PY_CLASS_RE : JS_SUITE_RE)
+    const test = suite ? null : text.match(isPython ? PY_TEST_RE : JS_TEST_RE)
+    const match = suite || test
+    if (!match) return
+
+    const indent = match[1].length
+    while (stack.length && stack[stack.length - 1].indent >= indent) stack.pop()
+    const name = isPython ? match[2] : match[3]
+
+    if (suite) {
+      stack.push({ indent, name })
+      return
+    }
+    // pytest 节点 ID 以 :: 分隔类名，JS 报告以空格连接 describe 标题
+    const fullName = [...stack.map(s => s.name), name].join(isPython ? '::' : ' ')
+    add(name, fullName, i + 1)
+  })
+
+  return tests
+}
+
+// ============ 结果解析 ============
+
+const ANSI_RE = /\x1b\[[0-9;]*m/g
+const LOCATION_RE = /((?:[a-zA-Z]:)?[^\s()'"<>:]*[\\/]?[^\s()'"<>:]+\.\w+):(\d+)(?::(\d+))?/g
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_RE, '')
+}
+
+/**
+ * 从错误信息 / 堆栈中提取工作区内的第一个位置（跳过 node_modules 和 site-packages）
+ */
+export function extractFailureLocation(message: string, workspacePath: string): TestLocation | undefined {
+  const workspace = normalizePath(workspacePath)
+  for (const match of stripAnsi(message).replace(/file:\/\//g, '').matchAll(LOCATION_RE)) {
+    const file = toFullPath(match[1], workspacePath)
+    const normalized = normalizePath(file)
+    if (!normalized.startsWith(workspace) || /node_modules|site-packages|[\\/]\.adnify[\\/]/.test(normalized)) continue
+    return { file, line: Number(match[2]), column: match[3] ? Number(match[3]) : undefined }
+  }
+  return undefined
+}
+
+interface JestAssertion {
+  fullName?: string
+  title: string
+  ancestorTitles?: string[]
+  status: string
+  duration?: number | null
+  failureMessages?: string[]
+  location?: { line: number; column: number } | null
+}
+
+interface JestReport {
+  testResults?: {
+    name: string
+    status?: string
+    message?: string
+    assertionResults?: JestAssertion[]
+  }[]
+}
+
+/**
+ * 解析 jest --json / vitest --reporter=json 报告（两者格式兼容）
+ */
+export function parseJestReport(report: JestReport, workspacePath: string): TestResult[] {
+  const results: TestResult[] = []
+  for (const file of report.testResults || []) {
+    const assertions = file.assertionResults || []
+    // 文件级错误（如编译失败）没有任何用例结果
+    if (assertions.length === 0 && file.status === 'failed') {
+      const message = stripAnsi(file.message || 'Test file failed to run')
+      results.push({ fullName: getFileName(file.name), file: file.name, status: 'failed', message, location: extractFailureLocation(message, workspacePath) })
+      continue
+    }
+    for (const a of assertions) {
+      const status = a.status === 'passed' ? 'passed' : a.status === 'failed' ? 'failed' : 'skipped'
+      const message = a.failureMessages?.length ? stripAnsi(a.failureMessages.join('\n')) : undefined
+      results.push({
+        fullName: a.fullName || [...(a.ancestorTitles || []), a.title].join(' '),
+        file: file.name,
+        status,
+        durationMs: a.duration ?? undefined,
+        message,
+        location: status === 'failed'
+          ? (message && extractFailureLocation(message, workspacePath)) || (a.location ? { file: file.name, line: a.location.line, column: a.location.column } : undefined)
+          : undefined,
+      })
+    }
+  }
+  return results
+}
+
+interface MochaTest {
+  title: string
+  fullTitle: string
+  file?: string
+  duration?: number
+  err?: { message?: string; stack?: string }
+}
+
+/**
+ * 解析 mocha --reporter json 报告
+ */
+export function parseMochaReport(
+  report: { passes?: MochaTest[]; failures?: MochaTest[]; pending?: MochaTest[] },
+  workspacePath: string
+): TestResult[] {
+  const convert = (status: TestResult['status']) => (t: MochaTest): TestResult => {
+    const message = t.err && (t.err.stack || t.err.message) ? stripAnsi(t.err.stack || t.err.message || '') : undefined
+    return {
+      fullName: t.fullTitle,
+      file: t.file || '',
+      status,
+      durationMs: t.duration,
+      message,
+      location: message ? extractFailureLocation(message, workspacePath) : undefined,
+    }
+  }
+  return [
+    ...(report.passes || []).map(convert('passed')),
+    ...(report.failures || []).map(convert('failed')),
+    ...(report.pending || []).map(convert('skipped')),
+  ]
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&')
+}
+
+function xmlAttr(attrs: string, name: string): string | undefined {
+  const match = attrs.match(new RegExp(`\\b${name}="([^"]*)"`))
+  return match ? decodeXml(match[1]) : undefined
+}
+
+/**
+ * 解析 pytest --junitxml 报告
+ */
+export function parseJUnitReport(xml: string, workspacePath: string): TestResult[] {
+  const results: TestResult[] = []
+  const caseRe = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g
+  for (const [, attrs, body = ''] of xml.matchAll(caseRe)) {
+    const name = xmlAttr(attrs, 'name') || ''
+    const classname = xmlAttr(attrs, 'classname') || ''
+    // pytest 的 classname 形如 tests.test_math.TestAdd
+    const file = xmlAttr(attrs, 'file') || `${classname.split('.').filter(p => !/^Test/.test(p)).join('/')}.py`
+    const className = classname.split('.').filter(p => /^Test/.test(p)).join('::')
+    const failure = body.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/)
+    const skipped = /<skipped\b/.test(body)
+    const message = failure ? decodeXml([xmlAttr(failure[2], 'message'), failure[3]].filter(Boolean).join('\n')) : undefined
+    const time = xmlAttr(attrs, 'time')
+    results.push({
+      fullName: className ? `${className}::${name}` : name,
+      file: toFullPath(file, workspacePath),
+      status: failure ? 'failed' : skipped ? 'skipped' : 'passed',
+      durationMs: time ? Math.round(Number(time) * 1000) : undefined,
+      message,
+      location: message ? extractFailureLocation(message, workspacePath) : undefined,
+    })
+  }
+  return results
+}
+
+/**
+ * 解析 go test -json 输出（每行一个事件）
+ * 失败位置形如 "    math_test.go:12: ..."，file 为空时由调用方根据发现的用例补全
+ */
+export function parseGoTestOutput(output: string): TestResult[] {
+  const outputs = new Map<string, string[]>()
+  const results: TestResult[] = []
+  for (const line of output.split('\n')) {
+    if (!line.startsWith('{')) continue
+    let event: { Action: string; Test?: string; Elapsed?: number; Output?: string }
+    try {
+      event = JSON.parse(line)
+    } catch {
+      continue
+    }
+    // 只统计顶层测试，子测试（Parent/Sub）的结果计入父测试
+    if (!event.Test || event.Test.includes('/')) continue
+    if (event.Action === 'output') {
+      outputs.set(event.Test, [...(outputs.get(event.Test) || []), event.Output || ''])
+    } else if (event.Action === 'pass' || event.Action === 'fail' || event.Action === 'skip') {
+      const text = (outputs.get(event.Test) || []).filter(l => !/^(=== RUN|--- (PASS|FAIL|SKIP))/.test(l.trim())).join('')
+      const location = event.Action === 'fail' ? text.match(/^\s+(\w+_test\.go):(\d+):/m) : null
+      results.push({
+        fullName: event.Test,
+        file: '',
+        status: event.Action === 'pass' ? 'passed' : event.Action === 'fail' ? 'failed' : 'skipped',
+        durationMs: event.Elapsed !== undefined ? Math.round(event.Elapsed * 1000) : undefined,
+        message: event.Action === 'fail' ? text.trim() : undefined,
+        location: location ? { file: location[1], line: Number(location[2]) } : undefined,
+      })
+    }
+  }
+  return results
+}
+
+// ============ 格式化 ============
+
+/**
+ * 生成给 Agent 的测试结果摘要（只展开失败用例）
+ */
+export function formatTestRunSummary(summary: TestRunSummary, workspacePath: string | null, maxFailures = 10): string {
+  const duration = `${(summary.durationMs / 1000).toFixed(1)}s`
+  const lines = [`${summary.framework}: ${summary.passed} passed, ${summary.failed} failed, ${summary.skipped} skipped (${duration})`]
+
+  if (summary.results.length === 0) {
+    lines.push(`No test results were reported (exit code ${summary.exitCode}).`)
+    if (summary.output) lines.push('', summary.output)
+    return lines.join('\n')
+  }
+
+  const failures = summary.results.filter(r => r.status === 'failed')
+  for (const failure of failures.slice(0, maxFailures)) {
+    lines.push('', `FAILED ${toRelativePath(failure.file, workspacePath)} > ${failure.fullName}`)
+    if (failure.location) {
+      const column = failure.location.column ? `:${failure.location.column}` : ''
+      lines.push(`  at ${toRelativePath(failure.location.file, workspacePath)}:${failure.location.line}${column}`)
+    }
+    if (failure.message) {
+      lines.push(...failure.message.split('\n').filter(l => l.trim()).slice(0, 8).map(l => `  ${l}`))
+    }
+  }
+  if (failures.length > maxFailures) lines.push('', `... and ${failures.length - maxFailures} more failures`)
+  return lines.join('\n')
+}
+
+// ============ Store ============
+
+interface TestState {
+  frameworks: TestFramework[]
+  tests: TestCase[]
+  /** 用例 ID -> 状态 */
+  statuses: Record<string, TestStatus>
+  /** 用例 ID -> 最近一次结果 */
+  results: Record<string, TestResult>
+  isDiscovering: boolean
+  isRunning: boolean
+  lastRun: TestRunSummary | null
+}
+
+export const useTestStore = create<TestState>(() => ({
+  frameworks: [],
+  tests: [],
+  statuses: {},
+  results: {},
+  isDiscovering: false,
+  isRunning: false,
+  lastRun: null,
+}))
+
+// ============ 服务 ============
+
+function quote(arg: string): string {
+  const isWindows = typeof navigator !== 'undefined' && /^win/i.test(navigator.platform)
+  return isWindows ? `'${arg.replace(/'/g, "''")}'` : `'${arg.replace(/'/g, "'\\''")}'`
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+class TestService {
+  /**
+   * 检测框架并扫描全部测试用例
+   */
+  async discover(workspacePath: string): Promise<TestCase[]> {
+    useTestStore.setState({ isDiscovering: true })
+    try {
+      const frameworks = await detectTestFrameworks(workspacePath)
+      const tests: TestCase[] = []
+      const seenFiles = new Set<string>()
+
+      for (const framework of frameworks) {
+        const { include, query } = DISCOVERY[framework]
+        const matches = await api.file.search(query, workspacePath, { isRegex: true, isCaseSensitive: true, include })
+        const files = [...new Set(matches.map(m => m.path))].filter(f => !seenFiles.has(f))
+        for (const file of files) {
+          seenFiles.add(file)
+          const content = await api.file.read(file)
+          if (content) tests.push(...parseTestFile(content, file, framework))
+        }
+      }
+
+      const { statuses } = useTestStore.getState()
+      useTestStore.setState({
+        frameworks,
+        tests,
+        statuses: Object.fromEntries(tests.map(t => [t.id, statuses[t.id] || 'idle'])),
+      })
+      logger.system.info(`[TestService] Discovered ${tests.length} tests (${frameworks.join(', ') || 'no framework'})`)
+      return tests
+    } finally {
+      useTestStore.setState({ isDiscovering: false })
+    }
+  }
+
+  /**
+   * 重新扫描单个文件（文件保存后调用）
+   */
+  async rediscoverFile(filePath: string, content: string): Promise<void> {
+    const { tests, frameworks } = useTestStore.getState()
+    const framework = tests.find(t => t.file === filePath)?.framework || this.guessFramework(filePath, frameworks)
+    if (!framework) return
+    const updated = parseTestFile(content, filePath, framework)
+    useTestStore.setState({ tests: [...tests.filter(t => t.file !== filePath), ...updated] })
+  }
+
+  getTestsForFile(filePath: string): TestCase[] {
+    const target = normalizePath(filePath)
+    return useTestStore.getState().tests.filter(t => normalizePath(t.file) === target)
+  }
+
+  /**
+   * 查找与给定文件相关的测试文件：文件本身是测试文件，或测试文件名与源文件同名
+   * （foo.ts -> foo.test.ts / foo.spec.ts，foo.py -> test_foo.py，foo.go -> foo_test.go）
+   */
+  getRelatedTestFiles(filePaths: string[]): string[] {
+    const { tests } = useTestStore.getState()
+    const testFiles = [...new Set(tests.map(t => t.file))]
+    const stemOf = (file: string) => getFileName(file)
+      .replace(/\.[^.]+$/, '')
+      .replace(/\.(test|spec)$/, '')
+      .replace(/^test_|_test$/, '')
+
+    const related = new Set<string>()
+    for (const filePath of filePaths) {
+      const target = normalizePath(filePath)
+      const stem = stemOf(filePath)
+      for (const file of testFiles) {
+        if (normalizePath(file) === target || stemOf(file) === stem) related.add(file)
+      }
+    }
+    return [...related]
+  }
+
+  /**
+   * 运行测试并返回结构化结果
+   */
+  async run(workspacePath: string, options: TestRunOptions = {}): Promise<TestRunSummary> {
+    let { frameworks } = useTestStore.getState()
+    if (frameworks.length === 0) frameworks = await detectTestFrameworks(workspacePath)
+
+    const paths = (options.paths || []).map(p => toFullPath(p, workspacePath))
+    const framework = options.framework
+      || (paths.length ? this.guessFramework(paths[0], frameworks) : undefined)
+      || frameworks[0]
+    if (!framework) {
+      throw new Error('No supported test framework found (vitest, jest, mocha, pytest or go test)')
+    }
+
+    const reportPath = toFullPath(`${ADNIFY_DIR_NAME}/${ADNIFY_FILES.TEST_RESULTS_DIR}/${framework}.${framework === 'pytest' ? 'xml' : 'json'}`, workspacePath)
+    const command = this.buildCommand(framework, workspacePath, paths, options.testName, reportPath)
+
+    const affected = this.getAffectedTests(workspacePath, framework, paths, options.testName)
+    this.setStatuses(affected.map(t => t.id), 'running')
+    useTestStore.setState({ isRunning: true })
+
+    const startTime = Date.now()
+    try {
+      await api.file.ensureDir(getDirPath(reportPath))
+      await api.file.delete(reportPath)
+
+      const execution = await api.shell.executeBackground({
+        command,
+        cwd: workspacePath,
+        timeout: options.timeout || DEFAULT_TIMEOUT_MS,
+      })
+
+      const results = await this.parseResults(framework, workspacePath, reportPath, execution.output || '')
+      const summary: TestRunSummary = {
+        framework,
+        command,
+        exitCode: execution.exitCode,
+        passed: results.filter(r => r.status === 'passed').length,
+        failed: results.filter(r => r.status === 'failed').length,
+        skipped: results.filter(r => r.status === 'skipped').length,
+        durationMs: Date.now() - startTime,
+        results,
+        output: results.length === 0
+          ? stripAnsi([execution.output, execution.error].filter(Boolean).join('\n')).slice(-MAX_RAW_OUTPUT)
+          : undefined,
+      }
+
+      this.applyResults(affected, summary)
+      return summary
+    } catch (error) {
+      this.setStatuses(affected.map(t => t.id), 'idle')
+      throw error
+    } finally {
+      useTestStore.setState({ isRunning: false })
+    }
+  }
+
+  /**
+   * 仅匹配单个用例的名称过滤（各框架的 -t / --grep / -k / -run 语法不同）
+   */
+  getNameFilter(test: TestCase): string {
+    switch (test.framework) {
+      case 'pytest': {
+        const parts = test.fullName.split('::')
+        return parts.length > 1 ? `${parts[0]} and ${parts[parts.length - 1]}` : test.name
+      }
+      case 'go':
+        return `^${test.name}$`
+      default:
+        return `^${escapeRegExp(test.fullName)}$`
+    }
+  }
+
+  /**
+   * 在调试器中运行单个测试（由 DebugPanel 创建会话并同步断点）
+   */
+  debug(test: TestCase, workspacePath: string): void {
+    const config = this.getDebugConfig(test, workspacePath)
+    window.dispatchEvent(new CustomEvent('debug:startConfig', { detail: config }))
+  }
+
+  getDebugConfig(test: TestCase, workspacePath: string): { type: string; name: string; request: 'launch'; [key: string]: unknown } {
+    const name = `Debug Test: ${test.fullName}`
+    const pattern = `^${escapeRegExp(test.fullName)}$`
+    switch (test.framework) {
+      case 'vitest':
+        return { type: 'node', name, request: 'launch', cwd: workspacePath, program: toFullPath('node_modules/vitest/vitest.mjs', workspacePath), args: ['run', test.file, '-t', pattern, '--no-file-parallelism'] }
+      case 'jest':
+        return { type: 'node', name, request: 'launch', cwd: workspacePath, program: toFullPath('node_modules/jest/bin/jest.js', workspacePath), args: [test.file, '-t', pattern, '--runInBand'] }
+      case 'mocha':
+        return { type: 'node', name, request: 'launch', cwd: workspacePath, program: toFullPath('node_modules/mocha/bin/mocha.js', workspacePath), args: [test.file, '--grep', pattern] }
+      case 'pytest':
+        return { type: 'python', name, request: 'launch', cwd: workspacePath, module: 'pytest', args: [`${test.file}::${test.fullName}`] }
+      case 'go':
+        return { type: 'go', name, request: 'launch', mode: 'test', program: getDirPath(test.file), args: ['-test.run', `^${test.name}$`] }
+    }
+  }
+
+  private guessFramework(filePath: string, frameworks: TestFramework[]): TestFramework | undefined {
+    if (filePath.endsWith('.py')) return frameworks.includes('pytest') ? 'pytest' : undefined
+    if (filePath.endsWith('.go')) return frameworks.includes('go') ? 'go' : undefined
+    return frameworks.find(f => JS_FRAMEWORKS.includes(f))
+  }
+
+  private buildCommand(framework: TestFramework, workspacePath: string, paths: string[], testName: string | undefined, reportPath: string): string {
+    const relative = paths.map(p => quote(toRelativePath(p, workspacePath) || '.'))
+    const filter = testName ? quote(testName) : ''
+    switch (framework) {
+      case 'vitest':
+        return ['npx vitest run --reporter=json', `--outputFile=${quote(reportPath)}`, ...relative, filter && `-t ${filter}`].filter(Boolean).join(' ')
+      case 'jest':
+        return ['npx jest --json', `--outputFile=${quote(reportPath)}`, ...relative, filter && `-t ${filter}`].filter(Boolean).join(' ')
+      case 'mocha':
+        return ['npx mocha --reporter json', `--reporter-option output=${quote(reportPath)}`, ...relative, filter && `--grep ${filter}`].filter(Boolean).join(' ')
+      case 'pytest':
+        return ['python -m pytest -q', `--junitxml=${quote(reportPath)}`, ...relative, filter && `-k ${filter}`].filter(Boolean).join(' ')
+      case 'go': {
+        // go test 以包为单位，文件路径转换为所在目录
+        const packages = paths.length
+          ? [...new Set(paths.map(p => /\.go$/.test(p) ? getDirPath(p) : p))].map(p => quote(`./${toRelativePath(p, workspacePath)}`.replace(/\/$/, '')))
+          : ['./...']
+        return ['go test -json', ...packages, filter && `-run ${filter}`].filter(Boolean).join(' ')
+      }
+    }
+  }
+
+  private async parseResults(framework: TestFramework, workspacePath: string, reportPath: string, output: string): Promise<TestResult[]> {
+    if (framework === 'go') {
+      const results = parseGoTestOutput(output)
+      // 补全文件路径：报告中只有测试名和文件名
+      const { tests } = useTestStore.getState()
+      for (const result of results) {
+        const test = tests.find(t => t.framework === 'go' && t.name === result.fullName)
+        if (!test) continue
+        result.file = test.file
+        if (result.location) result.location.file = toFullPath(result.location.file, getDirPath(test.file))
+      }
+      return results
+    }
+
+    const report = await api.file.read(reportPath)
+    if (!report) return []
+    try {
+      if (framework === 'pytest') return parseJUnitReport(report, workspacePath)
+      const json = JSON.parse(report)
+      return framework === 'mocha' ? parseMochaReport(json, workspacePath) : parseJestReport(json, workspacePath)
+    } catch (error) {
+      logger.system.warn(`[TestService] Failed to parse ${framework} report:`, error)
+      return []
+    }
+  }
+
+  /** 本次运行可能覆盖的已发现用例 */
+  private getAffectedTests(workspacePath: string, framework: TestFramework, paths: string[], testName?: string): TestCase[] {
+    const targets = paths.map(normalizePath)
+    let nameFilter: { test(name: string): boolean } | null = null
+    if (testName && framework === 'pytest') {
+      // pytest -k 是关键字表达式，这里只处理 "a and b" 形式
+      const keywords = testName.split(/\s+and\s+/)
+      nameFilter = { test: name => keywords.every(k => name.includes(k)) }
+    } else if (testName) {
+      try {
+        nameFilter = new RegExp(testName)
+      } catch {
+        nameFilter = null
+      }
+    }
+    return useTestStore.getState().tests.filter(t => {
+      if (t.framework !== framework) return false
+      const file = normalizePath(t.file)
+      if (targets.length && !targets.some(p => file === p || file.startsWith(p.endsWith('/') ? p : `${p}/`))) return false
+      if (nameFilter && !nameFilter.test(t.fullName)) return false
+      return normalizePath(t.file).startsWith(normalizePath(workspacePath))
+    })
+  }
+
+  private setStatuses(ids: string[], status: TestStatus): void {
+    if (ids.length === 0) return
+    useTestStore.setState(state => ({
+      statuses: { ...state.statuses, ...Object.fromEntries(ids.map(id => [id, status])) },
+    }))
+  }
+
+  private applyResults(affected: TestCase[], summary: TestRunSummary): void {
+    const statuses: Record<string, TestStatus> = {}
+    const results: Record<string, TestResult> = {}
+    for (const test of affected) {
+      const result = summary.results.find(r =>
+        normalizePath(r.file) === normalizePath(test.file) && r.fullName === test.fullName
+      )
+      // 没有对应结果的用例（被过滤或未执行）恢复为空闲
+      statuses[test.id] = result ? result.status : 'idle'
+      if (result) results[test.id] = result
+    }
+    useTestStore.setState(state => ({
+      statuses: { ...state.statuses, ...statuses },
+      results: { ...state.results, ...results },
+      lastRun: summary,
+    }))
+  }
+}
+
+export const testService = new TestService()
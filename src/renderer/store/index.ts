@@ -15,10 +15,10 @@ import { DebugSlice, createDebugSlice } from './slices/debugSlice'
 
 // 导出类型
 export type { OpenFile, WorkspaceConfig } from './slices/fileSlice'
-export type { ProviderType, LLMConfig, LLMParameters, AutoApproveSettings, SecuritySettings } from './slices/settingsSlice'
+export type { ProviderType, LLMConfig, LLMParameters, AutoApproveSettings, SecuritySettings, LLMPurpose, ModelRoute, ModelRoutingConfig } from './slices/settingsSlice'
 export type { ProviderModelConfig } from '@app-types/provider'
 export type { SidePanel, DiffView } from './slices/uiSlice'
-export type { ThemeName } from './slices/themeSlice'
+export type { ThemeName, BuiltinThemeName } from './slices/themeSlice'
 export type { ToolCallLogEntry } from './slices/logSlice'
 export type { McpSlice } from './slices/mcpSlice'
 export type { DebugSlice, Breakpoint } from './slices/debugSlice'
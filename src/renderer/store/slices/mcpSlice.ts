@@ -17,7 +17,7 @@ export interface McpSlice {
   setMcpInitialized: (initialized: boolean) => void
   setMcpLoading: (loading: boolean) => void
   setMcpError: (error: string | null) => void
-  updateMcpServerStatus: (serverId: string, status: string, error?: string) => void
+  updateMcpServerStatus: (serverId: string, status: string, error?: string, reconnectAttempt?: number) => void
   updateMcpServerTools: (serverId: string, tools: McpTool[]) => void
   updateMcpServerResources: (serverId: string, resources: McpResource[]) => void
 
@@ -44,10 +44,10 @@ export const createMcpSlice: StateCreator<McpSlice, [], [], McpSlice> = (set, ge
   
   setMcpError: (error) => set({ mcpError: error }),
 
-  updateMcpServerStatus: (serverId, status, error) => set((state) => ({
+  updateMcpServerStatus: (serverId, status, error, reconnectAttempt) => set((state) => ({
     mcpServers: state.mcpServers.map(server =>
       server.id === serverId
-        ? { ...server, status: status as any, error }
+        ? { ...server, status: status as any, error, reconnectAttempt }
         : server
     ),
   })),
@@ -14,16 +14,20 @@ import {
   type LLMParameters,
   type AutoApproveSettings as ServiceAutoApprove,
   type AgentConfig as ServiceAgentConfig,
+  type LLMPurpose,
+  type ModelRoute,
+  type ModelRoutingConfig,
   defaultLLMConfig as serviceDefaultLLMConfig,
   defaultAutoApprove as serviceDefaultAutoApprove,
   defaultAgentConfig as serviceDefaultAgentConfig,
 } from '@services/settingsService'
+import { DEFAULT_COST_SETTINGS, type CostSettings } from '@services/costService'
 
 // ============ 导出类型 ============
 
 export type ProviderType = string
 
-export type { LLMParameters }
+export type { LLMParameters, LLMPurpose, ModelRoute, ModelRoutingConfig }
 
 // LLMConfig 扩展 ServiceLLMConfig
 export interface LLMConfig extends ServiceLLMConfig {
@@ -61,6 +65,8 @@ export interface SettingsSlice {
   onboardingCompleted: boolean
   hasExistingConfig: boolean
   aiInstructions: string
+  modelRouting: ModelRoutingConfig
+  costSettings: CostSettings
 
   setLLMConfig: (config: Partial<LLMConfig>) => void
   setLanguage: (lang: 'en' | 'zh') => void
@@ -77,6 +83,9 @@ export interface SettingsSlice {
   setOnboardingCompleted: (completed: boolean) => void
   setHasExistingConfig: (hasConfig: boolean) => void
   setAiInstructions: (instructions: string) => void
+  setModelRouting: (routing: ModelRoutingConfig) => void
+  setModelRoute: (purpose: LLMPurpose, route: ModelRoute | undefined) => void
+  setCostSettings: (settings: Partial<CostSettings>) => void
   loadSettings: (isEmptyWindow?: boolean) => Promise<void>
   
   // 自定义厂商便捷方法
@@ -138,6 +147,8 @@ export const createSettingsSlice: StateCreator<SettingsSlice, [], [], SettingsSl
   onboardingCompleted: true,
   hasExistingConfig: true,
   aiInstructions: '',
+  modelRouting: {},
+  costSettings: DEFAULT_COST_SETTINGS,
 
   setLLMConfig: (config) =>
     set((state) => {
@@ -228,6 +239,18 @@ export const createSettingsSlice: StateCreator<SettingsSlice, [], [], SettingsSl
   setOnboardingCompleted: (completed) => set({ onboardingCompleted: completed }),
   setHasExistingConfig: (hasConfig) => set({ hasExistingConfig: hasConfig }),
   setAiInstructions: (instructions) => set({ aiInstructions: instructions }),
+  setModelRouting: (routing) => set({ modelRouting: routing }),
+
+  setModelRoute: (purpose, route) =>
+    set((state) => {
+      const { [purpose]: _, ...rest } = state.modelRouting
+      return { modelRouting: route ? { ...rest, [purpose]: route } : rest }
+    }),
+
+  setCostSettings: (settings) =>
+    set((state) => ({
+      costSettings: { ...state.costSettings, ...settings },
+    })),
 
   loadSettings: async (_isEmptyWindow = false) => {
     try {
@@ -258,6 +281,8 @@ export const createSettingsSlice: StateCreator<SettingsSlice, [], [], SettingsSl
         onboardingCompleted: settings.onboardingCompleted ?? !!settings.llmConfig?.apiKey,
         hasExistingConfig: !!settings.llmConfig?.apiKey,
         aiInstructions: settings.aiInstructions || '',
+        modelRouting: settings.modelRouting || {},
+        costSettings: settings.costSettings || DEFAULT_COST_SETTINGS,
         editorConfig: getEditorConfig(),
       })
     } catch (e) {
@@ -1,6 +1,9 @@
 import { StateCreator } from 'zustand'
 
-export type ThemeName = 'adnify-dark' | 'midnight' | 'dawn' | 'cyberpunk';
+export type BuiltinThemeName = 'adnify-dark' | 'midnight' | 'dawn' | 'cyberpunk';
+
+/** 内置主题名，或导入主题（themeConfig 中的自定义主题）的 ID */
+export type ThemeName = BuiltinThemeName | (string & {});
 
 export interface ThemeSlice {
     currentTheme: ThemeName;
@@ -4,7 +4,7 @@
 import { StateCreator } from 'zustand'
 import { GitStatus } from '@renderer/agent/services/gitService'
 
-export type SidePanel = 'explorer' | 'search' | 'git' | 'problems' | 'outline' | 'history' | 'extensions' | null
+export type SidePanel = 'explorer' | 'search' | 'git' | 'problems' | 'outline' | 'history' | 'tests' | 'extensions' | null
 
 export interface DiffView {
   original: string
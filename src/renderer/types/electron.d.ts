@@ -3,6 +3,7 @@
  */
 
 import type {
+  McpServerConfig,
   McpServerState,
   McpTool,
   McpToolCallRequest,
@@ -15,6 +16,7 @@ import type {
   McpToolsUpdatedEvent,
   McpResourcesUpdatedEvent,
 } from '@shared/types/mcp'
+import type { PermissionPolicyConfig, AgentFileOptions } from '@shared/config/permissionPolicy'
 
 // MCP 工具带服务器信息
 export interface McpToolWithServer extends McpTool {
@@ -54,6 +56,8 @@ export interface LLMResult {
     promptTokens: number
     completionTokens: number
     totalTokens: number
+    cacheReadTokens?: number
+    cacheWriteTokens?: number
   }
 }
 
@@ -157,6 +161,13 @@ export interface WorkspaceConfig {
   roots: string[]
 }
 
+export interface ModelLoadProgress {
+  model: string
+  status: 'downloading' | 'loading' | 'ready'
+  progress: number
+  file?: string
+}
+
 export interface IndexStatus {
   isIndexing: boolean
   totalFiles: number
@@ -164,6 +175,7 @@ export interface IndexStatus {
   totalChunks: number
   lastIndexedAt?: number
   error?: string
+  modelProgress?: ModelLoadProgress
 }
 
 export interface IndexSearchResult {
@@ -175,6 +187,31 @@ export interface IndexSearchResult {
   score: number
   type: string
   language: string
+  symbols?: string[]
+  rerankScore?: number
+  rerankReasons?: string[]
+  related?: SymbolLocationData[]
+}
+
+export interface SymbolLocationData {
+  name: string
+  filePath: string
+  relativePath: string
+  line: number
+  kind?: string
+  caller?: string
+}
+
+export interface SymbolCalleesData {
+  definition: SymbolLocationData
+  callees: Array<{ name: string; line: number; definitions: SymbolLocationData[] }>
+}
+
+export interface ImportGraphData {
+  root: string
+  imports: Array<{ from: string; to: string; source: string }>
+  importedBy: Array<{ from: string; to: string; source: string }>
+  external: string[]
 }
 
 export interface EmbeddingProvider {
@@ -185,11 +222,21 @@ export interface EmbeddingProvider {
 }
 
 export interface EmbeddingConfigInput {
-  provider?: 'jina' | 'voyage' | 'openai' | 'cohere' | 'huggingface' | 'ollama' | 'custom'
+  provider?: 'jina' | 'voyage' | 'openai' | 'cohere' | 'huggingface' | 'ollama' | 'local' | 'custom'
   apiKey?: string
   model?: string
   baseUrl?: string
   dimensions?: number
+  batchSize?: number
+}
+
+export interface RerankConfigInput {
+  provider?: 'none' | 'heuristic' | 'jina' | 'cohere' | 'voyage' | 'ollama' | 'custom'
+  apiKey?: string
+  model?: string
+  baseUrl?: string
+  candidates?: number
+  timeoutMs?: number
 }
 
 // Debug types
@@ -299,14 +346,14 @@ export interface ElectronAPI {
   getFileTree: (path: string, maxDepth?: number) => Promise<string>
   readFile: (path: string) => Promise<string | null>
   readBinaryFile: (path: string) => Promise<string | null>
-  writeFile: (path: string, content: string) => Promise<boolean>
+  writeFile: (path: string, content: string, options?: AgentFileOptions) => Promise<boolean>
   ensureDir: (path: string) => Promise<boolean>
   saveFile: (content: string, path?: string) => Promise<string | null>
   fileExists: (path: string) => Promise<boolean>
   showItemInFolder: (path: string) => Promise<void>
-  mkdir: (path: string) => Promise<boolean>
-  deleteFile: (path: string) => Promise<boolean>
-  renameFile: (oldPath: string, newPath: string) => Promise<boolean>
+  mkdir: (path: string, options?: AgentFileOptions) => Promise<boolean>
+  deleteFile: (path: string, options?: AgentFileOptions) => Promise<boolean>
+  renameFile: (oldPath: string, newPath: string, options?: AgentFileOptions) => Promise<boolean>
   searchFiles: (query: string, rootPath: string | string[], options?: SearchFilesOptions) => Promise<SearchFileResult[]>
 
   // Settings
@@ -320,7 +367,7 @@ export interface ElectronAPI {
 
   // LLM
   sendMessage: (params: LLMSendMessageParams) => Promise<void>
-  compactContext: (params: LLMSendMessageParams) => Promise<{ content: string; error?: string }>
+  compactContext: (params: LLMSendMessageParams) => Promise<{ content: string; usage?: LLMResult['usage']; error?: string; errorCode?: string }>
   abortMessage: () => void
   invalidateProviders: () => Promise<void>
   invalidateProvider: (providerId: string) => Promise<void>
@@ -369,6 +416,7 @@ export interface ElectronAPI {
   clearAuditLogs: () => Promise<boolean>
   getPermissions: () => Promise<Record<string, string>>
   resetPermissions: () => Promise<boolean>
+  getPermissionPolicy: (workspacePath: string) => Promise<PermissionPolicyConfig>
 
   onFileChanged: (callback: (event: { event: 'create' | 'update' | 'delete'; path: string }) => void) => () => void
 
@@ -378,10 +426,14 @@ export interface ElectronAPI {
   indexStatus: (workspacePath: string) => Promise<IndexStatus>
   indexHasIndex: (workspacePath: string) => Promise<boolean>
   indexSearch: (workspacePath: string, query: string, topK?: number) => Promise<IndexSearchResult[]>
-  indexHybridSearch: (workspacePath: string, query: string, topK?: number) => Promise<IndexSearchResult[]>
+  indexHybridSearch: (workspacePath: string, query: string, topK?: number, options?: { activeFile?: string }) => Promise<IndexSearchResult[]>
   indexUpdateFile: (workspacePath: string, filePath: string) => Promise<{ success: boolean; error?: string }>
   indexClear: (workspacePath: string) => Promise<{ success: boolean; error?: string }>
   indexUpdateEmbeddingConfig: (workspacePath: string, config: EmbeddingConfigInput) => Promise<{ success: boolean; error?: string }>
+  indexUpdateRerankConfig: (workspacePath: string, config: RerankConfigInput) => Promise<{ success: boolean; error?: string }>
+  indexGetCallers: (workspacePath: string, symbol: string, filePath?: string) => Promise<SymbolLocationData[] | null>
+  indexGetCallees: (workspacePath: string, symbol: string, filePath?: string) => Promise<SymbolCalleesData[] | null>
+  indexGetImportGraph: (workspacePath: string, filePath: string, direction?: 'imports' | 'importedBy' | 'both', depth?: number) => Promise<ImportGraphData | null>
   indexTestConnection: (workspacePath: string) => Promise<{ success: boolean; error?: string; latency?: number }>
   indexGetProviders: () => Promise<EmbeddingProvider[]>
   onIndexProgress: (callback: (status: IndexStatus) => void) => () => void
@@ -446,15 +498,7 @@ export interface ElectronAPI {
   mcpRefreshCapabilities: (serverId: string) => Promise<{ success: boolean; error?: string }>
   mcpGetConfigPaths: () => Promise<{ success: boolean; paths?: { user: string; workspace: string[] }; error?: string }>
   mcpReloadConfig: () => Promise<{ success: boolean; error?: string }>
-  mcpAddServer: (config: {
-    id: string
-    name: string
-    command: string
-    args: string[]
-    env: Record<string, string>
-    autoApprove: string[]
-    disabled: boolean
-  }) => Promise<{ success: boolean; error?: string }>
+  mcpAddServer: (config: McpServerConfig) => Promise<{ success: boolean; error?: string }>
   mcpRemoveServer: (serverId: string) => Promise<{ success: boolean; error?: string }>
   mcpToggleServer: (serverId: string, disabled: boolean) => Promise<{ success: boolean; error?: string }>
   onMcpServerStatus: (callback: (event: McpServerStatusEvent) => void) => () => void
@@ -0,0 +1,116 @@
+/**
+ * 提交图工具模块
+ * 根据提交的父子关系计算分支 / 合并泳道布局，并解析 git log 的引用装饰（%D）
+ */
+
+/** 连线：从 from 泳道到 to 泳道，颜色取连线所属泳道 */
+export interface GitGraphEdge {
+  from: number
+  to: number
+  color: number
+}
+
+/** 提交图中的一行 */
+export interface GitGraphRow {
+  hash: string
+  /** 提交节点所在泳道 */
+  column: number
+  color: number
+  /** 上半部分连线：行顶部的泳道 → 行中部 */
+  top: GitGraphEdge[]
+  /** 下半部分连线：行中部 → 行底部的泳道 */
+  bottom: GitGraphEdge[]
+}
+
+export interface GitGraphLayout {
+  rows: GitGraphRow[]
+  /** 所有行中使用的最大泳道数 */
+  columns: number
+}
+
+/** 泳道颜色数量，由渲染方映射到具体颜色 */
+export const GRAPH_COLOR_COUNT = 8
+
+/**
+ * 计算提交图布局
+ * 提交需按拓扑顺序排列（子提交在前），父提交不在列表中时泳道延续到底部
+ */
+export function computeGraphLayout(commits: { hash: string; parents?: string[] }[]): GitGraphLayout {
+  // 每条泳道等待的下一个提交
+  let lanes: (string | null)[] = []
+  const rows: GitGraphRow[] = []
+  let columns = 0
+
+  const colorOf = (lane: number) => lane % GRAPH_COLOR_COUNT
+  const freeLane = (list: (string | null)[], exclude?: number) => {
+    const index = list.findIndex((hash, i) => hash === null && i !== exclude)
+    return index === -1 ? Math.max(list.length, exclude === undefined ? 0 : exclude + 1) : index
+  }
+
+  for (const commit of commits) {
+    const before = lanes
+    let column = before.indexOf(commit.hash)
+    if (column === -1) column = freeLane(before)
+
+    // 上半部分：指向本提交的泳道汇入节点，其余泳道直行
+    const top: GitGraphEdge[] = []
+    before.forEach((hash, lane) => {
+      if (hash !== null) top.push({ from: lane, to: hash === commit.hash ? column : lane, color: colorOf(lane) })
+    })
+
+    // 下半部分：第一个父提交沿用节点泳道，其余父提交复用已在等待的泳道或占用空闲泳道
+    const after = before.map(hash => (hash === commit.hash ? null : hash))
+    const parents = commit.parents || []
+    const bottom: GitGraphEdge[] = []
+    after.forEach((hash, lane) => {
+      if (hash !== null) bottom.push({ from: lane, to: lane, color: colorOf(lane) })
+    })
+
+    parents.forEach((parent, index) => {
+      // 多条泳道等待同一父提交时，在父提交所在行汇合
+      let lane = index === 0 ? column : after.indexOf(parent)
+      if (lane === -1) lane = freeLane(after, column)
+      if (after[lane] !== parent) {
+        while (after.length <= lane) after.push(null)
+        after[lane] = parent
+      }
+      bottom.push({ from: column, to: lane, color: colorOf(lane) })
+    })
+
+    while (after.length > 0 && after[after.length - 1] === null) after.pop()
+    columns = Math.max(columns, before.length, after.length, column + 1)
+    rows.push({ hash: commit.hash, column, color: colorOf(column), top, bottom })
+    lanes = after
+  }
+
+  return { rows, columns }
+}
+
+/** 提交上的引用 */
+export interface GitRef {
+  name: string
+  type: 'head' | 'branch' | 'remote' | 'tag'
+}
+
+/**
+ * 解析 git log 的 %D 输出，如 "HEAD -> main, origin/main, tag: v1.0"
+ * @param remotes 远程名称，用于区分远程分支
+ */
+export function parseRefDecorations(decorations: string, remotes: string[] = ['origin']): GitRef[] {
+  const refs: GitRef[] = []
+  for (const part of decorations.split(',').map(p => p.trim()).filter(Boolean)) {
+    if (part.startsWith('HEAD -> ')) {
+      refs.push({ name: 'HEAD', type: 'head' }, { name: part.slice(8), type: 'branch' })
+    } else if (part === 'HEAD') {
+      refs.push({ name: 'HEAD', type: 'head' })
+    } else if (part.startsWith('tag: ')) {
+      refs.push({ name: part.slice(5), type: 'tag' })
+    } else if (part.endsWith('/HEAD')) {
+      continue
+    } else {
+      const isRemote = remotes.some(remote => part.startsWith(`${remote}/`))
+      refs.push({ name: part, type: isRemote ? 'remote' : 'branch' })
+    }
+  }
+  return refs
+}
@@ -0,0 +1,159 @@
+/**
+ * Git 变更块（hunk）工具模块
+ * 计算两个版本之间的变更块、生成只包含单个变更块的补丁（供 git apply --cached 使用），
+ * 以及编辑器中的行号映射与还原
+ */
+
+import * as Diff from 'diff'
+
+/** 变更块，行号均为 0 起始；行内容不含换行符 */
+export interface GitHunk {
+    oldStart: number
+    oldLines: string[]
+    newStart: number
+    newLines: string[]
+}
+
+export type GitHunkKind = 'added' | 'deleted' | 'modified'
+
+/** 补丁中的上下文行数 */
+const PATCH_CONTEXT_LINES = 3
+
+/**
+ * 按行拆分文本，eol 表示最后一行是否以换行结尾
+ */
+export function splitLines(text: string): { lines: string[]; eol: boolean } {
+    if (!text) return { lines: [], eol: true }
+    const lines = text.split('\n')
+    const eol = lines[lines.length - 1] === ''
+    if (eol) lines.pop()
+    return { lines, eol }
+}
+
+/**
+ * 计算 oldText → newText 的变更块
+ * 最后一行的换行符差异也视为变更（与 git diff 一致）
+ */
+export function computeHunks(oldText: string, newText: string): GitHunk[] {
+    const hunks: GitHunk[] = []
+    let current: GitHunk | null = null
+    let oldIndex = 0
+    let newIndex = 0
+
+    for (const change of Diff.diffLines(oldText, newText)) {
+        const lines = splitLines(change.value).lines
+        if (!change.added && !change.removed) {
+            if (current) hunks.push(current)
+            current = null
+            oldIndex += lines.length
+            newIndex += lines.length
+            continue
+        }
+
+        current ??= { oldStart: oldIndex, oldLines: [], newStart: newIndex, newLines: [] }
+        if (change.removed) {
+            current.oldLines.push(...lines)
+            oldIndex += lines.length
+        } else {
+            current.newLines.push(...lines)
+            newIndex += lines.length
+        }
+    }
+
+    if (current) hunks.push(current)
+    return hunks
+}
+
+export function getHunkKind(hunk: GitHunk): GitHunkKind {
+    if (hunk.oldLines.length === 0) return 'added'
+    if (hunk.newLines.length === 0) return 'deleted'
+    return 'modified'
+}
+
+/**
+ * 生成只应用单个变更块的补丁（旧版本 + 该变更块），上下文取自旧版本
+ * 反向应用（git apply --reverse）即可撤销该变更块
+ */
+export function buildHunkPatch(filePath: string, oldText: string, newText: string, hunk: GitHunk): string {
+    const oldFile = splitLines(oldText)
+    const oldEnd = hunk.oldStart + hunk.oldLines.length
+    const before = oldFile.lines.slice(Math.max(0, hunk.oldStart - PATCH_CONTEXT_LINES), hunk.oldStart)
+    const after = oldFile.lines.slice(oldEnd, oldEnd + PATCH_CONTEXT_LINES)
+    const reachesEnd = oldEnd + after.length === oldFile.lines.length
+    // 变更块位于文件末尾时，新版本的末尾换行取决于 newText
+    const newEol = oldEnd === oldFile.lines.length ? splitLines(newText).eol : oldFile.eol
+    const noNewline = '\\ No newline at end of file'
+
+    const start = hunk.oldStart - before.length
+    const oldCount = before.length + hunk.oldLines.length + after.length
+    const newCount = before.length + hunk.newLines.length + after.length
+    const range = (count: number) => `${count === 0 ? start : start + 1},${count}`
+
+    const path = filePath.replace(/\\/g, '/')
+    const body = [
+        `--- a/${path}`,
+        `+++ b/${path}`,
+        `@@ -${range(oldCount)} +${range(newCount)} @@`,
+        ...before.map(line => ` ${line}`),
+        ...hunk.oldLines.map(line => `-${line}`),
+    ]
+    if (after.length === 0 && hunk.oldLines.length > 0 && reachesEnd && !oldFile.eol) body.push(noNewline)
+    body.push(...hunk.newLines.map(line => `+${line}`))
+    if (after.length === 0 && hunk.newLines.length > 0 && reachesEnd && !newEol) body.push(noNewline)
+    body.push(...after.map(line => ` ${line}`))
+    if (after.length > 0 && reachesEnd && !oldFile.eol) body.push(noNewline)
+
+    return body.join('\n') + '\n'
+}
+
+/**
+ * 将旧版本的行号（0 起始）映射到新版本；位于变更块内的行映射到变更块起始行
+ */
+export function mapLineThroughHunks(line: number, hunks: GitHunk[]): number {
+    let delta = 0
+    for (const hunk of hunks) {
+        if (line < hunk.oldStart) break
+        if (line < hunk.oldStart + hunk.oldLines.length) return hunk.newStart
+        delta += hunk.newLines.length - hunk.oldLines.length
+    }
+    return line + delta
+}
+
+/**
+ * 变更块在新版本中的显示范围（1 起始）；删除块显示在被删除内容的上一行
+ * @param mapLine 将新版本行号继续映射到编辑器行号（如暂存区 → 工作区）
+ */
+export function getHunkLineRange(hunk: GitHunk, mapLine: (line: number) => number = line => line): { startLineNumber: number; endLineNumber: number } {
+    const start = mapLine(hunk.newStart)
+    if (hunk.newLines.length === 0) {
+        const line = Math.max(1, start)
+        return { startLineNumber: line, endLineNumber: line }
+    }
+    return { startLineNumber: start + 1, endLineNumber: start + hunk.newLines.length }
+}
+
+/**
+ * 还原单个变更块后的新版本内容
+ */
+export function revertHunk(oldText: string, newText: string, hunk: GitHunk): string {
+    const newFile = splitLines(newText)
+    const newEnd = hunk.newStart + hunk.newLines.length
+    // 变更块位于文件末尾时一并还原末尾换行
+    const eol = newEnd === newFile.lines.length ? splitLines(oldText).eol : newFile.eol
+    const lines = [...newFile.lines.slice(0, hunk.newStart), ...hunk.oldLines, ...newFile.lines.slice(newEnd)]
+    return lines.length === 0 ? '' : lines.join('\n') + (eol ? '\n' : '')
+}
+
+/**
+ * 两段文本之间的最小替换（公共前后缀之外的部分），用于生成编辑器编辑操作
+ */
+export function getMinimalEdit(from: string, to: string): { start: number; end: number; text: string } {
+    let start = 0
+    const max = Math.min(from.length, to.length)
+    while (start < max && from[start] === to[start]) start++
+
+    let suffix = 0
+    while (suffix < max - start && from[from.length - 1 - suffix] === to[to.length - 1 - suffix]) suffix++
+
+    return { start, end: from.length - suffix, text: to.slice(start, to.length - suffix) }
+}
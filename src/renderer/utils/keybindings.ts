@@ -0,0 +1,286 @@
+/**
+ * 快捷键工具模块
+ * 快捷键字符串的规范化与按键匹配、多段组合键（chord）、when 上下文表达式求值，
+ * 以及 VS Code keybindings.json 的解析与命令映射
+ */
+
+import { parseJsonc } from '@shared/utils/jsonUtils'
+
+/** 单次按键：修饰键 + 键名，均为小写 */
+export interface KeyStroke {
+    ctrl: boolean
+    shift: boolean
+    alt: boolean
+    meta: boolean
+    key: string
+}
+
+/** 可比较冲突的快捷键 */
+export interface BindingLike {
+    key: string
+    when?: string
+}
+
+/** VS Code keybindings.json 中的一项 */
+export interface VSCodeKeybinding {
+    key: string
+    command: string
+    when?: string
+}
+
+type KeyEventLike = Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'shiftKey' | 'altKey' | 'metaKey'>
+
+const MODIFIER_ALIASES: Record<string, keyof Omit<KeyStroke, 'key'>> = {
+    ctrl: 'ctrl', control: 'ctrl',
+    shift: 'shift',
+    alt: 'alt', option: 'alt',
+    meta: 'meta', cmd: 'meta', command: 'meta', win: 'meta', super: 'meta',
+}
+
+const KEY_ALIASES: Record<string, string> = {
+    up: 'arrowup', down: 'arrowdown', left: 'arrowleft', right: 'arrowright',
+    esc: 'escape', return: 'enter', del: 'delete', ' ': 'space',
+}
+
+const KEY_DISPLAY: Record<string, string> = {
+    arrowup: 'ArrowUp', arrowdown: 'ArrowDown', arrowleft: 'ArrowLeft', arrowright: 'ArrowRight',
+    pageup: 'PageUp', pagedown: 'PageDown',
+}
+
+// 按物理键位识别的按键，避免 Shift 改变 e.key（如 Shift+` 得到 ~）
+const CODE_KEYS: Record<string, string> = {
+    Backquote: '`', Minus: '-', Equal: '=', BracketLeft: '[', BracketRight: ']',
+    Backslash: '\\', Semicolon: ';', Quote: "'", Comma: ',', Period: '.', Slash: '/', Space: 'space',
+}
+
+const MODIFIER_KEYS = new Set(['control', 'shift', 'alt', 'meta'])
+
+/**
+ * 解析单次按键，如 "Ctrl+Shift+P"、"cmd+k"
+ */
+export function parseKeyStroke(stroke: string): KeyStroke | null {
+    // 末尾的 "+" 本身可以是键名（如 "Ctrl++"）
+    const parts = stroke.toLowerCase().split(/\+(?!$)/)
+    const result: KeyStroke = { ctrl: false, shift: false, alt: false, meta: false, key: '' }
+    parts.forEach((part, i) => {
+        const modifier = MODIFIER_ALIASES[part]
+        if (modifier && i < parts.length - 1) {
+            result[modifier] = true
+        } else {
+            result.key = KEY_ALIASES[part] ?? part
+        }
+    })
+    return result.key ? result : null
+}
+
+/**
+ * 解析快捷键（空格分隔多段组合键），无效时返回空数组
+ */
+export function parseKeybinding(binding: string): KeyStroke[] {
+    const strokes = binding.trim().split(/\s+/).filter(Boolean).map(parseKeyStroke)
+    return strokes.every(Boolean) ? strokes as KeyStroke[] : []
+}
+
+/**
+ * 格式化为统一的显示形式，如 "Ctrl+K Ctrl+S"
+ */
+export function formatKeybinding(binding: string | KeyStroke[]): string {
+    const strokes = typeof binding === 'string' ? parseKeybinding(binding) : binding
+    return strokes.map(s => {
+        const parts: string[] = []
+        if (s.ctrl) parts.push('Ctrl')
+        if (s.shift) parts.push('Shift')
+        if (s.alt) parts.push('Alt')
+        if (s.meta) parts.push('Meta')
+        parts.push(KEY_DISPLAY[s.key] ?? (s.key.length === 1 ? s.key.toUpperCase() : s.key[0].toUpperCase() + s.key.slice(1)))
+        return parts.join('+')
+    }).join(' ')
+}
+
+function codeKey(e: KeyEventLike): string | undefined {
+    if (/^Key[A-Z]$/.test(e.code)) return e.code.slice(3).toLowerCase()
+    if (/^Digit\d$/.test(e.code)) return e.code.slice(5)
+    return CODE_KEYS[e.code]
+}
+
+/**
+ * 将键盘事件转换为按键；只按下修饰键时返回 null
+ */
+export function eventToKeyStroke(e: KeyEventLike): KeyStroke | null {
+    const key = e.key.toLowerCase()
+    if (MODIFIER_KEYS.has(key)) return null
+    return {
+        ctrl: e.ctrlKey,
+        shift: e.shiftKey,
+        alt: e.altKey,
+        meta: e.metaKey,
+        key: codeKey(e) ?? KEY_ALIASES[key] ?? key,
+    }
+}
+
+/**
+ * 按键是否与键盘事件匹配
+ * 键名既可以是物理键位（"Ctrl+Shift+`"），也可以是输入的字符（"?"，此时忽略 Shift）
+ */
+export function strokeMatchesEvent(stroke: KeyStroke, e: KeyEventLike): boolean {
+    if (stroke.ctrl !== e.ctrlKey || stroke.alt !== e.altKey || stroke.meta !== e.metaKey) return false
+
+    const eventKey = e.key.toLowerCase()
+    if ((stroke.key === codeKey(e) || stroke.key === (KEY_ALIASES[eventKey] ?? eventKey)) && stroke.shift === e.shiftKey) {
+        return true
+    }
+    // 直接绑定到符号字符（未写 Shift），Shift 已体现在字符中
+    return !stroke.shift && stroke.key.length === 1 && !/[a-z0-9]/.test(stroke.key) && stroke.key === e.key
+}
+
+function strokesEqual(a: KeyStroke, b: KeyStroke): boolean {
+    return a.key === b.key && a.ctrl === b.ctrl && a.shift === b.shift && a.alt === b.alt && a.meta === b.meta
+}
+
+function normalizeWhen(when?: string): string {
+    return (when ?? '').replace(/\s+/g, '')
+}
+
+/**
+ * 两个快捷键是否冲突：按键序列相同或一方是另一方的前缀，且 when 条件相同
+ * 不同的 when 条件视为有意在不同上下文中复用同一快捷键
+ */
+export function keybindingsConflict(a: BindingLike, b: BindingLike): boolean {
+    if (normalizeWhen(a.when) !== normalizeWhen(b.when)) return false
+    const sa = parseKeybinding(a.key)
+    const sb = parseKeybinding(b.key)
+    if (sa.length === 0 || sb.length === 0) return false
+    const length = Math.min(sa.length, sb.length)
+    for (let i = 0; i < length; i++) {
+        if (!strokesEqual(sa[i], sb[i])) return false
+    }
+    return true
+}
+
+// ==================== when 表达式 ====================
+
+type Token = { type: 'op' | 'word' | 'string'; value: string }
+
+function tokenize(expr: string): Token[] {
+    const tokens: Token[] = []
+    const re = /\s*(?:(&&|\|\||==|!=|!|\(|\))|'([^']*)'|"([^"]*)"|([^\s&|=!()'"]+))/y
+    let pos = 0
+    while (expr.slice(pos).trim()) {
+        re.lastIndex = pos
+        const match = re.exec(expr)
+        if (!match) throw new Error(`Unexpected token in "${expr}"`)
+        pos = re.lastIndex
+        if (match[1]) tokens.push({ type: 'op', value: match[1] })
+        else if (match[4]) tokens.push({ type: 'word', value: match[4] })
+        else tokens.push({ type: 'string', value: match[2] ?? match[3] })
+    }
+    return tokens
+}
+
+/**
+ * 计算 when 表达式，支持 !、&&、||、==、!= 与括号
+ * 未设置的上下文视为 false；表达式为空时恒为 true，语法错误时为 false
+ */
+export function evaluateWhen(expr: string | undefined, getContext: (key: string) => unknown): boolean {
+    if (!expr?.trim()) return true
+
+    let tokens: Token[]
+    try {
+        tokens = tokenize(expr)
+    } catch {
+        return false
+    }
+    let pos = 0
+    const peek = () => tokens[pos]
+    const take = (value?: string) => {
+        const token = tokens[pos]
+        if (!token || (value !== undefined && token.value !== value)) throw new Error(`Expected "${value}" in "${expr}"`)
+        pos++
+        return token
+    }
+
+    const parseOr = (): boolean => {
+        let result = parseAnd()
+        while (peek()?.value === '||') {
+            take()
+            result = parseAnd() || result
+        }
+        return result
+    }
+    const parseAnd = (): boolean => {
+        let result = parseUnary()
+        while (peek()?.value === '&&') {
+            take()
+            result = parseUnary() && result
+        }
+        return result
+    }
+    const parseUnary = (): boolean => {
+        const token = take()
+        if (token.type === 'op' && token.value === '!') return !parseUnary()
+        if (token.type === 'op' && token.value === '(') {
+            const result = parseOr()
+            take(')')
+            return result
+        }
+        if (token.type !== 'word') throw new Error(`Unexpected "${token.value}" in "${expr}"`)
+
+        if (token.value === 'true') return true
+        if (token.value === 'false') return false
+        const value = getContext(token.value)
+        const op = peek()?.value
+        if (op === '==' || op === '!=') {
+            take()
+            const equal = String(value ?? '') === take().value
+            return op === '==' ? equal : !equal
+        }
+        return !!value
+    }
+
+    try {
+        const result = parseOr()
+        return pos === tokens.length && result
+    } catch {
+        return false
+    }
+}
+
+// ==================== VS Code 导入 ====================
+
+/** VS Code 命令 ID 到本项目命令 ID 的映射（同名命令直接沿用） */
+export const VSCODE_COMMAND_MAP: Record<string, string> = {
+    'workbench.action.files.save': 'file.save',
+    'workbench.action.files.openFile': 'file.open',
+    'workbench.action.toggleSidebarVisibility': 'view.toggleSidebar',
+    'workbench.action.terminal.toggleTerminal': 'view.toggleTerminal',
+    'workbench.view.debug': 'view.toggleDebug',
+    'actions.find': 'editor.find',
+    'editor.action.startFindReplaceAction': 'editor.replace',
+    'workbench.action.terminal.new': 'terminal.new',
+    'workbench.action.debug.start': 'debug.start',
+    'workbench.action.debug.stop': 'debug.stop',
+    'workbench.action.debug.stepOver': 'debug.stepOver',
+    'workbench.action.debug.stepInto': 'debug.stepInto',
+    'workbench.action.debug.stepOut': 'debug.stepOut',
+    'editor.debug.action.toggleBreakpoint': 'debug.toggleBreakpoint',
+    'workbench.action.openGlobalKeybindings': 'workbench.action.showShortcuts',
+    'workbench.action.chat.open': 'workbench.action.toggleComposer',
+    'workbench.files.action.showActiveFileInExplorer': 'explorer.revealActiveFile',
+    'git.commitAll': 'git.commit',
+}
+
+/**
+ * 解析 keybindings.json（JSONC：允许注释与尾随逗号）
+ */
+export function parseVSCodeKeybindings(text: string): VSCodeKeybinding[] {
+    const parsed = parseJsonc(text)
+    if (!Array.isArray(parsed)) throw new Error('keybindings.json must contain an array')
+
+    return parsed.filter((item): item is VSCodeKeybinding =>
+        !!item && typeof item.key === 'string' && typeof item.command === 'string'
+    ).map(item => ({
+        key: item.key,
+        command: item.command,
+        ...(typeof item.when === 'string' && item.when.trim() ? { when: item.when } : {}),
+    }))
+}
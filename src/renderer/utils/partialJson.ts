@@ -187,6 +187,9 @@ const TOOL_TRUNCATE_CONFIG: Record<string, TruncateConfig> = {
   search_files: { maxLength: 10000, headRatio: 0.9, tailRatio: 0.05 },
   codebase_search: { maxLength: 10000, headRatio: 0.9, tailRatio: 0.05 },
   find_references: { maxLength: 8000, headRatio: 0.85, tailRatio: 0.1 },
+  get_callers: { maxLength: 8000, headRatio: 0.85, tailRatio: 0.1 },
+  get_callees: { maxLength: 8000, headRatio: 0.85, tailRatio: 0.1 },
+  get_import_graph: { maxLength: 8000, headRatio: 0.85, tailRatio: 0.1 },
   grep_search: { maxLength: 10000, headRatio: 0.9, tailRatio: 0.05 },
 
   // 目录结构：开头更重要
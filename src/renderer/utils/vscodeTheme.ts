@@ -0,0 +1,357 @@
+/**
+ * VS Code 颜色主题导入
+ * 解析主题 JSON（含 include 继承链），将工作台颜色映射为 ThemeColors，
+ * TextMate scope 映射为 Monaco 语法高亮规则，terminal.* 颜色映射为 xterm 配色
+ */
+
+import { parseJsonc } from '@shared/utils/jsonUtils'
+import { getPathSeparator, getFileName } from '@utils/pathUtils'
+import type { Theme, ThemeColors, MonacoTokenRule } from '@renderer/config/themeConfig'
+
+export interface VSCodeTokenColor {
+  name?: string
+  scope?: string | string[]
+  settings: {
+    foreground?: string
+    background?: string
+    fontStyle?: string
+  }
+}
+
+/** 主题文件原始内容 */
+interface VSCodeThemeFile {
+  name?: string
+  type?: string
+  include?: string
+  colors?: Record<string, string>
+  /** 也可以是 .tmTheme 文件路径，暂不支持 */
+  tokenColors?: VSCodeTokenColor[] | string
+}
+
+/** 展开 include 之后的主题 */
+export interface ResolvedVSCodeTheme {
+  name?: string
+  type?: string
+  colors: Record<string, string>
+  tokenColors: VSCodeTokenColor[]
+}
+
+interface Rgba {
+  r: number
+  g: number
+  b: number
+  a: number
+}
+
+// include 链的最大深度
+const MAX_INCLUDE_DEPTH = 10
+
+// include 路径相对于当前主题文件所在目录，规范化后用于检测循环引用
+function resolveIncludePath(include: string, themePath: string): string {
+  if (include.startsWith('/') || /^[a-zA-Z]:/.test(include)) return include
+  const sep = getPathSeparator(themePath)
+  const parts = themePath.split(/[/\\]/).slice(0, -1)
+  for (const part of include.split(/[/\\]/)) {
+    if (part === '..') parts.pop()
+    else if (part !== '.' && part !== '') parts.push(part)
+  }
+  return parts.join(sep) || sep
+}
+
+/**
+ * 读取主题并展开 include 链：被包含主题的颜色先合并、再被当前主题覆盖，
+ * tokenColors 按被包含在前的顺序拼接（后出现的规则优先）
+ */
+export async function resolveVSCodeTheme(
+  path: string,
+  readFile: (path: string) => Promise<string | null>,
+  chain: string[] = []
+): Promise<ResolvedVSCodeTheme> {
+  if (chain.includes(path)) throw new Error(`Circular theme include: ${[...chain, path].join(' -> ')}`)
+  if (chain.length >= MAX_INCLUDE_DEPTH) throw new Error(`Theme include chain is too deep: ${path}`)
+
+  const content = await readFile(path)
+  if (content === null) throw new Error(`Cannot read theme file: ${path}`)
+  const parsed = parseJsonc(content)
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error(`Invalid theme file: ${path}`)
+  const file = parsed as VSCodeThemeFile
+
+  const base: ResolvedVSCodeTheme = file.include
+    ? await resolveVSCodeTheme(resolveIncludePath(file.include, path), readFile, [...chain, path])
+    : { colors: {}, tokenColors: [] }
+
+  return {
+    name: file.name ?? base.name,
+    type: file.type ?? base.type,
+    colors: { ...base.colors, ...file.colors },
+    tokenColors: [...base.tokenColors, ...(Array.isArray(file.tokenColors) ? file.tokenColors : [])],
+  }
+}
+
+// ==================== 颜色 ====================
+
+function parseColor(color: string | undefined): Rgba | null {
+  const match = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(color?.trim() ?? '')
+  if (!match) return null
+  let hex = match[1]
+  if (hex.length <= 4) hex = hex.split('').map(c => c + c).join('')
+  return {
+    r: parseInt(hex.slice(0, 2), 16),
+    g: parseInt(hex.slice(2, 4), 16),
+    b: parseInt(hex.slice(4, 6), 16),
+    a: hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1,
+  }
+}
+
+// 半透明颜色叠加到背景上
+function flatten(color: Rgba, background: Rgba): Rgba {
+  const mix = (c: number, bg: number) => Math.round(c * color.a + bg * (1 - color.a))
+  return { r: mix(color.r, background.r), g: mix(color.g, background.g), b: mix(color.b, background.b), a: 1 }
+}
+
+function toHex(color: Rgba): string {
+  return [color.r, color.g, color.b].map(c => c.toString(16).padStart(2, '0')).join('')
+}
+
+// ThemeColors 使用的 "r g b" 格式
+function parseRgbString(rgb: string): Rgba {
+  const [r, g, b] = rgb.split(' ').map(Number)
+  return { r, g, b, a: 1 }
+}
+
+function luminance(color: Rgba): number {
+  return (0.299 * color.r + 0.587 * color.g + 0.114 * color.b) / 255
+}
+
+// ==================== 工作台颜色 ====================
+
+/** ThemeColors 各项依次尝试的 VS Code 颜色（textInverted 没有对应项，沿用 fallback） */
+const WORKBENCH_COLOR_MAP: Partial<Record<keyof ThemeColors, string[]>> = {
+  background: ['editor.background'],
+  backgroundSecondary: ['sideBar.background', 'panel.background', 'editorGroupHeader.tabsBackground'],
+  backgroundTertiary: ['activityBar.background', 'titleBar.activeBackground', 'tab.inactiveBackground'],
+
+  surface: ['editorWidget.background', 'sideBar.background', 'editor.background'],
+  surfaceHover: ['list.hoverBackground', 'toolbar.hoverBackground'],
+  surfaceActive: ['list.activeSelectionBackground', 'list.inactiveSelectionBackground'],
+  surfaceMuted: ['scrollbarSlider.background', 'input.background'],
+
+  textPrimary: ['editor.foreground', 'foreground'],
+  textSecondary: ['sideBar.foreground', 'foreground', 'editor.foreground'],
+  textMuted: ['descriptionForeground', 'editorLineNumber.foreground'],
+
+  border: ['panel.border', 'sideBar.border', 'editorGroup.border', 'contrastBorder'],
+  borderSubtle: ['editorGroup.border', 'widget.border', 'sideBar.border'],
+  borderActive: ['focusBorder', 'contrastActiveBorder'],
+
+  accent: ['button.background', 'focusBorder', 'activityBarBadge.background'],
+  accentHover: ['button.hoverBackground', 'button.background'],
+  accentActive: ['button.background', 'focusBorder'],
+  accentForeground: ['button.foreground', 'activityBarBadge.foreground'],
+  accentSubtle: ['textLink.foreground', 'focusBorder', 'button.background'],
+
+  statusSuccess: ['terminal.ansiGreen', 'gitDecoration.addedResourceForeground'],
+  statusWarning: ['editorWarning.foreground', 'list.warningForeground'],
+  statusError: ['editorError.foreground', 'errorForeground', 'list.errorForeground'],
+  statusInfo: ['editorInfo.foreground', 'terminal.ansiBlue'],
+}
+
+/**
+ * 将工作台颜色映射为 ThemeColors（RGB 格式），缺失的颜色取自 fallback
+ */
+export function mapWorkbenchColors(colors: Record<string, string>, fallback: ThemeColors): ThemeColors {
+  const background = parseColor(colors['editor.background']) ?? parseRgbString(fallback.background)
+  const result = { ...fallback }
+  for (const [key, candidates] of Object.entries(WORKBENCH_COLOR_MAP) as [keyof ThemeColors, string[]][]) {
+    for (const candidate of candidates) {
+      const color = parseColor(colors[candidate])
+      if (color) {
+        const flat = flatten(color, background)
+        result[key] = `${flat.r} ${flat.g} ${flat.b}`
+        break
+      }
+    }
+  }
+  return result
+}
+
+// ==================== 语法高亮 ====================
+
+/** Monaco 内置（Monarch）分词器的 token 依次尝试的 TextMate scope */
+const MONARCH_TOKEN_SCOPES: Record<string, string[]> = {
+  'comment': ['comment'],
+  'string': ['string.quoted', 'string'],
+  'string.escape': ['constant.character.escape'],
+  'keyword': ['keyword.control', 'keyword', 'storage.type'],
+  'number': ['constant.numeric'],
+  'regexp': ['string.regexp'],
+  'type': ['entity.name.type', 'support.type', 'storage.type'],
+  'type.identifier': ['entity.name.type', 'entity.name.class'],
+  'identifier': ['variable.other', 'variable'],
+  'variable': ['variable'],
+  'constant': ['constant.language', 'constant'],
+  'delimiter': ['punctuation'],
+  'operator': ['keyword.operator'],
+  'tag': ['entity.name.tag'],
+  'attribute.name': ['entity.other.attribute-name'],
+  'attribute.value': ['string.quoted', 'string'],
+  'annotation': ['meta.decorator', 'storage.type.annotation'],
+}
+
+interface ScopeEntry {
+  scope: string
+  settings: VSCodeTokenColor['settings']
+}
+
+function splitScopes(scope: VSCodeTokenColor['scope']): string[] {
+  const scopes = Array.isArray(scope) ? scope : (scope ?? '').split(',')
+  return scopes.map(s => s.trim()).filter(Boolean)
+}
+
+// TextMate 规则匹配：选择器是 scope 按 "." 分段的前缀，最长者优先，同样长时后出现者优先
+function matchScope(scope: string, entries: ScopeEntry[]): ScopeEntry | undefined {
+  let best: ScopeEntry | undefined
+  for (const entry of entries) {
+    if (scope !== entry.scope && !scope.startsWith(`${entry.scope}.`)) continue
+    if (!best || entry.scope.length >= best.scope.length) best = entry
+  }
+  return best
+}
+
+function toRule(token: string, settings: VSCodeTokenColor['settings'], background: Rgba): MonacoTokenRule {
+  const rule: MonacoTokenRule = { token }
+  const foreground = parseColor(settings.foreground)
+  const bg = parseColor(settings.background)
+  if (foreground) rule.foreground = toHex(flatten(foreground, background))
+  if (bg) rule.background = toHex(flatten(bg, background))
+  if (settings.fontStyle !== undefined) rule.fontStyle = settings.fontStyle.trim()
+  return rule
+}
+
+/**
+ * 将 tokenColors 转换为 Monaco 规则，editorBackground 为 "r g b" 格式，用于叠加半透明颜色
+ * 每个简单 scope 原样生成一条规则（供 TextMate 语法使用），
+ * 再为 Monarch 分词器的 token 按 TextMate 规则选出对应颜色；
+ * 含后代选择器（空格）或排除（-）的 scope 无法在 Monaco 中表达，会被忽略
+ */
+export function mapTokenColors(tokenColors: VSCodeTokenColor[], editorBackground: string): MonacoTokenRule[] {
+  const background = parseRgbString(editorBackground)
+  const rules: MonacoTokenRule[] = []
+  const entries: ScopeEntry[] = []
+
+  for (const tokenColor of tokenColors) {
+    if (!tokenColor?.settings) continue
+    const scopes = splitScopes(tokenColor.scope)
+    if (scopes.length === 0) {
+      // 无 scope 的条目是旧式主题的默认前景 / 背景
+      rules.push(toRule('', tokenColor.settings, background))
+      continue
+    }
+    for (const scope of scopes) {
+      if (!/^[\w.-]+$/.test(scope)) continue
+      entries.push({ scope, settings: tokenColor.settings })
+      rules.push(toRule(scope, tokenColor.settings, background))
+    }
+  }
+
+  // 只按带前景色的规则选择，避免选中仅设置 fontStyle 的条目
+  const colored = entries.filter(entry => parseColor(entry.settings.foreground))
+  for (const [token, candidates] of Object.entries(MONARCH_TOKEN_SCOPES)) {
+    for (const candidate of candidates) {
+      const entry = matchScope(candidate, colored)
+      if (entry) {
+        rules.push(toRule(token, entry.settings, background))
+        break
+      }
+    }
+  }
+  return rules
+}
+
+// ==================== 编辑器与终端 ====================
+
+// 传给 Monaco defineTheme 的颜色前缀
+const MONACO_COLOR_PREFIXES = ['editor', 'diffEditor', 'minimap', 'scrollbar', 'peekView', 'input', 'list.', 'widget.', 'focusBorder', 'foreground']
+
+const TERMINAL_COLOR_MAP: Record<string, string> = {
+  'terminal.background': 'background',
+  'terminal.foreground': 'foreground',
+  'terminalCursor.foreground': 'cursor',
+  'terminalCursor.background': 'cursorAccent',
+  'terminal.selectionBackground': 'selectionBackground',
+  'terminal.selectionForeground': 'selectionForeground',
+  'terminal.ansiBlack': 'black',
+  'terminal.ansiRed': 'red',
+  'terminal.ansiGreen': 'green',
+  'terminal.ansiYellow': 'yellow',
+  'terminal.ansiBlue': 'blue',
+  'terminal.ansiMagenta': 'magenta',
+  'terminal.ansiCyan': 'cyan',
+  'terminal.ansiWhite': 'white',
+  'terminal.ansiBrightBlack': 'brightBlack',
+  'terminal.ansiBrightRed': 'brightRed',
+  'terminal.ansiBrightGreen': 'brightGreen',
+  'terminal.ansiBrightYellow': 'brightYellow',
+  'terminal.ansiBrightBlue': 'brightBlue',
+  'terminal.ansiBrightMagenta': 'brightMagenta',
+  'terminal.ansiBrightCyan': 'brightCyan',
+  'terminal.ansiBrightWhite': 'brightWhite',
+}
+
+/**
+ * 筛选 Monaco 可用的编辑器颜色
+ */
+export function mapEditorColors(colors: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(colors).filter(([key, value]) =>
+    MONACO_COLOR_PREFIXES.some(prefix => key.startsWith(prefix)) && parseColor(value)
+  ))
+}
+
+/**
+ * 生成 xterm 配色，终端背景 / 前景缺失时沿用面板与编辑器颜色
+ */
+export function mapTerminalColors(colors: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {}
+  const background = colors['panel.background'] ?? colors['editor.background']
+  const foreground = colors['editor.foreground'] ?? colors['foreground']
+  if (parseColor(background)) result.background = background
+  if (parseColor(foreground)) result.foreground = foreground
+
+  for (const [key, target] of Object.entries(TERMINAL_COLOR_MAP)) {
+    if (parseColor(colors[key])) result[target] = colors[key]
+  }
+  return result
+}
+
+// ==================== 转换 ====================
+
+/**
+ * 将展开后的 VS Code 主题转换为 Theme
+ * fallback 为对应明暗类型的内置主题颜色，用于补齐主题未定义的工作台颜色
+ */
+export function convertVSCodeTheme(
+  theme: ResolvedVSCodeTheme,
+  fallback: Record<'dark' | 'light', ThemeColors>,
+  fileName = 'theme'
+): Theme {
+  const background = parseColor(theme.colors['editor.background'])
+  const type: 'dark' | 'light' = theme.type === 'light' || theme.type === 'hcLight' ||
+    (!theme.type && !!background && luminance(background) > 0.5) ? 'light' : 'dark'
+
+  const colors = mapWorkbenchColors(theme.colors, fallback[type])
+  const name = theme.name?.trim() || getFileName(fileName).replace(/(-color-theme)?\.json$/i, '')
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'theme'
+
+  return {
+    id: `vscode-${slug}`,
+    name,
+    type,
+    colors,
+    monacoTheme: type === 'light' ? 'vs' : 'vs-dark',
+    editorTheme: {
+      rules: mapTokenColors(theme.tokenColors, colors.background),
+      colors: mapEditorColors(theme.colors),
+    },
+    terminalColors: mapTerminalColors(theme.colors),
+  }
+}
@@ -36,6 +36,8 @@ export interface AgentRuntimeConfig {
     // 工具执行
     toolTimeoutMs: number
     enableAutoFix: boolean
+    /** 自动检查时同时运行与修改文件相关的测试 */
+    autoFixRunTests: boolean
 
     // 上下文压缩
     contextCompressThreshold: number
@@ -68,6 +70,7 @@ export const DEFAULT_AGENT_CONFIG: AgentRuntimeConfig = {
     retryBackoffMultiplier: 1.5,
     toolTimeoutMs: 60000,
     enableAutoFix: true,
+    autoFixRunTests: false,
     contextCompressThreshold: 40000,
     keepRecentTurns: 3,
     loopDetection: {
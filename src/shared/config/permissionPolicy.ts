@@ -0,0 +1,259 @@
+/**
+ * 声明式权限策略
+ *
+ * 规则来源：项目 .adnify/settings.json 的 permissions 字段
+ *
+ * {
+ *   "permissions": {
+ *     "rules": [
+ *       { "action": "deny", "paths": ["**\/.env*", "secrets/**"] },
+ *       { "action": "ask", "paths": ["migrations/**"] },
+ *       { "action": "allow", "tools": ["edit_file", "write_file"], "paths": ["src/**", "!**\/.env*"] },
+ *       { "action": "deny", "tools": ["run_command"], "commands": ["^git\\s+push"] }
+ *     ]
+ *   }
+ * }
+ *
+ * 匹配规则：
+ * - tools：工具名 glob（如 "mcp_*"），省略表示任意工具
+ * - paths：相对工作区的 glob，"!" 开头表示排除，省略表示不限路径
+ * - commands：命令正则，省略表示不限命令
+ * - 同时命中多条规则时取最严格的结果：deny > ask > allow
+ *
+ * 内置规则：修改 .adnify/settings.json 本身一律拒绝，用户规则无法覆盖，
+ * 避免 Agent 通过编辑策略文件删掉自己的 deny 规则
+ */
+
+import picomatch from 'picomatch'
+import { z } from 'zod'
+import { getPatchPaths } from '../utils/patch'
+import { isWriteTool } from './tools'
+
+// ============================================
+// 类型定义
+// ============================================
+
+export type PolicyAction = 'allow' | 'ask' | 'deny'
+
+export interface PermissionRule {
+  action: PolicyAction
+  tools?: string[]
+  paths?: string[]
+  commands?: string[]
+  /** 命中时展示给用户 / Agent 的说明 */
+  reason?: string
+}
+
+export interface PermissionPolicyConfig {
+  rules: PermissionRule[]
+}
+
+/** 待检查的操作 */
+export interface PolicyTarget {
+  /** 工具名（主进程底线检查时为空，只匹配不限工具的规则） */
+  tool?: string
+  paths?: string[]
+  command?: string
+  /** 操作会修改 paths（写入、删除、重命名） */
+  write?: boolean
+}
+
+/** 文件 IPC 的附加参数：策略只约束 Agent 发起的修改，不影响用户在编辑器中保存 */
+export interface AgentFileOptions {
+  agent?: boolean
+}
+
+export interface PolicyDecision {
+  action: PolicyAction
+  rule: PermissionRule
+}
+
+const ruleSchema = z.object({
+  action: z.enum(['allow', 'ask', 'deny']),
+  tools: z.array(z.string()).optional(),
+  paths: z.array(z.string()).optional(),
+  commands: z.array(z.string()).optional(),
+  reason: z.string().optional(),
+})
+
+/** 严格程度，无匹配介于 allow 与 ask 之间 */
+const ACTION_RANK: Record<PolicyAction, number> = { allow: 0, ask: 2, deny: 3 }
+const NO_MATCH_RANK = 1
+
+// ============================================
+// 解析
+// ============================================
+
+/**
+ * 解析 settings.json 中的 permissions 字段，忽略非法规则
+ */
+export function parsePermissionPolicy(raw: unknown): PermissionPolicyConfig {
+  const rules = (raw as { rules?: unknown } | undefined)?.rules
+  if (!Array.isArray(rules)) return { rules: [] }
+
+  return {
+    rules: rules.flatMap(rule => {
+      const parsed = ruleSchema.safeParse(rule)
+      // 丢弃整条非法规则，避免部分失效后匹配范围被放大
+      if (!parsed.success || !(parsed.data.commands ?? []).every(isValidRegex)) return []
+      return [parsed.data]
+    }),
+  }
+}
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// ============================================
+// 匹配
+// ============================================
+
+/** 通过 ".." 跳出工作区的路径一律拒绝，避免绕过针对工作区内目录的规则 */
+const ESCAPE_DECISION: PolicyDecision = {
+  action: 'deny',
+  rule: { action: 'deny', reason: 'Path escapes the workspace' },
+}
+
+/** 策略文件（相对工作区） */
+export const POLICY_FILE_PATH = '.adnify/settings.json'
+
+const POLICY_FILE_DECISION: PolicyDecision = {
+  action: 'deny',
+  rule: { action: 'deny', paths: [POLICY_FILE_PATH], reason: 'The permission policy file can only be edited by the user' },
+}
+
+/**
+ * 等价于 path.posix.normalize（本模块同时运行在渲染进程，不能依赖 Node 的 path）
+ * 折叠 "."、".." 与重复分隔符；绝对路径（含盘符）开头的 ".." 被丢弃，相对路径保留
+ */
+function normalizePosixPath(filePath: string): string {
+  const prefix = /^[a-zA-Z]:\//.exec(filePath)?.[0] ?? (filePath.startsWith('/') ? '/' : '')
+  const segments: string[] = []
+  for (const segment of filePath.slice(prefix.length).split('/')) {
+    if (!segment || segment === '.') continue
+    if (segment !== '..') segments.push(segment)
+    else if (segments.length && segments[segments.length - 1] !== '..') segments.pop()
+    else if (!prefix) segments.push(segment)
+  }
+  const joined = segments.join('/')
+  return prefix + joined || '.'
+}
+
+/** 转为规范化的相对工作区 posix 路径，工作区外的绝对路径保持绝对路径 */
+export function toPolicyPath(filePath: string, workspaceRoot?: string | null): string {
+  const normalized = normalizePosixPath(filePath.replace(/\\/g, '/'))
+  if (!workspaceRoot) return normalized
+
+  const root = normalizePosixPath(workspaceRoot.replace(/\\/g, '/'))
+  const isWindows = /^[a-zA-Z]:\//.test(root)
+  const compare = (a: string) => (isWindows ? a.toLowerCase() : a)
+
+  if (compare(normalized) === compare(root)) return '.'
+  if (compare(normalized).startsWith(compare(root).replace(/\/$/, '') + '/')) {
+    return normalized.slice(root.replace(/\/$/, '').length + 1)
+  }
+  return normalized
+}
+
+function escapesWorkspace(policyPath: string): boolean {
+  return policyPath === '..' || policyPath.startsWith('../')
+}
+
+// 大小写不敏感的文件系统上 .Adnify/Settings.json 指向同一个文件
+function isPolicyFile(policyPath: string): boolean {
+  return policyPath.toLowerCase() === POLICY_FILE_PATH
+}
+
+function matchesGlobs(value: string, patterns: string[]): boolean {
+  const include = patterns.filter(p => !p.startsWith('!'))
+  const exclude = patterns.filter(p => p.startsWith('!')).map(p => p.slice(1))
+  const isMatch = (list: string[]) => list.length > 0 && picomatch.isMatch(value, list, { dot: true })
+
+  if (exclude.length && isMatch(exclude)) return false
+  return include.length === 0 || isMatch(include)
+}
+
+function matchesRule(rule: PermissionRule, target: PolicyTarget, path?: string): boolean {
+  if (rule.tools?.length) {
+    if (!target.tool || !matchesGlobs(target.tool, rule.tools)) return false
+  }
+  if (rule.paths?.length) {
+    if (path === undefined || !matchesGlobs(path, rule.paths)) return false
+  }
+  if (rule.commands?.length) {
+    if (!target.command || !rule.commands.some(pattern => new RegExp(pattern).test(target.command!))) return false
+  }
+  return true
+}
+
+function evaluateSingle(rules: PermissionRule[], target: PolicyTarget, path?: string): PolicyDecision | null {
+  let decision: PolicyDecision | null = null
+  for (const rule of rules) {
+    if (!matchesRule(rule, target, path)) continue
+    if (!decision || ACTION_RANK[rule.action] > ACTION_RANK[decision.action]) {
+      decision = { action: rule.action, rule }
+    }
+  }
+  return decision
+}
+
+/**
+ * 评估策略
+ * 多个路径时逐个评估并取最严格的结果；任一路径无规则命中且没有更严格的结果时返回 null（使用默认行为）
+ * 规范化后仍以 ".." 开头的相对路径直接拒绝；修改策略文件时始终拒绝（不依赖用户规则）
+ */
+export function evaluatePermissionPolicy(
+  policy: PermissionPolicyConfig | null | undefined,
+  target: PolicyTarget,
+  workspaceRoot?: string | null
+): PolicyDecision | null {
+  const paths = target.paths?.length ? target.paths.map(p => toPolicyPath(p, workspaceRoot)) : [undefined]
+  if (target.write && paths.some(path => path !== undefined && isPolicyFile(path))) return POLICY_FILE_DECISION
+
+  if (!policy?.rules.length) return null
+  if (paths.some(path => path !== undefined && escapesWorkspace(path))) return ESCAPE_DECISION
+
+  let worst: PolicyDecision | null = null
+  let worstRank = -1
+  for (const path of paths) {
+    const decision = evaluateSingle(policy.rules, target, path)
+    const rank = decision ? ACTION_RANK[decision.action] : NO_MATCH_RANK
+    if (rank > worstRank) {
+      worst = decision
+      worstRank = rank
+    }
+  }
+  return worst
+}
+
+/**
+ * 从工具参数中提取策略检查目标
+ */
+export function getToolPolicyTarget(toolName: string, args: Record<string, unknown>): PolicyTarget {
+  const paths: string[] = []
+  if (typeof args.path === 'string') paths.push(args.path)
+  if (Array.isArray(args.paths)) paths.push(...args.paths.filter((p): p is string => typeof p === 'string'))
+  if (typeof args.cwd === 'string') paths.push(args.cwd)
+  // apply_patch 涉及补丁中的全部文件
+  if (typeof args.patch === 'string') paths.push(...getPatchPaths(args.patch))
+
+  return {
+    tool: toolName,
+    paths,
+    command: typeof args.command === 'string' ? args.command : undefined,
+    write: isWriteTool(toolName),
+  }
+}
+
+/**
+ * 生成拒绝说明
+ */
+export function formatPolicyDenial(decision: PolicyDecision): string {
+  return `Denied by permission policy${decision.rule.reason ? `: ${decision.rule.reason}` : ''}`
+}
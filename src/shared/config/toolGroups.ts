@@ -58,11 +58,22 @@ const CORE_TOOLS: string[] = [
   'edit_file',
   'write_file',
   'replace_file_content',
+  'apply_patch',
   'create_file_or_folder',
   'delete_file_or_folder',
   // 终端
   'run_command',
+  'run_tests',
+  'run_task',
   'get_lint_errors',
+  // 调试
+  'debug_launch',
+  'debug_set_breakpoint',
+  'debug_continue',
+  'debug_stack',
+  'debug_variables',
+  'debug_evaluate',
+  'debug_stop',
   // 代码智能
   'find_references',
   'go_to_definition',
@@ -70,9 +81,14 @@ const CORE_TOOLS: string[] = [
   'get_document_symbols',
   // 搜索
   'codebase_search',
+  'get_callers',
+  'get_callees',
+  'get_import_graph',
   // 网络
   'web_search',
   'read_url',
+  // 子代理
+  'spawn_subagent',
 ]
 
 /** 计划工具 - plan 模式专用 */
@@ -81,6 +97,24 @@ const PLAN_TOOLS: string[] = [
   'update_plan',
 ]
 
+/** 子代理工具 - 仅只读，子代理不能再派生子代理 */
+const SUBAGENT_TOOLS: string[] = [
+  'read_file',
+  'read_multiple_files',
+  'list_directory',
+  'get_dir_tree',
+  'search_files',
+  'search_in_file',
+  'codebase_search',
+  'get_callers',
+  'get_callees',
+  'get_import_graph',
+  'find_references',
+  'go_to_definition',
+  'get_hover_info',
+  'get_document_symbols',
+]
+
 /** UI/UX 工具 - uiux-designer 角色专用 */
 const UIUX_TOOLS: string[] = [
   'uiux_search',
@@ -90,6 +124,7 @@ const UIUX_TOOLS: string[] = [
 const TOOL_GROUPS: Record<string, string[]> = {
   core: CORE_TOOLS,
   plan: PLAN_TOOLS,
+  subagent: SUBAGENT_TOOLS,
   uiux: UIUX_TOOLS,
 }
 
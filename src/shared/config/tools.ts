@@ -9,12 +9,13 @@
 
 import { z } from 'zod'
 import type { ToolApprovalType } from '@/shared/types/llm'
+import { isDestructivePatch } from '@/shared/utils/patch'
 
 // ============================================
 // 类型定义
 // ============================================
 
-export type ToolCategory = 'read' | 'write' | 'terminal' | 'search' | 'lsp' | 'network' | 'plan'
+export type ToolCategory = 'read' | 'write' | 'terminal' | 'search' | 'lsp' | 'debug' | 'network' | 'plan' | 'agent'
 
 export interface ToolPropertyDef {
     type: 'string' | 'number' | 'boolean' | 'array' | 'object'
@@ -44,6 +45,8 @@ export interface ToolConfig {
     parallel: boolean
     requiresWorkspace: boolean
     enabled: boolean
+    /** 执行超时（毫秒），默认使用 agentConfig.toolTimeoutMs，0 表示由工具自身控制 */
+    timeoutMs?: number
     parameters: Record<string, ToolPropertyDef>
     /** 自定义 Zod schema（可选，用于复杂验证） */
     customSchema?: z.ZodSchema
@@ -232,6 +235,72 @@ export const TOOL_CONFIGS: Record<string, ToolConfig> = {
         },
     },
 
+    get_callers: {
+        name: 'get_callers',
+        displayName: 'Get Callers',
+        description: 'Find call sites of a function/method by name using the codebase symbol graph (no LSP needed).',
+        detailedDescription: `List where a symbol is called, with the enclosing function of each call site.
+- Uses the symbol graph built during codebase indexing (works without a language server)
+- Matching is by name; pass path (the file defining the symbol) to keep only that file and files importing it`,
+        examples: [
+            'get_callers symbol="handleLogin"',
+            'get_callers symbol="save" path="src/store/userStore.ts"',
+        ],
+        category: 'search',
+        approvalType: 'none',
+        parallel: true,
+        requiresWorkspace: true,
+        enabled: true,
+        parameters: {
+            symbol: { type: 'string', description: 'Function, method or class name', required: true },
+            path: { type: 'string', description: 'File that defines the symbol (narrows results)' },
+        },
+    },
+
+    get_callees: {
+        name: 'get_callees',
+        displayName: 'Get Callees',
+        description: 'List the functions a function/method calls and where they are defined, using the codebase symbol graph.',
+        detailedDescription: `Show outgoing calls of a symbol and resolve each callee to its definition.
+- Uses the symbol graph built during codebase indexing (works without a language server)
+- Calls into external libraries are omitted`,
+        examples: [
+            'get_callees symbol="processOrder"',
+        ],
+        category: 'search',
+        approvalType: 'none',
+        parallel: true,
+        requiresWorkspace: true,
+        enabled: true,
+        parameters: {
+            symbol: { type: 'string', description: 'Function, method or class name', required: true },
+            path: { type: 'string', description: 'File that defines the symbol (when the name is ambiguous)' },
+        },
+    },
+
+    get_import_graph: {
+        name: 'get_import_graph',
+        displayName: 'Import Graph',
+        description: 'Show which workspace files a file imports and which files import it, using the codebase symbol graph.',
+        detailedDescription: `Traverse import relationships from a file.
+- direction: "imports" (dependencies), "importedBy" (dependents) or "both"
+- depth controls how many levels to follow (default: 1)
+- Relative imports and tsconfig path aliases are resolved; packages are listed as external`,
+        examples: [
+            'get_import_graph path="src/utils/date.ts" direction="importedBy" depth=2',
+        ],
+        category: 'search',
+        approvalType: 'none',
+        parallel: true,
+        requiresWorkspace: true,
+        enabled: true,
+        parameters: {
+            path: { type: 'string', description: 'File path', required: true },
+            direction: { type: 'string', description: 'Traversal direction', enum: ['imports', 'importedBy', 'both'], default: 'both' },
+            depth: { type: 'number', description: 'Levels to traverse (default: 1, max: 5)', default: 1 },
+        },
+    },
+
     // ===== 编辑类工具 =====
     edit_file: {
         name: 'edit_file',
@@ -305,6 +374,40 @@ export const TOOL_CONFIGS: Record<string, ToolConfig> = {
         },
     },
 
+    apply_patch: {
+        name: 'apply_patch',
+        displayName: 'Apply Patch',
+        description: 'Apply a multi-file patch (unified diff or V4A format) atomically. Supports create, delete and rename.',
+        detailedDescription: `Apply one patch that edits several files in a single call.
+- Accepts a unified diff (git diff style) or the V4A format (*** Begin Patch ... *** End Patch)
+- Can update, create, delete and rename files in the same patch
+- All-or-nothing: if any hunk cannot be located, no file is written and each failing hunk is reported
+- Hunks are located by their context lines; line numbers are only a hint and small whitespace differences are tolerated
+- The whole patch is checkpointed and can be reviewed or rolled back as one unit`,
+        examples: [
+            `apply_patch patch="*** Begin Patch\\n*** Update File: src/api.ts\\n@@\\n-export function fetchUser(id) {\\n+export function loadUser(id) {\\n*** Update File: src/app.ts\\n@@\\n-import { fetchUser } from './api'\\n+import { loadUser } from './api'\\n*** Add File: src/types.ts\\n+export type UserId = string\\n*** End Patch"`,
+            'apply_patch patch="--- a/src/old.ts\\n+++ b/src/new.ts\\n@@ -1,3 +1,3 @@\\n import x from \'y\'\\n-const a = 1\\n+const a = 2\\n export default a"',
+        ],
+        criticalRules: [
+            'Prefer apply_patch over many edit_file calls for cross-cutting changes (renames, API changes across files)',
+            'Include 2-3 unchanged context lines around each change so hunks can be located',
+            'Context and removed lines must match the current file content - read files first',
+            'Each file may appear only once in a patch; combine its hunks under one header',
+        ],
+        commonErrors: [
+            { error: 'could not find the lines to replace', solution: 'Read the file again and regenerate the failing hunk with exact context' },
+            { error: 'File already exists', solution: 'Use an update hunk instead of *** Add File / --- /dev/null' },
+        ],
+        category: 'write',
+        approvalType: 'none',
+        parallel: false,
+        requiresWorkspace: true,
+        enabled: true,
+        parameters: {
+            patch: { type: 'string', description: 'Patch text in unified diff or V4A format. Paths are relative to the workspace.', required: true },
+        },
+    },
+
     write_file: {
         name: 'write_file',
         displayName: 'Write File',
@@ -408,6 +511,208 @@ export const TOOL_CONFIGS: Record<string, ToolConfig> = {
         },
     },
 
+    run_tests: {
+        name: 'run_tests',
+        displayName: 'Run Tests',
+        description: 'Run tests and get structured pass/fail results with failure locations. Prefer over run_command for tests.',
+        detailedDescription: `Run the workspace test suite (vitest, jest, mocha, pytest or go test) and return structured results.
+- Framework is detected from package.json / pytest config / go.mod
+- Narrow the run with path (file or directory) and test_name (regex on the full test name)
+- Failed tests include the message and the file:line where they failed`,
+        examples: [
+            'run_tests path="src/utils/math.test.ts"',
+            'run_tests path="tests/" test_name="parse.*empty input"',
+        ],
+        criticalRules: [
+            'Run the narrowest set of tests that covers your change first',
+            'Use the failure location to read the failing code before editing',
+        ],
+        category: 'terminal',
+        approvalType: 'terminal',
+        parallel: false,
+        requiresWorkspace: true,
+        enabled: true,
+        timeoutMs: 0,
+        parameters: {
+            path: { type: 'string', description: 'Test file or directory to run (optional, defaults to all tests)' },
+            test_name: { type: 'string', description: 'Only run tests whose full name matches this regex (optional)' },
+            framework: { type: 'string', description: 'Force a framework when several are detected', enum: ['vitest', 'jest', 'mocha', 'pytest', 'go'] },
+            timeout: { type: 'number', description: 'Timeout in seconds (default: 300)', default: 300 },
+        },
+    },
+
+    run_task: {
+        name: 'run_task',
+        displayName: 'Run Task',
+        description: 'Run a named project task from .adnify/tasks.json and get the problems its problem matcher reports.',
+        detailedDescription: `Run a project task (build, lint, typecheck, watch...) defined in .adnify/tasks.json.
+- Tasks listed in dependsOn run first; a failing dependency stops the run
+- Problems matched in the output (file:line severity message) are returned and shown in the Problems panel
+- Background (watch) tasks keep running in a terminal; the call returns after the first compilation or wait_seconds
+- If the name is unknown, the available task names are returned`,
+        examples: [
+            'run_task name="build"',
+            'run_task name="cargo check"',
+            'run_task name="watch" wait_seconds=120',
+        ],
+        criticalRules: [
+            'Prefer project tasks over ad-hoc run_command builds when the project defines them',
+            'Read the reported problem locations before editing',
+        ],
+        category: 'terminal',
+        approvalType: 'terminal',
+        parallel: false,
+        requiresWorkspace: true,
+        enabled: true,
+        timeoutMs: 0,
+        parameters: {
+            name: { type: 'string', description: 'Task label in .adnify/tasks.json', required: true },
+            wait_seconds: { type: 'number', description: 'For background tasks: how long to wait for the first compilation (default: 60)', default: 60 },
+        },
+    },
+
+    // ===== 调试工具 =====
+    debug_launch: {
+        name: 'debug_launch',
+        displayName: 'Debug Launch',
+        description: 'Start a program under the debugger and wait until it pauses at a breakpoint or exits.',
+        detailedDescription: `Launch a debug session (node, python via debugpy, go via dlv).
+- Set breakpoints with debug_set_breakpoint BEFORE launching, or use stop_on_entry
+- Waits up to wait_seconds for the first pause; returns the paused location with source context and program output
+- Use configuration to start a named entry from .adnify/launch.json instead of program
+- The session appears in the Debug panel, so the user can take over at any time`,
+        examples: [
+            'debug_launch program="src/index.js" args=["--port", "0"]',
+            'debug_launch program="scripts/repro.py" stop_on_entry=true',
+            'debug_launch configuration="Launch Program"',
+        ],
+        criticalRules: [
+            'Reproduce the bug with the smallest program or test possible',
+            'Always call debug_stop when you are done inspecting',
+        ],
+        category: 'debug',
+        approvalType: 'terminal',
+        parallel: false,
+        requiresWorkspace: true,
+        enabled: true,
+        timeoutMs: 0,
+        parameters: {
+            program: { type: 'string', description: 'Program to debug (file path, or package directory for go)' },
+            configuration: { type: 'string', description: 'Name of a configuration in .adnify/launch.json (alternative to program)' },
+            type: { type: 'string', description: 'Debugger type (default: inferred from the program extension)', enum: ['node', 'python', 'go'] },
+            args: { type: 'array', description: 'Program arguments', items: { type: 'string', description: 'Argument' } },
+            cwd: { type: 'string', description: 'Working directory (optional, defaults to workspace)' },
+            stop_on_entry: { type: 'boolean', description: 'Pause on the first line (default: false)', default: false },
+            wait_seconds: { type: 'number', description: 'Seconds to wait for the first pause (default: 30)', default: 30 },
+        },
+        validate: (data) => data.program || data.configuration
+            ? { valid: true }
+            : { valid: false, error: 'Either program or configuration is required' },
+    },
+
+    debug_set_breakpoint: {
+        name: 'debug_set_breakpoint',
+        displayName: 'Set Breakpoint',
+        description: 'Add or remove a breakpoint. Applies to the running session and future launches.',
+        category: 'debug',
+        approvalType: 'none',
+        parallel: false,
+        requiresWorkspace: true,
+        enabled: true,
+        parameters: {
+            path: { type: 'string', description: 'File path', required: true },
+            line: { type: 'number', description: 'Line number (1-indexed)', required: true },
+            condition: { type: 'string', description: 'Only pause when this expression is true (optional)' },
+            remove: { type: 'boolean', description: 'Remove the breakpoint instead of adding it', default: false },
+        },
+    },
+
+    debug_continue: {
+        name: 'debug_continue',
+        displayName: 'Debug Continue',
+        description: 'Resume, step or pause the debugged program and wait for the next pause.',
+        category: 'debug',
+        approvalType: 'none',
+        parallel: false,
+        requiresWorkspace: true,
+        enabled: true,
+        timeoutMs: 0,
+        parameters: {
+            action: { type: 'string', description: 'What to do (default: continue)', enum: ['continue', 'step_over', 'step_into', 'step_out', 'pause'], default: 'continue' },
+            session_id: { type: 'string', description: 'Debug session ID (default: the last session started by debug_launch)' },
+            wait_seconds: { type: 'number', description: 'Seconds to wait for the next pause (default: 30)', default: 30 },
+        },
+    },
+
+    debug_stack: {
+        name: 'debug_stack',
+        displayName: 'Call Stack',
+        description: 'Get the call stack of the paused program.',
+        category: 'debug',
+        approvalType: 'none',
+        parallel: false,
+        requiresWorkspace: true,
+        enabled: true,
+        parameters: {
+            session_id: { type: 'string', description: 'Debug session ID (optional)' },
+            max_frames: { type: 'number', description: 'Maximum frames to return (default: 20)', default: 20 },
+        },
+    },
+
+    debug_variables: {
+        name: 'debug_variables',
+        displayName: 'Variables',
+        description: 'List variables in a stack frame of the paused program.',
+        detailedDescription: `Read runtime variable values in a stack frame.
+- frame_index 0 is the current (top) frame; use debug_stack to see other frames
+- Objects are expanded to the given depth (0-3)
+- Expensive scopes such as Global are skipped unless requested with scope`,
+        category: 'debug',
+        approvalType: 'none',
+        parallel: false,
+        requiresWorkspace: true,
+        enabled: true,
+        parameters: {
+            frame_index: { type: 'number', description: 'Stack frame index (default: 0)', default: 0 },
+            scope: { type: 'string', description: 'Only this scope, e.g. "Local" or "Closure" (optional)' },
+            depth: { type: 'number', description: 'Object expansion depth 0-3 (default: 1)', default: 1 },
+            session_id: { type: 'string', description: 'Debug session ID (optional)' },
+        },
+    },
+
+    debug_evaluate: {
+        name: 'debug_evaluate',
+        displayName: 'Debug Evaluate',
+        description: 'Evaluate an expression in a stack frame of the paused program. Requires approval.',
+        criticalRules: [
+            'Prefer side-effect free expressions; evaluation runs inside the debugged program',
+        ],
+        category: 'debug',
+        approvalType: 'terminal',
+        parallel: false,
+        requiresWorkspace: true,
+        enabled: true,
+        parameters: {
+            expression: { type: 'string', description: 'Expression to evaluate', required: true },
+            frame_index: { type: 'number', description: 'Stack frame index (default: 0)', default: 0 },
+            session_id: { type: 'string', description: 'Debug session ID (optional)' },
+        },
+    },
+
+    debug_stop: {
+        name: 'debug_stop',
+        displayName: 'Debug Stop',
+        description: 'Stop a debug session.',
+        category: 'debug',
+        approvalType: 'none',
+        parallel: false,
+        requiresWorkspace: true,
+        enabled: true,
+        parameters: {
+            session_id: { type: 'string', description: 'Debug session ID (optional)' },
+        },
+    },
+
     // ===== LSP 工具 =====
     get_lint_errors: {
         name: 'get_lint_errors',
@@ -538,7 +843,9 @@ export const TOOL_CONFIGS: Record<string, ToolConfig> = {
         description: 'Create execution plan for complex multi-step tasks.',
         detailedDescription: `Create a structured plan for complex tasks.
 - Break down task into logical steps
-- Each step should be verifiable
+- Each step should be verifiable: give it acceptance criteria
+- Declare step dependencies with dependsOn (1-based step numbers)
+- The plan is saved under .adnify/plans/ and can be resumed in later sessions
 - Use for tasks requiring multiple tool calls`,
         category: 'plan',
         approvalType: 'none',
@@ -546,6 +853,7 @@ export const TOOL_CONFIGS: Record<string, ToolConfig> = {
         requiresWorkspace: true,
         enabled: true,
         parameters: {
+            title: { type: 'string', description: 'Plan title' },
             items: {
                 type: 'array',
                 description: 'Plan items',
@@ -556,6 +864,8 @@ export const TOOL_CONFIGS: Record<string, ToolConfig> = {
                     properties: {
                         title: { type: 'string', description: 'Step title', required: true },
                         description: { type: 'string', description: 'Step description' },
+                        dependsOn: { type: 'array', description: 'Numbers (1-based) of the steps that must be completed first', items: { type: 'number', description: 'Step number' } },
+                        acceptanceCriteria: { type: 'array', description: 'Checks that prove the step is done', items: { type: 'string', description: 'Criterion' } },
                     },
                 },
             },
@@ -573,12 +883,53 @@ export const TOOL_CONFIGS: Record<string, ToolConfig> = {
         enabled: true,
         parameters: {
             status: { type: 'string', description: 'Plan status', enum: ['active', 'completed', 'failed'] },
-            items: { type: 'array', description: 'Updated items' },
+            items: {
+                type: 'array',
+                description: 'Updated items',
+                items: {
+                    type: 'object',
+                    description: 'Item update, matched by id, step number or title',
+                    properties: {
+                        id: { type: 'string', description: 'Step ID or 1-based step number' },
+                        status: { type: 'string', description: 'Step status', enum: ['pending', 'in_progress', 'completed', 'failed', 'skipped'] },
+                        title: { type: 'string', description: 'New step title' },
+                    },
+                },
+            },
             currentStepId: { type: 'string', description: 'Current step ID' },
             title: { type: 'string', description: 'Plan title' },
         },
     },
 
+    // ===== 子代理 =====
+    spawn_subagent: {
+        name: 'spawn_subagent',
+        displayName: 'Sub-agent',
+        description: 'Delegate an isolated research task to a read-only sub-agent and receive a condensed report.',
+        detailedDescription: `Launch a sub-agent with its own conversation history to explore the codebase.
+- The sub-agent only has read-only tools (file reading, search, code intelligence)
+- Only its final report is returned; the files it reads stay out of your context
+- Use for open-ended exploration: locating code, tracing call flows, summarizing modules
+- Do NOT use for a single known file or symbol - call read_file / search_files directly`,
+        examples: [
+            'spawn_subagent description="Find auth flow" prompt="Locate where user login is handled, list the files and functions involved and how tokens are stored."',
+        ],
+        criticalRules: [
+            'The sub-agent cannot see this conversation - put every detail it needs into prompt',
+            'Tell the sub-agent exactly what to report back (files, line numbers, summary)',
+        ],
+        category: 'agent',
+        approvalType: 'none',
+        parallel: false,
+        requiresWorkspace: true,
+        enabled: true,
+        timeoutMs: 0,
+        parameters: {
+            description: { type: 'string', description: 'Short (3-5 words) description of the task', required: true },
+            prompt: { type: 'string', description: 'Detailed task for the sub-agent, including what to report back', required: true },
+        },
+    },
+
     // ===== UI/UX 设计工具 =====
     uiux_search: {
         name: 'uiux_search',
@@ -643,6 +994,9 @@ export const FILE_EDIT_DECISION_GUIDE = `
 4. Do you know the EXACT TEXT to find and replace?
    → Use \`edit_file\` with old_string/new_string
 
+5. Does the change span SEVERAL FILES (rename, API change, move)?
+   → Use \`apply_patch\` with one multi-file patch
+
 **Quick Reference:**
 | Scenario | Tool | Why |
 |----------|------|-----|
@@ -651,6 +1005,7 @@ export const FILE_EDIT_DECISION_GUIDE = `
 | Change specific lines | replace_file_content | Line-based precision |
 | Replace exact text | edit_file | String matching |
 | Add to end of file | edit_file | Match last lines, add new |
+| Edit/create/delete/rename many files | apply_patch | One atomic call |
 `
 
 /**
@@ -844,8 +1199,10 @@ export function generateAllToolsPromptDescription(): string {
         write: [],
         terminal: [],
         lsp: [],
+        debug: [],
         network: [],
         plan: [],
+        agent: [],
     }
     
     // 按类别分组
@@ -899,6 +1256,14 @@ export function generateAllToolsPromptDescription(): string {
         }
     }
     
+    // 调试
+    if (categories.debug.length > 0) {
+        sections.push('## Debugger Tools')
+        for (const config of categories.debug) {
+            sections.push(generateToolPromptDescription(config))
+        }
+    }
+    
     // 网络
     if (categories.network.length > 0) {
         sections.push('## Network Tools')
@@ -914,6 +1279,14 @@ export function generateAllToolsPromptDescription(): string {
             sections.push(generateToolPromptDescription(config))
         }
     }
+
+    // 子代理
+    if (categories.agent.length > 0) {
+        sections.push('## Delegation Tools')
+        for (const config of categories.agent) {
+            sections.push(generateToolPromptDescription(config))
+        }
+    }
     
     return sections.join('\n\n')
 }
@@ -941,8 +1314,9 @@ export const TOOL_DISPLAY_NAMES = Object.fromEntries(
 // 辅助函数
 // ============================================
 
-/** 获取工具审批类型 */
-export function getToolApprovalType(toolName: string): ToolApprovalType {
+/** 获取工具审批类型（传入参数时，删除或移动文件的 apply_patch 按 dangerous 审批） */
+export function getToolApprovalType(toolName: string, args?: Record<string, unknown>): ToolApprovalType {
+    if (toolName === 'apply_patch' && args && isDestructivePatch(args.patch)) return 'dangerous'
     return TOOL_CONFIGS[toolName]?.approvalType || 'none'
 }
 
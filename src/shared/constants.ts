@@ -121,11 +121,11 @@ export const SECURITY_DEFAULTS = {
         // 查询命令
         'status', 'log', 'diff', 'show', 'ls-files', 'rev-parse', 'rev-list', 'blame',
         // 暂存和提交
-        'add', 'commit', 'reset', 'restore',
+        'add', 'commit', 'reset', 'restore', 'apply',
         // 远程同步
         'push', 'pull', 'fetch', 'remote',
         // 分支管理
-        'branch', 'checkout', 'switch', 'merge', 'rebase', 'cherry-pick',
+        'branch', 'checkout', 'switch', 'merge', 'rebase', 'cherry-pick', 'worktree',
         // 其他
         'clone', 'init', 'stash', 'tag', 'config',
     ],
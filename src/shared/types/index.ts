@@ -57,7 +57,7 @@ export interface SearchFileResult {
 // 索引相关类型
 // ==========================================
 
-export type EmbeddingProviderType = 'jina' | 'voyage' | 'openai' | 'cohere' | 'huggingface' | 'ollama'
+export type EmbeddingProviderType = 'jina' | 'voyage' | 'openai' | 'cohere' | 'huggingface' | 'ollama' | 'local'
 
 export interface EmbeddingConfig {
     provider?: EmbeddingProviderType
@@ -130,6 +130,10 @@ export interface LLMResult {
         promptTokens: number
         completionTokens: number
         totalTokens: number
+        /** 命中缓存的输入 token */
+        cacheReadTokens?: number
+        /** 写入缓存的输入 token（Anthropic） */
+        cacheWriteTokens?: number
     }
 }
 
@@ -200,6 +204,16 @@ export type ToolStatus = 'pending' | 'awaiting' | 'running' | 'success' | 'error
 export type ToolApprovalType = 'none' | 'terminal' | 'dangerous'
 export type ToolResultType = 'tool_request' | 'running_now' | 'success' | 'tool_error' | 'rejected'
 
+/** 多文件工具（apply_patch）修改的单个文件 */
+export interface ToolFileChange {
+    filePath: string
+    oldContent: string | null
+    newContent: string | null
+    changeType: 'create' | 'modify' | 'delete'
+    linesAdded: number
+    linesRemoved: number
+}
+
 /** UI 层的工具调用记录（包含执行状态） */
 export interface ToolCall {
     id: string
@@ -210,6 +224,8 @@ export interface ToolCall {
     error?: string
     /** 富内容结果（图片、代码、表格等） */
     richContent?: ToolRichContent[]
+    /** 多文件修改的完整内容，不放进 arguments._meta，避免随对话历史重复保存和传递 */
+    fileChanges?: ToolFileChange[]
 }
 
 export interface ToolExecutionResult {
@@ -256,6 +272,10 @@ export interface ToolRichContent {
 export interface ToolExecutionContext {
     workspacePath: string | null
     currentAssistantId?: string | null
+    /** 当前工具调用 ID（用于更新工具卡片进度） */
+    toolCallId?: string
+    /** 中止信号（Agent 中止时级联取消长时间运行的工具） */
+    abortSignal?: AbortSignal
 }
 
 export type ToolExecutor = (
@@ -6,29 +6,72 @@
 // 配置类型
 // ============================================
 
-/** MCP 服务器配置 */
-export interface McpServerConfig {
+/** MCP 传输类型：本地进程 (stdio)、Streamable HTTP、旧版 HTTP+SSE */
+export type McpTransportType = 'stdio' | 'http' | 'sse'
+
+/** MCP 服务器通用配置 */
+interface McpServerConfigBase {
   /** 服务器唯一标识 */
   id: string
   /** 显示名称 */
   name: string
+  /** 是否禁用 */
+  disabled?: boolean
+  /** 自动批准的工具列表 */
+  autoApprove?: string[]
+}
+
+/** 本地 MCP 服务器配置（子进程 + stdio） */
+export interface McpStdioServerConfig extends McpServerConfigBase {
+  type?: 'stdio'
   /** 启动命令 */
   command: string
   /** 命令参数 */
   args?: string[]
   /** 环境变量 */
   env?: Record<string, string>
-  /** 是否禁用 */
-  disabled?: boolean
-  /** 自动批准的工具列表 */
-  autoApprove?: string[]
   /** 工作目录 */
   cwd?: string
 }
 
+/** 远程 MCP 服务器配置（Streamable HTTP / SSE） */
+export interface McpRemoteServerConfig extends McpServerConfigBase {
+  type: 'http' | 'sse'
+  /** 服务器端点 URL */
+  url: string
+  /** 附加请求头（如 Authorization） */
+  headers?: Record<string, string>
+  /** 断线自动重连，默认开启 */
+  reconnect?: {
+    enabled?: boolean
+    /** 最大重试次数 */
+    maxRetries?: number
+    /** 首次重试延迟（毫秒），之后指数退避 */
+    initialDelayMs?: number
+  }
+}
+
+/** MCP 服务器配置 */
+export type McpServerConfig = McpStdioServerConfig | McpRemoteServerConfig
+
+/** 配置文件中的服务器条目（不含 id，远程服务器可省略 type） */
+export type McpServerConfigEntry =
+  | Omit<McpStdioServerConfig, 'id'>
+  | (Omit<McpRemoteServerConfig, 'id' | 'type'> & { type?: 'http' | 'sse' })
+
 /** MCP 配置文件结构 */
 export interface McpConfig {
-  mcpServers: Record<string, Omit<McpServerConfig, 'id'>>
+  mcpServers: Record<string, McpServerConfigEntry>
+}
+
+/** 是否为远程服务器配置 */
+export function isRemoteMcpConfig(config: McpServerConfig): config is McpRemoteServerConfig {
+  return config.type === 'http' || config.type === 'sse'
+}
+
+/** 获取服务器的传输类型 */
+export function getMcpTransportType(config: McpServerConfig): McpTransportType {
+  return isRemoteMcpConfig(config) ? config.type : 'stdio'
 }
 
 // ============================================
@@ -47,6 +90,10 @@ export interface McpServerState {
   resources: McpResource[]
   prompts: McpPrompt[]
   lastConnected?: number
+  /** 远程服务器的会话 ID（Mcp-Session-Id） */
+  sessionId?: string
+  /** 当前重连尝试次数 */
+  reconnectAttempt?: number
 }
 
 // ============================================
@@ -177,6 +224,7 @@ export interface McpServerStatusEvent {
   serverId: string
   status: McpServerStatus
   error?: string
+  reconnectAttempt?: number
 }
 
 export interface McpToolsUpdatedEvent {
@@ -0,0 +1,206 @@
+/**
+ * 文件编辑工具的核心逻辑
+ *
+ * edit_file / write_file / replace_file_content / apply_patch 的校验、内容计算与结果文本，
+ * 渲染进程 executors.ts 与 headless 模式共用。文件读写通过 FileEditIO 由调用方提供
+ * （渲染进程走 IPC，headless 直接访问文件系统），路径解析与安全校验也由调用方完成
+ */
+
+import * as Diff from 'diff'
+import type { ToolExecutionResult } from '../types'
+import { parsePatch, applyFilePatch, formatPatchSummary, PatchParseError, type FilePatchResult } from './patch'
+
+export interface FileEditIO {
+  /** 文件不存在时返回 null */
+  read: (path: string) => Promise<string | null>
+  write: (path: string, content: string) => Promise<boolean>
+  delete: (path: string) => Promise<boolean>
+  exists: (path: string) => Promise<boolean>
+}
+
+export interface ApplyPatchOptions {
+  /** 将补丁中的相对路径解析为绝对路径，非法路径直接抛错 */
+  resolvePath: (path: string) => string
+  /** 全部 hunk 校验通过、写入之前调用（渲染进程在此创建检查点） */
+  beforeWrite?: (paths: string[]) => Promise<void>
+}
+
+/**
+ * 计算两个文本之间的行数变化
+ * 使用 diff 库（Myers 算法）计算精确的增加和删除行数
+ */
+export function calculateLineChanges(
+  oldContent: string,
+  newContent: string
+): { added: number; removed: number } {
+  let added = 0
+  let removed = 0
+  for (const change of Diff.diffLines(oldContent, newContent)) {
+    // 计算实际行数（排除末尾空行）
+    const lines = change.value.split('\n')
+    const lineCount = change.value.endsWith('\n') ? lines.length - 1 : lines.length
+    if (change.added) added += lineCount
+    else if (change.removed) removed += lineCount
+  }
+  return { added, removed }
+}
+
+const failure = (error: string): ToolExecutionResult => ({ success: false, result: '', error })
+
+function changeMeta(filePath: string, oldContent: string, newContent: string) {
+  const lineChanges = calculateLineChanges(oldContent, newContent)
+  return { filePath, oldContent, newContent, linesAdded: lineChanges.added, linesRemoved: lineChanges.removed }
+}
+
+/**
+ * edit_file：替换文件中唯一出现的 old_string
+ * @param notFoundTip 未找到时的提示（渲染进程根据读取缓存给出更具体的建议）
+ */
+export async function editFile(
+  io: FileEditIO,
+  filePath: string,
+  oldString: string,
+  newString: string,
+  notFoundTip = 'Use read_file first to get the exact content including whitespace.'
+): Promise<ToolExecutionResult> {
+  const originalContent = await io.read(filePath)
+  if (originalContent === null) return failure(`File not found: ${filePath}. Use write_file to create new files.`)
+
+  if (!oldString) return failure('old_string is required. Provide the exact text to find and replace.')
+  if (oldString === newString) return failure('old_string and new_string are identical. No changes needed.')
+
+  const parts = originalContent.split(oldString)
+  const occurrences = parts.length - 1
+  if (occurrences === 0) {
+    let error = `old_string not found in file.\n\nTip: ${notFoundTip}`
+    // 只有空白不同的相似内容
+    if (originalContent.replace(/\s+/g, ' ').includes(oldString.replace(/\s+/g, ' ').trim())) {
+      error += '\n\nNote: Similar content exists but whitespace differs. Copy exact content from read_file output.'
+    }
+    return failure(error)
+  }
+  if (occurrences > 1) {
+    return failure(`old_string found ${occurrences} times in file. It must be unique.\n\nTip: Include more surrounding context (3-5 lines before/after) to make old_string unique.`)
+  }
+
+  // 不用 String.replace，避免 new_string 中的 "$&"、"$1" 等被当作替换模式
+  const newContent = parts.join(newString)
+  if (!(await io.write(filePath, newContent))) return failure('Failed to write file')
+  return { success: true, result: 'File updated successfully', meta: changeMeta(filePath, originalContent, newContent) }
+}
+
+/**
+ * write_file：写入完整内容（文件不存在时新建）
+ */
+export async function writeFileContent(io: FileEditIO, filePath: string, content: string): Promise<ToolExecutionResult> {
+  const originalContent = await io.read(filePath) || ''
+  if (!(await io.write(filePath, content))) return failure('Failed to write file')
+  return { success: true, result: 'File written successfully', meta: changeMeta(filePath, originalContent, content) }
+}
+
+/**
+ * replace_file_content：替换 [startLine, endLine] 行（1-based，含结束行），空文件直接写入
+ */
+export async function replaceFileLines(
+  io: FileEditIO,
+  filePath: string,
+  startLine: number,
+  endLine: number,
+  content: string
+): Promise<ToolExecutionResult> {
+  const originalContent = await io.read(filePath)
+  if (originalContent === null) return failure(`File not found: ${filePath}`)
+
+  if (originalContent === '') {
+    if (!(await io.write(filePath, content))) return failure('Failed to write file')
+    return { success: true, result: 'File written (was empty)', meta: changeMeta(filePath, '', content) }
+  }
+
+  const lines = originalContent.split('\n')
+  if (startLine < 1 || endLine > lines.length || startLine > endLine) {
+    return failure(`Invalid line range: ${startLine}-${endLine}. File has ${lines.length} lines. Use read_file to verify line numbers.`)
+  }
+
+  lines.splice(startLine - 1, endLine - startLine + 1, ...content.split('\n'))
+  const newContent = lines.join('\n')
+  if (!(await io.write(filePath, newContent))) return failure('Failed to write file')
+  return { success: true, result: 'File updated successfully', meta: changeMeta(filePath, originalContent, newContent) }
+}
+
+/**
+ * apply_patch：先读取并应用全部文件，任一 hunk 失败则不写入任何文件；
+ * 写入中途失败时按相反顺序恢复已修改的文件
+ *
+ * meta.files 中重命名记录为删除 + 新建，便于在 Composer 中分别审阅
+ */
+export async function applyPatch(io: FileEditIO, patchText: string, options: ApplyPatchOptions): Promise<ToolExecutionResult> {
+  let patches
+  try {
+    patches = parsePatch(patchText)
+  } catch (e) {
+    if (e instanceof PatchParseError) return failure(`Invalid patch: ${e.message}`)
+    throw e
+  }
+
+  const results: Array<FilePatchResult & { filePath: string; targetPath: string; linesAdded: number; linesRemoved: number }> = []
+  for (const patch of patches) {
+    const filePath = options.resolvePath(patch.path)
+    const targetPath = patch.movePath ? options.resolvePath(patch.movePath) : filePath
+    const result = applyFilePatch(patch, await io.read(filePath))
+    if (!result.error && targetPath !== filePath && await io.exists(targetPath)) {
+      result.error = `Cannot move to ${patch.movePath}: file already exists`
+    }
+    const lineChanges = calculateLineChanges(result.oldContent || '', result.newContent || '')
+    results.push({ ...result, filePath, targetPath, linesAdded: lineChanges.added, linesRemoved: lineChanges.removed })
+  }
+
+  const summary = formatPatchSummary(results)
+  if (results.some(r => r.error)) {
+    return failure(`Patch not applied, no files were changed.\n\n${summary}`)
+  }
+
+  await options.beforeWrite?.([...new Set(results.flatMap(r => r.targetPath !== r.filePath ? [r.filePath, r.targetPath] : [r.filePath]))])
+
+  const written: Array<{ path: string; content: string | null }> = []
+  for (const r of results) {
+    let ok = true
+    if (r.newContent !== null) {
+      ok = await io.write(r.targetPath, r.newContent)
+      if (ok) written.push({ path: r.targetPath, content: r.targetPath === r.filePath ? r.oldContent : null })
+    }
+    if (ok && (r.type === 'delete' || r.targetPath !== r.filePath)) {
+      ok = await io.delete(r.filePath)
+      if (ok) written.push({ path: r.filePath, content: r.oldContent })
+    }
+    if (!ok) {
+      for (const { path, content } of written.reverse()) {
+        if (content === null) await io.delete(path)
+        else await io.write(path, content)
+      }
+      return failure(`Failed to write ${r.path}, all changes from this patch were reverted.`)
+    }
+  }
+
+  const files = results.flatMap(r => {
+    if (r.type === 'delete') {
+      return [{ filePath: r.filePath, oldContent: r.oldContent, newContent: null, changeType: 'delete', linesAdded: 0, linesRemoved: r.linesRemoved }]
+    }
+    if (r.targetPath !== r.filePath) {
+      return [
+        { filePath: r.filePath, oldContent: r.oldContent, newContent: null, changeType: 'delete', linesAdded: 0, linesRemoved: 0 },
+        { filePath: r.targetPath, oldContent: null, newContent: r.newContent, changeType: 'create', linesAdded: r.linesAdded, linesRemoved: r.linesRemoved },
+      ]
+    }
+    return [{ filePath: r.filePath, oldContent: r.oldContent, newContent: r.newContent, changeType: r.type === 'add' ? 'create' : 'modify', linesAdded: r.linesAdded, linesRemoved: r.linesRemoved }]
+  })
+
+  return {
+    success: true,
+    result: `Patch applied to ${results.length} file(s):\n${summary}`,
+    meta: {
+      files,
+      linesAdded: results.reduce((n, r) => n + r.linesAdded, 0),
+      linesRemoved: results.reduce((n, r) => n + r.linesRemoved, 0),
+    },
+  }
+}
@@ -14,6 +14,7 @@ export {
   fixUnescapedNewlines,
   fixMalformedJson,
   safeParseJson,
+  parseJsonc,
   generateId,
 } from './jsonUtils'
 
@@ -43,4 +44,18 @@ export {
   cancellable,
   isRetryableError,
   type RetryConfig,
-} from './retry'
\ No newline at end of file
+} from './retry'
+
+// 补丁解析与应用
+export {
+  parsePatch,
+  getPatchPaths,
+  applyHunks,
+  applyFilePatch,
+  formatPatchSummary,
+  PatchParseError,
+  type FilePatch,
+  type FilePatchResult,
+  type PatchHunk,
+  type HunkResult,
+} from './patch'
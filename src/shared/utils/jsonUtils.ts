@@ -366,6 +366,71 @@ export function safeParseJson<T = Record<string, unknown>>(
   }
 }
 
+// ============================================
+// JSONC
+// ============================================
+
+/**
+ * 去掉 JSON 中的注释（保留字符串内容）
+ */
+function stripJsonComments(content: string): string {
+  let result = ''
+  let inString = false
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (inString) {
+      result += char
+      if (char === '\\') result += content[++i] ?? ''
+      else if (char === '"') inString = false
+    } else if (char === '"') {
+      inString = true
+      result += char
+    } else if (char === '/' && content[i + 1] === '/') {
+      while (i < content.length && content[i] !== '\n') i++
+      result += '\n'
+    } else if (char === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2)
+      i = end === -1 ? content.length : end + 1
+    } else {
+      result += char
+    }
+  }
+  return result
+}
+
+/**
+ * 去掉尾随逗号（在去掉注释之后调用，跳过字符串内容）
+ */
+function stripTrailingCommas(content: string): string {
+  // 粘性正则从逗号后原地匹配，避免每个逗号都截取剩余文本
+  const closing = /\s*[}\]]/y
+  let result = ''
+  let inString = false
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (inString) {
+      result += char
+      if (char === '\\') result += content[++i] ?? ''
+      else if (char === '"') inString = false
+    } else if (char === ',') {
+      closing.lastIndex = i + 1
+      if (!closing.test(content)) result += char
+    } else {
+      if (char === '"') inString = true
+      result += char
+    }
+  }
+  return result
+}
+
+/**
+ * 解析 JSONC（允许注释与尾随逗号，如 VS Code 的配置文件），无效时抛出 JSON.parse 的错误
+ * 结果结构未经校验，由调用方自行收窄
+ */
+export function parseJsonc(content: string): unknown {
+  return JSON.parse(stripTrailingCommas(stripJsonComments(content)))
+}
+
 /**
  * 生成唯一 ID
  */
@@ -0,0 +1,473 @@
+/**
+ * 多文件补丁解析与应用
+ *
+ * 支持两种格式：
+ * - 统一 diff（git diff / diff -u），包括新建、删除和重命名
+ * - V4A 补丁（*** Begin Patch / *** Update File: ... / *** End Patch）
+ *
+ * hunk 定位不依赖行号是否准确：优先在行号提示附近精确匹配上下文，
+ * 找不到时依次放宽为忽略行尾空白、忽略缩进。上下文行保留文件中的原文。
+ * 解析和应用都是纯函数，读写文件由调用方负责，便于先全部校验再统一写入
+ */
+
+export type PatchLineType = 'context' | 'add' | 'remove'
+
+export interface PatchLine {
+  type: PatchLineType
+  text: string
+}
+
+export interface PatchHunk {
+  /** 原文件中的起始行（1-based），V4A 格式没有行号 */
+  oldStart?: number
+  /** V4A 中 @@ 后的定位行（如函数签名），hunk 在其之后查找 */
+  anchor?: string
+  lines: PatchLine[]
+  /** hunk 必须匹配到文件末尾 */
+  atEndOfFile?: boolean
+}
+
+export interface FilePatch {
+  type: 'add' | 'delete' | 'update'
+  path: string
+  /** 重命名后的路径 */
+  movePath?: string
+  hunks: PatchHunk[]
+  /** 新内容末尾没有换行（统一 diff 的 "\ No newline at end of file"） */
+  noNewlineAtEnd?: boolean
+}
+
+/** hunk 匹配方式 */
+export type HunkMatch = 'exact' | 'whitespace' | 'indent'
+
+export interface HunkResult {
+  /** hunk 序号（从 1 开始） */
+  index: number
+  applied: boolean
+  /** 应用位置（1-based 行号） */
+  line?: number
+  match?: HunkMatch
+  error?: string
+}
+
+export interface FilePatchResult {
+  type: FilePatch['type']
+  path: string
+  movePath?: string
+  oldContent: string | null
+  /** 删除时为 null */
+  newContent: string | null
+  hunks: HunkResult[]
+  error?: string
+}
+
+export class PatchParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PatchParseError'
+  }
+}
+
+// ===== 解析 =====
+
+const V4A_BEGIN = '*** Begin Patch'
+const V4A_END = '*** End Patch'
+const HUNK_HEADER_RE = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/
+
+/**
+ * 解析补丁文本，自动识别格式
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  const files = lines.some(l => l.trim() === V4A_BEGIN) ? parseV4A(lines) : parseUnifiedDiff(lines)
+  if (files.length === 0) throw new PatchParseError('No file changes found in patch')
+
+  const seen = new Set<string>()
+  for (const file of files) {
+    if (seen.has(file.path)) throw new PatchParseError(`File appears more than once in patch: ${file.path}`)
+    seen.add(file.path)
+    if (file.type === 'update' && file.hunks.length === 0 && !file.movePath) {
+      throw new PatchParseError(`No hunks for ${file.path}`)
+    }
+  }
+  return files
+}
+
+/**
+ * 补丁涉及的全部路径（含重命名目标），解析失败时返回空数组
+ */
+export function getPatchPaths(text: string): string[] {
+  try {
+    return parsePatch(text).flatMap(f => f.movePath ? [f.path, f.movePath] : [f.path])
+  } catch {
+    return []
+  }
+}
+
+/**
+ * 补丁是否删除或移动文件（需要与 delete_file_or_folder 同级的审批），解析失败时返回 false
+ */
+export function isDestructivePatch(text: unknown): boolean {
+  if (typeof text !== 'string') return false
+  try {
+    return parsePatch(text).some(f => f.type === 'delete' || !!f.movePath)
+  } catch {
+    return false
+  }
+}
+
+function stripDiffPath(raw: string): string {
+  let p = raw.split('\t')[0].trim()
+  if (p.startsWith('"') && p.endsWith('"')) p = p.slice(1, -1)
+  return p === '/dev/null' ? p : p.replace(/^[ab]\//, '')
+}
+
+function parseUnifiedDiff(lines: string[]): FilePatch[] {
+  const files: FilePatch[] = []
+  let file: FilePatch | null = null
+  let hunk: PatchHunk | null = null
+  // 当前文件是否已出现 ---/+++ 头
+  let headerSeen = false
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+
+    const gitHeader = line.match(/^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/)
+    if (gitHeader) {
+      file = { type: 'update', path: gitHeader[1], movePath: gitHeader[2] !== gitHeader[1] ? gitHeader[2] : undefined, hunks: [] }
+      files.push(file)
+      hunk = null
+      headerSeen = false
+      continue
+    }
+
+    // hunk 中以 "--- " 开头的删除行不是文件头
+    const isFileHeader = line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ') && (!hunk || lines[i + 2]?.startsWith('@@'))
+    if (isFileHeader) {
+      const oldPath = stripDiffPath(line.slice(4))
+      const newPath = stripDiffPath(lines[i + 1].slice(4))
+      if (!file || headerSeen || file.hunks.length > 0) {
+        file = { type: 'update', path: oldPath, hunks: [] }
+        files.push(file)
+      }
+      if (oldPath === '/dev/null') {
+        file.type = 'add'
+        file.path = newPath
+        file.movePath = undefined
+      } else if (newPath === '/dev/null') {
+        file.type = 'delete'
+        file.path = oldPath
+        file.movePath = undefined
+      } else {
+        file.path = oldPath
+        file.movePath = newPath !== oldPath ? newPath : undefined
+      }
+      hunk = null
+      headerSeen = true
+      i++
+      continue
+    }
+
+    if (!file) continue
+
+    if (!hunk) {
+      if (line.startsWith('new file mode')) file.type = 'add'
+      else if (line.startsWith('deleted file mode')) file.type = 'delete'
+      else if (line.startsWith('rename from ')) file.path = line.slice('rename from '.length).trim()
+      else if (line.startsWith('rename to ')) file.movePath = line.slice('rename to '.length).trim()
+    }
+
+    if (line.startsWith('@@')) {
+      const header = line.match(HUNK_HEADER_RE)
+      hunk = { oldStart: header ? Number(header[1]) : undefined, lines: [] }
+      file.hunks.push(hunk)
+      continue
+    }
+
+    if (!hunk) continue
+
+    if (line.startsWith('\\')) {
+      // "\ No newline at end of file" 跟在新内容的最后一行之后
+      const prev = hunk.lines[hunk.lines.length - 1]
+      if (prev && prev.type !== 'remove') file.noNewlineAtEnd = true
+      continue
+    }
+    const parsed = parseHunkLine(line)
+    if (parsed) hunk.lines.push(parsed)
+    else hunk = null
+  }
+
+  for (const f of files) {
+    f.hunks = f.hunks.map(trimTrailingBlankContext).filter(h => h.lines.length > 0)
+  }
+  return files
+}
+
+/** hunk 中的一行；空行视为空白上下文（模型常省略行首空格） */
+function parseHunkLine(line: string): PatchLine | null {
+  if (line === '') return { type: 'context', text: '' }
+  switch (line[0]) {
+    case ' ': return { type: 'context', text: line.slice(1) }
+    case '+': return { type: 'add', text: line.slice(1) }
+    case '-': return { type: 'remove', text: line.slice(1) }
+    default: return null
+  }
+}
+
+/** 去掉补丁文本末尾被误当作上下文的空行 */
+function trimTrailingBlankContext(hunk: PatchHunk): PatchHunk {
+  const lines = [...hunk.lines]
+  while (lines.length && lines[lines.length - 1].type === 'context' && lines[lines.length - 1].text === '') {
+    lines.pop()
+  }
+  return { ...hunk, lines }
+}
+
+function parseV4A(lines: string[]): FilePatch[] {
+  const files: FilePatch[] = []
+  let file: FilePatch | null = null
+  let hunk: PatchHunk | null = null
+  let inPatch = false
+
+  for (const line of lines) {
+    const trimmed = line.trim()
+    if (trimmed === V4A_BEGIN) { inPatch = true; continue }
+    if (!inPatch) continue
+    if (trimmed === V4A_END) break
+
+    const fileHeader = line.match(/^\*\*\* (Add|Delete|Update) File: (.+)$/)
+    if (fileHeader) {
+      const type = fileHeader[1] === 'Add' ? 'add' : fileHeader[1] === 'Delete' ? 'delete' : 'update'
+      file = { type, path: fileHeader[2].trim(), hunks: [] }
+      files.push(file)
+      hunk = type === 'add' ? { lines: [] } : null
+      if (hunk) file.hunks.push(hunk)
+      continue
+    }
+    if (!file) {
+      if (trimmed) throw new PatchParseError(`Unexpected line before file header: ${line}`)
+      continue
+    }
+
+    const moveTo = line.match(/^\*\*\* Move to: (.+)$/)
+    if (moveTo) {
+      file.movePath = moveTo[1].trim()
+      continue
+    }
+    if (trimmed === '*** End of File') {
+      if (hunk) hunk.atEndOfFile = true
+      hunk = null
+      continue
+    }
+    if (file.type === 'delete' || (file.type === 'add' && !line)) {
+      if (trimmed) throw new PatchParseError(`Unexpected content for deleted file ${file.path}: ${line}`)
+      continue
+    }
+
+    if (file.type === 'update' && line.startsWith('@@')) {
+      const anchor = line.slice(2).trim()
+      // 连续的 @@ 行用于逐层定位（类 → 方法），取最后一个
+      if (hunk && hunk.lines.length === 0) {
+        hunk.anchor = anchor || hunk.anchor
+      } else {
+        hunk = { anchor: anchor || undefined, lines: [] }
+        file.hunks.push(hunk)
+      }
+      continue
+    }
+
+    const parsed = parseHunkLine(line)
+    if (!parsed) throw new PatchParseError(`Invalid patch line in ${file.path}: ${line}`)
+    if (file.type === 'add' && parsed.type !== 'add') {
+      throw new PatchParseError(`Lines of an added file must start with "+": ${file.path}`)
+    }
+    if (!hunk) {
+      hunk = { lines: [] }
+      file.hunks.push(hunk)
+    }
+    hunk.lines.push(parsed)
+  }
+
+  for (const f of files) {
+    f.hunks = f.hunks.map(trimTrailingBlankContext).filter(h => h.lines.length > 0 || f.type === 'add')
+  }
+  return files
+}
+
+// ===== 应用 =====
+
+const NORMALIZERS: Array<[HunkMatch, (s: string) => string]> = [
+  ['exact', s => s],
+  ['whitespace', s => s.trimEnd()],
+  ['indent', s => s.trim()],
+]
+
+/**
+ * 按顺序应用 hunk，返回新内容和每个 hunk 的结果
+ * 任一 hunk 失败时 ok 为 false，content 仅包含成功的 hunk（调用方不应写入）
+ */
+export function applyHunks(
+  content: string,
+  hunks: PatchHunk[],
+  options: { noNewlineAtEnd?: boolean } = {}
+): { ok: boolean; content: string; results: HunkResult[] } {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n'
+  const text = content.replace(/\r\n/g, '\n')
+  const hadTrailingNewline = text === '' || text.endsWith('\n')
+  const lines = text === '' ? [] : (text.endsWith('\n') ? text.slice(0, -1) : text).split('\n')
+
+  const results: HunkResult[] = []
+  // 已应用 hunk 之后的位置，后续 hunk 只在其后查找
+  let cursor = 0
+  // 前面 hunk 造成的行号偏移
+  let delta = 0
+
+  hunks.forEach((hunk, i) => {
+    const index = i + 1
+    const oldLines = hunk.lines.filter(l => l.type !== 'add').map(l => l.text)
+    const hint = hunk.oldStart !== undefined ? Math.max(0, hunk.oldStart - 1 + delta) : undefined
+
+    let start = cursor
+    if (hunk.anchor) {
+      const anchorIdx = findAnchor(lines, hunk.anchor, cursor)
+      if (anchorIdx === -1) {
+        results.push({ index, applied: false, error: `Hunk ${index}: anchor "${hunk.anchor}" not found` })
+        return
+      }
+      start = anchorIdx + 1
+    }
+
+    let position = -1
+    let match: HunkMatch = 'exact'
+    if (oldLines.length === 0) {
+      // 纯插入：统一 diff 中 oldStart 指向插入位置之前的行
+      position = hunk.anchor ? start
+        : hunk.atEndOfFile || hunk.oldStart === undefined ? lines.length
+          : Math.min(lines.length, Math.max(cursor, hunk.oldStart + delta))
+    } else {
+      for (const [kind, normalize] of NORMALIZERS) {
+        position = findBlock(lines, oldLines, start, hint, !!hunk.atEndOfFile, normalize)
+        if (position !== -1) {
+          match = kind
+          break
+        }
+      }
+    }
+
+    if (position === -1) {
+      const preview = oldLines.find(l => l.trim()) ?? oldLines[0]
+      results.push({
+        index,
+        applied: false,
+        error: `Hunk ${index}: could not find the ${oldLines.length} line(s) to replace${hunk.oldStart ? ` near line ${hunk.oldStart}` : ''} (starting with "${preview.trim().slice(0, 80)}"). Read the file again and regenerate this hunk.`,
+      })
+      return
+    }
+
+    // 上下文行沿用文件原文，避免模糊匹配时改动空白
+    const replacement: string[] = []
+    let offset = position
+    for (const line of hunk.lines) {
+      if (line.type === 'context') replacement.push(lines[offset++])
+      else if (line.type === 'remove') offset++
+      else replacement.push(line.text)
+    }
+
+    lines.splice(position, oldLines.length, ...replacement)
+    delta += replacement.length - oldLines.length
+    cursor = position + replacement.length
+    results.push({ index, applied: true, line: position + 1, match })
+  })
+
+  const trailing = options.noNewlineAtEnd ? '' : (hadTrailingNewline && lines.length > 0 ? '\n' : '')
+  const joined = lines.join('\n') + trailing
+  return {
+    ok: results.every(r => r.applied),
+    content: eol === '\n' ? joined : joined.replace(/\n/g, eol),
+    results,
+  }
+}
+
+function findAnchor(lines: string[], anchor: string, from: number): number {
+  const target = anchor.trim()
+  for (let i = from; i < lines.length; i++) {
+    if (lines[i].trim() === target) return i
+  }
+  return -1
+}
+
+/**
+ * 查找与 block 匹配的起始行，有行号提示时取离提示最近的匹配
+ */
+function findBlock(
+  lines: string[],
+  block: string[],
+  from: number,
+  hint: number | undefined,
+  atEnd: boolean,
+  normalize: (s: string) => string
+): number {
+  const target = block.map(normalize)
+  const matchesAt = (p: number) => target.every((t, k) => normalize(lines[p + k]) === t)
+  const last = lines.length - block.length
+  if (last < from) return -1
+
+  if (atEnd) return matchesAt(last) ? last : -1
+
+  if (hint === undefined) {
+    for (let p = from; p <= last; p++) {
+      if (matchesAt(p)) return p
+    }
+    return -1
+  }
+
+  const center = Math.min(Math.max(hint, from), last)
+  for (let d = 0; center - d >= from || center + d <= last; d++) {
+    if (center + d <= last && matchesAt(center + d)) return center + d
+    if (d > 0 && center - d >= from && matchesAt(center - d)) return center - d
+  }
+  return -1
+}
+
+/**
+ * 将单个文件补丁应用到原内容（不存在的文件传 null）
+ */
+export function applyFilePatch(patch: FilePatch, oldContent: string | null): FilePatchResult {
+  const base = { type: patch.type, path: patch.path, movePath: patch.movePath, oldContent }
+
+  if (patch.type === 'add') {
+    if (oldContent !== null) return { ...base, newContent: null, hunks: [], error: `File already exists: ${patch.path}` }
+    const added = patch.hunks.flatMap(h => h.lines.filter(l => l.type !== 'remove').map(l => l.text))
+    const newContent = added.length ? added.join('\n') + (patch.noNewlineAtEnd ? '' : '\n') : ''
+    return { ...base, newContent, hunks: [] }
+  }
+
+  if (oldContent === null) return { ...base, newContent: null, hunks: [], error: `File not found: ${patch.path}` }
+
+  if (patch.type === 'delete') return { ...base, newContent: null, hunks: [] }
+
+  const { ok, content, results } = applyHunks(oldContent, patch.hunks, { noNewlineAtEnd: patch.noNewlineAtEnd })
+  return {
+    ...base,
+    newContent: content,
+    hunks: results,
+    error: ok ? undefined : results.filter(r => !r.applied).map(r => r.error).join('\n'),
+  }
+}
+
+/**
+ * 生成每个文件的处理摘要（供工具结果使用）
+ */
+export function formatPatchSummary(
+  results: Array<FilePatchResult & { linesAdded?: number; linesRemoved?: number }>
+): string {
+  return results.map(r => {
+    const stats = r.linesAdded !== undefined ? ` (+${r.linesAdded} -${r.linesRemoved ?? 0})` : ''
+    if (r.error) return `✗ ${r.path}\n${r.error.split('\n').map(e => `  ${e}`).join('\n')}`
+    if (r.type === 'add') return `A ${r.path}${stats}`
+    if (r.type === 'delete') return `D ${r.path}`
+    const fuzzy = r.hunks.filter(h => h.match && h.match !== 'exact').length
+    const note = fuzzy ? ` [${fuzzy} hunk(s) matched ignoring whitespace]` : ''
+    return r.movePath ? `R ${r.path} → ${r.movePath}${stats}${note}` : `M ${r.path}${stats}${note}`
+  }).join('\n')
+}
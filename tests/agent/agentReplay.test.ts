@@ -0,0 +1,165 @@
+/**
+ * Agent 循环回归测试（回放 tests/fixtures/llm 中录制的 LLM 响应，不访问网络）
+ *
+ * 覆盖 runAgentLoop、LLMStreamHandler、ParallelToolExecutor 和 LoopDetector。
+ * 提示词或工具结果变化导致请求哈希改变时，需要重新录制对应场景的 fixture
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest'
+import * as path from 'path'
+import { ReplayProvider } from '@main/services/llm/providers/replay'
+import type { ChatParams } from '@main/services/llm/types'
+
+const harness = vi.hoisted(() => ({
+  files: new Map<string, string>(),
+  provider: null as { chat(params: ChatParams): Promise<void> } | null,
+  requests: [] as { messages: any[]; tools: string[] }[],
+  listeners: { stream: new Set<(data: any) => void>(), toolCall: new Set<(data: any) => void>(), done: new Set<(data: any) => void>(), error: new Set<(data: any) => void>() },
+}))
+
+vi.mock('@/renderer/services/electronAPI', () => {
+  const on = (set: Set<(data: any) => void>) => (callback: (data: any) => void) => {
+    set.add(callback)
+    return () => set.delete(callback)
+  }
+  const emit = (set: Set<(data: any) => void>, data: any) => [...set].forEach(cb => cb(data))
+  const { listeners } = harness
+
+  // 与主进程 LLMService 相同的事件分发
+  const llm = {
+    send: async ({ config, messages, tools, systemPrompt }: any) => {
+      harness.requests.push({ messages: JSON.parse(JSON.stringify(messages)), tools: (tools || []).map((t: any) => t.name) })
+      await harness.provider!.chat({
+        model: config.model,
+        messages,
+        tools,
+        systemPrompt,
+        onStream: (chunk: any) => emit(listeners.stream, chunk),
+        onToolCall: (toolCall: any) => emit(listeners.toolCall, toolCall),
+        onComplete: (result: any) => emit(listeners.done, result),
+        onError: (error: any) => emit(listeners.error, { message: error.message, code: error.code, retryable: error.retryable }),
+      })
+    },
+    abort: () => {},
+    onStream: on(listeners.stream),
+    onToolCall: on(listeners.toolCall),
+    onDone: on(listeners.done),
+    onError: on(listeners.error),
+  }
+  const file = {
+    read: async (p: string) => harness.files.get(p) ?? null,
+    exists: async (p: string) => harness.files.has(p),
+  }
+
+  // 其余接口返回空结果
+  const stub = new Proxy({}, {
+    get: (_target, method: string) => method.startsWith('on') ? () => () => {} : async () => null,
+  })
+  return {
+    api: new Proxy({ llm, file } as Record<string, unknown>, {
+      get: (target, group: string) => new Proxy(target[group] || {}, {
+        get: (impl: any, method: string) => impl[method] ?? (stub as any)[method],
+      }),
+    }),
+  }
+})
+
+import { AgentService } from '@/renderer/agent/services/AgentService'
+import { useAgentStore } from '@/renderer/agent/store/AgentStore'
+import { initializeTools } from '@/renderer/agent/tools'
+import { useStore } from '@/renderer/store'
+import type { AssistantMessage } from '@/renderer/agent/types'
+
+const WORKSPACE = '/ws'
+const FIXTURES_DIR = path.resolve(__dirname, '../fixtures/llm')
+const CONFIG = { provider: 'openai', model: 'replay-model', apiKey: 'test' }
+const SYSTEM_PROMPT = 'You are a coding agent. Use tools to inspect the workspace before answering.'
+const TOOLS = ['read_file', 'list_directory']
+
+async function runScenario(scenario: string, prompt: string) {
+  harness.provider = new ReplayProvider({ mode: 'replay', fixturesDir: path.join(FIXTURES_DIR, scenario) })
+  harness.requests = []
+  useAgentStore.getState().createThread()
+
+  await AgentService.sendMessage(prompt, CONFIG, WORKSPACE, SYSTEM_PROMPT, 'agent', { allowedTools: TOOLS })
+
+  const messages = useAgentStore.getState().getMessages()
+  const assistant = messages.find(m => m.role === 'assistant') as AssistantMessage
+  return { assistant, messages, requests: harness.requests }
+}
+
+// StreamingBuffer 使用 rAF 批量刷新流式内容
+vi.stubGlobal('requestAnimationFrame', (callback: () => void) => setTimeout(callback, 0))
+vi.stubGlobal('cancelAnimationFrame', (id: ReturnType<typeof setTimeout>) => clearTimeout(id))
+
+beforeAll(async () => {
+  await initializeTools()
+})
+
+beforeEach(() => {
+  harness.files.clear()
+  harness.files.set('/ws/src/greet.ts', 'export function greet(name: string) {\n  return `Hello, ${name}!`\n}\n')
+  harness.files.set('/ws/src/math.ts', 'export const add = (a: number, b: number) => a + b\n')
+})
+
+describe('Agent loop replay', () => {
+  it('should stream text, reasoning and tool call deltas and feed tool results back', async () => {
+    const { assistant, messages, requests } = await runScenario('agent-loop', 'What does greet() return?')
+
+    expect(requests).toHaveLength(2)
+    expect(requests[0].tools).toEqual(TOOLS)
+    expect(requests[1].messages.slice(-2)).toMatchObject([
+      { role: 'assistant', tool_calls: [{ id: 'call_read_greet', function: { name: 'read_file' } }] },
+      { role: 'tool', tool_call_id: 'call_read_greet', content: expect.stringContaining('2:   return `Hello, ${name}!`') },
+    ])
+
+    expect(assistant.isStreaming).toBe(false)
+    expect(assistant.parts.find(p => p.type === 'reasoning')).toMatchObject({ content: 'I should read the source of greet() first.', isStreaming: false })
+    expect(assistant.content).toContain('Let me look at the file.')
+    expect(assistant.content).toContain('It returns a greeting such as "Hello, Ada!".')
+    expect(assistant.toolCalls).toMatchObject([
+      { id: 'call_read_greet', name: 'read_file', arguments: { path: 'src/greet.ts' }, status: 'success' },
+    ])
+    expect(messages.filter(m => m.role === 'tool')).toHaveLength(1)
+    expect(useAgentStore.getState().streamState.phase).toBe('idle')
+  })
+
+  it('should run independent tool calls together and keep results in call order', async () => {
+    const { assistant, requests } = await runScenario('parallel-tools', 'Summarize src/greet.ts and src/math.ts')
+
+    expect(requests).toHaveLength(2)
+    const toolMessages = requests[1].messages.filter(m => m.role === 'tool')
+    expect(toolMessages.map(m => m.tool_call_id)).toEqual(['call_greet', 'call_math', 'call_missing'])
+    expect(toolMessages[1].content).toContain('1: export const add')
+    expect(toolMessages[2].content).toContain('File not found')
+
+    expect(assistant.toolCalls?.map(tc => [tc.id, tc.status])).toEqual([
+      ['call_greet', 'success'],
+      ['call_math', 'success'],
+      ['call_missing', 'error'],
+    ])
+    expect(assistant.content).toContain('greet.ts formats a greeting and math.ts adds two numbers.')
+  })
+
+  it('should stop the loop when the model repeats the same tool calls', async () => {
+    const { assistant, requests } = await runScenario('repeat-loop', 'Compare the two files')
+
+    // 第二轮重复 A→B 后停止，不再发起第三次请求
+    expect(requests).toHaveLength(2)
+    expect(assistant.content).toContain('Detected repeating pattern: read_file → read_file')
+    expect(assistant.toolCalls?.map(tc => [tc.id, tc.status])).toEqual([
+      ['call_a1', 'success'],
+      ['call_b1', 'success'],
+      ['call_a2', 'pending'],
+      ['call_b2', 'pending'],
+    ])
+  })
+
+  it('should surface a missing recording as an error instead of calling the network', async () => {
+    useStore.setState(state => ({ agentConfig: { ...state.agentConfig, maxRetries: 0 } }))
+    const { assistant, requests } = await runScenario('agent-loop', 'A prompt that was never recorded')
+
+    expect(requests).toHaveLength(1)
+    expect(assistant.content).toContain('No recorded response for request')
+  })
+})
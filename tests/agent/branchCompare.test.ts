@@ -0,0 +1,92 @@
+/**
+ * 对话分支对比与挑选测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  MAINLINE_BRANCH_ID,
+  resolveBranchMessages,
+  compareBranches,
+  prepareCherryPick,
+} from '@renderer/agent/utils/branchCompare'
+import type { ChatMessage, UserMessage, AssistantMessage, ToolResultMessage, ToolCall, MessageCheckpoint } from '@renderer/agent/types'
+import type { Branch } from '@renderer/agent/store/slices/branchSlice'
+
+const user = (id: string, content = id): UserMessage => ({ id, role: 'user', content, timestamp: 0 })
+
+function edit(id: string, filePath: string, oldContent: string, newContent: string): ToolCall {
+  return { id, name: 'edit_file', arguments: { path: filePath, _meta: { filePath, oldContent, newContent } }, status: 'success' }
+}
+
+// apply_patch 的完整内容在 fileChanges 中，_meta.files 只有路径和行数
+function patch(id: string, filePath: string, oldContent: string, newContent: string): ToolCall {
+  const change = { filePath, changeType: 'modify' as const, linesAdded: 1, linesRemoved: 1 }
+  return {
+    id, name: 'apply_patch', arguments: { patch: '...', _meta: { files: [change] } }, status: 'success',
+    fileChanges: [{ ...change, oldContent, newContent }],
+  }
+}
+
+const assistant = (id: string, toolCalls: ToolCall[] = []): AssistantMessage => ({
+  id,
+  role: 'assistant',
+  content: `reply ${id}`,
+  timestamp: 0,
+  parts: toolCalls.map(toolCall => ({ type: 'tool_call' as const, toolCall })),
+  toolCalls,
+})
+
+const toolResult = (id: string, toolCallId: string): ToolResultMessage => ({
+  id, role: 'tool', toolCallId, name: 'edit_file', content: 'ok', timestamp: 0, type: 'success',
+})
+
+const branch = (id: string, forkFromMessageId: string, messages: ChatMessage[]): Branch => ({
+  id, name: id, forkFromMessageId, createdAt: 0, messages, isActive: false,
+})
+
+// 主线: u1 a1 | u2 a2(改 a.ts、b.ts)；分支 B 从 u1 分叉: u3 a3(改 a.ts)
+const common = [user('u1'), assistant('a1')]
+const mainTail: ChatMessage[] = [user('u2'), assistant('a2', [edit('t2', '/ws/a.ts', 'A0', 'A-main'), patch('t3', '/ws/b.ts', 'B0', 'B1')]), toolResult('r2', 't2'), toolResult('r3', 't3')]
+const branchTail: ChatMessage[] = [user('u3'), assistant('a3', [edit('t4', '/ws/a.ts', 'A0', 'A-branch')]), toolResult('r4', 't4')]
+
+describe('resolveBranchMessages', () => {
+  it('should rebuild mainline and branch messages from either side', () => {
+    const onMain = [branch('b', 'a1', branchTail)]
+    expect(resolveBranchMessages([...common, ...mainTail], onMain, null, 'b').map(m => m.id)).toEqual(['u1', 'a1', 'u3', 'a3', 'r4'])
+
+    const onBranch = [branch('b', 'a1', []), branch(MAINLINE_BRANCH_ID, 'a1', mainTail)]
+    const threadMessages = [...common, ...branchTail]
+    expect(resolveBranchMessages(threadMessages, onBranch, 'b', null).map(m => m.id)).toEqual(['u1', 'a1', 'u2', 'a2', 'r2', 'r3'])
+    expect(resolveBranchMessages(threadMessages, onBranch, 'b', 'b')).toBe(threadMessages)
+  })
+})
+
+describe('compareBranches', () => {
+  it('should split off the shared prefix and compare resulting file contents', () => {
+    const checkpoints: MessageCheckpoint[] = [
+      { id: 'cp-u3', messageId: 'u3', timestamp: 0, description: '', fileSnapshots: { '/ws/a.ts': { path: '/ws/a.ts', content: 'A-snapshot' } } },
+    ]
+    const result = compareBranches([...common, ...mainTail], [...common, ...branchTail], checkpoints)
+
+    expect(result.commonCount).toBe(2)
+    expect(result.left.map(m => m.id)).toEqual(['u2', 'a2', 'r2', 'r3'])
+    expect(result.files.map(f => [f.path, f.status])).toEqual([['/ws/a.ts', 'different'], ['/ws/b.ts', 'left']])
+    expect(result.files[0].right).toMatchObject({ before: 'A-snapshot', after: 'A-branch', messageIds: ['a3'], checkpointIds: ['cp-u3'] })
+    expect(result.files[1].left).toMatchObject({ before: 'B0', after: 'B1', checkpointIds: [] })
+  })
+})
+
+describe('prepareCherryPick', () => {
+  it('should carry tool results along with assistant messages under fresh ids', () => {
+    let n = 0
+    const picked = prepareCherryPick(mainTail, ['a2'], () => `new-${++n}`)
+
+    expect(picked.map(m => m.role)).toEqual(['assistant', 'tool', 'tool'])
+    const [copy, result] = picked as [AssistantMessage, ToolResultMessage]
+    expect(copy.id).not.toBe('a2')
+    expect(copy.toolCalls!.map(tc => tc.id)).toEqual(['new-1', 'new-2'])
+    expect(copy.parts.map(p => p.type === 'tool_call' && p.toolCall.id)).toEqual(['new-1', 'new-2'])
+    expect(result.toolCallId).toBe('new-1')
+    expect(prepareCherryPick(mainTail, ['r2'])).toEqual([])
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * Agent 调试会话测试（模拟调试适配器事件）
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+const harness = vi.hoisted(() => ({
+  listeners: new Set<(data: any) => void>(),
+  calls: [] as string[],
+  breakpoints: new Map<string, { line: number; condition?: string }[]>(),
+}))
+
+vi.mock('@/renderer/services/electronAPI', () => {
+  const emit = (sessionId: string, event: any) => setTimeout(() => harness.listeners.forEach(cb => cb({ sessionId, event })), 5)
+  const ok = (name: string, after?: (id: string) => void) => async (id: string) => {
+    harness.calls.push(name)
+    after?.(id)
+    return { success: true }
+  }
+  return {
+    api: {
+      file: {
+        read: async () => 'function add(a, b) {\n  const sum = a + b\n  return sum\n}\n',
+      },
+      debug: {
+        onEvent: (cb: (data: any) => void) => { harness.listeners.add(cb); return () => harness.listeners.delete(cb) },
+        createSession: async () => ({ success: true, sessionId: 'debug-1' }),
+        setBreakpoints: async (_id: string, file: string, bps: { line: number; condition?: string }[]) => {
+          harness.breakpoints.set(file, bps)
+          return { success: true }
+        },
+        launch: ok('launch', id => {
+          emit(id, { type: 'output', category: 'stdout', output: 'starting\n' })
+          emit(id, { type: 'stopped', reason: 'breakpoint', threadId: 1 })
+        }),
+        continue: ok('continue', id => emit(id, { type: 'exited', exitCode: 0 })),
+        stepOver: ok('stepOver'),
+        stop: ok('stop'),
+        getAllSessions: async () => [],
+        getStackTrace: async () => ({
+          success: true,
+          frames: [
+            { id: 7, name: 'add', line: 2, column: 3, source: { path: '/ws/src/math.js' } },
+            { id: 8, name: 'main', line: 10, column: 1, source: { path: '/ws/src/index.js' } },
+          ],
+        }),
+        getScopes: async () => ({
+          success: true,
+          scopes: [
+            { name: 'Local', variablesReference: 1, expensive: false },
+            { name: 'Global', variablesReference: 2, expensive: true },
+          ],
+        }),
+        getVariables: async (_id: string, ref: number) => ({
+          success: true,
+          variables: ref === 1
+            ? [{ name: 'a', value: '1', type: 'number', variablesReference: 0 }, { name: 'opts', value: 'Object', type: 'object', variablesReference: 3 }]
+            : [{ name: 'strict', value: 'true', type: 'boolean', variablesReference: 0 }],
+        }),
+        evaluate: async (_id: string, expression: string, frameId?: number) => ({ success: true, result: { result: `${expression}@${frameId}`, type: 'number' } }),
+      },
+    },
+  }
+})
+
+import { debugSessionService, formatVariables } from '@/renderer/agent/services/debugSessionService'
+import { useStore } from '@/renderer/store'
+
+describe('debugSessionService', () => {
+  it('should launch, wait for the first pause and show the session in the debug panel', async () => {
+    useStore.getState().addBreakpoint('/ws/src/math.js', 2, 'a > 0')
+
+    const { sessionId, result } = await debugSessionService.launch({ type: 'node', name: 'repro', request: 'launch', program: '/ws/src/index.js' }, 1000)
+
+    expect(sessionId).toBe('debug-1')
+    expect(harness.breakpoints.get('/ws/src/math.js')).toEqual([{ line: 2, condition: 'a > 0' }])
+    expect(result).toMatchObject({ state: 'paused', reason: 'breakpoint', frame: { name: 'add', line: 2 }, output: 'starting\n' })
+    expect(useStore.getState()).toMatchObject({ activeSessionId: 'debug-1', debugVisible: true })
+
+    const text = await debugSessionService.formatStopResult(result, '/ws')
+    expect(text).toContain('Paused (breakpoint) at add (src/math.js:2)')
+    expect(text).toContain('>    2 |   const sum = a + b')
+  })
+
+  it('should read variables, skipping expensive scopes, and evaluate in the selected frame', async () => {
+    const sessionId = debugSessionService.resolveSessionId()
+    const scopes = await debugSessionService.getVariables(sessionId, 0, { depth: 1 })
+
+    expect(scopes.map(s => s.scope)).toEqual(['Local'])
+    expect(formatVariables(scopes[0].variables)).toEqual([
+      '  a: number = 1',
+      '  opts: object = Object',
+      '    strict: boolean = true',
+    ])
+    expect(await debugSessionService.evaluate(sessionId, 'a + 1', 1)).toEqual({ result: 'a + 1@8', type: 'number' })
+  })
+
+  it('should report termination after continue and time out while running', async () => {
+    const sessionId = debugSessionService.resolveSessionId()
+
+    const stepped = await debugSessionService.step(sessionId, 'step_over', 20)
+    expect(stepped.state).toBe('running')
+
+    const finished = await debugSessionService.step(sessionId, 'continue', 1000)
+    expect(finished).toMatchObject({ state: 'stopped', exitCode: 0 })
+    expect(await debugSessionService.formatStopResult(finished, '/ws')).toBe('Program terminated with exit code 0')
+
+    await debugSessionService.stop(sessionId)
+    expect(harness.calls).toEqual(['launch', 'stepOver', 'continue', 'stop'])
+    expect(useStore.getState().activeSessionId).toBeNull()
+  })
+})
@@ -0,0 +1,36 @@
+/**
+ * 消息转换测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { buildOpenAIMessages } from '@renderer/agent/llm/MessageConverter'
+import type { AssistantMessage, ToolResultMessage, ToolCall } from '@renderer/agent/types'
+
+describe('buildOpenAIMessages', () => {
+  it('should not send UI-only tool call arguments back to the model', () => {
+    const toolCall: ToolCall = {
+      id: 't1',
+      name: 'spawn_subagent',
+      arguments: {
+        description: 'Find callers',
+        prompt: 'Find all callers of greet',
+        _subagent: { status: 'completed', turn: 3, steps: [{ id: 's1', name: 'read_file', summary: 'a.ts', status: 'success' }] },
+        _meta: { subagent: { status: 'completed' }, files: [{ filePath: '/ws/a.ts', oldContent: 'old', newContent: 'new' }] },
+      },
+      status: 'success',
+    }
+    const assistant: AssistantMessage = {
+      id: 'a1', role: 'assistant', content: '', timestamp: 0,
+      parts: [{ type: 'tool_call', toolCall }], toolCalls: [toolCall],
+    }
+    const result: ToolResultMessage = {
+      id: 'r1', role: 'tool', toolCallId: 't1', name: 'spawn_subagent', content: 'report', timestamp: 0, type: 'success',
+    }
+
+    const [message] = buildOpenAIMessages([assistant, result])
+    expect(JSON.parse(message.tool_calls![0].function.arguments)).toEqual({
+      description: 'Find callers',
+      prompt: 'Find all callers of greet',
+    })
+  })
+})
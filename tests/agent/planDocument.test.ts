@@ -0,0 +1,113 @@
+/**
+ * 计划文档测试：依赖解析、下一步选择、步骤变更记录与 Markdown / 恢复提示渲染
+ */
+
+import { describe, it, expect } from 'vitest'
+import { create } from 'zustand'
+import { createThreadSlice, createPlanSlice, type ThreadSlice, type PlanSlice } from '@renderer/agent/store/slices'
+import {
+  getNextPlanStep,
+  getRunnableSteps,
+  getPlanFileBase,
+  renderPlanMarkdown,
+  buildResumePrompt,
+} from '@renderer/agent/utils/planDocument'
+
+function createPlanStore() {
+  const store = create<ThreadSlice & PlanSlice>()((...args) => ({
+    ...createThreadSlice(...args),
+    ...createPlanSlice(...args),
+  }))
+  store.getState().createThread()
+  store.getState().createPlan([
+    { title: 'Schema', acceptanceCriteria: ['migration runs'] },
+    { title: 'API', dependsOn: [1, 2, 'missing'] },
+    { title: 'UI', dependsOn: ['API'] },
+    { title: 'Docs', description: 'README' },
+  ], 'User profiles')
+  return store
+}
+
+describe('plan dependencies', () => {
+  it('should resolve step numbers and titles to ids and link the current thread', () => {
+    const plan = createPlanStore().getState().plan!
+    const [schema, api, ui] = plan.items
+
+    expect(plan.title).toBe('User profiles')
+    expect(plan.threadIds).toHaveLength(1)
+    expect(api.dependsOn).toEqual([schema.id])
+    expect(ui.dependsOn).toEqual([api.id])
+    expect(schema.acceptanceCriteria).toEqual(['migration runs'])
+  })
+
+  it('should pick in-progress steps first, then the first step whose dependencies are done', () => {
+    const store = createPlanStore()
+    const [schema, api, , docs] = store.getState().plan!.items
+
+    expect(getRunnableSteps(store.getState().plan!).map(item => item.title)).toEqual(['Schema', 'Docs'])
+
+    store.getState().updatePlanItem(docs.id, { status: 'in_progress' })
+    expect(getNextPlanStep(store.getState().plan!)?.id).toBe(docs.id)
+
+    store.getState().updatePlanItem(docs.id, { status: 'completed' })
+    store.getState().updatePlanItem(schema.id, { status: 'skipped' })
+    expect(getNextPlanStep(store.getState().plan!)?.id).toBe(api.id)
+
+    store.getState().updatePlanItem(api.id, { status: 'failed' })
+    expect(getNextPlanStep(store.getState().plan!)).toBeNull()
+  })
+
+  it('should record files and checkpoints on the in-progress step only', () => {
+    const store = createPlanStore()
+    const [schema] = store.getState().plan!.items
+
+    store.getState().recordPlanStepChange('src/db.ts', 'cp-1')
+    expect(store.getState().plan!.items.every(item => !item.files)).toBe(true)
+
+    store.getState().updatePlanItem(schema.id, { status: 'in_progress' })
+    store.getState().recordPlanStepChange('src/db.ts', 'cp-1')
+    store.getState().recordPlanStepChange('src/db.ts', 'cp-2')
+    store.getState().recordPlanStepChange('migrations/001.sql', 'cp-2')
+
+    expect(store.getState().plan!.items[0]).toMatchObject({
+      files: ['src/db.ts', 'migrations/001.sql'],
+      checkpointIds: ['cp-1', 'cp-2'],
+    })
+
+    // 未关联计划的会话中的修改不记录到计划
+    const threadIds = store.getState().plan!.threadIds
+    store.getState().createThread()
+    store.getState().recordPlanStepChange('src/unrelated.ts', 'cp-3')
+    expect(store.getState().plan!.items[0].files).toEqual(['src/db.ts', 'migrations/001.sql'])
+    expect(store.getState().plan!.threadIds).toEqual(threadIds)
+  })
+})
+
+describe('plan rendering', () => {
+  const store = createPlanStore()
+  const [schema, api] = store.getState().plan!.items
+  store.getState().updatePlanItem(schema.id, { status: 'completed', files: ['src/db.ts'], checkpointIds: ['0123456789abcdef'] })
+  const plan = store.getState().plan!
+
+  it('should render the checklist parsed by the preview and a details section', () => {
+    const markdown = renderPlanMarkdown(plan)
+
+    expect(markdown).toContain(`- [x] ✅ [id: ${schema.id}] Schema\n`)
+    expect(markdown).toContain(`- [ ] ⬜ [id: ${api.id}] API\n`)
+    expect(markdown).toContain('  > README\n')
+    expect(markdown).toContain('### 2. API\n\n- Depends on: 1. Schema\n')
+    expect(markdown).toContain('- Acceptance criteria:\n  - migration runs\n- Files: `src/db.ts`\n- Checkpoints: `01234567`\n')
+    expect(markdown).toContain(`*Plan ID: ${plan.id}*`)
+    expect(getPlanFileBase(plan)).toBe(`User_profiles_${plan.id.slice(0, 8)}`)
+  })
+
+  it('should describe the next step with its dependencies when resuming', () => {
+    const prompt = buildResumePrompt(plan, api, '.adnify/plans/p.md')
+
+    expect(prompt).toContain('Resume the plan "User profiles" (.adnify/plans/p.md).')
+    expect(prompt).toContain('- [x] 1. Schema (files: src/db.ts)')
+    expect(prompt).toContain(`## Next step: 2. API (id: ${api.id})`)
+    expect(prompt).toContain('Depends on: 1. Schema')
+    expect(buildResumePrompt(plan, schema, 'p.md', 'zh')).toContain('验收标准：\n- migration runs')
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * Worktree 隔离运行测试（在临时仓库中执行真实 git 命令）
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { execFileSync } from 'child_process'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+vi.mock('@/renderer/services/electronAPI', () => ({
+  api: {
+    git: {
+      execSecure: async (args: string[], cwd: string) => {
+        try {
+          const stdout = execFileSync('git', args, { cwd, encoding: 'utf-8', stdio: 'pipe' })
+          return { success: true, stdout, stderr: '', exitCode: 0 }
+        } catch (e: any) {
+          return { success: false, stdout: e.stdout || '', stderr: e.stderr || '', exitCode: e.status || 1 }
+        }
+      },
+    },
+    file: {
+      read: async (p: string) => fs.existsSync(p) ? fs.readFileSync(p, 'utf-8') : null,
+      write: async (p: string, content: string) => { fs.writeFileSync(p, content); return true },
+      ensureDir: async (p: string) => { fs.mkdirSync(p, { recursive: true }); return true },
+    },
+  },
+}))
+
+import { worktreeService } from '@/renderer/agent/services/worktreeService'
+import type { WorktreeInfo } from '@/renderer/agent/types'
+
+let workspace: string
+
+const git = (...args: string[]) => execFileSync('git', args, { cwd: workspace, encoding: 'utf-8' }).trim()
+
+beforeAll(() => {
+  workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'adnify-worktree-'))
+  git('init', '-q', '-b', 'main')
+  git('config', 'user.email', 'test@example.com')
+  git('config', 'user.name', 'Test')
+  fs.writeFileSync(path.join(workspace, 'a.txt'), 'one\ntwo\n')
+  fs.writeFileSync(path.join(workspace, 'b.txt'), 'remove me\n')
+  git('add', '-A')
+  git('commit', '-q', '-m', 'init')
+})
+
+afterAll(() => {
+  fs.rmSync(workspace, { recursive: true, force: true })
+})
+
+describe('worktreeService', () => {
+  it('should map paths between a worktree and its workspace', () => {
+    const worktreePath = path.join(workspace, '.adnify', 'worktrees', 'abc')
+    expect(worktreeService.getOwnerWorkspace(path.join(worktreePath, 'src', 'x.ts'))).toBe(workspace)
+    expect(worktreeService.getOwnerWorkspace(path.join(workspace, 'src', 'x.ts'))).toBeNull()
+    expect(worktreeService.mapToOwner(path.join(worktreePath, 'a.txt'), worktreePath)).toBe(path.join(workspace, 'a.txt'))
+    expect(worktreeService.mapFromOwner(path.join(workspace, 'a.txt'), worktreePath)).toBe(path.join(worktreePath, 'a.txt'))
+  })
+
+  it('should isolate changes and merge them back', async () => {
+    // 主工作区未提交的改动不受影响
+    fs.writeFileSync(path.join(workspace, 'wip.txt'), 'uncommitted\n')
+
+    const created = await worktreeService.create(workspace, 'Rename things!')
+    expect(created.success).toBe(true)
+    const worktree = created.worktree as WorktreeInfo
+    expect(worktree.branch).toMatch(/^adnify\/rename-things-/)
+    expect(worktree.baseBranch).toBe('main')
+    expect(git('status', '--porcelain')).toBe('?? wip.txt')
+
+    fs.writeFileSync(path.join(worktree.path, 'a.txt'), 'one\nTWO\n')
+    fs.writeFileSync(path.join(worktree.path, 'c.txt'), 'new\n')
+    fs.rmSync(path.join(worktree.path, 'b.txt'))
+
+    const review = await worktreeService.buildReview(worktree)
+    expect(review.changes.map(c => [c.relativePath, c.changeType, c.linesAdded, c.linesRemoved])).toEqual([
+      ['a.txt', 'modify', 1, 1],
+      ['b.txt', 'delete', 0, 1],
+      ['c.txt', 'create', 1, 0],
+    ])
+    expect(review.diff).toContain('File: a.txt')
+    expect(fs.readFileSync(path.join(workspace, 'a.txt'), 'utf-8')).toBe('one\ntwo\n')
+
+    const merged = await worktreeService.merge(worktree, 'Rename things')
+    expect(merged).toEqual({ success: true })
+    expect(fs.readFileSync(path.join(workspace, 'a.txt'), 'utf-8')).toBe('one\nTWO\n')
+    expect(fs.existsSync(worktree.path)).toBe(false)
+    expect(git('branch', '--list', 'adnify/*')).toBe('')
+    expect(fs.existsSync(path.join(workspace, 'wip.txt'))).toBe(true)
+  })
+
+  it('should discard a worktree and its branch', async () => {
+    const { worktree } = await worktreeService.create(workspace, 'throwaway')
+    fs.writeFileSync(path.join(worktree!.path, 'a.txt'), 'scratch\n')
+
+    expect(await worktreeService.discard(worktree!)).toEqual({ success: true, error: undefined })
+    expect(fs.existsSync(worktree!.path)).toBe(false)
+    expect(git('branch', '--list', 'adnify/*')).toBe('')
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * 费用计算、账本累计与预算检查测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  getModelPricing,
+  calculateCost,
+  createEmptyLedger,
+  addToLedger,
+  getMonthCost,
+  checkBudgets,
+  formatCost,
+  formatBudgetStatus,
+} from '@/renderer/services/costService'
+
+const usage = (promptTokens: number, completionTokens: number, cacheReadTokens = 0) => ({
+  promptTokens,
+  completionTokens,
+  totalTokens: promptTokens + completionTokens,
+  cacheReadTokens,
+})
+
+describe('pricing', () => {
+  it('should prefer user overrides, then builtin prices, then the same model under another provider', () => {
+    const overrides = { 'openai/gpt-4o': { input: 2, output: 8 }, 'custom-corp/llama-70b': { input: 0.5, output: 0.5 } }
+
+    expect(getModelPricing('openai', 'gpt-4o', overrides)).toEqual({ input: 2, output: 8 })
+    expect(getModelPricing('anthropic', 'claude-3-5-haiku-20241022')).toMatchObject({ input: 0.8, output: 4 })
+    expect(getModelPricing('custom-proxy', 'gpt-4o-mini')).toMatchObject({ input: 0.15, output: 0.6 })
+    expect(getModelPricing('custom-other', 'llama-70b', overrides)).toEqual({ input: 0.5, output: 0.5 })
+    expect(getModelPricing('ollama', 'qwen2.5-coder')).toBeUndefined()
+  })
+
+  it('should bill cached prompt tokens at the cache price', () => {
+    const pricing = { input: 3, output: 15, cacheRead: 0.3 }
+    // 800k 未缓存输入 + 200k 缓存读取 + 100k 输出
+    expect(calculateCost(usage(1_000_000, 100_000, 200_000), pricing)).toBeCloseTo(2.4 + 0.06 + 1.5)
+    expect(calculateCost(usage(1000, 1000), undefined)).toBe(0)
+  })
+})
+
+describe('ledger', () => {
+  const day1 = new Date(2026, 9, 18, 10).getTime()
+  const day2 = new Date(2026, 9, 19, 9).getTime()
+  const lastMonth = new Date(2026, 8, 30, 23).getTime()
+
+  let ledger = createEmptyLedger()
+  ledger = addToLedger(ledger, { threadId: 't1', provider: 'openai', model: 'gpt-4o', usage: usage(1000, 500), timestamp: lastMonth }, 4)
+  ledger = addToLedger(ledger, { threadId: 't1', provider: 'openai', model: 'gpt-4o', usage: usage(1000, 500), timestamp: day1 }, 1.5)
+  ledger = addToLedger(ledger, { threadId: 't2', provider: 'anthropic', model: 'claude-3-5-haiku-20241022', usage: usage(2000, 100), timestamp: day2 }, 0.25)
+
+  it('should accumulate by thread, day, model and workspace', () => {
+    expect(ledger.total).toEqual({ cost: 5.75, promptTokens: 4000, completionTokens: 1100, requests: 3 })
+    expect(ledger.threads.t1).toMatchObject({ cost: 5.5, requests: 2, updatedAt: day1 })
+    expect(Object.keys(ledger.days)).toEqual(['2026-09-30', '2026-10-18', '2026-10-19'])
+    expect(ledger.models['openai/gpt-4o'].cost).toBe(5.5)
+    expect(getMonthCost(ledger, day2)).toBe(1.75)
+  })
+
+  it('should report hard budgets over soft ones for the same scope', () => {
+    expect(checkBudgets(ledger, { thread: { soft: 5, hard: 5.5 }, daily: { soft: 0.2, hard: 1 }, monthly: { soft: 2 } }, 't1', day2)).toEqual([
+      { scope: 'thread', level: 'hard', spent: 5.5, limit: 5.5 },
+      { scope: 'daily', level: 'soft', spent: 0.25, limit: 0.2 },
+    ])
+    expect(checkBudgets(ledger, { monthly: { soft: 1 } }, null, day2)).toEqual([{ scope: 'monthly', level: 'soft', spent: 1.75, limit: 1 }])
+    expect(checkBudgets(ledger, {}, 't1', day2)).toEqual([])
+  })
+
+  it('should format small amounts and budget messages', () => {
+    expect([formatCost(0), formatCost(0.0042), formatCost(12.345)]).toEqual(['$0.00', '$0.0042', '$12.35'])
+    expect(formatBudgetStatus({ scope: 'daily', level: 'hard', spent: 10.5, limit: 10 })).toBe('Spend for today reached the hard budget: $10.50 / $10.00')
+  })
+})
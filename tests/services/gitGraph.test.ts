@@ -0,0 +1,58 @@
+/**
+ * 提交图测试：分支 / 合并泳道布局与引用装饰解析
+ */
+
+import { describe, it, expect } from 'vitest'
+import { computeGraphLayout, parseRefDecorations } from '@/renderer/utils/gitGraph'
+
+describe('computeGraphLayout', () => {
+  it('should open a lane for the second parent of a merge and close it at the fork point', () => {
+    const { rows, columns } = computeGraphLayout([
+      { hash: 'm', parents: ['b', 'f'] },
+      { hash: 'f', parents: ['a'] },
+      { hash: 'b', parents: ['a'] },
+      { hash: 'a', parents: [] },
+    ])
+
+    expect(columns).toBe(2)
+    expect(rows.map(r => r.column)).toEqual([0, 1, 0, 0])
+    expect(rows[0].bottom).toEqual([
+      { from: 0, to: 0, color: 0 },
+      { from: 0, to: 1, color: 1 },
+    ])
+    expect(rows[1].top.map(e => [e.from, e.to])).toEqual([[0, 0], [1, 1]])
+    expect(rows[1].bottom.map(e => [e.from, e.to])).toEqual([[0, 0], [1, 1]])
+    // b 与 f 的父提交都是 a：f 所在泳道直到 a 才汇入
+    expect(rows[2].top.map(e => [e.from, e.to])).toEqual([[0, 0], [1, 1]])
+    expect(rows[3].top.map(e => [e.from, e.to])).toEqual([[0, 0], [1, 0]])
+    expect(rows[3].bottom).toEqual([])
+  })
+
+  it('should converge sibling branches at their common parent', () => {
+    const { rows } = computeGraphLayout([
+      { hash: 'd', parents: ['b'] },
+      { hash: 'c', parents: ['b'] },
+      { hash: 'b', parents: ['x'] },
+    ])
+
+    expect(rows[1].column).toBe(1)
+    expect(rows[1].bottom.map(e => [e.from, e.to])).toEqual([[0, 0], [1, 1]])
+    expect(rows[2].column).toBe(0)
+    expect(rows[2].top.map(e => [e.from, e.to])).toEqual([[0, 0], [1, 0]])
+    // 父提交不在列表中时泳道延续到底部
+    expect(rows[2].bottom.map(e => [e.from, e.to])).toEqual([[0, 0]])
+  })
+})
+
+describe('parseRefDecorations', () => {
+  it('should classify head, local, remote and tag refs', () => {
+    expect(parseRefDecorations('HEAD -> main, origin/main, origin/HEAD, tag: v1.0, feature/x')).toEqual([
+      { name: 'HEAD', type: 'head' },
+      { name: 'main', type: 'branch' },
+      { name: 'origin/main', type: 'remote' },
+      { name: 'v1.0', type: 'tag' },
+      { name: 'feature/x', type: 'branch' },
+    ])
+    expect(parseRefDecorations('')).toEqual([])
+  })
+})
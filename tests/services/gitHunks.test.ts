@@ -0,0 +1,71 @@
+/**
+ * Git 变更块测试：变更块计算、单块补丁生成、行号映射与还原
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  computeHunks,
+  getHunkKind,
+  buildHunkPatch,
+  mapLineThroughHunks,
+  getHunkLineRange,
+  revertHunk,
+  getMinimalEdit,
+} from '@/renderer/utils/gitHunks'
+
+const base = 'a\nb\nc\nd\ne\nf\ng\nh\n'
+const changed = 'a\nB\nc\nd\ne\nf\nx\ny\ng\n'
+
+describe('computeHunks', () => {
+  it('should group adjacent removals and additions and classify them', () => {
+    const hunks = computeHunks(base, changed)
+
+    expect(hunks).toEqual([
+      { oldStart: 1, oldLines: ['b'], newStart: 1, newLines: ['B'] },
+      { oldStart: 6, oldLines: [], newStart: 6, newLines: ['x', 'y'] },
+      { oldStart: 7, oldLines: ['h'], newStart: 9, newLines: [] },
+    ])
+    expect(hunks.map(getHunkKind)).toEqual(['modified', 'added', 'deleted'])
+    expect(hunks.map(h => getHunkLineRange(h))).toEqual([
+      { startLineNumber: 2, endLineNumber: 2 },
+      { startLineNumber: 7, endLineNumber: 8 },
+      { startLineNumber: 9, endLineNumber: 9 },
+    ])
+  })
+})
+
+describe('buildHunkPatch', () => {
+  it('should build a single-hunk patch with context from the old side', () => {
+    const [, added] = computeHunks(base, changed)
+    expect(buildHunkPatch('src\\f.txt', base, changed, added)).toBe(
+      '--- a/src/f.txt\n+++ b/src/f.txt\n@@ -4,5 +4,7 @@\n d\n e\n f\n+x\n+y\n g\n h\n'
+    )
+  })
+
+  it('should mark missing newlines at the end of either side', () => {
+    const [hunk] = computeHunks('a\nb', 'a\nc\n')
+    expect(buildHunkPatch('f', 'a\nb', 'a\nc\n', hunk)).toBe(
+      '--- a/f\n+++ b/f\n@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+c\n'
+    )
+
+    const [inner] = computeHunks('a\nb\nc', 'A\nb\nc')
+    expect(buildHunkPatch('f', 'a\nb\nc', 'A\nb\nc', inner).endsWith(' b\n c\n\\ No newline at end of file\n')).toBe(true)
+    expect(buildHunkPatch('f', '', 'x\n', computeHunks('', 'x\n')[0])).toContain('@@ -0,0 +1,1 @@\n+x\n')
+  })
+})
+
+describe('hunk mapping and revert', () => {
+  it('should map old lines past earlier hunks and revert a single hunk', () => {
+    const hunks = computeHunks(base, changed)
+    expect([0, 1, 5, 6, 7].map(line => mapLineThroughHunks(line, hunks))).toEqual([0, 1, 5, 8, 9])
+
+    expect(revertHunk(base, changed, hunks[1])).toBe('a\nB\nc\nd\ne\nf\ng\n')
+    expect(revertHunk(base, changed, hunks[2])).toBe('a\nB\nc\nd\ne\nf\nx\ny\ng\nh\n')
+    expect(revertHunk('a\nb', 'a\nc\n', computeHunks('a\nb', 'a\nc\n')[0])).toBe('a\nb')
+  })
+
+  it('should reduce a full replacement to the changed span', () => {
+    expect(getMinimalEdit('abcXYZdef', 'abc12def')).toEqual({ start: 3, end: 6, text: '12' })
+    expect(getMinimalEdit('aaa', 'aaaa')).toEqual({ start: 3, end: 3, text: 'a' })
+  })
+})
@@ -0,0 +1,158 @@
+/**
+ * Headless Agent 测试（使用本地 mock LLM 服务）
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as http from 'http'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import type { AddressInfo } from 'net'
+import { HeadlessAgent } from '@main/services/headless/HeadlessAgent'
+import { executeHeadlessTool } from '@main/services/headless/HeadlessTools'
+import { parseCliArgs, CliUsageError } from '@main/services/headless/args'
+import type { HeadlessEvent, HeadlessOptions } from '@main/services/headless/types'
+
+type MockReply = { content?: string; toolCall?: { name: string; arguments: Record<string, unknown> } }
+
+/** OpenAI 兼容的流式 mock 服务，按顺序返回预设回复 */
+function createMockServer(replies: MockReply[]) {
+  const requests: any[] = []
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      requests.push(JSON.parse(body))
+      const reply = replies[Math.min(requests.length - 1, replies.length - 1)]
+      const delta = reply.toolCall
+        ? { tool_calls: [{ index: 0, id: `call_${requests.length}`, type: 'function', function: { name: reply.toolCall.name, arguments: JSON.stringify(reply.toolCall.arguments) } }] }
+        : { content: reply.content }
+      const chunks = [
+        { id: 'mock', object: 'chat.completion.chunk', choices: [{ index: 0, delta: { role: 'assistant', ...delta }, finish_reason: null }] },
+        { id: 'mock', object: 'chat.completion.chunk', choices: [{ index: 0, delta: {}, finish_reason: reply.toolCall ? 'tool_calls' : 'stop' }], usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } },
+      ]
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+      for (const chunk of chunks) res.write(`data: ${JSON.stringify(chunk)}\n\n`)
+      res.end('data: [DONE]\n\n')
+    })
+  })
+  return { server, requests }
+}
+
+async function runAgent(replies: MockReply[], overrides: Partial<HeadlessOptions> = {}) {
+  const { server, requests } = createMockServer(replies)
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const port = (server.address() as AddressInfo).port
+
+  const events: HeadlessEvent[] = []
+  const agent = new HeadlessAgent({
+    workspace,
+    mode: 'agent',
+    prompt: 'Read hello.txt',
+    approval: 'deny',
+    llm: { provider: 'openai', model: 'mock-model', apiKey: 'test', baseUrl: `http://127.0.0.1:${port}/v1` },
+    ...overrides,
+  }, event => events.push(event))
+
+  try {
+    const status = await agent.run()
+    return { status, events, requests }
+  } finally {
+    await new Promise(resolve => server.close(resolve))
+  }
+}
+
+let workspace: string
+
+beforeAll(() => {
+  workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'adnify-headless-'))
+  fs.writeFileSync(path.join(workspace, 'hello.txt'), 'hello world')
+})
+
+afterAll(() => {
+  fs.rmSync(workspace, { recursive: true, force: true })
+})
+
+describe('HeadlessAgent', () => {
+  it('should run tools and feed results back to the model', async () => {
+    const { status, events, requests } = await runAgent([
+      { toolCall: { name: 'read_file', arguments: { path: 'hello.txt' } } },
+      { content: 'The file says hello world' },
+    ])
+
+    expect(status).toBe('completed')
+    expect(events.find(e => e.type === 'tool_result')).toMatchObject({ name: 'read_file', success: true, result: '1: hello world' })
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', status: 'completed', turns: 2, content: 'The file says hello world' })
+    expect(events.find(e => e.type === 'usage')).toMatchObject({ promptTokens: 20, completionTokens: 10 })
+
+    const toolMessage = requests[1].messages.find((m: any) => m.role === 'tool')
+    expect(toolMessage.content).toBe('1: hello world')
+  })
+
+  it('should deny tools that need approval by default', async () => {
+    const { events } = await runAgent([
+      { toolCall: { name: 'run_command', arguments: { command: 'echo hi' } } },
+      { content: 'ok' },
+    ])
+
+    const result = events.find(e => e.type === 'tool_result')
+    expect(result).toMatchObject({ name: 'run_command', success: false })
+  })
+
+  it('should reject paths outside the workspace', async () => {
+    const { events } = await runAgent([
+      { toolCall: { name: 'read_file', arguments: { path: '../outside.txt' } } },
+      { content: 'ok' },
+    ])
+
+    const result = events.find(e => e.type === 'tool_result') as Extract<HeadlessEvent, { type: 'tool_result' }>
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('Security')
+  })
+
+  it('should stop at max turns', async () => {
+    const { status } = await runAgent(
+      [{ toolCall: { name: 'list_directory', arguments: { path: '.' } } }],
+      { maxTurns: 2 }
+    )
+    expect(status).toBe('max_turns')
+  })
+})
+
+describe('headless run_command', () => {
+  it('should go through the shared command checks', async () => {
+    const ok = await executeHeadlessTool('run_command', { command: 'echo hi' }, workspace)
+    expect(ok).toMatchObject({ success: true, result: 'hi' })
+
+    const dangerous = await executeHeadlessTool('run_command', { command: 'cat /etc/passwd' }, workspace)
+    expect(dangerous.success).toBe(false)
+    expect(dangerous.result).toContain('Command blocked')
+  })
+
+  it('should enforce deny rules from the permission policy', async () => {
+    fs.mkdirSync(path.join(workspace, '.adnify'), { recursive: true })
+    fs.writeFileSync(path.join(workspace, '.adnify', 'settings.json'), JSON.stringify({
+      permissions: { rules: [{ action: 'deny', commands: ['^git\\s+push'], reason: 'No pushes' }] },
+    }))
+    try {
+      const denied = await executeHeadlessTool('run_command', { command: 'git push origin main' }, workspace)
+      expect(denied.success).toBe(false)
+      expect(denied.result).toContain('No pushes')
+    } finally {
+      fs.rmSync(path.join(workspace, '.adnify'), { recursive: true, force: true })
+    }
+  })
+})
+
+describe('parseCliArgs', () => {
+  it('should parse run options', () => {
+    const parsed = parseCliArgs(['run', '-w', '/tmp', '--mode=plan', '--approval', 'auto', 'fix', 'tests'], {})
+    expect(parsed.options).toMatchObject({ workspace: path.resolve('/tmp'), mode: 'plan', approval: 'auto', prompt: 'fix tests' })
+    expect(parsed.options?.llm.provider).toBe('openai')
+  })
+
+  it('should reject invalid usage', () => {
+    expect(() => parseCliArgs(['run', '--mode', 'yolo'], {})).toThrow(CliUsageError)
+    expect(() => parseCliArgs(['deploy'], {})).toThrow(CliUsageError)
+  })
+})
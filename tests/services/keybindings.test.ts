@@ -0,0 +1,91 @@
+/**
+ * 快捷键工具测试：组合键解析与匹配、冲突检测、when 表达式、VS Code 导入
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseKeybinding,
+  formatKeybinding,
+  strokeMatchesEvent,
+  keybindingsConflict,
+  evaluateWhen,
+  parseVSCodeKeybindings,
+} from '@/renderer/utils/keybindings'
+
+const keyEvent = (key: string, code: string, mods: { ctrl?: boolean; shift?: boolean; alt?: boolean; meta?: boolean } = {}) => ({
+  key,
+  code,
+  ctrlKey: !!mods.ctrl,
+  shiftKey: !!mods.shift,
+  altKey: !!mods.alt,
+  metaKey: !!mods.meta,
+})
+
+describe('parseKeybinding', () => {
+  it('should parse chords and normalize VS Code style keys', () => {
+    expect(parseKeybinding('ctrl+k ctrl+s')).toHaveLength(2)
+    expect(formatKeybinding('ctrl+k ctrl+s')).toBe('Ctrl+K Ctrl+S')
+    expect(formatKeybinding('shift+cmd+up')).toBe('Shift+Meta+ArrowUp')
+    expect(formatKeybinding('Ctrl++')).toBe('Ctrl++')
+    expect(parseKeybinding('')).toEqual([])
+  })
+
+  it('should match events by physical key or by typed symbol', () => {
+    const [toggleTerminal] = parseKeybinding('Ctrl+Shift+`')
+    expect(strokeMatchesEvent(toggleTerminal, keyEvent('~', 'Backquote', { ctrl: true, shift: true }))).toBe(true)
+    expect(strokeMatchesEvent(toggleTerminal, keyEvent('`', 'Backquote', { ctrl: true }))).toBe(false)
+
+    const [help] = parseKeybinding('?')
+    expect(strokeMatchesEvent(help, keyEvent('?', 'Slash', { shift: true }))).toBe(true)
+
+    const [palette] = parseKeybinding('Ctrl+Shift+P')
+    expect(strokeMatchesEvent(palette, keyEvent('P', 'KeyP', { ctrl: true, shift: true }))).toBe(true)
+    expect(strokeMatchesEvent(palette, keyEvent('p', 'KeyP', { ctrl: true }))).toBe(false)
+  })
+})
+
+describe('keybindingsConflict', () => {
+  it('should flag equal or prefix sequences only within the same when clause', () => {
+    expect(keybindingsConflict({ key: 'Ctrl+K' }, { key: 'ctrl+k ctrl+s' })).toBe(true)
+    expect(keybindingsConflict({ key: 'Ctrl+K Ctrl+S' }, { key: 'Ctrl+K Ctrl+T' })).toBe(false)
+    expect(keybindingsConflict({ key: 'Ctrl+F', when: 'editorFocus' }, { key: 'Ctrl+F', when: 'terminalFocus' })).toBe(false)
+    expect(keybindingsConflict({ key: 'Ctrl+F', when: 'editorFocus' }, { key: 'ctrl+f', when: ' editorFocus ' })).toBe(true)
+  })
+})
+
+describe('evaluateWhen', () => {
+  const contexts: Record<string, unknown> = { editorFocus: true, agentRunning: false, resourceLangId: 'typescript' }
+  const get = (key: string) => contexts[key]
+
+  it('should evaluate operators, precedence and comparisons', () => {
+    expect(evaluateWhen(undefined, get)).toBe(true)
+    expect(evaluateWhen('editorFocus && !agentRunning', get)).toBe(true)
+    expect(evaluateWhen('terminalFocus || editorFocus && agentRunning', get)).toBe(false)
+    expect(evaluateWhen('(terminalFocus || editorFocus) && !agentRunning', get)).toBe(true)
+    expect(evaluateWhen("resourceLangId == 'typescript'", get)).toBe(true)
+    expect(evaluateWhen('resourceLangId != typescript', get)).toBe(false)
+  })
+
+  it('should treat malformed expressions as false', () => {
+    expect(evaluateWhen('editorFocus &&', get)).toBe(false)
+    expect(evaluateWhen('resourceFilename =~ /foo/', get)).toBe(false)
+  })
+})
+
+describe('parseVSCodeKeybindings', () => {
+  it('should read JSONC with comments and trailing commas', () => {
+    const text = `// Place your key bindings in this file
+[
+  { "key": "ctrl+k ctrl+s", "command": "workbench.action.openGlobalKeybindings" },
+  /* remove default */
+  { "key": "ctrl+p", "command": "-workbench.action.quickOpen", "when": "" },
+  { "key": "ctrl+\`", "command": "workbench.action.terminal.toggleTerminal", "when": "terminal.active" },
+]`
+    expect(parseVSCodeKeybindings(text)).toEqual([
+      { key: 'ctrl+k ctrl+s', command: 'workbench.action.openGlobalKeybindings' },
+      { key: 'ctrl+p', command: '-workbench.action.quickOpen' },
+      { key: 'ctrl+`', command: 'workbench.action.terminal.toggleTerminal', when: 'terminal.active' },
+    ])
+    expect(() => parseVSCodeKeybindings('{}')).toThrow()
+  })
+})
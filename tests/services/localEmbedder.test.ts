@@ -0,0 +1,57 @@
+/**
+ * 本地 Embedding 提供商测试（transformers.js 以 mock 替代，不下载模型）
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { EmbeddingService } from '@main/indexing/embedder'
+import type { ModelLoadProgress } from '@main/indexing/types'
+
+const { pipeline, env, batches } = vi.hoisted(() => {
+  const batches: string[][] = []
+  const env: Record<string, unknown> = {}
+  const pipeline = vi.fn(async (_task: string, _model: string, options: { progress_callback?: (info: unknown) => void }) => {
+    options.progress_callback?.({ status: 'initiate', name: 'm', file: 'config.json' })
+    options.progress_callback?.({ status: 'progress', name: 'm', file: 'config.json', progress: 100, loaded: 100, total: 100 })
+    options.progress_callback?.({ status: 'progress', name: 'm', file: 'onnx/model_quantized.onnx', progress: 50, loaded: 450, total: 900 })
+    return async (texts: string[]) => {
+      batches.push(texts)
+      return {
+        tolist: () => texts.map(t => [t.length, 1]),
+        dispose: () => undefined,
+      }
+    }
+  })
+  return { pipeline, env, batches }
+})
+
+vi.mock('@huggingface/transformers', () => ({ pipeline, env }))
+
+describe('EmbeddingService (local)', () => {
+  it('should load the model once into the cache dir and report progress', async () => {
+    const progress: ModelLoadProgress[] = []
+    const service = new EmbeddingService(
+      { provider: 'local', cacheDir: '/cfg/models', baseUrl: 'https://mirror.example/' },
+      { onModelProgress: p => progress.push(p) }
+    )
+
+    await service.prepare()
+    await new EmbeddingService({ provider: 'local', cacheDir: '/cfg/models' }).prepare()
+
+    expect(pipeline).toHaveBeenCalledTimes(1)
+    expect(pipeline.mock.calls[0][1]).toBe('Xenova/all-MiniLM-L6-v2')
+    expect(pipeline.mock.calls[0][2]).toMatchObject({ cache_dir: '/cfg/models', dtype: 'q8' })
+    expect(env).toMatchObject({ cacheDir: '/cfg/models', localModelPath: '/cfg/models', remoteHost: 'https://mirror.example/' })
+    expect(progress.map(p => p.status)).toEqual(['loading', 'downloading', 'downloading', 'ready'])
+    expect(progress[2].progress).toBe(55)
+  })
+
+  it('should embed in batches of the configured size', async () => {
+    batches.length = 0
+    const service = new EmbeddingService({ provider: 'local', cacheDir: '/cfg/models', batchSize: 2 })
+
+    const vectors = await service.embedBatch(['a', 'bb', 'ccc', 'dddd', 'eeeee'])
+
+    expect(batches.map(b => b.length)).toEqual([2, 2, 1])
+    expect(vectors).toEqual([[1, 1], [2, 1], [3, 1], [4, 1], [5, 1]])
+  })
+})
@@ -0,0 +1,59 @@
+/**
+ * MCP SSE 事件读取测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { readSseEvents, type McpSseEvent } from '@main/services/mcp/transports/sseReader'
+
+// 辅助函数：把字符串分块构造成流
+function createStream(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk))
+      }
+      controller.close()
+    },
+  })
+}
+
+async function collect(chunks: string[]): Promise<McpSseEvent[]> {
+  const events: McpSseEvent[] = []
+  await readSseEvents(createStream(chunks), (event) => events.push(event))
+  return events
+}
+
+describe('readSseEvents', () => {
+  it('should parse event, data and id fields', async () => {
+    const events = await collect(['event: endpoint\ndata: /messages?session=1\nid: 7\n\n'])
+    expect(events).toEqual([{ event: 'endpoint', data: '/messages?session=1', id: '7' }])
+  })
+
+  it('should default event name to message', async () => {
+    const events = await collect(['data: {"jsonrpc":"2.0","id":1}\n\n'])
+    expect(events[0].event).toBe('message')
+    expect(JSON.parse(events[0].data)).toEqual({ jsonrpc: '2.0', id: 1 })
+  })
+
+  it('should join multi-line data', async () => {
+    const events = await collect(['data: line1\ndata: line2\n\n'])
+    expect(events[0].data).toBe('line1\nline2')
+  })
+
+  it('should ignore comment lines', async () => {
+    const events = await collect([': keep-alive\n\n', 'data: x\n\n'])
+    expect(events).toHaveLength(1)
+    expect(events[0].data).toBe('x')
+  })
+
+  it('should handle events split across chunks', async () => {
+    const events = await collect(['da', 'ta: hel', 'lo\r', '\n\r\n'])
+    expect(events).toEqual([{ event: 'message', data: 'hello', id: undefined }])
+  })
+
+  it('should dispatch trailing event when stream ends without blank line', async () => {
+    const events = await collect(['data: tail'])
+    expect(events[0].data).toBe('tail')
+  })
+})
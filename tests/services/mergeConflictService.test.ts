@@ -0,0 +1,69 @@
+/**
+ * 合并冲突解决测试：冲突标记解析、base 映射、结果拼接与模型输出解析
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseConflictSegments,
+  getConflictHunks,
+  attachBase,
+  buildResolvedContent,
+  getHunkContext,
+  parseMergeResponse,
+} from '@/renderer/services/mergeConflictService'
+
+// git merge 生成的冲突文件（非 diff3 风格）
+const conflicted = 'a\nb\n<<<<<<< HEAD\nC1\nd\ne\nf\nextra\n=======\nC2\nd\ne\nF2\n>>>>>>> other\n'
+const stages = {
+  base: 'a\nb\nc\nd\ne\nf\n',
+  ours: 'a\nb\nC1\nd\ne\nf\nextra\n',
+  theirs: 'a\nb\nC2\nd\ne\nF2\n',
+}
+
+describe('parseConflictSegments', () => {
+  it('should split text and conflicts and read diff3 base sections', () => {
+    const segments = parseConflictSegments(conflicted)
+    expect(segments.map(s => s.type)).toEqual(['text', 'conflict', 'text'])
+
+    const [hunk] = getConflictHunks(segments)
+    expect(hunk).toMatchObject({ index: 0, ours: ['C1', 'd', 'e', 'f', 'extra'], theirs: ['C2', 'd', 'e', 'F2'], base: null, oursLabel: 'HEAD', theirsLabel: 'other' })
+
+    const [diff3] = getConflictHunks(parseConflictSegments('<<<<<<< ours\nx\n||||||| base\ny\n=======\nz\n>>>>>>> theirs'))
+    expect(diff3.base).toEqual(['y'])
+  })
+
+  it('should keep unterminated markers as text', () => {
+    expect(parseConflictSegments('a\n<<<<<<< HEAD\nb')).toEqual([{ type: 'text', lines: ['a', '<<<<<<< HEAD', 'b'] }])
+  })
+})
+
+describe('attachBase', () => {
+  it('should map the ours side of each conflict back to the common ancestor', () => {
+    const [hunk] = getConflictHunks(attachBase(parseConflictSegments(conflicted), stages))
+    expect(hunk.base).toEqual(['c', 'd', 'e', 'f'])
+  })
+
+  it('should leave base unknown once the ours side was edited', () => {
+    const edited = conflicted.replace('C1', 'C1 edited')
+    const [hunk] = getConflictHunks(attachBase(parseConflictSegments(edited), stages))
+    expect(hunk.base).toBeNull()
+  })
+})
+
+describe('buildResolvedContent', () => {
+  it('should splice resolutions and keep markers for unresolved hunks', () => {
+    const segments = parseConflictSegments(`${conflicted}mid\n<<<<<<< HEAD\nx\n=======\ny\n>>>>>>> other\n`)
+    expect(buildResolvedContent(segments, { 1: ['x', 'y'] })).toBe(`${conflicted}mid\nx\ny\n`)
+    expect(buildResolvedContent(segments, { 0: ['C', 'd'], 1: [] })).toBe('a\nb\nC\nd\nmid\n')
+    expect(getHunkContext(segments, 1, 1)).toEqual({ before: ['mid'], after: [''] })
+  })
+})
+
+describe('parseMergeResponse', () => {
+  it('should extract the resolved block and reject leftover markers', () => {
+    expect(parseMergeResponse('Here:\n<resolved>\nfoo()\nbar()\n</resolved>')).toEqual(['foo()', 'bar()'])
+    expect(parseMergeResponse('```ts\nfoo()\n```')).toEqual(['foo()'])
+    expect(parseMergeResponse('<resolved></resolved>')).toEqual([])
+    expect(parseMergeResponse('<resolved>\n<<<<<<< HEAD\nx\n</resolved>')).toBeNull()
+  })
+})
@@ -0,0 +1,90 @@
+/**
+ * 模型路由与备用模型切换测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { modelRouter, resolveRouteConfigs, isFallbackError, type RoutingSettings } from '@/renderer/services/modelRouter'
+import { defaultLLMConfig } from '@/renderer/services/settingsService'
+import { costService } from '@/renderer/services/costService'
+
+const settings: RoutingSettings = {
+  llmConfig: { ...defaultLLMConfig, provider: 'anthropic', model: 'claude-sonnet-4-20250514', apiKey: '' },
+  providerConfigs: {
+    anthropic: { apiKey: 'sk-ant' },
+    openai: { apiKey: 'sk-openai', baseUrl: 'https://proxy.example.com/v1' },
+    gemini: {},
+  },
+  modelRouting: {
+    compaction: {
+      target: { provider: 'openai', model: 'gpt-4o-mini' },
+      fallbacks: [
+        { provider: 'gemini', model: 'gemini-1.5-flash' },
+        { provider: 'openai', model: 'gpt-4o-mini' },
+        { provider: '', model: '' },
+      ],
+    },
+    agent: { fallbacks: [{ provider: 'openai', model: 'gpt-4o' }] },
+  },
+}
+
+describe('resolveRouteConfigs', () => {
+  it('should use the main model with the provider API key when no target is routed', () => {
+    const [primary, ...fallbacks] = resolveRouteConfigs('agent', settings)
+    expect(primary).toMatchObject({ provider: 'anthropic', model: 'claude-sonnet-4-20250514', apiKey: 'sk-ant' })
+    expect(fallbacks.map(c => [c.provider, c.model, c.apiKey])).toEqual([['openai', 'gpt-4o', 'sk-openai']])
+    expect(resolveRouteConfigs('chat', settings)).toHaveLength(1)
+  })
+
+  it('should build routed targets from provider configs and skip duplicates', () => {
+    const configs = resolveRouteConfigs('compaction', settings)
+    expect(configs.map(c => `${c.provider}/${c.model}`)).toEqual(['openai/gpt-4o-mini', 'gemini/gemini-1.5-flash'])
+    expect(configs[0]).toMatchObject({ apiKey: 'sk-openai', baseUrl: 'https://proxy.example.com/v1', parameters: settings.llmConfig.parameters })
+    expect(configs[0].adapterConfig).toBeDefined()
+  })
+})
+
+describe('modelRouter.run', () => {
+  const configs = resolveRouteConfigs('compaction', settings)
+
+  it('should fall back only on rate-limit, quota and auth errors', async () => {
+    expect(['RATE_LIMIT', 'QUOTA_EXCEEDED', 'INVALID_API_KEY'].every(isFallbackError)).toBe(true)
+    expect(['TIMEOUT', 'CONTEXT_LENGTH_EXCEEDED', undefined].some(isFallbackError)).toBe(false)
+
+    const tried: string[] = []
+    const result = await modelRouter.run('compaction', async config => {
+      tried.push(config.model)
+      return tried.length === 1 ? { content: '', error: '429 Too Many Requests', errorCode: 'RATE_LIMIT' } : { content: 'summary' }
+    }, configs)
+
+    expect(tried).toEqual(['gpt-4o-mini', 'gemini-1.5-flash'])
+    expect(result).toEqual({ content: 'summary' })
+  })
+
+  it('should return other errors and the last fallback error as-is', async () => {
+    const tried: string[] = []
+    const timeout = await modelRouter.run('compaction', async config => {
+      tried.push(config.model)
+      return { error: 'timed out', errorCode: 'TIMEOUT' }
+    }, configs)
+    expect(tried).toEqual(['gpt-4o-mini'])
+    expect(timeout.errorCode).toBe('TIMEOUT')
+
+    const exhausted = await modelRouter.run('compaction', async () => ({ error: 'bad key', errorCode: 'INVALID_API_KEY' }), configs)
+    expect(exhausted).toEqual({ error: 'bad key', errorCode: 'INVALID_API_KEY' })
+  })
+
+  it('should record the usage of every attempt against the model that served it', async () => {
+    const before = costService.getLedger()
+    const usage = { promptTokens: 1_000_000, completionTokens: 0, totalTokens: 1_000_000 }
+
+    await modelRouter.run('compaction', async config => config.model === 'gpt-4o-mini'
+      ? { error: 'quota', errorCode: 'QUOTA_EXCEEDED', usage }
+      : { content: 'summary', usage }, configs, 'thread-1')
+
+    const ledger = costService.getLedger()
+    expect(ledger.total.requests - before.total.requests).toBe(2)
+    expect(ledger.models['openai/gpt-4o-mini'].cost).toBeCloseTo(0.15)
+    expect(ledger.models['gemini/gemini-1.5-flash'].cost).toBeCloseTo(0.075)
+    expect(ledger.threads['thread-1'].requests).toBe(2)
+  })
+})
@@ -0,0 +1,72 @@
+/**
+ * Prompt 缓存适配测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { PromptCache } from '@main/services/llm/adapters/promptCache'
+
+const EPHEMERAL = { type: 'ephemeral' }
+
+describe('PromptCache.applyAnthropic', () => {
+  it('should mark last tool, system and the two latest user messages', () => {
+    const request: Record<string, unknown> = {
+      tools: [{ name: 'a' }, { name: 'b' }],
+      system: [{ type: 'text', text: 'system prompt' }],
+      messages: [
+        { role: 'user', content: 'first' },
+        { role: 'assistant', content: [{ type: 'text', text: 'ok' }] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', content: 'result' }] },
+        { role: 'assistant', content: [{ type: 'text', text: 'done' }] },
+        { role: 'user', content: 'latest' },
+      ],
+    }
+
+    PromptCache.applyAnthropic(request)
+
+    const tools = request.tools as Array<Record<string, unknown>>
+    expect(tools[0].cache_control).toBeUndefined()
+    expect(tools[1].cache_control).toEqual(EPHEMERAL)
+    expect((request.system as Array<Record<string, unknown>>)[0].cache_control).toEqual(EPHEMERAL)
+
+    const messages = request.messages as Array<{ content: unknown }>
+    expect(messages[0].content).toBe('first')
+    expect(messages[2].content).toEqual([{ type: 'tool_result', tool_use_id: 't1', content: 'result', cache_control: EPHEMERAL }])
+    expect(messages[4].content).toEqual([{ type: 'text', text: 'latest', cache_control: EPHEMERAL }])
+  })
+
+  it('should never use more than four breakpoints', () => {
+    const request: Record<string, unknown> = {
+      tools: [{ name: 'a' }],
+      system: 'system prompt',
+      messages: Array.from({ length: 6 }, (_, i) => ({ role: 'user', content: `m${i}` })),
+    }
+
+    PromptCache.applyAnthropic(request)
+
+    expect(JSON.stringify(request).match(/cache_control/g)).toHaveLength(4)
+  })
+})
+
+describe('PromptCache usage parsing', () => {
+  it('should add cached tokens back to Anthropic prompt tokens', () => {
+    const usage = PromptCache.parseAnthropicUsage({
+      input_tokens: 10,
+      output_tokens: 5,
+      cache_read_input_tokens: 900,
+      cache_creation_input_tokens: 100,
+    })
+    expect(usage).toEqual({
+      promptTokens: 1010,
+      completionTokens: 5,
+      totalTokens: 1015,
+      cacheReadTokens: 900,
+      cacheWriteTokens: 100,
+    })
+  })
+
+  it('should read cached tokens from OpenAI-compatible usage', () => {
+    expect(PromptCache.parseOpenAICacheUsage({ prompt_tokens_details: { cached_tokens: 64 } })).toEqual({ cacheReadTokens: 64 })
+    expect(PromptCache.parseOpenAICacheUsage({ prompt_cache_hit_tokens: 32 })).toEqual({ cacheReadTokens: 32 })
+    expect(PromptCache.parseOpenAICacheUsage({ prompt_tokens: 10 })).toEqual({})
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * 录制 / 回放 Provider 测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { ReplayProvider, hashChatRequest, getReplayOptionsFromEnv } from '@main/services/llm/providers/replay'
+import { LLMErrorClass, LLMErrorCode, type ChatParams, type LLMProvider } from '@main/services/llm/types'
+import { parseCliArgs, CliUsageError } from '@main/services/headless/args'
+
+type Captured = { type: string; data: unknown }
+
+/** 按顺序记录回调，便于比较录制与回放 */
+function createParams(overrides: Partial<ChatParams> = {}): { params: ChatParams; events: Captured[]; done: Promise<void> } {
+  const events: Captured[] = []
+  let finish!: () => void
+  const done = new Promise<void>(resolve => { finish = resolve })
+  const params: ChatParams = {
+    model: 'gpt-test',
+    messages: [{ role: 'user', content: 'hi' }],
+    tools: [{ name: 'read_file', description: 'Read a file', parameters: { type: 'object', properties: {} } }],
+    onStream: chunk => events.push({ type: 'stream', data: chunk }),
+    onToolCall: toolCall => events.push({ type: 'tool_call', data: toolCall }),
+    onComplete: result => { events.push({ type: 'complete', data: result }); finish() },
+    onError: error => { events.push({ type: 'error', data: { message: error.message, code: error.code } }); finish() },
+    ...overrides,
+  }
+  return { params, events, done }
+}
+
+const scriptedProvider = (run: (params: ChatParams) => void): LLMProvider => ({
+  chat: async (params) => run(params),
+})
+
+let fixturesDir: string
+
+beforeEach(() => {
+  fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'adnify-replay-'))
+})
+
+afterEach(() => {
+  fs.rmSync(fixturesDir, { recursive: true, force: true })
+})
+
+describe('ReplayProvider', () => {
+  it('should replay a recorded response in the same order', async () => {
+    const inner = scriptedProvider(p => {
+      p.onStream({ type: 'text', content: 'Reading' })
+      p.onStream({ type: 'tool_call_start', toolCallDelta: { id: 'c1', name: 'read_file' } })
+      p.onToolCall({ id: 'c1', name: 'read_file', arguments: { path: 'a.ts' } })
+      p.onComplete({ content: 'Reading', toolCalls: [{ id: 'c1', name: 'read_file', arguments: { path: 'a.ts' } }], usage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 } })
+    })
+
+    const recorded = createParams()
+    await new ReplayProvider({ mode: 'record', fixturesDir }, inner).chat(recorded.params)
+    const hash = hashChatRequest(recorded.params)
+    expect(fs.existsSync(path.join(fixturesDir, `${hash}.json`))).toBe(true)
+
+    const replayed = createParams()
+    await new ReplayProvider({ mode: 'replay', fixturesDir }).chat(replayed.params)
+    await replayed.done
+    expect(replayed.events).toEqual(recorded.events)
+  })
+
+  it('should record model errors but not user aborts', async () => {
+    const failing = scriptedProvider(p => p.onError(new LLMErrorClass('Rate limit exceeded', LLMErrorCode.RATE_LIMIT, 429, true)))
+    const recorded = createParams()
+    await new ReplayProvider({ mode: 'record', fixturesDir }, failing).chat(recorded.params)
+
+    const replayed = createParams()
+    await new ReplayProvider({ mode: 'replay', fixturesDir }).chat(replayed.params)
+    expect(replayed.events).toEqual([{ type: 'error', data: { message: 'Rate limit exceeded', code: LLMErrorCode.RATE_LIMIT } }])
+
+    const aborting = scriptedProvider(p => p.onError(new LLMErrorClass('Request aborted', LLMErrorCode.ABORTED)))
+    const aborted = createParams({ messages: [{ role: 'user', content: 'stop' }] })
+    await new ReplayProvider({ mode: 'record', fixturesDir }, aborting).chat(aborted.params)
+    expect(fs.readdirSync(fixturesDir)).toHaveLength(1)
+  })
+
+  it('should key fixtures by request content but not tool descriptions', () => {
+    const { params } = createParams()
+    const described = { ...params, tools: [{ ...params.tools![0], description: 'Reads a file from disk' }] }
+    expect(hashChatRequest(described)).toBe(hashChatRequest(params))
+    expect(hashChatRequest({ ...params, messages: [{ role: 'user', content: 'hello' }] })).not.toBe(hashChatRequest(params))
+  })
+
+  it('should report a missing fixture and stop on abort', async () => {
+    const missing = createParams()
+    await new ReplayProvider({ mode: 'replay', fixturesDir }).chat(missing.params)
+    expect(missing.events[0]).toMatchObject({ type: 'error', data: { code: LLMErrorCode.INVALID_REQUEST } })
+
+    const inner = scriptedProvider(p => {
+      p.onStream({ type: 'text', content: 'a' })
+      p.onComplete({ content: 'a' })
+    })
+    await new ReplayProvider({ mode: 'record', fixturesDir }, inner).chat(createParams().params)
+
+    const controller = new AbortController()
+    controller.abort()
+    const aborted = createParams({ signal: controller.signal })
+    await new ReplayProvider({ mode: 'replay', fixturesDir }).chat(aborted.params)
+    expect(aborted.events).toEqual([{ type: 'error', data: { message: 'Request aborted', code: LLMErrorCode.ABORTED } }])
+  })
+
+  it('should read the mode from the environment and CLI flags', () => {
+    expect(getReplayOptionsFromEnv({})).toBeNull()
+    expect(getReplayOptionsFromEnv({ ADNIFY_LLM_REPLAY: 'replay', ADNIFY_LLM_FIXTURES: fixturesDir })).toEqual({ mode: 'replay', fixturesDir })
+
+    const parsed = parseCliArgs(['run', '--replay', fixturesDir, '--model', 'm', 'task'], {})
+    expect(parsed.options?.replay).toEqual({ mode: 'replay', fixturesDir })
+    expect(() => parseCliArgs(['run', '--record', 'a', '--replay', 'b', '--model', 'm', 'task'], {})).toThrow(CliUsageError)
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * 搜索结果重排测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import * as http from 'http'
+import type { AddressInfo } from 'net'
+import { RerankService, heuristicRerank, tokenizeQuery } from '@main/indexing/reranker'
+import type { SearchResult } from '@main/indexing/types'
+
+function result(relativePath: string, score: number, symbols?: string[]): SearchResult {
+  return {
+    filePath: `/ws/${relativePath}`,
+    relativePath,
+    content: `// ${relativePath}`,
+    startLine: 1,
+    endLine: 10,
+    score,
+    type: 'function',
+    language: 'typescript',
+    symbols,
+  }
+}
+
+/** 兼容 Jina 格式的 mock 重排服务，按文档长度倒序打分 */
+async function withRerankServer(status: number, run: (url: string, requests: any[]) => Promise<void>) {
+  const requests: any[] = []
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      const parsed = JSON.parse(body)
+      requests.push(parsed)
+      if (status !== 200) {
+        res.writeHead(status)
+        res.end('unavailable')
+        return
+      }
+      const results = (parsed.documents as string[]).map((doc, index) => ({ index, relevance_score: Math.min(doc.length / 100, 1) }))
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ results }))
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  try {
+    await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}/rerank`, requests)
+  } finally {
+    await new Promise(resolve => server.close(resolve))
+  }
+}
+
+describe('tokenizeQuery', () => {
+  it('should keep identifiers and split camelCase parts', () => {
+    expect(tokenizeQuery('where is handleLogin called')).toEqual(
+      expect.arrayContaining(['where', 'handlelogin', 'handle', 'login', 'called'])
+    )
+  })
+})
+
+describe('heuristicRerank', () => {
+  it('should promote symbol matches and explain why', () => {
+    const ranked = heuristicRerank('handleLogin', [
+      result('src/utils/format.ts', 0.02),
+      result('src/auth/session.ts', 0.015, ['handleLogin', 'logout']),
+    ])
+    expect(ranked[0].relativePath).toBe('src/auth/session.ts')
+    expect(ranked[0].rerankReasons).toContain('symbol "handlelogin"')
+    expect(ranked[0].rerankScore).toBeGreaterThan(ranked[1].rerankScore!)
+  })
+
+  it('should prefer results near the active file', () => {
+    const ranked = heuristicRerank('config', [
+      result('packages/api/config.ts', 0.02),
+      result('packages/web/config.ts', 0.02),
+    ], { activeFile: '/ws/packages/web/app.ts' })
+    expect(ranked[0].relativePath).toBe('packages/web/config.ts')
+    expect(ranked[0].rerankReasons).toContain('same directory as active file')
+  })
+})
+
+describe('RerankService', () => {
+  const candidates = [result('a.ts', 0.03), result('b.ts', 0.02)]
+  candidates[1].content = 'x'.repeat(80)
+
+  it('should reorder by remote relevance scores', async () => {
+    await withRerankServer(200, async (url, requests) => {
+      const service = new RerankService({ provider: 'custom', baseUrl: url, model: 'mock-reranker' })
+      const ranked = await service.rerank('query', candidates)
+      expect(ranked.map(r => r.relativePath)).toEqual(['b.ts', 'a.ts'])
+      expect(ranked[0].rerankReasons).toEqual(['custom rerank'])
+      expect(requests[0]).toMatchObject({ model: 'mock-reranker', query: 'query', top_n: 2 })
+    })
+  })
+
+  it('should fall back to the heuristic when the endpoint fails', async () => {
+    await withRerankServer(503, async (url) => {
+      const service = new RerankService({ provider: 'jina', baseUrl: url })
+      const ranked = await service.rerank('query', candidates)
+      expect(ranked.map(r => r.relativePath)).toEqual(['a.ts', 'b.ts'])
+      expect(ranked[0].rerankScore).toBeDefined()
+    })
+  })
+
+  it('should leave fusion order untouched when disabled', async () => {
+    const service = new RerankService({ provider: 'none' })
+    expect(await service.rerank('query', candidates)).toBe(candidates)
+    expect(service.isEnabled()).toBe(false)
+  })
+})
@@ -0,0 +1,57 @@
+/**
+ * 工作区搜索替换测试：正则捕获组展开、逐项预览与选择性应用、glob 过滤
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildSearchRegex,
+  findReplaceMatches,
+  applyReplaceMatches,
+  matchesGlobs,
+  cleanAIReplacement,
+} from '@/renderer/services/searchReplaceService'
+
+const content = 'const foo = getFoo()\r\nlet bar = foo + foo\n// foo'
+
+describe('findReplaceMatches', () => {
+  it('should expand capture groups and build per-match line previews', () => {
+    const regex = buildSearchRegex('(?<kw>const|let) (\\w+)', { isRegex: true, isCaseSensitive: true, isWholeWord: false })!
+    const matches = findReplaceMatches(content, regex, '$<kw> $2Value$$ $10', true)
+
+    expect(matches.map(m => [m.line, m.column, m.replacement])).toEqual([
+      [1, 1, 'const fooValue$ const0'],
+      [2, 1, 'let barValue$ let0'],
+    ])
+    expect(matches[0].before).toBe('const foo = getFoo()')
+    expect(matches[0].after).toBe('const fooValue$ const0 = getFoo()')
+  })
+
+  it('should replace literally outside regex mode and respect whole word and selection', () => {
+    const regex = buildSearchRegex('foo', { isRegex: false, isCaseSensitive: true, isWholeWord: true })!
+    const matches = findReplaceMatches(content, regex, '$1', false)
+
+    expect(matches.map(m => [m.line, m.column])).toEqual([[1, 7], [2, 11], [2, 17], [3, 4]])
+    matches[2].selected = false
+    expect(applyReplaceMatches(content, matches)).toBe('const $1 = getFoo()\r\nlet bar = $1 + foo\n// $1')
+
+    expect(findReplaceMatches(content, regex, null, false).every(m => m.replacement === m.text)).toBe(true)
+    expect(buildSearchRegex('(', { isRegex: true, isCaseSensitive: false, isWholeWord: false })).toBeNull()
+  })
+})
+
+describe('matchesGlobs', () => {
+  it('should match name patterns at any depth and path patterns from the root', () => {
+    expect(matchesGlobs('src/a.ts', 'src/**/*.ts')).toBe(true)
+    expect(matchesGlobs('lib/a.ts', 'src/**/*.ts, *.tsx')).toBe(false)
+    expect(matchesGlobs('src\\ui\\b.tsx', 'src/**/*.ts, *.tsx')).toBe(true)
+    expect(matchesGlobs('node_modules/x/a.ts', undefined, 'node_modules')).toBe(false)
+    expect(matchesGlobs('src/a.test.ts', '*.ts', '*.test.ts')).toBe(false)
+  })
+})
+
+describe('cleanAIReplacement', () => {
+  it('should strip code fences and stray newlines', () => {
+    expect(cleanAIReplacement('```ts\nfooBar\n```', 'foo')).toBe('fooBar')
+    expect(cleanAIReplacement('<match>x</match>\n', 'y')).toBe('x')
+  })
+})
@@ -0,0 +1,65 @@
+/**
+ * 项目自定义斜杠命令测试（命令文件解析 + 模板渲染）
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseCommandFile, renderCommandTemplate } from '@renderer/services/slashCommandService'
+
+const RELEASE_NOTES = `---
+description: "Draft release notes"
+aliases: [rn, notes]
+mode: agent
+allowed-tools:
+  - read_file
+  - search_files
+model: gpt-4o-mini
+---
+Write release notes for $ARGUMENTS.
+Follow the format in @docs/RELEASE.md and focus on {{file}}.
+
+{{selection}}
+`
+
+describe('parseCommandFile', () => {
+  it('should read frontmatter fields and the template body', () => {
+    const command = parseCommandFile('release-notes', RELEASE_NOTES)
+    expect(command).toMatchObject({
+      name: 'release-notes',
+      description: 'Draft release notes',
+      aliases: ['rn', 'notes'],
+      mode: 'agent',
+      allowedTools: ['read_file', 'search_files'],
+      model: 'gpt-4o-mini',
+    })
+    expect(command.template.startsWith('Write release notes')).toBe(true)
+  })
+
+  it('should fall back to the first line when there is no frontmatter', () => {
+    const command = parseCommandFile('migration', 'Plan a database migration\n\nSteps: ...')
+    expect(command).toMatchObject({ description: 'Plan a database migration', aliases: [], mode: undefined, allowedTools: undefined })
+  })
+})
+
+describe('renderCommandTemplate', () => {
+  const files: Record<string, string> = { '/ws/docs/RELEASE.md': '## Added\n## Fixed' }
+  const readFile = async (path: string) => files[path.replace(/\\/g, '/')] ?? null
+
+  it('should interpolate arguments, selection, active file and @file references', async () => {
+    const { template } = parseCommandFile('release-notes', RELEASE_NOTES)
+    const prompt = await renderCommandTemplate(template, 'v1.2 $& ', {
+      workspacePath: '/ws',
+      activeFilePath: '/ws/src/app.ts',
+      selectedCode: 'const a = "@docs/RELEASE.md"',
+    }, readFile)
+
+    expect(prompt).toContain('Write release notes for v1.2 $&.')
+    expect(prompt).toContain('Follow the format in docs/RELEASE.md and focus on src/app.ts.')
+    expect(prompt).toContain('const a = "@docs/RELEASE.md"')
+    expect(prompt).toContain('docs/RELEASE.md:\n```\n## Added\n## Fixed\n```')
+  })
+
+  it('should append arguments when the template has no placeholder and keep unknown references', async () => {
+    const prompt = await renderCommandTemplate('Review @missing.ts', 'carefully', { workspacePath: '/ws' }, readFile)
+    expect(prompt).toBe('Review @missing.ts\n\ncarefully')
+  })
+})
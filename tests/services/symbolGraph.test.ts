@@ -0,0 +1,112 @@
+/**
+ * 符号图测试（Tree-sitter 提取 + 图查询）
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { TreeSitterChunker } from '@main/indexing/treeSitterChunker'
+import { SymbolExtractor } from '@main/indexing/symbolExtractor'
+import { SymbolGraphStore } from '@main/indexing/symbolGraph'
+
+const FILES: Record<string, string> = {
+  'tsconfig.json': `{
+  // 注释
+  "compilerOptions": { "baseUrl": ".", "paths": { "@lib/*": ["src/lib/*"] } },
+}`,
+  'src/lib/math.ts': `export function add(a: number, b: number) {
+  return a + b
+}
+
+export function sum(values: number[]) {
+  return values.reduce((acc, v) => add(acc, v), 0)
+}
+`,
+  'src/report.ts': `import { sum } from '@lib/math'
+import * as fs from 'fs'
+
+export function buildReport(values: number[]) {
+  const total = sum(values)
+  fs.writeFileSync('report.txt', String(total))
+  return total
+}
+`,
+  'src/main.js': `const { buildReport } = require('./report')
+
+function main() {
+  buildReport([1, 2, 3])
+}
+`,
+}
+
+let workspace: string
+let store: SymbolGraphStore
+
+const abs = (relativePath: string) => path.join(workspace, relativePath)
+
+beforeAll(async () => {
+  workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'adnify-graph-'))
+  for (const [file, content] of Object.entries(FILES)) {
+    fs.mkdirSync(path.dirname(abs(file)), { recursive: true })
+    fs.writeFileSync(abs(file), content)
+  }
+
+  const extractor = new SymbolExtractor(new TreeSitterChunker())
+  store = new SymbolGraphStore(workspace)
+  for (const file of Object.keys(FILES).filter(f => f.startsWith('src/'))) {
+    const graph = await extractor.extract(abs(file), FILES[file], workspace)
+    expect(graph).not.toBeNull()
+    store.upsertFile(graph!)
+  }
+})
+
+afterAll(() => {
+  fs.rmSync(workspace, { recursive: true, force: true })
+})
+
+describe('SymbolGraphStore', () => {
+  it('should find callers with their enclosing function', () => {
+    const callers = store.getCallers('sum')
+    expect(callers).toHaveLength(1)
+    expect(callers[0]).toMatchObject({ relativePath: path.join('src', 'report.ts'), line: 5, caller: 'buildReport' })
+
+    expect(store.getCallers('add').map(c => c.caller)).toEqual(['sum'])
+  })
+
+  it('should resolve callees to workspace definitions and skip externals', () => {
+    const [entry] = store.getCallees('buildReport')
+    expect(entry.definition.line).toBe(4)
+    expect(entry.callees.map(c => c.name)).toEqual(['sum'])
+    expect(entry.callees[0].definitions[0].relativePath).toBe(path.join('src', 'lib', 'math.ts'))
+  })
+
+  it('should resolve relative, require and tsconfig alias imports', () => {
+    const graph = store.getImportGraph(abs('src/report.ts'), 'both', 1)
+    expect(graph.imports.map(e => e.to)).toEqual([path.join('src', 'lib', 'math.ts')])
+    expect(graph.external).toEqual(['fs'])
+    expect(graph.importedBy.map(e => e.from)).toEqual([path.join('src', 'main.js')])
+
+    const deep = store.getImportGraph(abs('src/lib/math.ts'), 'importedBy', 2)
+    expect(deep.importedBy.map(e => e.from)).toEqual([path.join('src', 'report.ts'), path.join('src', 'main.js')])
+  })
+
+  it('should persist to disk and attach related definitions to search results', async () => {
+    await store.flush()
+    expect(fs.existsSync(path.join(workspace, '.adnify', 'index', 'symbol-graph.json'))).toBe(true)
+
+    const reloaded = new SymbolGraphStore(workspace)
+    await reloaded.load()
+    const [result] = reloaded.attachRelated([{
+      filePath: abs('src/report.ts'),
+      relativePath: path.join('src', 'report.ts'),
+      content: '',
+      startLine: 4,
+      endLine: 8,
+      score: 1,
+      type: 'function',
+      language: 'typescript',
+    }])
+    expect(result.related?.map(r => r.name)).toEqual(['sum'])
+  })
+})
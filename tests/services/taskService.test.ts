@@ -0,0 +1,130 @@
+/**
+ * 任务配置解析与问题匹配器测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseTasksConfig,
+  resolveTaskOrder,
+  resolveProblemMatchers,
+  matchProblems,
+  formatTaskResult,
+} from '@/renderer/services/taskService'
+
+describe('parseTasksConfig', () => {
+  it('should accept comments, trailing commas and compound tasks', () => {
+    const tasks = parseTasksConfig(`{
+      // 构建
+      "version": "2.0.0",
+      "tasks": [
+        { "label": "check", "command": "cargo check", "problemMatcher": "$rustc", },
+        /* 组合任务 */
+        { "label": "ci", "dependsOn": ["check"] },
+        { "label": "url", "command": "curl http://localhost:3000//health" },
+      ],
+    }`)
+
+    expect(tasks.map(t => t.label)).toEqual(['check', 'ci', 'url'])
+    expect(tasks[2].command).toBe('curl http://localhost:3000//health')
+  })
+
+  it('should reject tasks without a label or command', () => {
+    expect(() => parseTasksConfig('{ "tasks": [{ "command": "make" }] }')).toThrow('missing a "label"')
+    expect(() => parseTasksConfig('{ "tasks": [{ "label": "noop" }] }')).toThrow('needs a "command" or "dependsOn"')
+    expect(() => parseTasksConfig('{ "tasks": [{ "label": "a", "command": "x" }, { "label": "a", "command": "y" }] }')).toThrow('Duplicate task label')
+  })
+})
+
+describe('resolveTaskOrder', () => {
+  const tasks = parseTasksConfig(JSON.stringify({
+    tasks: [
+      { label: 'deploy', command: 'make deploy', dependsOn: ['build', 'lint'] },
+      { label: 'build', command: 'make', dependsOn: 'codegen' },
+      { label: 'lint', command: 'make lint', dependsOn: 'codegen' },
+      { label: 'codegen', command: 'make gen' },
+      { label: 'loop-a', command: 'a', dependsOn: 'loop-b' },
+      { label: 'loop-b', command: 'b', dependsOn: 'loop-a' },
+    ],
+  }))
+
+  it('should run dependencies first and only once', () => {
+    expect(resolveTaskOrder(tasks, 'deploy')).toEqual(['codegen', 'build', 'lint', 'deploy'])
+  })
+
+  it('should detect cycles and unknown tasks', () => {
+    expect(() => resolveTaskOrder(tasks, 'loop-a')).toThrow('Circular task dependency: loop-a -> loop-b -> loop-a')
+    expect(() => resolveTaskOrder(tasks, 'missing')).toThrow('Task not found: missing')
+  })
+})
+
+describe('matchProblems', () => {
+  it('should match single-line patterns relative to the task cwd', () => {
+    const output = [
+      'src/app.ts(12,5): error TS2322: Type \'string\' is not assignable to type \'number\'.',
+      'src/util.ts:3:1 - warning TS6133: \'x\' is declared but its value is never read.',
+      'Found 2 errors.',
+    ].join('\n')
+
+    expect(matchProblems(output, resolveProblemMatchers('$tsc'), '/ws')).toEqual([
+      { file: '/ws/src/app.ts', line: 12, column: 5, endLine: undefined, endColumn: undefined, severity: 1, code: '2322', message: 'Type \'string\' is not assignable to type \'number\'.', source: 'ts' },
+      { file: '/ws/src/util.ts', line: 3, column: 1, endLine: undefined, endColumn: undefined, severity: 2, code: '6133', message: '\'x\' is declared but its value is never read.', source: 'ts' },
+    ])
+  })
+
+  it('should match multi-line patterns, including looping ones', () => {
+    const rust = [
+      'error[E0308]: mismatched types',
+      '  --> src/main.rs:4:18',
+      '   |',
+      'warning: unused variable: `y`',
+      '  --> src/lib.rs:10:9',
+    ].join('\n')
+    expect(matchProblems(rust, resolveProblemMatchers('rustc'), '/ws').map(p => [p.file, p.line, p.severity, p.code, p.message])).toEqual([
+      ['/ws/src/main.rs', 4, 1, 'E0308', 'mismatched types'],
+      ['/ws/src/lib.rs', 10, 2, undefined, 'unused variable: `y`'],
+    ])
+
+    const stylish = [
+      '/ws/src/a.js',
+      '  1:10  error    \'foo\' is defined but never used  no-unused-vars',
+      '  3:1   warning  Unexpected console statement     no-console',
+      '',
+      '✖ 2 problems',
+    ].join('\n')
+    expect(matchProblems(stylish, resolveProblemMatchers(['$eslint-stylish']), '/ws').map(p => [p.file, p.line, p.column, p.code])).toEqual([
+      ['/ws/src/a.js', 1, 10, 'no-unused-vars'],
+      ['/ws/src/a.js', 3, 1, 'no-console'],
+    ])
+  })
+
+  it('should support inline matchers with a default severity and base directory', () => {
+    const matcher = {
+      owner: 'custom-lint',
+      severity: 'warning' as const,
+      fileLocation: ['relative', 'pkg'] as ['relative', string],
+      pattern: { regexp: '^LINT (\\S+)@(\\d+): (.*)$', file: 1, line: 2, message: 3 },
+    }
+    expect(matchProblems('LINT main.c@7: magic number', [matcher], '/ws')).toMatchObject([
+      { file: '/ws/pkg/main.c', line: 7, severity: 2, message: 'magic number', source: 'custom-lint' },
+    ])
+    expect(() => resolveProblemMatchers('$unknown')).toThrow('Unknown problem matcher: $unknown')
+  })
+})
+
+describe('formatTaskResult', () => {
+  it('should list dependency results and problems', () => {
+    const text = formatTaskResult({
+      label: 'build', status: 'failed', exitCode: 101, durationMs: 2100,
+      problems: [{ file: '/ws/src/main.rs', line: 4, column: 18, severity: 1, code: 'E0308', message: 'mismatched types', source: 'rustc' }],
+      dependencies: [{ label: 'codegen', status: 'succeeded', exitCode: 0, durationMs: 100, problems: [] }],
+    }, '/ws')
+
+    expect(text).toBe([
+      '[codegen] succeeded (exit code 0)',
+      'Task "build" failed (exit code 101) (2.1s)',
+      '',
+      '1 error(s), 0 warning(s):',
+      'src/main.rs:4:18 error[E0308]: mismatched types',
+    ].join('\n'))
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * 测试发现与结果解析测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseTestFile,
+  parseJestReport,
+  parseJUnitReport,
+  parseGoTestOutput,
+  formatTestRunSummary,
+  isTestFilePath,
+  type TestRunSummary,
+} from '@/renderer/services/testService'
+
+const WS = '/ws'
+
+describe('parseTestFile', () => {
+  it('should nest JS tests under describe blocks by indentation', () => {
+    const content = [
+      "describe('math', () => {",
+      "  describe('add', () => {",
+      "    it('adds numbers', () => {})",
+      "    it.skip(`handles NaN`, () => {})",
+      '  })',
+      "  test('sub', () => {})",
+      '})',
+      "test('top level', () => {})",
+    ].join('\n')
+
+    expect(parseTestFile(content, '/ws/math.test.ts', 'vitest').map(t => [t.fullName, t.line])).toEqual([
+      ['math add adds numbers', 3],
+      ['math add handles NaN', 4],
+      ['math sub', 6],
+      ['top level', 8],
+    ])
+  })
+
+  it('should parse pytest classes and go tests', () => {
+    const py = 'class TestAdd:\n    def test_ints(self):\n        pass\n\ndef test_free():\n    pass\n'
+    expect(parseTestFile(py, '/ws/test_math.py', 'pytest').map(t => t.fullName)).toEqual(['TestAdd::test_ints', 'test_free'])
+
+    const go = 'package math\n\nfunc TestAdd(t *testing.T) {}\nfunc helper(t *testing.T) {}\n'
+    expect(parseTestFile(go, '/ws/math_test.go', 'go')).toMatchObject([{ name: 'TestAdd', line: 3 }])
+  })
+
+  it('should recognize test files by name', () => {
+    expect(['a.test.ts', 'src/__tests__/a.js', 'test_a.py', 'a_test.go'].every(isTestFilePath)).toBe(true)
+    expect(['a.ts', 'latest.py', 'testing.go'].some(isTestFilePath)).toBe(false)
+  })
+})
+
+describe('result parsers', () => {
+  it('should parse jest / vitest JSON reports with failure locations', () => {
+    const results = parseJestReport({
+      testResults: [
+        {
+          name: '/ws/src/math.test.ts',
+          assertionResults: [
+            { title: 'adds', ancestorTitles: ['math'], status: 'passed', duration: 3 },
+            {
+              title: 'subtracts', ancestorTitles: ['math'], status: 'failed',
+              failureMessages: ['AssertionError: expected 1 to be 2\n    at /ws/node_modules/vitest/dist/index.js:1:1\n    at /ws/src/math.test.ts:9:15'],
+            },
+            { title: 'todo', ancestorTitles: ['math'], status: 'pending' },
+          ],
+        },
+        { name: '/ws/src/broken.test.ts', status: 'failed', message: 'SyntaxError: Unexpected token (/ws/src/broken.test.ts:2:4)' },
+      ],
+    }, WS)
+
+    expect(results.map(r => [r.fullName, r.status])).toEqual([
+      ['math adds', 'passed'],
+      ['math subtracts', 'failed'],
+      ['math todo', 'skipped'],
+      ['broken.test.ts', 'failed'],
+    ])
+    expect(results[1].location).toEqual({ file: '/ws/src/math.test.ts', line: 9, column: 15 })
+    expect(results[3].location).toMatchObject({ file: '/ws/src/broken.test.ts', line: 2 })
+  })
+
+  it('should parse pytest JUnit XML', () => {
+    const xml = `<testsuites><testsuite>
+      <testcase classname="tests.test_math.TestAdd" name="test_ints" time="0.002" />
+      <testcase classname="tests.test_math" name="test_div" time="0.010">
+        <failure message="assert 1 == 2">tests/test_math.py:14: in test_div
+    assert 1 == 2</failure>
+      </testcase>
+      <testcase classname="tests.test_math" name="test_skip"><skipped message="later" /></testcase>
+    </testsuite></testsuites>`
+
+    const results = parseJUnitReport(xml, WS)
+    expect(results.map(r => [r.fullName, r.status, r.file])).toEqual([
+      ['TestAdd::test_ints', 'passed', '/ws/tests/test_math.py'],
+      ['test_div', 'failed', '/ws/tests/test_math.py'],
+      ['test_skip', 'skipped', '/ws/tests/test_math.py'],
+    ])
+    expect(results[1].location).toMatchObject({ file: '/ws/tests/test_math.py', line: 14 })
+  })
+
+  it('should parse go test -json output and ignore subtests', () => {
+    const output = [
+      { Action: 'run', Test: 'TestAdd' },
+      { Action: 'output', Test: 'TestAdd', Output: '=== RUN   TestAdd\n' },
+      { Action: 'output', Test: 'TestAdd', Output: '    math_test.go:12: got 3, want 4\n' },
+      { Action: 'fail', Test: 'TestAdd/case', Elapsed: 0 },
+      { Action: 'fail', Test: 'TestAdd', Elapsed: 0.01 },
+      { Action: 'pass', Test: 'TestSub', Elapsed: 0 },
+      { Action: 'fail', Elapsed: 0.02 },
+    ].map(e => JSON.stringify(e)).join('\n')
+
+    const results = parseGoTestOutput(output)
+    expect(results.map(r => [r.fullName, r.status])).toEqual([['TestAdd', 'failed'], ['TestSub', 'passed']])
+    expect(results[0]).toMatchObject({ message: 'math_test.go:12: got 3, want 4', location: { file: 'math_test.go', line: 12 } })
+  })
+})
+
+describe('formatTestRunSummary', () => {
+  it('should list failures with their locations', () => {
+    const summary: TestRunSummary = {
+      framework: 'vitest', command: 'npx vitest run', exitCode: 1,
+      passed: 1, failed: 1, skipped: 0, durationMs: 1234,
+      results: [
+        { fullName: 'math adds', file: '/ws/src/math.test.ts', status: 'passed' },
+        { fullName: 'math subtracts', file: '/ws/src/math.test.ts', status: 'failed', message: 'expected 1 to be 2', location: { file: '/ws/src/math.test.ts', line: 9, column: 15 } },
+      ],
+    }
+
+    expect(formatTestRunSummary(summary, WS)).toBe([
+      'vitest: 1 passed, 1 failed, 0 skipped (1.2s)',
+      '',
+      'FAILED src/math.test.ts > math subtracts',
+      '  at src/math.test.ts:9:15',
+      '  expected 1 to be 2',
+    ].join('\n'))
+    expect(formatTestRunSummary({ ...summary, results: [], output: 'Error: no tests' }, WS)).toContain('No test results were reported (exit code 1).')
+  })
+})
@@ -0,0 +1,114 @@
+/**
+ * VS Code 主题导入测试：include 继承链、工作台颜色、语法高亮与终端配色映射
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  resolveVSCodeTheme,
+  mapWorkbenchColors,
+  mapTokenColors,
+  mapTerminalColors,
+  convertVSCodeTheme,
+} from '@/renderer/utils/vscodeTheme'
+import { builtinThemes } from '@/renderer/config/themeConfig'
+
+const fallback = {
+  dark: builtinThemes.find(t => t.id === 'adnify-dark')!.colors,
+  light: builtinThemes.find(t => t.id === 'dawn')!.colors,
+}
+
+const reader = (files: Record<string, string>) => async (path: string) => files[path] ?? null
+
+describe('resolveVSCodeTheme', () => {
+  it('should merge included themes with the including theme taking precedence', async () => {
+    const theme = await resolveVSCodeTheme('/themes/child.json', reader({
+      '/themes/child.json': `{
+        // JSONC
+        "name": "Child // https://example.com",
+        "include": "./base.json",
+        "colors": { "editor.background": "#101010", },
+        "tokenColors": [{ "scope": "comment", "settings": { "foreground": "#00ff00" } }],
+      }`,
+      '/themes/base.json': JSON.stringify({
+        type: 'dark',
+        colors: { 'editor.background': '#000000', 'editor.foreground': '#eeeeee' },
+        tokenColors: [{ scope: 'comment', settings: { foreground: '#888888' } }],
+      }),
+    }))
+
+    expect(theme.name).toBe('Child // https://example.com')
+    expect(theme.type).toBe('dark')
+    expect(theme.colors).toEqual({ 'editor.background': '#101010', 'editor.foreground': '#eeeeee' })
+    expect(theme.tokenColors.map(t => t.settings.foreground)).toEqual(['#888888', '#00ff00'])
+  })
+
+  it('should reject circular includes and missing files', async () => {
+    const files = {
+      '/a.json': JSON.stringify({ include: './b.json' }),
+      '/b.json': JSON.stringify({ include: './a.json' }),
+    }
+    await expect(resolveVSCodeTheme('/a.json', reader(files))).rejects.toThrow(/Circular/)
+    await expect(resolveVSCodeTheme('/missing.json', reader(files))).rejects.toThrow(/Cannot read/)
+  })
+})
+
+describe('mapWorkbenchColors', () => {
+  it('should map colors to RGB strings, flattening alpha onto the editor background', () => {
+    const colors = mapWorkbenchColors({
+      'editor.background': '#000000',
+      'editor.foreground': '#fff',
+      'list.hoverBackground': '#ffffff80',
+    }, fallback.dark)
+
+    expect(colors.background).toBe('0 0 0')
+    expect(colors.textPrimary).toBe('255 255 255')
+    expect(colors.surfaceHover).toBe('128 128 128')
+    expect(colors.accent).toBe(fallback.dark.accent)
+  })
+})
+
+describe('mapTokenColors', () => {
+  it('should emit scope rules and pick Monarch tokens by longest matching scope', () => {
+    const rules = mapTokenColors([
+      { settings: { foreground: '#cccccc' } },
+      { scope: 'keyword', settings: { foreground: '#ff0000' } },
+      { scope: ['keyword.control', 'storage.type'], settings: { foreground: '#0000ff', fontStyle: 'bold' } },
+      { scope: 'meta.block string', settings: { foreground: '#123456' } },
+      { scope: 'string', settings: { fontStyle: 'italic' } },
+    ], '0 0 0')
+
+    expect(rules).toContainEqual({ token: '', foreground: 'cccccc' })
+    expect(rules).toContainEqual({ token: 'keyword.control', foreground: '0000ff', fontStyle: 'bold' })
+    expect(rules.find(r => r.token === 'keyword')).toEqual({ token: 'keyword', foreground: 'ff0000' })
+    expect(rules.filter(r => r.token === 'keyword').pop()).toEqual({ token: 'keyword', foreground: '0000ff', fontStyle: 'bold' })
+    expect(rules.some(r => r.token === 'meta.block string')).toBe(false)
+    // 只设置了 fontStyle 的 string 规则不参与 Monarch token 选择
+    expect(rules.filter(r => r.token === 'string')).toEqual([{ token: 'string', fontStyle: 'italic' }])
+  })
+})
+
+describe('mapTerminalColors', () => {
+  it('should map ANSI colors and fall back to panel and editor colors', () => {
+    expect(mapTerminalColors({
+      'panel.background': '#111111',
+      'editor.foreground': '#dddddd',
+      'terminal.ansiRed': '#ff5555',
+      'terminal.ansiBrightBlue': 'not-a-color',
+    })).toEqual({ background: '#111111', foreground: '#dddddd', red: '#ff5555' })
+  })
+})
+
+describe('convertVSCodeTheme', () => {
+  it('should derive id and type from the theme name and background', () => {
+    const light = convertVSCodeTheme({ colors: { 'editor.background': '#fafafa' }, tokenColors: [] }, fallback, '/x/Solarized Light-color-theme.json')
+    expect(light.id).toBe('vscode-solarized-light')
+    expect(light.name).toBe('Solarized Light')
+    expect(light.type).toBe('light')
+    expect(light.monacoTheme).toBe('vs')
+    expect(light.colors.accent).toBe(fallback.light.accent)
+
+    const dark = convertVSCodeTheme({ name: 'One Dark Pro', type: 'dark', colors: {}, tokenColors: [] }, fallback)
+    expect(dark.id).toBe('vscode-one-dark-pro')
+    expect(dark.type).toBe('dark')
+  })
+})
@@ -0,0 +1,53 @@
+/**
+ * 共享文件编辑逻辑测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { editFile, applyPatch, type FileEditIO } from '@shared/utils/fileEdits'
+
+function memoryIO(files: Record<string, string>, failWrites: string[] = []): FileEditIO {
+  return {
+    read: async p => files[p] ?? null,
+    write: async (p, content) => {
+      if (failWrites.includes(p)) return false
+      files[p] = content
+      return true
+    },
+    delete: async p => delete files[p],
+    exists: async p => p in files,
+  }
+}
+
+describe('editFile', () => {
+  it('should insert new_string literally, without replacement patterns', async () => {
+    const files = { '/ws/a.ts': 'const re = OLD\n' }
+    const result = await editFile(memoryIO(files), '/ws/a.ts', 'OLD', "s.replace(/x/, '$&$1')")
+
+    expect(result.success).toBe(true)
+    expect(files['/ws/a.ts']).toBe("const re = s.replace(/x/, '$&$1')\n")
+  })
+})
+
+describe('applyPatch', () => {
+  it('should restore earlier files when a later write fails', async () => {
+    const files = { '/ws/a.ts': 'a\n', '/ws/b.ts': 'b\n' }
+    const patch = [
+      '*** Begin Patch',
+      '*** Update File: a.ts',
+      '@@',
+      '-a',
+      '+A',
+      '*** Update File: b.ts',
+      '@@',
+      '-b',
+      '+B',
+      '*** End Patch',
+    ].join('\n')
+
+    const result = await applyPatch(memoryIO(files, ['/ws/b.ts']), patch, { resolvePath: p => `/ws/${p}` })
+
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('all changes from this patch were reverted')
+    expect(files).toEqual({ '/ws/a.ts': 'a\n', '/ws/b.ts': 'b\n' })
+  })
+})
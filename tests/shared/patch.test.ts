@@ -0,0 +1,160 @@
+/**
+ * 多文件补丁解析与应用测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parsePatch, getPatchPaths, isDestructivePatch, applyFilePatch, formatPatchSummary, PatchParseError } from '@shared/utils/patch'
+import { getToolApprovalType } from '@shared/config/tools'
+
+const GREET = 'export function greet(name: string) {\n  return `Hello, ${name}!`\n}\n'
+const MATH = 'export const add = (a: number, b: number) => a + b\nexport const sub = (a: number, b: number) => a - b\n'
+
+describe('parsePatch', () => {
+  it('should parse a git diff with add, delete, rename and modify', () => {
+    const patch = [
+      'diff --git a/src/greet.ts b/src/greet.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/greet.ts',
+      '+++ b/src/greet.ts',
+      '@@ -1,3 +1,3 @@',
+      ' export function greet(name: string) {',
+      '-  return `Hello, ${name}!`',
+      '+  return `Hi, ${name}!`',
+      ' }',
+      'diff --git a/src/new.ts b/src/new.ts',
+      'new file mode 100644',
+      '--- /dev/null',
+      '+++ b/src/new.ts',
+      '@@ -0,0 +1 @@',
+      '+export const x = 1',
+      'diff --git a/src/old.ts b/src/old.ts',
+      'deleted file mode 100644',
+      '--- a/src/old.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-export const y = 2',
+      'diff --git a/src/a.ts b/src/b.ts',
+      'similarity index 100%',
+      'rename from src/a.ts',
+      'rename to src/b.ts',
+    ].join('\n')
+
+    expect(parsePatch(patch).map(f => [f.type, f.path, f.movePath])).toEqual([
+      ['update', 'src/greet.ts', undefined],
+      ['add', 'src/new.ts', undefined],
+      ['delete', 'src/old.ts', undefined],
+      ['update', 'src/a.ts', 'src/b.ts'],
+    ])
+    expect(getPatchPaths(patch)).toEqual(['src/greet.ts', 'src/new.ts', 'src/old.ts', 'src/a.ts', 'src/b.ts'])
+  })
+
+  it('should parse a V4A patch with anchors and moves', () => {
+    const patch = [
+      '*** Begin Patch',
+      '*** Update File: src/math.ts',
+      '*** Move to: src/ops.ts',
+      '@@ export const add',
+      '-export const sub = (a: number, b: number) => a - b',
+      '+export const sub = (a: number, b: number) => b - a',
+      '*** Add File: src/id.ts',
+      '+export const id = <T>(x: T) => x',
+      '*** Delete File: src/legacy.ts',
+      '*** End Patch',
+    ].join('\n')
+
+    const files = parsePatch(patch)
+    expect(files.map(f => [f.type, f.path, f.movePath])).toEqual([
+      ['update', 'src/math.ts', 'src/ops.ts'],
+      ['add', 'src/id.ts', undefined],
+      ['delete', 'src/legacy.ts', undefined],
+    ])
+    expect(files[0].hunks[0].anchor).toBe('export const add')
+  })
+
+  it('should reject patches without changes or with duplicate files', () => {
+    expect(() => parsePatch('just some text')).toThrow(PatchParseError)
+    const twice = '*** Begin Patch\n*** Delete File: a.ts\n*** Delete File: a.ts\n*** End Patch'
+    expect(() => parsePatch(twice)).toThrow(/more than once/)
+    expect(getPatchPaths(twice)).toEqual([])
+  })
+
+  it('should require dangerous approval for patches that delete or move files', () => {
+    const update = '*** Begin Patch\n*** Update File: a.ts\n@@\n-a\n+b\n*** End Patch'
+    const remove = '--- a/a.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-a'
+    const move = '*** Begin Patch\n*** Update File: a.ts\n*** Move to: b.ts\n*** End Patch'
+
+    expect([update, remove, move].map(isDestructivePatch)).toEqual([false, true, true])
+    expect(getToolApprovalType('apply_patch', { patch: update })).toBe('none')
+    expect(getToolApprovalType('apply_patch', { patch: remove })).toBe('dangerous')
+    expect(getToolApprovalType('apply_patch', { patch: move })).toBe('dangerous')
+  })
+})
+
+describe('applyFilePatch', () => {
+  it('should locate hunks when line numbers are wrong', () => {
+    const [file] = parsePatch([
+      '--- a/src/math.ts',
+      '+++ b/src/math.ts',
+      '@@ -40,2 +40,2 @@',
+      ' export const add = (a: number, b: number) => a + b',
+      '-export const sub = (a: number, b: number) => a - b',
+      '+export const sub = (a: number, b: number) => b - a',
+    ].join('\n'))
+
+    const result = applyFilePatch(file, MATH)
+    expect(result.error).toBeUndefined()
+    expect(result.newContent).toBe('export const add = (a: number, b: number) => a + b\nexport const sub = (a: number, b: number) => b - a\n')
+  })
+
+  it('should match ignoring indentation and keep the file text for context lines', () => {
+    const [file] = parsePatch([
+      '*** Begin Patch',
+      '*** Update File: src/greet.ts',
+      '@@',
+      ' export function greet(name: string) {',
+      '-return `Hello, ${name}!`',
+      '+  return `Hey, ${name}!`',
+      '*** End Patch',
+    ].join('\n'))
+
+    const result = applyFilePatch(file, GREET.replace(/\n/g, '\r\n'))
+    expect(result.hunks[0]).toMatchObject({ applied: true, match: 'indent' })
+    expect(result.newContent).toBe('export function greet(name: string) {\r\n  return `Hey, ${name}!`\r\n}\r\n')
+    expect(formatPatchSummary([result])).toContain('1 hunk(s) matched ignoring whitespace')
+  })
+
+  it('should report each hunk that cannot be applied', () => {
+    const [file] = parsePatch([
+      '--- a/src/greet.ts',
+      '+++ b/src/greet.ts',
+      '@@ -1,2 +1,2 @@',
+      ' export function greet(name: string) {',
+      '-  return `Hello, ${name}!`',
+      '+  return `Hi, ${name}!`',
+      '@@ -3,1 +3,1 @@',
+      '-export default greet',
+      '+export { greet }',
+    ].join('\n'))
+
+    const result = applyFilePatch(file, GREET)
+    expect(result.hunks.map(h => h.applied)).toEqual([true, false])
+    expect(result.error).toMatch(/^Hunk 2: could not find/)
+    expect(formatPatchSummary([result])).toMatch(/^✗ src\/greet\.ts\n {2}Hunk 2/)
+  })
+
+  it('should refuse to add an existing file or update a missing one', () => {
+    const [add, update] = parsePatch([
+      '*** Begin Patch',
+      '*** Add File: src/greet.ts',
+      '+x',
+      '*** Update File: src/missing.ts',
+      '-a',
+      '+b',
+      '*** End Patch',
+    ].join('\n'))
+
+    expect(applyFilePatch(add, GREET).error).toBe('File already exists: src/greet.ts')
+    expect(applyFilePatch(add, null).newContent).toBe('x\n')
+    expect(applyFilePatch(update, null).error).toBe('File not found: src/missing.ts')
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * 权限策略测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parsePermissionPolicy,
+  evaluatePermissionPolicy,
+  getToolPolicyTarget,
+  toPolicyPath,
+} from '@shared/config/permissionPolicy'
+
+const WORKSPACE = '/work/project'
+
+const policy = parsePermissionPolicy({
+  rules: [
+    { action: 'allow', tools: ['edit_file', 'write_file'], paths: ['src/**', '!**/.env*'] },
+    { action: 'ask', paths: ['migrations/**'], reason: 'Migrations need review' },
+    { action: 'deny', paths: ['**/.env*', 'secrets/**'], reason: 'Secrets' },
+    { action: 'deny', tools: ['run_command'], commands: ['^git\\s+push'] },
+    { action: 'bogus' },
+    { action: 'deny', commands: ['('] },
+  ],
+})
+
+function evaluate(tool: string, args: Record<string, unknown>) {
+  return evaluatePermissionPolicy(policy, getToolPolicyTarget(tool, args), WORKSPACE)?.action ?? null
+}
+
+describe('parsePermissionPolicy', () => {
+  it('should drop invalid rules and regexes', () => {
+    expect(policy.rules).toHaveLength(4)
+    expect(parsePermissionPolicy(undefined)).toEqual({ rules: [] })
+  })
+})
+
+describe('evaluatePermissionPolicy', () => {
+  it('should allow writes under src', () => {
+    expect(evaluate('edit_file', { path: 'src/app.ts' })).toBe('allow')
+    expect(evaluate('write_file', { path: `${WORKSPACE}/src/deep/file.ts` })).toBe('allow')
+  })
+
+  it('should let deny win over allow', () => {
+    expect(evaluate('edit_file', { path: 'src/.env.local' })).toBe('deny')
+    expect(evaluate('read_file', { path: '.env' })).toBe('deny')
+    expect(evaluate('read_multiple_files', { paths: ['src/a.ts', 'secrets/key.pem'] })).toBe('deny')
+  })
+
+  it('should ask for migrations regardless of tool', () => {
+    expect(evaluate('edit_file', { path: 'migrations/001.sql' })).toBe('ask')
+    expect(evaluate('delete_file_or_folder', { path: 'migrations/' })).toBe('ask')
+  })
+
+  it('should fall back to defaults when no rule matches', () => {
+    expect(evaluate('edit_file', { path: 'docs/readme.md' })).toBeNull()
+    expect(evaluate('read_multiple_files', { paths: ['src/a.ts', 'docs/b.md'] })).toBeNull()
+  })
+
+  it('should match command regexes', () => {
+    expect(evaluate('run_command', { command: 'git push origin main' })).toBe('deny')
+    expect(evaluate('run_command', { command: 'git status' })).toBeNull()
+  })
+
+  it('should normalize ".." segments before matching', () => {
+    expect(evaluate('edit_file', { path: 'src/../migrations/a.sql' })).toBe('ask')
+    expect(evaluate('read_file', { path: 'src/../.env' })).toBe('deny')
+    expect(evaluate('read_file', { path: `${WORKSPACE}/src/../.env` })).toBe('deny')
+    expect(evaluate('edit_file', { path: `${WORKSPACE}/docs/../migrations/001.sql` })).toBe('ask')
+    expect(evaluate('apply_patch', { patch: '--- a/src/../migrations/a.sql\n+++ b/src/../migrations/a.sql\n@@ -1 +1 @@\n-a\n+b\n' })).toBe('ask')
+  })
+
+  it('should deny relative paths that escape the workspace', () => {
+    expect(evaluate('edit_file', { path: '../project/migrations/a.sql' })).toBe('deny')
+    expect(evaluate('edit_file', { path: 'src/../../other/a.ts' })).toBe('deny')
+    expect(evaluate('run_command', { command: 'ls', cwd: '..' })).toBe('deny')
+  })
+
+  it('should always deny modifying the policy file, even when rules allow it', () => {
+    const allowAll = parsePermissionPolicy({ rules: [{ action: 'allow' }] })
+    const evaluateWith = (p: typeof policy | null, tool: string, args: Record<string, unknown>) =>
+      evaluatePermissionPolicy(p, getToolPolicyTarget(tool, args), WORKSPACE)?.action ?? null
+
+    expect(evaluateWith(allowAll, 'edit_file', { path: '.adnify/settings.json' })).toBe('deny')
+    expect(evaluateWith(null, 'write_file', { path: `${WORKSPACE}/.adnify/../.adnify/settings.json` })).toBe('deny')
+    expect(evaluateWith(null, 'apply_patch', { patch: '--- a/.adnify/settings.json\n+++ /dev/null\n@@ -1 +0,0 @@\n-{}' })).toBe('deny')
+    expect(evaluatePermissionPolicy(null, { paths: [`${WORKSPACE}/.Adnify/Settings.json`], write: true }, WORKSPACE)?.action).toBe('deny')
+    // 读取不受影响
+    expect(evaluateWith(allowAll, 'read_file', { path: '.adnify/settings.json' })).toBe('allow')
+    expect(evaluatePermissionPolicy(null, { paths: [`${WORKSPACE}/.adnify/settings.json`] }, WORKSPACE)).toBeNull()
+  })
+
+  it('should only apply tool-agnostic rules when no tool is given', () => {
+    expect(evaluatePermissionPolicy(policy, { paths: [`${WORKSPACE}/.env`] }, WORKSPACE)?.action).toBe('deny')
+    expect(evaluatePermissionPolicy(policy, { command: 'git push' }, WORKSPACE)).toBeNull()
+  })
+})
+
+describe('toPolicyPath', () => {
+  it('should make paths workspace-relative', () => {
+    expect(toPolicyPath('/work/project/src/a.ts', WORKSPACE)).toBe('src/a.ts')
+    expect(toPolicyPath('C:\\Work\\Project\\src\\a.ts', 'c:\\work\\project')).toBe('src/a.ts')
+    expect(toPolicyPath('./src/a.ts', WORKSPACE)).toBe('src/a.ts')
+    expect(toPolicyPath('/other/a.ts', WORKSPACE)).toBe('/other/a.ts')
+    expect(toPolicyPath('/work/project/src/../../other/a.ts', WORKSPACE)).toBe('/work/other/a.ts')
+    expect(toPolicyPath('C:\\Work\\Project\\src\\..\\.env', 'c:\\work\\project\\')).toBe('.env')
+    expect(toPolicyPath('src//./a/../b.ts', WORKSPACE)).toBe('src/b.ts')
+    expect(toPolicyPath('src/..', WORKSPACE)).toBe('.')
+    expect(toPolicyPath('../a.ts', WORKSPACE)).toBe('../a.ts')
+  })
+})
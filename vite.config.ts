@@ -39,7 +39,10 @@ export default defineConfig({
 								'dugite',
 								'@vscode/ripgrep',
 								'@lancedb/lancedb',
-								'apache-arrow'
+								'apache-arrow',
+								'@huggingface/transformers',
+								'onnxruntime-node',
+								'sharp'
 							]
 						}
 					}
@@ -68,12 +71,47 @@ export default defineConfig({
 								'electron',
 								'@lancedb/lancedb',
 								'apache-arrow',
-								'web-tree-sitter'
+								'web-tree-sitter',
+								'@huggingface/transformers',
+								'onnxruntime-node',
+								'sharp'
 							]
 						}
 					}
 				}
 			},
+			{
+				// headless 命令行入口（纯 Node 运行，不启动 Electron）
+				entry: 'src/main/cli.ts',
+				onstart() {
+					// 开发模式下不需要启动或重启 Electron
+				},
+				vite: {
+					resolve: {
+						alias: {
+							'@': path.resolve(__dirname, './src'),
+							'@shared': path.resolve(__dirname, './src/shared'),
+							'@main': path.resolve(__dirname, './src/main'),
+						}
+					},
+					build: {
+						outDir: 'dist/main',
+						rollupOptions: {
+							external: [
+								'electron',
+								'electron-store',
+								'@anthropic-ai/sdk',
+								'openai',
+								'@google/generative-ai',
+								'@vscode/ripgrep'
+							],
+							output: {
+								banner: '#!/usr/bin/env node'
+							}
+						}
+					}
+				}
+			},
 			{
 				entry: 'src/main/preload.ts',
 				onstart(options) {